@@ -2,37 +2,47 @@
 /**
  * Admin Recovery Tool
  * 
- * Allows recovery of admin accounts if locked out or password forgotten.
+ * Allows recovery of admin accounts if locked out, password forgotten or
+ * two-factor authentication device lost.
  * 
  * Usage:
- *   tsx scripts/admin-recovery.ts <username> <new-password>
+ *   tsx scripts/admin-recovery.ts <username> <new-password> [--reset-2fa]
+ *   tsx scripts/admin-recovery.ts <username> --reset-2fa
  * 
  * Example:
  *   tsx scripts/admin-recovery.ts admin NewPassword123
+ *   tsx scripts/admin-recovery.ts admin --reset-2fa
  */
 
 import Database from 'better-sqlite3';
 import bcrypt from 'bcrypt';
 import path from 'path';
 import fs from 'fs';
-import { validatePassword } from '../src/lib/auth';
+import { validatePassword, type PasswordValidationResult } from '../src/lib/auth';
 
 const dbPath = path.join(process.cwd(), 'data', 'backups.db');
+const RESET_2FA_FLAG = '--reset-2fa';
 
-async function resetAdminPassword(username: string, newPassword: string) {
+function printUsage() {
+  console.error('Usage: tsx scripts/admin-recovery.ts <username> <new-password> [--reset-2fa]');
+  console.error('       tsx scripts/admin-recovery.ts <username> --reset-2fa');
+  console.error('');
+  console.error('Example:');
+  console.error('  tsx scripts/admin-recovery.ts admin NewPassword123');
+  console.error('  tsx scripts/admin-recovery.ts admin --reset-2fa');
+}
+
+async function resetAdminPassword(username: string, newPassword: string | null, resetTwoFactor: boolean) {
   // Validate inputs
-  if (!username || !newPassword) {
+  if (!username || (!newPassword && !resetTwoFactor)) {
     console.error('❌ Error: Missing required arguments');
     console.error('');
-    console.error('Usage: tsx scripts/admin-recovery.ts <username> <new-password>');
-    console.error('');
-    console.error('Example:');
-    console.error('  tsx scripts/admin-recovery.ts admin NewPassword123');
+    printUsage();
     process.exit(1);
   }
 
-  // Validate password meets policy
-  const validation = validatePassword(newPassword);
+  // Validate password meets policy (when a new password is set)
+  const validation: PasswordValidationResult = newPassword ? validatePassword(newPassword) : { valid: true };
   if (!validation.valid) {
     console.error('❌ Error: Password does not meet requirements');
     console.error('');
@@ -86,7 +96,7 @@ async function resetAdminPassword(username: string, newPassword: string) {
     const user = db.prepare('SELECT * FROM users WHERE username = ?').get(username) as {
       id: string;
       username: string;
-      is_admin: number;
+      role: string;
       locked_until: string | null;
       failed_login_attempts: number;
     } | undefined;
@@ -97,21 +107,47 @@ async function resetAdminPassword(username: string, newPassword: string) {
       process.exit(1);
     }
 
-    // Hash new password
-    console.log('🔐 Hashing new password...');
-    const hash = await bcrypt.hash(newPassword, 12);
-
-    // Update user
-    console.log(`📝 Resetting password for user '${username}'...`);
-    db.prepare(`
-      UPDATE users 
-      SET password_hash = ?, 
-          must_change_password = 0,
-          failed_login_attempts = 0,
-          locked_until = NULL,
-          updated_at = CURRENT_TIMESTAMP
-      WHERE username = ?
-    `).run(hash, username);
+    if (newPassword) {
+      // Hash new password
+      console.log('🔐 Hashing new password...');
+      const hash = await bcrypt.hash(newPassword, 12);
+
+      // Update user
+      console.log(`📝 Resetting password for user '${username}'...`);
+      db.prepare(`
+        UPDATE users 
+        SET password_hash = ?, 
+            must_change_password = 0,
+            failed_login_attempts = 0,
+            locked_until = NULL,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE username = ?
+      `).run(hash, username);
+    }
+
+    if (resetTwoFactor) {
+      // Two-factor authentication was added in version 4.5
+      const userColumns = db.prepare('PRAGMA table_info(users)').all() as { name: string }[];
+      if (!userColumns.some(column => column.name === 'totp_secret')) {
+        console.error('❌ Error: Two-factor authentication is not available in this database version');
+        db.close();
+        process.exit(1);
+      }
+
+      // Also unlocks the account, it may have been locked by wrong codes
+      console.log(`📝 Resetting two-factor authentication for user '${username}'...`);
+      db.prepare(`
+        UPDATE users 
+        SET totp_secret = NULL,
+            totp_enabled = 0,
+            totp_recovery_codes = NULL,
+            totp_last_used_step = NULL,
+            failed_login_attempts = 0,
+            locked_until = NULL,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE username = ?
+      `).run(username);
+    }
 
     // Log to audit log (if table exists)
     try {
@@ -126,14 +162,16 @@ async function resetAdminPassword(username: string, newPassword: string) {
             action, category, status, username, details, timestamp
           ) VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
         `).run(
-          'admin_password_reset_cli',
+          newPassword ? 'admin_password_reset_cli' : 'admin_two_factor_reset_cli',
           'system',
           'success',
           'system',
           JSON.stringify({ 
             targetUser: username, 
             method: 'cli',
-            isAdmin: user.is_admin === 1
+            role: user.role,
+            password_reset: !!newPassword,
+            two_factor_reset: resetTwoFactor
           })
         );
       }
@@ -143,17 +181,24 @@ async function resetAdminPassword(username: string, newPassword: string) {
     }
 
     console.log('');
-    console.log('✅ Password reset successfully!');
+    if (newPassword) {
+      console.log('✅ Password reset successfully!');
+    }
+    if (resetTwoFactor) {
+      console.log('✅ Two-factor authentication reset successfully!');
+    }
     console.log('');
     console.log(`   User: ${username}`);
     console.log(`   Status: ${user.locked_until ? 'Unlocked' : 'Active'}`);
-    console.log(`   Admin: ${user.is_admin === 1 ? 'Yes' : 'No'}`);
+    console.log(`   Role: ${user.role}`);
     console.log('');
-    console.log('The user can now login with the new password.');
+    console.log(newPassword
+      ? 'The user can now login with the new password.'
+      : 'The user can now login with their password and set up two-factor authentication again.');
     console.log('');
 
   } catch (error) {
-    console.error('❌ Error: Failed to reset password');
+    console.error('❌ Error: Failed to recover the account');
     console.error(error instanceof Error ? error.message : String(error));
     db.close();
     process.exit(1);
@@ -163,18 +208,17 @@ async function resetAdminPassword(username: string, newPassword: string) {
 }
 
 // Run
-const [,, username, password] = process.argv;
-if (!username || !password) {
+const args = process.argv.slice(2);
+const resetTwoFactor = args.includes(RESET_2FA_FLAG);
+const [username, password] = args.filter(arg => arg !== RESET_2FA_FLAG);
+if (!username || (!password && !resetTwoFactor)) {
   console.error('❌ Error: Missing required arguments');
   console.error('');
-  console.error('Usage: tsx scripts/admin-recovery.ts <username> <new-password>');
-  console.error('');
-  console.error('Example:');
-  console.error('  tsx scripts/admin-recovery.ts admin NewPassword123');
+  printUsage();
   process.exit(1);
 }
 
-resetAdminPassword(username, password).catch((error) => {
+resetAdminPassword(username, password || null, resetTwoFactor).catch((error) => {
   console.error('❌ Unexpected error:');
   console.error(error instanceof Error ? error.message : String(error));
   process.exit(1);
@@ -409,7 +409,8 @@ async function writeBackupToDatabase(payload: any, quiet: boolean = false): Prom
     const isDuplicate = await dbUtils.checkDuplicateBackup({
       server_id: serverId,
       backup_name: payload.Extra['backup-name'],
-      date: backupDate
+      date: backupDate,
+      main_operation: payload.Data.MainOperation
     });
 
     if (isDuplicate) {
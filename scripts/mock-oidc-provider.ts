@@ -0,0 +1,254 @@
+#!/usr/bin/env tsx
+
+import http from 'http';
+import { createHash, createSign, generateKeyPairSync, randomBytes } from 'crypto';
+
+/**
+ * Minimal OpenID Connect identity provider to test single sign-on locally
+ *
+ * Usage: pnpm mock-oidc
+ *
+ * Environment variables:
+ * - MOCK_OIDC_PORT: port to listen on (default: 8668)
+ * - MOCK_OIDC_CLIENT_ID: client ID accepted by the provider (default: duplistatus)
+ * - MOCK_OIDC_CLIENT_SECRET: client secret accepted by the provider (default: duplistatus-secret)
+ *
+ * Configure single sign-on in duplistatus with the issuer, client ID and secret printed at
+ * startup, role claim "groups" and the groups below in the role mapping. The login page of the
+ * provider lets you pick one of the mock users; add `login_hint=<username>` to the authorization
+ * URL to skip it. Groups are only returned by the userinfo endpoint, like many real providers.
+ */
+
+const port = parseInt(process.env.MOCK_OIDC_PORT || '8668', 10);
+const issuer = `http://localhost:${port}`;
+const clientId = process.env.MOCK_OIDC_CLIENT_ID || 'duplistatus';
+const clientSecret = process.env.MOCK_OIDC_CLIENT_SECRET || 'duplistatus-secret';
+
+interface MockUser {
+  username: string;
+  name: string;
+  email: string;
+  groups: string[];
+}
+
+interface AuthorizationCode {
+  user: MockUser;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | null;
+  expiresAt: number;
+}
+
+const mockUsers: MockUser[] = [
+  { username: 'alice', name: 'Alice Admin', email: 'alice@example.com', groups: ['duplistatus-admins'] },
+  { username: 'bob', name: 'Bob Operator', email: 'bob@example.com', groups: ['duplistatus-operators'] },
+  { username: 'carol', name: 'Carol Viewer', email: 'carol@example.com', groups: ['duplistatus-viewers'] },
+  { username: 'dave', name: 'Dave Nogroup', email: 'dave@example.com', groups: [] },
+];
+
+const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const keyId = randomBytes(8).toString('hex');
+const authorizationCodes = new Map<string, AuthorizationCode>();
+const accessTokens = new Map<string, MockUser>();
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: keyId })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = createSign('sha256').update(`${header}.${payload}`).sign(privateKey).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function handleAuthorize(url: URL, res: http.ServerResponse): void {
+  const params = url.searchParams;
+  const redirectUri = params.get('redirect_uri');
+
+  if (params.get('client_id') !== clientId || !redirectUri) {
+    res.writeHead(400, { 'Content-Type': 'text/plain' });
+    res.end('Unknown client_id or missing redirect_uri');
+    return;
+  }
+
+  const redirectWith = (values: Record<string, string>) => {
+    const target = new URL(redirectUri);
+    for (const [key, value] of Object.entries(values)) {
+      target.searchParams.set(key, value);
+    }
+    const state = params.get('state');
+    if (state) {
+      target.searchParams.set('state', state);
+    }
+    res.writeHead(302, { Location: target.toString() });
+    res.end();
+  };
+
+  if (params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+    redirectWith({ error: 'invalid_request', error_description: 'Authorization code flow with PKCE (S256) is required' });
+    return;
+  }
+
+  const loginHint = params.get('login_hint');
+  if (params.get('deny') === '1') {
+    redirectWith({ error: 'access_denied', error_description: 'The user denied the request' });
+    return;
+  }
+
+  const user = mockUsers.find(mockUser => mockUser.username === loginHint);
+  if (!user) {
+    // Show the user picker, each choice repeats the request with a login hint
+    const links = mockUsers.map(mockUser => {
+      const choice = new URL(url.toString());
+      choice.searchParams.set('login_hint', mockUser.username);
+      const groups = mockUser.groups.length > 0 ? mockUser.groups.join(', ') : 'no groups';
+      return `<li><a href="${escapeHtml(choice.pathname + choice.search)}">${escapeHtml(mockUser.name)}</a> (${escapeHtml(groups)})</li>`;
+    });
+    const deny = new URL(url.toString());
+    deny.searchParams.set('deny', '1');
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(`<!DOCTYPE html><html><body><h1>Mock OIDC provider</h1><p>Sign in as:</p><ul>${links.join('')}</ul>` +
+      `<p><a href="${escapeHtml(deny.pathname + deny.search)}">Deny access</a></p></body></html>`);
+    return;
+  }
+
+  const code = randomBytes(24).toString('base64url');
+  authorizationCodes.set(code, {
+    user,
+    redirectUri,
+    codeChallenge: params.get('code_challenge') || '',
+    nonce: params.get('nonce'),
+    expiresAt: Date.now() + 60 * 1000,
+  });
+  console.log(`[Mock OIDC] Authorized ${user.username}`);
+  redirectWith({ code });
+}
+
+async function handleToken(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const params = new URLSearchParams(await readBody(req));
+
+  // Accept client_secret_basic and client_secret_post
+  let requestClientId = params.get('client_id');
+  let requestClientSecret = params.get('client_secret');
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Basic ')) {
+    const [id, secret] = Buffer.from(authorization.substring(6), 'base64').toString('utf8').split(':');
+    requestClientId = decodeURIComponent(id);
+    requestClientSecret = decodeURIComponent(secret || '');
+  }
+  if (requestClientId !== clientId || requestClientSecret !== clientSecret) {
+    sendJson(res, 401, { error: 'invalid_client' });
+    return;
+  }
+
+  const code = params.get('code') || '';
+  const authorizationCode = authorizationCodes.get(code);
+  authorizationCodes.delete(code);
+  if (params.get('grant_type') !== 'authorization_code' || !authorizationCode || authorizationCode.expiresAt < Date.now()) {
+    sendJson(res, 400, { error: 'invalid_grant', error_description: 'Unknown or expired authorization code' });
+    return;
+  }
+  if (params.get('redirect_uri') !== authorizationCode.redirectUri) {
+    sendJson(res, 400, { error: 'invalid_grant', error_description: 'redirect_uri does not match the authorization request' });
+    return;
+  }
+  const codeChallenge = createHash('sha256').update(params.get('code_verifier') || '').digest('base64url');
+  if (codeChallenge !== authorizationCode.codeChallenge) {
+    sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    return;
+  }
+
+  const { user } = authorizationCode;
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = randomBytes(24).toString('base64url');
+  accessTokens.set(accessToken, user);
+
+  sendJson(res, 200, {
+    token_type: 'Bearer',
+    access_token: accessToken,
+    expires_in: 300,
+    id_token: signIdToken({
+      iss: issuer,
+      sub: `mock-${user.username}`,
+      aud: clientId,
+      iat: now,
+      exp: now + 300,
+      ...(authorizationCode.nonce ? { nonce: authorizationCode.nonce } : {}),
+      preferred_username: user.username,
+      name: user.name,
+      email: user.email,
+    }),
+  });
+}
+
+function handleUserInfo(req: http.IncomingMessage, res: http.ServerResponse): void {
+  const token = req.headers.authorization?.replace(/^Bearer /, '') || '';
+  const user = accessTokens.get(token);
+  if (!user) {
+    sendJson(res, 401, { error: 'invalid_token' });
+    return;
+  }
+  sendJson(res, 200, {
+    sub: `mock-${user.username}`,
+    preferred_username: user.username,
+    name: user.name,
+    email: user.email,
+    groups: user.groups,
+  });
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url || '/', issuer);
+
+  if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+    sendJson(res, 200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+      scopes_supported: ['openid', 'profile', 'email'],
+    });
+  } else if (req.method === 'GET' && url.pathname === '/jwks') {
+    sendJson(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: keyId, use: 'sig', alg: 'RS256' }] });
+  } else if (req.method === 'GET' && url.pathname === '/authorize') {
+    handleAuthorize(url, res);
+  } else if (req.method === 'POST' && url.pathname === '/token') {
+    handleToken(req, res).catch(error => {
+      console.error('[Mock OIDC] Token error:', error instanceof Error ? error.message : String(error));
+      sendJson(res, 500, { error: 'server_error' });
+    });
+  } else if (req.method === 'GET' && url.pathname === '/userinfo') {
+    handleUserInfo(req, res);
+  } else {
+    sendJson(res, 404, { error: 'not_found' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`[Mock OIDC] Provider listening on ${issuer}`);
+  console.log(`[Mock OIDC] Issuer: ${issuer}`);
+  console.log(`[Mock OIDC] Client ID: ${clientId}`);
+  console.log(`[Mock OIDC] Client secret: ${clientSecret}`);
+  console.log('[Mock OIDC] Role claim: groups (duplistatus-admins, duplistatus-operators, duplistatus-viewers)');
+});
@@ -715,18 +715,18 @@ async function resetUsers(): Promise<void> {
     const adminId = randomUUID();
     const adminPasswordHash = bcrypt.hashSync(ADMIN_PASSWORD!, 12);
     db.prepare(`
-      INSERT INTO users (id, username, password_hash, is_admin, must_change_password)
+      INSERT INTO users (id, username, password_hash, role, must_change_password)
       VALUES (?, ?, ?, ?, ?)
-    `).run(adminId, ADMIN_USERNAME, adminPasswordHash, 1, 0);
+    `).run(adminId, ADMIN_USERNAME, adminPasswordHash, 'admin', 0);
     console.log(`Created admin user: ${ADMIN_USERNAME}`);
     
     // Create regular user
     const userId = randomUUID();
     const userPasswordHash = bcrypt.hashSync(USER_PASSWORD!, 12);
     db.prepare(`
-      INSERT INTO users (id, username, password_hash, is_admin, must_change_password)
+      INSERT INTO users (id, username, password_hash, role, must_change_password)
       VALUES (?, ?, ?, ?, ?)
-    `).run(userId, USER_USERNAME, userPasswordHash, 0, 0);
+    `).run(userId, USER_USERNAME, userPasswordHash, 'operator', 0);
     console.log(`Created user: ${USER_USERNAME}`);
     
     // Delete all sessions to force re-login
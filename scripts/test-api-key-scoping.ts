@@ -0,0 +1,102 @@
+#!/usr/bin/env tsx
+
+/**
+ * Tests the access of API keys to the external endpoints once server groups exist
+ * Runs against a temporary database, the data directory of the application is not touched
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import bcrypt from 'bcrypt';
+import { NextRequest } from 'next/server';
+
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'duplistatus-api-key-scoping-'));
+fs.mkdirSync(path.join(workDir, 'data'));
+fs.writeFileSync(path.join(workDir, 'data', '.duplistatus.key'), randomBytes(32), { mode: 0o400 });
+process.chdir(workDir);
+
+let failures = 0;
+
+function check(passed: boolean, description: string, detail?: string) {
+  console.log(`  ${passed ? '✅' : '❌'} ${description}${detail ? ` (${detail})` : ''}`);
+  if (!passed) {
+    failures++;
+  }
+}
+
+function makeRequest(pathname: string, apiKey?: string): NextRequest {
+  return new NextRequest(`http://localhost:8666${pathname}`, {
+    headers: apiKey ? { 'x-api-key': apiKey } : {},
+  });
+}
+
+async function testApiKeyScoping() {
+  // The database module opens ./data/backups.db on import, so it is loaded after changing directory
+  const { dbOps, waitForDatabaseReady, db } = await import('../src/lib/db');
+  const { GET: getSummary } = await import('../src/app/api/summary/route');
+  const { GET: getMetrics } = await import('../src/app/api/metrics/route');
+  const { GET: getLastBackup } = await import('../src/app/api/lastbackup/[serverId]/route');
+  await waitForDatabaseReady();
+
+  console.log('Testing API key access with server groups...\n');
+
+  for (const id of ['server-a', 'server-b']) {
+    dbOps.upsertServer.run({ id, name: id, server_url: '', alias: '', note: '', server_password: '' });
+  }
+  const apiKey = randomBytes(32).toString('base64url');
+  db.prepare('INSERT INTO api_keys (id, name, key_hash, description, created_by) VALUES (?, ?, ?, ?, ?)')
+    .run('key_test', 'Prometheus', await bcrypt.hash(apiKey, 4), '', null);
+
+  // Test 1: No server group
+  console.log('1. Testing calls without server groups:');
+  const openSummary = await getSummary(makeRequest('/api/summary'));
+  check(openSummary.status === 200, 'Anonymous summary is allowed', `status ${openSummary.status}`);
+
+  // Test 2: Server groups exist
+  dbOps.createServerGroup.run('group-a', 'Tenant A', null);
+  dbOps.addServerGroupServer.run('group-a', 'server-a');
+
+  console.log('\n2. Testing calls once a server group exists:');
+  const anonymousSummary = await getSummary(makeRequest('/api/summary'));
+  check(anonymousSummary.status === 401, 'Anonymous summary is rejected', `status ${anonymousSummary.status}`);
+  const invalidKeySummary = await getSummary(makeRequest('/api/summary', 'not-a-valid-key'));
+  check(invalidKeySummary.status === 401, 'Invalid API key is rejected', `status ${invalidKeySummary.status}`);
+
+  const keySummary = await getSummary(makeRequest('/api/summary', apiKey));
+  const summary = await keySummary.json();
+  check(keySummary.status === 200, 'Summary with an API key is allowed', `status ${keySummary.status}`);
+  check(summary.totalServers === 2, 'Summary with an API key includes every server', `${summary.totalServers} servers`);
+
+  const anonymousMetrics = await getMetrics(makeRequest('/api/metrics'));
+  check(anonymousMetrics.status === 401, 'Anonymous metrics scrape is rejected', `status ${anonymousMetrics.status}`);
+  const keyMetrics = await getMetrics(makeRequest(`/api/metrics?api_key=${apiKey}`));
+  const metrics = await keyMetrics.text();
+  check(keyMetrics.status === 200, 'Metrics scrape with an API key is allowed', `status ${keyMetrics.status}`);
+  check(/^duplistatus_servers 2$/m.test(metrics), 'Metrics with an API key include every server');
+
+  const anonymousLastBackup = await getLastBackup(makeRequest('/api/lastbackup/server-b'));
+  check(anonymousLastBackup.status === 401, 'Anonymous latest backup is rejected', `status ${anonymousLastBackup.status}`);
+  const keyLastBackup = await getLastBackup(makeRequest('/api/lastbackup/server-b', apiKey));
+  check(keyLastBackup.status === 200, 'Latest backup of an ungrouped server with an API key is allowed', `status ${keyLastBackup.status}`);
+
+  // Test 3: Disabled keys
+  db.prepare('UPDATE api_keys SET enabled = 0 WHERE id = ?').run('key_test');
+  console.log('\n3. Testing disabled API keys:');
+  const disabledKeySummary = await getSummary(makeRequest('/api/summary', apiKey));
+  check(disabledKeySummary.status === 401, 'Disabled API key is rejected', `status ${disabledKeySummary.status}`);
+
+  db.close();
+}
+
+testApiKeyScoping()
+  .catch(error => {
+    console.error('❌ Test failed with an error:', error instanceof Error ? error.message : String(error));
+    failures++;
+  })
+  .finally(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+    console.log(failures === 0 ? '\n✅ All API key scoping tests passed' : `\n❌ ${failures} API key scoping test(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+  });
@@ -0,0 +1,95 @@
+#!/usr/bin/env tsx
+
+/**
+ * Tests the cron expressions of the overdue backup schedules (parsing, validation and next runs)
+ */
+
+import { parseCronExpression, validateCronExpression, getNextCronRuns } from '../src/lib/cron-schedule';
+
+let failures = 0;
+
+function check(passed: boolean, description: string, detail?: string) {
+  console.log(`  ${passed ? '✅' : '❌'} ${description}${detail ? ` (${detail})` : ''}`);
+  if (!passed) {
+    failures++;
+  }
+}
+
+function testCronSchedule() {
+  console.log('Testing cron schedules...\n');
+
+  // Test 1: Valid expressions
+  console.log('1. Testing valid expressions:');
+  const validExpressions = [
+    '0 2 * * 1-5',
+    '*/15 * * * *',
+    '0 8-18/2 * * *',
+    '5/10 * * * *',
+    '0 2 1,15 JAN-JUN *',
+    '0 2 * * MON-7',
+    '0 2 * * 7',
+    '*/59 * * * *',
+  ];
+  for (const expression of validExpressions) {
+    const result = validateCronExpression(expression);
+    check(result.isValid, `"${expression}" is valid`, result.error);
+  }
+
+  // Test 2: Invalid expressions
+  console.log('\n2. Testing invalid expressions:');
+  const invalidExpressions = [
+    { expression: '', reason: 'Empty expression' },
+    { expression: '0 2 * *', reason: 'Missing field' },
+    { expression: '0 2 1,,15 * *', reason: 'Empty list value' },
+    { expression: '0, 2 * * *', reason: 'Empty value at the end of a list' },
+    { expression: '0 -5 * * *', reason: 'Range without start' },
+    { expression: '0 2 * * 1-', reason: 'Range without end' },
+    { expression: '*/0 * * * *', reason: 'Step of 0' },
+    { expression: '*/60 * * * *', reason: 'Step larger than the field' },
+    { expression: '0 */ * * *', reason: 'Empty step' },
+    { expression: '0 2 */2/3 * *', reason: 'Two steps' },
+    { expression: '0 1-2-3 * * *', reason: 'Range with three values' },
+    { expression: '0 2 * * 8', reason: 'Day of week out of range' },
+    { expression: '60 2 * * *', reason: 'Minute out of range' },
+    { expression: '0 2 * FOO *', reason: 'Unknown name' },
+    { expression: '0 2 * * 5-1', reason: 'Reversed range' },
+  ];
+  for (const { expression, reason } of invalidExpressions) {
+    const result = validateCronExpression(expression);
+    check(!result.isValid, `"${expression}" is rejected: ${reason}`, result.error);
+  }
+
+  const reversedSunday = validateCronExpression('0 2 * * MON-SUN');
+  check(!reversedSunday.isValid && (reversedSunday.error || '').includes('use 7'), '"0 2 * * MON-SUN" is rejected with a hint to use 7', reversedSunday.error);
+
+  // Test 3: Sunday
+  console.log('\n3. Testing Sunday as 0 and 7:');
+  const sundaySeven = [...parseCronExpression('0 2 * * 7').daysOfWeek];
+  check(sundaySeven.length === 1 && sundaySeven[0] === 0, '7 is Sunday', sundaySeven.join(','));
+  const weekToSunday = [...parseCronExpression('0 2 * * MON-7').daysOfWeek].sort();
+  check(weekToSunday.join(',') === '0,1,2,3,4,5,6', 'MON-7 is the whole week', weekToSunday.join(','));
+
+  // Test 4: Next runs
+  console.log('\n4. Testing next runs:');
+  const after = new Date('2026-03-01T12:00:00Z'); // Sunday
+  const weekdays = getNextCronRuns(['0 2 * * 1-5'], after, 'UTC', 6).map(run => run.toISOString());
+  check(weekdays[0] === '2026-03-02T02:00:00.000Z' && weekdays[5] === '2026-03-09T02:00:00.000Z', 'Weekdays skip the weekend', weekdays.join(', '));
+  const merged = getNextCronRuns(['0 2 * * 1-5', '0 14 * * 6'], new Date('2026-03-06T03:00:00Z'), 'UTC', 2).map(run => run.toISOString());
+  check(merged.join(',') === '2026-03-07T14:00:00.000Z,2026-03-09T02:00:00.000Z', 'Runs of several expressions are merged', merged.join(', '));
+  const lisbon = getNextCronRuns(['0 2 * * *'], new Date('2026-07-01T00:00:00Z'), 'Europe/Lisbon', 1)[0]?.toISOString();
+  check(lisbon === '2026-07-01T01:00:00.000Z', 'Runs follow the time zone', lisbon);
+
+  // Test 5: Day of month AND day of week
+  console.log('\n5. Testing day of month and day of week (both must match):');
+  const firstSundays = getNextCronRuns(['0 2 1-7 * SUN'], after, 'UTC', 3).map(run => run.toISOString().slice(0, 10));
+  check(firstSundays.join(',') === '2026-04-05,2026-05-03,2026-06-07', 'First Sunday of the month', firstSundays.join(', '));
+  const fridayThe13th = getNextCronRuns(['0 0 13 * 5'], after, 'UTC', 2).map(run => run.toISOString().slice(0, 10));
+  check(fridayThe13th.join(',') === '2026-03-13,2026-11-13', 'Friday the 13th', fridayThe13th.join(', '));
+  const never = getNextCronRuns(['0 0 31 2 *'], after, 'UTC', 1);
+  check(never.length === 0, 'February 31st never runs');
+
+  console.log(failures === 0 ? '\n✅ All cron schedule tests passed' : `\n❌ ${failures} cron schedule test(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+testCronSchedule();
@@ -20,7 +20,7 @@ const REQUIRED_TABLES = [
 const REQUIRED_COLUMNS: Record<string, string[]> = {
   servers: ['id', 'name', 'server_url', 'server_password'],
   backups: ['id', 'server_id', 'backup_name', 'backup_id'],
-  users: ['id', 'username', 'password_hash', 'is_admin'],
+  users: ['id', 'username', 'password_hash', 'role'],
   sessions: ['id', 'user_id', 'expires_at'],
   audit_log: ['id', 'timestamp', 'action', 'status'],
   configurations: ['key', 'value'],
@@ -134,14 +134,14 @@ function validateAdminUser(db: Database.Database): ValidationResult {
   try {
     // Check if admin user exists
     const adminUser = db.prepare(`
-      SELECT id, username, password_hash, is_admin, must_change_password
+      SELECT id, username, password_hash, role, must_change_password
       FROM users 
       WHERE username = 'admin'
     `).get() as {
       id: string;
       username: string;
       password_hash: string;
-      is_admin: number;
+      role: string;
       must_change_password: number;
     } | undefined;
 
@@ -161,12 +161,12 @@ function validateAdminUser(db: Database.Database): ValidationResult {
       console.log(`  ✓ Admin username is correct: "${adminUser.username}"`);
     }
 
-    // Validate is_admin flag
-    if (adminUser.is_admin !== 1) {
-      result.errors.push(`Admin user is_admin flag is ${adminUser.is_admin} but expected 1 (true)`);
+    // Validate role
+    if (adminUser.role !== 'admin') {
+      result.errors.push(`Admin user role is "${adminUser.role}" but expected "admin"`);
       result.success = false;
     } else {
-      console.log('  ✓ Admin user has is_admin = true');
+      console.log('  ✓ Admin user has role = admin');
     }
 
     // Validate must_change_password flag
@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { AuditLogger } from '@/lib/audit-logger';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { withCSRF } from '@/lib/csrf-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 
 // DELETE - Remove API key
-export const DELETE = withCSRF(requireAdmin(async (
+export const DELETE = withCSRF(requireRole('admin', async (
   request: NextRequest,
   authContext
 ) => {
@@ -62,7 +62,7 @@ export const DELETE = withCSRF(requireAdmin(async (
 }));
 
 // PATCH - Toggle enabled status
-export const PATCH = withCSRF(requireAdmin(async (
+export const PATCH = withCSRF(requireRole('admin', async (
   request: NextRequest,
   authContext
 ) => {
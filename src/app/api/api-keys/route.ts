@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { AuditLogger } from '@/lib/audit-logger';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { withCSRF } from '@/lib/csrf-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { randomBytes } from 'crypto';
@@ -19,7 +19,7 @@ function generateApiKey(): string {
 }
 
 // GET - List all API keys (without showing actual keys)
-export const GET = requireAdmin(async (
+export const GET = requireRole('admin', async (
   request: NextRequest,
   authContext
 ) => {
@@ -49,7 +49,7 @@ export const GET = requireAdmin(async (
 });
 
 // POST - Create new API key
-export const POST = withCSRF(requireAdmin(async (
+export const POST = withCSRF(requireRole('admin', async (
   request: NextRequest,
   authContext
 ) => {
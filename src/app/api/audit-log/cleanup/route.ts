@@ -2,12 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { ensureDatabaseInitialized } from '@/lib/db';
 import { AuditLogger } from '@/lib/audit-logger';
 import { withCSRF } from '@/lib/csrf-middleware';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { getConfiguration } from '@/lib/db-utils';
 import { getClientIpAddress } from '@/lib/ip-utils';
 
 // POST /api/audit-log/cleanup - Manual cleanup of old audit logs (Admin only)
-export const POST = withCSRF(requireAdmin(async (request: NextRequest, authContext) => {
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
   try {
     await ensureDatabaseInitialized();
 
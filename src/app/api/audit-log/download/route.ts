@@ -2,13 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import { ensureDatabaseInitialized } from '@/lib/db';
 import { AuditLogger, type AuditLogFilter, type AuditCategory } from '@/lib/audit-logger';
 import { withCSRF } from '@/lib/csrf-middleware';
-import { requireAuth } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getAccessibleServerIds } from '@/lib/server-access';
 
 // GET /api/audit-log/download - Download audit logs as CSV or JSON
-export const GET = withCSRF(requireAuth(async (request: NextRequest) => {
+export const GET = withCSRF(requireRole('viewer', async (request: NextRequest, authContext) => {
   try {
     await ensureDatabaseInitialized();
 
+    // The audit log is not scoped per server group, users restricted to their groups cannot read it
+    if (getAccessibleServerIds(authContext) !== null) {
+      return NextResponse.json({ error: 'Access to all servers required' }, { status: 403 });
+    }
+
     const { searchParams } = new URL(request.url);
     const format = searchParams.get('format') || 'csv'; // csv or json
     
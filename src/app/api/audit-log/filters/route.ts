@@ -1,14 +1,20 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { ensureDatabaseInitialized } from '@/lib/db';
 import { AuditLogger } from '@/lib/audit-logger';
 import { withCSRF } from '@/lib/csrf-middleware';
-import { requireAuth } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getAccessibleServerIds } from '@/lib/server-access';
 
 // GET /api/audit-log/filters - Get unique filter values for actions, categories, and statuses
-export const GET = withCSRF(requireAuth(async () => {
+export const GET = withCSRF(requireRole('viewer', async (_request: NextRequest, authContext) => {
   try {
     await ensureDatabaseInitialized();
 
+    // The audit log is not scoped per server group, users restricted to their groups cannot read it
+    if (getAccessibleServerIds(authContext) !== null) {
+      return NextResponse.json({ error: 'Access to all servers required' }, { status: 403 });
+    }
+
     const filterValues = await AuditLogger.getFilterValues();
 
     return NextResponse.json(filterValues);
@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ensureDatabaseInitialized } from '@/lib/db';
 import { withCSRF } from '@/lib/csrf-middleware';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { getConfiguration, setConfiguration } from '@/lib/db-utils';
 import { AuditLogger } from '@/lib/audit-logger';
 import { getClientIpAddress } from '@/lib/ip-utils';
 
 // GET /api/audit-log/retention - Get current retention configuration
-export const GET = withCSRF(async (request: NextRequest) => {
+export const GET = withCSRF(requireRole('viewer', async (request: NextRequest) => {
   try {
     await ensureDatabaseInitialized();
 
@@ -25,10 +25,10 @@ export const GET = withCSRF(async (request: NextRequest) => {
       { status: 500 }
     );
   }
-});
+}));
 
 // PATCH /api/audit-log/retention - Update retention configuration (Admin only)
-export const PATCH = withCSRF(requireAdmin(async (request: NextRequest, authContext) => {
+export const PATCH = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
   try {
     await ensureDatabaseInitialized();
 
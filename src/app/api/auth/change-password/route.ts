@@ -72,7 +72,7 @@ export const POST = withCSRF(requireAuth(async (request: NextRequest, authContex
       id: string;
       username: string;
       password_hash: string;
-      is_admin: number;
+      auth_provider: string;
       must_change_password: number;
     } | undefined;
 
@@ -93,6 +93,24 @@ export const POST = withCSRF(requireAuth(async (request: NextRequest, authContex
       );
     }
 
+    // Single sign-on users manage their password with the identity provider
+    if (user.auth_provider === 'oidc') {
+      await AuditLogger.logAuth(
+        'change_password',
+        authContext.userId,
+        authContext.username,
+        false,
+        { reason: 'Single sign-on account' },
+        ipAddress,
+        userAgent
+      );
+
+      return NextResponse.json(
+        { error: 'Single sign-on users change their password with the identity provider' },
+        { status: 400 }
+      );
+    }
+
     // If current password is provided, verify it (for non-forced changes)
     // If must_change_password is set, skip current password verification
     if (currentPassword && user.must_change_password === 0) {
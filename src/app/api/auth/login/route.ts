@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { dbOps, ensureDatabaseInitialized } from '@/lib/db';
 import { verifyPassword } from '@/lib/auth';
-import { createSession, validateSession } from '@/lib/session-csrf';
 import { AuditLogger } from '@/lib/audit-logger';
 import { withCSRF } from '@/lib/csrf-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
+import { completeLocalLogin } from '@/lib/login';
+import { setTwoFactorChallengeCookie } from '@/lib/two-factor';
 
 const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
 
@@ -51,7 +52,9 @@ export const POST = withCSRF(async (request: NextRequest) => {
       id: string;
       username: string;
       password_hash: string;
-      is_admin: number;
+      role: string;
+      auth_provider: string;
+      totp_enabled: number;
       must_change_password: number;
       failed_login_attempts: number;
       locked_until: string | null;
@@ -76,6 +79,25 @@ export const POST = withCSRF(async (request: NextRequest) => {
       );
     }
 
+    // Single sign-on users have no local password
+    if (user.auth_provider === 'oidc') {
+      console.error(`[Login] ${timestamp()}: Login failed - Single sign-on account: ${user.username} from IP: ${ipAddress}`);
+      await AuditLogger.logAuth(
+        'login',
+        user.id,
+        user.username,
+        false,
+        { reason: 'Single sign-on account' },
+        ipAddress,
+        userAgent
+      );
+
+      return NextResponse.json(
+        { error: 'This account signs in with single sign-on' },
+        { status: 403 }
+      );
+    }
+
     // Check if user is locked
     if (user.locked_until) {
       const lockExpiry = new Date(user.locked_until);
@@ -165,69 +187,16 @@ export const POST = withCSRF(async (request: NextRequest) => {
       );
     }
 
-    // Update last login info (also resets failed login attempts)
-    dbOps.updateUserLoginInfo.run(
-      ipAddress,
-      user.id
-    );
-
-    // Get existing session ID or create new one
-    const existingSessionId = request.cookies.get('sessionId')?.value;
-    let sessionId: string;
-
-    if (existingSessionId && validateSession(existingSessionId)) {
-      // Update existing session with user ID
-      sessionId = existingSessionId;
-      dbOps.updateSessionUser.run(
-        user.id,
-        ipAddress,
-        userAgent,
-        sessionId
-      );
-    } else {
-      // Create new session with user ID
-      sessionId = createSession(user.id, ipAddress, userAgent);
+    // With two-factor authentication the session is only created after the second step
+    // (failed attempts are not reset here, so wrong codes count towards the lockout)
+    if (user.totp_enabled === 1) {
+      console.log(`[Login] ${timestamp()}: Password verified, two-factor code required for user: ${user.username} from IP: ${ipAddress}`);
+      const response = NextResponse.json({ success: false, twoFactorRequired: true });
+      setTwoFactorChallengeCookie(response, user.id);
+      return response;
     }
 
-    // Log successful login
-    await AuditLogger.logAuth(
-      'login',
-      user.id,
-      user.username,
-      true,
-      { 
-        is_admin: user.is_admin === 1,
-        must_change_password: user.must_change_password === 1
-      },
-      ipAddress,
-      userAgent
-    );
-
-    // Prepare response
-    const response = NextResponse.json({
-      success: true,
-      user: {
-        id: user.id,
-        username: user.username,
-        isAdmin: user.is_admin === 1,
-        mustChangePassword: user.must_change_password === 1,
-      },
-    });
-
-    // Set session cookie
-    // Note: Secure cookies are disabled by default to support HTTP connections
-    // Set SECURE_COOKIES=true in .env if you're using HTTPS
-    const useSecureCookies = process.env.SECURE_COOKIES === 'true';
-    
-    response.cookies.set('sessionId', sessionId, {
-      httpOnly: true,
-      secure: useSecureCookies,
-      sameSite: 'lax',
-      maxAge: 24 * 60 * 60, // 24 hours
-      path: '/',
-    });
-
-    return response;
+    return await completeLocalLogin(request, user);
 
   } catch (error) {
     console.error('[Auth] Login error:', error);
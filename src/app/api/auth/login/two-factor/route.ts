@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { dbOps, ensureDatabaseInitialized } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit-logger';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { completeLocalLogin } from '@/lib/login';
+import {
+  clearTwoFactorChallengeCookie,
+  decodeTwoFactorChallenge,
+  twoFactorChallengeCookieName,
+  verifyTwoFactorCode,
+} from '@/lib/two-factor';
+
+const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
+
+interface TwoFactorLoginRequest {
+  code: string;
+}
+
+// POST /api/auth/login/two-factor - Second login step, verifies a TOTP or recovery code
+export const POST = withCSRF(async (request: NextRequest) => {
+  const ipAddress = getClientIpAddress(request);
+  const userAgent = request.headers.get('user-agent') || 'unknown';
+
+  try {
+    await ensureDatabaseInitialized();
+
+    const body = await request.json() as TwoFactorLoginRequest;
+    const code = typeof body.code === 'string' ? body.code.trim() : '';
+
+    const challenge = decodeTwoFactorChallenge(request.cookies.get(twoFactorChallengeCookieName)?.value);
+    const user = challenge ? dbOps.getUserById.get(challenge.userId) as {
+      id: string;
+      username: string;
+      role: string;
+      totp_enabled: number;
+      must_change_password: number;
+      failed_login_attempts: number;
+      locked_until: string | null;
+    } | undefined : undefined;
+
+    if (!user || user.totp_enabled !== 1) {
+      console.error(`[Login] ${timestamp()}: Two-factor step failed - Missing or expired login challenge from IP: ${ipAddress}`);
+      const response = NextResponse.json(
+        { error: 'Your login has expired, please log in again', loginExpired: true },
+        { status: 401 }
+      );
+      clearTwoFactorChallengeCookie(response);
+      return response;
+    }
+
+    // The account may have been locked by failed attempts since the password step
+    if (user.locked_until && new Date(user.locked_until) > new Date()) {
+      const lockExpiry = new Date(user.locked_until);
+      const response = NextResponse.json(
+        {
+          error: 'Account is locked due to too many failed login attempts',
+          lockedUntil: lockExpiry.toISOString(),
+          minutesRemaining: Math.ceil((lockExpiry.getTime() - Date.now()) / 60000)
+        },
+        { status: 403 }
+      );
+      clearTwoFactorChallengeCookie(response);
+      return response;
+    }
+
+    const method = code ? verifyTwoFactorCode(user.id, code) : null;
+
+    if (!method) {
+      // Wrong codes count towards the same lockout as wrong passwords
+      const newFailedAttempts = user.failed_login_attempts + 1;
+      dbOps.incrementFailedLoginAttempts.run(user.id);
+      const locked = newFailedAttempts >= 5;
+
+      console.error(`[Login] ${timestamp()}: Login failed - Invalid two-factor code for user: ${user.username} (attempt ${newFailedAttempts}/5) from IP: ${ipAddress}`);
+      await AuditLogger.logAuth(
+        'login',
+        user.id,
+        user.username,
+        false,
+        {
+          reason: locked ? 'Too many failed attempts' : 'Invalid two-factor code',
+          failed_attempts: newFailedAttempts
+        },
+        ipAddress,
+        userAgent
+      );
+
+      if (locked) {
+        const response = NextResponse.json(
+          {
+            error: 'Account locked due to too many failed login attempts',
+            lockedUntil: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
+            minutesRemaining: 15
+          },
+          { status: 403 }
+        );
+        clearTwoFactorChallengeCookie(response);
+        return response;
+      }
+
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 401 }
+      );
+    }
+
+    const response = await completeLocalLogin(request, user, { two_factor: method });
+    clearTwoFactorChallengeCookie(response);
+    return response;
+
+  } catch (error) {
+    console.error('[Auth] Two-factor login error:', error instanceof Error ? error.message : String(error));
+    await AuditLogger.logAuth(
+      'login',
+      null,
+      'unknown',
+      false,
+      {
+        reason: 'Internal error',
+        error: error instanceof Error ? error.message : String(error)
+      },
+      ipAddress,
+      userAgent,
+      error instanceof Error ? error.message : String(error)
+    );
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
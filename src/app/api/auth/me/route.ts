@@ -22,8 +22,12 @@ export const GET = withCSRF(async (request: NextRequest) => {
       user: {
         id: authContext.userId,
         username: authContext.username,
+        role: authContext.role,
         isAdmin: authContext.isAdmin,
+        authProvider: authContext.authProvider,
         mustChangePassword: authContext.mustChangePassword,
+        twoFactorEnabled: authContext.twoFactorEnabled,
+        twoFactorSetupRequired: authContext.twoFactorSetupRequired,
       },
     });
 
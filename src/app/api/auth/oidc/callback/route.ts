@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { dbOps, ensureDatabaseInitialized } from '@/lib/db';
+import { getOidcConfig } from '@/lib/db-utils';
+import { createSession, setSessionCookie } from '@/lib/session-csrf';
+import { AuditLogger } from '@/lib/audit-logger';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import {
+  clearOidcFlowCookie,
+  completeOidcLogin,
+  decodeOidcFlow,
+  getOidcErrorUrl,
+  getOidcRedirectUri,
+  getRequestOrigin,
+  isOidcConfigured,
+  oidcFlowCookieName,
+  provisionOidcUser,
+  sanitizeRedirectPath,
+  type OidcLoginError,
+} from '@/lib/oidc';
+
+const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
+
+// GET /api/auth/oidc/callback - Complete a single sign-on login returning from the identity provider
+export async function GET(request: NextRequest) {
+  const ipAddress = getClientIpAddress(request);
+  const userAgent = request.headers.get('user-agent') || 'unknown';
+  const params = request.nextUrl.searchParams;
+  const flow = decodeOidcFlow(request.cookies.get(oidcFlowCookieName)?.value);
+  // Checked again here, the flow cookie may come from an older version that stored unsafe paths
+  const redirect = sanitizeRedirectPath(flow?.redirect || null);
+
+  const failLogin = async (error: OidcLoginError, reason: string, username: string = 'unknown') => {
+    console.error(`[OIDC] ${timestamp()}: Login failed - ${reason} for username: ${username} from IP: ${ipAddress}`);
+    await AuditLogger.logAuth(
+      'login',
+      null,
+      username,
+      false,
+      { method: 'oidc', reason },
+      ipAddress,
+      userAgent
+    );
+
+    const response = NextResponse.redirect(getOidcErrorUrl(request, error, redirect));
+    clearOidcFlowCookie(response);
+    return response;
+  };
+
+  try {
+    await ensureDatabaseInitialized();
+
+    const config = getOidcConfig();
+    if (!isOidcConfigured(config)) {
+      return await failLogin('sso_disabled', 'Single sign-on is disabled');
+    }
+
+    // The provider reports errors (e.g. access denied) as query parameters
+    const providerError = params.get('error');
+    if (providerError) {
+      const description = params.get('error_description');
+      return await failLogin('sso_failed', `Provider error: ${providerError}${description ? ` (${description})` : ''}`);
+    }
+
+    if (!flow) {
+      return await failLogin('sso_failed', 'Missing or expired login state');
+    }
+
+    if (params.get('state') !== flow.state) {
+      return await failLogin('sso_failed', 'State mismatch');
+    }
+
+    const code = params.get('code');
+    if (!code) {
+      return await failLogin('sso_failed', 'Missing authorization code');
+    }
+
+    const claims = await completeOidcLogin(config, code, flow, getOidcRedirectUri(request, config));
+    const result = await provisionOidcUser(claims, config);
+
+    if ('error' in result) {
+      const reason = result.error === 'sso_no_role'
+        ? 'No role mapped from the identity provider claims'
+        : 'Username belongs to a local account';
+      return await failLogin(result.error, reason, result.username);
+    }
+
+    const { user } = result;
+
+    // Update last login info and create the session
+    dbOps.updateUserLoginInfo.run(ipAddress, user.id);
+    const sessionId = createSession(user.id, ipAddress, userAgent);
+
+    console.log(`[OIDC] ${timestamp()}: Login successful for username: ${user.username}${user.created ? ' (new user)' : ''} from IP: ${ipAddress}`);
+    await AuditLogger.logAuth(
+      'login',
+      user.id,
+      user.username,
+      true,
+      {
+        method: 'oidc',
+        role: user.role,
+        subject: String(claims.sub),
+        user_created: user.created
+      },
+      ipAddress,
+      userAgent
+    );
+
+    const response = NextResponse.redirect(new URL(redirect, getRequestOrigin(request)));
+    setSessionCookie(response, sessionId);
+    clearOidcFlowCookie(response);
+    return response;
+  } catch (error) {
+    return await failLogin('sso_failed', error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureDatabaseInitialized } from '@/lib/db';
+import { getOidcConfig } from '@/lib/db-utils';
+import {
+  createOidcAuthorizationRequest,
+  discoverOidcProvider,
+  getOidcErrorUrl,
+  getOidcRedirectUri,
+  isOidcConfigured,
+  sanitizeRedirectPath,
+  setOidcFlowCookie,
+} from '@/lib/oidc';
+
+// GET /api/auth/oidc/login - Start a single sign-on login by redirecting to the identity provider
+export async function GET(request: NextRequest) {
+  const redirect = sanitizeRedirectPath(request.nextUrl.searchParams.get('redirect'));
+
+  try {
+    await ensureDatabaseInitialized();
+
+    const config = getOidcConfig();
+    if (!isOidcConfigured(config)) {
+      return NextResponse.redirect(getOidcErrorUrl(request, 'sso_disabled', redirect));
+    }
+
+    const metadata = await discoverOidcProvider(config.issuer);
+    const { url, flow } = createOidcAuthorizationRequest(config, metadata, getOidcRedirectUri(request, config), redirect);
+
+    const response = NextResponse.redirect(url);
+    setOidcFlowCookie(response, flow);
+    return response;
+  } catch (error) {
+    console.error('[OIDC] Failed to start single sign-on login:', error instanceof Error ? error.message : String(error));
+    return NextResponse.redirect(getOidcErrorUrl(request, 'sso_failed', redirect));
+  }
+}
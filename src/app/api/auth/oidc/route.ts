@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getOidcConfig } from '@/lib/db-utils';
+import { isOidcConfigured } from '@/lib/oidc';
+
+// GET /api/auth/oidc - Single sign-on availability for the login page (public)
+export async function GET() {
+  try {
+    const config = getOidcConfig();
+    const enabled = isOidcConfigured(config);
+    return NextResponse.json({
+      enabled,
+      buttonLabel: enabled ? config.buttonLabel : null,
+    });
+  } catch (error) {
+    console.error('Error fetching single sign-on status:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json({ enabled: false, buttonLabel: null });
+  }
+}
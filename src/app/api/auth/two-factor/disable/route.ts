@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuditLogger } from '@/lib/audit-logger';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireAuth } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { disableTwoFactor, verifyUserPassword } from '@/lib/two-factor';
+
+interface DisableTwoFactorRequest {
+  password: string;
+}
+
+// POST /api/auth/two-factor/disable - Turn off two-factor authentication (requires the password)
+export const POST = withCSRF(requireAuth(async (request: NextRequest, authContext) => {
+  try {
+    if (!authContext.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json() as DisableTwoFactorRequest;
+    const password = typeof body.password === 'string' ? body.password : '';
+    const ipAddress = getClientIpAddress(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+
+    if (!await verifyUserPassword(authContext.userId, password)) {
+      await AuditLogger.logAuth(
+        'two_factor_disabled',
+        authContext.userId,
+        authContext.username,
+        false,
+        { reason: 'Invalid password' },
+        ipAddress,
+        userAgent
+      );
+
+      return NextResponse.json(
+        { error: 'Password is incorrect' },
+        { status: 401 }
+      );
+    }
+
+    disableTwoFactor(authContext.userId);
+
+    await AuditLogger.logAuth(
+      'two_factor_disabled',
+      authContext.userId,
+      authContext.username,
+      true,
+      {},
+      ipAddress,
+      userAgent
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    console.error('[Auth] Disable two-factor error:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}));
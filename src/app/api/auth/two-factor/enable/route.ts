@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuditLogger } from '@/lib/audit-logger';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireAuth } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { enableTwoFactor } from '@/lib/two-factor';
+
+interface EnableTwoFactorRequest {
+  code: string;
+}
+
+// POST /api/auth/two-factor/enable - Confirm the enrollment with a code and get the recovery codes
+export const POST = withCSRF(requireAuth(async (request: NextRequest, authContext) => {
+  try {
+    if (authContext.authProvider !== 'local') {
+      return NextResponse.json(
+        { error: 'Single sign-on users set up two-factor authentication with the identity provider' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json() as EnableTwoFactorRequest;
+    const code = typeof body.code === 'string' ? body.code.trim() : '';
+    const ipAddress = getClientIpAddress(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+
+    const recoveryCodes = code ? enableTwoFactor(authContext.userId, code) : null;
+    if (!recoveryCodes) {
+      await AuditLogger.logAuth(
+        'two_factor_enabled',
+        authContext.userId,
+        authContext.username,
+        false,
+        { reason: 'Invalid verification code' },
+        ipAddress,
+        userAgent
+      );
+
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 400 }
+      );
+    }
+
+    await AuditLogger.logAuth(
+      'two_factor_enabled',
+      authContext.userId,
+      authContext.username,
+      true,
+      { recovery_codes: recoveryCodes.length },
+      ipAddress,
+      userAgent
+    );
+
+    return NextResponse.json({
+      success: true,
+      recoveryCodes,
+    });
+  } catch (error) {
+    console.error('[Auth] Enable two-factor error:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}));
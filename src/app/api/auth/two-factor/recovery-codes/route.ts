@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuditLogger } from '@/lib/audit-logger';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireAuth } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { regenerateRecoveryCodes, verifyUserPassword } from '@/lib/two-factor';
+
+interface RegenerateRecoveryCodesRequest {
+  password: string;
+}
+
+// POST /api/auth/two-factor/recovery-codes - Replace the recovery codes (requires the password)
+export const POST = withCSRF(requireAuth(async (request: NextRequest, authContext) => {
+  try {
+    if (!authContext.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json() as RegenerateRecoveryCodesRequest;
+    const password = typeof body.password === 'string' ? body.password : '';
+    const ipAddress = getClientIpAddress(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+
+    if (!await verifyUserPassword(authContext.userId, password)) {
+      await AuditLogger.logAuth(
+        'two_factor_recovery_codes_regenerated',
+        authContext.userId,
+        authContext.username,
+        false,
+        { reason: 'Invalid password' },
+        ipAddress,
+        userAgent
+      );
+
+      return NextResponse.json(
+        { error: 'Password is incorrect' },
+        { status: 401 }
+      );
+    }
+
+    const recoveryCodes = regenerateRecoveryCodes(authContext.userId) || [];
+
+    await AuditLogger.logAuth(
+      'two_factor_recovery_codes_regenerated',
+      authContext.userId,
+      authContext.username,
+      true,
+      { recovery_codes: recoveryCodes.length },
+      ipAddress,
+      userAgent
+    );
+
+    return NextResponse.json({
+      success: true,
+      recoveryCodes,
+    });
+  } catch (error) {
+    console.error('[Auth] Regenerate recovery codes error:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}));
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireAuth } from '@/lib/auth-middleware';
+import { getTwoFactorStatus } from '@/lib/two-factor';
+
+// GET /api/auth/two-factor - Two-factor authentication status of the current user
+export const GET = withCSRF(requireAuth(async (request: NextRequest, authContext) => {
+  try {
+    return NextResponse.json(getTwoFactorStatus(authContext.userId));
+  } catch (error) {
+    console.error('[Auth] Get two-factor status error:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}));
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireAuth } from '@/lib/auth-middleware';
+import { beginTwoFactorSetup, getOtpauthUrl, getTwoFactorStatus } from '@/lib/two-factor';
+
+// POST /api/auth/two-factor/setup - Generate a new TOTP secret to enroll an authenticator app
+export const POST = withCSRF(requireAuth(async (request: NextRequest, authContext) => {
+  try {
+    if (authContext.authProvider !== 'local') {
+      return NextResponse.json(
+        { error: 'Single sign-on users set up two-factor authentication with the identity provider' },
+        { status: 400 }
+      );
+    }
+
+    if (getTwoFactorStatus(authContext.userId).enabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled, disable it first to enroll a new device' },
+        { status: 409 }
+      );
+    }
+
+    // The secret stays pending until a code is confirmed with /api/auth/two-factor/enable
+    const secret = beginTwoFactorSetup(authContext.userId);
+
+    return NextResponse.json({
+      secret,
+      otpauthUrl: getOtpauthUrl(secret, authContext.username),
+    });
+  } catch (error) {
+    console.error('[Auth] Two-factor setup error:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}));
@@ -2,15 +2,15 @@ import { withCSRF } from '@/lib/csrf-middleware';
 import { NextResponse, NextRequest } from 'next/server';
 import { db } from '@/lib/db';
 import { getConfigBackupSettings, setConfigBackupSettings } from '@/lib/db-utils';
-import { getAuthContext } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { AuditLogger } from '@/lib/audit-logger';
 
-export const DELETE = withCSRF(async (
+export const DELETE = withCSRF(requireRole('admin', async (
   request: NextRequest,
+  authContext,
   { params }: { params: Promise<{ backupId: string }> }
 ) => {
-  const authContext = await getAuthContext(request);
   // Only allow deletion in development mode
   if (process.env.NODE_ENV === 'production') {
     return NextResponse.json(
@@ -130,4 +130,4 @@ export const DELETE = withCSRF(async (
       { status: 500 }
     );
   }
-});
+}));
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureDatabaseInitialized } from '@/lib/db';
+import { dbUtils } from '@/lib/db-utils';
+import { AuditLogger } from '@/lib/audit-logger';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { getAccessibleServerIds, canAccessServer } from '@/lib/server-access';
+import { acknowledgeBackup, removeBackupAcknowledgement } from '@/lib/backup-acknowledgements';
+import { getBackupProblemState } from '@/lib/utils';
+
+const MAX_COMMENT_LENGTH = 500;
+const MAX_ASSIGNEE_LENGTH = 100;
+
+// POST /api/backups/acknowledge - Acknowledge the current problem (failed or overdue) of a backup (Operator or Admin)
+export const POST = withCSRF(requireRole('operator', async (request: NextRequest, authContext) => {
+  try {
+    await ensureDatabaseInitialized();
+
+    const { serverId, backupName, comment = '', assignee = null } = await request.json() as {
+      serverId?: unknown;
+      backupName?: unknown;
+      comment?: unknown;
+      assignee?: unknown;
+    };
+
+    if (typeof serverId !== 'string' || typeof backupName !== 'string' || !serverId || !backupName) {
+      return NextResponse.json({ error: 'Server ID and backup name are required' }, { status: 400 });
+    }
+    if (typeof comment !== 'string' || comment.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json({ error: `Comment must be a string of at most ${MAX_COMMENT_LENGTH} characters` }, { status: 400 });
+    }
+    if (assignee !== null && (typeof assignee !== 'string' || assignee.length > MAX_ASSIGNEE_LENGTH)) {
+      return NextResponse.json({ error: `Assignee must be a string of at most ${MAX_ASSIGNEE_LENGTH} characters` }, { status: 400 });
+    }
+
+    const server = canAccessServer(getAccessibleServerIds(authContext), serverId)
+      ? (await dbUtils.getServersSummary()).find(summary => summary.id === serverId)
+      : undefined;
+    const backupInfo = server?.backupInfo.find(info => info.name === backupName);
+    if (!server || !backupInfo) {
+      return NextResponse.json({ error: 'Backup not found' }, { status: 404 });
+    }
+
+    const state = getBackupProblemState(backupInfo.lastBackupStatus, backupInfo.isBackupOverdue);
+    if (!state) {
+      return NextResponse.json({ error: 'The backup is not failed or overdue' }, { status: 400 });
+    }
+
+    const acknowledgement = acknowledgeBackup(
+      `${serverId}:${backupName}`,
+      state,
+      comment.trim(),
+      typeof assignee === 'string' && assignee.trim() ? assignee.trim() : null,
+      authContext.username
+    );
+
+    // Log audit event
+    const ipAddress = getClientIpAddress(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+    await AuditLogger.logBackupOperation(
+      'backup_acknowledged',
+      authContext.userId,
+      authContext.username,
+      `${serverId}:${backupName}`,
+      {
+        serverId,
+        serverName: server.alias || server.name,
+        backupName,
+        state,
+        comment: acknowledgement.comment,
+        assignee: acknowledgement.assignee,
+      },
+      ipAddress,
+      userAgent
+    );
+
+    return NextResponse.json({ acknowledgement });
+  } catch (error) {
+    console.error('Error acknowledging backup:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to acknowledge backup' },
+      { status: 500 }
+    );
+  }
+}));
+
+// DELETE /api/backups/acknowledge - Remove the acknowledgement of a backup, its problem is notified again (Operator or Admin)
+export const DELETE = withCSRF(requireRole('operator', async (request: NextRequest, authContext) => {
+  try {
+    await ensureDatabaseInitialized();
+
+    const { serverId, backupName } = await request.json() as { serverId?: unknown; backupName?: unknown };
+
+    if (typeof serverId !== 'string' || typeof backupName !== 'string' || !serverId || !backupName) {
+      return NextResponse.json({ error: 'Server ID and backup name are required' }, { status: 400 });
+    }
+
+    const acknowledgement = canAccessServer(getAccessibleServerIds(authContext), serverId)
+      ? removeBackupAcknowledgement(`${serverId}:${backupName}`)
+      : null;
+    if (!acknowledgement) {
+      return NextResponse.json({ error: 'Acknowledgement not found' }, { status: 404 });
+    }
+
+    // Log audit event
+    const ipAddress = getClientIpAddress(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+    await AuditLogger.logBackupOperation(
+      'backup_acknowledgement_removed',
+      authContext.userId,
+      authContext.username,
+      `${serverId}:${backupName}`,
+      {
+        serverId,
+        backupName,
+        state: acknowledgement.state,
+        acknowledgedBy: acknowledgement.acknowledgedBy,
+      },
+      ipAddress,
+      userAgent
+    );
+
+    return NextResponse.json({ success: true, message: 'Acknowledgement removed successfully' });
+  } catch (error) {
+    console.error('Error removing backup acknowledgement:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to remove backup acknowledgement' },
+      { status: 500 }
+    );
+  }
+}));
@@ -3,11 +3,11 @@ import { NextResponse, NextRequest } from 'next/server';
 import { subMonths } from 'date-fns';
 import { db } from '@/lib/db';
 import { setConfiguration } from '@/lib/db-utils';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { AuditLogger } from '@/lib/audit-logger';
 
-export const POST = withCSRF(requireAdmin(async (request: NextRequest, authContext) => {
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
   try {
     
     const { retentionPeriod } = await request.json();
@@ -21,6 +21,9 @@ export const POST = withCSRF(requireAdmin(async (request: NextRequest, authConte
         
         // Delete all servers
         const serverResult = db.prepare(`DELETE FROM servers`).run();
+
+        // Servers are gone, so are their server group memberships (the groups are kept)
+        db.prepare(`DELETE FROM server_group_servers`).run();
   
         return { 
           backupChanges: backupResult.changes,
@@ -1,305 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { dbOps, parseDurationToSeconds } from '@/lib/db';
-import { dbUtils, getConfigBackupSettings, getServerInfoById, clearRequestCache } from '@/lib/db-utils';
-import { extractAvailableBackups } from '@/lib/utils';
-import { v4 as uuidv4 } from 'uuid';
-import https from 'https';
-import http from 'http';
+import { getServerInfoById } from '@/lib/db-utils';
 import { defaultAPIConfig } from '@/lib/default-config';
-import { setConfiguration } from '@/lib/db-utils';
-import { encryptData, getServerPassword } from '@/lib/secrets';
+import { getServerPassword } from '@/lib/secrets';
 import { withCSRF } from '@/lib/csrf-middleware';
-import { optionalAuth } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { AuditLogger } from '@/lib/audit-logger';
+import { getAccessibleServerIds, canAccessServer } from '@/lib/server-access';
+import { collectBackups, detectProtocolAndConnect, parseServerAddress } from '@/lib/backup-collector';
 
-// Type definitions for API responses
-interface SystemInfoOption {
-  Name: string;
-  DefaultValue: string;
-}
-
-interface SystemInfo {
-  MachineName: string;
-  Options?: SystemInfoOption[];
-  CompressionModules?: unknown[];
-  EncryptionModules?: unknown[];
-  BackendModules?: unknown[];
-  GenericModules?: unknown[];
-  WebModules?: unknown[];
-  ConnectionModules?: unknown[];
-  SecretProviderModules?: unknown[];
-  ServerModules?: unknown[];
-  LogLevels?: unknown[];
-  SupportedLocales?: unknown[];
-}
-
-interface BackupInfo {
-  Backup: {
-    ID: string;
-    Name: string;
-    TargetURL?: string;
-  };
-  Schedule?: {
-    ID: number;
-    Tags: string[];
-    Time: string;
-    Repeat: string;
-    LastRun: string;
-    Rule: string; // Changed from object to string
-    AllowedDays: string[];
-  };
-}
-
-interface LogEntry {
-  Message: string;
-}
-
-interface RequestOptions {
-  method?: string;
-  headers?: Record<string, string>;
-  body?: string;
-  timeout?: number;
-  agent?: https.Agent;
-}
-
-interface RequestResponse {
-  ok: boolean;
-  status: number;
-  statusText: string;
-  json: () => Promise<unknown>;
-}
-
-
-
-// Helper function to make HTTP/HTTPS requests
-async function makeRequest(url: string, options: RequestOptions): Promise<RequestResponse> {
-  const { timeout = defaultAPIConfig.requestTimeout, ...requestOptions } = options;
-
-  return new Promise((resolve, reject) => {
-    const protocol = url.startsWith('https') ? https : http;
-
-    // kick off the request
-    const req = protocol.request(url, requestOptions, (res) => {
-      let data = '';
-      res.on('data', (chunk) => data += chunk);
-      res.on('end', () => {
-        clearTimeout(connectTimer);
-        try {
-          const parsedData = JSON.parse(data);
-          const statusCode = res.statusCode ?? 500;
-          resolve({
-            ok: statusCode >= 200 && statusCode < 300,
-            status: statusCode,
-            statusText: res.statusMessage ?? 'Unknown status',
-            json: async () => parsedData
-          });
-        } catch (error) {
-          reject(error);
-        }
-      });
-    });
-
-    // 1) CONNECTION‐TIMEOUT: if socket never connects within `timeout`
-    const connectTimer = setTimeout(() => {
-      req.destroy(new Error(`Connection timed out after ${timeout}ms`));
-    }, timeout);
-
-    // once the socket is assigned, we can also clear the connect timer on "connect"
-    req.on('socket', (socket) => {
-      socket.once('connect', () => clearTimeout(connectTimer));
-    });
-
-    // 2) IDLE‐TIMEOUT (what you already had)
-    req.setTimeout(timeout, () => {
-      req.destroy(new Error(`Idle timeout after ${timeout}ms`));
-    });
-
-    req.on('error', reject);
-
-    if (options.body) {
-      req.write(options.body);
-    }
-    req.end();
-  });
-}
-
-// Helper function to automatically detect the best protocol and connection options
-async function detectProtocolAndConnect(
-  hostname: string,
-  port: number,
-  password: string
-): Promise<{
-  baseUrl: string;
-  requestOptions: RequestOptions;
-  protocol: string;
-}> {
-  const loginEndpoint = '/api/v1/auth/login';
-  const loginBody = JSON.stringify({
-    Password: password,
-    RememberMe: true
-  });
-
-  // Protocol attempts in order of preference
-  const attempts = [
-    {
-      protocol: 'https',
-      baseUrl: `https://${hostname}:${port}`,
-      requestOptions: {
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        },
-        agent: new https.Agent({
-          rejectUnauthorized: false // Allow self-signed certificates
-        })
-      }
-    },
-    {
-      protocol: 'http',
-      baseUrl: `http://${hostname}:${port}`,
-      requestOptions: {
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        }
-      }
-    }
-  ];
-
-  const errors: string[] = [];
-
-  for (const attempt of attempts) {
-    try {
-      const loginResponse = await makeRequest(`${attempt.baseUrl}${loginEndpoint}`, {
-        ...attempt.requestOptions,
-        method: 'POST',
-        body: loginBody,
-        timeout: defaultAPIConfig.requestTimeout
-      });
-
-      // If we get a response (success or authentication failure), the connection works
-      if (loginResponse.ok || loginResponse.status === 401) {
-        return {
-          baseUrl: attempt.baseUrl,
-          requestOptions: attempt.requestOptions,
-          protocol: attempt.protocol
-        };
-      }
-      
-      errors.push(`${attempt.protocol.toUpperCase()}: ${loginResponse.statusText}`);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      errors.push(`${attempt.protocol.toUpperCase()}: ${errorMessage}`);
-    }
-  }
-
-  // All attempts failed
-  throw new Error(`Could not establish connection with any protocol. Attempts failed:\n${errors.join('\n')}`);
-}
-
-// Helper function to extract AllowedWeekDays from Rule string
-function extractAllowedWeekDaysFromRule(ruleString: string): string {
-  if (!ruleString) {
-    return '';
-  }
-  
-  // Parse format: "AllowedWeekDays=Monday,Tuesday,Wednesday,Thursday,Friday,Saturday,Sunday"
-  const match = ruleString.match(/AllowedWeekDays=([^,]+(?:,[^,]+)*)/);
-  return match ? match[1] : '';
-}
-
-// Helper function to parse AllowedWeekDays string to number array
-function parseAllowedWeekDays(allowedWeekDaysString: string): number[] {
-  if (!allowedWeekDaysString) {
-    return [0, 1, 2, 3, 4, 5, 6]; // Default to all days
-  }
-  
-  // Map day names to numbers (0=Sunday, 1=Monday, etc.)
-  const dayMap: Record<string, number> = {
-    'Sunday': 0, 'sun': 0,
-    'Monday': 1, 'mon': 1,
-    'Tuesday': 2, 'tue': 2,
-    'Wednesday': 3, 'wed': 3,
-    'Thursday': 4, 'thu': 4,
-    'Friday': 5, 'fri': 5,
-    'Saturday': 6, 'sat': 6
-  };
-  
-  // Parse the string format: "Monday,Tuesday,Wednesday,Thursday,Friday,Saturday,Sunday"
-  const days = allowedWeekDaysString.split(',').map(day => day.trim());
-  const dayNumbers = days.map(day => dayMap[day]).filter(num => num !== undefined);
-  
-  // If no valid days found, return all days
-  return dayNumbers.length > 0 ? dayNumbers : [0, 1, 2, 3, 4, 5, 6];
-}
-
-
-// Simple in-memory lock for backup settings updates to prevent race conditions
-const backupSettingsLock = new Map<string, Promise<void>>();
-
-// Helper function to update backup settings with schedule information
-async function updateBackupSettingsWithSchedule(
-  serverId: string, 
-  backupName: string, 
-  repeatInterval: string, 
-  allowedWeekDays: number[],
-  scheduleTime?: string
-): Promise<void> {
-  const backupKey = `${serverId}:${backupName}`;
-  
-  // Check if there's already an update in progress for this backup
-  if (backupSettingsLock.has(backupKey)) {
-    // Wait for the existing update to complete
-    await backupSettingsLock.get(backupKey);
-  }
-  
-  // Create a new promise for this update
-  const updatePromise = (async () => {
-    try {
-      // Get current backup settings
-      const currentBackupSettings = await getConfigBackupSettings();
-      
-      // Get or create backup settings for this backup
-      let backupSettings = currentBackupSettings[backupKey];
-      if (!backupSettings) {
-        // Import default configuration
-        const { defaultBackupNotificationConfig } = await import('@/lib/default-config');
-        backupSettings = { ...defaultBackupNotificationConfig };
-      }
-      
-      // Update with schedule information
-      backupSettings.expectedInterval = repeatInterval;
-      backupSettings.allowedWeekDays = allowedWeekDays;
-      
-      // Update schedule time if provided
-      if (scheduleTime) {
-        backupSettings.time = scheduleTime;
-      }
-      
-      // Update the settings
-      currentBackupSettings[backupKey] = backupSettings;
-      
-      // Save to database
-      setConfiguration('backup_settings', JSON.stringify(currentBackupSettings));
-      
-    } catch (error) {
-      console.error(`Error updating backup settings for ${backupName}:`, error instanceof Error ? error.message : String(error));
-      throw error;
-    } finally {
-      // Remove the lock when done
-      backupSettingsLock.delete(backupKey);
-    }
-  })();
-  
-  // Store the promise in the lock map
-  backupSettingsLock.set(backupKey, updatePromise);
-  
-  // Wait for the update to complete
-  await updatePromise;
-}
-
-export const POST = withCSRF(optionalAuth(async (request: NextRequest, authContext) => {
+export const POST = withCSRF(requireRole('operator', async (request: NextRequest, authContext) => {
   // Store server info for error logging
   let providedServerId: string | undefined;
   let serverNameForError: string | undefined;
@@ -320,10 +30,19 @@ export const POST = withCSRF(optionalAuth(async (request: NextRequest, authConte
     let finalPort: number;
     let finalPassword: string;
 
+    // Users restricted to their server groups can only collect their servers (adding servers needs access to all servers)
+    const serverIds = getAccessibleServerIds(authContext);
+    if (serverIds !== null && !serverId) {
+      return NextResponse.json(
+        { error: 'Access to all servers required to collect a new server' },
+        { status: 403 }
+      );
+    }
+
     // Handle three types of calls: hostname/port, serverID only, or serverID with updates
     if (serverId) {
       // Get server information from database
-      const serverInfo = getServerInfoById(serverId);
+      const serverInfo = canAccessServer(serverIds, serverId) ? getServerInfoById(serverId) : null;
       if (!serverInfo) {
         return NextResponse.json(
           { error: 'Server not found' },
@@ -378,9 +97,7 @@ export const POST = withCSRF(optionalAuth(async (request: NextRequest, authConte
 
         // Parse server_url to extract hostname and port
         try {
-          const serverUrl = new URL(serverInfo.server_url);
-          finalHostname = serverUrl.hostname;
-          finalPort = parseInt(serverUrl.port) || (serverUrl.protocol === 'https:' ? 443 : 80);
+          ({ hostname: finalHostname, port: finalPort } = parseServerAddress(serverInfo.server_url));
         } catch {
           return NextResponse.json(
             { error: 'Invalid server URL format' },
@@ -409,386 +126,44 @@ export const POST = withCSRF(optionalAuth(async (request: NextRequest, authConte
       finalPassword = password;
     }
 
-    // Step 1: Auto-detect protocol and establish connection
-    const { baseUrl, requestOptions } = await detectProtocolAndConnect(finalHostname, finalPort, finalPassword);
-    
-    const apiSysteminfoEndpoint = '/api/v1/systeminfo';
-    const apiBackupsEndpoint = '/api/v1/backups';
-    const apiLogBaseEndpoint = '/api/v1/backup';
-
-    // Step 2: Get authentication token (we already validated connection in detectProtocolAndConnect)
-    const loginEndpoint = '/api/v1/auth/login';
-    let loginResponse;
-    try {
-      loginResponse = await makeRequest(`${baseUrl}${loginEndpoint}`, {
-        ...requestOptions,
-        method: 'POST',
-        body: JSON.stringify({
-          Password: finalPassword,
-          RememberMe: true
-        })
-      });
-    } catch (error) {
-      console.error('Error during login request:', error instanceof Error ? error.message : String(error));
-      throw new Error(`Login request failed: ${String(error)}`);
-    }
-
-    if (!loginResponse.ok) {
-      console.error('Login failed:', loginResponse.statusText);
-      throw new Error(`Login failed: ${loginResponse.statusText}`);
-    }
-
-    const loginData = await loginResponse.json() as { AccessToken?: string };
-    const authToken = loginData.AccessToken;
-
-    if (!authToken) {
-      console.error('No authentication token received');
-      throw new Error('No authentication token received');
-    }
-
-    // Step 2: Get system info
-    let systemInfoResponse;
-    try {
-      systemInfoResponse = await makeRequest(`${baseUrl}${apiSysteminfoEndpoint}`, {
-        ...requestOptions,
-        headers: {
-          ...requestOptions.headers,
-          'Authorization': `Bearer ${authToken}`
-        }
-      });
-    } catch (error) {
-      console.error('Error during system info request:', error instanceof Error ? error.message : String(error));
-      throw new Error(`System info request failed: ${String(error)}`);
-    }
-
-    if (!systemInfoResponse.ok) {
-      throw new Error(`Failed to get system info: ${systemInfoResponse.statusText}`);
-    }
-
-    const systemInfo: SystemInfo = await systemInfoResponse.json() as SystemInfo;
-
-    // Check if Options array exists and log its contents
-    if (!systemInfo.Options) {
-      console.error('System info Options array is missing');
-      throw new Error('System info Options array is missing - unable to find machine-id');
-    }
-   
-    const detectedServerId = systemInfo.Options.find((opt) => opt.Name === 'machine-id')?.DefaultValue;
-    const detectedServerName = systemInfo.MachineName;
-    
-    // Store server name for error logging
-    serverNameForError = detectedServerName;
-
-    // Detailed error reporting
-    if (!detectedServerId) {
-      console.error('Could not find machine-id in system options');
-      console.error('Available option names:', systemInfo.Options.map(opt => opt.Name));
-      throw new Error('Could not find machine-id in system options.');
-    }
-    
-    if (!detectedServerName) {
-      console.error('MachineName is missing from system info');
-      console.error('System info structure:', Object.keys(systemInfo));
-      throw new Error('MachineName is missing from system info');
-    }
-        
-    // Check if server already exists
-    const existingServer = dbOps.getServerById.get(detectedServerId) as { id: string; name: string; server_url: string; alias: string; note: string; created_at: string } | undefined;
-    
-    if (existingServer) {
-      // Server exists - update server_url and password, preserve alias and note
-      dbOps.upsertServer.run({
-        id: detectedServerId,
-        name: detectedServerName,
-        server_url: baseUrl,
-        server_password: encryptData(finalPassword),
-        alias: existingServer.alias,  // Preserve existing alias
-        note: existingServer.note     // Preserve existing note
-      });
-    } else {
-      // Server doesn't exist - create new server with empty alias and note
-      dbOps.upsertServer.run({
-        id: detectedServerId,
-        name: detectedServerName,
-        server_url: baseUrl,
-        server_password: encryptData(finalPassword),
-        alias: '',
-        note: ''
-      });
-      
-      // Log audit event for server creation
-      if (authContext) {
-        const ipAddress = getClientIpAddress(request);
-        const userAgent = request.headers.get('user-agent') || 'unknown';
-        await AuditLogger.logServerOperation(
-          'server_added',
-          authContext.userId,
-          authContext.username,
-          detectedServerId,
-          {
-            serverName: detectedServerName,
-            serverUrl: baseUrl,
-          },
-          ipAddress,
-          userAgent
-        );
+    const result = await collectBackups({
+      hostname: finalHostname,
+      port: finalPort,
+      password: finalPassword,
+      downloadJson,
+      onServerIdentified: (serverName) => {
+        // Store server name for error logging
+        serverNameForError = serverName;
       }
-    }
-    
-    // Get the server information including alias from database
-    const serverInfo = dbOps.getServerById.get(detectedServerId) as { id: string; name: string; server_url: string; alias: string; note: string; created_at: string } | undefined;
-    const serverAlias = serverInfo?.alias || '';
-    
-    // Ensure backup settings are complete for all servers and backups
-    // This will add default settings for any missing server-backup combinations
-    // Ensure backup settings are complete (now handled automatically by getConfigBackupSettings)
-    await getConfigBackupSettings();
-  
-    // Step 3: Get list of backups
-    let backupsResponse;
-    try {
-      backupsResponse = await makeRequest(`${baseUrl}${apiBackupsEndpoint}`, {
-        ...requestOptions,
-        headers: {
-          ...requestOptions.headers,
-          'Authorization': `Bearer ${authToken}`
-        }
-      });
-    } catch (error) {
-      console.error('Error during backups list request:', error instanceof Error ? error.message : String(error));
-      throw new Error(`Backups list request failed: ${String(error)}`);
-    }
+    });
+    const detectedServerId = result.serverId;
+    const detectedServerName = result.serverName;
+    const serverAlias = result.serverAlias;
+    const { processed: processedCount, skipped: skippedCount, errors: errorCount } = result.stats;
 
-    if (!backupsResponse.ok) {
-      console.error('Failed to get backups list:', backupsResponse.statusText);
-      throw new Error(`Failed to get backups list: ${backupsResponse.statusText}`);
+    // Log audit event for server creation
+    if (result.isNewServer && authContext) {
+      const ipAddress = getClientIpAddress(request);
+      const userAgent = request.headers.get('user-agent') || 'unknown';
+      await AuditLogger.logServerOperation(
+        'server_added',
+        authContext.userId,
+        authContext.username,
+        detectedServerId,
+        {
+          serverName: detectedServerName,
+          serverUrl: result.serverUrl,
+        },
+        ipAddress,
+        userAgent
+      );
     }
 
-    const backups: BackupInfo[] = await backupsResponse.json() as BackupInfo[];
-    const backupIds = backups.map((b) => b.Backup.ID);
-
-    if (!backupIds.length) {
+    if (!result.backupCount) {
       return NextResponse.json({ message: 'No backups found' });
     }
 
-    // Step 4: Process each backup
-    let processedCount = 0;
-    let skippedCount = 0;
-    let errorCount = 0;
-    const collectedJsonData: Array<{
-      backupId: string;
-      backupName: string | undefined;
-      messages: LogEntry[];
-    }> = [];
-
-    for (const backupId of backupIds) {
-      // Parse schedule information and update backup settings
-      const backupName = backups.find((b) => b.Backup.ID === backupId)?.Backup.Name;
-      if (backupName) {
-        try {
-          // Get schedule information from the backup data
-          const backupData = backups.find((b) => b.Backup.ID === backupId);
-          if (backupData && backupData.Schedule) {
-            const schedule = backupData.Schedule;
-            const repeatInterval = schedule.Repeat;
-            const allowedWeekDaysString = extractAllowedWeekDaysFromRule(schedule.Rule);
-            const scheduleTime = schedule.Time; // Extract the schedule time
-
-            // Convert AllowedWeekDays string to number array
-            const allowedWeekDays = parseAllowedWeekDays(allowedWeekDaysString);
-            
-            // Update backup settings
-            await updateBackupSettingsWithSchedule(detectedServerId, backupName, repeatInterval, allowedWeekDays, scheduleTime);
-          }
-        } catch (error) {
-          console.error(`Error updating backup settings for ${backupName}:`, error instanceof Error ? error.message : String(error));
-        }
-      }
-      try {
-        const logEndpoint = `${apiLogBaseEndpoint}/${backupId}/log?pagesize=999`;
-        let logResponse;
-        try {
-          logResponse = await makeRequest(`${baseUrl}${logEndpoint}`, {
-            ...requestOptions,
-            headers: {
-              ...requestOptions.headers,
-              'Authorization': `Bearer ${authToken}`
-            }
-          });
-        } catch (error) {
-          console.error(`Error during log request for backup ${backupId}:`, error instanceof Error ? error.message : String(error));
-          throw new Error(`Log request for backup ${backupId} failed: ${String(error)}`);
-        }
-
-        if (!logResponse.ok) {
-          console.error(`Failed to get log for backup ${backupId}:`, logResponse.statusText);
-          throw new Error(`Failed to get log for backup ${backupId}: ${logResponse.statusText}`);
-        }
-
-        // Increment the received count
-        // receivedCount++; // Commented out as it was unused
-
-        const logs: LogEntry[] = await logResponse.json() as LogEntry[];
-        const backupMessages = logs.filter((log) => {
-          try {
-            // Parse the Message string into JSON
-            const messageObj = JSON.parse(log.Message);
-            return messageObj?.MainOperation === 'Backup';
-          } catch (error) {
-            console.error('Error parsing log message:', error instanceof Error ? error.message : String(error));
-            return false;
-          }
-        });
-
-        // Collect JSON data for download if requested
-        if (downloadJson) {
-          // Parse Message strings into proper JSON objects
-          const parsedMessages = backupMessages.map((log) => {
-            try {
-              return {
-                ...log,
-                Message: JSON.parse(log.Message)
-              };
-            } catch (error) {
-              console.error('Error parsing message for download:', error instanceof Error ? error.message : String(error));
-              return {
-                ...log,
-                Message: log.Message // Keep as string if parsing fails
-              };
-            }
-          });
-
-          collectedJsonData.push({
-            backupId: backupId,
-            backupName: backups.find((b) => b.Backup.ID === backupId)?.Backup.Name,
-            messages: parsedMessages
-          });
-        }
-
-
-
-        for (const log of backupMessages) {
-          // Parse the message string into JSON for each log entry, with error handling
-          let message;
-          try {
-            message = JSON.parse(log.Message);
-          } catch (parseError) {
-            console.error(`Error parsing log.Message for backup ${backupId}:`, log.Message, parseError);
-            errorCount++;
-            continue;
-          }
-          const backupDate = new Date(message.BeginTime).toISOString();
-
-          // Check for duplicate
-          const backupName = backups.find((b) => b.Backup.ID === backupId)?.Backup.Name;
-          if (!backupName) continue;
-          
-          const isDuplicate = await dbUtils.checkDuplicateBackup({
-            server_id: detectedServerId,
-            backup_name: backupName,
-            date: backupDate
-          });
-
-          if (isDuplicate) {
-            skippedCount++;
-            continue;
-          }
-
-          // Map backup status
-          let status = message.ParsedResult;
-          if (status === "Success" && message.WarningsActualLength > 0) {
-            status = "Warning";
-          }
-
-          // Insert backup data
-          dbOps.insertBackup.run({
-            id: uuidv4(),
-            server_id: detectedServerId,
-            backup_name: backupName,
-            backup_id: backupId,
-            date: backupDate,
-            status: status,
-            duration_seconds: parseDurationToSeconds(message.Duration),
-            size: message.SizeOfExaminedFiles || 0,
-            uploaded_size: message.BackendStatistics?.BytesUploaded || 0,
-            examined_files: message.ExaminedFiles || 0,
-            warnings: message.WarningsActualLength || 0,
-            errors: message.ErrorsActualLength || 0,
-
-            // Message arrays stored as JSON blobs
-            messages_array: message.Messages ? JSON.stringify(message.Messages) : null,
-            warnings_array: message.Warnings ? JSON.stringify(message.Warnings) : null,
-            errors_array: message.Errors ? JSON.stringify(message.Errors) : null,
-            available_backups: JSON.stringify(extractAvailableBackups(
-              message.Messages ? JSON.stringify(message.Messages) : null
-            )),
-
-            // Data fields
-            deleted_files: message.DeletedFiles || 0,
-            deleted_folders: message.DeletedFolders || 0,
-            modified_files: message.ModifiedFiles || 0,
-            opened_files: message.OpenedFiles || 0,
-            added_files: message.AddedFiles || 0,
-            size_of_modified_files: message.SizeOfModifiedFiles || 0,
-            size_of_added_files: message.SizeOfAddedFiles || 0,
-            size_of_examined_files: message.SizeOfExaminedFiles || 0,
-            size_of_opened_files: message.SizeOfOpenedFiles || 0,
-            not_processed_files: message.NotProcessedFiles || 0,
-            added_folders: message.AddedFolders || 0,
-            too_large_files: message.TooLargeFiles || 0,
-            files_with_error: message.FilesWithError || 0,
-            modified_folders: message.ModifiedFolders || 0,
-            modified_symlinks: message.ModifiedSymlinks || 0,
-            added_symlinks: message.AddedSymlinks || 0,
-            deleted_symlinks: message.DeletedSymlinks || 0,
-            partial_backup: message.PartialBackup ? 1 : 0,
-            dryrun: message.Dryrun ? 1 : 0,
-            main_operation: message.MainOperation,
-            parsed_result: message.ParsedResult,
-            interrupted: message.Interrupted ? 1 : 0,
-            version: message.Version,
-            begin_time: new Date(message.BeginTime).toISOString(),
-            end_time: new Date(message.EndTime).toISOString(),
-            warnings_actual_length: message.WarningsActualLength || 0,
-            errors_actual_length: message.ErrorsActualLength || 0,
-            messages_actual_length: message.MessagesActualLength || 0,
-
-            // BackendStatistics fields
-            bytes_downloaded: message.BackendStatistics?.BytesDownloaded || 0,
-            known_file_size: message.BackendStatistics?.KnownFileSize || 0,
-            last_backup_date: message.BackendStatistics?.LastBackupDate ? new Date(message.BackendStatistics.LastBackupDate).toISOString() : null,
-            backup_list_count: message.BackendStatistics?.BackupListCount || 0,
-            reported_quota_error: message.BackendStatistics?.ReportedQuotaError ? 1 : 0,
-            reported_quota_warning: message.BackendStatistics?.ReportedQuotaWarning ? 1 : 0,
-            backend_main_operation: message.BackendStatistics?.MainOperation,
-            backend_parsed_result: message.BackendStatistics?.ParsedResult,
-            backend_interrupted: message.BackendStatistics?.Interrupted ? 1 : 0,
-            backend_version: message.BackendStatistics?.Version,
-            backend_begin_time: message.BackendStatistics?.BeginTime ? new Date(message.BackendStatistics.BeginTime).toISOString() : null,
-            backend_duration: message.BackendStatistics?.Duration,
-            backend_warnings_actual_length: message.BackendStatistics?.WarningsActualLength || 0,
-            backend_errors_actual_length: message.BackendStatistics?.ErrorsActualLength || 0
-          });
-
-          processedCount++;
-        }
-      } catch (error) {
-        console.error(`Error processing backup ${backupId}:`, error instanceof Error ? error.message : String(error));
-        errorCount++;
-      }
-    }
-
-    // Recalculate next backup run dates after collecting new backups
-    // Clear the cache to ensure fresh data is used for recalculation
-    clearRequestCache();
-    try {
-      await getConfigBackupSettings();
-    } catch (error) {
-      console.error('Error recalculating next backup run dates:', error instanceof Error ? error.message : String(error));
-      // Continue even if recalculation fails
-    }
-
-      const responseData: {
+    const responseData: {
       success: boolean;
       serverName: string;
       serverAlias: string;
@@ -805,59 +180,13 @@ export const POST = withCSRF(optionalAuth(async (request: NextRequest, authConte
       success: true,
       serverName: detectedServerName,
       serverAlias: serverAlias,
-      stats: {
-        processed: processedCount,
-        skipped: skippedCount,
-        errors: errorCount
-      },
+      stats: result.stats,
       backupSettings: {
         message: 'Backup settings completion handled automatically'
-      }
+      },
+      jsonData: result.jsonData
     };
 
-    // Include JSON data if download was requested
-    if (downloadJson) {
-       // remove sensitive data from the response 
-       // keep only the beginning of TargetURL until the first ":"
-       const backupsWithoutTargetURL = backups.map((backup) => {
-         return {
-           ...backup,
-           Backup: {
-             ...backup.Backup,
-             TargetURL: backup.Backup.TargetURL 
-               ? backup.Backup.TargetURL.split(':')[0] + ':***--REDACTED--***'
-               : backup.Backup.TargetURL
-           }
-         };
-       });
-
-       // Filter system_info to remove unnecessary data
-       const filteredSystemInfo = {
-         ...systemInfo,
-         Options: systemInfo.Options?.filter(option => option.Name === 'machine-id') || []
-       };
-       
-       // Remove module arrays and other unnecessary fields
-       const filteredSystemInfoTyped = filteredSystemInfo as SystemInfo;
-       delete filteredSystemInfoTyped.CompressionModules;
-       delete filteredSystemInfoTyped.EncryptionModules;
-       delete filteredSystemInfoTyped.BackendModules;
-       delete filteredSystemInfoTyped.GenericModules;
-       delete filteredSystemInfoTyped.WebModules;
-       delete filteredSystemInfoTyped.ConnectionModules;
-       delete filteredSystemInfoTyped.SecretProviderModules;
-       delete filteredSystemInfoTyped.ServerModules;
-       delete filteredSystemInfoTyped.LogLevels;
-       delete filteredSystemInfoTyped.SupportedLocales;
-
-      // return the response data
-      responseData.jsonData = JSON.stringify({
-        system_info: filteredSystemInfoTyped,
-        backups: backupsWithoutTargetURL,
-        backup_logs: collectedJsonData
-      }, null, 2);
-    }
-
     // Log audit event - determine status based on results
     if (authContext) {
       const ipAddress = getClientIpAddress(request);
@@ -3,9 +3,10 @@ import { getConfigBackupSettings, getServerInfoById, setConfiguration } from '@/
 import { defaultAPIConfig } from '@/lib/default-config';
 import { getServerPassword } from '@/lib/secrets';
 import { withCSRF } from '@/lib/csrf-middleware';
-import { optionalAuth } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { AuditLogger } from '@/lib/audit-logger';
+import { getAccessibleServerIds, canAccessServer } from '@/lib/server-access';
 import https from 'https';
 import http from 'http';
 
@@ -288,7 +289,7 @@ async function updateBackupSettingsWithSchedule(
   await updatePromise;
 }
 
-export const POST = withCSRF(optionalAuth(async (request: NextRequest, authContext) => {
+export const POST = withCSRF(requireRole('operator', async (request: NextRequest, authContext) => {
   // Store server info for error logging
   let providedServerId: string | undefined;
   let serverNameForError: string | undefined;
@@ -308,10 +309,19 @@ export const POST = withCSRF(optionalAuth(async (request: NextRequest, authConte
     let finalPort: number;
     let finalPassword: string;
 
+    // Users restricted to their server groups can only sync their servers (checked before the stored password is read)
+    const serverIds = getAccessibleServerIds(authContext);
+    if (serverIds !== null && !serverId) {
+      return NextResponse.json(
+        { error: 'Access to all servers required to sync a server by address' },
+        { status: 403 }
+      );
+    }
+
     // Handle three types of calls: hostname/port, serverID only, or serverID with updates
     if (serverId) {
       // Get server information from database
-      const serverInfo = getServerInfoById(serverId);
+      const serverInfo = canAccessServer(serverIds, serverId) ? getServerInfoById(serverId) : null;
       if (!serverInfo) {
         return NextResponse.json(
           { error: 'Server not found' },
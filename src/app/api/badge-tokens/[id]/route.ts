@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuditLogger } from '@/lib/audit-logger';
+import { requireRole } from '@/lib/auth-middleware';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { deleteBadgeToken } from '@/lib/status-badges';
+
+// Ensure this runs in Node.js runtime, not Edge Runtime
+export const runtime = 'nodejs';
+
+// DELETE - Revoke a badge token, the badges of the backup job stop working
+export const DELETE = withCSRF(requireRole('admin', async (
+  request: NextRequest,
+  authContext
+) => {
+  try {
+    // Extract ID from URL pathname
+    const id = request.nextUrl.pathname.split('/').pop(); // /api/badge-tokens/[id]
+
+    const badgeToken = id ? deleteBadgeToken(id) : null;
+    if (!badgeToken) {
+      return NextResponse.json(
+        { error: 'Badge token not found' },
+        { status: 404 }
+      );
+    }
+
+    // Log the deletion
+    const ipAddress = getClientIpAddress(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+    await AuditLogger.log({
+      userId: authContext.userId,
+      username: authContext.username,
+      action: 'badge_token_deleted',
+      category: 'system',
+      targetType: 'badge_token',
+      targetId: badgeToken.id,
+      details: { server_id: badgeToken.serverId, backup_name: badgeToken.backupName },
+      ipAddress,
+      userAgent,
+      status: 'success'
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting badge token:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to delete badge token' },
+      { status: 500 }
+    );
+  }
+}));
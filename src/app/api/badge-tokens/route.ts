@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { dbOps } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit-logger';
+import { requireRole } from '@/lib/auth-middleware';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { createBadgeToken, getBadgeTokens } from '@/lib/status-badges';
+
+// Ensure this runs in Node.js runtime, not Edge Runtime
+export const runtime = 'nodejs';
+
+// GET - List the badge tokens of the backup jobs (without the tokens)
+export const GET = withCSRF(requireRole('admin', async () => {
+  try {
+    return NextResponse.json({ tokens: getBadgeTokens() });
+  } catch (error) {
+    console.error('Error listing badge tokens:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to list badge tokens' },
+      { status: 500 }
+    );
+  }
+}));
+
+// POST - Create the badge token of a backup job, replacing its previous token
+export const POST = withCSRF(requireRole('admin', async (
+  request: NextRequest,
+  authContext
+) => {
+  try {
+    const body: unknown = await request.json();
+    const { serverId, backupName } = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+
+    if (typeof serverId !== 'string' || typeof backupName !== 'string') {
+      return NextResponse.json(
+        { error: 'serverId and backupName are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!dbOps.getLatestBackupByName.get(serverId, backupName)) {
+      return NextResponse.json(
+        { error: 'Backup not found' },
+        { status: 404 }
+      );
+    }
+
+    const { id, token } = createBadgeToken(serverId, backupName, authContext.userId);
+
+    // Log the creation
+    const ipAddress = getClientIpAddress(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+    await AuditLogger.log({
+      userId: authContext.userId,
+      username: authContext.username,
+      action: 'badge_token_created',
+      category: 'system',
+      targetType: 'badge_token',
+      targetId: id,
+      details: { server_id: serverId, backup_name: backupName },
+      ipAddress,
+      userAgent,
+      status: 'success'
+    });
+
+    // Return the plain token ONLY ONCE (cannot be retrieved later)
+    return NextResponse.json({
+      id,
+      serverId,
+      backupName,
+      token,
+      message: 'Copy the badge links now. The token cannot be retrieved again.'
+    });
+  } catch (error) {
+    console.error('Error creating badge token:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to create badge token' },
+      { status: 500 }
+    );
+  }
+}));
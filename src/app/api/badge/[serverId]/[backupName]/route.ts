@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureDatabaseInitialized } from '@/lib/db';
+import { badgeTypes, getBadge, renderBadgeSvg, verifyBadgeToken } from '@/lib/status-badges';
+import type { BadgeType } from '@/lib/types';
+
+// Ensure this runs in Node.js runtime, not Edge Runtime
+export const runtime = 'nodejs';
+
+const maxLabelLength = 64;
+
+// GET /api/badge/<serverId>/<backupName>.svg?token=...&type=status|age|overdue - Public SVG badge of a backup job
+export async function GET(request: NextRequest) {
+  try {
+    await ensureDatabaseInitialized();
+
+    // Path: /api/badge/[serverId]/[backupName].svg (server ID or name, like /api/lastbackup)
+    const segments = request.nextUrl.pathname.split('/');
+    const serverIdentifier = decodeURIComponent(segments[3] || '');
+    const backupName = decodeURIComponent(segments[4] || '').replace(/\.svg$/, '');
+    const token = request.nextUrl.searchParams.get('token') || '';
+    const type = (request.nextUrl.searchParams.get('type') || 'status') as BadgeType;
+    const label = request.nextUrl.searchParams.get('label')?.slice(0, maxLabelLength);
+
+    if (!badgeTypes.includes(type)) {
+      return NextResponse.json({ error: `type must be one of ${badgeTypes.join(', ')}` }, { status: 400 });
+    }
+
+    // Missing and invalid tokens look the same as unknown backups
+    const serverId = token ? verifyBadgeToken(token, serverIdentifier, backupName) : null;
+    if (!serverId) {
+      return NextResponse.json({ error: 'Badge not found' }, { status: 404 });
+    }
+
+    const svg = renderBadgeSvg(await getBadge(type, serverId, backupName, label));
+    return new NextResponse(svg, {
+      headers: {
+        'Content-Type': 'image/svg+xml; charset=utf-8',
+        // Image proxies (e.g. GitHub) must fetch the badge again instead of keeping an old status
+        'Cache-Control': 'no-store, no-cache, must-revalidate',
+        'Pragma': 'no-cache',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering status badge:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json({ error: 'Failed to render badge' }, { status: 500 });
+  }
+}
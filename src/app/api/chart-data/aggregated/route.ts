@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { dbUtils } from '@/lib/db-utils';
 import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getAccessibleServerIds } from '@/lib/server-access';
 
-export const GET = withCSRF(async (request: NextRequest) => {
+export const GET = withCSRF(requireRole('viewer', async (request: NextRequest, authContext) => {
   try {
+    const serverIds = getAccessibleServerIds(authContext);
     const searchParams = request.nextUrl.searchParams;
     const startDateParam = searchParams.get('startDate');
     const endDateParam = searchParams.get('endDate');
@@ -18,15 +21,15 @@ export const GET = withCSRF(async (request: NextRequest) => {
         return NextResponse.json({ error: 'Invalid date parameters' }, { status: 400 });
       }
       
-      const chartData = await dbUtils.getAggregatedChartDataWithTimeRange(startDate, endDate);
+      const chartData = await dbUtils.getAggregatedChartDataWithTimeRange(startDate, endDate, serverIds);
       return NextResponse.json(chartData);
     } else {
       // Otherwise, get all aggregated chart data
-      const chartData = await dbUtils.getAggregatedChartData();
+      const chartData = await dbUtils.getAggregatedChartData(serverIds);
       return NextResponse.json(chartData);
     }
   } catch (error) {
     console.error('Error fetching aggregated chart data:', error instanceof Error ? error.message : String(error));
     return NextResponse.json({ error: 'Failed to fetch chart data' }, { status: 500 });
   }
-});
+}));
@@ -1,14 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { dbUtils } from '@/lib/db-utils';
 import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getAccessibleServerIds, canAccessServer } from '@/lib/server-access';
 
-export const GET = withCSRF(async (
+export const GET = withCSRF(requireRole('viewer', async (
   request: NextRequest,
+  authContext,
   { params }: { params: Promise<{ serverId: string; backupName: string }> }
 ) => {
   try {
     const { serverId, backupName: encodedBackupName } = await params;
     const backupName = decodeURIComponent(encodedBackupName);
+
+    // Servers outside the user's server groups are reported as not found
+    if (!canAccessServer(getAccessibleServerIds(authContext), serverId)) {
+      return NextResponse.json({ error: 'Server not found' }, { status: 404 });
+    }
     
     const searchParams = request.nextUrl.searchParams;
     const startDateParam = searchParams.get('startDate');
@@ -40,4 +48,4 @@ export const GET = withCSRF(async (
     console.error('Error fetching server backup chart data:', error instanceof Error ? error.message : String(error));
     return NextResponse.json({ error: 'Failed to fetch chart data' }, { status: 500 });
   }
-});
+}));
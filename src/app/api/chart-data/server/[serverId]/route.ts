@@ -1,13 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { dbUtils } from '@/lib/db-utils';
 import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getAccessibleServerIds, canAccessServer } from '@/lib/server-access';
 
-export const GET = withCSRF(async (
+export const GET = withCSRF(requireRole('viewer', async (
   request: NextRequest,
+  authContext,
   { params }: { params: Promise<{ serverId: string }> }
 ) => {
   try {
     const { serverId } = await params;
+
+    // Servers outside the user's server groups are reported as not found
+    if (!canAccessServer(getAccessibleServerIds(authContext), serverId)) {
+      return NextResponse.json({ error: 'Server not found' }, { status: 404 });
+    }
     const searchParams = request.nextUrl.searchParams;
     const startDateParam = searchParams.get('startDate');
     const endDateParam = searchParams.get('endDate');
@@ -33,4 +41,4 @@ export const GET = withCSRF(async (
     console.error('Error fetching server chart data:', error instanceof Error ? error.message : String(error));
     return NextResponse.json({ error: 'Failed to fetch chart data' }, { status: 500 });
   }
-});
+}));
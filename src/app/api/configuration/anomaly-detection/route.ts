@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { getAnomalyDetectionConfig, setAnomalyDetectionConfig } from '@/lib/db-utils';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { AuditLogger } from '@/lib/audit-logger';
+import { isValidAnomalyDetectionConfig } from '@/lib/backup-anomalies';
+import { anomalySampleSizeLimits, anomalyThresholdLimits } from '@/lib/default-config';
+import type { AnomalyDetectionConfig } from '@/lib/types';
+
+// Ensure this runs in Node.js runtime, not Edge Runtime
+export const runtime = 'nodejs';
+
+// GET /api/configuration/anomaly-detection - Duration and size anomaly detection settings
+export const GET = withCSRF(requireRole('viewer', async () => {
+  try {
+    return NextResponse.json(getAnomalyDetectionConfig());
+  } catch (error) {
+    console.error('Error fetching anomaly detection configuration:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch anomaly detection configuration' },
+      { status: 500 }
+    );
+  }
+}));
+
+// POST /api/configuration/anomaly-detection - Update the anomaly detection settings (Admin only)
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    const body: unknown = await request.json();
+
+    if (!isValidAnomalyDetectionConfig(body)) {
+      return NextResponse.json(
+        {
+          error: `Invalid anomaly detection configuration: the baseline size must be a whole number between ${anomalySampleSizeLimits.min} and ${anomalySampleSizeLimits.max}, ` +
+            `the minimum runs between ${anomalySampleSizeLimits.min} and the baseline size, and each threshold between ${anomalyThresholdLimits.min} and ${anomalyThresholdLimits.max}`
+        },
+        { status: 400 }
+      );
+    }
+
+    // Only keep the known fields of the request body
+    const config: AnomalyDetectionConfig = {
+      enabled: body.enabled,
+      sampleSize: body.sampleSize,
+      minSamples: body.minSamples,
+      thresholds: {
+        examined_files: body.thresholds.examined_files,
+        size: body.thresholds.size,
+        uploaded_size: body.thresholds.uploaded_size,
+        duration_seconds: body.thresholds.duration_seconds,
+      },
+    };
+
+    const previous = getAnomalyDetectionConfig();
+    setAnomalyDetectionConfig(config);
+
+    // Log audit event
+    if (authContext) {
+      const ipAddress = getClientIpAddress(request);
+      const userAgent = request.headers.get('user-agent') || 'unknown';
+      await AuditLogger.logConfigChange(
+        'anomaly_detection_updated',
+        authContext.userId,
+        authContext.username,
+        'anomaly_detection',
+        { old: previous, new: config },
+        ipAddress,
+        userAgent
+      );
+    }
+
+    return NextResponse.json({ message: 'Anomaly detection config updated successfully', ...config });
+  } catch (error) {
+    console.error('Failed to update anomaly detection config:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json({ error: 'Failed to update anomaly detection config' }, { status: 500 });
+  }
+}));
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { getCurrentCronInterval, setCronInterval, setConfiguration } from '@/lib/db-utils';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { AuditLogger } from '@/lib/audit-logger';
+import { cronIntervalMap } from '@/lib/cron-interval-map';
+import { backupCollectionConcurrencyLimits } from '@/lib/default-config';
+import { getAccessibleServerIds, canAccessServer } from '@/lib/server-access';
+import {
+  backupCollectionTaskName,
+  backupCollectionConcurrencyConfigKey,
+  getBackupCollectionConcurrency,
+  getBackupCollectionStatus,
+  isValidBackupCollectionConcurrency,
+} from '@/lib/scheduled-collection';
+import { BackupCollectionServerStatus, BackupCollectionSettings, CronInterval } from '@/lib/types';
+
+// Ensure this runs in Node.js runtime, not Edge Runtime
+export const runtime = 'nodejs';
+
+function getBackupCollectionSettings(): BackupCollectionSettings {
+  return {
+    interval: getCurrentCronInterval(backupCollectionTaskName),
+    concurrency: getBackupCollectionConcurrency(),
+  };
+}
+
+// GET /api/configuration/backup-collection - Scheduled collection settings and the last result of each server
+export const GET = withCSRF(requireRole('viewer', async (request: NextRequest, authContext) => {
+  try {
+    const serverIds = getAccessibleServerIds(authContext);
+    const status: Record<string, BackupCollectionServerStatus> = {};
+    for (const [serverId, serverStatus] of Object.entries(getBackupCollectionStatus())) {
+      if (canAccessServer(serverIds, serverId)) {
+        status[serverId] = serverStatus;
+      }
+    }
+
+    return NextResponse.json({ ...getBackupCollectionSettings(), status });
+  } catch (error) {
+    console.error('Failed to get backup collection config:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to get backup collection configuration' },
+      { status: 500 }
+    );
+  }
+}));
+
+// POST /api/configuration/backup-collection - Update the interval and/or the concurrency (Admin only)
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    const { interval, concurrency } = await request.json() as Partial<BackupCollectionSettings>;
+
+    if (interval === undefined && concurrency === undefined) {
+      return NextResponse.json(
+        { error: 'interval or concurrency is required' },
+        { status: 400 }
+      );
+    }
+
+    if (interval !== undefined && !cronIntervalMap[interval as CronInterval]) {
+      return NextResponse.json(
+        { error: `Invalid interval: ${interval}` },
+        { status: 400 }
+      );
+    }
+
+    if (concurrency !== undefined && !isValidBackupCollectionConcurrency(concurrency)) {
+      return NextResponse.json(
+        { error: `Concurrency must be a whole number between ${backupCollectionConcurrencyLimits.min} and ${backupCollectionConcurrencyLimits.max}` },
+        { status: 400 }
+      );
+    }
+
+    // Get old values for audit log
+    const oldSettings = getBackupCollectionSettings();
+
+    // An unchanged interval keeps the schedule, which may be a custom cron expression set in Task Schedules
+    if (interval !== undefined && interval !== oldSettings.interval) {
+      setCronInterval(interval, backupCollectionTaskName);
+    }
+    if (concurrency !== undefined) {
+      setConfiguration(backupCollectionConcurrencyConfigKey, String(concurrency));
+    }
+
+    const newSettings = getBackupCollectionSettings();
+
+    // Log audit event
+    if (authContext) {
+      const ipAddress = getClientIpAddress(request);
+      const userAgent = request.headers.get('user-agent') || 'unknown';
+      await AuditLogger.logConfigChange(
+        'backup_collection_config_updated',
+        authContext.userId,
+        authContext.username,
+        'backup_collection',
+        {
+          oldInterval: cronIntervalMap[oldSettings.interval]?.label || oldSettings.interval,
+          newInterval: cronIntervalMap[newSettings.interval]?.label || newSettings.interval,
+          oldConcurrency: oldSettings.concurrency,
+          newConcurrency: newSettings.concurrency,
+        },
+        ipAddress,
+        userAgent
+      );
+    }
+
+    return NextResponse.json({ message: 'Backup collection config updated successfully', ...newSettings });
+  } catch (error) {
+    console.error('Failed to update backup collection config:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to update backup collection configuration' },
+      { status: 500 }
+    );
+  }
+}));
@@ -1,13 +1,14 @@
 import { withCSRF } from '@/lib/csrf-middleware';
 import { NextResponse, NextRequest } from 'next/server';
-import { getConfigBackupSettings, setConfigBackupSettings, getConfigOverdueNotifications, setConfigOverdueNotifications, getServerInfoById } from '@/lib/db-utils';
+import { getConfigBackupSettings, setConfigBackupSettings, getConfigOverdueNotifications, setConfigOverdueNotifications, getServerInfoById, getEmailRecipientGroups } from '@/lib/db-utils';
 import { BackupKey, BackupNotificationConfig } from '@/lib/types';
 import { migrateBackupSettings } from '@/lib/migration-utils';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { validateCronExpression, isValidTimeZone } from '@/lib/cron-schedule';
+import { requireRole } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { AuditLogger } from '@/lib/audit-logger';
 
-export const POST = withCSRF(requireAdmin(async (request: NextRequest, authContext) => {
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
   try {
     
     const body = await request.json();
@@ -22,6 +23,35 @@ export const POST = withCSRF(requireAdmin(async (request: NextRequest, authConte
     
     // Migrate incoming backup settings to ensure they're in new format
     const migratedBackupSettings = migrateBackupSettings(backupSettings);
+
+    // Emails can only be routed to existing recipient groups
+    const recipientGroupIds = new Set(getEmailRecipientGroups().map(group => group.id));
+    for (const [backupKey, config] of Object.entries(migratedBackupSettings)) {
+      for (const groupIds of Object.values(config.emailRecipientGroups || {})) {
+        const unknownGroupId = (groupIds || []).find(groupId => !recipientGroupIds.has(groupId));
+        if (unknownGroupId) {
+          return NextResponse.json({ error: `Unknown email recipient group '${unknownGroupId}' for ${backupKey}` }, { status: 400 });
+        }
+      }
+    }
+
+    // Cron schedules are evaluated by every overdue check, reject them here if they cannot be parsed
+    for (const [backupKey, config] of Object.entries(migratedBackupSettings)) {
+      if (config.scheduleMode !== 'cron') continue;
+
+      if (!Array.isArray(config.cronSchedules) || config.cronSchedules.length === 0) {
+        return NextResponse.json({ error: `At least one cron expression is required for ${backupKey}` }, { status: 400 });
+      }
+      for (const expression of config.cronSchedules) {
+        const validation = validateCronExpression(expression);
+        if (!validation.isValid) {
+          return NextResponse.json({ error: `Invalid cron expression '${expression}' for ${backupKey}: ${validation.error}` }, { status: 400 });
+        }
+      }
+      if (config.scheduleTimezone && !isValidTimeZone(config.scheduleTimezone)) {
+        return NextResponse.json({ error: `Invalid time zone '${config.scheduleTimezone}' for ${backupKey}` }, { status: 400 });
+      }
+    }
     
     // Save backup settings separately
     setConfigBackupSettings(migratedBackupSettings);
@@ -48,8 +78,11 @@ export const POST = withCSRF(requireAdmin(async (request: NextRequest, authConte
           if (currentConfig) {
             const hasIntervalChanged = currentConfig.expectedInterval !== config.expectedInterval;
             const hasAllowedDaysChanged = JSON.stringify(currentConfig.allowedWeekDays) !== JSON.stringify(config.allowedWeekDays);
+            const hasCronScheduleChanged = (currentConfig.scheduleMode || 'interval') !== (config.scheduleMode || 'interval')
+              || JSON.stringify(currentConfig.cronSchedules || []) !== JSON.stringify(config.cronSchedules || [])
+              || (currentConfig.scheduleTimezone || '') !== (config.scheduleTimezone || '');
             
-            if (hasIntervalChanged || hasAllowedDaysChanged) {
+            if (hasIntervalChanged || hasAllowedDaysChanged || hasCronScheduleChanged) {
               backupKeysToClear.push(backupKey);
             }
           }
@@ -121,6 +154,12 @@ export const POST = withCSRF(requireAdmin(async (request: NextRequest, authConte
             new: newConfig.emailEnabled,
           };
         }
+        if (!oldConfig || oldConfig.webhookEnabled !== newConfig.webhookEnabled) {
+          changedFields.webhookEnabled = {
+            old: oldConfig?.webhookEnabled ?? null,
+            new: newConfig.webhookEnabled,
+          };
+        }
         if (!oldConfig || oldConfig.overdueBackupCheckEnabled !== newConfig.overdueBackupCheckEnabled) {
           changedFields.overdueBackupCheckEnabled = {
             old: oldConfig?.overdueBackupCheckEnabled ?? null,
@@ -139,6 +178,31 @@ export const POST = withCSRF(requireAdmin(async (request: NextRequest, authConte
             new: newConfig.allowedWeekDays,
           };
         }
+        if (!oldConfig || JSON.stringify(oldConfig.emailRecipientGroups || {}) !== JSON.stringify(newConfig.emailRecipientGroups || {})) {
+          changedFields.emailRecipientGroups = {
+            old: oldConfig?.emailRecipientGroups ?? null,
+            new: newConfig.emailRecipientGroups ?? {},
+          };
+        }
+        
+        if (!oldConfig || (oldConfig.scheduleMode || 'interval') !== (newConfig.scheduleMode || 'interval')) {
+          changedFields.scheduleMode = {
+            old: oldConfig?.scheduleMode ?? null,
+            new: newConfig.scheduleMode ?? 'interval',
+          };
+        }
+        if (!oldConfig || JSON.stringify(oldConfig.cronSchedules || []) !== JSON.stringify(newConfig.cronSchedules || [])) {
+          changedFields.cronSchedules = {
+            old: oldConfig?.cronSchedules ?? null,
+            new: newConfig.cronSchedules ?? [],
+          };
+        }
+        if (!oldConfig || (oldConfig.scheduleTimezone || '') !== (newConfig.scheduleTimezone || '')) {
+          changedFields.scheduleTimezone = {
+            old: oldConfig?.scheduleTimezone ?? null,
+            new: newConfig.scheduleTimezone ?? '',
+          };
+        }
         
         // Only include this backup if there are actual changes
         if (Object.keys(changedFields).length > 0) {
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { buildBackupDigest, getDigestConfig, renderBackupDigestEmail } from '@/lib/backup-digest';
+import type { DigestFrequency } from '@/lib/types';
+
+// Ensure this runs in Node.js runtime, not Edge Runtime
+export const runtime = 'nodejs';
+
+// GET /api/configuration/digest/preview - Render the digest email with the current data (Admin only: the digest covers every server)
+export const GET = withCSRF(requireRole('admin', async (request: NextRequest) => {
+  try {
+    const frequency = request.nextUrl.searchParams.get('frequency') || getDigestConfig().frequency;
+    if (frequency !== 'daily' && frequency !== 'weekly') {
+      return NextResponse.json(
+        { error: 'Invalid frequency, expected daily or weekly' },
+        { status: 400 }
+      );
+    }
+
+    const digest = await buildBackupDigest(frequency as DigestFrequency);
+    return NextResponse.json({ ...renderBackupDigestEmail(digest), digest });
+  } catch (error) {
+    console.error('Error building digest preview:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to build digest preview' },
+      { status: 500 }
+    );
+  }
+}));
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { AuditLogger } from '@/lib/audit-logger';
+import { getDigestConfig, setDigestConfig, isValidDigestConfig, describeDigestSchedule } from '@/lib/backup-digest';
+import type { DigestConfig } from '@/lib/types';
+
+// Ensure this runs in Node.js runtime, not Edge Runtime
+export const runtime = 'nodejs';
+
+// GET /api/configuration/digest - Backup digest email settings
+export const GET = withCSRF(requireRole('viewer', async () => {
+  try {
+    const config = getDigestConfig();
+    return NextResponse.json({ ...config, schedule: describeDigestSchedule(config) });
+  } catch (error) {
+    console.error('Error fetching digest configuration:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch digest configuration' },
+      { status: 500 }
+    );
+  }
+}));
+
+// POST /api/configuration/digest - Update the digest schedule and recipients (Admin only)
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    const body: unknown = await request.json();
+
+    if (!isValidDigestConfig(body)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid digest configuration: the frequency must be daily or weekly, the hour between 0 and 23, the weekday between 0 (Sunday) and 6, ' +
+            'the recipients valid email addresses, and at least one recipient is required to enable the digest'
+        },
+        { status: 400 }
+      );
+    }
+
+    // Only keep the known fields of the request body
+    const config: DigestConfig = {
+      enabled: body.enabled,
+      frequency: body.frequency,
+      hour: body.hour,
+      weekday: body.weekday,
+      recipients: [...new Set(body.recipients)],
+    };
+
+    const previous = getDigestConfig();
+    setDigestConfig(config);
+
+    // Log audit event
+    if (authContext) {
+      const ipAddress = getClientIpAddress(request);
+      const userAgent = request.headers.get('user-agent') || 'unknown';
+      await AuditLogger.logConfigChange(
+        'digest_config_updated',
+        authContext.userId,
+        authContext.username,
+        'digest_email',
+        { old: previous, new: config },
+        ipAddress,
+        userAgent
+      );
+    }
+
+    return NextResponse.json({ message: 'Digest config updated successfully', ...config, schedule: describeDigestSchedule(config) });
+  } catch (error) {
+    console.error('Failed to update digest config:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json({ error: 'Failed to update digest config' }, { status: 500 });
+  }
+}));
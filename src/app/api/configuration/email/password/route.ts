@@ -2,11 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { withCSRF } from '@/lib/csrf-middleware';
 import { getSMTPConfig, setSMTPConfig } from '@/lib/db-utils';
 import { getSessionIdFromRequest, validateSession, generateCSRFToken } from '@/lib/session-csrf';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { AuditLogger } from '@/lib/audit-logger';
 
-export const PATCH = withCSRF(requireAdmin(async (request: NextRequest, authContext) => {
+export const PATCH = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
   try {
     const { password, config } = await request.json();
 
@@ -92,7 +92,7 @@ export const PATCH = withCSRF(requireAdmin(async (request: NextRequest, authCont
 }));
 
 // GET endpoint to retrieve CSRF token
-export const GET = withCSRF(async (request: NextRequest) => {
+export const GET = withCSRF(requireRole('admin', async (request: NextRequest) => {
   try {
     // Get session ID and validate session
     const sessionId = getSessionIdFromRequest(request);
@@ -116,4 +116,4 @@ export const GET = withCSRF(async (request: NextRequest) => {
       { status: 500 }
     );
   }
-});
+}));
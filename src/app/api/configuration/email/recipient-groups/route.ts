@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { getEmailRecipientGroups, setEmailRecipientGroups, getConfigBackupSettings, setConfigBackupSettings } from '@/lib/db-utils';
+import type { BackupKey, BackupNotificationConfig, EmailRecipientGroup, NotificationSeverity } from '@/lib/types';
+import { isValidEmailRecipient } from '@/lib/utils';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { AuditLogger } from '@/lib/audit-logger';
+
+export const runtime = 'nodejs';
+
+interface RecipientGroupInput {
+  id?: string;
+  name: string;
+  recipients: string[];
+}
+
+function isRecipientGroupInput(value: unknown): value is RecipientGroupInput {
+  if (typeof value !== 'object' || value === null) return false;
+  const group = value as Record<string, unknown>;
+  return (group.id === undefined || typeof group.id === 'string')
+    && typeof group.name === 'string'
+    && Array.isArray(group.recipients)
+    && group.recipients.every(recipient => typeof recipient === 'string');
+}
+
+// GET /api/configuration/email/recipient-groups - Named email recipient groups
+export const GET = withCSRF(requireRole('viewer', async () => {
+  try {
+    return NextResponse.json({ groups: getEmailRecipientGroups() });
+  } catch (error) {
+    console.error('Error fetching email recipient groups:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch email recipient groups' },
+      { status: 500 }
+    );
+  }
+}));
+
+// POST /api/configuration/email/recipient-groups - Replace the email recipient groups (Admin only)
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    const body: unknown = await request.json();
+    const input = typeof body === 'object' && body !== null ? (body as Record<string, unknown>).groups : undefined;
+
+    if (!Array.isArray(input) || !input.every(isRecipientGroupInput)) {
+      return NextResponse.json({ error: 'groups must be a list of groups with a name and a list of recipients' }, { status: 400 });
+    }
+
+    const groups: EmailRecipientGroup[] = [];
+    const names = new Set<string>();
+    for (const group of input) {
+      const name = group.name.trim();
+      if (name === '') {
+        return NextResponse.json({ error: 'Every recipient group needs a name' }, { status: 400 });
+      }
+      if (names.has(name.toLowerCase())) {
+        return NextResponse.json({ error: `Recipient group name '${name}' is used more than once` }, { status: 400 });
+      }
+      names.add(name.toLowerCase());
+
+      const recipients = [...new Set(group.recipients.map(recipient => recipient.trim()).filter(recipient => recipient !== ''))];
+      if (recipients.length === 0) {
+        return NextResponse.json({ error: `Recipient group '${name}' needs at least one recipient` }, { status: 400 });
+      }
+      const invalid = recipients.find(recipient => !isValidEmailRecipient(recipient));
+      if (invalid) {
+        return NextResponse.json({ error: `Invalid email address '${invalid}' in recipient group '${name}'` }, { status: 400 });
+      }
+
+      // Groups keep their ID so the backups routed to them keep working after a rename
+      groups.push({ id: group.id || randomUUID(), name, recipients });
+    }
+
+    const previous = getEmailRecipientGroups();
+    setEmailRecipientGroups(groups);
+
+    // Backups routed to a deleted group keep their other groups, or fall back to the default recipient
+    const groupIds = new Set(groups.map(group => group.id));
+    if (previous.some(group => !groupIds.has(group.id))) {
+      const backupSettings = await getConfigBackupSettings();
+      const updatedSettings: Record<BackupKey, BackupNotificationConfig> = {};
+      for (const [backupKey, config] of Object.entries(backupSettings)) {
+        if (!config.emailRecipientGroups) {
+          updatedSettings[backupKey] = config;
+          continue;
+        }
+        const emailRecipientGroups: BackupNotificationConfig['emailRecipientGroups'] = {};
+        for (const [severity, severityGroupIds] of Object.entries(config.emailRecipientGroups) as [NotificationSeverity, string[]][]) {
+          emailRecipientGroups[severity] = severityGroupIds.filter(groupId => groupIds.has(groupId));
+        }
+        updatedSettings[backupKey] = { ...config, emailRecipientGroups };
+      }
+      setConfigBackupSettings(updatedSettings);
+    }
+
+    // Log audit event
+    if (authContext) {
+      const ipAddress = getClientIpAddress(request);
+      const userAgent = request.headers.get('user-agent') || 'unknown';
+      await AuditLogger.logConfigChange(
+        'email_recipient_groups_updated',
+        authContext.userId,
+        authContext.username,
+        'email_recipient_groups',
+        { old: previous, new: groups },
+        ipAddress,
+        userAgent
+      );
+    }
+
+    return NextResponse.json({ message: 'Email recipient groups updated successfully', groups });
+  } catch (error) {
+    console.error('Failed to update email recipient groups:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json({ error: 'Failed to update email recipient groups' }, { status: 500 });
+  }
+}));
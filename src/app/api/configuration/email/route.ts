@@ -2,11 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { withCSRF } from '@/lib/csrf-middleware';
 import { getSMTPConfig, setSMTPConfig, deleteSMTPConfig } from '@/lib/db-utils';
 import type { SMTPConfig } from '@/lib/types';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { AuditLogger } from '@/lib/audit-logger';
 
-export const GET = withCSRF(async () => {
+export const GET = withCSRF(requireRole('viewer', async () => {
   try {
     const config = getSMTPConfig();
     
@@ -62,9 +62,9 @@ export const GET = withCSRF(async () => {
       { status: 500 }
     );
   }
-});
+}));
 
-export const POST = withCSRF(requireAdmin(async (request: NextRequest, authContext) => {
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
   try {
     const body = await request.json();
     
@@ -183,7 +183,7 @@ export const POST = withCSRF(requireAdmin(async (request: NextRequest, authConte
   }
 }));
 
-export const DELETE = withCSRF(requireAdmin(async (request: NextRequest, authContext) => {
+export const DELETE = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
   try {
     // Check if configuration exists
     const config = getSMTPConfig();
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { getEmailTemplateConfig, setEmailTemplateConfig } from '@/lib/db-utils';
+import { defaultEmailTemplateConfig } from '@/lib/default-config';
+import { validateTemplate } from '@/lib/notification-template';
+import type { EmailTemplateConfig, EmailTemplates } from '@/lib/types';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { AuditLogger } from '@/lib/audit-logger';
+
+export const runtime = 'nodejs';
+
+const templateTypes = Object.keys(defaultEmailTemplateConfig.templates) as (keyof EmailTemplates)[];
+
+function isEmailTemplateConfig(value: unknown): value is EmailTemplateConfig {
+  if (typeof value !== 'object' || value === null) return false;
+  const config = value as Record<string, unknown>;
+  const templates = config.templates as Record<string, unknown> | null | undefined;
+  return typeof config.dashboardUrl === 'string'
+    && typeof templates === 'object' && templates !== null
+    && templateTypes.every(templateType => typeof templates[templateType] === 'string');
+}
+
+function isValidDashboardUrl(value: string): boolean {
+  if (value === '') return true;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// GET /api/configuration/email/templates - HTML email templates, with the default templates for resets
+export const GET = withCSRF(requireRole('viewer', async () => {
+  try {
+    return NextResponse.json({ ...getEmailTemplateConfig(), defaults: defaultEmailTemplateConfig.templates });
+  } catch (error) {
+    console.error('Error fetching email templates:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch email templates' },
+      { status: 500 }
+    );
+  }
+}));
+
+// POST /api/configuration/email/templates - Update the HTML email templates (Admin only)
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    const body: unknown = await request.json();
+    if (!isEmailTemplateConfig(body)) {
+      return NextResponse.json(
+        { error: `dashboardUrl and the ${templateTypes.join(', ')} templates are required` },
+        { status: 400 }
+      );
+    }
+
+    const dashboardUrl = body.dashboardUrl.trim();
+    if (!isValidDashboardUrl(dashboardUrl)) {
+      return NextResponse.json({ error: 'Dashboard URL must be an http or https address' }, { status: 400 });
+    }
+
+    const templates = {} as EmailTemplates;
+    for (const templateType of templateTypes) {
+      const validation = validateTemplate(body.templates[templateType]);
+      if (!validation.isValid) {
+        return NextResponse.json({ error: `Invalid ${templateType} email template: ${validation.error}` }, { status: 400 });
+      }
+      templates[templateType] = body.templates[templateType];
+    }
+
+    const previous = getEmailTemplateConfig();
+    const config: EmailTemplateConfig = { dashboardUrl, templates };
+    setEmailTemplateConfig(config);
+
+    // Log audit event (templates are large, only the changed ones are listed)
+    if (authContext) {
+      const ipAddress = getClientIpAddress(request);
+      const userAgent = request.headers.get('user-agent') || 'unknown';
+      await AuditLogger.logConfigChange(
+        'email_templates_updated',
+        authContext.userId,
+        authContext.username,
+        'email_templates',
+        {
+          dashboardUrl: { old: previous.dashboardUrl, new: dashboardUrl },
+          templatesUpdated: templateTypes.filter(templateType => previous.templates[templateType] !== templates[templateType]),
+        },
+        ipAddress,
+        userAgent
+      );
+    }
+
+    return NextResponse.json({ message: 'Email templates updated successfully', ...config });
+  } catch (error) {
+    console.error('Failed to update email templates:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json({ error: 'Failed to update email templates' }, { status: 500 });
+  }
+}));
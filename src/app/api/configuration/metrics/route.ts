@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { setConfiguration } from '@/lib/db-utils';
+import { isApiKeyRequired } from '@/lib/api-key-auth';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { AuditLogger } from '@/lib/audit-logger';
+
+export const GET = withCSRF(requireRole('viewer', async () => {
+  try {
+    return NextResponse.json({ requireApiKey: isApiKeyRequired('metrics_require_api_key') });
+  } catch (error) {
+    console.error('Error fetching metrics configuration:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch metrics configuration' },
+      { status: 500 }
+    );
+  }
+}));
+
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    const body = await request.json();
+    const { requireApiKey } = body as { requireApiKey?: boolean };
+
+    if (typeof requireApiKey !== 'boolean') {
+      return NextResponse.json({ error: 'requireApiKey must be a boolean' }, { status: 400 });
+    }
+
+    const previous = isApiKeyRequired('metrics_require_api_key');
+    setConfiguration('metrics_require_api_key', requireApiKey ? 'true' : 'false');
+
+    // Log audit event
+    if (authContext && previous !== requireApiKey) {
+      const ipAddress = getClientIpAddress(request);
+      const userAgent = request.headers.get('user-agent') || 'unknown';
+      await AuditLogger.logConfigChange(
+        'metrics_config_updated',
+        authContext.userId,
+        authContext.username,
+        'metrics_require_api_key',
+        { old: previous, new: requireApiKey },
+        ipAddress,
+        userAgent
+      );
+    }
+
+    return NextResponse.json({ message: 'Metrics config updated successfully', requireApiKey });
+  } catch (error) {
+    console.error('Failed to update metrics config:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json({ error: 'Failed to update metrics config' }, { status: 500 });
+  }
+}));
@@ -3,11 +3,11 @@ import { getNotificationFrequencyConfig, setNotificationFrequencyConfig, setNtfy
 import { NotificationFrequencyConfig } from '@/lib/types';
 import { generateDefaultNtfyTopic } from '@/lib/default-config';
 import { withCSRF } from '@/lib/csrf-middleware';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { AuditLogger } from '@/lib/audit-logger';
 
-export const GET = withCSRF(async () => {
+export const GET = withCSRF(requireRole('viewer', async () => {
   try {
     const value = getNotificationFrequencyConfig();
     return NextResponse.json({ value });
@@ -18,9 +18,9 @@ export const GET = withCSRF(async () => {
       { status: 500 }
     );
   }
-});
+}));
 
-export const POST = withCSRF(requireAdmin(async (request: NextRequest, authContext) => {
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
   try {
     
     const body = await request.json();
@@ -1,8 +1,9 @@
 import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { NextResponse } from 'next/server';
 import { getNtfyConfig } from '@/lib/db-utils';
 
-export const GET = withCSRF(async () => {
+export const GET = withCSRF(requireRole('viewer', async () => {
   try {
     const ntfyConfig = await getNtfyConfig();
     return NextResponse.json({ ntfy: ntfyConfig });
@@ -13,4 +14,4 @@ export const GET = withCSRF(async () => {
       { status: 500 }
     );
   }
-});
+}));
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { getOidcConfig, setOidcConfig } from '@/lib/db-utils';
+import { clearOidcCache, discoverOidcProvider, getOidcRedirectUri } from '@/lib/oidc';
+import type { OidcConfig, OidcRoleMapping } from '@/lib/types';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { AuditLogger } from '@/lib/audit-logger';
+import { isUserRole, userRoles } from '@/lib/utils';
+import { defaultOidcConfig } from '@/lib/default-config';
+
+type OidcConfigRequest = Partial<Omit<OidcConfig, 'roleMapping'>> & {
+  roleMapping?: Partial<Record<keyof OidcRoleMapping, unknown>>;
+  clearClientSecret?: boolean;
+};
+
+// The client secret is never returned, only whether one is stored
+function toPublicConfig(config: OidcConfig) {
+  const { clientSecret, ...publicConfig } = config;
+  return { ...publicConfig, hasClientSecret: clientSecret !== '' };
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function toClaimValues(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(item => item !== '')
+    : [];
+}
+
+export const GET = withCSRF(requireRole('admin', async (request: NextRequest) => {
+  try {
+    const config = getOidcConfig();
+    return NextResponse.json({
+      oidc: toPublicConfig(config),
+      callbackUrl: getOidcRedirectUri(request, { ...config, redirectUri: '' }),
+    });
+  } catch (error) {
+    console.error('Error fetching OIDC configuration:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch OIDC configuration' },
+      { status: 500 }
+    );
+  }
+}));
+
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    const body = await request.json();
+    const { oidc } = body as { oidc?: OidcConfigRequest };
+
+    if (!oidc) {
+      return NextResponse.json({ error: 'oidc config is required' }, { status: 400 });
+    }
+
+    const existingConfig = getOidcConfig();
+    const enabled = oidc.enabled === true;
+    const issuer = typeof oidc.issuer === 'string' ? oidc.issuer.trim() : '';
+    const clientId = typeof oidc.clientId === 'string' ? oidc.clientId.trim() : '';
+    const scopes = typeof oidc.scopes === 'string' && oidc.scopes.trim() !== ''
+      ? oidc.scopes.trim().split(/\s+/).join(' ')
+      : defaultOidcConfig.scopes;
+    const redirectUri = typeof oidc.redirectUri === 'string' ? oidc.redirectUri.trim() : '';
+    const defaultRole = oidc.defaultRole ?? defaultOidcConfig.defaultRole;
+
+    if (issuer !== '' && !isHttpUrl(issuer)) {
+      return NextResponse.json({ error: 'Issuer must be a valid http or https URL' }, { status: 400 });
+    }
+    if (redirectUri !== '' && !isHttpUrl(redirectUri)) {
+      return NextResponse.json({ error: 'Redirect URI must be a valid http or https URL' }, { status: 400 });
+    }
+    if (enabled && (issuer === '' || clientId === '')) {
+      return NextResponse.json({ error: 'Issuer and client ID are required to enable single sign-on' }, { status: 400 });
+    }
+    if (!scopes.split(' ').includes('openid')) {
+      return NextResponse.json({ error: 'Scopes must include "openid"' }, { status: 400 });
+    }
+    if (defaultRole !== 'none' && !isUserRole(defaultRole)) {
+      return NextResponse.json(
+        { error: `Invalid default role. Allowed values: ${[...userRoles, 'none'].join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Keep the stored secret unless a new one is sent or it is explicitly cleared
+    let clientSecret = existingConfig.clientSecret;
+    if (oidc.clearClientSecret === true) {
+      clientSecret = '';
+    } else if (typeof oidc.clientSecret === 'string' && oidc.clientSecret !== '') {
+      clientSecret = oidc.clientSecret;
+    }
+
+    const updatedConfig: OidcConfig = {
+      enabled,
+      issuer,
+      clientId,
+      clientSecret,
+      scopes,
+      redirectUri,
+      usernameClaim: typeof oidc.usernameClaim === 'string' && oidc.usernameClaim.trim() !== ''
+        ? oidc.usernameClaim.trim()
+        : defaultOidcConfig.usernameClaim,
+      roleClaim: typeof oidc.roleClaim === 'string' ? oidc.roleClaim.trim() : '',
+      roleMapping: {
+        admin: toClaimValues(oidc.roleMapping?.admin),
+        operator: toClaimValues(oidc.roleMapping?.operator),
+        viewer: toClaimValues(oidc.roleMapping?.viewer),
+      },
+      defaultRole,
+      buttonLabel: typeof oidc.buttonLabel === 'string' && oidc.buttonLabel.trim() !== ''
+        ? oidc.buttonLabel.trim()
+        : defaultOidcConfig.buttonLabel,
+    };
+
+    // Make sure the provider can be reached before enabling logins with it
+    clearOidcCache();
+    if (updatedConfig.enabled) {
+      try {
+        await discoverOidcProvider(updatedConfig.issuer);
+      } catch (error) {
+        return NextResponse.json(
+          { error: `Failed to load the provider discovery document: ${error instanceof Error ? error.message : String(error)}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    setOidcConfig(updatedConfig);
+
+    // Log audit event (the client secret is never logged)
+    if (authContext) {
+      const ipAddress = getClientIpAddress(request);
+      const userAgent = request.headers.get('user-agent') || 'unknown';
+      await AuditLogger.logConfigChange(
+        'oidc_config_updated',
+        authContext.userId,
+        authContext.username,
+        'oidc_config',
+        toPublicConfig(updatedConfig),
+        ipAddress,
+        userAgent
+      );
+    }
+
+    return NextResponse.json({ message: 'Single sign-on config updated successfully', oidc: toPublicConfig(updatedConfig) });
+  } catch (error) {
+    console.error('Failed to update OIDC config:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json({ error: 'Failed to update OIDC config' }, { status: 500 });
+  }
+}));
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { getOperationNotificationConfig, setOperationNotificationConfig } from '@/lib/db-utils';
+import type { NotificationEvent, OperationNotificationConfig } from '@/lib/types';
+import { nonBackupOperationTypes } from '@/lib/utils';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { AuditLogger } from '@/lib/audit-logger';
+
+const allowedEvents: NotificationEvent[] = ['all', 'warnings', 'errors', 'off'];
+
+export const GET = withCSRF(requireRole('viewer', async () => {
+  try {
+    const operationNotifications = getOperationNotificationConfig();
+    return NextResponse.json({ operationNotifications });
+  } catch (error) {
+    console.error('Error fetching operation notification configuration:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch operation notification configuration' },
+      { status: 500 }
+    );
+  }
+}));
+
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    const body = await request.json();
+    const { operationNotifications } = body as { operationNotifications?: Partial<Record<string, NotificationEvent>> };
+
+    if (!operationNotifications || typeof operationNotifications !== 'object') {
+      return NextResponse.json({ error: 'operationNotifications is required' }, { status: 400 });
+    }
+
+    const current = getOperationNotificationConfig();
+    const updated: OperationNotificationConfig = { ...current };
+    const changes: Record<string, { old: NotificationEvent; new: NotificationEvent }> = {};
+
+    for (const operation of nonBackupOperationTypes) {
+      const event = operationNotifications[operation];
+      if (event === undefined) continue;
+
+      if (!allowedEvents.includes(event)) {
+        return NextResponse.json(
+          { error: `Invalid notification event for ${operation}. Allowed values: ${allowedEvents.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      if (current[operation] !== event) {
+        changes[operation] = { old: current[operation], new: event };
+      }
+      updated[operation] = event;
+    }
+
+    setOperationNotificationConfig(updated);
+
+    // Log audit event
+    if (authContext && Object.keys(changes).length > 0) {
+      const ipAddress = getClientIpAddress(request);
+      const userAgent = request.headers.get('user-agent') || 'unknown';
+      await AuditLogger.logConfigChange(
+        'operation_notifications_updated',
+        authContext.userId,
+        authContext.username,
+        'operation_notifications',
+        { changes },
+        ipAddress,
+        userAgent
+      );
+    }
+
+    return NextResponse.json({ message: 'Operation notification config updated successfully', operationNotifications: updated });
+  } catch (error) {
+    console.error('Failed to update operation notification config:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json({ error: 'Failed to update operation notification config' }, { status: 500 });
+  }
+}));
@@ -1,11 +1,11 @@
 import { withCSRF } from '@/lib/csrf-middleware';
 import { NextResponse, NextRequest } from 'next/server';
 import { setConfiguration, getOverdueToleranceConfig } from '@/lib/db-utils';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { AuditLogger } from '@/lib/audit-logger';
 
-export const GET = withCSRF(async () => {
+export const GET = withCSRF(requireRole('viewer', async () => {
   try {
     const tolerance = getOverdueToleranceConfig();
     return NextResponse.json({ overdue_tolerance: tolerance });
@@ -13,9 +13,9 @@ export const GET = withCSRF(async () => {
     console.error('Failed to get overdue tolerance:', error instanceof Error ? error.message : String(error));
     return NextResponse.json({ error: 'Failed to get overdue tolerance' }, { status: 500 });
   }
-});
+}));
 
-export const POST = withCSRF(requireAdmin(async (request: NextRequest, authContext) => {
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
   try {
     
     const body = await request.json();
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { getStateChangeNotificationsOnly, setStateChangeNotificationsOnly } from '@/lib/db-utils';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { AuditLogger } from '@/lib/audit-logger';
+
+// GET /api/configuration/state-change-notifications - Whether notifications are limited to state changes
+export const GET = withCSRF(requireRole('viewer', async () => {
+  try {
+    return NextResponse.json({ notifyStateChangesOnly: getStateChangeNotificationsOnly() });
+  } catch (error) {
+    console.error('Error fetching state change notification configuration:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch state change notification configuration' },
+      { status: 500 }
+    );
+  }
+}));
+
+// POST /api/configuration/state-change-notifications - Limit notifications to state changes (Admin only)
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    const { notifyStateChangesOnly } = await request.json() as { notifyStateChangesOnly?: unknown };
+
+    if (typeof notifyStateChangesOnly !== 'boolean') {
+      return NextResponse.json({ error: 'notifyStateChangesOnly must be a boolean' }, { status: 400 });
+    }
+
+    const previous = getStateChangeNotificationsOnly();
+    setStateChangeNotificationsOnly(notifyStateChangesOnly);
+
+    // Log audit event
+    if (authContext && previous !== notifyStateChangesOnly) {
+      const ipAddress = getClientIpAddress(request);
+      const userAgent = request.headers.get('user-agent') || 'unknown';
+      await AuditLogger.logConfigChange(
+        'state_change_notifications_updated',
+        authContext.userId,
+        authContext.username,
+        'notify_state_changes_only',
+        { old: previous, new: notifyStateChangesOnly },
+        ipAddress,
+        userAgent
+      );
+    }
+
+    return NextResponse.json({ message: 'State change notification config updated successfully', notifyStateChangesOnly });
+  } catch (error) {
+    console.error('Failed to update state change notification config:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json({ error: 'Failed to update state change notification config' }, { status: 500 });
+  }
+}));
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { getStatusPages, setStatusPages } from '@/lib/status-pages';
+import { isValidStatusPageSlug, statusPageSlugMaxLength } from '@/lib/utils';
+import type { StatusPage } from '@/lib/types';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { AuditLogger } from '@/lib/audit-logger';
+
+export const runtime = 'nodejs';
+
+interface StatusPageInput {
+  id?: string;
+  slug: string;
+  title: string;
+  enabled: boolean;
+  backups: string[];
+}
+
+function isStatusPageInput(value: unknown): value is StatusPageInput {
+  if (typeof value !== 'object' || value === null) return false;
+  const page = value as Record<string, unknown>;
+  return (page.id === undefined || typeof page.id === 'string')
+    && typeof page.slug === 'string'
+    && typeof page.title === 'string'
+    && typeof page.enabled === 'boolean'
+    && Array.isArray(page.backups)
+    && page.backups.every(backup => typeof backup === 'string');
+}
+
+// GET /api/configuration/status-pages - Public status pages (Admin only)
+export const GET = withCSRF(requireRole('admin', async () => {
+  try {
+    return NextResponse.json({ pages: getStatusPages() });
+  } catch (error) {
+    console.error('Error fetching status pages:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch status pages' },
+      { status: 500 }
+    );
+  }
+}));
+
+// POST /api/configuration/status-pages - Replace the public status pages (Admin only)
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    const body: unknown = await request.json();
+    const input = typeof body === 'object' && body !== null ? (body as Record<string, unknown>).pages : undefined;
+
+    if (!Array.isArray(input) || !input.every(isStatusPageInput)) {
+      return NextResponse.json({ error: 'pages must be a list of pages with a slug, a title, enabled and a list of backups' }, { status: 400 });
+    }
+
+    const pages: StatusPage[] = [];
+    const slugs = new Set<string>();
+    for (const page of input) {
+      const slug = page.slug.trim().toLowerCase();
+      if (!isValidStatusPageSlug(slug)) {
+        return NextResponse.json(
+          { error: `Invalid slug '${page.slug}': use up to ${statusPageSlugMaxLength} lowercase letters, digits and single hyphens` },
+          { status: 400 }
+        );
+      }
+      if (slugs.has(slug)) {
+        return NextResponse.json({ error: `Status page slug '${slug}' is used more than once` }, { status: 400 });
+      }
+      slugs.add(slug);
+
+      const title = page.title.trim();
+      if (title === '') {
+        return NextResponse.json({ error: `Status page '${slug}' needs a title` }, { status: 400 });
+      }
+
+      // Backups are identified as serverId:backupName, like the backup notification settings
+      const backups = [...new Set(page.backups.filter(backup => backup.includes(':')))];
+      pages.push({ id: page.id || randomUUID(), slug, title, enabled: page.enabled, backups });
+    }
+
+    const previous = getStatusPages();
+    setStatusPages(pages);
+
+    // Log audit event
+    if (authContext) {
+      const ipAddress = getClientIpAddress(request);
+      const userAgent = request.headers.get('user-agent') || 'unknown';
+      await AuditLogger.logConfigChange(
+        'status_pages_updated',
+        authContext.userId,
+        authContext.username,
+        'status_pages',
+        { old: previous, new: pages },
+        ipAddress,
+        userAgent
+      );
+    }
+
+    return NextResponse.json({ message: 'Status pages updated successfully', pages });
+  } catch (error) {
+    console.error('Failed to update status pages:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json({ error: 'Failed to update status pages' }, { status: 500 });
+  }
+}));
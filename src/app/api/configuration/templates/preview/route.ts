@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { renderTemplatePreview } from '@/lib/notifications';
+import { validateTemplate } from '@/lib/notification-template';
+import { getAccessibleServerIds, canAccessServer } from '@/lib/server-access';
+import type { NotificationTemplate, NotificationTemplates } from '@/lib/types';
+
+// Ensure this runs in Node.js runtime, not Edge Runtime
+export const runtime = 'nodejs';
+
+const templateTypes: (keyof NotificationTemplates)[] = ['success', 'warning', 'overdueBackup', 'operation', 'recovered', 'anomaly'];
+
+interface TemplatePreviewRequest {
+  templateType: keyof NotificationTemplates;
+  template: NotificationTemplate;
+  serverId: string;
+  backupName: string;
+  emailTemplate?: { html: string; dashboardUrl: string };
+}
+
+function isTemplatePreviewRequest(value: unknown): value is TemplatePreviewRequest {
+  if (typeof value !== 'object' || value === null) return false;
+  const body = value as Record<string, unknown>;
+  const template = body.template as Record<string, unknown> | null | undefined;
+  const emailTemplate = body.emailTemplate as Record<string, unknown> | null | undefined;
+  return templateTypes.includes(body.templateType as keyof NotificationTemplates)
+    && typeof template === 'object' && template !== null
+    && typeof template.title === 'string'
+    && typeof template.message === 'string'
+    && typeof body.serverId === 'string'
+    && typeof body.backupName === 'string'
+    && (emailTemplate === undefined || (typeof emailTemplate === 'object' && emailTemplate !== null
+      && typeof emailTemplate.html === 'string' && typeof emailTemplate.dashboardUrl === 'string'));
+}
+
+// POST /api/configuration/templates/preview - Render a template, and optionally its HTML email, with the latest stored run of a backup
+export const POST = withCSRF(requireRole('operator', async (request: NextRequest, authContext) => {
+  try {
+    const body: unknown = await request.json();
+    if (!isTemplatePreviewRequest(body)) {
+      return NextResponse.json(
+        { error: 'templateType, template (with title and message), serverId and backupName are required' },
+        { status: 400 }
+      );
+    }
+
+    for (const field of ['title', 'message'] as const) {
+      const validation = validateTemplate(body.template[field]);
+      if (!validation.isValid) {
+        return NextResponse.json({ error: `Invalid ${field}: ${validation.error}` }, { status: 400 });
+      }
+    }
+    if (body.emailTemplate) {
+      const validation = validateTemplate(body.emailTemplate.html);
+      if (!validation.isValid) {
+        return NextResponse.json({ error: `Invalid HTML email template: ${validation.error}` }, { status: 400 });
+      }
+    }
+
+    // Backups of servers outside the user's server groups are reported as not found
+    const preview = canAccessServer(getAccessibleServerIds(authContext), body.serverId)
+      ? await renderTemplatePreview(body.templateType, body.template, body.serverId, body.backupName, body.emailTemplate)
+      : null;
+    if (!preview) {
+      return NextResponse.json({ error: 'No stored run found for this backup' }, { status: 404 });
+    }
+
+    return NextResponse.json(preview);
+  } catch (error) {
+    console.error('Error rendering template preview:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to render template preview' },
+      { status: 500 }
+    );
+  }
+}));
@@ -1,11 +1,12 @@
 import { withCSRF } from '@/lib/csrf-middleware';
 import { NextResponse, NextRequest } from 'next/server';
 import { getNotificationTemplates, setNotificationTemplates } from '@/lib/db-utils';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { AuditLogger } from '@/lib/audit-logger';
+import { validateTemplate } from '@/lib/notification-template';
 
-export const POST = withCSRF(requireAdmin(async (request: NextRequest, authContext) => {
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
   try {
     
     const body = await request.json();
@@ -18,12 +19,25 @@ export const POST = withCSRF(requireAdmin(async (request: NextRequest, authConte
     const updated = {
       success: templates.success || current.success,
       warning: templates.warning || current.warning,
-      overdueBackup: templates.overdueBackup || current.overdueBackup
+      overdueBackup: templates.overdueBackup || current.overdueBackup,
+      operation: templates.operation || current.operation,
+      recovered: templates.recovered || current.recovered,
+      anomaly: templates.anomaly || current.anomaly
     };
+
+    // Templates with syntax errors would be sent with plain variable substitution, reject them instead
+    for (const [templateType, template] of Object.entries(updated)) {
+      for (const field of ['title', 'message'] as const) {
+        const validation = validateTemplate(typeof template[field] === 'string' ? template[field] : '');
+        if (!validation.isValid) {
+          return NextResponse.json({ error: `Invalid ${field} of the ${templateType} template: ${validation.error}` }, { status: 400 });
+        }
+      }
+    }
     
     // Build a summary of changed template fields with old and new values
     const changesSummary: Record<string, Record<string, { old: any; new: any }>> = {};
-    const templateTypes = ['success', 'warning', 'overdueBackup'] as const;
+    const templateTypes = ['success', 'warning', 'overdueBackup', 'operation', 'recovered', 'anomaly'] as const;
     
     for (const templateType of templateTypes) {
       const oldTemplate = current[templateType];
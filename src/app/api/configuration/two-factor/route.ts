@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { setConfiguration } from '@/lib/db-utils';
+import { isTwoFactorRequired, requireTwoFactorConfigKey } from '@/lib/two-factor';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { AuditLogger } from '@/lib/audit-logger';
+
+export const GET = withCSRF(requireRole('admin', async () => {
+  try {
+    return NextResponse.json({ required: isTwoFactorRequired() });
+  } catch (error) {
+    console.error('Error fetching two-factor configuration:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch two-factor configuration' },
+      { status: 500 }
+    );
+  }
+}));
+
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    const body = await request.json();
+    const { required } = body as { required?: boolean };
+
+    if (typeof required !== 'boolean') {
+      return NextResponse.json({ error: 'required must be a boolean' }, { status: 400 });
+    }
+
+    const previous = isTwoFactorRequired();
+    setConfiguration(requireTwoFactorConfigKey, required ? 'true' : 'false');
+
+    // Log audit event
+    if (authContext && previous !== required) {
+      const ipAddress = getClientIpAddress(request);
+      const userAgent = request.headers.get('user-agent') || 'unknown';
+      await AuditLogger.logConfigChange(
+        'two_factor_config_updated',
+        authContext.userId,
+        authContext.username,
+        requireTwoFactorConfigKey,
+        { old: previous, new: required },
+        ipAddress,
+        userAgent
+      );
+    }
+
+    return NextResponse.json({ message: 'Two-factor config updated successfully', required });
+  } catch (error) {
+    console.error('Failed to update two-factor config:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json({ error: 'Failed to update two-factor config' }, { status: 500 });
+  }
+}));
@@ -1,16 +1,21 @@
-import { NextResponse } from 'next/server';
-import { getConfigBackupSettings, getOverdueToleranceConfig, getNtfyConfig, getAllServerAddresses, getCronConfig, getNotificationFrequencyConfig, getSMTPConfig, clearRequestCache, getNotificationTemplates } from '@/lib/db-utils';
-import type { NtfyConfig, EmailConfig, NotificationTemplate } from '@/lib/types';
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfigBackupSettings, getOverdueToleranceConfig, getNtfyConfig, getAllServerAddresses, getCronConfig, getNotificationFrequencyConfig, getSMTPConfig, clearRequestCache, getNotificationTemplates, getWebhookConfig, redactWebhookConfig, getOperationNotificationConfig, getStateChangeNotificationsOnly, getEmailRecipientGroups } from '@/lib/db-utils';
+import type { NtfyConfig, EmailConfig, EmailRecipientGroup, NotificationTemplates, WebhookConfig, OperationNotificationConfig } from '@/lib/types';
 import { dbUtils } from '@/lib/db-utils';
 import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getAccessibleServerIds, filterByServerAccess } from '@/lib/server-access';
 
-export const GET = withCSRF(async () => {
+export const GET = withCSRF(requireRole('viewer', async (_request: NextRequest, authContext) => {
   try {
     // Clear request cache to ensure fresh data on each request
     clearRequestCache();
+
+    // Server data (URLs, notes, backup settings) is limited to the servers the user is allowed to see
+    const serverIds = getAccessibleServerIds(authContext);
     
     // Fetch all configuration data in parallel
-    const [backupSettings, overdueToleranceEnum, ntfyConfig, cronConfig, notificationFrequency, serversBackupNames, smtpConfig, templates] = await Promise.all([
+    const [backupSettings, overdueToleranceEnum, ntfyConfig, cronConfig, notificationFrequency, serversBackupNames, smtpConfig, templates, webhookConfig, operationNotifications, notifyStateChangesOnly, emailRecipientGroups] = await Promise.all([
       getConfigBackupSettings(),
       Promise.resolve(getOverdueToleranceConfig()),
       getNtfyConfig(),
@@ -18,17 +23,29 @@ export const GET = withCSRF(async () => {
       Promise.resolve(getNotificationFrequencyConfig()),
       Promise.resolve(dbUtils.getServersBackupNames()),
       Promise.resolve(getSMTPConfig()),
-      Promise.resolve(getNotificationTemplates())
+      Promise.resolve(getNotificationTemplates()),
+      Promise.resolve(getWebhookConfig()),
+      Promise.resolve(getOperationNotificationConfig()),
+      Promise.resolve(getStateChangeNotificationsOnly()),
+      Promise.resolve(getEmailRecipientGroups())
     ]);
 
     // Build base response fields
     const base: {
       ntfy: NtfyConfig;
-      templates: { success: NotificationTemplate; warning: NotificationTemplate; overdueBackup: NotificationTemplate };
+      webhook: WebhookConfig;
+      templates: NotificationTemplates;
+      operation_notifications: OperationNotificationConfig;
+      notify_state_changes_only: boolean;
+      email_recipient_groups: EmailRecipientGroup[];
       email?: EmailConfig;
     } = {
       ntfy: ntfyConfig,
-      templates
+      webhook: authContext.isAdmin ? webhookConfig : redactWebhookConfig(webhookConfig),
+      templates,
+      operation_notifications: operationNotifications,
+      notify_state_changes_only: notifyStateChangesOnly,
+      email_recipient_groups: emailRecipientGroups
     };
 
     // Add email configuration if available (without password)
@@ -66,20 +83,23 @@ export const GET = withCSRF(async () => {
       note: server.note,
       hasPassword: server.hasPassword
     }));
+    const accessibleBackupSettings = Object.fromEntries(
+      filterByServerAccess(Object.entries(backupSettings), serverIds, ([backupKey]) => backupKey.split(':')[0])
+    );
 
     // Return unified configuration object
     const unifiedConfig = {
       ...base,
       overdue_tolerance: overdueToleranceEnum,
       // keep these independent of notification config shape
-      backup_settings: backupSettings,
-      serverAddresses: getAllServerAddresses(),
+      backup_settings: accessibleBackupSettings,
+      serverAddresses: filterByServerAccess(getAllServerAddresses(), serverIds, server => server.id),
       cronConfig: {
         cronExpression: cronConfig.tasks['overdue-backup-check'].cronExpression,
         enabled: cronConfig.tasks['overdue-backup-check'].enabled
       },
       notificationFrequency,
-      serversWithBackups
+      serversWithBackups: filterByServerAccess(serversWithBackups, serverIds, server => server.id)
     };
 
     return NextResponse.json(unifiedConfig, {
@@ -103,4 +123,4 @@ export const GET = withCSRF(async () => {
       }
     );
   }
-});
+}));
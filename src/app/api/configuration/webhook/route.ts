@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { getWebhookConfig, setWebhookConfig, redactWebhookConfig, redactWebhookUrl } from '@/lib/db-utils';
+import { renderWebhookBody } from '@/lib/notifications';
+import type { WebhookConfig, WebhookHeader, WebhookMethod } from '@/lib/types';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { AuditLogger } from '@/lib/audit-logger';
+
+const allowedMethods: WebhookMethod[] = ['POST', 'PUT', 'PATCH'];
+
+export const GET = withCSRF(requireRole('viewer', async (_request: NextRequest, authContext) => {
+  try {
+    const webhookConfig = getWebhookConfig();
+    return NextResponse.json({ webhook: authContext.isAdmin ? webhookConfig : redactWebhookConfig(webhookConfig) });
+  } catch (error) {
+    console.error('Error fetching webhook configuration:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook configuration' },
+      { status: 500 }
+    );
+  }
+}));
+
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    const body = await request.json();
+    const { webhook } = body as { webhook?: Partial<WebhookConfig> };
+
+    if (!webhook) {
+      return NextResponse.json({ error: 'webhook config is required' }, { status: 400 });
+    }
+
+    // An empty URL disables the webhook channel
+    const url = typeof webhook.url === 'string' ? webhook.url.trim() : '';
+    if (url !== '') {
+      let parsedUrl: URL;
+      try {
+        parsedUrl = new URL(url);
+      } catch {
+        return NextResponse.json({ error: 'Webhook URL is not a valid URL' }, { status: 400 });
+      }
+      if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+        return NextResponse.json({ error: 'Webhook URL must use http or https' }, { status: 400 });
+      }
+    }
+
+    const method = (webhook.method || 'POST') as WebhookMethod;
+    if (!allowedMethods.includes(method)) {
+      return NextResponse.json(
+        { error: `Invalid method. Allowed values: ${allowedMethods.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (webhook.headers !== undefined && !Array.isArray(webhook.headers)) {
+      return NextResponse.json({ error: 'Headers must be a list of name/value pairs' }, { status: 400 });
+    }
+    const headers: WebhookHeader[] = (webhook.headers || [])
+      .filter((header) => header && typeof header.name === 'string' && header.name.trim() !== '')
+      .map((header) => ({ name: header.name.trim(), value: typeof header.value === 'string' ? header.value : '' }));
+
+    const bodyTemplate = typeof webhook.bodyTemplate === 'string' ? webhook.bodyTemplate : '';
+    if (bodyTemplate.trim() === '') {
+      return NextResponse.json({ error: 'Body template is required' }, { status: 400 });
+    }
+
+    // Make sure the template produces valid JSON before saving it
+    try {
+      renderWebhookBody(bodyTemplate, {});
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      );
+    }
+
+    const updatedWebhook: WebhookConfig = { url, method, headers, bodyTemplate };
+    setWebhookConfig(updatedWebhook);
+
+    // Log audit event (the URL and header values may contain credentials, only log the origin and the names)
+    if (authContext) {
+      const ipAddress = getClientIpAddress(request);
+      const userAgent = request.headers.get('user-agent') || 'unknown';
+      await AuditLogger.logConfigChange(
+        'webhook_config_updated',
+        authContext.userId,
+        authContext.username,
+        'webhook_config',
+        {
+          url: redactWebhookUrl(updatedWebhook.url),
+          method: updatedWebhook.method,
+          headerNames: updatedWebhook.headers.map((header) => header.name),
+        },
+        ipAddress,
+        userAgent
+      );
+    }
+
+    return NextResponse.json({ message: 'Webhook config updated successfully', webhook: updatedWebhook });
+  } catch (error) {
+    console.error('Failed to update webhook config:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json({ error: 'Failed to update webhook config' }, { status: 500 });
+  }
+}));
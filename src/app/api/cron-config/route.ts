@@ -2,7 +2,7 @@ import { withCSRF } from '@/lib/csrf-middleware';
 import { NextResponse, NextRequest } from 'next/server';
 import { getCronConfig, setCronInterval, getCurrentCronInterval } from '@/lib/db-utils';
 import { CronInterval } from '@/lib/types';
-import { optionalAuth } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { AuditLogger } from '@/lib/audit-logger';
 import { cronIntervalMap } from '@/lib/cron-interval-map';
@@ -10,7 +10,7 @@ import { cronIntervalMap } from '@/lib/cron-interval-map';
 // Ensure this runs in Node.js runtime, not Edge Runtime
 export const runtime = 'nodejs';
 
-export const GET = withCSRF(async () => {
+export const GET = withCSRF(requireRole('viewer', async () => {
   try {
     const config = getCronConfig();
     const task = config.tasks['overdue-backup-check'];
@@ -27,9 +27,9 @@ export const GET = withCSRF(async () => {
       { status: 500 }
     );
   }
-});
+}));
 
-export const POST = withCSRF(optionalAuth(async (request: NextRequest, authContext) => {
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
   try {
     
     const { interval } = await request.json() as { interval: CronInterval };
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as cron from 'node-cron';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { getCronConfig, setCronConfig } from '@/lib/db-utils';
+import { isValidTimeZone } from '@/lib/cron-schedule';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { AuditLogger } from '@/lib/audit-logger';
+import type { CronTaskConfig } from '@/lib/types';
+
+// Ensure this runs in Node.js runtime, not Edge Runtime
+export const runtime = 'nodejs';
+
+// GET /api/cron-config/tasks - Schedule of every cron service task
+export const GET = withCSRF(requireRole('viewer', async () => {
+  try {
+    const { tasks } = getCronConfig();
+    return NextResponse.json({
+      tasks: Object.entries(tasks).map(([taskName, task]) => ({
+        taskName,
+        cronExpression: task.cronExpression.trim().split(/\s+/).join(' '),
+        enabled: task.enabled,
+        timezone: task.timezone || '',
+      })),
+    });
+  } catch (error) {
+    console.error('Failed to get cron tasks:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to get cron tasks' },
+      { status: 500 }
+    );
+  }
+}));
+
+// POST /api/cron-config/tasks - Update the schedule of a cron service task (Admin only)
+// The cron service must reload its configuration to apply it
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    const body: unknown = await request.json();
+    const { taskName, cronExpression, enabled, timezone } = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+
+    if (typeof taskName !== 'string' || typeof cronExpression !== 'string' || typeof enabled !== 'boolean'
+      || (timezone !== undefined && typeof timezone !== 'string')) {
+      return NextResponse.json(
+        { error: 'taskName, cronExpression and enabled are required' },
+        { status: 400 }
+      );
+    }
+
+    const config = getCronConfig();
+    const oldTask = config.tasks[taskName];
+    if (!oldTask) {
+      return NextResponse.json(
+        { error: `Task ${taskName} not found` },
+        { status: 404 }
+      );
+    }
+
+    // Validated like the cron service schedules it
+    const expression = cronExpression.trim().split(/\s+/).join(' ');
+    if (!cron.validate(expression)) {
+      return NextResponse.json(
+        { error: `Invalid cron expression: ${cronExpression}` },
+        { status: 400 }
+      );
+    }
+    const zone = (timezone || '').trim();
+    if (zone && !isValidTimeZone(zone)) {
+      return NextResponse.json(
+        { error: `Unknown time zone: ${zone}` },
+        { status: 400 }
+      );
+    }
+
+    const newTask: CronTaskConfig = { cronExpression: expression, enabled, ...(zone ? { timezone: zone } : {}) };
+    setCronConfig({ ...config, tasks: { ...config.tasks, [taskName]: newTask } });
+
+    // Log audit event
+    if (authContext) {
+      const ipAddress = getClientIpAddress(request);
+      const userAgent = request.headers.get('user-agent') || 'unknown';
+      await AuditLogger.logConfigChange(
+        'cron_task_updated',
+        authContext.userId,
+        authContext.username,
+        'cron_service',
+        { task: taskName, old: oldTask, new: newTask },
+        ipAddress,
+        userAgent
+      );
+    }
+
+    return NextResponse.json({ taskName, ...newTask, timezone: zone });
+  } catch (error) {
+    console.error('Failed to update cron task:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to update cron task' },
+      { status: 500 }
+    );
+  }
+}));
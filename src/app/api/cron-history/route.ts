@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureDatabaseInitialized } from '@/lib/db';
+import { getCronConfig } from '@/lib/db-utils';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getAccessibleServerIds } from '@/lib/server-access';
+import { cronTaskRunRetentionDays } from '@/lib/default-config';
+import { getCronTaskRuns, getCronTaskRunSummaries, getCronTaskRunTimeline } from '@/lib/cron-task-runs';
+import type { CronTaskRunSummary } from '@/lib/types';
+
+// Ensure this runs in Node.js runtime, not Edge Runtime
+export const runtime = 'nodejs';
+
+const MAX_PAGE_SIZE = 100;
+
+// GET /api/cron-history?days=7&task=overdue-backup-check&page=1 - Task run history of the cron service
+export const GET = withCSRF(requireRole('viewer', async (request: NextRequest, authContext) => {
+  try {
+    await ensureDatabaseInitialized();
+
+    // The task run history is not scoped per server group, users restricted to their groups cannot read it
+    if (getAccessibleServerIds(authContext) !== null) {
+      return NextResponse.json({ error: 'Access to all servers required' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(cronTaskRunRetentionDays, Math.max(1, parseInt(searchParams.get('days') || '7', 10) || 7));
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || '50', 10) || 50));
+    const taskName = searchParams.get('task');
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    // Configured tasks are listed even when they did not run, removed tasks while they have runs
+    const summaries = getCronTaskRunSummaries(since);
+    const idleTasks: CronTaskRunSummary[] = Object.keys(getCronConfig().tasks)
+      .filter(name => !summaries.some(summary => summary.taskName === name))
+      .map(name => ({ taskName: name, runs: 0, failures: 0, lastStartedAt: null }));
+    const tasks = [...summaries, ...idleTasks].sort((a, b) => a.taskName.localeCompare(b.taskName));
+
+    if (!taskName) {
+      return NextResponse.json({ days, tasks });
+    }
+
+    const { runs, total } = getCronTaskRuns({ taskName, since, limit, offset: (page - 1) * limit });
+    return NextResponse.json({
+      days,
+      tasks,
+      taskName,
+      timeline: getCronTaskRunTimeline(taskName, since),
+      runs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching cron task run history:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch task run history' },
+      { status: 500 }
+    );
+  }
+}));
@@ -1,18 +1,55 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getCronConfig } from '@/lib/db-utils';
 import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getCronServiceSecret } from '@/lib/secrets';
 
 const cronConfig = getCronConfig();
 const CRON_SERVICE_URL = process.env.CRON_SERVICE_URL || `http://localhost:${cronConfig.port}`;
 
-export const GET = withCSRF(async (
+// The cron service only accepts requests that carry the shared secret
+function getCronServiceHeaders(): HeadersInit {
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${getCronServiceSecret()}`,
+  };
+}
+
+// Path on the cron service, each segment encoded so that it cannot change the target of the request.
+// Returns null for dot segments, which fetch() would resolve (e.g. trigger/../stop/<task>).
+function getCronServicePath(segments: string[]): string | null {
+  if (segments.length === 0 || segments.some(segment => segment === '' || segment === '.' || segment === '..')) {
+    return null;
+  }
+  return segments.map(segment => encodeURIComponent(segment)).join('/');
+}
+
+// trigger/<taskName> for a configured task, the only POST operators can send
+function isTaskTrigger(segments: string[]): boolean {
+  return segments.length === 2 && segments[0] === 'trigger' && Object.hasOwn(getCronConfig().tasks, segments[1]);
+}
+
+function invalidPathResponse() {
+  return NextResponse.json(
+    { error: 'Invalid cron service path' },
+    { status: 400 }
+  );
+}
+
+export const GET = withCSRF(requireRole('viewer', async (
   request: NextRequest,
+  authContext,
   { params }: { params: Promise<{ path: string[] }> }
 ) => {
   try {
     const resolvedParams = await params;
-    const path = resolvedParams.path.join('/');
-    const response = await fetch(`${CRON_SERVICE_URL}/${path}`);
+    const path = getCronServicePath(resolvedParams.path);
+    if (!path) {
+      return invalidPathResponse();
+    }
+    const response = await fetch(`${CRON_SERVICE_URL}/${path}`, {
+      headers: getCronServiceHeaders(),
+    });
     return new Response(response.body, {
       status: response.status,
       headers: {
@@ -31,24 +68,34 @@ export const GET = withCSRF(async (
       },
     });
   }
-});
+}));
 
-export const POST = withCSRF(async (
+// Operators can trigger tasks, starting/stopping tasks and reloading the configuration requires an admin
+export const POST = withCSRF(requireRole('operator', async (
   request: NextRequest,
+  authContext,
   { params }: { params: Promise<{ path: string[] }> }
 ) => {
   try {
     const resolvedParams = await params;
-    const path = resolvedParams.path.join('/');
+    const path = getCronServicePath(resolvedParams.path);
+    if (!path) {
+      return invalidPathResponse();
+    }
+
+    if (!isTaskTrigger(resolvedParams.path) && !authContext.isAdmin) {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
     
     // First read the request body as a stream
     const body = await request.text();
     
     const response = await fetch(`${CRON_SERVICE_URL}/${path}`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      headers: getCronServiceHeaders(),
       body: body,
     });
     
@@ -70,4 +117,4 @@ export const POST = withCSRF(async (
       },
     });
   }
-});
\ No newline at end of file
+}));
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getServersSummary, clearRequestCache } from '@/lib/db-utils';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getAccessibleServerIds, canAccessServer } from '@/lib/server-access';
+
+// Dashboard summary of a single server, used by the live updates instead of reloading the whole dashboard
+export const GET = withCSRF(requireRole('viewer', async (request, authContext) => {
+  try {
+    // Extract serverId from URL pathname
+    const serverId = decodeURIComponent(new URL(request.url).pathname.split('/')[3] || ''); // /api/dashboard/[serverId]
+
+    if (!serverId) {
+      return NextResponse.json({ error: 'Server ID is required' }, { status: 400 });
+    }
+
+    // Clear request cache to ensure fresh data on each request
+    clearRequestCache();
+
+    // Servers outside the user's server groups are reported as not found
+    const [server] = canAccessServer(getAccessibleServerIds(authContext), serverId)
+      ? await getServersSummary(serverId)
+      : [];
+    if (!server) {
+      return NextResponse.json({ error: 'Server not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ server }, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching server dashboard data:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch server dashboard data' },
+      { status: 500 }
+    );
+  }
+}));
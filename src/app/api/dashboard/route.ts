@@ -1,17 +1,22 @@
 import { NextResponse } from 'next/server';
 import { getServersSummary, getOverallSummaryFromServers, getAggregatedChartData, clearRequestCache } from '@/lib/db-utils';
 import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getAccessibleServerIds, filterByServerAccess } from '@/lib/server-access';
 
-export const GET = withCSRF(async () => {
+export const GET = withCSRF(requireRole('viewer', async (request, authContext) => {
   try {
     // Clear request cache to ensure fresh data on each request
     clearRequestCache();
     
+    // Only include the servers the user is allowed to see
+    const serverIds = getAccessibleServerIds(authContext);
+
     // Fetch dashboard data efficiently - get serversSummary first, then use it for overallSummary
-    const serversSummary = await Promise.resolve(getServersSummary());
+    const serversSummary = filterByServerAccess(await getServersSummary(), serverIds, server => server.id);
     const [overallSummary, chartData] = await Promise.all([
       Promise.resolve(getOverallSummaryFromServers(serversSummary)),
-      Promise.resolve(getAggregatedChartData())
+      Promise.resolve(getAggregatedChartData(serverIds))
     ]);
 
     // Validate that we got valid data
@@ -23,7 +28,7 @@ export const GET = withCSRF(async () => {
     let latestBackup: { last_backup_date: string | null } | null = null;
     try {
       const { dbUtils } = await import('@/lib/db-utils');
-      latestBackup = dbUtils.getLatestBackupDate() as { last_backup_date: string | null };
+      latestBackup = dbUtils.getLatestBackupDate(serverIds) as { last_backup_date: string | null };
     } catch (error) {
       console.error('Error getting latest backup date:', error instanceof Error ? error.message : String(error));
       latestBackup = null;
@@ -67,4 +72,4 @@ export const GET = withCSRF(async () => {
       }
     );
   }
-});
+}));
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { ensureDatabaseInitialized } from '@/lib/db';
+import { getCronConfig } from '@/lib/db-utils';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { databaseMaintenanceTaskName, getDatabaseMaintenanceReport, getDatabaseSize } from '@/lib/database-maintenance';
+
+// Ensure this runs in Node.js runtime, not Edge Runtime
+export const runtime = 'nodejs';
+
+// GET /api/database-maintenance - Report of the last scheduled maintenance, current size and schedule (Admin only)
+// The maintenance itself runs in the cron service (POST /api/cron/trigger/database-maintenance)
+export const GET = withCSRF(requireRole('admin', async () => {
+  try {
+    await ensureDatabaseInitialized();
+
+    const task = getCronConfig().tasks[databaseMaintenanceTaskName];
+    return NextResponse.json({
+      report: getDatabaseMaintenanceReport(),
+      size: getDatabaseSize(),
+      schedule: task
+        ? { cronExpression: task.cronExpression.trim().split(/\s+/).join(' '), enabled: task.enabled, timezone: task.timezone || '' }
+        : null,
+    });
+  } catch (error) {
+    console.error('Failed to get database maintenance report:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to get database maintenance report' },
+      { status: 500 }
+    );
+  }
+}));
@@ -1,9 +1,12 @@
 import { NextResponse } from 'next/server';
 import { getServerById, getOverdueBackupsForServer, getLastOverdueBackupCheckTime, clearRequestCache } from '@/lib/db-utils';
 import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getAccessibleServerIds, canAccessServer } from '@/lib/server-access';
 
-export const GET = withCSRF(async (
+export const GET = withCSRF(requireRole('viewer', async (
   request: Request,
+  authContext,
   { params }: { params: Promise<{ serverId: string }> }
 ) => {
   try {
@@ -12,9 +15,9 @@ export const GET = withCSRF(async (
     
     const { serverId } = await params;
     
-    // Get server data
+    // Get server data (servers outside the user's server groups are reported as not found)
     const server = await getServerById(serverId);
-    if (!server) {
+    if (!server || !canAccessServer(getAccessibleServerIds(authContext), server.id)) {
       return NextResponse.json(
         { error: 'Server not found' },
         { status: 404 }
@@ -52,4 +55,4 @@ export const GET = withCSRF(async (
       }
     );
   }
-});
+}));
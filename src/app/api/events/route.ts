@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getAccessibleServerIds, canAccessServer } from '@/lib/server-access';
+import { getSessionIdFromRequest, validateSession } from '@/lib/session-csrf';
+import { getLiveEventsAfter, subscribeToLiveEvents, type StoredLiveEvent } from '@/lib/live-events';
+
+// Streams never end on their own, keep them out of static optimization
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL_MS = 25000; // Below the idle timeout of common reverse proxies
+const RETRY_MS = 5000;
+
+// GET /api/events - Server-Sent Events stream of live dashboard updates
+export const GET = withCSRF(requireRole('viewer', async (request: NextRequest, authContext) => {
+  try {
+    const serverIds = getAccessibleServerIds(authContext);
+    const sessionId = getSessionIdFromRequest(request);
+
+    // Browsers send the ID of the last received event when they reconnect
+    const lastEventIdHeader = parseInt(request.headers.get('last-event-id') || '', 10);
+    const lastEventId = Number.isNaN(lastEventIdHeader) ? null : lastEventIdHeader;
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+        let lastSentId = 0;
+
+        const write = (chunk: string) => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+        };
+
+        const send = ({ id, event }: StoredLiveEvent) => {
+          if (id <= lastSentId) {
+            return;
+          }
+          lastSentId = id;
+          // Users scoped to server groups only receive the events of their servers
+          if (canAccessServer(serverIds, event.serverId)) {
+            write(`id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+          }
+        };
+
+        const unsubscribe = subscribeToLiveEvents(send);
+
+        // End the stream when the user logs out or the session expires
+        const heartbeat = setInterval(() => {
+          if (!sessionId || !validateSession(sessionId)) {
+            cleanup();
+            return;
+          }
+          write(': heartbeat\n\n');
+        }, HEARTBEAT_INTERVAL_MS);
+
+        cleanup = () => {
+          if (closed) {
+            return;
+          }
+          closed = true;
+          clearInterval(heartbeat);
+          unsubscribe();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        };
+
+        request.signal.addEventListener('abort', () => cleanup());
+
+        write(`retry: ${RETRY_MS}\n\n`);
+        if (lastEventId !== null) {
+          getLiveEventsAfter(lastEventId).forEach(send);
+        }
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-store, no-transform',
+        'Connection': 'keep-alive',
+        // Disable response compression and proxy buffering, both would hold events back
+        'Content-Encoding': 'none',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('Error opening live events stream:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to open live events stream' },
+      { status: 500 }
+    );
+  }
+}));
@@ -1,5 +1,9 @@
+import { NextRequest } from 'next/server';
 import { dbOps, formatDurationFromSeconds } from '@/lib/db';
-import type { Backup, BackupStatus } from '@/lib/types';
+import { getAuthContext } from '@/lib/auth-middleware';
+import { authenticateUnscopedApiKey } from '@/lib/api-key-auth';
+import { getAccessibleServerIds, canAccessServer, filterByServerAccess } from '@/lib/server-access';
+import type { Backup, BackupAnomaly, BackupStatus } from '@/lib/types';
 
 interface ServerRow {
   id: string;
@@ -28,6 +32,7 @@ interface BackupRecord {
   warnings_array: string | null;
   errors_array: string | null;
   available_backups: string | null;
+  anomalies: string | null;
 }
 
 function mapBackupToJob(backup: BackupRecord): Backup {
@@ -52,11 +57,12 @@ function mapBackupToJob(backup: BackupRecord): Backup {
     messages_array: backup.messages_array,
     warnings_array: backup.warnings_array,
     errors_array: backup.errors_array,
-    available_backups: backup.available_backups ? JSON.parse(backup.available_backups) : []
+    available_backups: backup.available_backups ? JSON.parse(backup.available_backups) : [],
+    anomalies: backup.anomalies ? JSON.parse(backup.anomalies) as BackupAnomaly[] : null
   };
 }
 
-export async function GET(request: Request) {
+export async function GET(request: NextRequest) {
   const { pathname } = new URL(request.url);
   const match = pathname.match(/api\/lastbackup\/([^\/]+)/);
   const serverId = match ? match[1] : undefined;
@@ -79,13 +85,28 @@ export async function GET(request: Request) {
     // Decode the serverId from URL encoding
     const identifier = serverId ? decodeURIComponent(serverId) : undefined;
 
+    // Logged-in users only see the servers of their server groups. Once server groups exist, calls
+    // without a session need an API key, which is issued by an admin and reads every server
+    const authContext = await getAuthContext(request);
+    if (!authContext) {
+      const apiKeyError = await authenticateUnscopedApiKey(request, { scope: 'lastbackup', logSuccess: false });
+      if (apiKeyError) {
+        const { error, message } = await apiKeyError.json();
+        return jsonResponse({ error, message, status: apiKeyError.status }, apiKeyError.status);
+      }
+    }
+    const serverIds = authContext ? getAccessibleServerIds(authContext) : null;
+
     // First try to find server by ID
     let server = dbOps.getServerById.get(identifier) as ServerRow | null;
+    if (server && !canAccessServer(serverIds, server.id)) {
+      server = null;
+    }
     
     // If not found by ID, try to find by name
     if (!server) {
       // Check for duplicate server names
-      const serversWithSameName = dbOps.getAllServersByName.all(identifier) as ServerRow[];
+      const serversWithSameName = filterByServerAccess(dbOps.getAllServersByName.all(identifier) as ServerRow[], serverIds, s => s.id);
       
       if (serversWithSameName.length > 1) {
         return jsonResponse({ 
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { dbOps, ensureDatabaseInitialized } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit-logger';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { getMaintenanceWindowById, parseMaintenanceWindowInput, updateMaintenanceWindow, withMaintenanceOccurrence } from '@/lib/maintenance-windows';
+
+// PATCH /api/maintenance-windows/[id] - Update maintenance window
+export const PATCH = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    await ensureDatabaseInitialized();
+
+    const pathname = request.nextUrl.pathname;
+    const windowId = pathname.split('/').pop() || '';
+
+    const existingWindow = getMaintenanceWindowById(windowId);
+    if (!existingWindow) {
+      return NextResponse.json(
+        { error: 'Maintenance window not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { input, error } = parseMaintenanceWindowInput(body, existingWindow);
+    if (!input) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const window = updateMaintenanceWindow(windowId, input);
+
+    // Log audit event
+    const ipAddress = getClientIpAddress(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+    await AuditLogger.logServerOperation(
+      'maintenance_window_updated',
+      authContext.userId,
+      authContext.username,
+      input.serverId,
+      {
+        windowId,
+        backupName: { from: existingWindow.backupName, to: input.backupName },
+        startTime: { from: existingWindow.startTime, to: input.startTime },
+        endTime: { from: existingWindow.endTime, to: input.endTime },
+        recurrence: { from: existingWindow.recurrence, to: input.recurrence },
+        reason: { from: existingWindow.reason, to: input.reason },
+      },
+      ipAddress,
+      userAgent
+    );
+
+    return NextResponse.json({ window: window ? withMaintenanceOccurrence([window])[0] : null });
+  } catch (error) {
+    console.error('Error updating maintenance window:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to update maintenance window' },
+      { status: 500 }
+    );
+  }
+}));
+
+// DELETE /api/maintenance-windows/[id] - Delete maintenance window (also ends a snooze)
+export const DELETE = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    await ensureDatabaseInitialized();
+
+    const pathname = request.nextUrl.pathname;
+    const windowId = pathname.split('/').pop() || '';
+
+    const existingWindow = getMaintenanceWindowById(windowId);
+    if (!existingWindow) {
+      return NextResponse.json(
+        { error: 'Maintenance window not found' },
+        { status: 404 }
+      );
+    }
+
+    dbOps.deleteMaintenanceWindow.run(windowId);
+
+    // Log audit event
+    const ipAddress = getClientIpAddress(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+    await AuditLogger.logServerOperation(
+      'maintenance_window_deleted',
+      authContext.userId,
+      authContext.username,
+      existingWindow.serverId,
+      {
+        windowId,
+        backupName: existingWindow.backupName,
+        startTime: existingWindow.startTime,
+        endTime: existingWindow.endTime,
+        recurrence: existingWindow.recurrence,
+        reason: existingWindow.reason,
+      },
+      ipAddress,
+      userAgent
+    );
+
+    return NextResponse.json({ success: true, message: 'Maintenance window deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting maintenance window:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to delete maintenance window' },
+      { status: 500 }
+    );
+  }
+}));
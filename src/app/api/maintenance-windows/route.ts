@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureDatabaseInitialized } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit-logger';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { getAccessibleServerIds, filterByServerAccess } from '@/lib/server-access';
+import { createMaintenanceWindow, getMaintenanceWindows, parseMaintenanceWindowInput, withMaintenanceOccurrence } from '@/lib/maintenance-windows';
+
+// GET /api/maintenance-windows - List maintenance windows of the servers the user can see
+export const GET = withCSRF(requireRole('viewer', async (request, authContext) => {
+  try {
+    await ensureDatabaseInitialized();
+
+    const serverIds = getAccessibleServerIds(authContext);
+    const windows = filterByServerAccess(getMaintenanceWindows(), serverIds, window => window.serverId);
+
+    return NextResponse.json({ windows: withMaintenanceOccurrence(windows) });
+  } catch (error) {
+    console.error('Error listing maintenance windows:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to list maintenance windows' },
+      { status: 500 }
+    );
+  }
+}));
+
+// POST /api/maintenance-windows - Create maintenance window
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    await ensureDatabaseInitialized();
+
+    const body = await request.json();
+    const { input, error } = parseMaintenanceWindowInput(body);
+    if (!input) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const window = createMaintenanceWindow(input, authContext.username);
+
+    // Log audit event
+    const ipAddress = getClientIpAddress(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+    await AuditLogger.logServerOperation(
+      'maintenance_window_created',
+      authContext.userId,
+      authContext.username,
+      input.serverId,
+      {
+        windowId: window.id,
+        backupName: input.backupName,
+        startTime: input.startTime,
+        endTime: input.endTime,
+        recurrence: input.recurrence,
+        reason: input.reason,
+      },
+      ipAddress,
+      userAgent
+    );
+
+    return NextResponse.json({ window: withMaintenanceOccurrence([window])[0] }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating maintenance window:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to create maintenance window' },
+      { status: 500 }
+    );
+  }
+}));
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { dbOps, ensureDatabaseInitialized } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit-logger';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { getAccessibleServerIds, canAccessServer } from '@/lib/server-access';
+import { snoozeBackup, withMaintenanceOccurrence } from '@/lib/maintenance-windows';
+import { defaultSnoozeHours, snoozeHoursLimits } from '@/lib/default-config';
+
+// POST /api/maintenance-windows/snooze - Snooze the notifications of an overdue or failing backup (Operator or Admin)
+export const POST = withCSRF(requireRole('operator', async (request: NextRequest, authContext) => {
+  try {
+    await ensureDatabaseInitialized();
+
+    const { serverId, backupName, hours = defaultSnoozeHours } = await request.json() as {
+      serverId?: unknown;
+      backupName?: unknown;
+      hours?: unknown;
+    };
+
+    if (typeof serverId !== 'string' || typeof backupName !== 'string' || backupName.trim() === '') {
+      return NextResponse.json({ error: 'serverId and backupName are required' }, { status: 400 });
+    }
+    if (typeof hours !== 'number' || !Number.isInteger(hours) || hours < snoozeHoursLimits.min || hours > snoozeHoursLimits.max) {
+      return NextResponse.json(
+        { error: `hours must be a whole number between ${snoozeHoursLimits.min} and ${snoozeHoursLimits.max}` },
+        { status: 400 }
+      );
+    }
+    if (!dbOps.getServerById.get(serverId) || !canAccessServer(getAccessibleServerIds(authContext), serverId)) {
+      return NextResponse.json({ error: 'Server not found' }, { status: 404 });
+    }
+
+    const window = snoozeBackup(serverId, backupName, hours, authContext.username);
+
+    // Log audit event
+    const ipAddress = getClientIpAddress(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+    await AuditLogger.logServerOperation(
+      'backup_snoozed',
+      authContext.userId,
+      authContext.username,
+      serverId,
+      {
+        windowId: window.id,
+        backupName,
+        hours,
+        until: window.endTime,
+      },
+      ipAddress,
+      userAgent
+    );
+
+    return NextResponse.json({ window: withMaintenanceOccurrence([window])[0] }, { status: 201 });
+  } catch (error) {
+    console.error('Error snoozing backup:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to snooze backup' },
+      { status: 500 }
+    );
+  }
+}));
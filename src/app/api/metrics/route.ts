@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServersSummary, getOverallSummary, getOverallSummaryFromServers, clearRequestCache } from '@/lib/db-utils';
+import { buildPrometheusMetrics, prometheusContentType } from '@/lib/metrics';
+import { authenticateApiKey, authenticateUnscopedApiKey, isApiKeyRequired } from '@/lib/api-key-auth';
+import { getAuthContext } from '@/lib/auth-middleware';
+import { getAccessibleServerIds, filterByServerAccess, isServerScopingEnabled } from '@/lib/server-access';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Logged-in users only see the servers of their server groups. Once server groups exist, calls
+    // without a session need an API key, which is issued by an admin and reads every server
+    const authContext = await getAuthContext(request);
+    if (isServerScopingEnabled()) {
+      if (!authContext) {
+        const apiKeyError = await authenticateUnscopedApiKey(request, { scope: 'metrics', logSuccess: false });
+        if (apiKeyError) {
+          return apiKeyError;
+        }
+      }
+    } else if (isApiKeyRequired('metrics_require_api_key')) {
+      // Check if API key authentication is required (successful scrapes are not audit logged)
+      const apiKeyError = await authenticateApiKey(request, { scope: 'metrics', logSuccess: false });
+      if (apiKeyError) {
+        return apiKeyError;
+      }
+    }
+
+    // Clear request cache so every scrape reflects the current data
+    clearRequestCache();
+
+    const serverIds = authContext ? getAccessibleServerIds(authContext) : null;
+    const serversSummary = filterByServerAccess(await getServersSummary(), serverIds, server => server.id);
+    const overallSummary = serverIds === null
+      ? await getOverallSummary()
+      : await getOverallSummaryFromServers(serversSummary);
+
+    return new NextResponse(buildPrometheusMetrics(serversSummary, overallSummary), {
+      status: 200,
+      headers: {
+        'Content-Type': prometheusContentType,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating metrics:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to generate metrics' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,12 @@
 import { withCSRF } from '@/lib/csrf-middleware';
 import { NextResponse, NextRequest } from 'next/server';
 import { checkOverdueBackups } from '@/lib/overdue-backup-checker';
-import { optionalAuth, getAuthContext } from '@/lib/auth-middleware';
+import { requireRole, getAuthContext } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { AuditLogger } from '@/lib/audit-logger';
 
 // HTTP endpoint that uses the core function
-export const POST = withCSRF(optionalAuth(async (request: NextRequest, authContext) => {
+export const POST = withCSRF(requireRole('operator', async (request: NextRequest, authContext) => {
   try {
     
     const result = await checkOverdueBackups();
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureDatabaseInitialized } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit-logger';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { getAccessibleServerIds, canAccessServer } from '@/lib/server-access';
+import { getNotificationMessage, requeueNotificationMessage } from '@/lib/notification-outbox';
+import { deliverNotificationMessage } from '@/lib/notifications';
+
+// POST /api/notifications/history/[id]/resend - Send a notification again: its failed channels, or all channels once delivered (Operator or Admin)
+export const POST = withCSRF(requireRole('operator', async (request: NextRequest, authContext) => {
+  try {
+    await ensureDatabaseInitialized();
+
+    // Path is /api/notifications/history/[id]/resend
+    const segments = request.nextUrl.pathname.split('/');
+    const messageId = segments[segments.length - 2] || '';
+
+    const message = getNotificationMessage(messageId);
+    // Messages without a server are only available to users with access to every server
+    const serverIds = getAccessibleServerIds(authContext);
+    if (!message || (serverIds !== null && !(message.serverId && canAccessServer(serverIds, message.serverId)))) {
+      return NextResponse.json({ error: 'Notification not found' }, { status: 404 });
+    }
+    if (message.status === 'pending' && message.attempts === 0) {
+      return NextResponse.json({ error: 'The notification is already being sent' }, { status: 409 });
+    }
+
+    requeueNotificationMessage(message);
+    // Another process may claim it first, the current state is returned either way
+    const result = await deliverNotificationMessage(message.id) ?? getNotificationMessage(message.id);
+
+    // Log audit event
+    const ipAddress = getClientIpAddress(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+    await AuditLogger.log({
+      userId: authContext.userId,
+      username: authContext.username,
+      action: 'notification_resent',
+      category: 'system',
+      targetType: 'notification',
+      targetId: message.id,
+      details: {
+        type: message.event,
+        serverId: message.serverId,
+        serverName: message.serverName,
+        backupName: message.backupName,
+        previousStatus: message.status,
+        status: result?.status,
+      },
+      ipAddress,
+      userAgent,
+      status: 'success',
+    });
+
+    return NextResponse.json({ message: result });
+  } catch (error) {
+    console.error('Error resending notification:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to resend notification' },
+      { status: 500 }
+    );
+  }
+}));
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureDatabaseInitialized } from '@/lib/db';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getAccessibleServerIds } from '@/lib/server-access';
+import { getNotificationHistory, notificationMessageStatuses } from '@/lib/notification-outbox';
+import type { NotificationMessageStatus } from '@/lib/types';
+
+const MAX_PAGE_SIZE = 100;
+
+// GET /api/notifications/history - Notifications stored in the delivery outbox with their channels and attempts
+export const GET = withCSRF(requireRole('viewer', async (request: NextRequest, authContext) => {
+  try {
+    await ensureDatabaseInitialized();
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || '50', 10) || 50));
+    const status = searchParams.get('status');
+
+    if (status && !notificationMessageStatuses.includes(status as NotificationMessageStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status, expected one of: ${notificationMessageStatuses.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { messages, total } = getNotificationHistory({
+      status: status ? status as NotificationMessageStatus : undefined,
+      serverIds: getAccessibleServerIds(authContext),
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    return NextResponse.json({
+      messages,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching notification history:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch notification history' },
+      { status: 500 }
+    );
+  }
+}));
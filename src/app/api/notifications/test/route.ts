@@ -1,11 +1,12 @@
 import { withCSRF } from '@/lib/csrf-middleware';
 import { NextRequest, NextResponse } from 'next/server';
-import { NotificationTemplate, NtfyConfig } from '@/lib/types';
-import { sendEmailNotification, convertTextToHtml } from '@/lib/notifications';
-import { getSMTPConfig, clearRequestCache } from '@/lib/db-utils';
-import { optionalAuth } from '@/lib/auth-middleware';
+import { NotificationTemplate, NtfyConfig, WebhookConfig } from '@/lib/types';
+import { sendEmailNotification, convertTextToHtml, sendWebhookNotification, renderWebhookBody } from '@/lib/notifications';
+import { getSMTPConfig, clearRequestCache, redactWebhookUrl } from '@/lib/db-utils';
+import { requireRole } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { AuditLogger } from '@/lib/audit-logger';
+import { renderTemplate } from '@/lib/notification-template';
 
 async function sendNtfyNotificationDirect(config: NtfyConfig, message: string, title: string, priority: string, tags: string) {
   const { url, topic, accessToken } = config;
@@ -56,19 +57,68 @@ async function sendNtfyNotificationDirect(config: NtfyConfig, message: string, t
   }
 }
 
-export const POST = withCSRF(optionalAuth(async (request: NextRequest, authContext) => {
-  let testType: 'simple' | 'template' | 'email' | 'unknown' = 'unknown';
+export const POST = withCSRF(requireRole('operator', async (request: NextRequest, authContext) => {
+  let testType: 'simple' | 'template' | 'email' | 'webhook' | 'unknown' = 'unknown';
   
   try {
     
-    const { type, ntfyConfig, template }: { 
-      type: 'simple' | 'template' | 'email'; 
+    const { type, ntfyConfig, template, webhookConfig }: { 
+      type: 'simple' | 'template' | 'email' | 'webhook'; 
       ntfyConfig?: NtfyConfig; 
-      template?: NotificationTemplate 
+      template?: NotificationTemplate;
+      webhookConfig?: WebhookConfig;
     } = await request.json();
     
     testType = type;
 
+    // Handle webhook test
+    if (type === 'webhook') {
+      if (!webhookConfig || !webhookConfig.url || webhookConfig.url.trim() === '') {
+        return NextResponse.json({ error: 'Webhook URL is required' }, { status: 400 });
+      }
+
+      const testTimestamp = new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' });
+      const body = renderWebhookBody(webhookConfig.bodyTemplate, {
+        event: 'test',
+        title: 'Test Notification',
+        message: `This is a test notification from duplistatus.\n(test sent at ${testTimestamp})`,
+        server_name: 'server_name',
+        server_alias: 'server_alias',
+        server_note: 'server_note',
+        server_url: 'server_url',
+        backup_name: 'backup_name',
+        backup_date: testTimestamp,
+        status: 'Success',
+        warnings_count: 0,
+        errors_count: 0,
+      });
+
+      await sendWebhookNotification(webhookConfig, body);
+
+      // Log audit event
+      if (authContext) {
+        const ipAddress = getClientIpAddress(request);
+        const userAgent = request.headers.get('user-agent') || 'unknown';
+        await AuditLogger.log({
+          userId: authContext.userId,
+          username: authContext.username,
+          action: 'test_notification_sent',
+          category: 'system',
+          details: {
+            type: 'webhook',
+            channel: 'Webhook',
+            url: redactWebhookUrl(webhookConfig.url),
+            method: webhookConfig.method,
+          },
+          ipAddress,
+          userAgent,
+          status: 'success',
+        });
+      }
+
+      return NextResponse.json({ message: 'Test webhook sent successfully' });
+    }
+
     // Handle email test
     if (type === 'email') {
       // Clear request cache to ensure we get the latest SMTP configuration
@@ -176,8 +226,8 @@ Email Configuration Details:
         return NextResponse.json({ error: 'Template is required for template type' }, { status: 400 });
       }
 
-      // Create sample data for testing
-      const sampleData = {
+      // Create sample data for testing, lists get one sample line
+      const sampleData: Record<string, unknown> = {
         server_name: 'server_name',
         server_alias: 'server_alias',
         server_note: 'server_note',
@@ -189,21 +239,36 @@ Email Configuration Details:
         warnings_count: 'warnings_count',
         errors_count: 'errors_count',
         duration: 'duration',
+        duration_seconds: 'duration_seconds',
         file_count: 'file_count',
         file_size: 'file_size',
+        file_size_bytes: 'file_size_bytes',
         uploaded_size: 'uploaded_size',
+        uploaded_size_bytes: 'uploaded_size_bytes',
         storage_size: 'storage_size',
+        storage_size_bytes: 'storage_size_bytes',
         available_versions: 'available_versions',
+        messages: ['messages'],
+        warnings: ['warnings'],
+        errors: ['errors'],
+        operation: 'operation',
+        previous_status: 'previous_status',
+        failed_since: 'failed_since',
+        failed_duration: 'failed_duration',
+        failed_runs: 'failed_runs',
+        anomalies: 'anomalies',
+        anomaly_count: 'anomaly_count',
       };
 
       // Process the template with sample data
-      const processedTitle = template.title?.replace(/\{(\w+)\}/g, (match, key) => {
-        return sampleData[key as keyof typeof sampleData] || match;
-      }) || 'Test Notification';
-
-      const processedMessage = template.message?.replace(/\{(\w+)\}/g, (match, key) => {
-        return sampleData[key as keyof typeof sampleData] || match;
-      }) || 'Test message';
+      let processedTitle: string;
+      let processedMessage: string;
+      try {
+        processedTitle = template.title ? renderTemplate(template.title, sampleData) : 'Test Notification';
+        processedMessage = template.message ? renderTemplate(template.message, sampleData) : 'Test message';
+      } catch (error) {
+        return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+      }
 
       const testTimestamp = new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' });
       const finalMessage = processedMessage + '\n(test sent at ' + testTimestamp + ')';
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { dbOps, ensureDatabaseInitialized } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit-logger';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { getServerGroupById, parseServerGroupInput, setServerGroupMembers } from '@/lib/server-access';
+
+// PATCH /api/server-groups/[id] - Update server group name, description, servers and users
+export const PATCH = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    await ensureDatabaseInitialized();
+
+    const pathname = request.nextUrl.pathname;
+    const groupId = pathname.split('/').pop() || '';
+
+    const existingGroup = getServerGroupById(groupId);
+    if (!existingGroup) {
+      return NextResponse.json(
+        { error: 'Server group not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { input, error } = parseServerGroupInput(body, existingGroup);
+    if (!input) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const groupWithName = dbOps.getServerGroupByName.get(input.name) as { id: string } | undefined;
+    if (groupWithName && groupWithName.id !== groupId) {
+      return NextResponse.json(
+        { error: 'A server group with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    dbOps.updateServerGroup.run(input.name, input.description, groupId);
+    setServerGroupMembers(groupId, input.serverIds, input.userIds);
+
+    // Log audit event
+    const ipAddress = getClientIpAddress(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+    await AuditLogger.log({
+      userId: authContext.userId,
+      username: authContext.username,
+      action: 'server_group_updated',
+      category: 'user',
+      targetType: 'server_group',
+      targetId: groupId,
+      details: {
+        name: { from: existingGroup.name, to: input.name },
+        serverIds: { from: existingGroup.serverIds, to: input.serverIds },
+        userIds: { from: existingGroup.userIds, to: input.userIds },
+      },
+      ipAddress,
+      userAgent,
+      status: 'success',
+    });
+
+    return NextResponse.json({ group: getServerGroupById(groupId) });
+  } catch (error) {
+    console.error('Error updating server group:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to update server group' },
+      { status: 500 }
+    );
+  }
+}));
+
+// DELETE /api/server-groups/[id] - Delete server group (its servers and users are kept)
+export const DELETE = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    await ensureDatabaseInitialized();
+
+    const pathname = request.nextUrl.pathname;
+    const groupId = pathname.split('/').pop() || '';
+
+    const existingGroup = getServerGroupById(groupId);
+    if (!existingGroup) {
+      return NextResponse.json(
+        { error: 'Server group not found' },
+        { status: 404 }
+      );
+    }
+
+    setServerGroupMembers(groupId, [], []);
+    dbOps.deleteServerGroup.run(groupId);
+
+    // Log audit event
+    const ipAddress = getClientIpAddress(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+    await AuditLogger.log({
+      userId: authContext.userId,
+      username: authContext.username,
+      action: 'server_group_deleted',
+      category: 'user',
+      targetType: 'server_group',
+      targetId: groupId,
+      details: {
+        name: existingGroup.name,
+        serverIds: existingGroup.serverIds,
+        userIds: existingGroup.userIds,
+      },
+      ipAddress,
+      userAgent,
+      status: 'success',
+    });
+
+    return NextResponse.json({ success: true, message: 'Server group deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting server group:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to delete server group' },
+      { status: 500 }
+    );
+  }
+}));
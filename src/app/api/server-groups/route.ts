@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { dbOps, ensureDatabaseInitialized } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit-logger';
+import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getClientIpAddress } from '@/lib/ip-utils';
+import { getServerGroups, getServerGroupById, parseServerGroupInput, setServerGroupMembers } from '@/lib/server-access';
+
+// GET /api/server-groups - List server groups with their servers and users
+export const GET = withCSRF(requireRole('admin', async () => {
+  try {
+    await ensureDatabaseInitialized();
+
+    return NextResponse.json({ groups: getServerGroups() });
+  } catch (error) {
+    console.error('Error listing server groups:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to list server groups' },
+      { status: 500 }
+    );
+  }
+}));
+
+// POST /api/server-groups - Create server group
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
+  try {
+    await ensureDatabaseInitialized();
+
+    const body = await request.json();
+    const { input, error } = parseServerGroupInput(body);
+    if (!input) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (dbOps.getServerGroupByName.get(input.name)) {
+      return NextResponse.json(
+        { error: 'A server group with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const groupId = randomUUID();
+    dbOps.createServerGroup.run(groupId, input.name, input.description);
+    setServerGroupMembers(groupId, input.serverIds, input.userIds);
+
+    // Log audit event
+    const ipAddress = getClientIpAddress(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+    await AuditLogger.log({
+      userId: authContext.userId,
+      username: authContext.username,
+      action: 'server_group_created',
+      category: 'user',
+      targetType: 'server_group',
+      targetId: groupId,
+      details: {
+        name: input.name,
+        serverIds: input.serverIds,
+        userIds: input.userIds,
+      },
+      ipAddress,
+      userAgent,
+      status: 'success',
+    });
+
+    return NextResponse.json({ group: getServerGroupById(groupId) }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating server group:', error instanceof Error ? error.message : String(error));
+    return NextResponse.json(
+      { error: 'Failed to create server group' },
+      { status: 500 }
+    );
+  }
+}));
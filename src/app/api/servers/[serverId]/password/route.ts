@@ -2,12 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { setServerPassword } from '@/lib/secrets';
 import { withCSRF } from '@/lib/csrf-middleware';
 import { getSessionIdFromRequest, validateSession, generateCSRFToken } from '@/lib/session-csrf';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { AuditLogger } from '@/lib/audit-logger';
 import { dbUtils } from '@/lib/db-utils';
 
-export const PATCH = withCSRF(requireAdmin(async (
+export const PATCH = withCSRF(requireRole('admin', async (
   request: NextRequest,
   authContext
 ) => {
@@ -83,7 +83,7 @@ export const PATCH = withCSRF(requireAdmin(async (
 }));
 
 // GET endpoint to retrieve CSRF token
-export const GET = withCSRF(async (
+export const GET = withCSRF(requireRole('admin', async (
   request: NextRequest
 ) => {
   try {
@@ -122,4 +122,4 @@ export const GET = withCSRF(async (
       { status: 500 }
     );
   }
-});
+}));
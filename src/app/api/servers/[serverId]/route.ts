@@ -1,12 +1,14 @@
 import { NextResponse, NextRequest } from 'next/server';
 import { dbUtils } from '@/lib/db-utils';
 import { withCSRF } from '@/lib/csrf-middleware';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
 import { AuditLogger } from '@/lib/audit-logger';
+import { getAccessibleServerIds, canAccessServer } from '@/lib/server-access';
 
-export const GET = withCSRF(async (
-  request: Request
+export const GET = withCSRF(requireRole('viewer', async (
+  request: Request,
+  authContext
 ) => {
   try {
     // Extract serverId from URL pathname
@@ -23,7 +25,8 @@ export const GET = withCSRF(async (
     
     const server = await dbUtils.getServerById(serverId);
     
-    if (!server) {
+    // Servers outside the user's server groups are reported as not found
+    if (!server || !canAccessServer(getAccessibleServerIds(authContext), server.id)) {
       return NextResponse.json({ error: 'Server not found' }, { status: 404 });
     }
     
@@ -44,9 +47,9 @@ export const GET = withCSRF(async (
     console.error('Error fetching server:', error instanceof Error ? error.message : String(error));
     return NextResponse.json({ error: 'Failed to fetch server' }, { status: 500 });
   }
-});
+}));
 
-export const PATCH = withCSRF(requireAdmin(async (
+export const PATCH = withCSRF(requireRole('admin', async (
   request: NextRequest,
   authContext
 ) => {
@@ -121,7 +124,7 @@ export const PATCH = withCSRF(requireAdmin(async (
   }
 }));
 
-export const DELETE = withCSRF(requireAdmin(async (
+export const DELETE = withCSRF(requireRole('admin', async (
   request: NextRequest,
   authContext
 ) => {
@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { withDb } from '@/lib/db-utils';
 import { dbOps } from '@/lib/db';
 import { withCSRF } from '@/lib/csrf-middleware';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getAccessibleServerIds, canAccessServer } from '@/lib/server-access';
 
 interface ServerRow {
   id: string;
@@ -10,8 +11,9 @@ interface ServerRow {
   server_url: string;
 }
 
-export const GET = withCSRF(async (
-  request: NextRequest
+export const GET = withCSRF(requireRole('viewer', async (
+  request: NextRequest,
+  authContext
 ) => {
   try {
     // Extract serverId from URL pathname
@@ -27,7 +29,7 @@ export const GET = withCSRF(async (
       return dbOps.getServerById.get(serverId) as ServerRow | undefined;
     });
 
-    if (!server) {
+    if (!server || !canAccessServer(getAccessibleServerIds(authContext), server.id)) {
       return NextResponse.json(
         { error: 'Server not found' },
         { status: 404 }
@@ -45,9 +47,9 @@ export const GET = withCSRF(async (
       { status: 500 }
     );
   }
-});
+}));
 
-export const PATCH = withCSRF(requireAdmin(async (
+export const PATCH = withCSRF(requireRole('admin', async (
   request: NextRequest,
   authContext
 ) => {
@@ -1,19 +1,12 @@
 import { NextResponse } from 'next/server';
 import { getDuplicateServers } from '@/lib/db-utils';
 import { withCSRF } from '@/lib/csrf-middleware';
-import { requireAuth } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 
 export const GET = withCSRF(
-  requireAuth(async (request, context) => {
+  // Only admins can view duplicate servers
+  requireRole('admin', async () => {
     try {
-      // Only admins can view duplicate servers
-      if (!context.isAdmin) {
-        return NextResponse.json(
-          { error: 'Administrator access required' },
-          { status: 403 }
-        );
-      }
-
       const duplicates = getDuplicateServers();
       
       return NextResponse.json(duplicates);
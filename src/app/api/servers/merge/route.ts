@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
 import { mergeServers } from '@/lib/db-utils';
 import { withCSRF } from '@/lib/csrf-middleware';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 
 interface MergeRequest {
   oldServerIds: string[];
@@ -9,7 +9,7 @@ interface MergeRequest {
 }
 
 export const POST = withCSRF(
-  requireAdmin(async (request, context) => {
+  requireRole('admin', async (request, context) => {
     try {
       const body = await request.json() as MergeRequest;
       
@@ -1,9 +1,12 @@
 import { NextResponse } from 'next/server';
 import { dbUtils } from '@/lib/db-utils';
 import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
+import { getAccessibleServerIds, filterByServerAccess } from '@/lib/server-access';
 
-export const GET = withCSRF(async (request: Request) => {
+export const GET = withCSRF(requireRole('viewer', async (request: Request, authContext) => {
   try {
+    const serverIds = getAccessibleServerIds(authContext);
     const { searchParams } = new URL(request.url);
     const includeBackups = searchParams.get('includeBackups') === 'true';
     
@@ -31,7 +34,7 @@ export const GET = withCSRF(async (request: Request) => {
         hasPassword: server.hasPassword
       }));
 
-      return NextResponse.json(serversWithBackups);
+      return NextResponse.json(filterByServerAccess(serversWithBackups, serverIds, server => server.id));
     } else {
       // Return basic server information (original functionality)
       const servers = dbUtils.getAllServers();
@@ -44,7 +47,7 @@ export const GET = withCSRF(async (request: Request) => {
         note: server.note
       }));
 
-      return NextResponse.json(serverList);
+      return NextResponse.json(filterByServerAccess(serverList, serverIds, server => server.id));
     }
   } catch (error) {
     console.error('Error fetching servers:', error instanceof Error ? error.message : String(error));
@@ -53,4 +56,4 @@ export const GET = withCSRF(async (request: Request) => {
       { status: 500 }
     );
   }
-}); 
\ No newline at end of file
+})); 
\ No newline at end of file
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { defaultAPIConfig } from '@/lib/default-config';
 import { withCSRF } from '@/lib/csrf-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 
-export const POST = withCSRF(async (request: NextRequest) => {
+export const POST = withCSRF(requireRole('operator', async (request: NextRequest) => {
   try {
     const { server_url } = await request.json();
 
@@ -111,4 +112,4 @@ export const POST = withCSRF(async (request: NextRequest) => {
       { status: 500 }
     );
   }
-});
+}));
@@ -1,10 +1,27 @@
-import { NextResponse } from 'next/server';
-import { getOverallSummary, dbUtils } from '@/lib/db-utils';
+import { NextRequest, NextResponse } from 'next/server';
+import { getOverallSummary, getOverallSummaryFromServers, getServersSummary, dbUtils } from '@/lib/db-utils';
+import { getAuthContext } from '@/lib/auth-middleware';
+import { authenticateUnscopedApiKey } from '@/lib/api-key-auth';
+import { getAccessibleServerIds, filterByServerAccess } from '@/lib/server-access';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // Get the overall summary from the database using the consolidated function
-    const summary = await getOverallSummary();
+    // Logged-in users only see the servers of their server groups. Once server groups exist, calls
+    // without a session need an API key, which is issued by an admin and reads every server
+    const authContext = await getAuthContext(request);
+    if (!authContext) {
+      const apiKeyError = await authenticateUnscopedApiKey(request, { scope: 'summary', logSuccess: false });
+      if (apiKeyError) {
+        return apiKeyError;
+      }
+    }
+    const serverIds = authContext ? getAccessibleServerIds(authContext) : null;
+
+    // Get the overall summary from the database using the consolidated function,
+    // scoped summaries are calculated from the accessible servers only
+    const summary = serverIds === null
+      ? await getOverallSummary()
+      : await getOverallSummaryFromServers(filterByServerAccess(await getServersSummary(), serverIds, server => server.id));
     
     if (!summary) {
       console.error('getOverallSummary returned null or undefined');
@@ -17,7 +34,7 @@ export async function GET() {
     // Get the latest backup date across all servers
     let latestBackup: { last_backup_date: string | null } | null = null;
     try {
-      latestBackup = dbUtils.getLatestBackupDate() as { last_backup_date: string | null };
+      latestBackup = dbUtils.getLatestBackupDate(serverIds) as { last_backup_date: string | null };
     } catch (error) {
       console.error('Error getting latest backup date:', error instanceof Error ? error.message : String(error));
       latestBackup = null;
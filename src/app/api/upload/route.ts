@@ -1,16 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db, dbOps, parseDurationToSeconds } from '@/lib/db';
 import { dbUtils, getConfigBackupSettings } from '@/lib/db-utils';
-import { extractAvailableBackups } from '@/lib/utils';
+import { extractAvailableBackups, isNonBackupOperationType, nonBackupOperationTypes, parseMessageLines } from '@/lib/utils';
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs';
 import path from 'path';
-import { sendBackupNotification, NotificationContext } from '@/lib/notifications';
+import { sendBackupNotification, sendOperationNotification, NotificationContext } from '@/lib/notifications';
 import { formatBytes, formatDurationHuman } from '@/lib/utils';
-import { BackupStatus, ApiKey } from '@/lib/types';
+import { BackupStatus, BackupAnomaly, ApiKey, OperationType } from '@/lib/types';
 import { AuditLogger } from '@/lib/audit-logger';
 import { getClientIpAddress } from '@/lib/ip-utils';
-import bcrypt from 'bcrypt';
+import { authenticateApiKey, isApiKeyRequired } from '@/lib/api-key-auth';
+import { publishLiveEvent } from '@/lib/live-events';
+import { clearChangedBackupAcknowledgement } from '@/lib/backup-acknowledgements';
+import { detectBackupAnomalies } from '@/lib/backup-anomalies';
 
 // Handle GET requests (Duplicati connectivity test)
 export async function GET(request: NextRequest) {
@@ -32,97 +35,11 @@ export async function POST(request: NextRequest) {
     const userAgent = request.headers.get('user-agent') || 'unknown';
     
     // Check if API key authentication is required
-    const requireApiKey = db.prepare(
-      'SELECT value FROM configurations WHERE key = ?'
-    ).get('upload_require_api_key') as { value: string } | undefined;
-    
-    if (requireApiKey?.value === 'true') {
-      // Get API key from query parameter or header
-      const url = new URL(request.url);
-      const apiKey = url.searchParams.get('api_key') || 
-                     request.headers.get('x-api-key');
-      
-      if (!apiKey) {
-        await AuditLogger.log({
-          userId: null,
-          username: 'system',
-          action: 'upload_rejected_no_api_key',
-          category: 'system',
-          details: { 
-            ip: ipAddress,
-            user_agent: userAgent,
-            reason: 'No API key provided'
-          },
-          ipAddress,
-          userAgent,
-          status: 'failure'
-        });
-        
-        return NextResponse.json(
-          { error: 'API key required' },
-          { status: 401 }
-        );
-      }
-      
-      // Verify API key
-      const apiKeys = db.prepare(
-        'SELECT id, name, key_hash FROM api_keys WHERE enabled = 1'
-      ).all() as { id: string; name: string; key_hash: string }[];
-      
-      let validKey: { id: string; name: string } | null = null;
-      for (const key of apiKeys) {
-        if (await bcrypt.compare(apiKey, key.key_hash)) {
-          validKey = { id: key.id, name: key.name };
-          break;
-        }
+    if (isApiKeyRequired('upload_require_api_key')) {
+      const apiKeyError = await authenticateApiKey(request, { scope: 'upload' });
+      if (apiKeyError) {
+        return apiKeyError;
       }
-      
-      if (!validKey) {
-        await AuditLogger.log({
-          userId: null,
-          username: 'system',
-          action: 'upload_rejected_invalid_api_key',
-          category: 'system',
-          details: { 
-            ip: ipAddress,
-            user_agent: userAgent,
-            attempted_key_prefix: apiKey.substring(0, 8) + '...',
-            reason: 'Invalid or disabled API key'
-          },
-          ipAddress,
-          userAgent,
-          status: 'failure'
-        });
-        
-        return NextResponse.json(
-          { error: 'Invalid API key' },
-          { status: 401 }
-        );
-      }
-      
-      // Update last_used_at and usage_count
-      db.prepare(`
-        UPDATE api_keys 
-        SET last_used_at = CURRENT_TIMESTAMP,
-            usage_count = usage_count + 1
-        WHERE id = ?
-      `).run(validKey.id);
-      
-      // Log successful authentication
-      await AuditLogger.log({
-        userId: null,
-        username: 'system',
-        action: 'upload_authenticated',
-        category: 'system',
-        details: { 
-          api_key_name: validKey.name,
-          api_key_id: validKey.id,
-          ip: ipAddress
-        },
-        ipAddress,
-        userAgent,
-        status: 'success'
-      });
     }
     
     // Continue with existing upload logic
@@ -145,13 +62,15 @@ export async function POST(request: NextRequest) {
       console.log(`Logged request data to ${filePath}`);
     }
 
-    // Only process if MainOperation is "Backup"
-    if (data.Data?.MainOperation !== "Backup") {
+    // Backup results feed the dashboard; Restore/Test/Compact/Repair/Delete are stored as separate operations
+    const mainOperation = data.Data?.MainOperation;
+    if (mainOperation !== "Backup" && !isNonBackupOperationType(mainOperation)) {
       return NextResponse.json(
-        { error: 'Only backup operations are supported' },
+        { error: `Unsupported operation. Supported operations: Backup, ${nonBackupOperationTypes.join(', ')}` },
         { status: 400 }
       );
     }
+    const isBackupOperation = mainOperation === "Backup";
 
     // Validate Extra section exists
     if (!data.Extra) {
@@ -225,7 +144,8 @@ export async function POST(request: NextRequest) {
     const isDuplicate = await dbUtils.checkDuplicateBackup({
       server_id: data.Extra['machine-id'], // Note: Duplicati API uses 'machine-id' field name
       backup_name: data.Extra['backup-name'],
-      date: backupDate
+      date: backupDate,
+      main_operation: mainOperation as OperationType
     });
 
     if (isDuplicate) {
@@ -237,6 +157,7 @@ export async function POST(request: NextRequest) {
 
     // Declare status in the outer scope so it can be used in the notification block
     let status: string = data.Data.ParsedResult;
+    let anomalies: BackupAnomaly[] | null = null;
 
     // Generate backup ID before transaction
     const backupId = uuidv4();
@@ -327,15 +248,39 @@ export async function POST(request: NextRequest) {
         backend_warnings_actual_length: data.Data.BackendStatistics?.WarningsActualLength || 0,
         backend_errors_actual_length: data.Data.BackendStatistics?.ErrorsActualLength || 0
       });
+
+      // Compare the run to the recent runs of the same backup
+      if (isBackupOperation) {
+        anomalies = detectBackupAnomalies(data.Extra['machine-id'], data.Extra['backup-name'], backupDate, status as BackupStatus, {
+          examined_files: data.Data.ExaminedFiles || 0,
+          size: data.Data.SizeOfExaminedFiles || 0,
+          uploaded_size: data.Data.BackendStatistics?.BytesUploaded || 0,
+          duration_seconds: parseDurationToSeconds(data.Data.Duration),
+        });
+        if (anomalies) {
+          dbOps.setBackupAnomalies.run(JSON.stringify(anomalies), backupId);
+        }
+      }
     });
 
     // Execute the transaction
     transaction();
 
+    // Let open dashboards update right away
+    publishLiveEvent({
+      type: 'backup-received',
+      serverId: data.Extra['machine-id'],
+      serverName: data.Extra['machine-name'],
+      backupName: data.Extra['backup-name'],
+      operation: mainOperation,
+      status,
+      date: backupDate,
+    });
+
     // Log audit entry for backup upload
     try {
       await AuditLogger.logBackupOperation(
-        'backup_upload',
+        isBackupOperation ? 'backup_upload' : 'operation_upload',
         null, // userId - null for external API
         null, // username - null for external API
         backupId,
@@ -344,6 +289,7 @@ export async function POST(request: NextRequest) {
           server_name: data.Extra['machine-name'],
           backup_name: data.Extra['backup-name'],
           backup_id: data.Extra['backup-id'],
+          operation: mainOperation,
           status: status,
           date: new Date(data.Data.BeginTime).toISOString(),
           duration_seconds: parseDurationToSeconds(data.Data.Duration),
@@ -352,6 +298,7 @@ export async function POST(request: NextRequest) {
           examined_files: data.Data.ExaminedFiles || 0,
           warnings: data.Data.WarningsActualLength || 0,
           errors: data.Data.ErrorsActualLength || 0,
+          ...(anomalies ? { anomalies } : {}),
         },
         ipAddress,
         userAgent
@@ -366,6 +313,29 @@ export async function POST(request: NextRequest) {
     // Ensure backup settings are complete (now handled automatically by getConfigBackupSettings)
     await getConfigBackupSettings();
 
+    // A new run of an acknowledged backup that changes its state clears the acknowledgement
+    if (isBackupOperation) {
+      try {
+        const backupName = data.Extra['backup-name'];
+        const clearedAcknowledgement = clearChangedBackupAcknowledgement(`${data.Extra['machine-id']}:${backupName}`, status as BackupStatus);
+        if (clearedAcknowledgement) {
+          await AuditLogger.logSystem(
+            'backup_acknowledgement_cleared',
+            {
+              serverId: data.Extra['machine-id'],
+              backupName,
+              state: clearedAcknowledgement.state,
+              acknowledgedBy: clearedAcknowledgement.acknowledgedBy,
+              backupStatus: status,
+            },
+            'success'
+          );
+        }
+      } catch (acknowledgementError) {
+        console.error('Failed to clear backup acknowledgement:', acknowledgementError instanceof Error ? acknowledgementError.message : String(acknowledgementError));
+      }
+    }
+
     // Send notification after successful backup insertion
     try {
       const serverId = data.Extra['machine-id']; // Note: Duplicati API uses 'machine-id' field name
@@ -394,6 +364,7 @@ export async function POST(request: NextRequest) {
         warnings_array: null,
         errors_array: null,
         available_backups: null,
+        anomalies,
       };
 
       // Create notification context derived from backup object to eliminate duplication
@@ -415,12 +386,23 @@ export async function POST(request: NextRequest) {
         uploaded_size: formatBytes(backup.uploadedSize),
         storage_size: formatBytes(backup.knownFileSize),
         available_versions: backup.backup_list_count,
+        duration_seconds: backup.duration_seconds,
+        file_size_bytes: backup.fileSize,
+        uploaded_size_bytes: backup.uploadedSize,
+        storage_size_bytes: backup.knownFileSize,
+        messages: parseMessageLines(data.LogLines || data.Data.Messages),
+        warnings: parseMessageLines(data.Data.Warnings),
+        errors: parseMessageLines(data.Data.Errors),
       };
 
-      await sendBackupNotification(backup, serverId, serverName, notificationContext);
+      if (isBackupOperation) {
+        await sendBackupNotification(backup, serverId, serverName, notificationContext);
+      } else if (isNonBackupOperationType(mainOperation)) {
+        await sendOperationNotification({ ...notificationContext, operation: mainOperation });
+      }
     } catch (notificationError) {
       // Log notification errors but don't fail the request
-      console.error('Failed to send backup notification:', notificationError instanceof Error ? notificationError.message : String(notificationError));
+      console.error(`Failed to send ${isBackupOperation ? 'backup' : 'operation'} notification:`, notificationError instanceof Error ? notificationError.message : String(notificationError));
     }
 
     return NextResponse.json({ success: true });
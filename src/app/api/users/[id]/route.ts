@@ -3,11 +3,13 @@ import { dbOps, ensureDatabaseInitialized } from '@/lib/db';
 import { hashPassword, generateSecurePassword, validatePassword } from '@/lib/auth';
 import { AuditLogger } from '@/lib/audit-logger';
 import { withCSRF } from '@/lib/csrf-middleware';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { getClientIpAddress } from '@/lib/ip-utils';
+import { isUserRole, userRoles } from '@/lib/utils';
+import type { UserRole } from '@/lib/types';
 
 // PATCH /api/users/[id] - Update user
-export const PATCH = withCSRF(requireAdmin(async (request: NextRequest, authContext) => {
+export const PATCH = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
   try {
     await ensureDatabaseInitialized();
 
@@ -15,13 +17,15 @@ export const PATCH = withCSRF(requireAdmin(async (request: NextRequest, authCont
     const userId = pathname.split('/').pop() || '';
 
     const body = await request.json();
-    const { username, isAdmin, requirePasswordChange, resetPassword } = body;
+    const { username, role, requirePasswordChange, resetPassword, resetTwoFactor } = body;
 
     // Get existing user
     const existingUser = dbOps.getUserById.get(userId) as {
       id: string;
       username: string;
-      is_admin: number;
+      role: UserRole;
+      auth_provider: string;
+      totp_enabled: number;
       must_change_password: number;
     } | undefined;
 
@@ -32,6 +36,32 @@ export const PATCH = withCSRF(requireAdmin(async (request: NextRequest, authCont
       );
     }
 
+    // Single sign-on users have no local password to reset
+    if (resetPassword === true && existingUser.auth_provider === 'oidc') {
+      return NextResponse.json(
+        { error: 'Single sign-on users have no local password to reset' },
+        { status: 400 }
+      );
+    }
+
+    if (role !== undefined && !isUserRole(role)) {
+      return NextResponse.json(
+        { error: `Invalid role. Allowed values: ${userRoles.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Prevent demoting the last admin
+    if (role !== undefined && role !== 'admin' && existingUser.role === 'admin') {
+      const adminCount = (dbOps.countAdminUsers.get() as { count: number }).count;
+      if (adminCount <= 1) {
+        return NextResponse.json(
+          { error: 'Cannot change the role of the last admin account' },
+          { status: 400 }
+        );
+      }
+    }
+
     const ipAddress = getClientIpAddress(request);
     const userAgent = request.headers.get('user-agent') || 'unknown';
 
@@ -53,7 +83,7 @@ export const PATCH = withCSRF(requireAdmin(async (request: NextRequest, authCont
     // Prepare update data
     const updateData: {
       username?: string;
-      is_admin?: number;
+      role?: UserRole;
       must_change_password?: number;
       password_hash?: string;
     } = {};
@@ -62,8 +92,8 @@ export const PATCH = withCSRF(requireAdmin(async (request: NextRequest, authCont
       updateData.username = username.trim().toLowerCase();
     }
 
-    if (isAdmin !== undefined) {
-      updateData.is_admin = isAdmin ? 1 : 0;
+    if (role !== undefined) {
+      updateData.role = role;
     }
 
     if (requirePasswordChange !== undefined) {
@@ -79,7 +109,7 @@ export const PATCH = withCSRF(requireAdmin(async (request: NextRequest, authCont
       // Update user
       dbOps.updateUser.run(
         updateData.username || existingUser.username,
-        updateData.is_admin !== undefined ? updateData.is_admin : existingUser.is_admin,
+        updateData.role || existingUser.role,
         updateData.must_change_password,
         userId
       );
@@ -112,7 +142,7 @@ export const PATCH = withCSRF(requireAdmin(async (request: NextRequest, authCont
       const updatedUser = dbOps.getUserById.get(userId) as {
         id: string;
         username: string;
-        is_admin: number;
+        role: UserRole;
         must_change_password: number;
       } | undefined;
 
@@ -120,7 +150,7 @@ export const PATCH = withCSRF(requireAdmin(async (request: NextRequest, authCont
         user: {
           id: updatedUser!.id,
           username: updatedUser!.username,
-          isAdmin: updatedUser!.is_admin === 1,
+          role: updatedUser!.role,
           mustChangePassword: updatedUser!.must_change_password === 1,
         },
         temporaryPassword: tempPassword,
@@ -130,22 +160,31 @@ export const PATCH = withCSRF(requireAdmin(async (request: NextRequest, authCont
     // Regular update (no password reset)
     dbOps.updateUser.run(
       updateData.username || existingUser.username,
-      updateData.is_admin !== undefined ? updateData.is_admin : existingUser.is_admin,
+      updateData.role || existingUser.role,
       updateData.must_change_password !== undefined ? updateData.must_change_password : existingUser.must_change_password,
       userId
     );
 
+    // Reset two-factor authentication (e.g. the user lost their authenticator device)
+    const twoFactorReset = resetTwoFactor === true && existingUser.totp_enabled === 1;
+    if (twoFactorReset) {
+      dbOps.resetUserTwoFactor.run(userId);
+    }
+
     // Log audit event
     const changes: Record<string, unknown> = {};
     if (username !== undefined && username !== existingUser.username) {
       changes.username = { from: existingUser.username, to: username };
     }
-    if (isAdmin !== undefined && isAdmin !== (existingUser.is_admin === 1)) {
-      changes.is_admin = { from: existingUser.is_admin === 1, to: isAdmin };
+    if (role !== undefined && role !== existingUser.role) {
+      changes.role = { from: existingUser.role, to: role };
     }
     if (requirePasswordChange !== undefined && requirePasswordChange !== (existingUser.must_change_password === 1)) {
       changes.must_change_password = { from: existingUser.must_change_password === 1, to: requirePasswordChange };
     }
+    if (twoFactorReset) {
+      changes.two_factor = { from: true, to: false };
+    }
 
     await AuditLogger.logUserManagement(
       'user_updated',
@@ -162,7 +201,7 @@ export const PATCH = withCSRF(requireAdmin(async (request: NextRequest, authCont
     const updatedUser = dbOps.getUserById.get(userId) as {
       id: string;
       username: string;
-      is_admin: number;
+      role: UserRole;
       must_change_password: number;
     } | undefined;
 
@@ -170,7 +209,7 @@ export const PATCH = withCSRF(requireAdmin(async (request: NextRequest, authCont
       user: {
         id: updatedUser!.id,
         username: updatedUser!.username,
-        isAdmin: updatedUser!.is_admin === 1,
+        role: updatedUser!.role,
         mustChangePassword: updatedUser!.must_change_password === 1,
       },
     });
@@ -185,7 +224,7 @@ export const PATCH = withCSRF(requireAdmin(async (request: NextRequest, authCont
 }));
 
 // DELETE /api/users/[id] - Delete user
-export const DELETE = withCSRF(requireAdmin(async (request: NextRequest, authContext) => {
+export const DELETE = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
   try {
     await ensureDatabaseInitialized();
 
@@ -196,7 +235,7 @@ export const DELETE = withCSRF(requireAdmin(async (request: NextRequest, authCon
     const userToDelete = dbOps.getUserById.get(userId) as {
       id: string;
       username: string;
-      is_admin: number;
+      role: UserRole;
     } | undefined;
 
     if (!userToDelete) {
@@ -215,13 +254,8 @@ export const DELETE = withCSRF(requireAdmin(async (request: NextRequest, authCon
     }
 
     // Prevent deleting last admin
-    if (userToDelete.is_admin === 1) {
-      const allUsers = dbOps.getAllUsers.all() as Array<{
-        id: string;
-        is_admin: number;
-      }>;
-
-      const adminCount = allUsers.filter(u => u.is_admin === 1).length;
+    if (userToDelete.role === 'admin') {
+      const adminCount = (dbOps.countAdminUsers.get() as { count: number }).count;
 
       if (adminCount <= 1) {
         return NextResponse.json(
@@ -243,7 +277,7 @@ export const DELETE = withCSRF(requireAdmin(async (request: NextRequest, authCon
       userToDelete.username,
       {
         deleted_username: userToDelete.username,
-        was_admin: userToDelete.is_admin === 1,
+        role: userToDelete.role,
         deleted_by: authContext.username,
       },
       ipAddress,
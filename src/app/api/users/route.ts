@@ -3,12 +3,14 @@ import { dbOps, ensureDatabaseInitialized } from '@/lib/db';
 import { hashPassword, generateSecurePassword, validatePassword } from '@/lib/auth';
 import { AuditLogger } from '@/lib/audit-logger';
 import { withCSRF } from '@/lib/csrf-middleware';
-import { requireAdmin } from '@/lib/auth-middleware';
+import { requireRole } from '@/lib/auth-middleware';
 import { randomUUID } from 'crypto';
 import { getClientIpAddress } from '@/lib/ip-utils';
+import { isUserRole, userRoles } from '@/lib/utils';
+import type { AuthProvider, UserRole } from '@/lib/types';
 
 // GET /api/users - List all users with pagination and search
-export const GET = withCSRF(requireAdmin(async (request: NextRequest, authContext) => {
+export const GET = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
   try {
     await ensureDatabaseInitialized();
 
@@ -21,7 +23,9 @@ export const GET = withCSRF(requireAdmin(async (request: NextRequest, authContex
     const allUsers = dbOps.getAllUsers.all() as Array<{
       id: string;
       username: string;
-      is_admin: number;
+      role: UserRole;
+      auth_provider: AuthProvider;
+      totp_enabled: number;
       must_change_password: number;
       created_at: string;
       updated_at: string;
@@ -50,7 +54,9 @@ export const GET = withCSRF(requireAdmin(async (request: NextRequest, authContex
     const users = paginatedUsers.map(user => ({
       id: user.id,
       username: user.username,
-      isAdmin: user.is_admin === 1,
+      role: user.role,
+      authProvider: user.auth_provider,
+      twoFactorEnabled: user.totp_enabled === 1,
       mustChangePassword: user.must_change_password === 1,
       createdAt: user.created_at,
       updatedAt: user.updated_at,
@@ -81,12 +87,12 @@ export const GET = withCSRF(requireAdmin(async (request: NextRequest, authContex
 }));
 
 // POST /api/users - Create new user
-export const POST = withCSRF(requireAdmin(async (request: NextRequest, authContext) => {
+export const POST = withCSRF(requireRole('admin', async (request: NextRequest, authContext) => {
   try {
     await ensureDatabaseInitialized();
 
     const body = await request.json();
-    const { username, password, isAdmin = false, requirePasswordChange = true } = body;
+    const { username, password, role = 'viewer', requirePasswordChange = true } = body;
 
     // Validate input
     if (!username || typeof username !== 'string' || username.trim().length === 0) {
@@ -103,6 +109,13 @@ export const POST = withCSRF(requireAdmin(async (request: NextRequest, authConte
       );
     }
 
+    if (!isUserRole(role)) {
+      return NextResponse.json(
+        { error: `Invalid role. Allowed values: ${userRoles.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     // Check if username already exists
     const existingUser = dbOps.getUserByUsername.get(username.trim().toLowerCase()) as {
       id: string;
@@ -147,7 +160,7 @@ export const POST = withCSRF(requireAdmin(async (request: NextRequest, authConte
       userId,
       username.trim().toLowerCase(),
       passwordHash,
-      isAdmin ? 1 : 0,
+      role,
       requirePasswordChange ? 1 : 0
     );
 
@@ -155,7 +168,7 @@ export const POST = withCSRF(requireAdmin(async (request: NextRequest, authConte
     const newUser = dbOps.getUserById.get(userId) as {
       id: string;
       username: string;
-      is_admin: number;
+      role: UserRole;
       must_change_password: number;
     } | undefined;
 
@@ -177,7 +190,7 @@ export const POST = withCSRF(requireAdmin(async (request: NextRequest, authConte
       userId,
       username.trim().toLowerCase(),
       {
-        is_admin: isAdmin,
+        role,
         must_change_password: requirePasswordChange,
         temp_password: isTemporaryPassword,
         created_by: authContext.username,
@@ -191,7 +204,7 @@ export const POST = withCSRF(requireAdmin(async (request: NextRequest, authConte
       user: {
         id: string;
         username: string;
-        isAdmin: boolean;
+        role: UserRole;
         mustChangePassword: boolean;
       };
       temporaryPassword?: string;
@@ -199,7 +212,7 @@ export const POST = withCSRF(requireAdmin(async (request: NextRequest, authConte
       user: {
         id: newUser.id,
         username: newUser.username,
-        isAdmin: newUser.is_admin === 1,
+        role: newUser.role,
         mustChangePassword: newUser.must_change_password === 1,
       },
     };
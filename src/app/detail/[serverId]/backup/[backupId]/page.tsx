@@ -19,6 +19,7 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { requireServerAuth } from "@/lib/auth-server";
+import { getAccessibleServerIds, canAccessServer } from "@/lib/server-access";
 
 interface BackupLogPageProps {
   params: Promise<{
@@ -207,7 +208,7 @@ const AvailableBackupsTable = ({ availableBackups, currentBackupDate }: { availa
 
 export default async function BackupLogPage({ params }: BackupLogPageProps) {
   // Require authentication - redirects to login if not authenticated
-  await requireServerAuth();
+  const authContext = await requireServerAuth();
   
   const { serverId, backupId } = await params;
   
@@ -236,39 +237,43 @@ export default async function BackupLogPage({ params }: BackupLogPageProps) {
     );
   }
   
-  if (!server) {
+  if (!server || !canAccessServer(getAccessibleServerIds(authContext), server.id)) {
     notFound();
   }
 
+  // Non-backup operations (Restore, Test, ...) share the log view, without the backup statistics
   const backup = server.backups?.find(b => b.id === backupId);
-  if (!backup) {
+  const operation = backup ? undefined : server.operations?.find(o => o.id === backupId);
+  const entry = backup ?? operation;
+  if (!entry) {
     notFound();
   }
+  const entryLabel = operation ? operation.operation : 'Backup';
 
-  const messages = parseJsonArray(backup.messages_array || null);
-  const warnings = parseJsonArray(backup.warnings_array || null);
-  const errors = parseJsonArray(backup.errors_array || null);
+  const messages = parseJsonArray(entry.messages_array || null);
+  const warnings = parseJsonArray(entry.warnings_array || null);
+  const errors = parseJsonArray(entry.errors_array || null);
   
   // Handle available_backups field - it should already be parsed as an array from db-utils
-  const availableBackups = (backup as { available_backups?: string[] }).available_backups || [];
+  const availableBackups = backup?.available_backups || [];
 
   // Ensure all required properties exist with fallbacks
   const safeBackup = {
-    ...backup,
-    messages: backup.messages ?? 0,
-    warnings: backup.warnings ?? 0,
-    errors: backup.errors ?? 0,
-    name: backup.name ?? 'Unknown',
-    date: backup.date ? new Date(backup.date).toISOString() : new Date().toISOString(),
-    status: backup.status ?? 'Failed' as const
+    ...entry,
+    messages: entry.messages ?? 0,
+    warnings: entry.warnings ?? 0,
+    errors: entry.errors ?? 0,
+    name: entry.name ?? 'Unknown',
+    date: entry.date ? new Date(entry.date).toISOString() : new Date().toISOString(),
+    status: entry.status ?? 'Failed' as const
   };
 
   return (
     <div className="w-[95%] mx-auto py-6 space-y-6">
       <div className="flex items-center gap-4">
         <BackButton />
-        <h1 className="text-2xl font-bold">Backup details: 
-            <span className="text-blue-600 font-normal"> {backup.name}</span>
+        <h1 className="text-2xl font-bold">{entryLabel} details: 
+            <span className="text-blue-600 font-normal"> {entry.name}</span>
             <span className="text-muted-foreground font-normal" title={server.alias ? server.name : undefined}> ({server.alias || server.name})</span>
         </h1>
       </div>
@@ -300,7 +305,7 @@ export default async function BackupLogPage({ params }: BackupLogPageProps) {
               {/* Left Column */}
               <div className="space-y-4">
                 <div>
-                  <dt className="font-medium  mb-2">Backup Information - {backup.name}</dt>
+                  <dt className="font-medium  mb-2">{entryLabel} Information - {entry.name}</dt>
                   
                   <dd className="mx-4 flex items-center gap-6">
                     <div className="flex items-center gap-2">
@@ -316,6 +321,7 @@ export default async function BackupLogPage({ params }: BackupLogPageProps) {
                     </div>
                   </dd>
                 </div>
+                {backup ? (
                 <div>
                   <dt className="font-medium mb-2">Backup Statistics</dt>
                   <dd className="mx-4 grid grid-cols-2 gap-x-4 gap-y-1">
@@ -341,6 +347,17 @@ export default async function BackupLogPage({ params }: BackupLogPageProps) {
                     </div>
                   </dd>
                 </div>
+                ) : (
+                <div>
+                  <dt className="font-medium mb-2">{entryLabel} Statistics</dt>
+                  <dd className="mx-4 grid grid-cols-2 gap-x-4 gap-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-muted-foreground">Duration:</span>
+                      <span>{entry.duration || '00:00:00'}</span>
+                    </div>
+                  </dd>
+                </div>
+                )}
                 <div>
                   <dt className="font-medium mb-2">Log Summary</dt>
                   <dd className="mx-4 flex items-center gap-6">
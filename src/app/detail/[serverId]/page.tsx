@@ -4,6 +4,7 @@ import { notFound } from 'next/navigation';
 import type { Server } from "@/lib/types";
 import { BackupSelectionProvider } from "@/contexts/backup-selection-context";
 import { requireServerAuth } from "@/lib/auth-server";
+import { getAccessibleServerIds, canAccessServer } from "@/lib/server-access";
 
 // Add cache control headers to the response
 export async function generateMetadata() {
@@ -38,13 +39,13 @@ export default async function ServerDetailsPage({
   searchParams,
 }: PageProps) {
   // Require authentication - redirects to login if not authenticated
-  await requireServerAuth();
+  const authContext = await requireServerAuth();
   
   const { serverId } = await params;
   const resolvedSearchParams = await searchParams;
   const server = await getServerById(serverId);
   
-  if (!server) {
+  if (!server || !canAccessServer(getAccessibleServerIds(authContext), server.id)) {
     notFound();
   }
 
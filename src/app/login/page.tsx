@@ -14,15 +14,33 @@ import DupliLogo from '../../../public/images/duplistatus_logo.png';
 const REMEMBERED_USERNAME_KEY = 'duplistatus_remembered_username';
 const REMEMBER_ME_ENABLED_KEY = 'duplistatus_remember_me_enabled';
 
+// Messages for the error codes the single sign-on callback redirects with
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  sso_disabled: 'Single sign-on is not enabled',
+  sso_failed: 'Single sign-on failed, please try again',
+  sso_no_role: 'Your account has not been granted access to duplistatus',
+  sso_username_taken: 'Your username is already used by a local account, please contact an administrator',
+};
+
+interface SingleSignOnStatus {
+  enabled: boolean;
+  buttonLabel: string | null;
+}
+
 function LoginForm() {
   const searchParams = useSearchParams();
   // Initialize state - always start with defaults to avoid hydration mismatch
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [rememberMe, setRememberMe] = useState<boolean>(false);
-  const [error, setError] = useState('');
+  const [error, setError] = useState(() => SSO_ERROR_MESSAGES[searchParams.get('sso_error') || ''] || '');
   const [loading, setLoading] = useState(false);
   const [mounted, setMounted] = useState(false);
+  const [sso, setSso] = useState<SingleSignOnStatus>({ enabled: false, buttonLabel: null });
+  // Second login step, shown when the account has two-factor authentication enabled
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   // Load saved values from localStorage after mount to avoid hydration mismatch
   // This is necessary to prevent hydration errors when localStorage values differ from SSR
@@ -78,6 +96,29 @@ function LoginForm() {
     checkAuth();
   }, [searchParams]);
 
+  // Check if single sign-on is available
+  useEffect(() => {
+    async function checkSingleSignOn() {
+      try {
+        const response = await fetch('/api/auth/oidc');
+        if (response.ok) {
+          setSso(await response.json());
+        }
+      } catch (error) {
+        console.error('Error checking single sign-on:', error);
+      }
+    }
+    checkSingleSignOn();
+  }, []);
+
+  // Start the single sign-on login, keeping the redirect URL
+  const handleSingleSignOn = () => {
+    setError('');
+    setLoading(true);
+    const targetUrl = validateRedirectUrl(searchParams.get('redirect'));
+    window.location.href = `/api/auth/oidc/login?redirect=${encodeURIComponent(targetUrl)}`;
+  };
+
   // Handle remember me checkbox change
   const handleRememberMeChange = (checked: boolean) => {
     setRememberMe(checked);
@@ -139,23 +180,16 @@ function LoginForm() {
         return;
       }
 
-      // Save username and remember me preference on successful login
-      if (typeof window !== 'undefined') {
-        if (rememberMe) {
-          localStorage.setItem(REMEMBERED_USERNAME_KEY, username);
-          localStorage.setItem(REMEMBER_ME_ENABLED_KEY, 'true');
-        } else {
-          localStorage.removeItem(REMEMBERED_USERNAME_KEY);
-          localStorage.removeItem(REMEMBER_ME_ENABLED_KEY);
-        }
+      // Password accepted, ask for the two-factor code
+      if (data.twoFactorRequired) {
+        setTwoFactorCode('');
+        setUseRecoveryCode(false);
+        setTwoFactorStep(true);
+        setLoading(false);
+        return;
       }
 
-      // Login successful - redirect to the redirect URL or home
-      // Use full page reload to ensure cookie is available
-      // The change password modal will auto-open if mustChangePassword is true
-      const redirectUrl = searchParams.get('redirect');
-      const targetUrl = validateRedirectUrl(redirectUrl);
-      window.location.href = targetUrl;
+      completeLogin();
     } catch (error) {
       console.error('Login error:', error);
       setError('An unexpected error occurred');
@@ -163,6 +197,74 @@ function LoginForm() {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      // Get CSRF token first
+      const csrfResponse = await fetch('/api/csrf');
+      const { token: csrfToken } = await csrfResponse.json();
+
+      const response = await fetch('/api/auth/login/two-factor', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfToken,
+        },
+        credentials: 'include',
+        body: JSON.stringify({ code: twoFactorCode }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Verification failed');
+        // The login challenge is gone (expired or account locked), start over with the password
+        if (response.status === 403 || data.loginExpired) {
+          setTwoFactorStep(false);
+          setPassword('');
+        }
+        setLoading(false);
+        return;
+      }
+
+      completeLogin();
+    } catch (error) {
+      console.error('Two-factor login error:', error);
+      setError('An unexpected error occurred');
+      setLoading(false);
+    }
+  };
+
+  const handleBackToPassword = () => {
+    setTwoFactorStep(false);
+    setPassword('');
+    setError('');
+  };
+
+  // Save the remember me preference and leave the login page
+  const completeLogin = () => {
+    // Save username and remember me preference on successful login
+    if (typeof window !== 'undefined') {
+      if (rememberMe) {
+        localStorage.setItem(REMEMBERED_USERNAME_KEY, username);
+        localStorage.setItem(REMEMBER_ME_ENABLED_KEY, 'true');
+      } else {
+        localStorage.removeItem(REMEMBERED_USERNAME_KEY);
+        localStorage.removeItem(REMEMBER_ME_ENABLED_KEY);
+      }
+    }
+
+    // Login successful - redirect to the redirect URL or home
+    // Use full page reload to ensure cookie is available
+    // The change password modal will auto-open if mustChangePassword is true
+    const redirectUrl = searchParams.get('redirect');
+    const targetUrl = validateRedirectUrl(redirectUrl);
+    window.location.href = targetUrl;
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -187,65 +289,145 @@ function LoginForm() {
         
         <Card>
           <CardHeader>
-            <CardTitle>Log in</CardTitle>
-            <CardDescription>Enter your credentials to access your account</CardDescription>
+            <CardTitle>{twoFactorStep ? 'Two-factor authentication' : 'Log in'}</CardTitle>
+            <CardDescription>
+              {!twoFactorStep
+                ? 'Enter your credentials to access your account'
+                : useRecoveryCode
+                  ? 'Enter one of your recovery codes'
+                  : 'Enter the 6-digit code from your authenticator app'}
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            <form className="space-y-4" onSubmit={handleSubmit}>
-              {error && (
-                <div className="rounded-md bg-destructive/10 p-4">
-                  <div className="text-sm text-destructive">
-                    {error}
-                  </div>
+            {error && (
+              <div className="mb-4 rounded-md bg-destructive/10 p-4">
+                <div className="text-sm text-destructive">
+                  {error}
                 </div>
-              )}
-              
-              <div className="space-y-4">
+              </div>
+            )}
+
+            {twoFactorStep ? (
+              <form className="space-y-4" onSubmit={handleTwoFactorSubmit}>
                 <div className="space-y-2">
-                  <Label htmlFor="username">Username</Label>
+                  <Label htmlFor="two-factor-code">{useRecoveryCode ? 'Recovery code' : 'Verification code'}</Label>
                   <Input
-                    id="username"
-                    name="username"
+                    id="two-factor-code"
+                    name="two-factor-code"
                     type="text"
-                    autoComplete="username"
+                    inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                    autoComplete="one-time-code"
+                    autoFocus
                     required
-                    placeholder="Username"
-                    value={username}
-                    onChange={handleUsernameChange}
+                    maxLength={useRecoveryCode ? 11 : 6}
+                    placeholder={useRecoveryCode ? 'XXXXX-XXXXX' : '123456'}
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
                     disabled={loading}
                   />
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="password">Password</Label>
-                  <TogglePasswordInput
-                    id="password"
-                    value={password}
-                    onChange={setPassword}
-                    placeholder="Password"
+
+                <Button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full"
+                >
+                  {loading ? 'Verifying...' : 'Verify'}
+                </Button>
+
+                <div className="flex justify-between text-sm">
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:underline"
+                    onClick={handleBackToPassword}
                     disabled={loading}
-                  />
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="remember-me"
-                    checked={mounted ? rememberMe : false}
-                    onCheckedChange={(checked) => handleRememberMeChange(checked === true)}
+                  >
+                    Back
+                  </button>
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:underline"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setTwoFactorCode('');
+                      setError('');
+                    }}
                     disabled={loading}
-                  />
-                  <Label htmlFor="remember-me" className="cursor-pointer text-sm font-normal">
-                    Remember me
-                  </Label>
+                  >
+                    {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                  </button>
                 </div>
-              </div>
+              </form>
+            ) : (
+              <>
+                <form className="space-y-4" onSubmit={handleSubmit}>
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="username">Username</Label>
+                      <Input
+                        id="username"
+                        name="username"
+                        type="text"
+                        autoComplete="username"
+                        required
+                        placeholder="Username"
+                        value={username}
+                        onChange={handleUsernameChange}
+                        disabled={loading}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="password">Password</Label>
+                      <TogglePasswordInput
+                        id="password"
+                        value={password}
+                        onChange={setPassword}
+                        placeholder="Password"
+                        disabled={loading}
+                      />
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="remember-me"
+                        checked={mounted ? rememberMe : false}
+                        onCheckedChange={(checked) => handleRememberMeChange(checked === true)}
+                        disabled={loading}
+                      />
+                      <Label htmlFor="remember-me" className="cursor-pointer text-sm font-normal">
+                        Remember me
+                      </Label>
+                    </div>
+                  </div>
+
+                  <Button
+                    type="submit"
+                    disabled={loading}
+                    className="w-full"
+                  >
+                    {loading ? 'Logging in...' : 'Log in'}
+                  </Button>
+                </form>
 
-              <Button
-                type="submit"
-                disabled={loading}
-                className="w-full"
-              >
-                {loading ? 'Logging in...' : 'Log in'}
-              </Button>
-            </form>
+                {sso.enabled && (
+                  <div className="mt-4 space-y-4">
+                    <div className="flex items-center gap-3">
+                      <div className="h-px flex-1 bg-border" />
+                      <span className="text-xs uppercase text-muted-foreground">or</span>
+                      <div className="h-px flex-1 bg-border" />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      disabled={loading}
+                      className="w-full"
+                      onClick={handleSingleSignOn}
+                    >
+                      {sso.buttonLabel || 'Sign in with SSO'}
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -1,6 +1,7 @@
 import { getServersSummary, getOverallSummaryFromServers, getAggregatedChartData, clearRequestCache } from "@/lib/db-utils";
 import { DashboardAutoRefresh } from "@/components/dashboard/dashboard-auto-refresh";
 import { requireServerAuth } from "@/lib/auth-server";
+import { getAccessibleServerIds, filterByServerAccess } from "@/lib/server-access";
 
 // Force dynamic rendering and disable caching
 export const dynamic = 'force-dynamic';
@@ -18,16 +19,18 @@ export async function generateMetadata() {
 
 export default async function DashboardPage() {
   // Require authentication - redirects to login if not authenticated
-  await requireServerAuth();
+  const authContext = await requireServerAuth();
   
   // Clear request cache at the start of each page load to ensure fresh data
   clearRequestCache();
   
   // Get serversSummary first, then use it for overallSummary to avoid duplicate overdue checks
   // Note: getServersSummary() already calls getConfigBackupSettings() internally, so we don't need to call it separately
-  const serversSummary = await getServersSummary();
+  // Only include the servers the user is allowed to see
+  const serverIds = getAccessibleServerIds(authContext);
+  const serversSummary = filterByServerAccess(await getServersSummary(), serverIds, server => server.id);
   const overallSummary = await getOverallSummaryFromServers(serversSummary);
-  const allServersChartData = await getAggregatedChartData();
+  const allServersChartData = await getAggregatedChartData(serverIds);
 
   const initialData = {
     serversSummary,
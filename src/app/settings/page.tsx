@@ -1,4 +1,5 @@
 import { requireServerAuth } from '@/lib/auth-server';
+import { getAccessibleServerIds } from '@/lib/server-access';
 import { SettingsPageClient } from '@/components/settings/settings-page-client';
 import { Suspense } from 'react';
 
@@ -14,7 +15,9 @@ export default async function SettingsPage() {
       <SettingsPageClient 
         currentUser={{
           id: authContext.userId,
+          role: authContext.role,
           isAdmin: authContext.isAdmin,
+          hasAllServerAccess: getAccessibleServerIds(authContext) === null,
         }}
       />
     </Suspense>
@@ -0,0 +1,41 @@
+import { notFound } from 'next/navigation';
+import { clearRequestCache } from "@/lib/db-utils";
+import { getPublishedStatusPage, buildStatusPageView } from "@/lib/status-pages";
+import { StatusPageView } from "@/components/status-page/status-page-view";
+
+// Public page: no authentication, only the backups selected for the page are shown
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type PageProps = {
+  params: Promise<{
+    slug: string;
+  }>;
+};
+
+export async function generateMetadata({ params }: PageProps) {
+  const { slug } = await params;
+  const page = getPublishedStatusPage(slug);
+  return {
+    title: page ? page.title : 'duplistatus',
+    robots: { index: false, follow: false },
+    other: {
+      'Cache-Control': 'no-store, no-cache, must-revalidate',
+    },
+  };
+}
+
+export default async function PublicStatusPage({ params }: PageProps) {
+  const { slug } = await params;
+
+  // Unknown and disabled pages look the same
+  const page = getPublishedStatusPage(slug);
+  if (!page) {
+    notFound();
+  }
+
+  clearRequestCache();
+  const view = await buildStatusPageView(page);
+
+  return <StatusPageView view={view} />;
+}
@@ -2,7 +2,7 @@
 
 import Link from 'next/link';
 import Image from 'next/image';
-import { LayoutDashboard, Settings, BookOpenText, LogOut, User, KeyRound, Users, ChevronDown, ArrowLeft, ScrollText } from 'lucide-react';
+import { LayoutDashboard, Settings, BookOpenText, LogOut, User, KeyRound, ShieldCheck, Users, ChevronDown, ArrowLeft, ScrollText } from 'lucide-react';
 import { BackupCollectMenu } from '@/components/backup-collect-menu';
 import { GlobalRefreshControls } from '@/components/global-refresh-controls';
 import { NtfyMessagesButton } from '@/components/ntfy-messages-button';
@@ -18,6 +18,9 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { useState, useEffect } from 'react';
 import { ChangePasswordModal } from '@/components/change-password-modal';
+import { TwoFactorModal } from '@/components/two-factor-modal';
+import { hasRequiredRole, userRoleLabels } from '@/lib/utils';
+import type { AuthProvider, UserRole } from '@/lib/types';
 
 //import the logo image
 import DupliLogo from '../../public/images/duplistatus_logo.png';
@@ -25,8 +28,11 @@ import DupliLogo from '../../public/images/duplistatus_logo.png';
 interface User {
   id: string;
   username: string;
+  role: UserRole;
   isAdmin: boolean;
+  authProvider?: AuthProvider;
   mustChangePassword?: boolean;
+  twoFactorSetupRequired?: boolean;
 }
 
 export function AppHeader() {
@@ -37,6 +43,7 @@ export function AppHeader() {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [changePasswordOpen, setChangePasswordOpen] = useState(false);
+  const [twoFactorOpen, setTwoFactorOpen] = useState(false);
 
   // Check authentication status
   useEffect(() => {
@@ -51,6 +58,9 @@ export function AppHeader() {
           // Auto-open change password modal if required
           if (data.user.mustChangePassword) {
             setChangePasswordOpen(true);
+          } else if (data.user.twoFactorSetupRequired) {
+            // Auto-open two-factor enrollment if required (after any forced password change)
+            setTwoFactorOpen(true);
           }
         } else {
           setUser(null);
@@ -133,7 +143,7 @@ export function AppHeader() {
           <GlobalRefreshControls />
           <NtfyMessagesButton />
           <OpenServerConfigButton />
-          <BackupCollectMenu />
+          {hasRequiredRole(user?.role, 'operator') && <BackupCollectMenu />}
           <Link href="/settings" className="ml-4">
             <Button variant="outline" size="icon" title="Settings">
               <Settings className="h-4 w-4" />
@@ -162,19 +172,27 @@ export function AppHeader() {
                 >
                   <User className="h-4 w-4 text-muted-foreground" />
                   <span className="text-sm font-medium">{user.username}</span>
-                  {user.isAdmin && (
-                    <span className="text-xs px-2 py-0.5 rounded-full bg-blue-500/20 text-blue-600 dark:text-blue-400">
-                      Admin
-                    </span>
-                  )}
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${
+                    user.isAdmin
+                      ? 'bg-blue-500/20 text-blue-600 dark:text-blue-400'
+                      : 'bg-muted text-muted-foreground'
+                  }`}>
+                    {userRoleLabels[user.role]}
+                  </span>
                   <ChevronDown className="h-4 w-4 text-muted-foreground" />
                 </Button>
               </DropdownMenuTrigger>
-              <DropdownMenuContent align="end" className="w-48">
+              <DropdownMenuContent align="end" className="w-56">
                 <DropdownMenuItem onClick={() => setChangePasswordOpen(true)}>
                   <KeyRound className="h-4 w-4 mr-2" />
                   Change Password
                 </DropdownMenuItem>
+                {user.authProvider !== 'oidc' && (
+                  <DropdownMenuItem onClick={() => setTwoFactorOpen(true)}>
+                    <ShieldCheck className="h-4 w-4 mr-2" />
+                    Two-Factor Authentication
+                  </DropdownMenuItem>
+                )}
                 {user.isAdmin && (
                   <>
                     <DropdownMenuSeparator />
@@ -213,6 +231,11 @@ export function AppHeader() {
         onOpenChange={setChangePasswordOpen}
         required={user?.mustChangePassword || false}
       />
+      <TwoFactorModal
+        open={twoFactorOpen}
+        onOpenChange={setTwoFactorOpen}
+        required={user?.twoFactorSetupRequired || false}
+      />
     </div>
   );
 }
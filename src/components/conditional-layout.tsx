@@ -8,8 +8,10 @@ import { GithubLink } from '@/components/github-link';
 export function ConditionalLayout({ children }: { children: React.ReactNode }) {
   const pathname = usePathname();
   const isLoginPage = pathname === '/login';
+  // Public status pages are shared without an account, they have no application header
+  const isStatusPage = pathname.startsWith('/status/');
 
-  if (isLoginPage) {
+  if (isLoginPage || isStatusPage) {
     return <>{children}</>;
   }
 
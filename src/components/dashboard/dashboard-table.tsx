@@ -16,7 +16,7 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { StatusBadge } from "@/components/status-badge";
 import { useRouter } from "next/navigation"; // Import useRouter
-import { formatRelativeTime } from "@/lib/utils"; // Import the new function
+import { formatRelativeTime, getBackupProblemState, hasRequiredRole } from "@/lib/utils"; // Import the new function
 import { SortableTableHead } from "@/components/ui/sortable-table-head";
 import { createSortedArray, type SortConfig } from "@/lib/sort-utils";
 import { useAvailableBackupsModal, AvailableBackupsIcon } from "@/components/ui/available-backups-modal";
@@ -29,6 +29,9 @@ import {
 } from "@/components/ui/tooltip";
 import { ServerConfigurationButton } from "@/components/ui/server-configuration-button";
 import { BackupCollectMenu } from "@/components/backup-collect-menu";
+import { MaintenanceBadge } from "@/components/ui/maintenance-badge";
+import { SnoozeBackupButton } from "@/components/ui/snooze-backup-button";
+import { AcknowledgeBackupButton } from "@/components/ui/acknowledge-backup-button";
 import { getUserLocalStorageItem, setUserLocalStorageItem } from "@/lib/user-local-storage";
 import { useCurrentUser } from "@/hooks/use-current-user";
 import { useRef } from "react";
@@ -79,6 +82,8 @@ export function DashboardTable({ servers }: DashboardTableProps) {
   const router = useRouter(); // Initialize router
   const { handleAvailableBackupsClick } = useAvailableBackupsModal();
   const currentUser = useCurrentUser();
+  const canCollectBackups = hasRequiredRole(currentUser?.role, 'operator');
+  const canManageBackupAlerts = hasRequiredRole(currentUser?.role, 'operator');
   
   // Initialize with persisted sort config from localStorage
   // We'll load user-specific config after user is available
@@ -151,6 +156,9 @@ export function DashboardTable({ servers }: DashboardTableProps) {
           lastOverdueCheck: server.lastOverdueCheck,
           expectedBackupDate: backup.expectedBackupDate,
           lastNotificationSent: backup.lastNotificationSent,
+          maintenance: backup.maintenance,
+          acknowledgement: backup.acknowledgement,
+          problemState: getBackupProblemState(backup.lastBackupStatus, backup.isBackupOverdue),
           lastBackupDuration: backup.lastBackupDuration,
           warnings: backup.warnings || 0,
           errors: backup.errors || 0,
@@ -330,6 +338,11 @@ export function DashboardTable({ servers }: DashboardTableProps) {
                       {server.backupName || 'N/A'}
                     </TableCell>
                     <TableCell className="text-left">
+                      {server.maintenance && (
+                        <div className="mb-1">
+                          <MaintenanceBadge maintenance={server.maintenance} />
+                        </div>
+                      )}
                       {server.isBackupOverdue ? (
                         <Tooltip>
                           <TooltipTrigger>
@@ -353,6 +366,9 @@ export function DashboardTable({ servers }: DashboardTableProps) {
                                   <Settings className="h-3 w-3" />
                                   <span>Overdue configuration</span>
                                 </button>
+                                {canManageBackupAlerts && !server.maintenance && (
+                                  <SnoozeBackupButton serverId={server.serverId} backupName={server.backupName} />
+                                )}
                                 <ServerConfigurationButton 
                                   className="text-xs !p-1" 
                                   variant="ghost"
@@ -406,8 +422,16 @@ export function DashboardTable({ servers }: DashboardTableProps) {
                         onClick={(e) => handleStatusBadgeClick(server.serverId, server.lastBackupId, e)}
                         className="cursor-pointer"
                       >
-                        <StatusBadge status={server.lastBackupStatus} />
+                        <StatusBadge status={server.lastBackupStatus} acknowledgement={server.acknowledgement} />
                       </div>
+                      {canManageBackupAlerts && server.problemState && (
+                        <AcknowledgeBackupButton
+                          serverId={server.serverId}
+                          backupName={server.backupName}
+                          problemState={server.problemState}
+                          acknowledgement={server.acknowledgement}
+                        />
+                      )}
                     </TableCell>
                     <TableCell className="text-right">{server.lastBackupDuration}</TableCell>
                     <TableCell className="text-center">{server.warnings}</TableCell>
@@ -440,16 +464,18 @@ export function DashboardTable({ servers }: DashboardTableProps) {
                           variant="ghost"
                           size="sm"
                         />
-                        <BackupCollectMenu
-                          preFilledServerId={server.serverId}
-                          preFilledServerName={server.name}
-                          preFilledServerUrl={server.server_url}
-                          autoCollect={true}
-                          size="sm"
-                          variant="ghost"
-                          showText={false}
-                          disabled={server.server_url === ''}
-                        />
+                        {canCollectBackups && (
+                          <BackupCollectMenu
+                            preFilledServerId={server.serverId}
+                            preFilledServerName={server.name}
+                            preFilledServerUrl={server.server_url}
+                            autoCollect={true}
+                            size="sm"
+                            variant="ghost"
+                            showText={false}
+                            disabled={server.server_url === ''}
+                          />
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -501,8 +527,17 @@ export function DashboardTable({ servers }: DashboardTableProps) {
                       onClick={(e) => handleStatusBadgeClick(server.serverId, server.lastBackupId, e)}
                       className="cursor-pointer"
                     >
-                      <StatusBadge status={server.lastBackupStatus} />
+                      <StatusBadge status={server.lastBackupStatus} acknowledgement={server.acknowledgement} />
                     </div>
+                    {canManageBackupAlerts && server.problemState && (
+                      <AcknowledgeBackupButton
+                        serverId={server.serverId}
+                        backupName={server.backupName}
+                        problemState={server.problemState}
+                        acknowledgement={server.acknowledgement}
+                      />
+                    )}
+                    {server.maintenance && <MaintenanceBadge maintenance={server.maintenance} />}
                     {server.isBackupOverdue ? (
                       <div className="text-red-400 text-xs">⚠️ {server.expectedBackupElapsed} overdue</div>
                     ) : (
@@ -586,16 +621,18 @@ export function DashboardTable({ servers }: DashboardTableProps) {
                         <div className="text-xs text-muted-foreground">Off</div>
                       )}
                     </div>
-                    <BackupCollectMenu
-                      preFilledServerId={server.serverId}
-                      preFilledServerName={server.name}
-                      preFilledServerUrl={server.server_url}
-                      autoCollect={true}
-                      size="sm"
-                      variant="ghost"
-                      showText={false}
-                      disabled={server.server_url === ''}
-                    />
+                    {canCollectBackups && (
+                      <BackupCollectMenu
+                        preFilledServerId={server.serverId}
+                        preFilledServerName={server.name}
+                        preFilledServerUrl={server.server_url}
+                        autoCollect={true}
+                        size="sm"
+                        variant="ghost"
+                        showText={false}
+                        disabled={server.server_url === ''}
+                      />
+                    )}
                     <ServerConfigurationButton 
                       serverName={server.name}
                       serverAlias={server.alias}
@@ -629,6 +666,13 @@ export function DashboardTable({ servers }: DashboardTableProps) {
                         <Settings className="h-3 w-3 mr-1" />
                         Overdue Config
                       </Button>
+                      {canManageBackupAlerts && !server.maintenance && (
+                        <SnoozeBackupButton
+                          serverId={server.serverId}
+                          backupName={server.backupName}
+                          className="flex-1 inline-flex items-center justify-center gap-1 rounded-md border border-input bg-background px-3 text-xs h-9 hover:bg-accent hover:text-accent-foreground disabled:opacity-50"
+                        />
+                      )}
                     </div>
                   </div>
                 )}
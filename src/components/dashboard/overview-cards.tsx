@@ -12,6 +12,7 @@ import { useConfig } from "@/contexts/config-context";
 import { getStatusSortValue } from "@/lib/sort-utils";
 import { ServerConfigurationButton } from "@/components/ui/server-configuration-button";
 import { BackupTooltipContent } from "@/components/ui/backup-tooltip-content";
+import { BackupStatusBar } from "@/components/ui/backup-status-bar";
 
 // Helper function to get overall server status
 function getServerStatus(server: ServerSummary): BackupStatus {
@@ -48,21 +49,6 @@ function getServerStatus(server: ServerSummary): BackupStatus {
   return 'Unknown';
 }
 
-// Helper function to get status color for backup status bars
-function getStatusColorForBar(status: BackupStatus): string {
-  switch (status) {
-    case 'Success':
-      return 'bg-green-500';
-    case 'Warning':
-      return 'bg-yellow-500';
-    case 'Error':
-    case 'Fatal':
-      return 'bg-red-500';
-    default:
-      return 'bg-gray-400';
-  }
-}
-
 // Custom status badge without text, just icon and color
 function OverviewStatusBadge({ status, haveOverdueBackups }: { status: BackupStatus; haveOverdueBackups: boolean }) {
   const getStatusIcon = (status: BackupStatus) => {
@@ -90,33 +76,6 @@ function OverviewStatusBadge({ status, haveOverdueBackups }: { status: BackupSta
   );
 }
 
-// Component for backup status bar using narrow rectangular blocks
-function BackupStatusBar({ statusHistory }: { statusHistory: BackupStatus[] }) {
-  // Use the last 10 statuses for the status bar
-  const recentStatuses = statusHistory.length <= 10 ? statusHistory : statusHistory.slice(-10);
-  
-  return (
-    <div className="flex gap-0.5">
-      {/* Fill remaining slots if less than 10 statuses */}
-      {Array.from({ length: Math.max(0, 10 - recentStatuses.length) }, (_, index) => (
-        <div
-          key={`empty-${index}`}
-          className="w-1 h-3 border border-gray-700 rounded-sm bg-transparent"
-        />
-      ))}
-      {recentStatuses.map((status, index) => {
-        const statusColor = getStatusColorForBar(status);  
-        return (
-          <div 
-            key={index} 
-            className={`w-1 h-3 ${statusColor} rounded-sm`}
-          />
-        );
-      })}
-    </div>
-  );
-}
-
 interface OverviewCardProps {
   server: ServerSummary;
   isSelected: boolean;
@@ -301,6 +260,8 @@ const OverviewCard = ({ server, isSelected, onSelect }: OverviewCardProps) => {
                       isOverdue={backupJob.isBackupOverdue}
                       expectedBackupDate={backupJob.expectedBackupDate}
                       notificationEvent={backupJob.notificationEvent}
+                      maintenance={backupJob.maintenance}
+                      acknowledgement={backupJob.acknowledgement}
                     />
                   </TooltipContent>
                 </Tooltip>
@@ -2,7 +2,7 @@
 
 import { useMemo } from 'react';
 import { useRouter } from 'next/navigation';
-import type { ServerSummary, BackupStatus, NotificationEvent } from "@/lib/types";
+import type { ActiveMaintenance, BackupAcknowledgement, ServerSummary, BackupStatus, NotificationEvent } from "@/lib/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { CheckCheck, OctagonAlert, AlertTriangle, ThumbsUp } from "lucide-react";
@@ -34,6 +34,8 @@ interface BackupWithServer {
   isOverdue: boolean;
   expectedBackupDate: string;
   notificationEvent?: NotificationEvent;
+  maintenance: ActiveMaintenance | null;
+  acknowledgement: BackupAcknowledgement | null;
 }
 
 export function OverviewStatusPanel({ servers, totalBackups }: OverviewStatusPanelProps) {
@@ -93,6 +95,8 @@ export function OverviewStatusPanel({ servers, totalBackups }: OverviewStatusPan
             isOverdue: backup.isBackupOverdue,
             expectedBackupDate: backup.expectedBackupDate,
             notificationEvent: backup.notificationEvent,
+            maintenance: backup.maintenance,
+            acknowledgement: backup.acknowledgement,
           });
         }
 
@@ -116,6 +120,8 @@ export function OverviewStatusPanel({ servers, totalBackups }: OverviewStatusPan
             isOverdue: backup.isBackupOverdue,
             expectedBackupDate: backup.expectedBackupDate,
             notificationEvent: backup.notificationEvent,
+            maintenance: backup.maintenance,
+            acknowledgement: backup.acknowledgement,
           });
         }
       });
@@ -258,6 +264,8 @@ export function OverviewStatusPanel({ servers, totalBackups }: OverviewStatusPan
                           isOverdue={backup.isOverdue}
                           expectedBackupDate={backup.expectedBackupDate}
                           notificationEvent={backup.notificationEvent}
+                          maintenance={backup.maintenance}
+                          acknowledgement={backup.acknowledgement}
                         />
                       </TooltipContent>
                     </Tooltip>
@@ -357,6 +365,8 @@ export function OverviewStatusPanel({ servers, totalBackups }: OverviewStatusPan
                           isOverdue={backup.isOverdue}
                           expectedBackupDate={backup.expectedBackupDate}
                           notificationEvent={backup.notificationEvent}
+                          maintenance={backup.maintenance}
+                          acknowledgement={backup.acknowledgement}
                         />
                       </TooltipContent>
                     </Tooltip>
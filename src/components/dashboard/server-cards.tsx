@@ -13,6 +13,8 @@ import { useConfig } from "@/contexts/config-context";
 import { getStatusSortValue } from "@/lib/sort-utils";
 import { ServerConfigurationButton } from "@/components/ui/server-configuration-button";
 import { BackupTooltipContent } from "@/components/ui/backup-tooltip-content";
+import { BackupStatusBar } from "@/components/ui/backup-status-bar";
+import { MaintenanceBadge } from "@/components/ui/maintenance-badge";
 
 
 const MIN_CARD_WIDTH = 230;         // the minimum width of a card
@@ -55,21 +57,6 @@ function getServerStatus(server: ServerSummary): BackupStatus {
   return 'Unknown';
 }
 
-// Helper function to get status color for backup status bars
-function getStatusColorForBar(status: BackupStatus): string {
-  switch (status) {
-    case 'Success':
-      return 'bg-green-500';
-    case 'Warning':
-      return 'bg-yellow-500';
-    case 'Error':
-    case 'Fatal':
-      return 'bg-red-500';
-    default:
-      return 'bg-gray-400';
-  }
-}
-
 // Custom status badge without text, just icon and color
 function OverviewStatusBadge({ status, haveOverdueBackups }: { status: BackupStatus; haveOverdueBackups: boolean }) {
   const getStatusIcon = (status: BackupStatus) => {
@@ -97,33 +84,6 @@ function OverviewStatusBadge({ status, haveOverdueBackups }: { status: BackupSta
   );
 }
 
-// Component for backup status bar using narrow rectangular blocks
-function BackupStatusBar({ statusHistory }: { statusHistory: BackupStatus[] }) {
-  // Use the last 10 statuses for the status bar
-  const recentStatuses = statusHistory.length <= 10 ? statusHistory : statusHistory.slice(-10);
-  
-  return (
-    <div className="flex gap-0.5">
-      {/* Fill remaining slots if less than 10 statuses */}
-      {Array.from({ length: Math.max(0, 10 - recentStatuses.length) }, (_, index) => (
-        <div
-          key={`empty-${index}`}
-          className="w-1 h-3 border border-gray-700 rounded-sm bg-transparent"
-        />
-      ))}
-      {recentStatuses.map((status, index) => {
-        const statusColor = getStatusColorForBar(status);  
-        return (
-          <div 
-            key={index} 
-            className={`w-1 h-3 ${statusColor} rounded-sm`}
-          />
-        );
-      })}
-    </div>
-  );
-}
-
 interface ServerCardProps {
   server: ServerSummary;
   isSelected: boolean;
@@ -133,6 +93,11 @@ interface ServerCardProps {
 const ServerCard = ({ server, isSelected, onSelect }: ServerCardProps) => {
   const serverStatus = getServerStatus(server);
   const router = useRouter();
+  // Maintenance of the server shown in the header, the one ending last when backups have different windows
+  const serverMaintenance = server.backupInfo
+    .map(backupJob => backupJob.maintenance)
+    .reduce<ServerSummary['backupInfo'][number]['maintenance']>((latest, maintenance) =>
+      maintenance && (!latest || maintenance.until > latest.until) ? maintenance : latest, null);
 
   const handleCardClick = () => {
     onSelect(server.id);
@@ -164,7 +129,8 @@ const ServerCard = ({ server, isSelected, onSelect }: ServerCardProps) => {
               {server.alias || server.name}
             </button>
           </CardTitle>
-          <div className="flex items-center flex-shrink-0">
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {serverMaintenance && <MaintenanceBadge maintenance={serverMaintenance} compact />}
             <OverviewStatusBadge 
               status={serverStatus} 
               haveOverdueBackups={server.haveOverdueBackups}
@@ -255,6 +221,11 @@ const ServerCard = ({ server, isSelected, onSelect }: ServerCardProps) => {
                         {/* Overdue icon and time ago */}
                         <div className="flex items-center gap-1 justify-end">
                           
+                          {/* Maintenance icon */}
+                          {backupJob.maintenance && (
+                            <MaintenanceBadge maintenance={backupJob.maintenance} compact />
+                          )}
+
                           {/* Overdue icon */}
                           {backupJob.isBackupOverdue && (
                             <AlertTriangle className="h-3 w-3 text-red-500 flex-shrink-0" />
@@ -308,6 +279,8 @@ const ServerCard = ({ server, isSelected, onSelect }: ServerCardProps) => {
                         isOverdue={backupJob.isBackupOverdue}
                         expectedBackupDate={backupJob.expectedBackupDate}
                         notificationEvent={backupJob.notificationEvent}
+                        maintenance={backupJob.maintenance}
+                        acknowledgement={backupJob.acknowledgement}
                       />
                     </TooltipContent>
                   </Tooltip>
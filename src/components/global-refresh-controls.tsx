@@ -14,16 +14,17 @@ interface AutoRefreshButtonProps {
   onToggle: () => void;
   progress: number;
   isLoading?: boolean;
+  isLive?: boolean;
 }
 
-const AutoRefreshButton = ({ className, isEnabled, interval, onToggle, progress, isLoading = false }: AutoRefreshButtonProps) => {
+const AutoRefreshButton = ({ className, isEnabled, interval, onToggle, progress, isLoading = false, isLive = false }: AutoRefreshButtonProps) => {
   return (
     <div className={`relative ${className}`}>
       {/* Progress background - only show when enabled */}
       <div 
         className="absolute inset-0 bg-blue-600 transition-all duration-1000 ease-linear"
         style={{ 
-          width: isEnabled ? `${progress}%` : '0%',
+          width: isEnabled && !isLive ? `${progress}%` : '0%',
           opacity: 0.3,
           borderRadius: 'inherit'
         }}
@@ -40,9 +41,11 @@ const AutoRefreshButton = ({ className, isEnabled, interval, onToggle, progress,
         title={isEnabled ? "Disable auto-refresh" : "Enable auto-refresh"}
       >
         {!isEnabled ? (
-          'Auto-refresh (disabled)'
+          isLive ? 'Auto-refresh (disabled, live)' : 'Auto-refresh (disabled)'
         ) : isLoading ? (
           'Auto-refresh (loading)'
+        ) : isLive ? (
+          'Auto-refresh (live)'
         ) : (
           `Auto-refresh (${interval < 1 ? `${interval * 60} sec` : `${interval} min`})`
         )}
@@ -174,6 +177,7 @@ export function GlobalRefreshControls() {
         onToggle={handleToggleAutoRefresh}
         progress={progress}
         isLoading={configLoading}
+        isLive={state.liveUpdates}
       />
     </div>
   );
@@ -1,6 +1,6 @@
 "use client";
 
-import type { Backup } from "@/lib/types";
+import type { AnomalyMetric, Backup } from "@/lib/types";
 import React, { useState, useEffect, useMemo } from "react";
 import {
   Table,
@@ -14,8 +14,9 @@ import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { StatusBadge } from "@/components/status-badge";
+import { AnomalyBadge } from "@/components/ui/anomaly-badge";
 import { ChevronLeft, ChevronRight } from "lucide-react";
-import { formatBytes, formatRelativeTime } from "@/lib/utils";
+import { cn, formatBytes, formatRelativeTime } from "@/lib/utils";
 import { useConfig } from "@/contexts/config-context";
 import { useBackupSelection } from "@/contexts/backup-selection-context";
 import { useRouter } from 'next/navigation';
@@ -178,6 +179,10 @@ export function ServerBackupTable({ backups, serverName, serverAlias, serverNote
     return messages.length === 0 && warnings.length === 0 && errors.length === 0;
   };
 
+  // Statistics flagged by the anomaly detection are highlighted
+  const getAnomalyClassName = (backup: Backup, metric: AnomalyMetric): string =>
+    backup.anomalies?.some(anomaly => anomaly.metric === metric) ? "text-orange-500 font-medium" : "";
+
   const handleBackupClick = (backup: Backup) => {
     // Only navigate if there are messages to show
     if (!hasNoMessages(backup)) {
@@ -266,7 +271,7 @@ export function ServerBackupTable({ backups, serverName, serverAlias, serverNote
                 {paginatedBackups.map((backup) => (
                   <TableRow 
                     key={backup.id}
-                    className={!hasNoMessages(backup) ? "cursor-pointer hover:bg-muted/50" : ""}
+                    className={cn(!hasNoMessages(backup) && "cursor-pointer hover:bg-muted/50", backup.anomalies && "bg-orange-500/5")}
                     onClick={() => !hasNoMessages(backup) && handleBackupClick(backup)}
                   >
                     <TableCell className="font-medium">{backup.name}</TableCell>
@@ -293,6 +298,11 @@ export function ServerBackupTable({ backups, serverName, serverAlias, serverNote
                           <StatusBadge status={backup.status} />
                         </div>
                       )}
+                      {backup.anomalies && (
+                        <div className="mt-1">
+                          <AnomalyBadge anomalies={backup.anomalies} />
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell className="text-center">{backup.warnings}</TableCell>
                     <TableCell className="text-center">{backup.errors}</TableCell>
@@ -308,10 +318,10 @@ export function ServerBackupTable({ backups, serverName, serverAlias, serverNote
                         count={backup.backup_list_count}
                       />
                     </TableCell>
-                    <TableCell className="text-right">{backup.fileCount.toLocaleString()}</TableCell>
-                    <TableCell className="text-right">{formatBytes(backup.fileSize)}</TableCell>
-                    <TableCell className="text-right">{formatBytes(backup.uploadedSize)}</TableCell>
-                    <TableCell className="text-right">{backup.duration}</TableCell>
+                    <TableCell className={cn("text-right", getAnomalyClassName(backup, 'examined_files'))}>{backup.fileCount.toLocaleString()}</TableCell>
+                    <TableCell className={cn("text-right", getAnomalyClassName(backup, 'size'))}>{formatBytes(backup.fileSize)}</TableCell>
+                    <TableCell className={cn("text-right", getAnomalyClassName(backup, 'uploaded_size'))}>{formatBytes(backup.uploadedSize)}</TableCell>
+                    <TableCell className={cn("text-right", getAnomalyClassName(backup, 'duration_seconds'))}>{backup.duration}</TableCell>
                     <TableCell className="text-right">{formatBytes(backup.knownFileSize)}</TableCell>
                     {/* Development mode delete button */}
                     {isDevMode && (
@@ -369,6 +379,7 @@ export function ServerBackupTable({ backups, serverName, serverAlias, serverNote
                           <StatusBadge status={backup.status} />
                         </div>
                       )}
+                      {backup.anomalies && <AnomalyBadge anomalies={backup.anomalies} />}
                     </div>
                   </div>
 
@@ -393,24 +404,24 @@ export function ServerBackupTable({ backups, serverName, serverAlias, serverNote
                     
                     <div className="space-y-1">
                       <Label className="text-xs text-muted-foreground">File Count</Label>
-                      <div className="text-sm">{backup.fileCount.toLocaleString()}</div>
+                      <div className={cn("text-sm", getAnomalyClassName(backup, 'examined_files'))}>{backup.fileCount.toLocaleString()}</div>
                     </div>
 
                     {/* Row 2 */}
                     <div className="space-y-1">
                       <Label className="text-xs text-muted-foreground">File Size</Label>
-                      <div className="text-sm">{formatBytes(backup.fileSize)}</div>
+                      <div className={cn("text-sm", getAnomalyClassName(backup, 'size'))}>{formatBytes(backup.fileSize)}</div>
                     </div>
                     
                     <div className="space-y-1">
                       <Label className="text-xs text-muted-foreground">Uploaded Size</Label>
-                      <div className="text-sm">{formatBytes(backup.uploadedSize)}</div>
+                      <div className={cn("text-sm", getAnomalyClassName(backup, 'uploaded_size'))}>{formatBytes(backup.uploadedSize)}</div>
                     </div>
 
                     {/* Row 3 */}
                     <div className="space-y-1">
                       <Label className="text-xs text-muted-foreground">Duration</Label>
-                      <div className="text-sm">{backup.duration}</div>
+                      <div className={cn("text-sm", getAnomalyClassName(backup, 'duration_seconds'))}>{backup.duration}</div>
                     </div>
                     
                     <div className="space-y-1">
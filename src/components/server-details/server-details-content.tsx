@@ -2,6 +2,7 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ServerBackupTable } from "@/components/server-details/server-backup-table";
+import { ServerOperationsTable } from "@/components/server-details/server-operations-table";
 import { ServerDetailSummaryItems } from "@/components/server-details/server-detail-summary-items";
 import { MetricsChartsPanel } from "@/components/metrics-charts-panel";
 import type { Server } from "@/lib/types";
@@ -166,6 +167,23 @@ export function ServerDetailsContent({ server, overdueBackups, lastOverdueCheck,
         </CardContent>
       </Card>
 
+      {server.operations && server.operations.length > 0 && (
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle>Other Operations</CardTitle>
+            <CardDescription>
+              {selectedBackup 
+                ? <>Restore, test, compact, repair and delete operations of <span className="text-primary font-medium">{selectedBackup.name}</span></>
+                : <>Restore, test, compact, repair and delete operations for <span className="text-primary font-medium">{server.alias || server.name}</span></>
+              }
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ServerOperationsTable operations={server.operations} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Server-specific metrics chart */}
       <div className={`${useContentBasedHeight ? 'min-h-fit' : 'flex-1 min-h-0 overflow-hidden'}`}>
         <Card className={`${useContentBasedHeight ? 'min-h-fit' : 'h-full'} shadow-lg border-2 border-border`}>
@@ -0,0 +1,240 @@
+"use client";
+
+import type { Operation, NonBackupOperationType } from "@/lib/types";
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableHead,
+} from "@/components/ui/table";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { StatusBadge } from "@/components/status-badge";
+import { BackupStatusBar } from "@/components/ui/backup-status-bar";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { formatRelativeTime, nonBackupOperationTypes } from "@/lib/utils";
+import { useConfig } from "@/contexts/config-context";
+import { useBackupSelection } from "@/contexts/backup-selection-context";
+import { useRouter } from 'next/navigation';
+
+interface ServerOperationsTableProps {
+  operations: Operation[];
+}
+
+interface OperationTypeSummary {
+  operation: NonBackupOperationType;
+  count: number;
+  lastRun: Operation;
+  statusHistory: Operation['status'][];
+}
+
+export function ServerOperationsTable({ operations }: ServerOperationsTableProps) {
+  const [currentPage, setCurrentPage] = useState(1);
+  const { selectedBackup } = useBackupSelection();
+  const { tablePageSize } = useConfig();
+  const router = useRouter();
+
+  // Operations are already ordered newest first; only filter by the selected backup
+  const filteredOperations = useMemo(() => (
+    selectedBackup === 'all'
+      ? operations
+      : operations.filter(operation => operation.name === selectedBackup)
+  ), [operations, selectedBackup]);
+
+  // One summary per operation type: run count, last run and status history (oldest to newest)
+  const summaries = useMemo<OperationTypeSummary[]>(() => (
+    nonBackupOperationTypes
+      .map((operationType) => {
+        const runs = filteredOperations.filter(operation => operation.operation === operationType);
+        if (runs.length === 0) return null;
+        return {
+          operation: operationType,
+          count: runs.length,
+          lastRun: runs[0],
+          statusHistory: runs.map(operation => operation.status).reverse(),
+        };
+      })
+      .filter((summary): summary is OperationTypeSummary => summary !== null)
+  ), [filteredOperations]);
+
+  const totalPages = Math.ceil(filteredOperations.length / tablePageSize);
+  const paginatedOperations = filteredOperations.slice(
+    (currentPage - 1) * tablePageSize,
+    currentPage * tablePageSize
+  );
+
+  // Reset to first page when filter, page size or data changes
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    setCurrentPage(1);
+  }, [selectedBackup, tablePageSize, operations.length]);
+
+  const hasMessages = (operation: Operation): boolean => (
+    [operation.messages_array, operation.warnings_array, operation.errors_array].some((jsonString) => {
+      if (!jsonString) return false;
+      try {
+        const parsed = JSON.parse(jsonString);
+        return Array.isArray(parsed) && parsed.length > 0;
+      } catch {
+        return false;
+      }
+    })
+  );
+
+  const handleOperationClick = (operation: Operation) => {
+    // Operations share the backup log page
+    if (hasMessages(operation)) {
+      router.push(`/detail/${operation.server_id}/backup/${operation.id}`);
+    }
+  };
+
+  if (filteredOperations.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No other operations were received for this selection.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {/* Per-operation summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+        {summaries.map((summary) => (
+          <Card key={summary.operation} className="p-4">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-sm">{summary.operation}</span>
+              <StatusBadge status={summary.lastRun.status} />
+            </div>
+            <div className="mt-2 text-xs text-muted-foreground">
+              {summary.count} {summary.count === 1 ? 'run' : 'runs'} · last {formatRelativeTime(summary.lastRun.date)}
+            </div>
+            <div className="mt-2">
+              <BackupStatusBar statusHistory={summary.statusHistory} />
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      <div className="rounded-lg border shadow-sm overflow-hidden">
+        {/* Desktop Table View */}
+        <div className="hidden md:block overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Operation</TableHead>
+                <TableHead>Backup Name</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-center">Warnings</TableHead>
+                <TableHead className="text-center">Errors</TableHead>
+                <TableHead className="text-right">Duration</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {paginatedOperations.map((operation) => (
+                <TableRow
+                  key={operation.id}
+                  className={hasMessages(operation) ? "cursor-pointer hover:bg-muted/50" : ""}
+                  onClick={() => handleOperationClick(operation)}
+                >
+                  <TableCell className="font-medium">{operation.operation}</TableCell>
+                  <TableCell>{operation.name}</TableCell>
+                  <TableCell>
+                    <div>{new Date(operation.date).toLocaleString()}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatRelativeTime(operation.date)}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <StatusBadge status={operation.status} />
+                  </TableCell>
+                  <TableCell className="text-center">{operation.warnings}</TableCell>
+                  <TableCell className="text-center">{operation.errors}</TableCell>
+                  <TableCell className="text-right">{operation.duration}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Mobile Card View */}
+        <div className="md:hidden space-y-3 p-4">
+          {paginatedOperations.map((operation) => (
+            <Card key={operation.id} className="p-4">
+              <div className="space-y-3">
+                <div className="flex items-center justify-between border-b pb-2">
+                  <div className="flex-1">
+                    <div className="font-medium text-sm">{operation.operation} · {operation.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(operation.date).toLocaleString()}
+                    </div>
+                  </div>
+                  <StatusBadge status={operation.status} />
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Warnings</Label>
+                    <div className="text-sm">{operation.warnings}</div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Errors</Label>
+                    <div className="text-sm">{operation.errors}</div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Duration</Label>
+                    <div className="text-sm">{operation.duration}</div>
+                  </div>
+                </div>
+
+                {hasMessages(operation) && (
+                  <div className="border-t pt-3">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleOperationClick(operation)}
+                      className="w-full"
+                    >
+                      View Details
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </Card>
+          ))}
+        </div>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+            disabled={currentPage === 1}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            Previous
+          </Button>
+          <div className="text-sm text-muted-foreground">
+            Page {currentPage} of {totalPages}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
+            disabled={currentPage === totalPages}
+          >
+            Next
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import { ColoredIcon } from '@/components/ui/colored-icon';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { defaultAnomalyDetectionConfig, anomalySampleSizeLimits, anomalyThresholdLimits } from '@/lib/default-config';
+import { anomalyMetrics, anomalyMetricLabels } from '@/lib/utils';
+import type { AnomalyDetectionConfig, AnomalyMetric } from '@/lib/types';
+import { TrendingUp } from 'lucide-react';
+
+interface AnomalyDetectionFormProps {
+  isAdmin: boolean;
+}
+
+export function AnomalyDetectionForm({ isAdmin }: AnomalyDetectionFormProps) {
+  const { toast } = useToast();
+  const [config, setConfig] = useState<AnomalyDetectionConfig>(defaultAnomalyDetectionConfig);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadConfig = useCallback(async () => {
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/configuration/anomaly-detection');
+      if (!response.ok) {
+        throw new Error('Failed to load anomaly detection configuration');
+      }
+      setConfig(await response.json() as AnomalyDetectionConfig);
+    } catch (error) {
+      console.error('Error loading anomaly detection configuration:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: 'Failed to load anomaly detection configuration',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  const saveConfig = async () => {
+    if (!isAdmin) return;
+
+    try {
+      setSaving(true);
+      const response = await authenticatedRequestWithRecovery('/api/configuration/anomaly-detection', {
+        method: 'POST',
+        body: JSON.stringify(config),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save anomaly detection configuration');
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Anomaly detection settings updated successfully',
+        duration: 2000,
+      });
+    } catch (error) {
+      console.error('Error saving anomaly detection configuration:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save anomaly detection configuration',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateThreshold = (metric: AnomalyMetric, value: string) => {
+    const threshold = parseFloat(value);
+    setConfig(prev => ({
+      ...prev,
+      thresholds: { ...prev.thresholds, [metric]: Number.isFinite(threshold) ? threshold : 0 },
+    }));
+  };
+
+  const sampleSizeValid = config.sampleSize >= anomalySampleSizeLimits.min && config.sampleSize <= anomalySampleSizeLimits.max;
+  const minSamplesValid = config.minSamples >= anomalySampleSizeLimits.min && config.minSamples <= config.sampleSize;
+  const thresholdsValid = anomalyMetrics.every(metric =>
+    config.thresholds[metric] >= anomalyThresholdLimits.min && config.thresholds[metric] <= anomalyThresholdLimits.max
+  );
+  const disabled = !isAdmin || loading || saving;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ColoredIcon icon={TrendingUp} color="orange" size="md" />
+          Anomaly Detection
+        </CardTitle>
+        <CardDescription>
+          Compare the examined files, size, uploaded size and duration of each received backup to the median of its last
+          good runs. Runs that are far from usual (e.g. a backup that suddenly uploads nothing or takes ten times longer)
+          are marked as anomalies and sent with the anomaly notification template. A threshold is the number of median
+          absolute deviations allowed, lower values flag more runs; set it to 0 to ignore a statistic.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="anomaly-detection-enabled"
+            checked={config.enabled}
+            onCheckedChange={(enabled) => setConfig(prev => ({ ...prev, enabled }))}
+            disabled={disabled}
+          />
+          <Label htmlFor="anomaly-detection-enabled">Detect anomalies on incoming backups</Label>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex flex-col">
+            <Label htmlFor="anomaly-sample-size" className="mb-2 text-sm">Baseline runs:</Label>
+            <Input
+              id="anomaly-sample-size"
+              type="number"
+              min={anomalySampleSizeLimits.min}
+              max={anomalySampleSizeLimits.max}
+              value={config.sampleSize}
+              onChange={(e) => setConfig(prev => ({ ...prev, sampleSize: parseInt(e.target.value, 10) || defaultAnomalyDetectionConfig.sampleSize }))}
+              disabled={disabled || !config.enabled}
+              className="w-24"
+            />
+          </div>
+          <div className="flex flex-col">
+            <Label htmlFor="anomaly-min-samples" className="mb-2 text-sm">Minimum runs:</Label>
+            <Input
+              id="anomaly-min-samples"
+              type="number"
+              min={anomalySampleSizeLimits.min}
+              max={config.sampleSize}
+              value={config.minSamples}
+              onChange={(e) => setConfig(prev => ({ ...prev, minSamples: parseInt(e.target.value, 10) || defaultAnomalyDetectionConfig.minSamples }))}
+              disabled={disabled || !config.enabled}
+              className="w-24"
+            />
+          </div>
+          {anomalyMetrics.map(metric => (
+            <div key={metric} className="flex flex-col">
+              <Label htmlFor={`anomaly-threshold-${metric}`} className="mb-2 text-sm">{anomalyMetricLabels[metric]}:</Label>
+              <Input
+                id={`anomaly-threshold-${metric}`}
+                type="number"
+                step={0.5}
+                min={anomalyThresholdLimits.min}
+                max={anomalyThresholdLimits.max}
+                value={config.thresholds[metric]}
+                onChange={(e) => updateThreshold(metric, e.target.value)}
+                disabled={disabled || !config.enabled}
+                className="w-24"
+              />
+            </div>
+          ))}
+          {isAdmin && (
+            <Button
+              onClick={saveConfig}
+              variant="gradient"
+              disabled={loading || saving || !sampleSizeValid || !minSamplesValid || !thresholdsValid}
+              size="sm"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Baseline: {anomalySampleSizeLimits.min}-{anomalySampleSizeLimits.max} runs, a backup is only checked once it has the minimum number of good runs.
+          Thresholds: {anomalyThresholdLimits.min}-{anomalyThresholdLimits.max}.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
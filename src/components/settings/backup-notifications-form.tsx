@@ -7,14 +7,26 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Table, TableBody, TableCell, TableHeader, TableRow } from '@/components/ui/table';
 import { SortableTableHead } from '@/components/ui/sortable-table-head';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { useToast } from '@/components/ui/use-toast';
 import { useConfiguration } from '@/contexts/configuration-context';
 import { useConfig } from '@/contexts/config-context';
-import { NotificationEvent, BackupNotificationConfig, BackupKey } from '@/lib/types';
+import { NotificationEvent, BackupNotificationConfig, BackupKey, NonBackupOperationType, OperationNotificationConfig, NotificationSeverity } from '@/lib/types';
 import { SortConfig, createSortedArray, sortFunctions } from '@/lib/sort-utils';
-import { defaultBackupNotificationConfig } from '@/lib/default-config';
+import { defaultBackupNotificationConfig, defaultOperationNotificationConfig } from '@/lib/default-config';
+import { nonBackupOperationTypes, notificationSeverityLabels } from '@/lib/utils';
 import { ServerConfigurationButton } from '../ui/server-configuration-button';
 import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { Users } from 'lucide-react';
 
 interface ServerWithBackup {
   id: string;
@@ -35,6 +47,16 @@ interface ServerWithBackupAndSettings extends ServerWithBackup {
   notificationEvent: NotificationEvent;
 }
 
+type EmailRouting = NonNullable<BackupNotificationConfig['emailRecipientGroups']>;
+
+const notificationSeverities = Object.keys(notificationSeverityLabels) as NotificationSeverity[];
+
+const notificationSeverityDescriptions: Record<NotificationSeverity, string> = {
+  success: 'Successful and recovered backups',
+  warning: 'Warnings, unknown results and anomalies',
+  error: 'Errors, failed operations and overdue backups',
+};
+
 export function BackupNotificationsForm({ backupSettings }: BackupNotificationsFormProps) {
   const { toast } = useToast();
   const { config, refreshConfigSilently } = useConfiguration();
@@ -45,10 +67,20 @@ export function BackupNotificationsForm({ backupSettings }: BackupNotificationsF
   // Select-all state
   const [allNtfySelected, setAllNtfySelected] = useState(false);
   const [allEmailSelected, setAllEmailSelected] = useState(false);
+  const [allWebhookSelected, setAllWebhookSelected] = useState(false);
+
+  // Notification rules for non-backup operations (Restore, Test, Compact, Repair, Delete)
+  const [operationNotifications, setOperationNotifications] = useState<OperationNotificationConfig>(
+    config?.operation_notifications || defaultOperationNotificationConfig
+  );
+
+  // Only notify when a backup starts failing, becomes overdue or recovers
+  const [notifyStateChangesOnly, setNotifyStateChangesOnly] = useState<boolean>(config?.notify_state_changes_only ?? false);
 
   // Configuration status checks
   const isNtfyConfigured = config?.ntfy && config.ntfy.url && config.ntfy.topic;
   const isEmailConfigured = config?.email && config.email.enabled;
+  const isWebhookConfigured = config?.webhook && config.webhook.url && config.webhook.url.trim() !== '';
   
   // Auto-save debouncing state
   const [isAutoSaving, setIsAutoSaving] = useState(false);
@@ -58,6 +90,12 @@ export function BackupNotificationsForm({ backupSettings }: BackupNotificationsF
   const [isSavingInProgress, setIsSavingInProgress] = useState(false);
   const tableScrollContainerRef = useRef<HTMLDivElement>(null);
 
+  // Email recipient groups of the backup being edited
+  const recipientGroups = config?.email_recipient_groups || [];
+  const [routingServer, setRoutingServer] = useState<ServerWithBackup | null>(null);
+  const [routingDraft, setRoutingDraft] = useState<EmailRouting>({});
+  const [routingApplyToServer, setRoutingApplyToServer] = useState(false);
+
   // Column configuration for sorting
   const columnConfig = {
     name: { type: 'text' as keyof typeof sortFunctions, path: 'name' },
@@ -74,6 +112,10 @@ export function BackupNotificationsForm({ backupSettings }: BackupNotificationsF
       if (config.backupSettings && Object.keys(config.backupSettings).length > 0) {
         setSettings(config.backupSettings);
       }
+      if (config.operation_notifications) {
+        setOperationNotifications(config.operation_notifications);
+      }
+      setNotifyStateChangesOnly(config.notify_state_changes_only ?? false);
     }
   }, [config, isSavingInProgress]);
 
@@ -147,6 +189,53 @@ export function BackupNotificationsForm({ backupSettings }: BackupNotificationsF
     return settings[backupKey] || { ...defaultBackupNotificationConfig };
   }, [settings]);
 
+  const openEmailRouting = (server: ServerWithBackup) => {
+    setRoutingDraft(getBackupSettingById(server.id, server.backupName).emailRecipientGroups || {});
+    setRoutingApplyToServer(false);
+    setRoutingServer(server);
+  };
+
+  const toggleRoutingGroup = (severity: NotificationSeverity, groupId: string, checked: boolean) => {
+    setRoutingDraft(prev => {
+      const groupIds = (prev[severity] || []).filter(id => id !== groupId);
+      return { ...prev, [severity]: checked ? [...groupIds, groupId] : groupIds };
+    });
+  };
+
+  // Save the routing of the edited backup, or of every backup of its server
+  const saveEmailRouting = () => {
+    if (!routingServer) return;
+
+    const targets = routingApplyToServer && config?.serversWithBackups
+      ? config.serversWithBackups.filter((server: ServerWithBackup) => server.id === routingServer.id)
+      : [routingServer];
+    const newSettings = { ...settings };
+    for (const server of targets) {
+      const backupKey = `${server.id}:${server.backupName}`;
+      newSettings[backupKey] = {
+        ...(newSettings[backupKey] || { ...defaultBackupNotificationConfig }),
+        emailRecipientGroups: routingDraft,
+      };
+    }
+
+    setSettings(newSettings);
+    autoSave(newSettings);
+    setRoutingServer(null);
+  };
+
+  // Names of the groups each severity is sent to, for the routing button tooltip
+  const describeEmailRouting = (backupSetting: BackupNotificationConfig): string => {
+    const routes = notificationSeverities
+      .map(severity => {
+        const names = recipientGroups
+          .filter(group => backupSetting.emailRecipientGroups?.[severity]?.includes(group.id))
+          .map(group => group.name);
+        return names.length > 0 ? `${notificationSeverityLabels[severity]}: ${names.join(', ')}` : null;
+      })
+      .filter((route): route is string => route !== null);
+    return routes.length > 0 ? `Email recipients - ${routes.join('; ')}` : 'Email recipients - default recipient';
+  };
+
   // Auto-save function with debouncing
   const autoSave = useCallback(async (newSettings: Record<BackupKey, BackupNotificationConfig>) => {
     // Clear existing timeout
@@ -220,6 +309,69 @@ export function BackupNotificationsForm({ backupSettings }: BackupNotificationsF
     }, 500); // 500ms debounce
   }, [refreshConfigSilently, refreshOverdueTolerance, toast, isAutoSaving]);
 
+  const updateOperationNotification = async (operation: NonBackupOperationType, value: NotificationEvent) => {
+    const previous = operationNotifications;
+    const updated = { ...operationNotifications, [operation]: value };
+    setOperationNotifications(updated);
+
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/configuration/operation-notifications', {
+        method: 'POST',
+        body: JSON.stringify({ operationNotifications: updated }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 403) {
+          throw new Error('You do not have permission to modify this setting. Only administrators can change configurations.');
+        }
+        const errorData = await response.json().catch(() => ({ error: 'Failed to save operation notification settings' }));
+        throw new Error(errorData.error || 'Failed to save operation notification settings');
+      }
+
+      await refreshConfigSilently();
+    } catch (error) {
+      console.error('Error saving operation notification settings:', error instanceof Error ? error.message : String(error));
+      setOperationNotifications(previous);
+      toast({
+        title: "Save Error",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+        duration: 5000,
+      });
+    }
+  };
+
+  const updateNotifyStateChangesOnly = async (enabled: boolean) => {
+    const previous = notifyStateChangesOnly;
+    setNotifyStateChangesOnly(enabled);
+
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/configuration/state-change-notifications', {
+        method: 'POST',
+        body: JSON.stringify({ notifyStateChangesOnly: enabled }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 403) {
+          throw new Error('You do not have permission to modify this setting. Only administrators can change configurations.');
+        }
+        const errorData = await response.json().catch(() => ({ error: 'Failed to save state change notification settings' }));
+        throw new Error(errorData.error || 'Failed to save state change notification settings');
+      }
+
+      await refreshConfigSilently();
+    } catch (error) {
+      console.error('Error saving state change notification settings:', error instanceof Error ? error.message : String(error));
+      setNotifyStateChangesOnly(previous);
+      toast({
+        title: "Save Error",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+        duration: 5000,
+      });
+    }
+  };
+
   const handleSort = (column: string) => {
     setSortConfig(prev => ({
       column,
@@ -260,6 +412,22 @@ export function BackupNotificationsForm({ backupSettings }: BackupNotificationsF
     autoSave(newSettings);
   };
 
+  const handleSelectAllWebhook = (checked: boolean) => {
+    const servers = getServersWithBackupAndSettings();
+    const newSettings = { ...settings };
+    
+    servers.forEach(server => {
+      const backupKey = `${server.id}:${server.backupName}`;
+      newSettings[backupKey] = {
+        ...(newSettings[backupKey] || { ...defaultBackupNotificationConfig }),
+        webhookEnabled: checked,
+      };
+    });
+    
+    setSettings(newSettings);
+    autoSave(newSettings);
+  };
+
   // Create servers with settings for sorting
   const getServersWithBackupAndSettings = (): ServerWithBackupAndSettings[] => {
     if (!config?.serversWithBackups) return [];
@@ -290,8 +458,14 @@ export function BackupNotificationsForm({ backupSettings }: BackupNotificationsF
       return setting.emailEnabled !== undefined ? setting.emailEnabled : true;
     });
     
+    const webhookStates = sortedServers.map(server => {
+      const setting = getBackupSettingById(server.id, server.backupName);
+      return setting.webhookEnabled === true;
+    });
+    
     setAllNtfySelected(ntfyStates.every(state => state));
     setAllEmailSelected(emailStates.every(state => state));
+    setAllWebhookSelected(webhookStates.every(state => state));
   }, [settings, sortedServers, getBackupSettingById]);
 
 
@@ -383,6 +557,19 @@ export function BackupNotificationsForm({ backupSettings }: BackupNotificationsF
                     </span>
                   </div>
                 </th>
+                <th className="text-center font-medium text-sm text-muted-foreground px-2 py-3 w-[80px] bg-muted">
+                  <div className="flex items-center justify-center gap-2">
+                    <Checkbox
+                      checked={allWebhookSelected}
+                      onCheckedChange={handleSelectAllWebhook}
+                      title={isWebhookConfigured ? "Select all Webhook notifications" : "Webhook not configured - notifications will not be sent"}
+                      className={!isWebhookConfigured ? "opacity-100 border-blue-600 data-[state=checked]:bg-blue-600 data-[state=checked]:text-black" : ""}
+                    />
+                    <span className={isWebhookConfigured ? "" : "text-gray-500"} title={isWebhookConfigured ? undefined : "not configured"}>
+                      Webhook Notifications{!isWebhookConfigured ? " (disabled)" : ""}
+                    </span>
+                  </div>
+                </th>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -458,14 +645,38 @@ export function BackupNotificationsForm({ backupSettings }: BackupNotificationsF
                       />
                     </TableCell>
                     
+                    <TableCell className="text-center">
+                      <div className="flex items-center justify-center gap-1">
+                        <Checkbox
+                          checked={backupSetting.emailEnabled !== undefined ? backupSetting.emailEnabled : true}
+                          onCheckedChange={(checked: boolean) => 
+                            updateBackupSettingById(server.id, server.backupName, 'emailEnabled', checked)
+                          }
+                          title={isEmailConfigured ? "Enable Email notifications" : "SMTP not configured - notifications will not be sent"}
+                          className={!isEmailConfigured ? "opacity-100 border-blue-600 data-[state=checked]:bg-blue-600 data-[state=checked]:text-black" : ""}
+                        />
+                        {recipientGroups.length > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0"
+                            onClick={() => openEmailRouting(server)}
+                            title={describeEmailRouting(backupSetting)}
+                          >
+                            <Users className={`h-4 w-4 ${notificationSeverities.some(severity => (backupSetting.emailRecipientGroups?.[severity] || []).length > 0) ? 'text-blue-600' : 'text-muted-foreground'}`} />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                    
                     <TableCell className="text-center">
                       <Checkbox
-                        checked={backupSetting.emailEnabled !== undefined ? backupSetting.emailEnabled : true}
+                        checked={backupSetting.webhookEnabled === true}
                         onCheckedChange={(checked: boolean) => 
-                          updateBackupSettingById(server.id, server.backupName, 'emailEnabled', checked)
+                          updateBackupSettingById(server.id, server.backupName, 'webhookEnabled', checked)
                         }
-                        title={isEmailConfigured ? "Enable Email notifications" : "SMTP not configured - notifications will not be sent"}
-                        className={!isEmailConfigured ? "opacity-100 border-blue-600 data-[state=checked]:bg-blue-600 data-[state=checked]:text-black" : ""}
+                        title={isWebhookConfigured ? "Enable Webhook notifications" : "Webhook not configured - notifications will not be sent"}
+                        className={!isWebhookConfigured ? "opacity-100 border-blue-600 data-[state=checked]:bg-blue-600 data-[state=checked]:text-black" : ""}
                       />
                     </TableCell>
                   </TableRow>
@@ -558,6 +769,15 @@ export function BackupNotificationsForm({ backupSettings }: BackupNotificationsF
                             />
                             <Label className={`text-xs ${!isEmailConfigured ? "text-gray-400" : "text-muted-foreground"}`}>All Email{!isEmailConfigured ? " (disabled)" : ""}</Label>
                           </div>
+                          <div className="flex items-center space-x-1">
+                            <Checkbox
+                              checked={allWebhookSelected}
+                              onCheckedChange={handleSelectAllWebhook}
+                              title={isWebhookConfigured ? "Select all Webhook notifications" : "Webhook not configured - notifications will not be sent"}
+                              className={!isWebhookConfigured ? "opacity-100 border-blue-600 data-[state=checked]:bg-blue-600 data-[state=checked]:text-black" : ""}
+                            />
+                            <Label className={`text-xs ${!isWebhookConfigured ? "text-gray-400" : "text-muted-foreground"}`}>All Webhook{!isWebhookConfigured ? " (disabled)" : ""}</Label>
+                          </div>
                         </div>
                       </div>
                       <div className="flex gap-6">
@@ -582,6 +802,28 @@ export function BackupNotificationsForm({ backupSettings }: BackupNotificationsF
                             className={!isEmailConfigured ? "opacity-100 border-blue-600 data-[state=checked]:bg-blue-600 data-[state=checked]:text-black" : ""}
                           />
                           <Label className={`text-xs ${!isEmailConfigured ? "text-gray-400" : ""}`}>Email{!isEmailConfigured ? " (disabled)" : ""}</Label>
+                          {recipientGroups.length > 0 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 w-6 p-0"
+                              onClick={() => openEmailRouting(server)}
+                              title={describeEmailRouting(backupSetting)}
+                            >
+                              <Users className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            checked={backupSetting.webhookEnabled === true}
+                            onCheckedChange={(checked: boolean) => 
+                              updateBackupSettingById(server.id, server.backupName, 'webhookEnabled', checked)
+                            }
+                            title={isWebhookConfigured ? "Enable Webhook notifications" : "Webhook not configured - notifications will not be sent"}
+                            className={!isWebhookConfigured ? "opacity-100 border-blue-600 data-[state=checked]:bg-blue-600 data-[state=checked]:text-black" : ""}
+                          />
+                          <Label className={`text-xs ${!isWebhookConfigured ? "text-gray-400" : ""}`}>Webhook{!isWebhookConfigured ? " (disabled)" : ""}</Label>
                         </div>
                       </div>
                     </div>
@@ -592,6 +834,110 @@ export function BackupNotificationsForm({ backupSettings }: BackupNotificationsF
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Other Operations</CardTitle>
+          <CardDescription>
+            Choose which results of Restore, Test, Compact, Repair and Delete operations trigger notifications.
+            They are sent through the channels enabled for the backup the operation ran on, and are muted when its notification events are set to Off.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+            {nonBackupOperationTypes.map((operation) => (
+              <div key={operation} className="space-y-1">
+                <Label htmlFor={`operation-notification-${operation}`} className="text-xs font-medium">{operation}</Label>
+                <Select
+                  value={operationNotifications[operation]}
+                  onValueChange={(value: NotificationEvent) => updateOperationNotification(operation, value)}
+                >
+                  <SelectTrigger id={`operation-notification-${operation}`} className="w-full text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="off">Off</SelectItem>
+                    <SelectItem value="all">All</SelectItem>
+                    <SelectItem value="warnings">Warnings</SelectItem>
+                    <SelectItem value="errors">Errors</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>State Changes</CardTitle>
+          <CardDescription>
+            A recovered notification is sent on the first good run of a backup after failed runs or an overdue period.
+            Limit notifications to state changes to only be notified when a backup starts failing, becomes overdue or recovers:
+            successful runs, repeated failures and overdue reminders are no longer sent.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="notify-state-changes-only"
+              checked={notifyStateChangesOnly}
+              onCheckedChange={updateNotifyStateChangesOnly}
+            />
+            <Label htmlFor="notify-state-changes-only">Only notify on state changes</Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={routingServer !== null} onOpenChange={(open) => !open && setRoutingServer(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Email Recipients</DialogTitle>
+            <DialogDescription>
+              Choose the recipient groups that receive the emails of {routingServer?.backupName} on {routingServer?.alias || routingServer?.name}.
+              Emails of a severity without a group are sent to the recipient configured in the Email settings.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {notificationSeverities.map(severity => (
+              <div key={severity} className="space-y-2">
+                <div>
+                  <Label className="text-sm font-medium">{notificationSeverityLabels[severity]}</Label>
+                  <p className="text-xs text-muted-foreground">{notificationSeverityDescriptions[severity]}</p>
+                </div>
+                <div className="flex flex-wrap gap-4">
+                  {recipientGroups.map(group => (
+                    <div key={group.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`email-routing-${severity}-${group.id}`}
+                        checked={(routingDraft[severity] || []).includes(group.id)}
+                        onCheckedChange={(checked: boolean) => toggleRoutingGroup(severity, group.id, checked)}
+                      />
+                      <Label htmlFor={`email-routing-${severity}-${group.id}`} className="text-xs" title={group.recipients.join(', ')}>
+                        {group.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <div className="flex items-center space-x-2 border-t pt-4">
+              <Checkbox
+                id="email-routing-apply-to-server"
+                checked={routingApplyToServer}
+                onCheckedChange={(checked: boolean) => setRoutingApplyToServer(checked)}
+              />
+              <Label htmlFor="email-routing-apply-to-server" className="text-sm">
+                Apply to every backup of {routingServer?.alias || routingServer?.name}
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" size="sm" onClick={() => setRoutingServer(null)}>Cancel</Button>
+            <Button variant="gradient" size="sm" onClick={saveEmailRouting}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { getNextCronRuns, isValidTimeZone, validateCronExpression } from '@/lib/cron-schedule';
+import { formatRelativeTime } from '@/lib/utils';
+
+// Number of expected runs previewed below the expressions
+const PREVIEW_RUNS = 5;
+
+interface CronScheduleEditorProps {
+  id: string;
+  cronSchedules: string[];
+  timezone: string;
+  disabled: boolean;
+  onChange: (cronSchedules: string[], timezone: string) => void;
+}
+
+// Split the textarea content into expressions, one per line
+function parseExpressionLines(value: string): string[] {
+  return value.split('\n').map(line => line.trim()).filter(line => line !== '');
+}
+
+/**
+ * Edit the cron expressions and time zone of a backup schedule, with a preview of the next expected runs
+ * Changes are only passed to onChange when every expression and the time zone are valid
+ */
+export function CronScheduleEditor({ id, cronSchedules, timezone, disabled, onChange }: CronScheduleEditorProps) {
+  const [expressionsText, setExpressionsText] = useState(cronSchedules.join('\n'));
+  const [timezoneText, setTimezoneText] = useState(timezone);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyChanges = (text: string, zone: string) => {
+    const expressions = parseExpressionLines(text);
+    if (expressions.length === 0) {
+      setError('Enter at least one cron expression');
+      return;
+    }
+    for (const expression of expressions) {
+      const validation = validateCronExpression(expression);
+      if (!validation.isValid) {
+        setError(`${expression}: ${validation.error}`);
+        return;
+      }
+    }
+    if (zone.trim() && !isValidTimeZone(zone.trim())) {
+      setError(`Unknown time zone: ${zone.trim()}`);
+      return;
+    }
+
+    setError(null);
+    onChange(expressions, zone.trim());
+  };
+
+  const nextRuns = error ? [] : getNextCronRuns(cronSchedules, new Date(), timezone || undefined, PREVIEW_RUNS);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2 items-start">
+        <Textarea
+          id={`cron-schedules-${id}`}
+          value={expressionsText}
+          onChange={(e) => setExpressionsText(e.target.value)}
+          onBlur={(e) => applyChanges(e.target.value, timezoneText)}
+          placeholder={'0 2 * * 1-5\n0 14 * * 6'}
+          rows={2}
+          disabled={disabled}
+          className={`text-xs font-mono min-h-0 flex-1 ${disabled ? 'bg-muted text-muted-foreground' : ''} ${error ? 'border-red-500' : ''}`}
+        />
+        <Input
+          id={`cron-timezone-${id}`}
+          type="text"
+          value={timezoneText}
+          onChange={(e) => setTimezoneText(e.target.value)}
+          onBlur={(e) => applyChanges(expressionsText, e.target.value)}
+          placeholder="Time zone"
+          title="IANA time zone of the expressions, e.g. Europe/Lisbon"
+          disabled={disabled}
+          className={`text-xs w-36 ${disabled ? 'bg-muted text-muted-foreground' : ''}`}
+        />
+      </div>
+      {error ? (
+        <p className="text-xs text-red-500">{error}</p>
+      ) : !disabled && (
+        <div className="text-xs text-muted-foreground">
+          {nextRuns.length === 0 ? 'These expressions never run' : (
+            <>
+              Next expected runs:{' '}
+              {nextRuns.map(run => run.toLocaleString()).join(' · ')}
+              {' '}({formatRelativeTime(nextRuns[0].toISOString())})
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
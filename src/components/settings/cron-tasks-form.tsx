@@ -0,0 +1,267 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { ColoredIcon } from '@/components/ui/colored-icon';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { cronClient } from '@/lib/cron-client';
+import { getNextCronRuns } from '@/lib/cron-schedule';
+import { cronTaskLabels } from '@/lib/utils';
+import type { TaskExecutionResult } from '@/lib/types';
+import { Play, Save, Timer } from 'lucide-react';
+
+interface CronTask {
+  taskName: string;
+  cronExpression: string;
+  enabled: boolean;
+  timezone: string;
+}
+
+interface CronTasksFormProps {
+  isAdmin: boolean;
+  canRun: boolean;
+}
+
+// Next run of a task, the local parser only understands 5-field expressions (node-cron also accepts seconds)
+function formatNextRun(task: CronTask): string {
+  if (!task.enabled) {
+    return 'Disabled';
+  }
+  try {
+    const [nextRun] = getNextCronRuns([task.cronExpression], new Date(), task.timezone || 'UTC');
+    return nextRun ? nextRun.toLocaleString() : '';
+  } catch {
+    return '';
+  }
+}
+
+export function CronTasksForm({ isAdmin, canRun }: CronTasksFormProps) {
+  const { toast } = useToast();
+  const [tasks, setTasks] = useState<CronTask[]>([]);
+  const [savedTasks, setSavedTasks] = useState<CronTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyTask, setBusyTask] = useState<string | null>(null);
+
+  const loadTasks = useCallback(async () => {
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/cron-config/tasks');
+      if (!response.ok) {
+        throw new Error('Failed to load task schedules');
+      }
+      const data = await response.json() as { tasks: CronTask[] };
+      setTasks(data.tasks);
+      setSavedTasks(data.tasks);
+    } catch (error) {
+      console.error('Error loading task schedules:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: 'Failed to load task schedules',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadTasks();
+  }, [loadTasks]);
+
+  const updateTask = (taskName: string, changes: Partial<CronTask>) => {
+    setTasks(prev => prev.map(task => task.taskName === taskName ? { ...task, ...changes } : task));
+  };
+
+  const isChanged = (task: CronTask) => {
+    const saved = savedTasks.find(candidate => candidate.taskName === task.taskName);
+    return !saved || saved.cronExpression !== task.cronExpression || saved.enabled !== task.enabled || saved.timezone !== task.timezone;
+  };
+
+  const saveTask = async (task: CronTask) => {
+    if (!isAdmin) return;
+
+    try {
+      setBusyTask(task.taskName);
+      const response = await authenticatedRequestWithRecovery('/api/cron-config/tasks', {
+        method: 'POST',
+        body: JSON.stringify(task),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save task schedule');
+      }
+      const saved = result as CronTask;
+      setTasks(prev => prev.map(candidate => candidate.taskName === saved.taskName ? saved : candidate));
+      setSavedTasks(prev => prev.map(candidate => candidate.taskName === saved.taskName ? saved : candidate));
+
+      // Try to reload the cron service configuration
+      try {
+        await cronClient.reloadConfig();
+        toast({
+          title: 'Success',
+          description: `Schedule of ${cronTaskLabels[task.taskName] || task.taskName} saved`,
+          duration: 2000,
+        });
+      } catch {
+        toast({
+          title: 'Success',
+          description: "Configuration saved successfully. Note: Cron service is not running - start it with 'npm run cron:start' to enable scheduled tasks.",
+          duration: 5000,
+        });
+      }
+    } catch (error) {
+      console.error('Error saving task schedule:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save task schedule',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyTask(null);
+    }
+  };
+
+  const runTask = async (taskName: string) => {
+    if (!canRun) return;
+
+    try {
+      setBusyTask(taskName);
+      const response = await authenticatedRequestWithRecovery(`/api/cron/trigger/${encodeURIComponent(taskName)}`, {
+        method: 'POST',
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || result.error || 'Failed to run task');
+      }
+      const execution = result as TaskExecutionResult;
+      if (!execution.success) {
+        throw new Error(execution.error || 'Task failed');
+      }
+      toast({
+        title: 'Success',
+        description: execution.message || `${cronTaskLabels[taskName] || taskName} executed`,
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error('Error running task:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to run task',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyTask(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ColoredIcon icon={Timer} color="blue" size="md" />
+          Task Schedules
+        </CardTitle>
+        <CardDescription>
+          Schedule of each background task of the cron service, as a cron expression (e.g. <code>*/10 * * * *</code>)
+          evaluated in its time zone (UTC when empty). Disabled tasks only run when started with Run now.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-4 text-muted-foreground">Loading task schedules...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Task</TableHead>
+                <TableHead>Cron Expression</TableHead>
+                <TableHead>Time Zone</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead>Next Run</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tasks.map(task => (
+                <TableRow key={task.taskName}>
+                  <TableCell>
+                    <div className="text-sm">{cronTaskLabels[task.taskName] || task.taskName}</div>
+                    <div className="text-xs text-muted-foreground">{task.taskName}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={task.cronExpression}
+                      onChange={(e) => updateTask(task.taskName, { cronExpression: e.target.value })}
+                      disabled={!isAdmin}
+                      className="w-40 font-mono text-xs"
+                      aria-label={`Cron expression of ${task.taskName}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={task.timezone}
+                      onChange={(e) => updateTask(task.taskName, { timezone: e.target.value })}
+                      disabled={!isAdmin}
+                      placeholder="UTC"
+                      className="w-40 text-xs"
+                      aria-label={`Time zone of ${task.taskName}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={task.enabled}
+                      onCheckedChange={(checked) => updateTask(task.taskName, { enabled: checked })}
+                      disabled={!isAdmin}
+                      aria-label={`Enable ${task.taskName}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{formatNextRun(task)}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      {isAdmin && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => saveTask(task)}
+                          disabled={busyTask !== null || !isChanged(task)}
+                          title="Save the schedule and reload the cron service"
+                        >
+                          <Save className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {canRun && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => runTask(task.taskName)}
+                          disabled={busyTask !== null}
+                          title="Run the task now"
+                        >
+                          <Play className={`h-4 w-4 mr-2 ${busyTask === task.taskName ? 'animate-pulse' : ''}`} />
+                          Run now
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
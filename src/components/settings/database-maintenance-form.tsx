@@ -30,6 +30,7 @@ import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
 import { Database, Loader2, Trash2, Server, FolderOpen, Clock, Info, GitMerge } from 'lucide-react';
 import { ColoredIcon } from '@/components/ui/colored-icon';
 import { Checkbox } from '@/components/ui/checkbox';
+import { DatabaseMaintenanceReportCard } from '@/components/settings/database-maintenance-report';
 
 interface Server {
   id: string;
@@ -480,6 +481,9 @@ export function DatabaseMaintenanceForm({ isAdmin }: DatabaseMaintenanceFormProp
             </div>
           )}
 
+          {/* Scheduled Maintenance Report */}
+          {isAdmin && <DatabaseMaintenanceReportCard />}
+
           {/* 2-Column Layout for Database Cleanup and Delete Backup Job */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Database Cleanup Period Section */}
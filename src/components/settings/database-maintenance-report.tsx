@@ -0,0 +1,163 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import { ColoredIcon } from '@/components/ui/colored-icon';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { formatBytes, formatRelativeTime } from '@/lib/utils';
+import type { DatabaseMaintenanceReport, DatabaseSize, TaskExecutionResult } from '@/lib/types';
+import { Loader2, Play, ShieldCheck } from 'lucide-react';
+
+interface MaintenanceStatus {
+  report: DatabaseMaintenanceReport | null;
+  size: DatabaseSize;
+  schedule: { cronExpression: string; enabled: boolean; timezone: string } | null;
+}
+
+const vacuumLabels: Record<DatabaseMaintenanceReport['vacuum'], string> = {
+  incremental: 'Incremental (free pages released)',
+  full: 'Full (database rebuilt in incremental mode)',
+  skipped: 'Skipped',
+};
+
+function formatSize(size: DatabaseSize): string {
+  return `${formatBytes(size.databaseBytes + size.walBytes)} (WAL ${formatBytes(size.walBytes)}, ${formatBytes(size.freeBytes)} free)`;
+}
+
+// Last run of the scheduled database maintenance, run by the cron service
+export function DatabaseMaintenanceReportCard() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<MaintenanceStatus | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/database-maintenance');
+      if (!response.ok) {
+        throw new Error('Failed to load the database maintenance report');
+      }
+      setStatus(await response.json() as MaintenanceStatus);
+    } catch (error) {
+      console.error('Error loading database maintenance report:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: 'Failed to load the database maintenance report',
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const runMaintenance = async () => {
+    try {
+      setRunning(true);
+      const response = await authenticatedRequestWithRecovery('/api/cron/trigger/database-maintenance', {
+        method: 'POST',
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || result.error || 'Failed to run the database maintenance');
+      }
+      const execution = result as TaskExecutionResult;
+      if (!execution.success) {
+        throw new Error(execution.error || 'Database maintenance failed');
+      }
+      toast({
+        title: 'Success',
+        description: execution.message || 'Database maintenance completed',
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error('Error running database maintenance:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to run the database maintenance',
+        variant: 'destructive',
+      });
+    } finally {
+      setRunning(false);
+      await loadStatus();
+    }
+  };
+
+  const report = status?.report;
+  const schedule = status?.schedule;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ColoredIcon icon={ShieldCheck} color="green" size="sm" />
+          Scheduled Maintenance
+        </CardTitle>
+        <CardDescription>
+          The cron service checks the integrity of the database, refreshes its statistics (ANALYZE), releases the free
+          pages (vacuum) and truncates the WAL file. A failed or unfinished integrity check is sent on the notification channels. The
+          schedule can be changed in Task Schedules.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!status ? (
+          <div className="text-center py-4 text-muted-foreground">Loading maintenance report...</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+              <div>
+                <span className="text-muted-foreground">Schedule: </span>
+                {schedule?.enabled
+                  ? <span className="font-mono">{schedule.cronExpression} ({schedule.timezone || 'UTC'})</span>
+                  : 'Disabled'}
+              </div>
+              <div>
+                <span className="text-muted-foreground">Current size: </span>
+                {formatSize(status.size)}
+              </div>
+            </div>
+
+            {!report ? (
+              <div className="text-sm text-muted-foreground">The maintenance has not run yet.</div>
+            ) : (
+              <div className="rounded-md border p-4 space-y-2 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">Last run {formatRelativeTime(report.startedAt)}</span>
+                  <span className="text-muted-foreground">({new Date(report.startedAt).toLocaleString()}, {(report.durationMs / 1000).toFixed(1)}s)</span>
+                  {report.integrityOk
+                    ? <Badge className="bg-green-500/20 text-green-600 dark:text-green-400">Integrity OK</Badge>
+                    : <Badge className="bg-red-500/20 text-red-600 dark:text-red-400">Integrity check failed</Badge>}
+                </div>
+                {report.integrityErrors.length > 0 && (
+                  <ul className="list-disc pl-5 text-red-600 dark:text-red-400 font-mono text-xs">
+                    {report.integrityErrors.map((integrityError, index) => <li key={index}>{integrityError}</li>)}
+                  </ul>
+                )}
+                <div><span className="text-muted-foreground">ANALYZE: </span>{report.analyzed ? 'Done' : 'Skipped'}</div>
+                <div><span className="text-muted-foreground">Vacuum: </span>{vacuumLabels[report.vacuum]}</div>
+                <div>
+                  <span className="text-muted-foreground">WAL checkpoint: </span>
+                  {report.checkpoint ? `${report.checkpoint.checkpointed} of ${report.checkpoint.log} pages${report.checkpoint.busy ? ' (busy)' : ''}` : 'Not run'}
+                </div>
+                <div><span className="text-muted-foreground">Size before: </span>{formatSize(report.sizeBefore)}</div>
+                <div><span className="text-muted-foreground">Size after: </span>{formatSize(report.sizeAfter)}</div>
+                {report.error && (
+                  <div className="text-red-600 dark:text-red-400">Error: {report.error}</div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        <Button variant="outline" onClick={runMaintenance} disabled={running}>
+          {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+          Run Maintenance Now
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
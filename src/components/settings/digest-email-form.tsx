@@ -0,0 +1,290 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { ColoredIcon } from '@/components/ui/colored-icon';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { cronClient } from '@/lib/cron-client';
+import { defaultDigestConfig } from '@/lib/default-config';
+import { isValidEmailRecipient, parseEmailRecipients, weekdayNames } from '@/lib/utils';
+import type { DigestConfig, DigestEmail, DigestFrequency } from '@/lib/types';
+import { Newspaper, Eye } from 'lucide-react';
+
+interface DigestEmailFormProps {
+  isAdmin: boolean;
+}
+
+interface DigestConfigResponse extends DigestConfig {
+  schedule: string;
+}
+
+const hours = Array.from({ length: 24 }, (_, hour) => hour);
+
+export function DigestEmailForm({ isAdmin }: DigestEmailFormProps) {
+  const { toast } = useToast();
+  const [config, setConfig] = useState<DigestConfig>(defaultDigestConfig);
+  const [recipients, setRecipients] = useState('');
+  const [schedule, setSchedule] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [preview, setPreview] = useState<DigestEmail | null>(null);
+
+  const loadConfig = useCallback(async () => {
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/configuration/digest');
+      if (!response.ok) {
+        throw new Error('Failed to load digest configuration');
+      }
+      const data = await response.json() as DigestConfigResponse;
+      setConfig({
+        enabled: data.enabled,
+        frequency: data.frequency,
+        hour: data.hour,
+        weekday: data.weekday,
+        recipients: data.recipients,
+      });
+      setRecipients(data.recipients.join('\n'));
+      setSchedule(data.schedule);
+    } catch (error) {
+      console.error('Error loading digest configuration:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: 'Failed to load digest configuration',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  const saveConfig = async () => {
+    if (!isAdmin) return;
+
+    try {
+      setSaving(true);
+      const response = await authenticatedRequestWithRecovery('/api/configuration/digest', {
+        method: 'POST',
+        body: JSON.stringify({ ...config, recipients: parseEmailRecipients(recipients) }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save digest configuration');
+      }
+      setSchedule(result.schedule);
+
+      // Try to reload the cron service configuration
+      try {
+        await cronClient.reloadConfig();
+        toast({
+          title: 'Success',
+          description: 'Digest email settings updated successfully',
+          duration: 2000,
+        });
+      } catch (cronError) {
+        // Cron service might not be running, but the config was saved successfully
+        console.warn('Cron service not available, but configuration was saved:', cronError);
+        toast({
+          title: 'Success',
+          description: "Configuration saved successfully. Note: Cron service is not running - start it with 'npm run cron:start' to enable scheduled tasks.",
+          duration: 2000,
+        });
+      }
+    } catch (error) {
+      console.error('Error saving digest configuration:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save digest configuration',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const showPreview = async () => {
+    try {
+      setPreviewLoading(true);
+      const response = await authenticatedRequestWithRecovery(`/api/configuration/digest/preview?frequency=${config.frequency}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to build digest preview');
+      }
+      setPreview(result as DigestEmail);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to build digest preview',
+        variant: 'destructive',
+      });
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const recipientList = parseEmailRecipients(recipients);
+  const recipientsValid = recipientList.every(isValidEmailRecipient)
+    && (!config.enabled || recipientList.length > 0);
+  const disabled = !isAdmin || loading || saving;
+
+  return (
+    <>
+      <Card data-screenshot-target="settings-content-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ColoredIcon icon={Newspaper} color="blue" size="md" />
+            Digest Email
+          </CardTitle>
+          <CardDescription>
+            Send a daily or weekly summary of all backups instead of, or in addition to, the per-backup notifications:
+            totals, success rate, failed and overdue backups, storage growth and the slowest backups of the period.
+            The digest is sent with the SMTP server configured in the Email settings.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="digest-enabled"
+              checked={config.enabled}
+              onCheckedChange={(enabled) => setConfig(prev => ({ ...prev, enabled }))}
+              disabled={disabled}
+            />
+            <Label htmlFor="digest-enabled">Send the digest email</Label>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex flex-col">
+              <Label htmlFor="digest-frequency" className="mb-2 text-sm">Frequency:</Label>
+              <Select
+                value={config.frequency}
+                onValueChange={(frequency: DigestFrequency) => setConfig(prev => ({ ...prev, frequency }))}
+                disabled={disabled}
+              >
+                <SelectTrigger id="digest-frequency" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {config.frequency === 'weekly' && (
+              <div className="flex flex-col">
+                <Label htmlFor="digest-weekday" className="mb-2 text-sm">Day:</Label>
+                <Select
+                  value={String(config.weekday)}
+                  onValueChange={(value) => setConfig(prev => ({ ...prev, weekday: parseInt(value, 10) }))}
+                  disabled={disabled}
+                >
+                  <SelectTrigger id="digest-weekday" className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {weekdayNames.map((weekday, index) => (
+                      <SelectItem key={weekday} value={String(index)}>{weekday}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="flex flex-col">
+              <Label htmlFor="digest-hour" className="mb-2 text-sm">Time (UTC):</Label>
+              <Select
+                value={String(config.hour)}
+                onValueChange={(value) => setConfig(prev => ({ ...prev, hour: parseInt(value, 10) }))}
+                disabled={disabled}
+              >
+                <SelectTrigger id="digest-hour" className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {hours.map(hour => (
+                    <SelectItem key={hour} value={String(hour)}>{`${String(hour).padStart(2, '0')}:00`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="digest-recipients" className="text-sm">Recipients (one email address per line):</Label>
+            <Textarea
+              id="digest-recipients"
+              value={recipients}
+              onChange={(e) => setRecipients(e.target.value)}
+              placeholder="it-manager@example.com"
+              rows={4}
+              disabled={disabled}
+              className="max-w-md"
+            />
+            {!recipientsValid && (
+              <p className="text-xs text-red-600 dark:text-red-400">
+                {recipientList.length === 0 ? 'Add at least one recipient to send the digest.' : 'Each recipient must be a valid email address.'}
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {isAdmin && (
+              <>
+                <Button
+                  onClick={saveConfig}
+                  variant="gradient"
+                  disabled={loading || saving || !recipientsValid}
+                  size="sm"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </Button>
+                <Button variant="outline" size="sm" onClick={showPreview} disabled={loading || previewLoading}>
+                  <Eye className="h-4 w-4 mr-2" />
+                  {previewLoading ? 'Building...' : 'Preview'}
+                </Button>
+              </>
+            )}
+            {schedule && (
+              <span className="text-xs text-muted-foreground">
+                {config.enabled ? `Currently sent ${schedule}.` : 'The digest is currently not sent.'}
+              </span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={preview !== null} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="sm:max-w-[800px] max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Digest Preview</DialogTitle>
+            <DialogDescription>{preview?.subject}</DialogDescription>
+          </DialogHeader>
+          {preview && (
+            <iframe
+              title="Digest preview"
+              srcDoc={preview.html}
+              sandbox=""
+              className="w-full h-[65vh] border rounded-md bg-white"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
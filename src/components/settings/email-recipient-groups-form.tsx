@@ -0,0 +1,212 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import { ColoredIcon } from '@/components/ui/colored-icon';
+import { useConfiguration } from '@/contexts/configuration-context';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { isValidEmailRecipient, parseEmailRecipients } from '@/lib/utils';
+import type { EmailRecipientGroup } from '@/lib/types';
+import { Users, Plus, Trash2 } from 'lucide-react';
+
+interface EmailRecipientGroupsFormProps {
+  isAdmin: boolean;
+}
+
+// Group being edited, new groups get their ID when saved
+interface EditableGroup {
+  key: string;
+  id?: string;
+  name: string;
+  recipients: string;
+}
+
+function toEditableGroup(group: EmailRecipientGroup): EditableGroup {
+  return { key: group.id, id: group.id, name: group.name, recipients: group.recipients.join('\n') };
+}
+
+function getGroupError(group: EditableGroup, groups: EditableGroup[]): string | null {
+  const name = group.name.trim().toLowerCase();
+  if (name === '') {
+    return 'Enter a name for the group.';
+  }
+  if (groups.some(other => other.key !== group.key && other.name.trim().toLowerCase() === name)) {
+    return 'Another group already uses this name.';
+  }
+  const recipients = parseEmailRecipients(group.recipients);
+  if (recipients.length === 0) {
+    return 'Add at least one recipient.';
+  }
+  return recipients.every(isValidEmailRecipient) ? null : 'Each recipient must be a valid email address.';
+}
+
+export function EmailRecipientGroupsForm({ isAdmin }: EmailRecipientGroupsFormProps) {
+  const { toast } = useToast();
+  const { refreshConfigSilently } = useConfiguration();
+  const [groups, setGroups] = useState<EditableGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newGroupCount, setNewGroupCount] = useState(0);
+
+  const loadGroups = useCallback(async () => {
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/configuration/email/recipient-groups');
+      if (!response.ok) {
+        throw new Error('Failed to load email recipient groups');
+      }
+      const data = await response.json() as { groups: EmailRecipientGroup[] };
+      setGroups(data.groups.map(toEditableGroup));
+    } catch (error) {
+      console.error('Error loading email recipient groups:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: 'Failed to load email recipient groups',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  const updateGroup = (key: string, updates: Partial<EditableGroup>) => {
+    setGroups(prev => prev.map(group => group.key === key ? { ...group, ...updates } : group));
+  };
+
+  const addGroup = () => {
+    setGroups(prev => [...prev, { key: `new-${newGroupCount}`, name: '', recipients: '' }]);
+    setNewGroupCount(prev => prev + 1);
+  };
+
+  const saveGroups = async () => {
+    if (!isAdmin) return;
+
+    try {
+      setSaving(true);
+      const response = await authenticatedRequestWithRecovery('/api/configuration/email/recipient-groups', {
+        method: 'POST',
+        body: JSON.stringify({
+          groups: groups.map(group => ({ id: group.id, name: group.name, recipients: parseEmailRecipients(group.recipients) })),
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save email recipient groups');
+      }
+      setGroups((result.groups as EmailRecipientGroup[]).map(toEditableGroup));
+
+      // Backup notifications list the groups from the configuration cache
+      await refreshConfigSilently();
+      toast({
+        title: 'Success',
+        description: 'Email recipient groups saved successfully',
+        duration: 2000,
+      });
+    } catch (error) {
+      console.error('Error saving email recipient groups:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save email recipient groups',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const groupErrors = groups.map(group => getGroupError(group, groups));
+  const disabled = !isAdmin || loading || saving;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ColoredIcon icon={Users} color="blue" size="md" />
+          Recipient Groups
+        </CardTitle>
+        <CardDescription>
+          Named lists of email addresses, such as &quot;Customer A ops&quot; or &quot;Infra team&quot;. In Backup Notifications,
+          each backup can send its success, warning and error emails to different groups. Emails of backups without a
+          group are sent to the recipient email configured above.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="text-center py-4 text-muted-foreground">Loading recipient groups...</div>
+        ) : groups.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">No recipient groups configured</div>
+        ) : (
+          groups.map((group, index) => (
+            <div key={group.key} className="border rounded-md p-4 space-y-3">
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor={`recipient-group-name-${group.key}`} className="text-sm">Name:</Label>
+                  <Input
+                    id={`recipient-group-name-${group.key}`}
+                    value={group.name}
+                    onChange={(e) => updateGroup(group.key, { name: e.target.value })}
+                    placeholder="Infra team"
+                    disabled={disabled}
+                    className="max-w-md"
+                  />
+                </div>
+                {isAdmin && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setGroups(prev => prev.filter(other => other.key !== group.key))}
+                    disabled={disabled}
+                    title="Delete this group"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`recipient-group-recipients-${group.key}`} className="text-sm">Recipients (one email address per line):</Label>
+                <Textarea
+                  id={`recipient-group-recipients-${group.key}`}
+                  value={group.recipients}
+                  onChange={(e) => updateGroup(group.key, { recipients: e.target.value })}
+                  placeholder="oncall@example.com"
+                  rows={3}
+                  disabled={disabled}
+                  className="max-w-md"
+                />
+              </div>
+              {groupErrors[index] && (
+                <p className="text-xs text-red-600 dark:text-red-400">{groupErrors[index]}</p>
+              )}
+            </div>
+          ))
+        )}
+
+        {isAdmin && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={addGroup} disabled={disabled}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Group
+            </Button>
+            <Button
+              onClick={saveGroups}
+              variant="gradient"
+              disabled={disabled || groupErrors.some(error => error !== null)}
+              size="sm"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,296 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { ColoredIcon } from '@/components/ui/colored-icon';
+import { useConfiguration } from '@/contexts/configuration-context';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { defaultNotificationTemplates } from '@/lib/default-config';
+import { validateTemplate } from '@/lib/notification-template';
+import type { EmailTemplateConfig, EmailTemplates } from '@/lib/types';
+import { Mail, Eye, RotateCcw } from 'lucide-react';
+
+interface EmailTemplatesFormProps {
+  isAdmin: boolean;
+}
+
+interface EmailTemplatesResponse extends EmailTemplateConfig {
+  defaults: EmailTemplates;
+}
+
+interface EmailPreview {
+  title: string;
+  html: string;
+}
+
+const templateTypeLabels: Record<keyof EmailTemplates, string> = {
+  success: 'Success',
+  warning: 'Warning/Error',
+  overdueBackup: 'Overdue Backup',
+  recovered: 'Recovered',
+  anomaly: 'Anomaly',
+  operation: 'Other Operations',
+};
+
+const emptyTemplates: EmailTemplates = {
+  success: '',
+  warning: '',
+  overdueBackup: '',
+  operation: '',
+  recovered: '',
+  anomaly: '',
+};
+
+export function EmailTemplatesForm({ isAdmin }: EmailTemplatesFormProps) {
+  const { toast } = useToast();
+  const { config } = useConfiguration();
+  const [dashboardUrl, setDashboardUrl] = useState('');
+  const [templates, setTemplates] = useState<EmailTemplates>(emptyTemplates);
+  const [defaults, setDefaults] = useState<EmailTemplates>(emptyTemplates);
+  const [templateType, setTemplateType] = useState<keyof EmailTemplates>('success');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const [previewBackupKey, setPreviewBackupKey] = useState('');
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/configuration/email/templates');
+      if (!response.ok) {
+        throw new Error('Failed to load email templates');
+      }
+      const data = await response.json() as EmailTemplatesResponse;
+      setDashboardUrl(data.dashboardUrl);
+      setTemplates(data.templates);
+      setDefaults(data.defaults);
+    } catch (error) {
+      console.error('Error loading email templates:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: 'Failed to load email templates',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const saveTemplates = async () => {
+    if (!isAdmin) return;
+
+    try {
+      setSaving(true);
+      const response = await authenticatedRequestWithRecovery('/api/configuration/email/templates', {
+        method: 'POST',
+        body: JSON.stringify({ dashboardUrl, templates }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save email templates');
+      }
+      setDashboardUrl(result.dashboardUrl);
+      toast({
+        title: 'Success',
+        description: 'Email templates saved successfully',
+        duration: 2000,
+      });
+    } catch (error) {
+      console.error('Error saving email templates:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save email templates',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Render the selected template with the latest stored run of a backup and the saved text template
+  const renderPreview = async (backupKey: string) => {
+    const server = config?.serversWithBackups.find(candidate => `${candidate.id}:${candidate.backupName}` === backupKey);
+    setPreviewBackupKey(backupKey);
+    if (!server) return;
+
+    setPreviewLoading(true);
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/configuration/templates/preview', {
+        method: 'POST',
+        body: JSON.stringify({
+          templateType,
+          template: config?.templates?.[templateType] || defaultNotificationTemplates[templateType],
+          serverId: server.id,
+          backupName: server.backupName,
+          emailTemplate: { html: templates[templateType], dashboardUrl },
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to render email preview');
+      }
+      setPreview(result as EmailPreview);
+    } catch (error) {
+      setPreview(null);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to render email preview',
+        variant: 'destructive',
+      });
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const openPreview = () => {
+    setPreviewOpen(true);
+    setPreview(null);
+    if (previewBackupKey) {
+      renderPreview(previewBackupKey);
+    }
+  };
+
+  const validation = validateTemplate(templates[templateType]);
+  const hasInvalidTemplate = Object.values(templates).some(template => !validateTemplate(template).isValid);
+  const disabled = !isAdmin || loading || saving;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ColoredIcon icon={Mail} color="blue" size="md" />
+            HTML Email Templates
+          </CardTitle>
+          <CardDescription>
+            Body of the notification emails. The title of the template above is the subject and its message is sent as the
+            plain text version of the email. Templates use the same variables, conditions and filters as above, plus
+            {' '}<code>{'{status_color}'}</code>, <code>{'{detail_url}'}</code>, <code>{'{dashboard_url}'}</code>,
+            {' '}<code>{'{title}'}</code> and <code>{'{message}'}</code>. Leave a template empty to send the text message converted to HTML.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email-dashboard-url" className="text-sm">Dashboard URL (for the links to the detail pages):</Label>
+            <Input
+              id="email-dashboard-url"
+              value={dashboardUrl}
+              onChange={(e) => setDashboardUrl(e.target.value)}
+              placeholder="https://duplistatus.example.com"
+              disabled={disabled}
+              className="max-w-md"
+            />
+          </div>
+
+          <div className="flex flex-col">
+            <Label htmlFor="email-template-type" className="mb-2 text-sm">Template:</Label>
+            <Select value={templateType} onValueChange={(value) => setTemplateType(value as keyof EmailTemplates)}>
+              <SelectTrigger id="email-template-type" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(templateTypeLabels) as (keyof EmailTemplates)[]).map(type => (
+                  <SelectItem key={type} value={type}>{templateTypeLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Textarea
+              id="email-template-html"
+              value={templates[templateType]}
+              onChange={(e) => setTemplates(prev => ({ ...prev, [templateType]: e.target.value }))}
+              placeholder="Empty: the text message is converted to HTML"
+              className="min-h-[360px] font-mono text-xs"
+              disabled={disabled}
+            />
+            {!validation.isValid && (
+              <p className="text-xs text-red-600 dark:text-red-400">{validation.error}</p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {isAdmin && (
+              <Button
+                onClick={saveTemplates}
+                variant="gradient"
+                disabled={disabled || hasInvalidTemplate}
+                size="sm"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={openPreview} disabled={loading || !validation.isValid}>
+              <Eye className="h-4 w-4 mr-2" />
+              Preview
+            </Button>
+            {isAdmin && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setTemplates(prev => ({ ...prev, [templateType]: defaults[templateType] }))}
+                disabled={disabled}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset to Default
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={previewOpen} onOpenChange={setPreviewOpen}>
+        <DialogContent className="sm:max-w-[800px] max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Email Preview</DialogTitle>
+            <DialogDescription>
+              {preview ? `Subject: ${preview.title}` : `The ${templateTypeLabels[templateType]} email rendered with the latest stored run of a backup.`}
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={previewBackupKey} onValueChange={renderPreview}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a backup..." />
+            </SelectTrigger>
+            <SelectContent>
+              {(config?.serversWithBackups || []).map(server => (
+                <SelectItem key={`${server.id}:${server.backupName}`} value={`${server.id}:${server.backupName}`}>
+                  {`${server.alias || server.name} - ${server.backupName}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {previewLoading ? (
+            <div className="text-center py-4 text-muted-foreground">Rendering preview...</div>
+          ) : preview && (
+            <iframe
+              title="Email preview"
+              srcDoc={preview.html}
+              sandbox=""
+              className="w-full h-[60vh] border rounded-md bg-white"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,515 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import { ColoredIcon } from '@/components/ui/colored-icon';
+import { Plus, Edit, Trash2, Wrench } from 'lucide-react';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { formatRelativeTime } from '@/lib/utils';
+import type { MaintenanceRecurrence, MaintenanceWindowListItem } from '@/lib/types';
+
+interface ServerBackupOption {
+  id: string;
+  name: string;
+  alias: string;
+  backupName: string;
+}
+
+interface ServerOption {
+  id: string;
+  label: string;
+  backupNames: string[];
+}
+
+interface WindowFormData {
+  serverId: string;
+  backupName: string; // empty string applies the window to every backup of the server
+  startTime: string; // datetime-local value
+  endTime: string; // datetime-local value
+  recurrence: MaintenanceRecurrence;
+  reason: string;
+}
+
+const ALL_BACKUPS = '__all__';
+
+const recurrenceLabels: Record<MaintenanceRecurrence, string> = {
+  none: 'One-off',
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+// Convert an ISO timestamp to a datetime-local input value (browser time zone)
+function toDateTimeLocal(iso: string): string {
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// New windows start now and last two hours
+function createEmptyForm(): WindowFormData {
+  const now = new Date();
+  return {
+    serverId: '',
+    backupName: '',
+    startTime: toDateTimeLocal(now.toISOString()),
+    endTime: toDateTimeLocal(new Date(now.getTime() + 2 * 60 * 60 * 1000).toISOString()),
+    recurrence: 'none',
+    reason: '',
+  };
+}
+
+interface MaintenanceWindowsFormProps {
+  isAdmin: boolean;
+}
+
+export function MaintenanceWindowsForm({ isAdmin }: MaintenanceWindowsFormProps) {
+  const { toast } = useToast();
+  const [windows, setWindows] = useState<MaintenanceWindowListItem[]>([]);
+  const [serverBackups, setServerBackups] = useState<ServerBackupOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedWindow, setSelectedWindow] = useState<MaintenanceWindowListItem | null>(null);
+  const [formData, setFormData] = useState<WindowFormData>(createEmptyForm);
+  const [formLoading, setFormLoading] = useState(false);
+
+  // Load maintenance windows and the backups of each server - wrapped in useCallback to avoid recreating on each render
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [windowsResponse, serversResponse] = await Promise.all([
+        authenticatedRequestWithRecovery('/api/maintenance-windows'),
+        authenticatedRequestWithRecovery('/api/servers?includeBackups=true'),
+      ]);
+      if (!windowsResponse.ok || !serversResponse.ok) {
+        throw new Error('Failed to load maintenance windows');
+      }
+      const windowsData = await windowsResponse.json();
+      const serversData = await serversResponse.json();
+      setWindows(windowsData.windows || []);
+      setServerBackups(serversData || []);
+    } catch (error) {
+      console.error('Error loading maintenance windows:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: 'Failed to load maintenance windows',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  // One option per server with the names of its backups
+  const servers = useMemo(() => {
+    const serverMap = new Map<string, ServerOption>();
+    serverBackups.forEach(server => {
+      const option = serverMap.get(server.id) || { id: server.id, label: server.alias || server.name, backupNames: [] };
+      if (server.backupName && !option.backupNames.includes(server.backupName)) {
+        option.backupNames.push(server.backupName);
+      }
+      serverMap.set(server.id, option);
+    });
+    return Array.from(serverMap.values()).sort((a, b) => a.label.localeCompare(b.label));
+  }, [serverBackups]);
+
+  const serverLabel = (serverId: string) => {
+    return servers.find(s => s.id === serverId)?.label || serverId;
+  };
+
+  const selectedServerBackups = servers.find(s => s.id === formData.serverId)?.backupNames || [];
+
+  const openCreateDialog = () => {
+    setSelectedWindow(null);
+    setFormData(createEmptyForm());
+    setEditDialogOpen(true);
+  };
+
+  const openEditDialog = (maintenanceWindow: MaintenanceWindowListItem) => {
+    setSelectedWindow(maintenanceWindow);
+    setFormData({
+      serverId: maintenanceWindow.serverId,
+      backupName: maintenanceWindow.backupName || '',
+      startTime: toDateTimeLocal(maintenanceWindow.startTime),
+      endTime: toDateTimeLocal(maintenanceWindow.endTime),
+      recurrence: maintenanceWindow.recurrence,
+      reason: maintenanceWindow.reason,
+    });
+    setEditDialogOpen(true);
+  };
+
+  const openDeleteDialog = (maintenanceWindow: MaintenanceWindowListItem) => {
+    setSelectedWindow(maintenanceWindow);
+    setDeleteDialogOpen(true);
+  };
+
+  // Handle create or update maintenance window
+  const handleSave = async () => {
+    if (!formData.serverId || !formData.startTime || !formData.endTime) {
+      toast({
+        title: 'Error',
+        description: 'Server, start and end are required',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setFormLoading(true);
+    try {
+      const response = await authenticatedRequestWithRecovery(
+        selectedWindow ? `/api/maintenance-windows/${selectedWindow.id}` : '/api/maintenance-windows',
+        {
+          method: selectedWindow ? 'PATCH' : 'POST',
+          body: JSON.stringify({
+            serverId: formData.serverId,
+            backupName: formData.backupName || null,
+            startTime: new Date(formData.startTime).toISOString(),
+            endTime: new Date(formData.endTime).toISOString(),
+            recurrence: formData.recurrence,
+            reason: formData.reason,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save maintenance window');
+      }
+
+      toast({
+        title: 'Success',
+        description: selectedWindow ? 'Maintenance window updated successfully' : 'Maintenance window created successfully',
+      });
+      setEditDialogOpen(false);
+      loadData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save maintenance window',
+        variant: 'destructive',
+      });
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  // Handle delete maintenance window
+  const handleDelete = async () => {
+    if (!selectedWindow) return;
+
+    setFormLoading(true);
+    try {
+      const response = await authenticatedRequestWithRecovery(`/api/maintenance-windows/${selectedWindow.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete maintenance window');
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Maintenance window deleted successfully',
+      });
+      setDeleteDialogOpen(false);
+      setSelectedWindow(null);
+      loadData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete maintenance window',
+        variant: 'destructive',
+      });
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  const renderStatus = (maintenanceWindow: MaintenanceWindowListItem) => {
+    if (!maintenanceWindow.occurrence) {
+      return <span className="text-muted-foreground">Ended</span>;
+    }
+    if (new Date(maintenanceWindow.occurrence.start).getTime() <= Date.now()) {
+      return (
+        <span className="text-blue-500" title={new Date(maintenanceWindow.occurrence.end).toLocaleString()}>
+          Active, ends {formatRelativeTime(maintenanceWindow.occurrence.end)}
+        </span>
+      );
+    }
+    return (
+      <span title={new Date(maintenanceWindow.occurrence.start).toLocaleString()}>
+        Next {formatRelativeTime(maintenanceWindow.occurrence.start)}
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-6" data-screenshot-target="settings-content-card">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ColoredIcon icon={Wrench} color="blue" size="md" />
+            Maintenance Windows
+          </CardTitle>
+          <CardDescription>
+            Suppress the backup and overdue notifications of a server, or of one of its backups, during planned
+            maintenance. Backups are still received and checked; overdue backups are notified once the window ends.
+            Snoozed backups are listed here as one-off windows.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isAdmin && (
+            <div className="flex justify-end">
+              <Button variant="gradient" onClick={openCreateDialog}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Window
+              </Button>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading maintenance windows...</div>
+          ) : windows.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No maintenance windows defined</div>
+          ) : (
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader className="bg-muted">
+                  <TableRow className="bg-muted">
+                    <TableHead>Server</TableHead>
+                    <TableHead>Backup</TableHead>
+                    <TableHead>Schedule</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Reason</TableHead>
+                    {isAdmin && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {windows.map((maintenanceWindow) => (
+                    <TableRow key={maintenanceWindow.id}>
+                      <TableCell className="font-medium">{serverLabel(maintenanceWindow.serverId)}</TableCell>
+                      <TableCell className="text-sm">
+                        {maintenanceWindow.backupName || <span className="text-muted-foreground">All backups</span>}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div>{new Date(maintenanceWindow.startTime).toLocaleString()} - {new Date(maintenanceWindow.endTime).toLocaleString()}</div>
+                        <div className="text-xs text-muted-foreground">{recurrenceLabels[maintenanceWindow.recurrence]}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">{renderStatus(maintenanceWindow)}</TableCell>
+                      <TableCell className="text-sm">
+                        {maintenanceWindow.reason || <span className="text-muted-foreground">—</span>}
+                        {maintenanceWindow.createdBy && (
+                          <div className="text-xs text-muted-foreground">by {maintenanceWindow.createdBy}</div>
+                        )}
+                      </TableCell>
+                      {isAdmin && (
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openEditDialog(maintenanceWindow)}
+                              title="Edit maintenance window"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openDeleteDialog(maintenanceWindow)}
+                              title="Delete maintenance window"
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Maintenance Window Dialog */}
+      <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{selectedWindow ? 'Edit Maintenance Window' : 'Create Maintenance Window'}</DialogTitle>
+            <DialogDescription>
+              Notifications of the selected server or backup are not sent between the start and the end of the maintenanceWindow.
+              Recurring windows repeat every day, week or month.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="maintenance-window-server">Server</Label>
+                <Select
+                  value={formData.serverId}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, serverId: value, backupName: '' }))}
+                  disabled={formLoading}
+                >
+                  <SelectTrigger id="maintenance-window-server">
+                    <SelectValue placeholder="Select a server" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {servers.map((server) => (
+                      <SelectItem key={server.id} value={server.id}>
+                        {server.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maintenance-window-backup">Backup</Label>
+                <Select
+                  value={formData.backupName || ALL_BACKUPS}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, backupName: value === ALL_BACKUPS ? '' : value }))}
+                  disabled={formLoading || !formData.serverId}
+                >
+                  <SelectTrigger id="maintenance-window-backup">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_BACKUPS}>All backups</SelectItem>
+                    {selectedServerBackups.map((backupName) => (
+                      <SelectItem key={backupName} value={backupName}>
+                        {backupName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maintenance-window-start">Start</Label>
+                <Input
+                  id="maintenance-window-start"
+                  type="datetime-local"
+                  value={formData.startTime}
+                  onChange={(e) => setFormData(prev => ({ ...prev, startTime: e.target.value }))}
+                  disabled={formLoading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maintenance-window-end">End</Label>
+                <Input
+                  id="maintenance-window-end"
+                  type="datetime-local"
+                  value={formData.endTime}
+                  onChange={(e) => setFormData(prev => ({ ...prev, endTime: e.target.value }))}
+                  disabled={formLoading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maintenance-window-recurrence">Repeat</Label>
+                <Select
+                  value={formData.recurrence}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, recurrence: value as MaintenanceRecurrence }))}
+                  disabled={formLoading}
+                >
+                  <SelectTrigger id="maintenance-window-recurrence">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(recurrenceLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="maintenance-window-reason">Reason (Optional)</Label>
+              <Textarea
+                id="maintenance-window-reason"
+                value={formData.reason}
+                onChange={(e) => setFormData(prev => ({ ...prev, reason: e.target.value }))}
+                placeholder="e.g. NAS firmware upgrade"
+                maxLength={500}
+                disabled={formLoading}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditDialogOpen(false)} disabled={formLoading}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={formLoading || !formData.serverId}>
+              {formLoading ? 'Saving...' : selectedWindow ? 'Save Changes' : 'Create Window'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Maintenance Window Dialog */}
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Maintenance Window</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete the maintenance window of{' '}
+              <strong>{selectedWindow ? serverLabel(selectedWindow.serverId) : ''}</strong>
+              {selectedWindow?.backupName ? <> / <strong>{selectedWindow.backupName}</strong></> : null}? Notifications
+              are sent again right away.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={formLoading}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={formLoading}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {formLoading ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
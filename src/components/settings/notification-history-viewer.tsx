@@ -0,0 +1,284 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { ColoredIcon } from '@/components/ui/colored-icon';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { formatRelativeTime, notificationChannelLabels } from '@/lib/utils';
+import { notificationRetryPolicy, notificationHistoryRetentionDays } from '@/lib/default-config';
+import type { NotificationChannel, NotificationChannelDelivery, NotificationMessageStatus, NotificationOutboxMessage } from '@/lib/types';
+import { History, ChevronLeft, ChevronRight, RefreshCw, Send } from 'lucide-react';
+
+const PAGE_SIZE = 25;
+
+interface NotificationHistoryResponse {
+  messages: NotificationOutboxMessage[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+interface NotificationHistoryViewerProps {
+  canResend: boolean;
+}
+
+function getStatusBadge(message: NotificationOutboxMessage) {
+  switch (message.status) {
+    case 'sent':
+      return <Badge className="bg-green-500/20 text-green-600 dark:text-green-400">Sent</Badge>;
+    case 'dead':
+      return <Badge className="bg-red-500/20 text-red-600 dark:text-red-400">Failed</Badge>;
+    default:
+      return message.attempts > 0
+        ? <Badge className="bg-yellow-500/20 text-yellow-600 dark:text-yellow-400">Retrying</Badge>
+        : <Badge className="bg-blue-500/20 text-blue-600 dark:text-blue-400">Pending</Badge>;
+  }
+}
+
+function getChannelClassName(delivery: NotificationChannelDelivery): string {
+  switch (delivery.status) {
+    case 'sent':
+      return 'text-green-600 dark:text-green-400';
+    case 'failed':
+      return 'text-red-600 dark:text-red-400';
+    default:
+      return 'text-yellow-600 dark:text-yellow-400';
+  }
+}
+
+// Every notification stored in the delivery outbox, with the result of each channel and a manual resend
+export function NotificationHistoryViewer({ canResend }: NotificationHistoryViewerProps) {
+  const { toast } = useToast();
+  const [messages, setMessages] = useState<NotificationOutboxMessage[]>([]);
+  const [status, setStatus] = useState<NotificationMessageStatus | 'all'>('all');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (status !== 'all') {
+        params.set('status', status);
+      }
+      const response = await authenticatedRequestWithRecovery(`/api/notifications/history?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to load notification history');
+      }
+      const data = await response.json() as NotificationHistoryResponse;
+      setMessages(data.messages);
+      setTotal(data.pagination.total);
+      setTotalPages(Math.max(1, data.pagination.totalPages));
+    } catch (error) {
+      console.error('Error loading notification history:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: 'Failed to load notification history',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [page, status, toast]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleResend = async (message: NotificationOutboxMessage) => {
+    try {
+      setResendingId(message.id);
+      const response = await authenticatedRequestWithRecovery(`/api/notifications/history/${message.id}/resend`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result?.error || 'Failed to resend notification');
+      }
+
+      const resent = result.message as NotificationOutboxMessage | null;
+      toast({
+        title: resent?.status === 'sent' ? 'Notification sent' : 'Notification queued',
+        description: resent?.status === 'sent'
+          ? `"${message.title}" was sent again.`
+          : `"${message.title}" could not be sent yet, it will be retried automatically.`,
+        duration: 3000,
+      });
+      await loadHistory();
+    } catch (error) {
+      toast({
+        title: 'Resend failed',
+        description: error instanceof Error ? error.message : 'Failed to resend notification',
+        variant: 'destructive',
+        duration: 3500,
+      });
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ColoredIcon icon={History} color="blue" size="md" />
+          Notification History
+        </CardTitle>
+        <CardDescription>
+          Backup, overdue and operation notifications are stored before being sent. Channels that fail are retried with
+          an increasing delay, up to {notificationRetryPolicy.maxAttempts} attempts, before the notification is marked as
+          failed. Sent and failed notifications are kept for {notificationHistoryRetentionDays} days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="flex flex-col">
+            <Label htmlFor="notification-history-status" className="mb-2 text-sm">Status:</Label>
+            <Select
+              value={status}
+              onValueChange={(value) => {
+                setStatus(value as NotificationMessageStatus | 'all');
+                setPage(1);
+              }}
+            >
+              <SelectTrigger id="notification-history-status" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="sent">Sent</SelectItem>
+                <SelectItem value="dead">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadHistory} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {loading && messages.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Loading notification history...</div>
+        ) : messages.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No notifications found</div>
+        ) : (
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Server / Backup</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Channels</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canResend && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {messages.map(message => (
+                  <TableRow key={message.id}>
+                    <TableCell>
+                      <div className="text-sm">{new Date(message.createdAt).toLocaleString()}</div>
+                      <div className="text-xs text-muted-foreground">{formatRelativeTime(message.createdAt)}</div>
+                    </TableCell>
+                    <TableCell className="capitalize">{message.event}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{message.serverName || '—'}</div>
+                      <div className="text-xs text-muted-foreground">{message.backupName || ''}</div>
+                    </TableCell>
+                    <TableCell className="max-w-[250px] truncate" title={message.title}>{message.title}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-col gap-0.5">
+                        {(Object.entries(message.channels) as [NotificationChannel, NotificationChannelDelivery][]).map(([channel, delivery]) => (
+                          <span
+                            key={channel}
+                            className={`text-xs ${getChannelClassName(delivery)}`}
+                            title={[
+                              delivery.lastError || (delivery.sentAt ? `Sent ${new Date(delivery.sentAt).toLocaleString()}` : null),
+                              channel === 'email' && message.emailRecipients ? `To: ${message.emailRecipients.join(', ')}` : null,
+                            ].filter(line => line !== null).join('\n') || undefined}
+                          >
+                            {notificationChannelLabels[channel]}: {delivery.status} ({delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'})
+                          </span>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {getStatusBadge(message)}
+                      {message.status === 'pending' && message.nextAttemptAt && message.attempts > 0 && (
+                        <div className="text-xs text-muted-foreground mt-1">Next: {formatRelativeTime(message.nextAttemptAt)}</div>
+                      )}
+                      {message.status !== 'sent' && message.lastError && (
+                        <div className="text-xs text-red-600 dark:text-red-400 mt-1 max-w-[250px] truncate" title={message.lastError}>
+                          {message.lastError}
+                        </div>
+                      )}
+                    </TableCell>
+                    {canResend && (
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleResend(message)}
+                          disabled={resendingId !== null || (message.status === 'pending' && message.attempts === 0)}
+                          title={message.status === 'sent' ? 'Send this notification again on every channel' : 'Send this notification again on its failed channels'}
+                        >
+                          <Send className="h-4 w-4 mr-1" />
+                          {resendingId === message.id ? 'Sending...' : 'Resend'}
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">
+            {total} {total === 1 ? 'notification' : 'notifications'}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(prev => prev - 1)} disabled={loading || page <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+            <Button variant="outline" size="sm" onClick={() => setPage(prev => prev + 1)} disabled={loading || page >= totalPages}>
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,13 +8,23 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ClipboardPaste, Send, RotateCcw, CheckCircle, AlertTriangle, Clock, Type, Star, Tag, MessageSquare } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ClipboardPaste, Send, RotateCcw, CheckCircle, AlertTriangle, Clock, HeartPulse, TrendingUp, Wrench, Type, Star, Tag, MessageSquare, Eye } from 'lucide-react';
 import { ColoredIcon } from '@/components/ui/colored-icon';
 import { useToast } from '@/components/ui/use-toast';
-import { NotificationTemplate } from '@/lib/types';
+import { NotificationTemplate, NotificationTemplates } from '@/lib/types';
 import { defaultNotificationTemplates } from '@/lib/default-config';
 import { getUserLocalStorageItem, setUserLocalStorageItem } from '@/lib/user-local-storage';
 import { useCurrentUser } from '@/hooks/use-current-user';
+import { useConfiguration } from '@/contexts/configuration-context';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { validateTemplate } from '@/lib/notification-template';
 
 // Available placeholder variables for templates
 const TEMPLATE_VARIABLES = [
@@ -34,6 +44,13 @@ const TEMPLATE_VARIABLES = [
   { name: 'uploaded_size', description: 'Size of uploaded data' },
   { name: 'storage_size', description: 'Storage size used' },
   { name: 'available_versions', description: 'Number of available versions' },
+  { name: 'duration_seconds', description: 'Backup duration in seconds (use with | duration)' },
+  { name: 'file_size_bytes', description: 'Total file size in bytes (use with | size)' },
+  { name: 'uploaded_size_bytes', description: 'Size of uploaded data in bytes (use with | size)' },
+  { name: 'storage_size_bytes', description: 'Storage size used in bytes (use with | size)' },
+  { name: 'messages', description: 'Log messages, one per line (use with #each or | first:N)' },
+  { name: 'warnings', description: 'Warning messages, one per line (use with #each or | first:N)' },
+  { name: 'errors', description: 'Error messages, one per line (use with #each or | first:N)' },
 ];
 
 // Available placeholder variables for templates
@@ -51,17 +68,51 @@ const TEMPLATE_VARIABLES_OVERDUE_BACKUP = [
   { name: 'overdue_tolerance', description: 'Configured overdue tolerance (1 hour, 1 day, etc.)' },
 ];
 
+// Available placeholder variables for non-backup operation templates
+const TEMPLATE_VARIABLES_OPERATION = [
+  { name: 'operation', description: 'Operation type (Restore, Test, Compact, Repair, Delete)' },
+  { name: 'server_name', description: 'Name of the server' },
+  { name: 'server_alias', description: 'Alias of the server (server_name if not set)' },
+  { name: 'server_note', description: 'Note of the server' },
+  { name: 'server_url', description: 'URL of the Duplicati server' },
+  { name: 'backup_name', description: 'Name of the backup the operation ran on' },
+  { name: 'backup_date', description: 'Date/time of the operation' },
+  { name: 'status', description: 'Operation status (Success, Failed, etc.)' },
+  { name: 'messages_count', description: 'Number of messages' },
+  { name: 'warnings_count', description: 'Number of warnings' },
+  { name: 'errors_count', description: 'Number of errors' },
+  { name: 'duration', description: 'Operation duration' },
+  { name: 'duration_seconds', description: 'Operation duration in seconds (use with | duration)' },
+  { name: 'messages', description: 'Log messages, one per line (use with #each or | first:N)' },
+  { name: 'warnings', description: 'Warning messages, one per line (use with #each or | first:N)' },
+  { name: 'errors', description: 'Error messages, one per line (use with #each or | first:N)' },
+];
+
+// Available placeholder variables for recovered (back to normal) templates
+const TEMPLATE_VARIABLES_RECOVERED = [
+  ...TEMPLATE_VARIABLES,
+  { name: 'previous_status', description: 'Status before the recovery (Warning, Error, Fatal or Overdue)' },
+  { name: 'failed_since', description: 'Date/time of the first failed run or of the missed backup' },
+  { name: 'failed_duration', description: 'Time spent in the failing state' },
+  { name: 'failed_runs', description: 'Number of failed runs before the recovery' },
+];
+
+// Available placeholder variables for anomaly (unusual duration or size) templates
+const TEMPLATE_VARIABLES_ANOMALY = [
+  ...TEMPLATE_VARIABLES,
+  { name: 'anomalies', description: 'Unusual statistics with their usual value, one per line' },
+  { name: 'anomaly_count', description: 'Number of unusual statistics' },
+];
+
+type TemplateType = keyof NotificationTemplates;
+type TemplateTab = 'success' | 'warning' | 'overdue' | 'recovered' | 'anomaly' | 'operation';
+
+// The overdue tab edits the 'overdueBackup' template, other tabs match their template name
+const getTemplateType = (tab: TemplateTab): TemplateType => (tab === 'overdue' ? 'overdueBackup' : tab);
+
 interface NotificationTemplatesFormProps {
-  templates?: {
-    success?: NotificationTemplate;
-    warning?: NotificationTemplate;
-    overdueBackup?: NotificationTemplate;
-  };
-  onSave: (templates: {
-    success: NotificationTemplate;
-    warning: NotificationTemplate;
-    overdueBackup: NotificationTemplate;
-  }) => void;
+  templates?: Partial<NotificationTemplates>;
+  onSave: (templates: NotificationTemplates) => void;
   onSendTest?: (template: NotificationTemplate) => Promise<void>;
 }
 
@@ -80,25 +131,33 @@ const TemplateEditor = ({
   activeTab,
   createRefCallback,
 }: { 
-  templateType: 'success' | 'warning' | 'overdueBackup';
+  templateType: TemplateType;
   template: NotificationTemplate;
   title: string;
   description: string;
   selectedVariable: string;
   setSelectedVariable: (value: string) => void;
-  insertVariable: (templateType: 'success' | 'warning' | 'overdueBackup') => void;
+  insertVariable: (templateType: TemplateType) => void;
   updateTemplate: (
-    templateType: 'success' | 'warning' | 'overdueBackup',
+    templateType: TemplateType,
     field: keyof NotificationTemplate,
     value: string
   ) => void;
   fieldRefs: React.MutableRefObject<Record<string, HTMLInputElement | HTMLTextAreaElement | null>>;
   onFieldFocus: (field: keyof NotificationTemplate) => void;
-  activeTab: 'success' | 'warning' | 'overdue';
+  activeTab: TemplateTab;
   createRefCallback: (key: string) => (el: HTMLInputElement | HTMLTextAreaElement | null) => void;
 }) => {
   // Determine which variable list to use based on active tab
-  const variablesList = activeTab === 'overdue' ? TEMPLATE_VARIABLES_OVERDUE_BACKUP : TEMPLATE_VARIABLES;
+  const variablesList = activeTab === 'overdue'
+    ? TEMPLATE_VARIABLES_OVERDUE_BACKUP
+    : activeTab === 'operation' ? TEMPLATE_VARIABLES_OPERATION
+    : activeTab === 'recovered' ? TEMPLATE_VARIABLES_RECOVERED
+    : activeTab === 'anomaly' ? TEMPLATE_VARIABLES_ANOMALY : TEMPLATE_VARIABLES;
+
+  // Syntax errors are shown while typing, templates with errors cannot be saved
+  const titleValidation = validateTemplate(template.title || '');
+  const messageValidation = validateTemplate(template.message || '');
 
   return (
     <Card>
@@ -152,6 +211,9 @@ const TemplateEditor = ({
               ref={createRefCallback(`${templateType}-title`)}
               onFocus={() => onFieldFocus('title')}
             />
+            {!titleValidation.isValid && (
+              <p className="text-xs text-red-600 dark:text-red-400">{titleValidation.error}</p>
+            )}
           </div>
           
           <div className="space-y-2">
@@ -206,8 +268,13 @@ const TemplateEditor = ({
             className="min-h-[262px]"
             onFocus={() => onFieldFocus('message')}
           />
+          {!messageValidation.isValid && (
+            <p className="text-xs text-red-600 dark:text-red-400">{messageValidation.error}</p>
+          )}
           <p className="text-sm text-muted-foreground">
             Tip: to insert a variable, place your cursor where you want it, choose the variable, and click &apos;Insert&apos;.
+            Use {'{#if errors_count > 0}'}...{'{/if}'} for conditions, {'{#each errors | first:5 as line}'}...{'{/each}'} to list log lines
+            and filters such as {'{file_size_bytes | size}'} or {'{backup_date | date:"time"}'}.
           </p>
         </div>
       </CardContent>
@@ -224,15 +291,23 @@ export function NotificationTemplatesForm({ templates, onSave, onSendTest }: Not
       success: templates?.success || defaultNotificationTemplates.success,
       warning: templates?.warning || defaultNotificationTemplates.warning,
       overdueBackup: templates?.overdueBackup || defaultNotificationTemplates.overdueBackup,
+      operation: templates?.operation || defaultNotificationTemplates.operation,
+      recovered: templates?.recovered || defaultNotificationTemplates.recovered,
+      anomaly: templates?.anomaly || defaultNotificationTemplates.anomaly,
     };
   });
   const [isSaving, setIsSaving] = useState(false);
   const [isSendingTest, setIsSendingTest] = useState(false);
   const [selectedVariable, setSelectedVariable] = useState<string>('');
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const [previewBackupKey, setPreviewBackupKey] = useState('');
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [preview, setPreview] = useState<{ title: string; message: string } | null>(null);
+  const { config } = useConfiguration();
   const hasLoadedUserTabRef = useRef(false);
   
   // Initialize activeTab from localStorage or default to 'success'
-  const [activeTab, setActiveTab] = useState<'success' | 'warning' | 'overdue'>(() => {
+  const [activeTab, setActiveTab] = useState<TemplateTab>(() => {
     return 'success';
   });
 
@@ -241,7 +316,7 @@ export function NotificationTemplatesForm({ templates, onSave, onSendTest }: Not
     if (typeof window !== 'undefined' && currentUser && !hasLoadedUserTabRef.current) {
       hasLoadedUserTabRef.current = true;
       const savedTab = getUserLocalStorageItem('notification-templates-active-tab', currentUser.id);
-      if (savedTab === 'success' || savedTab === 'warning' || savedTab === 'overdue') {
+      if (savedTab === 'success' || savedTab === 'warning' || savedTab === 'overdue' || savedTab === 'recovered' || savedTab === 'anomaly' || savedTab === 'operation') {
         // eslint-disable-next-line react-hooks/set-state-in-effect
         setActiveTab(savedTab);
       }
@@ -255,6 +330,9 @@ export function NotificationTemplatesForm({ templates, onSave, onSendTest }: Not
     success: null,
     warning: null,
     overdueBackup: null,
+    operation: null,
+    recovered: null,
+    anomaly: null,
   });
 
   // Create stable ref callback functions to avoid immutability errors
@@ -268,7 +346,7 @@ export function NotificationTemplatesForm({ templates, onSave, onSendTest }: Not
 
   // Update localStorage when activeTab changes
   const handleTabChange = (value: string) => {
-    const newTab = value as 'success' | 'warning' | 'overdue';
+    const newTab = value as TemplateTab;
     setActiveTab(newTab);
     setSelectedVariable(''); // Reset selection when changing tabs
     
@@ -279,7 +357,7 @@ export function NotificationTemplatesForm({ templates, onSave, onSendTest }: Not
   };
 
   const updateTemplate = (
-    templateType: 'success' | 'warning' | 'overdueBackup',
+    templateType: TemplateType,
     field: keyof NotificationTemplate,
     value: string
   ) => {
@@ -294,11 +372,11 @@ export function NotificationTemplatesForm({ templates, onSave, onSendTest }: Not
 
   // Track focus for each field
   const handleFieldFocus = useCallback((field: keyof NotificationTemplate) => {
-    setFocusedField(prev => ({ ...prev, [activeTab === 'overdue' ? 'overdueBackup' : activeTab]: field }));
+    setFocusedField(prev => ({ ...prev, [getTemplateType(activeTab)]: field }));
   }, [activeTab]);
 
   // Insert variable into the currently focused field, fallback to message
-  const insertVariable = (templateType: 'success' | 'warning' | 'overdueBackup') => {
+  const insertVariable = (templateType: TemplateType) => {
     if (!selectedVariable) return;
     const currentFocusedField = focusedField[templateType] || 'message';
     const refKey = `${templateType}-${currentFocusedField}`;
@@ -355,7 +433,7 @@ export function NotificationTemplatesForm({ templates, onSave, onSendTest }: Not
     
     setIsSendingTest(true);
     try {
-      const templateType = activeTab === 'overdue' ? 'overdueBackup' : activeTab;
+      const templateType = getTemplateType(activeTab);
       const template = formData[templateType];
       
       // Create a test template with variables replaced by their names
@@ -385,8 +463,52 @@ export function NotificationTemplatesForm({ templates, onSave, onSendTest }: Not
     }
   };
 
+  // Render the template of the active tab with the latest stored run of the selected backup
+  const renderPreview = async (backupKey: string) => {
+    const server = config?.serversWithBackups.find(candidate => `${candidate.id}:${candidate.backupName}` === backupKey);
+    setPreviewBackupKey(backupKey);
+    if (!server) return;
+
+    setPreviewLoading(true);
+    try {
+      const templateType = getTemplateType(activeTab);
+      const response = await authenticatedRequestWithRecovery('/api/configuration/templates/preview', {
+        method: 'POST',
+        body: JSON.stringify({
+          templateType,
+          template: formData[templateType],
+          serverId: server.id,
+          backupName: server.backupName,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to render template preview');
+      }
+      setPreview(result as { title: string; message: string });
+    } catch (error) {
+      setPreview(null);
+      toast({
+        duration: 3000,
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to render template preview',
+        variant: "destructive",
+      });
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const openPreview = () => {
+    setPreviewOpen(true);
+    setPreview(null);
+    if (previewBackupKey) {
+      renderPreview(previewBackupKey);
+    }
+  };
+
   const handleResetToDefault = () => {
-    const templateType = activeTab === 'overdue' ? 'overdueBackup' : activeTab;
+    const templateType = getTemplateType(activeTab);
     const defaultTemplate = defaultNotificationTemplates[templateType];
     
     setFormData(prev => ({
@@ -401,10 +523,16 @@ export function NotificationTemplatesForm({ templates, onSave, onSendTest }: Not
     });
   };
 
+  const hasInvalidTemplate = Object.values(formData).some(
+    template => !validateTemplate(template.title || '').isValid || !validateTemplate(template.message || '').isValid
+  );
+  const activeTemplate = formData[getTemplateType(activeTab)];
+  const activeTemplateValid = validateTemplate(activeTemplate.title || '').isValid && validateTemplate(activeTemplate.message || '').isValid;
+
   return (
     <div className="space-y-6" data-screenshot-target="settings-content-card">
       <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
-        <TabsList className="grid w-full grid-cols-1 md:grid-cols-3 h-auto">
+        <TabsList className="grid w-full grid-cols-1 md:grid-cols-6 h-auto">
           <TabsTrigger value="success" className="text-xs md:text-sm py-2 px-3 flex items-center gap-2">
             <CheckCircle className="h-4 w-4" />
             Success
@@ -419,6 +547,19 @@ export function NotificationTemplatesForm({ templates, onSave, onSendTest }: Not
             <span className="hidden md:inline">Overdue Backup</span>
             <span className="md:hidden">Overdue</span>
           </TabsTrigger>
+          <TabsTrigger value="recovered" className="text-xs md:text-sm py-2 px-3 flex items-center gap-2">
+            <HeartPulse className="h-4 w-4" />
+            Recovered
+          </TabsTrigger>
+          <TabsTrigger value="anomaly" className="text-xs md:text-sm py-2 px-3 flex items-center gap-2">
+            <TrendingUp className="h-4 w-4" />
+            Anomaly
+          </TabsTrigger>
+          <TabsTrigger value="operation" className="text-xs md:text-sm py-2 px-3 flex items-center gap-2">
+            <Wrench className="h-4 w-4" />
+            <span className="hidden md:inline">Other Operations</span>
+            <span className="md:hidden">Operations</span>
+          </TabsTrigger>
         </TabsList>
         
         <TabsContent value="success" className="mt-6">
@@ -471,10 +612,61 @@ export function NotificationTemplatesForm({ templates, onSave, onSendTest }: Not
             createRefCallback={createRefCallback}
           />
         </TabsContent>
+        
+        <TabsContent value="recovered" className="mt-6">
+          <TemplateEditor
+            templateType="recovered"
+            template={formData.recovered}
+            title="Recovered Notification Template"
+            description="Template used for the first good run of a backup after failed runs or an overdue period"
+            selectedVariable={selectedVariable}
+            setSelectedVariable={setSelectedVariable}
+            insertVariable={insertVariable}
+            updateTemplate={updateTemplate}
+            fieldRefs={fieldRefs}
+            onFieldFocus={handleFieldFocus}
+            activeTab={activeTab}
+            createRefCallback={createRefCallback}
+          />
+        </TabsContent>
+        
+        <TabsContent value="anomaly" className="mt-6">
+          <TemplateEditor
+            templateType="anomaly"
+            template={formData.anomaly}
+            title="Anomaly Notification Template"
+            description="Template used when the duration or size of a backup differs from its recent runs"
+            selectedVariable={selectedVariable}
+            setSelectedVariable={setSelectedVariable}
+            insertVariable={insertVariable}
+            updateTemplate={updateTemplate}
+            fieldRefs={fieldRefs}
+            onFieldFocus={handleFieldFocus}
+            activeTab={activeTab}
+            createRefCallback={createRefCallback}
+          />
+        </TabsContent>
+        
+        <TabsContent value="operation" className="mt-6">
+          <TemplateEditor
+            templateType="operation"
+            template={formData.operation}
+            title="Operation Notification Template"
+            description="Template used for Restore, Test, Compact, Repair and Delete operations, following the rules in Backup Notifications"
+            selectedVariable={selectedVariable}
+            setSelectedVariable={setSelectedVariable}
+            insertVariable={insertVariable}
+            updateTemplate={updateTemplate}
+            fieldRefs={fieldRefs}
+            onFieldFocus={handleFieldFocus}
+            activeTab={activeTab}
+            createRefCallback={createRefCallback}
+          />
+        </TabsContent>
       </Tabs>
 
       <div className="pt-4 flex flex-col sm:flex-row gap-2">
-        <Button onClick={handleSave} disabled={isSaving} variant="gradient" className="w-full sm:w-auto">
+        <Button onClick={handleSave} disabled={isSaving || hasInvalidTemplate} variant="gradient" className="w-full sm:w-auto">
           {isSaving ? "Saving..." : "Save Template Settings"}
         </Button>
         {onSendTest && (
@@ -489,6 +681,15 @@ export function NotificationTemplatesForm({ templates, onSave, onSendTest }: Not
             <span className="sm:hidden">{isSendingTest ? "Sending..." : "Send Test"}</span>
           </Button>
         )}
+        <Button
+          onClick={openPreview}
+          disabled={!activeTemplateValid}
+          variant="outline"
+          className="flex items-center gap-2 w-full sm:w-auto"
+        >
+          <Eye className="h-4 w-4" />
+          Preview
+        </Button>
         <Button 
           onClick={handleResetToDefault} 
           variant="outline"
@@ -499,6 +700,38 @@ export function NotificationTemplatesForm({ templates, onSave, onSendTest }: Not
           <span className="sm:hidden">Reset</span>
         </Button>
       </div>
+
+      <Dialog open={previewOpen} onOpenChange={setPreviewOpen}>
+        <DialogContent className="sm:max-w-[700px] max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Template Preview</DialogTitle>
+            <DialogDescription>
+              The {activeTab} template rendered with the latest stored run of a backup. Values the run does not have,
+              such as the overdue times or the failing period, use sample values.
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={previewBackupKey} onValueChange={renderPreview}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a backup..." />
+            </SelectTrigger>
+            <SelectContent>
+              {(config?.serversWithBackups || []).map(server => (
+                <SelectItem key={`${server.id}:${server.backupName}`} value={`${server.id}:${server.backupName}`}>
+                  {`${server.alias || server.name} - ${server.backupName}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {previewLoading ? (
+            <div className="text-center py-4 text-muted-foreground">Rendering preview...</div>
+          ) : preview && (
+            <div className="border rounded-md p-4 space-y-2 overflow-y-auto">
+              <div className="font-semibold">{preview.title}</div>
+              <pre className="whitespace-pre-wrap break-words text-sm font-sans">{preview.message}</pre>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 } 
\ No newline at end of file
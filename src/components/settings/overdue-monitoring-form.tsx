@@ -11,16 +11,18 @@ import { Table, TableBody, TableCell, TableHeader, TableRow } from '@/components
 import { SortableTableHead } from '@/components/ui/sortable-table-head';
 import { useToast } from '@/components/ui/use-toast';
 import { useConfiguration, type ServerWithBackup } from '@/contexts/configuration-context';
-import { BackupNotificationConfig, BackupKey, CronInterval, NotificationFrequencyConfig, OverdueTolerance } from '@/lib/types';
+import { BackupNotificationConfig, BackupKey, BackupScheduleMode, CronInterval, NotificationFrequencyConfig, OverdueTolerance } from '@/lib/types';
 import { SortConfig, createSortedArray, sortFunctions } from '@/lib/sort-utils';
 import { cronClient } from '@/lib/cron-client';
-import { cronIntervalMap } from '@/lib/cron-interval-map';
+import { cronIntervalMap, findCronInterval } from '@/lib/cron-interval-map';
+import { getNextCronRun } from '@/lib/cron-schedule';
 import { defaultBackupNotificationConfig, defaultNotificationFrequencyConfig, defaultOverdueTolerance, defaultCronInterval } from '@/lib/default-config';
 import { RefreshCw, TimerReset } from "lucide-react";
 import { ServerConfigurationButton } from '../ui/server-configuration-button';
 import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
 import { BackupCollectMenu } from '../backup-collect-menu';
 import { CollectAllButton } from '../ui/collect-all-button';
+import { CronScheduleEditor } from './cron-schedule-editor';
 import Link from 'next/link';
 import { 
   getIntervalDisplay, 
@@ -44,6 +46,7 @@ interface OverdueMonitoringFormProps {
 // Extended server interface for sorting
 interface ServerWithBackupAndSettings extends ServerWithBackup {
   overdueBackupCheckEnabled: boolean;
+  scheduleMode: BackupScheduleMode;
   expectedInterval: string;
   displayInterval: number;
   displayUnit: IntervalUnit;
@@ -62,7 +65,7 @@ export function OverdueMonitoringForm({ backupSettings }: OverdueMonitoringFormP
   const [inputValues, setInputValues] = useState<Record<string, string>>({});
   const [selectedUnits, setSelectedUnits] = useState<Record<string, IntervalUnit>>({});
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
-  const [cronInterval, setCronIntervalState] = useState<CronInterval>(defaultCronInterval);
+  const [cronInterval, setCronIntervalState] = useState<CronInterval | ''>(defaultCronInterval); // '' for a custom cron expression
   const [notificationFrequency, setNotificationFrequency] = useState<NotificationFrequencyConfig>(defaultNotificationFrequencyConfig);
   const [notificationFrequencyLoading, setNotificationFrequencyLoading] = useState(false);
   const [notificationFrequencyError, setNotificationFrequencyError] = useState<string | null>(null);
@@ -102,6 +105,7 @@ export function OverdueMonitoringForm({ backupSettings }: OverdueMonitoringFormP
     name: { type: 'text' as keyof typeof sortFunctions, path: 'name' },
     backupName: { type: 'text' as keyof typeof sortFunctions, path: 'backupName' },
     overdueBackupCheckEnabled: { type: 'text' as keyof typeof sortFunctions, path: 'overdueBackupCheckEnabled' },
+    scheduleMode: { type: 'text' as keyof typeof sortFunctions, path: 'scheduleMode' },
     displayInterval: { type: 'number' as keyof typeof sortFunctions, path: 'displayInterval' },
     displayUnit: { type: 'text' as keyof typeof sortFunctions, path: 'displayUnit' },
     nextRunDate: { type: 'text' as keyof typeof sortFunctions, path: 'nextRunDate' },
@@ -125,10 +129,7 @@ export function OverdueMonitoringForm({ backupSettings }: OverdueMonitoringFormP
       
       // Initialize cron interval from config
       if (config.cronConfig) {
-        const entry = Object.entries(cronIntervalMap).find(([, value]) => 
-          value.expression === config.cronConfig.cronExpression && value.enabled === config.cronConfig.enabled
-        );
-        setCronIntervalState(entry ? entry[0] as CronInterval : defaultCronInterval);
+        setCronIntervalState(findCronInterval(config.cronConfig.cronExpression, config.cronConfig.enabled) ?? '');
       }
     }
   }, [config, isSavingInProgress]);
@@ -206,17 +207,21 @@ export function OverdueMonitoringForm({ backupSettings }: OverdueMonitoringFormP
     };
   }, [config?.serversWithBackups, sortConfig]);
 
-  const updateBackupSettingById = (serverId: string, backupName: string, field: keyof BackupNotificationConfig, value: string | number | boolean | number[]) => {
+  const updateBackupSettingsById = (serverId: string, backupName: string, changes: Partial<BackupNotificationConfig>) => {
     const backupKey = `${serverId}:${backupName}`;
     setSettings(prev => ({
       ...prev,
       [backupKey]: {
         ...(prev[backupKey] || { ...defaultBackupNotificationConfig }),
-        [field]: value,
+        ...changes,
       },
     }));
   };
 
+  const updateBackupSettingById = (serverId: string, backupName: string, field: keyof BackupNotificationConfig, value: string | number | boolean | number[]) => {
+    updateBackupSettingsById(serverId, backupName, { [field]: value });
+  };
+
   const getBackupSettingById = (serverId: string, backupName: string): BackupNotificationConfig => {
     const backupKey = `${serverId}:${backupName}`;
     return settings[backupKey] || { ...defaultBackupNotificationConfig };
@@ -380,6 +385,35 @@ export function OverdueMonitoringForm({ backupSettings }: OverdueMonitoringFormP
     }));
   };
 
+  const handleScheduleModeChangeById = (serverId: string, backupName: string, scheduleMode: BackupScheduleMode) => {
+    const backupSetting = getBackupSettingById(serverId, backupName);
+    if (scheduleMode !== 'cron' || (backupSetting.cronSchedules && backupSetting.cronSchedules.length > 0)) {
+      updateBackupSettingsById(serverId, backupName, { scheduleMode });
+      return;
+    }
+
+    // Start from the time of day and allowed days of the interval schedule, in the browser time zone
+    const baseTime = backupSetting.time ? new Date(backupSetting.time) : null;
+    const hasBaseTime = baseTime !== null && !isNaN(baseTime.getTime());
+    const allowedWeekDays = backupSetting.allowedWeekDays || getDefaultAllowedWeekDays();
+    const weekDays = allowedWeekDays.length === 7 || allowedWeekDays.length === 0 ? '*' : [...allowedWeekDays].sort().join(',');
+    updateBackupSettingsById(serverId, backupName, {
+      scheduleMode,
+      cronSchedules: [`${hasBaseTime ? baseTime.getMinutes() : 0} ${hasBaseTime ? baseTime.getHours() : 0} * * ${weekDays}`],
+      scheduleTimezone: backupSetting.scheduleTimezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+  };
+
+  // Next run of a cron schedule from now, 'N/A' if the expressions are invalid or never run
+  const getNextCronRunDate = (backupSetting: BackupNotificationConfig): string => {
+    try {
+      const nextRun = getNextCronRun(backupSetting.cronSchedules || [], new Date(), backupSetting.scheduleTimezone);
+      return nextRun ? nextRun.toISOString() : 'N/A';
+    } catch {
+      return 'N/A';
+    }
+  };
+
   // Create servers with settings for sorting
   const getServersWithBackupAndSettings = (): ServerWithBackupAndSettings[] => {
     if (!config?.serversWithBackups) return [];
@@ -393,12 +427,15 @@ export function OverdueMonitoringForm({ backupSettings }: OverdueMonitoringFormP
       const displayUnit = selectedUnits[inputKey] || display.unit;
       const isCustomInterval = displayUnit === 'custom' || display.isCustom;
       
-      // Use the backup settings time field
-      const nextRunDate = backupSetting.time || 'N/A';
+      // Use the backup settings time field, cron schedules show their next run
+      const nextRunDate = backupSetting.scheduleMode === 'cron'
+        ? getNextCronRunDate(backupSetting)
+        : backupSetting.time || 'N/A';
       
       return {
         ...server,
         overdueBackupCheckEnabled: backupSetting.overdueBackupCheckEnabled,
+        scheduleMode: backupSetting.scheduleMode || 'interval',
         expectedInterval: backupSetting.expectedInterval,
         displayInterval: display.isCustom ? 0 : display.value,
         displayUnit: displayUnit,
@@ -523,7 +560,7 @@ export function OverdueMonitoringForm({ backupSettings }: OverdueMonitoringFormP
       console.error('Error saving settings:', error instanceof Error ? error.message : String(error));
       toast({
         title: "Error",
-        description: "Failed to save overdue monitoring settings",
+        description: error instanceof Error ? error.message : "Failed to save overdue monitoring settings",
         variant: "destructive",
         duration: 3000,
       });
@@ -780,6 +817,14 @@ export function OverdueMonitoringForm({ backupSettings }: OverdueMonitoringFormP
                 >
                   Overdue Backup Monitoring
                 </SortableTableHead>
+                <SortableTableHead 
+                  className="w-[100px] min-w-[90px]" 
+                  column="scheduleMode" 
+                  sortConfig={sortConfig} 
+                  onSort={handleSort}
+                >
+                  Schedule
+                </SortableTableHead>
                 <SortableTableHead 
                   className="w-[120px] min-w-[100px]" 
                   column="displayInterval" 
@@ -899,6 +944,37 @@ export function OverdueMonitoringForm({ backupSettings }: OverdueMonitoringFormP
                         </Label>
                       </div>
                     </TableCell>
+                    {/* Schedule - Table */}
+                    <TableCell>
+                      <Select
+                        value={server.scheduleMode}
+                        onValueChange={(value: BackupScheduleMode) => handleScheduleModeChangeById(server.id, server.backupName, value)}
+                        disabled={!backupSetting.overdueBackupCheckEnabled}
+                      >
+                        <SelectTrigger className={`w-full text-xs ${!backupSetting.overdueBackupCheckEnabled ? 'bg-muted text-muted-foreground' : ''}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="interval">Interval</SelectItem>
+                          <SelectItem value="cron">Cron</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    {server.scheduleMode === 'cron' ? (
+                    /* Cron Schedules - Table */
+                    <TableCell colSpan={3}>
+                      <CronScheduleEditor
+                        id={inputKey}
+                        cronSchedules={backupSetting.cronSchedules || []}
+                        timezone={backupSetting.scheduleTimezone || ''}
+                        disabled={!backupSetting.overdueBackupCheckEnabled}
+                        onChange={(cronSchedules, scheduleTimezone) =>
+                          updateBackupSettingsById(server.id, server.backupName, { cronSchedules, scheduleTimezone })
+                        }
+                      />
+                    </TableCell>
+                    ) : (
+                    <>
                     {/* Expected Backup Interval - Table */}
                     <TableCell>
                       <div className="space-y-1">
@@ -958,6 +1034,8 @@ export function OverdueMonitoringForm({ backupSettings }: OverdueMonitoringFormP
                         ))}
                       </div>
                     </TableCell>
+                    </>
+                    )}
                   </TableRow>
                 );
               })}
@@ -1053,6 +1131,40 @@ export function OverdueMonitoringForm({ backupSettings }: OverdueMonitoringFormP
                       </div>
                     </div>
                     
+                    {/* Schedule - Card */}
+                    <div className="space-y-1">
+                      <Label className="text-xs font-medium">Schedule</Label>
+                      <Select
+                        value={server.scheduleMode}
+                        onValueChange={(value: BackupScheduleMode) => handleScheduleModeChangeById(server.id, server.backupName, value)}
+                        disabled={!backupSetting.overdueBackupCheckEnabled}
+                      >
+                        <SelectTrigger className={`w-full text-xs ${!backupSetting.overdueBackupCheckEnabled ? 'bg-muted text-muted-foreground' : ''}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="interval">Interval</SelectItem>
+                          <SelectItem value="cron">Cron</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    {server.scheduleMode === 'cron' ? (
+                    /* Cron Schedules - Card */
+                    <div className="space-y-1">
+                      <Label className="text-xs font-medium">Cron Expressions and Time Zone</Label>
+                      <CronScheduleEditor
+                        id={`mobile-${inputKey}`}
+                        cronSchedules={backupSetting.cronSchedules || []}
+                        timezone={backupSetting.scheduleTimezone || ''}
+                        disabled={!backupSetting.overdueBackupCheckEnabled}
+                        onChange={(cronSchedules, scheduleTimezone) =>
+                          updateBackupSettingsById(server.id, server.backupName, { cronSchedules, scheduleTimezone })
+                        }
+                      />
+                    </div>
+                    ) : (
+                    <>
                     {/* Expected Backup Interval - Card */}
                     <div className="space-y-1">
                       <Label className="text-xs font-medium">Expected Backup Interval</Label>
@@ -1112,6 +1224,8 @@ export function OverdueMonitoringForm({ backupSettings }: OverdueMonitoringFormP
                         ))}
                       </div>
                     </div>
+                    </>
+                    )}
                   </div>
                 </Card>
               );
@@ -1223,7 +1337,7 @@ export function OverdueMonitoringForm({ backupSettings }: OverdueMonitoringFormP
                   onValueChange={(value: CronInterval) => handleCronIntervalChange(value)}
                 >
                   <SelectTrigger id="cron-interval" className="w-full">
-                    <SelectValue />
+                    <SelectValue placeholder="Custom schedule" />
                   </SelectTrigger>
                   <SelectContent>
                     {Object.entries(cronIntervalMap).map(([value, config]) => (
@@ -0,0 +1,215 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { ColoredIcon, StatusIndicator } from '@/components/ui/colored-icon';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { cronClient } from '@/lib/cron-client';
+import { cronIntervalMap } from '@/lib/cron-interval-map';
+import { defaultBackupCollectionConcurrency, backupCollectionConcurrencyLimits } from '@/lib/default-config';
+import { formatRelativeTime } from '@/lib/utils';
+import type { BackupCollectionServerStatus, BackupCollectionSettings, CronInterval } from '@/lib/types';
+import { Download } from 'lucide-react';
+
+interface ScheduledCollectionFormProps {
+  isAdmin: boolean;
+}
+
+interface BackupCollectionConfig extends BackupCollectionSettings {
+  status: Record<string, BackupCollectionServerStatus>;
+}
+
+export function ScheduledCollectionForm({ isAdmin }: ScheduledCollectionFormProps) {
+  const { toast } = useToast();
+  const [collectionInterval, setCollectionInterval] = useState<CronInterval>('disabled');
+  const [concurrency, setConcurrency] = useState<number>(defaultBackupCollectionConcurrency);
+  const [status, setStatus] = useState<Record<string, BackupCollectionServerStatus>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadConfig = useCallback(async () => {
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/configuration/backup-collection');
+      if (!response.ok) {
+        throw new Error('Failed to load scheduled collection configuration');
+      }
+      const data = await response.json() as BackupCollectionConfig;
+      setCollectionInterval(data.interval);
+      setConcurrency(data.concurrency);
+      setStatus(data.status);
+    } catch (error) {
+      console.error('Error loading scheduled collection configuration:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: 'Failed to load scheduled collection configuration',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  const saveConfig = async () => {
+    if (!isAdmin) return;
+
+    try {
+      setSaving(true);
+      const response = await authenticatedRequestWithRecovery('/api/configuration/backup-collection', {
+        method: 'POST',
+        body: JSON.stringify({ interval: collectionInterval, concurrency }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save scheduled collection configuration');
+      }
+
+      // Try to reload the cron service configuration
+      try {
+        await cronClient.reloadConfig();
+        toast({
+          title: 'Success',
+          description: 'Scheduled collection settings updated successfully',
+          duration: 2000,
+        });
+      } catch (cronError) {
+        // Cron service might not be running, but the config was saved successfully
+        console.warn('Cron service not available, but configuration was saved:', cronError);
+        toast({
+          title: 'Success',
+          description: "Configuration saved successfully. Note: Cron service is not running - start it with 'npm run cron:start' to enable scheduled tasks.",
+          duration: 2000,
+        });
+      }
+    } catch (error) {
+      console.error('Error saving scheduled collection configuration:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save scheduled collection configuration',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const concurrencyValid = concurrency >= backupCollectionConcurrencyLimits.min && concurrency <= backupCollectionConcurrencyLimits.max;
+  const serverStatuses = Object.entries(status).sort(([, a], [, b]) => a.serverName.localeCompare(b.serverName));
+
+  return (
+    <div className="space-y-6" data-screenshot-target="settings-content-card">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ColoredIcon icon={Download} color="blue" size="md" />
+            Scheduled Collection
+          </CardTitle>
+          <CardDescription>
+            Periodically collect the backup logs of every server with a stored URL and password. Servers are still
+            monitored when their HTTP report option is missing or misconfigured.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex flex-col">
+              <Label htmlFor="collection-interval" className="mb-2 text-sm">Collection interval:</Label>
+              <Select
+                value={collectionInterval}
+                onValueChange={(value: CronInterval) => setCollectionInterval(value)}
+                disabled={!isAdmin || loading || saving}
+              >
+                <SelectTrigger id="collection-interval" className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(cronIntervalMap).map(([value, config]) => (
+                    <SelectItem key={value} value={value}>
+                      {config.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-col">
+              <Label htmlFor="collection-concurrency" className="mb-2 text-sm">Servers at a time:</Label>
+              <Input
+                id="collection-concurrency"
+                type="number"
+                min={backupCollectionConcurrencyLimits.min}
+                max={backupCollectionConcurrencyLimits.max}
+                value={concurrency}
+                onChange={(e) => setConcurrency(parseInt(e.target.value, 10) || defaultBackupCollectionConcurrency)}
+                disabled={!isAdmin || loading || saving}
+                className="w-24"
+              />
+            </div>
+            {isAdmin && (
+              <Button
+                onClick={saveConfig}
+                variant="gradient"
+                disabled={loading || saving || !concurrencyValid}
+                size="sm"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            )}
+            <span className="text-xs text-muted-foreground">
+              (Range: {backupCollectionConcurrencyLimits.min}-{backupCollectionConcurrencyLimits.max} servers)
+            </span>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Last collection</h3>
+            {loading ? (
+              <div className="text-center py-8 text-muted-foreground">Loading collection results...</div>
+            ) : serverStatuses.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No scheduled collection has run yet</div>
+            ) : (
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader className="bg-muted">
+                    <TableRow className="bg-muted">
+                      <TableHead>Server</TableHead>
+                      <TableHead>Last Run</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {serverStatuses.map(([serverId, serverStatus]) => (
+                      <TableRow key={serverId}>
+                        <TableCell className="font-medium">{serverStatus.serverName}</TableCell>
+                        <TableCell className="text-sm" title={new Date(serverStatus.lastRun).toLocaleString()}>
+                          {formatRelativeTime(serverStatus.lastRun)}
+                        </TableCell>
+                        <TableCell>
+                          {serverStatus.success ? (
+                            <StatusIndicator
+                              status="online"
+                              label={`${serverStatus.stats?.processed ?? 0} collected, ${serverStatus.stats?.skipped ?? 0} skipped${serverStatus.stats?.errors ? `, ${serverStatus.stats.errors} errors` : ''}`}
+                            />
+                          ) : (
+                            <StatusIndicator status="error" label={serverStatus.error || 'Collection failed'} />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,423 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import { ColoredIcon } from '@/components/ui/colored-icon';
+import { Plus, Edit, Trash2, Group } from 'lucide-react';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { userRoleLabels } from '@/lib/utils';
+import type { ServerGroup, UserRole } from '@/lib/types';
+
+interface ServerOption {
+  id: string;
+  name: string;
+  alias: string;
+}
+
+interface UserOption {
+  id: string;
+  username: string;
+  role: UserRole;
+}
+
+interface GroupFormData {
+  name: string;
+  description: string;
+  serverIds: string[];
+  userIds: string[];
+}
+
+const emptyForm: GroupFormData = { name: '', description: '', serverIds: [], userIds: [] };
+
+// Add or remove an ID from a selection list
+function toggleId(ids: string[], id: string, checked: boolean): string[] {
+  return checked ? [...ids, id] : ids.filter(existingId => existingId !== id);
+}
+
+export function ServerGroupsForm() {
+  const { toast } = useToast();
+  const [groups, setGroups] = useState<ServerGroup[]>([]);
+  const [servers, setServers] = useState<ServerOption[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedGroup, setSelectedGroup] = useState<ServerGroup | null>(null);
+  const [formData, setFormData] = useState<GroupFormData>(emptyForm);
+  const [formLoading, setFormLoading] = useState(false);
+
+  // Load groups, servers and users - wrapped in useCallback to avoid recreating on each render
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [groupsResponse, serversResponse, usersResponse] = await Promise.all([
+        authenticatedRequestWithRecovery('/api/server-groups'),
+        authenticatedRequestWithRecovery('/api/servers'),
+        authenticatedRequestWithRecovery('/api/users'),
+      ]);
+      if (!groupsResponse.ok || !serversResponse.ok || !usersResponse.ok) {
+        throw new Error('Failed to load server groups');
+      }
+      const groupsData = await groupsResponse.json();
+      const serversData = await serversResponse.json();
+      const usersData = await usersResponse.json();
+      setGroups(groupsData.groups || []);
+      setServers(serversData || []);
+      setUsers(usersData.users || []);
+    } catch (error) {
+      console.error('Error loading server groups:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: 'Failed to load server groups',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const serverLabel = (serverId: string) => {
+    const server = servers.find(s => s.id === serverId);
+    return server ? (server.alias || server.name) : serverId;
+  };
+
+  const usernameLabel = (userId: string) => {
+    return users.find(u => u.id === userId)?.username || userId;
+  };
+
+  const openCreateDialog = () => {
+    setSelectedGroup(null);
+    setFormData(emptyForm);
+    setEditDialogOpen(true);
+  };
+
+  const openEditDialog = (group: ServerGroup) => {
+    setSelectedGroup(group);
+    setFormData({
+      name: group.name,
+      description: group.description,
+      serverIds: group.serverIds,
+      userIds: group.userIds,
+    });
+    setEditDialogOpen(true);
+  };
+
+  const openDeleteDialog = (group: ServerGroup) => {
+    setSelectedGroup(group);
+    setDeleteDialogOpen(true);
+  };
+
+  // Handle create or update server group
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Name is required',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setFormLoading(true);
+    try {
+      const response = await authenticatedRequestWithRecovery(
+        selectedGroup ? `/api/server-groups/${selectedGroup.id}` : '/api/server-groups',
+        {
+          method: selectedGroup ? 'PATCH' : 'POST',
+          body: JSON.stringify(formData),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save server group');
+      }
+
+      toast({
+        title: 'Success',
+        description: selectedGroup ? 'Server group updated successfully' : 'Server group created successfully',
+      });
+      setEditDialogOpen(false);
+      loadData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save server group',
+        variant: 'destructive',
+      });
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  // Handle delete server group
+  const handleDelete = async () => {
+    if (!selectedGroup) return;
+
+    setFormLoading(true);
+    try {
+      const response = await authenticatedRequestWithRecovery(`/api/server-groups/${selectedGroup.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete server group');
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Server group deleted successfully',
+      });
+      setDeleteDialogOpen(false);
+      setSelectedGroup(null);
+      loadData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete server group',
+        variant: 'destructive',
+      });
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6" data-screenshot-target="settings-content-card">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ColoredIcon icon={Group} color="purple" size="md" />
+            Server Groups
+          </CardTitle>
+          <CardDescription>
+            Group servers by customer or team and choose which users can see them. Users in one or more groups only see
+            the servers of those groups on the dashboard, server details, charts and status APIs. Admins and users without
+            a group see every server.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex justify-end">
+            <Button variant="gradient" onClick={openCreateDialog}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Group
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading server groups...</div>
+          ) : groups.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No server groups defined</div>
+          ) : (
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader className="bg-muted">
+                  <TableRow className="bg-muted">
+                    <TableHead>Name</TableHead>
+                    <TableHead>Servers</TableHead>
+                    <TableHead>Users</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {groups.map((group) => (
+                    <TableRow key={group.id}>
+                      <TableCell>
+                        <div className="font-medium">{group.name}</div>
+                        {group.description && (
+                          <div className="text-xs text-muted-foreground">{group.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {group.serverIds.length > 0
+                          ? group.serverIds.map(serverLabel).join(', ')
+                          : <span className="text-muted-foreground">—</span>}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {group.userIds.length > 0
+                          ? group.userIds.map(usernameLabel).join(', ')
+                          : <span className="text-muted-foreground">—</span>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openEditDialog(group)}
+                            title="Edit server group"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openDeleteDialog(group)}
+                            title="Delete server group"
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Server Group Dialog */}
+      <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{selectedGroup ? 'Edit Server Group' : 'Create Server Group'}</DialogTitle>
+            <DialogDescription>
+              Select the servers of this group and the users that can see them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="server-group-name">Name</Label>
+              <Input
+                id="server-group-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Customer A"
+                disabled={formLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="server-group-description">Description (Optional)</Label>
+              <Textarea
+                id="server-group-description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                disabled={formLoading}
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Servers</Label>
+                <div className="max-h-56 overflow-y-auto rounded-md border p-2 space-y-2">
+                  {servers.length === 0 ? (
+                    <div className="text-sm text-muted-foreground">No servers</div>
+                  ) : servers.map((server) => (
+                    <div key={server.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`server-group-server-${server.id}`}
+                        checked={formData.serverIds.includes(server.id)}
+                        onCheckedChange={(checked) => setFormData(prev => ({
+                          ...prev,
+                          serverIds: toggleId(prev.serverIds, server.id, checked === true)
+                        }))}
+                        disabled={formLoading}
+                      />
+                      <Label htmlFor={`server-group-server-${server.id}`} className="cursor-pointer font-normal">
+                        {server.alias || server.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Users</Label>
+                <div className="max-h-56 overflow-y-auto rounded-md border p-2 space-y-2">
+                  {users.length === 0 ? (
+                    <div className="text-sm text-muted-foreground">No users</div>
+                  ) : users.map((user) => (
+                    <div key={user.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`server-group-user-${user.id}`}
+                        checked={formData.userIds.includes(user.id)}
+                        onCheckedChange={(checked) => setFormData(prev => ({
+                          ...prev,
+                          userIds: toggleId(prev.userIds, user.id, checked === true)
+                        }))}
+                        disabled={formLoading}
+                      />
+                      <Label htmlFor={`server-group-user-${user.id}`} className="cursor-pointer font-normal">
+                        {user.username}
+                        <span className="ml-1 text-xs text-muted-foreground">({userRoleLabels[user.role]})</span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">Admins always see every server.</p>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditDialogOpen(false)} disabled={formLoading}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={formLoading || !formData.name.trim()}>
+              {formLoading ? 'Saving...' : selectedGroup ? 'Save Changes' : 'Create Group'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Server Group Dialog */}
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Server Group</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete server group <strong>{selectedGroup?.name}</strong>? Its servers and users are
+              kept, but users that are not in another group will see every server.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={formLoading}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={formLoading}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {formLoading ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
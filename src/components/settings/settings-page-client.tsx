@@ -3,27 +3,46 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { ColoredIcon } from '@/components/ui/colored-icon';
-import { Settings, Bell, AlertTriangle, Server, MessageSquare, Mail, FileText, Users, ScrollText, Clock, PanelLeftClose, PanelLeftOpen, MonitorCog, Database } from 'lucide-react';
+import { Settings, Bell, AlertTriangle, Server, MessageSquare, Mail, FileText, Users, ScrollText, Clock, PanelLeftClose, PanelLeftOpen, MonitorCog, Database, Webhook, Group, KeyRound, Download, Wrench, History, Newspaper, Globe, BadgeCheck, CalendarClock, Timer } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
 import { useConfiguration } from '@/contexts/configuration-context';
 import { NtfyForm } from '@/components/settings/ntfy-form';
 import { BackupNotificationsForm } from '@/components/settings/backup-notifications-form';
+import { AnomalyDetectionForm } from '@/components/settings/anomaly-detection-form';
 import { OverdueMonitoringForm } from '@/components/settings/overdue-monitoring-form';
 import { NotificationTemplatesForm } from '@/components/settings/notification-templates-form';
+import { EmailTemplatesForm } from '@/components/settings/email-templates-form';
 import { ServerSettingsForm } from '@/components/settings/server-settings-form';
+import { ScheduledCollectionForm } from '@/components/settings/scheduled-collection-form';
 import { EmailConfigurationForm } from '@/components/settings/email-configuration-form';
+import { EmailRecipientGroupsForm } from '@/components/settings/email-recipient-groups-form';
+import { WebhookForm } from '@/components/settings/webhook-form';
 import { UserManagementForm } from '@/components/settings/user-management-form';
+import { ServerGroupsForm } from '@/components/settings/server-groups-form';
+import { MaintenanceWindowsForm } from '@/components/settings/maintenance-windows-form';
+import { SingleSignOnForm } from '@/components/settings/single-sign-on-form';
 import { AuditLogViewer } from '@/components/settings/audit-log-viewer';
+import { NotificationHistoryViewer } from '@/components/settings/notification-history-viewer';
+import { DigestEmailForm } from '@/components/settings/digest-email-form';
 import { AuditLogRetentionForm } from '@/components/settings/audit-log-retention-form';
 import { DisplaySettingsForm } from '@/components/settings/display-settings-form';
 import { DatabaseMaintenanceForm } from '@/components/settings/database-maintenance-form';
+import { StatusPagesForm } from '@/components/settings/status-pages-form';
+import { StatusBadgesForm } from '@/components/settings/status-badges-form';
+import { TaskHistoryViewer } from '@/components/settings/task-history-viewer';
+import { CronTasksForm } from '@/components/settings/cron-tasks-form';
 import { getUserLocalStorageItem, setUserLocalStorageItem } from '@/lib/user-local-storage';
+import { hasRequiredRole } from '@/lib/utils';
+import type { UserRole } from '@/lib/types';
 
 interface SettingsPageClientProps {
   currentUser: {
     id: string;
+    role: UserRole;
     isAdmin: boolean;
+    // False for users restricted to the servers of their server groups
+    hasAllServerAccess: boolean;
   };
 }
 
@@ -175,11 +194,16 @@ export function SettingsPageClient({ currentUser }: SettingsPageClientProps) {
   useEffect(() => {
     // Check for section parameter in URL first
     const sectionParam = searchParams.get('tab') || searchParams.get('section');
-    const validSections = ['notifications', 'overdue', 'server', 'ntfy', 'email', 'templates', 'users', 'audit', 'audit-retention', 'display', 'database-maintenance'];
-    const adminOnlySections = ['users', 'database-maintenance', 'audit-retention'];
+    const validSections = ['notifications', 'overdue', 'maintenance', 'digest', 'notification-history', 'server', 'collection', 'cron-tasks', 'task-history', 'ntfy', 'email', 'webhook', 'templates', 'users', 'server-groups', 'sso', 'audit', 'audit-retention', 'display', 'database-maintenance', 'status-pages', 'status-badges'];
+    const adminOnlySections = ['users', 'server-groups', 'sso', 'database-maintenance', 'audit-retention', 'status-pages', 'status-badges'];
+    // Sections that are not scoped per server group
+    const allServersOnlySections = ['task-history', 'audit'];
     
-    // Redirect non-admin users away from admin-only sections
-    if (sectionParam && adminOnlySections.includes(sectionParam) && !currentUser?.isAdmin) {
+    // Redirect non-admin users away from admin-only sections, and scoped users away from unscoped sections
+    if (sectionParam && (
+      (adminOnlySections.includes(sectionParam) && !currentUser?.isAdmin) ||
+      (allServersOnlySections.includes(sectionParam) && !currentUser?.hasAllServerAccess)
+    )) {
       router.replace('/settings?tab=notifications', { scroll: false });
       setActiveSection('notifications');
       if (currentUser) {
@@ -290,6 +314,11 @@ export function SettingsPageClient({ currentUser }: SettingsPageClientProps) {
     return isValidEmail(email.fromAddress);
   };
 
+  // Check if webhook configuration is valid (an endpoint URL is set)
+  const isWebhookConfigValid = () => {
+    return !!config?.webhook && config.webhook.url?.trim() !== '';
+  };
+
   // Check if NTFY configuration is valid (mirrors logic from NtfyForm)
   const isNtfyConfigValid = () => {
     if (!config?.ntfy) return false;
@@ -381,6 +410,18 @@ export function SettingsPageClient({ currentUser }: SettingsPageClientProps) {
                     <AlertTriangle className="h-4 w-4 flex-shrink-0" />
                     <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'overdue' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Overdue Monitoring</span>
                   </button>
+                  <button
+                    onClick={() => handleSectionChange('maintenance')}
+                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors min-h-[36px] ${shouldCenterItems ? 'justify-center px-2' : ''} ${
+                      activeSection === 'maintenance'
+                        ? 'bg-accent text-accent-foreground'
+                        : 'hover:bg-accent/50'
+                    }`}
+                    title={isSidebarCollapsed ? 'Maintenance Windows' : undefined}
+                  >
+                    <Wrench className="h-4 w-4 flex-shrink-0" />
+                    <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'maintenance' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Maintenance Windows</span>
+                  </button>
                   <button
                     onClick={() => handleSectionChange('templates')}
                     className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors min-h-[36px] ${shouldCenterItems ? 'justify-center px-2' : ''} ${
@@ -393,6 +434,30 @@ export function SettingsPageClient({ currentUser }: SettingsPageClientProps) {
                     <FileText className="h-4 w-4 flex-shrink-0" />
                     <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'templates' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Templates</span>
                   </button>
+                  <button
+                    onClick={() => handleSectionChange('digest')}
+                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors min-h-[36px] ${shouldCenterItems ? 'justify-center px-2' : ''} ${
+                      activeSection === 'digest'
+                        ? 'bg-accent text-accent-foreground'
+                        : 'hover:bg-accent/50'
+                    }`}
+                    title={isSidebarCollapsed ? 'Digest Email' : undefined}
+                  >
+                    <Newspaper className="h-4 w-4 flex-shrink-0" />
+                    <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'digest' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Digest Email</span>
+                  </button>
+                  <button
+                    onClick={() => handleSectionChange('notification-history')}
+                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors min-h-[36px] ${shouldCenterItems ? 'justify-center px-2' : ''} ${
+                      activeSection === 'notification-history'
+                        ? 'bg-accent text-accent-foreground'
+                        : 'hover:bg-accent/50'
+                    }`}
+                    title={isSidebarCollapsed ? 'Notification History' : undefined}
+                  >
+                    <History className="h-4 w-4 flex-shrink-0" />
+                    <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'notification-history' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Notification History</span>
+                  </button>
                 </div>
               </div>
 
@@ -424,6 +489,18 @@ export function SettingsPageClient({ currentUser }: SettingsPageClientProps) {
                     <Mail className={`h-4 w-4 flex-shrink-0 ${isEmailConfigValid() ? 'text-green-600' : 'text-yellow-500'}`} />
                     <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'email' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Email</span>
                   </button>
+                  <button
+                    onClick={() => handleSectionChange('webhook')}
+                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors min-h-[36px] ${shouldCenterItems ? 'justify-center px-2' : ''} ${
+                      activeSection === 'webhook'
+                        ? 'bg-accent text-accent-foreground'
+                        : 'hover:bg-accent/50'
+                    }`}
+                    title={isSidebarCollapsed ? 'Webhook' : undefined}
+                  >
+                    <Webhook className={`h-4 w-4 flex-shrink-0 ${isWebhookConfigValid() ? 'text-green-600' : 'text-yellow-500'}`} />
+                    <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'webhook' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Webhook</span>
+                  </button>
                 </div>
               </div>
 
@@ -443,6 +520,44 @@ export function SettingsPageClient({ currentUser }: SettingsPageClientProps) {
                     <Server className="h-4 w-4 flex-shrink-0" />
                     <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'server' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Servers</span>
                   </button>
+                  <button
+                    onClick={() => handleSectionChange('collection')}
+                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors min-h-[36px] ${shouldCenterItems ? 'justify-center px-2' : ''} ${
+                      activeSection === 'collection'
+                        ? 'bg-accent text-accent-foreground'
+                        : 'hover:bg-accent/50'
+                    }`}
+                    title={isSidebarCollapsed ? 'Scheduled Collection' : undefined}
+                  >
+                    <Download className="h-4 w-4 flex-shrink-0" />
+                    <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'collection' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Scheduled Collection</span>
+                  </button>
+                  <button
+                    onClick={() => handleSectionChange('cron-tasks')}
+                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors min-h-[36px] ${shouldCenterItems ? 'justify-center px-2' : ''} ${
+                      activeSection === 'cron-tasks'
+                        ? 'bg-accent text-accent-foreground'
+                        : 'hover:bg-accent/50'
+                    }`}
+                    title={isSidebarCollapsed ? 'Task Schedules' : undefined}
+                  >
+                    <Timer className="h-4 w-4 flex-shrink-0" />
+                    <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'cron-tasks' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Task Schedules</span>
+                  </button>
+                  {currentUser?.hasAllServerAccess && (
+                    <button
+                      onClick={() => handleSectionChange('task-history')}
+                      className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors min-h-[36px] ${shouldCenterItems ? 'justify-center px-2' : ''} ${
+                        activeSection === 'task-history'
+                          ? 'bg-accent text-accent-foreground'
+                          : 'hover:bg-accent/50'
+                      }`}
+                      title={isSidebarCollapsed ? 'Task History' : undefined}
+                    >
+                      <CalendarClock className="h-4 w-4 flex-shrink-0" />
+                      <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'task-history' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Task History</span>
+                    </button>
+                  )}
                   <button
                     onClick={() => handleSectionChange('display')}
                     className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors min-h-[36px] ${shouldCenterItems ? 'justify-center px-2' : ''} ${
@@ -483,18 +598,76 @@ export function SettingsPageClient({ currentUser }: SettingsPageClientProps) {
                       <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'users' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Users</span>
                     </button>
                   )}
-                  <button
-                    onClick={() => handleSectionChange('audit')}
-                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors min-h-[36px] ${shouldCenterItems ? 'justify-center px-2' : ''} ${
-                      activeSection === 'audit'
-                        ? 'bg-accent text-accent-foreground'
-                        : 'hover:bg-accent/50'
-                    }`}
-                    title={isSidebarCollapsed ? 'Audit Log' : undefined}
-                  >
-                    <ScrollText className="h-4 w-4 flex-shrink-0" />
-                    <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'audit' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Audit Log</span>
-                  </button>
+                  {currentUser?.isAdmin && (
+                    <button
+                      onClick={() => handleSectionChange('server-groups')}
+                      className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors min-h-[36px] ${shouldCenterItems ? 'justify-center px-2' : ''} ${
+                        activeSection === 'server-groups'
+                          ? 'bg-accent text-accent-foreground'
+                          : 'hover:bg-accent/50'
+                      }`}
+                      title={isSidebarCollapsed ? 'Server Groups' : undefined}
+                    >
+                      <Group className="h-4 w-4 flex-shrink-0" />
+                      <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'server-groups' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Server Groups</span>
+                    </button>
+                  )}
+                  {currentUser?.isAdmin && (
+                    <button
+                      onClick={() => handleSectionChange('status-pages')}
+                      className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors min-h-[36px] ${shouldCenterItems ? 'justify-center px-2' : ''} ${
+                        activeSection === 'status-pages'
+                          ? 'bg-accent text-accent-foreground'
+                          : 'hover:bg-accent/50'
+                      }`}
+                      title={isSidebarCollapsed ? 'Status Pages' : undefined}
+                    >
+                      <Globe className="h-4 w-4 flex-shrink-0" />
+                      <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'status-pages' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Status Pages</span>
+                    </button>
+                  )}
+                  {currentUser?.isAdmin && (
+                    <button
+                      onClick={() => handleSectionChange('status-badges')}
+                      className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors min-h-[36px] ${shouldCenterItems ? 'justify-center px-2' : ''} ${
+                        activeSection === 'status-badges'
+                          ? 'bg-accent text-accent-foreground'
+                          : 'hover:bg-accent/50'
+                      }`}
+                      title={isSidebarCollapsed ? 'Status Badges' : undefined}
+                    >
+                      <BadgeCheck className="h-4 w-4 flex-shrink-0" />
+                      <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'status-badges' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Status Badges</span>
+                    </button>
+                  )}
+                  {currentUser?.isAdmin && (
+                    <button
+                      onClick={() => handleSectionChange('sso')}
+                      className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors min-h-[36px] ${shouldCenterItems ? 'justify-center px-2' : ''} ${
+                        activeSection === 'sso'
+                          ? 'bg-accent text-accent-foreground'
+                          : 'hover:bg-accent/50'
+                      }`}
+                      title={isSidebarCollapsed ? 'Single Sign-On' : undefined}
+                    >
+                      <KeyRound className="h-4 w-4 flex-shrink-0" />
+                      <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'sso' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Single Sign-On</span>
+                    </button>
+                  )}
+                  {currentUser?.hasAllServerAccess && (
+                    <button
+                      onClick={() => handleSectionChange('audit')}
+                      className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors min-h-[36px] ${shouldCenterItems ? 'justify-center px-2' : ''} ${
+                        activeSection === 'audit'
+                          ? 'bg-accent text-accent-foreground'
+                          : 'hover:bg-accent/50'
+                      }`}
+                      title={isSidebarCollapsed ? 'Audit Log' : undefined}
+                    >
+                      <ScrollText className="h-4 w-4 flex-shrink-0" />
+                      <span className={`whitespace-nowrap overflow-hidden transition-all duration-300 ${activeSection === 'audit' ? 'font-medium' : ''} ${isSidebarCollapsed ? 'max-w-0 opacity-0' : 'max-w-[200px] opacity-100'}`}>Audit Log</span>
+                    </button>
+                  )}
                   {currentUser?.isAdmin && (
                     <button
                       onClick={() => handleSectionChange('audit-retention')}
@@ -517,7 +690,8 @@ export function SettingsPageClient({ currentUser }: SettingsPageClientProps) {
                 <div className="mt-16 px-3">
                   <div className="rounded-md bg-muted/50 px-3 py-2 border border-border/50">
                     <p className="text-xs text-muted-foreground">
-                      <span className="font-medium">Note:</span> Settings are read-only. Some features like test notifications remain available.
+                      <span className="font-medium">Note:</span> Settings are read-only.
+                      {hasRequiredRole(currentUser?.role, 'operator') && ' Some features like test notifications remain available.'}
                     </p>
                   </div>
                 </div>
@@ -530,9 +704,12 @@ export function SettingsPageClient({ currentUser }: SettingsPageClientProps) {
             <div className="w-full px-6 py-4 space-y-6">
               {/* Notifications Section */}
               {activeSection === 'notifications' && (
-                <BackupNotificationsForm 
-                  backupSettings={config.backupSettings || {}}
-                />
+                <>
+                  <BackupNotificationsForm 
+                    backupSettings={config.backupSettings || {}}
+                  />
+                  <AnomalyDetectionForm isAdmin={currentUser?.isAdmin || false} />
+                </>
               )}
 
               {/* Overdue Monitoring Section */}
@@ -542,6 +719,11 @@ export function SettingsPageClient({ currentUser }: SettingsPageClientProps) {
                 />
               )}
 
+              {/* Maintenance Windows Section */}
+              {activeSection === 'maintenance' && (
+                <MaintenanceWindowsForm isAdmin={currentUser?.isAdmin || false} />
+              )}
+
               {/* Server Settings Section */}
               {activeSection === 'server' && (
                 <ServerSettingsForm 
@@ -549,6 +731,24 @@ export function SettingsPageClient({ currentUser }: SettingsPageClientProps) {
                 />
               )}
 
+              {/* Scheduled Collection Section */}
+              {activeSection === 'collection' && (
+                <ScheduledCollectionForm isAdmin={currentUser?.isAdmin || false} />
+              )}
+
+              {/* Task Schedules Section */}
+              {activeSection === 'cron-tasks' && (
+                <CronTasksForm
+                  isAdmin={currentUser?.isAdmin || false}
+                  canRun={hasRequiredRole(currentUser?.role, 'operator')}
+                />
+              )}
+
+              {/* Task History Section */}
+              {activeSection === 'task-history' && (
+                <TaskHistoryViewer />
+              )}
+
               {/* NTFY Section */}
               {activeSection === 'ntfy' && (
                 <NtfyForm 
@@ -583,54 +783,102 @@ export function SettingsPageClient({ currentUser }: SettingsPageClientProps) {
 
               {/* Email Section */}
               {activeSection === 'email' && (
-                <EmailConfigurationForm />
+                <div className="space-y-6">
+                  <EmailConfigurationForm />
+                  <EmailRecipientGroupsForm isAdmin={currentUser?.isAdmin || false} />
+                </div>
+              )}
+
+              {/* Webhook Section */}
+              {activeSection === 'webhook' && (
+                <WebhookForm
+                  config={config.webhook}
+                  onSave={async (webhookConfig) => {
+                    try {
+                      const response = await authenticatedRequestWithRecovery('/api/configuration/webhook', {
+                        method: 'POST',
+                        body: JSON.stringify({ webhook: webhookConfig }),
+                      });
+                      if (!response.ok) {
+                        if (response.status === 403) {
+                          throw new Error('You do not have permission to modify this setting. Only administrators can change configurations.');
+                        }
+                        const errorData = await response.json().catch(() => ({ error: 'Failed to save webhook config' }));
+                        throw new Error(errorData.error || 'Failed to save webhook config');
+                      }
+                      const result = await response.json();
+                      toast({ title: 'Success', description: 'Webhook config saved successfully', duration: 2000 });
+
+                      // Refresh the configuration cache to reflect the changes
+                      await refreshConfigSilently();
+
+                      return result;
+                    } catch (error) {
+                      toast({ title: 'Error', description: error instanceof Error ? error.message : 'Failed to save webhook config', variant: 'destructive', duration: 3000 });
+                      throw error;
+                    }
+                  }}
+                />
               )}
 
               {/* Templates Section */}
               {activeSection === 'templates' && (
-                <NotificationTemplatesForm 
-                  templates={config.templates || {}}
-                  onSave={async (templates) => {
-                    const response = await authenticatedRequestWithRecovery('/api/configuration/templates', {
-                      method: 'POST',
-                      body: JSON.stringify({ templates }),
-                    });
-                    if (!response.ok) {
-                      if (response.status === 403) {
-                        throw new Error('You do not have permission to modify this setting. Only administrators can change configurations.');
+                <div className="space-y-6">
+                  <NotificationTemplatesForm 
+                    templates={config.templates || {}}
+                    onSave={async (templates) => {
+                      const response = await authenticatedRequestWithRecovery('/api/configuration/templates', {
+                        method: 'POST',
+                        body: JSON.stringify({ templates }),
+                      });
+                      if (!response.ok) {
+                        if (response.status === 403) {
+                          throw new Error('You do not have permission to modify this setting. Only administrators can change configurations.');
+                        }
+                        const errorData = await response.json().catch(() => ({ error: 'Failed to save notification templates' }));
+                        throw new Error(errorData.error || 'Failed to save notification templates');
                       }
-                      const errorData = await response.json().catch(() => ({ error: 'Failed to save notification templates' }));
-                      throw new Error(errorData.error || 'Failed to save notification templates');
-                    }
                     
-                    // Refresh the configuration cache to reflect the changes
-                    await refreshConfigSilently();
-                  }}
-                  onSendTest={async (template) => {
-                    const response = await authenticatedRequestWithRecovery('/api/notifications/test', {
-                      method: 'POST',
-                      body: JSON.stringify({ 
-                        type: 'template',
-                        template,
-                        ntfyConfig: config.ntfy 
-                      }),
-                    });
-
-                    if (!response.ok) {
-                      const errorData = await response.json();
-                      throw new Error(errorData.error || 'Failed to send test notification');
-                    }
+                      // Refresh the configuration cache to reflect the changes
+                      await refreshConfigSilently();
+                    }}
+                    onSendTest={async (template) => {
+                      const response = await authenticatedRequestWithRecovery('/api/notifications/test', {
+                        method: 'POST',
+                        body: JSON.stringify({ 
+                          type: 'template',
+                          template,
+                          ntfyConfig: config.ntfy 
+                        }),
+                      });
 
-                    // Show success message with channels used
-                    const result = await response.json();
-                    const channels = result.channels || ['NTFY'];
-                    toast({ 
-                      title: 'Test Sent Successfully', 
-                      description: `Template test sent via ${channels.join(' and ')}`, 
-                      duration: 3000 
-                    });
-                  }}
-                />
+                      if (!response.ok) {
+                        const errorData = await response.json();
+                        throw new Error(errorData.error || 'Failed to send test notification');
+                      }
+
+                      // Show success message with channels used
+                      const result = await response.json();
+                      const channels = result.channels || ['NTFY'];
+                      toast({ 
+                        title: 'Test Sent Successfully', 
+                        description: `Template test sent via ${channels.join(' and ')}`, 
+                        duration: 3000 
+                      });
+                    }}
+                  />
+                  <EmailTemplatesForm isAdmin={currentUser?.isAdmin || false} />
+                </div>
+              )}
+
+              {/* Digest Email Section */}
+              {activeSection === 'digest' && (
+                <DigestEmailForm isAdmin={currentUser?.isAdmin || false} />
+              )}
+
+              {/* Notification History Section */}
+              {activeSection === 'notification-history' && (
+                <NotificationHistoryViewer canResend={hasRequiredRole(currentUser?.role, 'operator')} />
               )}
 
               {/* Users Section (Admin only) */}
@@ -638,6 +886,26 @@ export function SettingsPageClient({ currentUser }: SettingsPageClientProps) {
                 <UserManagementForm currentUserId={currentUser.id} />
               )}
 
+              {/* Server Groups Section (Admin only) */}
+              {activeSection === 'server-groups' && currentUser?.isAdmin && (
+                <ServerGroupsForm />
+              )}
+
+              {/* Status Pages Section (Admin only) */}
+              {activeSection === 'status-pages' && currentUser?.isAdmin && (
+                <StatusPagesForm />
+              )}
+
+              {/* Status Badges Section (Admin only) */}
+              {activeSection === 'status-badges' && currentUser?.isAdmin && (
+                <StatusBadgesForm />
+              )}
+
+              {/* Single Sign-On Section (Admin only) */}
+              {activeSection === 'sso' && currentUser?.isAdmin && (
+                <SingleSignOnForm />
+              )}
+
               {/* Audit Log Section */}
               {activeSection === 'audit' && (
                 <AuditLogViewer currentUserId={currentUser?.id} isAdmin={currentUser?.isAdmin || false} />
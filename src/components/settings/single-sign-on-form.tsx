@@ -0,0 +1,328 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TogglePasswordInput } from '@/components/ui/toggle-password-input';
+import { useToast } from '@/components/ui/use-toast';
+import { ColoredIcon } from '@/components/ui/colored-icon';
+import { KeyRound, Globe, Users, Loader2 } from 'lucide-react';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { defaultOidcConfig } from '@/lib/default-config';
+import { userRoleLabels, userRoles } from '@/lib/utils';
+import type { OidcConfig, UserRole } from '@/lib/types';
+
+// Configuration as returned by the API (the client secret is never sent back)
+type OidcPublicConfig = Omit<OidcConfig, 'clientSecret'> & { hasClientSecret: boolean };
+
+// Role mappings are edited as comma separated lists
+type OidcFormData = Omit<OidcPublicConfig, 'roleMapping'> & { roleMapping: Record<UserRole, string> };
+
+function toFormData(config: OidcPublicConfig): OidcFormData {
+  return {
+    ...config,
+    roleMapping: {
+      admin: config.roleMapping.admin.join(', '),
+      operator: config.roleMapping.operator.join(', '),
+      viewer: config.roleMapping.viewer.join(', '),
+    },
+  };
+}
+
+function toClaimValues(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(item => item !== '');
+}
+
+export function SingleSignOnForm() {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<OidcFormData>(toFormData({ ...defaultOidcConfig, hasClientSecret: false }));
+  const [clientSecret, setClientSecret] = useState('');
+  const [clearClientSecret, setClearClientSecret] = useState(false);
+  const [callbackUrl, setCallbackUrl] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadConfig = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await authenticatedRequestWithRecovery('/api/configuration/oidc');
+      if (!response.ok) {
+        throw new Error('Failed to load single sign-on configuration');
+      }
+      const data = await response.json();
+      setFormData(toFormData(data.oidc));
+      setCallbackUrl(data.callbackUrl || '');
+    } catch (error) {
+      console.error('Error loading single sign-on configuration:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: 'Failed to load single sign-on configuration',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  const updateField = <K extends keyof OidcFormData>(field: K, value: OidcFormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const updateRoleMapping = (role: UserRole, value: string) => {
+    setFormData(prev => ({ ...prev, roleMapping: { ...prev.roleMapping, [role]: value } }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/configuration/oidc', {
+        method: 'POST',
+        body: JSON.stringify({
+          oidc: {
+            ...formData,
+            clientSecret,
+            clearClientSecret,
+            roleMapping: {
+              admin: toClaimValues(formData.roleMapping.admin),
+              operator: toClaimValues(formData.roleMapping.operator),
+              viewer: toClaimValues(formData.roleMapping.viewer),
+            },
+          },
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save single sign-on configuration');
+      }
+
+      setFormData(toFormData(data.oidc));
+      setClientSecret('');
+      setClearClientSecret(false);
+      toast({
+        title: 'Success',
+        description: 'Single sign-on settings saved successfully',
+        duration: 2000,
+      });
+    } catch (error) {
+      console.error('Error saving single sign-on configuration:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save single sign-on configuration',
+        variant: 'destructive',
+        duration: 4000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6" data-screenshot-target="settings-content-card">
+      <Card variant="modern">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <ColoredIcon icon={KeyRound} color="blue" size="lg" />
+            <div>
+              <CardTitle>Single Sign-On</CardTitle>
+              <CardDescription className="mt-1">
+                Let users log in with an OpenID Connect identity provider (authorization code flow with PKCE).
+                Users are created on their first login and get their role from the provider claims on every login.
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="oidc-enabled"
+              checked={formData.enabled}
+              onCheckedChange={(checked) => updateField('enabled', checked)}
+            />
+            <Label htmlFor="oidc-enabled">Enable single sign-on</Label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="oidc-issuer" className="flex items-center gap-2">
+                <ColoredIcon icon={Globe} color="blue" size="sm" />
+                Issuer URL
+              </Label>
+              <Input
+                id="oidc-issuer"
+                type="url"
+                value={formData.issuer}
+                onChange={(e) => updateField('issuer', e.target.value)}
+                placeholder="https://idp.example.com/realms/company"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidc-button-label">Login Button Label</Label>
+              <Input
+                id="oidc-button-label"
+                value={formData.buttonLabel}
+                onChange={(e) => updateField('buttonLabel', e.target.value)}
+                placeholder={defaultOidcConfig.buttonLabel}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidc-client-id">Client ID</Label>
+              <Input
+                id="oidc-client-id"
+                value={formData.clientId}
+                onChange={(e) => updateField('clientId', e.target.value)}
+                placeholder="duplistatus"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidc-client-secret">Client Secret</Label>
+              <TogglePasswordInput
+                id="oidc-client-secret"
+                value={clientSecret}
+                onChange={(value) => {
+                  setClientSecret(value);
+                  setClearClientSecret(false);
+                }}
+                placeholder={formData.hasClientSecret && !clearClientSecret ? 'Stored (leave empty to keep it)' : 'Empty for public clients'}
+              />
+              {formData.hasClientSecret && (
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="oidc-clear-secret"
+                    checked={clearClientSecret}
+                    onCheckedChange={(checked) => {
+                      setClearClientSecret(checked);
+                      if (checked) {
+                        setClientSecret('');
+                      }
+                    }}
+                  />
+                  <Label htmlFor="oidc-clear-secret" className="text-sm">Remove the stored secret</Label>
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidc-scopes">Scopes</Label>
+              <Input
+                id="oidc-scopes"
+                value={formData.scopes}
+                onChange={(e) => updateField('scopes', e.target.value)}
+                placeholder={defaultOidcConfig.scopes}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidc-redirect-uri">Redirect URI (Optional)</Label>
+              <Input
+                id="oidc-redirect-uri"
+                type="url"
+                value={formData.redirectUri}
+                onChange={(e) => updateField('redirectUri', e.target.value)}
+                placeholder={callbackUrl}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Register <code>{formData.redirectUri || callbackUrl}</code> as the redirect URI of the client at the identity provider.
+            Only set the redirect URI here when duplistatus is reached through a URL it cannot detect.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card variant="modern">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <ColoredIcon icon={Users} color="purple" size="lg" />
+            <div>
+              <CardTitle>Users and Roles</CardTitle>
+              <CardDescription className="mt-1">
+                Map claim values (e.g. group names) to roles. The highest matching role wins.
+                Nested claims can be selected with a dotted path (e.g. <code>realm_access.roles</code>).
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="oidc-username-claim">Username Claim</Label>
+              <Input
+                id="oidc-username-claim"
+                value={formData.usernameClaim}
+                onChange={(e) => updateField('usernameClaim', e.target.value)}
+                placeholder={defaultOidcConfig.usernameClaim}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidc-role-claim">Role Claim</Label>
+              <Input
+                id="oidc-role-claim"
+                value={formData.roleClaim}
+                onChange={(e) => updateField('roleClaim', e.target.value)}
+                placeholder={defaultOidcConfig.roleClaim}
+              />
+            </div>
+            {[...userRoles].reverse().map(role => (
+              <div key={role} className="space-y-2">
+                <Label htmlFor={`oidc-role-${role}`}>{userRoleLabels[role]} Claim Values</Label>
+                <Input
+                  id={`oidc-role-${role}`}
+                  value={formData.roleMapping[role]}
+                  onChange={(e) => updateRoleMapping(role, e.target.value)}
+                  placeholder={`duplistatus-${role}s`}
+                />
+              </div>
+            ))}
+            <div className="space-y-2">
+              <Label htmlFor="oidc-default-role">Default Role</Label>
+              <Select
+                value={formData.defaultRole}
+                onValueChange={(value) => updateField('defaultRole', value as OidcConfig['defaultRole'])}
+              >
+                <SelectTrigger id="oidc-default-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No access (deny login)</SelectItem>
+                  {userRoles.map(role => (
+                    <SelectItem key={role} value={role}>{userRoleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Separate claim values with commas. The default role applies when no value matches.
+            A provider user whose username already belongs to a local account cannot log in with single sign-on.
+          </p>
+
+          <div className="flex flex-col sm:flex-row gap-3 pt-4">
+            <Button
+              onClick={handleSave}
+              disabled={isSaving}
+              variant="gradient"
+              className="w-full sm:w-auto"
+            >
+              {isSaving ? 'Saving...' : 'Save Settings'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import { ColoredIcon } from '@/components/ui/colored-icon';
+import { useConfiguration } from '@/contexts/configuration-context';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { formatRelativeTime } from '@/lib/utils';
+import type { BadgeToken, BadgeType } from '@/lib/types';
+import { BadgeCheck, Copy, Check, RefreshCw, Trash2 } from 'lucide-react';
+
+const badgeTypeLabels: Record<BadgeType, string> = {
+  status: 'Last status',
+  age: 'Time since last backup',
+  overdue: 'Overdue state',
+};
+
+interface CreatedBadgeToken {
+  serverId: string;
+  backupName: string;
+  displayName: string;
+  token: string;
+}
+
+function getBadgeUrl(serverId: string, backupName: string, token: string, type: BadgeType): string {
+  const path = `/api/badge/${encodeURIComponent(serverId)}/${encodeURIComponent(backupName)}.svg`;
+  return `${window.location.origin}${path}?token=${encodeURIComponent(token)}&type=${type}`;
+}
+
+export function StatusBadgesForm() {
+  const { toast } = useToast();
+  const { config } = useConfiguration();
+  const [tokens, setTokens] = useState<BadgeToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [createdToken, setCreatedToken] = useState<CreatedBadgeToken | null>(null);
+  const [copiedType, setCopiedType] = useState<BadgeType | null>(null);
+
+  const loadTokens = useCallback(async () => {
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/badge-tokens');
+      if (!response.ok) {
+        throw new Error('Failed to load badge tokens');
+      }
+      const data = await response.json() as { tokens: BadgeToken[] };
+      setTokens(data.tokens);
+    } catch (error) {
+      console.error('Error loading badge tokens:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: 'Failed to load badge tokens',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const createToken = async (serverId: string, backupName: string, displayName: string) => {
+    try {
+      setBusyKey(`${serverId}:${backupName}`);
+      const response = await authenticatedRequestWithRecovery('/api/badge-tokens', {
+        method: 'POST',
+        body: JSON.stringify({ serverId, backupName }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create badge token');
+      }
+      setCreatedToken({ serverId, backupName, displayName, token: result.token });
+      await loadTokens();
+    } catch (error) {
+      console.error('Error creating badge token:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create badge token',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const revokeToken = async (badgeToken: BadgeToken) => {
+    try {
+      setBusyKey(`${badgeToken.serverId}:${badgeToken.backupName}`);
+      const response = await authenticatedRequestWithRecovery(`/api/badge-tokens/${badgeToken.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to revoke badge token');
+      }
+      await loadTokens();
+      toast({
+        title: 'Success',
+        description: 'Badge token revoked, the existing badges of this backup no longer load',
+        duration: 2000,
+      });
+    } catch (error) {
+      console.error('Error revoking badge token:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to revoke badge token',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const copySnippet = async (type: BadgeType, snippet: string) => {
+    await navigator.clipboard.writeText(snippet);
+    setCopiedType(type);
+    setTimeout(() => setCopiedType(null), 2000);
+  };
+
+  const backups = config?.serversWithBackups || [];
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ColoredIcon icon={BadgeCheck} color="blue" size="md" />
+            Status Badges
+          </CardTitle>
+          <CardDescription>
+            Embeddable SVG badges with the last status, the time since the last backup or the overdue state of a backup,
+            for wikis and README files. Each backup has its own token: the badge links only give access to the badges of
+            that backup. Creating a new token replaces the previous one, so the old links stop working.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-4 text-muted-foreground">Loading badge tokens...</div>
+          ) : backups.length === 0 ? (
+            <div className="text-center py-4 text-muted-foreground">No backups</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Server</TableHead>
+                  <TableHead>Backup</TableHead>
+                  <TableHead>Token Created</TableHead>
+                  <TableHead>Last Used</TableHead>
+                  <TableHead className="text-right">Requests</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {backups.map(server => {
+                  const backupKey = `${server.id}:${server.backupName}`;
+                  const badgeToken = tokens.find(token => token.serverId === server.id && token.backupName === server.backupName);
+                  const displayName = server.alias || server.name;
+                  const busy = busyKey === backupKey;
+                  return (
+                    <TableRow key={backupKey}>
+                      <TableCell>{displayName}</TableCell>
+                      <TableCell>{server.backupName}</TableCell>
+                      <TableCell>{badgeToken ? formatRelativeTime(badgeToken.createdAt) : <span className="text-muted-foreground">No token</span>}</TableCell>
+                      <TableCell>{badgeToken?.lastUsedAt ? formatRelativeTime(badgeToken.lastUsedAt) : badgeToken ? 'Never' : ''}</TableCell>
+                      <TableCell className="text-right">{badgeToken ? badgeToken.usageCount : ''}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => createToken(server.id, server.backupName, displayName)}
+                            disabled={busyKey !== null}
+                            title={badgeToken ? 'Create a new token, the current badge links stop working' : 'Create a token and show the badge links'}
+                          >
+                            <RefreshCw className={`h-4 w-4 mr-2 ${busy ? 'animate-spin' : ''}`} />
+                            {badgeToken ? 'Regenerate' : 'Create'}
+                          </Button>
+                          {badgeToken && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => revokeToken(badgeToken)}
+                              disabled={busyKey !== null}
+                              title="Revoke the token, the badges of this backup stop working"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Badge Links Dialog */}
+      <Dialog open={createdToken !== null} onOpenChange={(open) => { if (!open) setCreatedToken(null); }}>
+        <DialogContent className="sm:max-w-[700px]">
+          <DialogHeader>
+            <DialogTitle>Badge Links</DialogTitle>
+            <DialogDescription>
+              {createdToken && `Markdown badges for ${createdToken.displayName} - ${createdToken.backupName}.`}
+              <br />
+              <strong className="text-destructive">Copy the links now - the token will not be shown again!</strong>
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {createdToken && (Object.keys(badgeTypeLabels) as BadgeType[]).map(type => {
+              const url = getBadgeUrl(createdToken.serverId, createdToken.backupName, createdToken.token, type);
+              const snippet = `![${badgeTypeLabels[type]}](${url})`;
+              return (
+                <div key={type} className="space-y-2">
+                  <Label>{badgeTypeLabels[type]}</Label>
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={url} alt={badgeTypeLabels[type]} className="h-5" />
+                  <div className="flex items-center gap-2">
+                    <Input value={snippet} readOnly className="font-mono text-xs" />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => copySnippet(type, snippet)}
+                      title="Copy Markdown"
+                    >
+                      {copiedType === type ? (
+                        <Check className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <Copy className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCreatedToken(null)}>
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
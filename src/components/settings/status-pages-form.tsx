@@ -0,0 +1,245 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import { ColoredIcon } from '@/components/ui/colored-icon';
+import { useConfiguration } from '@/contexts/configuration-context';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { isValidStatusPageSlug, statusPageSlugMaxLength } from '@/lib/utils';
+import type { BackupKey, StatusPage } from '@/lib/types';
+import { Globe, Plus, Trash2, ExternalLink } from 'lucide-react';
+
+// Page being edited, new pages get their ID when saved
+interface EditablePage extends Omit<StatusPage, 'id'> {
+  key: string;
+  id?: string;
+}
+
+function toEditablePage(page: StatusPage): EditablePage {
+  return { ...page, key: page.id };
+}
+
+function getPageError(page: EditablePage, pages: EditablePage[]): string | null {
+  if (page.title.trim() === '') {
+    return 'Enter a title for the page.';
+  }
+  const slug = page.slug.trim();
+  if (!isValidStatusPageSlug(slug)) {
+    return `The slug can only use lowercase letters, digits and single hyphens (up to ${statusPageSlugMaxLength} characters).`;
+  }
+  if (pages.some(other => other.key !== page.key && other.slug.trim() === slug)) {
+    return 'Another page already uses this slug.';
+  }
+  return null;
+}
+
+export function StatusPagesForm() {
+  const { toast } = useToast();
+  const { config } = useConfiguration();
+  const [pages, setPages] = useState<EditablePage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newPageCount, setNewPageCount] = useState(0);
+
+  const loadPages = useCallback(async () => {
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/configuration/status-pages');
+      if (!response.ok) {
+        throw new Error('Failed to load status pages');
+      }
+      const data = await response.json() as { pages: StatusPage[] };
+      setPages(data.pages.map(toEditablePage));
+    } catch (error) {
+      console.error('Error loading status pages:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: 'Failed to load status pages',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadPages();
+  }, [loadPages]);
+
+  const updatePage = (key: string, updates: Partial<EditablePage>) => {
+    setPages(prev => prev.map(page => page.key === key ? { ...page, ...updates } : page));
+  };
+
+  const toggleBackup = (page: EditablePage, backupKey: BackupKey, checked: boolean) => {
+    updatePage(page.key, {
+      backups: checked ? [...page.backups, backupKey] : page.backups.filter(other => other !== backupKey),
+    });
+  };
+
+  const addPage = () => {
+    setPages(prev => [...prev, { key: `new-${newPageCount}`, slug: '', title: '', enabled: false, backups: [] }]);
+    setNewPageCount(prev => prev + 1);
+  };
+
+  const savePages = async () => {
+    try {
+      setSaving(true);
+      const response = await authenticatedRequestWithRecovery('/api/configuration/status-pages', {
+        method: 'POST',
+        body: JSON.stringify({
+          pages: pages.map(page => ({ id: page.id, slug: page.slug, title: page.title, enabled: page.enabled, backups: page.backups })),
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save status pages');
+      }
+      setPages((result.pages as StatusPage[]).map(toEditablePage));
+      toast({
+        title: 'Success',
+        description: 'Status pages saved successfully',
+        duration: 2000,
+      });
+    } catch (error) {
+      console.error('Error saving status pages:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save status pages',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const backups = config?.serversWithBackups || [];
+  const pageErrors = pages.map(page => getPageError(page, pages));
+  const disabled = loading || saving;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ColoredIcon icon={Globe} color="blue" size="md" />
+          Status Pages
+        </CardTitle>
+        <CardDescription>
+          Public read-only pages, such as <code>/status/customer-a</code>, that share the health of selected backups
+          without an account: last status, last backup, overdue state and a 30-day status bar. Servers are shown by their
+          alias; notes, URLs and log messages are never shown. Anyone with the link can open an enabled page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="text-center py-4 text-muted-foreground">Loading status pages...</div>
+        ) : pages.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">No status pages configured</div>
+        ) : (
+          pages.map((page, index) => (
+            <div key={page.key} className="border rounded-md p-4 space-y-3">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor={`status-page-title-${page.key}`} className="text-sm">Title:</Label>
+                  <Input
+                    id={`status-page-title-${page.key}`}
+                    value={page.title}
+                    onChange={(e) => updatePage(page.key, { title: e.target.value })}
+                    placeholder="Customer A backups"
+                    disabled={disabled}
+                    className="w-64"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`status-page-slug-${page.key}`} className="text-sm">Slug:</Label>
+                  <Input
+                    id={`status-page-slug-${page.key}`}
+                    value={page.slug}
+                    onChange={(e) => updatePage(page.key, { slug: e.target.value.toLowerCase() })}
+                    placeholder="customer-a"
+                    disabled={disabled}
+                    className="w-48"
+                  />
+                </div>
+                <div className="flex items-center space-x-2 pb-2">
+                  <Switch
+                    id={`status-page-enabled-${page.key}`}
+                    checked={page.enabled}
+                    onCheckedChange={(enabled) => updatePage(page.key, { enabled })}
+                    disabled={disabled}
+                  />
+                  <Label htmlFor={`status-page-enabled-${page.key}`}>Enabled</Label>
+                </div>
+                <div className="flex items-center gap-2 ml-auto">
+                  {page.id && page.enabled && (
+                    <Button variant="outline" size="sm" asChild title="Open the saved page">
+                      <a href={`/status/${page.slug}`} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPages(prev => prev.filter(other => other.key !== page.key))}
+                    disabled={disabled}
+                    title="Delete this page"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-sm">Backups ({page.backups.length} selected):</Label>
+                <div className="max-h-56 overflow-y-auto rounded-md border p-2 grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {backups.length === 0 ? (
+                    <div className="text-sm text-muted-foreground">No backups</div>
+                  ) : backups.map(server => {
+                    const backupKey = `${server.id}:${server.backupName}`;
+                    const checkboxId = `status-page-${page.key}-${backupKey}`;
+                    return (
+                      <div key={backupKey} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={checkboxId}
+                          checked={page.backups.includes(backupKey)}
+                          onCheckedChange={(checked) => toggleBackup(page, backupKey, checked === true)}
+                          disabled={disabled}
+                        />
+                        <Label htmlFor={checkboxId} className="cursor-pointer font-normal">
+                          {`${server.alias || server.name} - ${server.backupName}`}
+                        </Label>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+              {pageErrors[index] && (
+                <p className="text-xs text-red-600 dark:text-red-400">{pageErrors[index]}</p>
+              )}
+            </div>
+          ))
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={addPage} disabled={disabled}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Page
+          </Button>
+          <Button
+            onClick={savePages}
+            variant="gradient"
+            disabled={disabled || pageErrors.some(error => error !== null)}
+            size="sm"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,295 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import type { ChartConfig } from '@/components/ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { ColoredIcon } from '@/components/ui/colored-icon';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+import { cronTaskLabels, formatDurationHuman, formatRelativeTime } from '@/lib/utils';
+import { cronTaskRunRetentionDays } from '@/lib/default-config';
+import type { CronTaskRun, CronTaskRunHour, CronTaskRunSummary } from '@/lib/types';
+import { CalendarClock, ChevronLeft, ChevronRight, RefreshCw } from 'lucide-react';
+
+const PAGE_SIZE = 25;
+const HOUR_MS = 60 * 60 * 1000;
+const PERIOD_OPTIONS = [1, 7, cronTaskRunRetentionDays];
+
+interface TaskHistoryResponse {
+  tasks: CronTaskRunSummary[];
+  timeline?: CronTaskRunHour[];
+  runs?: CronTaskRun[];
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+const chartConfig = {
+  successes: { label: 'Succeeded', color: '#22c55e' },
+  failures: { label: 'Failed', color: '#ef4444' },
+} satisfies ChartConfig;
+
+function getTaskLabel(taskName: string): string {
+  return cronTaskLabels[taskName] || taskName;
+}
+
+function formatRunDuration(durationMs: number): string {
+  if (durationMs < 1000) {
+    return `${durationMs} ms`;
+  }
+  return durationMs < 60000 ? `${(durationMs / 1000).toFixed(1)}s` : formatDurationHuman(durationMs / 1000);
+}
+
+function formatStatistics(statistics: Record<string, unknown> | null): string {
+  if (!statistics) {
+    return '';
+  }
+  return Object.entries(statistics)
+    .filter(([, value]) => typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean')
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(', ');
+}
+
+// One point per hour of the period, hours without runs are shown as gaps in the chart
+function buildChartData(timeline: CronTaskRunHour[], days: number) {
+  const runsByHour = new Map(timeline.map(hour => [hour.hour, hour]));
+  const now = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+  const points = [];
+  for (let instant = now - (days * 24 - 1) * HOUR_MS; instant <= now; instant += HOUR_MS) {
+    const hour = new Date(instant).toISOString().slice(0, 13);
+    const runs = runsByHour.get(hour);
+    points.push({
+      time: new Date(instant).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }),
+      successes: runs ? runs.runs - runs.failures : 0,
+      failures: runs ? runs.failures : 0,
+    });
+  }
+  return points;
+}
+
+// Every execution of the cron service tasks, to check that a task ran (e.g. the overdue check during an incident)
+export function TaskHistoryViewer() {
+  const { toast } = useToast();
+  const [tasks, setTasks] = useState<CronTaskRunSummary[]>([]);
+  const [taskName, setTaskName] = useState('overdue-backup-check');
+  const [days, setDays] = useState(7);
+  const [timeline, setTimeline] = useState<CronTaskRunHour[]>([]);
+  const [runs, setRuns] = useState<CronTaskRun[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ task: taskName, days: String(days), page: String(page), limit: String(PAGE_SIZE) });
+      const response = await authenticatedRequestWithRecovery(`/api/cron-history?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to load task history');
+      }
+      const data = await response.json() as TaskHistoryResponse;
+      setTasks(data.tasks);
+      setTimeline(data.timeline || []);
+      setRuns(data.runs || []);
+      setTotal(data.pagination?.total || 0);
+      setTotalPages(Math.max(1, data.pagination?.totalPages || 1));
+    } catch (error) {
+      console.error('Error loading task history:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: 'Error',
+        description: 'Failed to load task history',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [taskName, days, page, toast]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const chartData = useMemo(() => buildChartData(timeline, days), [timeline, days]);
+  const summary = tasks.find(task => task.taskName === taskName);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ColoredIcon icon={CalendarClock} color="blue" size="md" />
+          Task History
+        </CardTitle>
+        <CardDescription>
+          Every run of the background tasks of the cron service, scheduled or started manually, with its duration and
+          result. Runs are kept for {cronTaskRunRetentionDays} days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex flex-col">
+              <Label htmlFor="task-history-task" className="mb-2 text-sm">Task:</Label>
+              <Select
+                value={taskName}
+                onValueChange={(value) => {
+                  setTaskName(value);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger id="task-history-task" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {tasks.map(task => (
+                    <SelectItem key={task.taskName} value={task.taskName}>{getTaskLabel(task.taskName)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-col">
+              <Label htmlFor="task-history-period" className="mb-2 text-sm">Period:</Label>
+              <Select
+                value={String(days)}
+                onValueChange={(value) => {
+                  setDays(parseInt(value, 10));
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger id="task-history-period" className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PERIOD_OPTIONS.map(option => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option === 1 ? 'Last 24 hours' : `Last ${option} days`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadHistory} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {summary?.lastStartedAt && (
+          <div className="text-sm text-muted-foreground">
+            Last run {formatRelativeTime(summary.lastStartedAt)}
+            {summary.failures > 0 && <span className="text-red-600 dark:text-red-400"> - {summary.failures} failed {summary.failures === 1 ? 'run' : 'runs'} in this period</span>}
+          </div>
+        )}
+
+        <div className="h-48 w-full">
+          <ChartContainer config={chartConfig} className="!aspect-auto w-full h-full">
+            <BarChart data={chartData} margin={{ top: 2, right: 5, bottom: 2, left: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#666" />
+              <XAxis
+                dataKey="time"
+                tickLine={false}
+                axisLine={false}
+                tick={{ fontSize: 8, fill: '#9ca3af', dy: 5 }}
+                interval="preserveStartEnd"
+                minTickGap={40}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                tick={{ fontSize: 10, fill: '#9ca3af' }}
+                allowDecimals={false}
+                width={30}
+              />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="successes" stackId="runs" fill="var(--color-successes)" />
+              <Bar dataKey="failures" stackId="runs" fill="var(--color-failures)" />
+            </BarChart>
+          </ChartContainer>
+        </div>
+
+        {loading && runs.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Loading task history...</div>
+        ) : runs.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No runs in this period</div>
+        ) : (
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Message</TableHead>
+                  <TableHead>Statistics</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map(run => (
+                  <TableRow key={run.id}>
+                    <TableCell>
+                      <div className="text-sm">{new Date(run.startedAt).toLocaleString()}</div>
+                      <div className="text-xs text-muted-foreground">{formatRelativeTime(run.startedAt)}</div>
+                    </TableCell>
+                    <TableCell>{formatRunDuration(run.durationMs)}</TableCell>
+                    <TableCell>
+                      {run.success
+                        ? <Badge className="bg-green-500/20 text-green-600 dark:text-green-400">Success</Badge>
+                        : <Badge className="bg-red-500/20 text-red-600 dark:text-red-400">Failed</Badge>}
+                    </TableCell>
+                    <TableCell className="max-w-[300px] truncate" title={run.error || run.message || undefined}>
+                      {run.success ? run.message : <span className="text-red-600 dark:text-red-400">{run.error}</span>}
+                    </TableCell>
+                    <TableCell className="max-w-[300px] truncate text-xs text-muted-foreground" title={formatStatistics(run.statistics) || undefined}>
+                      {formatStatistics(run.statistics)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">
+            {total} {total === 1 ? 'run' : 'runs'}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(prev => prev - 1)} disabled={loading || page <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+            <Button variant="outline" size="sm" onClick={() => setPage(prev => prev + 1)} disabled={loading || page >= totalPages}>
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
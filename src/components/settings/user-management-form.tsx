@@ -36,15 +36,20 @@ import { useToast } from '@/components/ui/use-toast';
 import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
 import { TogglePasswordInput } from '@/components/ui/toggle-password-input';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Plus, Edit, Trash2, KeyRound, Search, Copy, Check, X, UserCog } from 'lucide-react';
-import { formatRelativeTime } from '@/lib/utils';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Edit, Trash2, KeyRound, Search, Copy, Check, X, UserCog, ShieldCheck } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatRelativeTime, userRoles, userRoleLabels } from '@/lib/utils';
+import type { AuthProvider, UserRole } from '@/lib/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { ColoredIcon } from '@/components/ui/colored-icon';
 
 interface User {
   id: string;
   username: string;
-  isAdmin: boolean;
+  role: UserRole;
+  authProvider: AuthProvider;
+  twoFactorEnabled: boolean;
   mustChangePassword: boolean;
   createdAt: string;
   updatedAt: string;
@@ -55,6 +60,26 @@ interface User {
   isLocked: boolean;
 }
 
+// Badge colors for single sign-on users in the users table
+const ssoBadgeClasses = 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300';
+
+// Badge colors for users with two-factor authentication in the users table
+const twoFactorBadgeClasses = 'bg-teal-100 text-teal-800 dark:bg-teal-900/40 dark:text-teal-300';
+
+// Badge colors for each role in the users table
+const roleBadgeClasses: Record<UserRole, string> = {
+  viewer: 'bg-muted text-muted-foreground',
+  operator: 'bg-green-500/20 text-green-600 dark:text-green-400',
+  admin: 'bg-blue-500/20 text-blue-600 dark:text-blue-400',
+};
+
+// Short description of each role, shown below the role selector
+const roleDescriptions: Record<UserRole, string> = {
+  viewer: 'Read-only access to the dashboard, server details and settings.',
+  operator: 'Viewer access plus collecting backups, testing notifications and acknowledging alerts.',
+  admin: 'Full access, including settings, servers, users and data management.',
+};
+
 interface UserManagementFormProps {
   currentUserId?: string;
 }
@@ -76,10 +101,12 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
   // Form state
   const [formUsername, setFormUsername] = useState('');
   const [formPassword, setFormPassword] = useState('');
-  const [formIsAdmin, setFormIsAdmin] = useState(false);
+  const [formRole, setFormRole] = useState<UserRole>('viewer');
   const [formRequirePasswordChange, setFormRequirePasswordChange] = useState(true);
+  const [formResetTwoFactor, setFormResetTwoFactor] = useState(false);
   const [formAutoGeneratePassword, setFormAutoGeneratePassword] = useState(true);
   const [formLoading, setFormLoading] = useState(false);
+  const [requireTwoFactor, setRequireTwoFactor] = useState(false);
 
   // Load users - wrapped in useCallback to avoid recreating on each render
   const loadUsers = useCallback(async () => {
@@ -105,10 +132,56 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
     loadUsers();
   }, [loadUsers]);
 
+  // Load the "require two-factor authentication" setting
+  useEffect(() => {
+    async function loadTwoFactorConfig() {
+      try {
+        const response = await authenticatedRequestWithRecovery('/api/configuration/two-factor');
+        if (!response.ok) throw new Error('Failed to load two-factor configuration');
+        const data = await response.json();
+        setRequireTwoFactor(data.required === true);
+      } catch (error) {
+        console.error('Error loading two-factor configuration:', error);
+      }
+    }
+    loadTwoFactorConfig();
+  }, []);
+
+  // Handle the "require two-factor authentication" switch
+  const handleRequireTwoFactorChange = async (required: boolean) => {
+    setRequireTwoFactor(required);
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/configuration/two-factor', {
+        method: 'POST',
+        body: JSON.stringify({ required }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update two-factor configuration');
+      }
+
+      toast({
+        title: 'Success',
+        description: required
+          ? 'Two-factor authentication is now required for local accounts'
+          : 'Two-factor authentication is now optional',
+        duration: 2000,
+      });
+    } catch (error) {
+      setRequireTwoFactor(!required);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update two-factor configuration',
+        variant: 'destructive',
+      });
+    }
+  };
+
   // Column configuration for sorting
   const columnConfig = {
     username: { type: 'text' as keyof typeof sortFunctions, path: 'username' },
-    isAdmin: { type: 'boolean' as keyof typeof sortFunctions, path: 'isAdmin' },
+    role: { type: 'text' as keyof typeof sortFunctions, path: 'role' },
     isLocked: { type: 'boolean' as keyof typeof sortFunctions, path: 'isLocked' },
     mustChangePassword: { type: 'boolean' as keyof typeof sortFunctions, path: 'mustChangePassword' },
     lastLoginAt: { type: 'date' as keyof typeof sortFunctions, path: 'lastLoginAt' },
@@ -128,7 +201,7 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
 
   // Check if a specific user is the last admin
   const isUserLastAdmin = useCallback((userId: string) => {
-    const adminUsers = users.filter(u => u.isAdmin);
+    const adminUsers = users.filter(u => u.role === 'admin');
     return adminUsers.length === 1 && adminUsers[0].id === userId;
   }, [users]);
 
@@ -226,7 +299,7 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
         body: JSON.stringify({
           username: formUsername.trim(),
           password: formAutoGeneratePassword ? undefined : formPassword,
-          isAdmin: formIsAdmin,
+          role: formRole,
           requirePasswordChange: formRequirePasswordChange,
         }),
       });
@@ -272,8 +345,9 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
         method: 'PATCH',
         body: JSON.stringify({
           username: formUsername.trim() !== selectedUser.username ? formUsername.trim() : undefined,
-          isAdmin: formIsAdmin !== selectedUser.isAdmin ? formIsAdmin : undefined,
+          role: formRole !== selectedUser.role ? formRole : undefined,
           requirePasswordChange: formRequirePasswordChange !== selectedUser.mustChangePassword ? formRequirePasswordChange : undefined,
+          resetTwoFactor: formResetTwoFactor || undefined,
         }),
       });
 
@@ -370,8 +444,9 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
   const resetForm = () => {
     setFormUsername('');
     setFormPassword('');
-    setFormIsAdmin(false);
+    setFormRole('viewer');
     setFormRequirePasswordChange(true);
+    setFormResetTwoFactor(false);
     setFormAutoGeneratePassword(true);
     setSelectedUser(null);
     setTempPassword(null);
@@ -381,8 +456,9 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
   const openEditDialog = (user: User) => {
     setSelectedUser(user);
     setFormUsername(user.username);
-    setFormIsAdmin(user.isAdmin);
+    setFormRole(user.role);
     setFormRequirePasswordChange(user.mustChangePassword);
+    setFormResetTwoFactor(false);
     setFormAutoGeneratePassword(false);
     setEditDialogOpen(true);
   };
@@ -456,7 +532,7 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
                   Username
                 </SortableTableHead>
                 <SortableTableHead 
-                  column="isAdmin" 
+                  column="role" 
                   sortConfig={sortConfig} 
                   onSort={handleSort}
                   className="bg-muted"
@@ -503,13 +579,17 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
                 <TableRow key={user.id}>
                   <TableCell className="font-medium">{user.username}</TableCell>
                   <TableCell>
-                    {user.isAdmin ? (
-                      <span className="px-2 py-1 rounded-full text-xs bg-blue-500/20 text-blue-600 dark:text-blue-400">
-                        Admin
+                    <span className={`px-2 py-1 rounded-full text-xs ${roleBadgeClasses[user.role]}`}>
+                      {userRoleLabels[user.role]}
+                    </span>
+                    {user.authProvider === 'oidc' && (
+                      <span className={`ml-2 px-2 py-1 rounded-full text-xs ${ssoBadgeClasses}`} title="Signs in with single sign-on">
+                        SSO
                       </span>
-                    ) : (
-                      <span className="px-2 py-1 rounded-full text-xs bg-muted text-muted-foreground">
-                        User
+                    )}
+                    {user.twoFactorEnabled && (
+                      <span className={`ml-2 px-2 py-1 rounded-full text-xs ${twoFactorBadgeClasses}`} title="Two-factor authentication enabled">
+                        2FA
                       </span>
                     )}
                   </TableCell>
@@ -563,7 +643,8 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
                           setSelectedUser(user);
                           handlePasswordReset();
                         }}
-                        title="Reset password"
+                        title={user.authProvider === 'oidc' ? "Single sign-on users have no local password" : "Reset password"}
+                        disabled={user.authProvider === 'oidc'}
                       >
                         <KeyRound className="h-4 w-4" />
                       </Button>
@@ -575,14 +656,14 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
                           title={
                             isUserLastAdmin(user.id) 
                               ? "Cannot delete the last admin account" 
-                              : user.isAdmin 
+                              : user.role === 'admin'
                               ? "Delete admin user (warning: this is an admin account)" 
                               : "Delete user"
                           }
                           className={
                             isUserLastAdmin(user.id)
                               ? "text-muted-foreground hover:text-muted-foreground cursor-not-allowed opacity-50"
-                              : user.isAdmin
+                              : user.role === 'admin'
                               ? "text-orange-600 dark:text-orange-400 hover:text-orange-700 dark:hover:text-orange-300"
                               : "text-destructive hover:text-destructive"
                           }
@@ -609,13 +690,17 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
                     <div className="flex-1">
                       <div className="font-medium text-base">{user.username}</div>
                       <div className="mt-1">
-                        {user.isAdmin ? (
-                          <span className="px-2 py-1 rounded-full text-xs bg-blue-500/20 text-blue-600 dark:text-blue-400">
-                            Admin
+                        <span className={`px-2 py-1 rounded-full text-xs ${roleBadgeClasses[user.role]}`}>
+                          {userRoleLabels[user.role]}
+                        </span>
+                        {user.authProvider === 'oidc' && (
+                          <span className={`ml-2 px-2 py-1 rounded-full text-xs ${ssoBadgeClasses}`} title="Signs in with single sign-on">
+                            SSO
                           </span>
-                        ) : (
-                          <span className="px-2 py-1 rounded-full text-xs bg-muted text-muted-foreground">
-                            User
+                        )}
+                        {user.twoFactorEnabled && (
+                          <span className={`ml-2 px-2 py-1 rounded-full text-xs ${twoFactorBadgeClasses}`} title="Two-factor authentication enabled">
+                            2FA
                           </span>
                         )}
                       </div>
@@ -636,7 +721,8 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
                           setSelectedUser(user);
                           handlePasswordReset();
                         }}
-                        title="Reset password"
+                        title={user.authProvider === 'oidc' ? "Single sign-on users have no local password" : "Reset password"}
+                        disabled={user.authProvider === 'oidc'}
                       >
                         <KeyRound className="h-4 w-4" />
                       </Button>
@@ -648,14 +734,14 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
                           title={
                             isUserLastAdmin(user.id) 
                               ? "Cannot delete the last admin account" 
-                              : user.isAdmin 
+                              : user.role === 'admin'
                               ? "Delete admin user (warning: this is an admin account)" 
                               : "Delete user"
                           }
                           className={
                             isUserLastAdmin(user.id)
                               ? "text-muted-foreground hover:text-muted-foreground cursor-not-allowed opacity-50"
-                              : user.isAdmin
+                              : user.role === 'admin'
                               ? "text-orange-600 dark:text-orange-400 hover:text-orange-700 dark:hover:text-orange-300"
                               : "text-destructive hover:text-destructive"
                           }
@@ -731,6 +817,32 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ColoredIcon icon={ShieldCheck} color="green" size="md" />
+            Two-Factor Authentication
+          </CardTitle>
+          <CardDescription>
+            Users set up two-factor authentication with an authenticator app from the user menu.
+            Single sign-on users are not affected, their identity provider handles additional factors.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="require-two-factor"
+              checked={requireTwoFactor}
+              onCheckedChange={handleRequireTwoFactorChange}
+            />
+            <Label htmlFor="require-two-factor">Require two-factor authentication for local accounts</Label>
+          </div>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Users without two-factor authentication are asked to set it up after their next login.
+          </p>
+        </CardContent>
+      </Card>
+
       {/* Create User Dialog */}
       <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
         <DialogContent className="sm:max-w-[500px]">
@@ -802,17 +914,22 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
               )}
             </div>
             <div className="space-y-2">
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="create-is-admin"
-                  checked={formIsAdmin}
-                  onCheckedChange={(checked) => setFormIsAdmin(checked === true)}
-                  disabled={formLoading}
-                />
-                <Label htmlFor="create-is-admin" className="cursor-pointer">
-                  Admin user
-                </Label>
-              </div>
+              <Label htmlFor="create-role">Role</Label>
+              <Select
+                value={formRole}
+                onValueChange={(value) => setFormRole(value as UserRole)}
+                disabled={formLoading}
+              >
+                <SelectTrigger id="create-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoles.map((role) => (
+                    <SelectItem key={role} value={role}>{userRoleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">{roleDescriptions[formRole]}</p>
             </div>
             <div className="space-y-2">
               <div className="flex items-center space-x-2">
@@ -863,17 +980,22 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
               />
             </div>
             <div className="space-y-2">
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="edit-is-admin"
-                  checked={formIsAdmin}
-                  onCheckedChange={(checked) => setFormIsAdmin(checked === true)}
-                  disabled={formLoading}
-                />
-                <Label htmlFor="edit-is-admin" className="cursor-pointer">
-                  Admin user
-                </Label>
-              </div>
+              <Label htmlFor="edit-role">Role</Label>
+              <Select
+                value={formRole}
+                onValueChange={(value) => setFormRole(value as UserRole)}
+                disabled={formLoading}
+              >
+                <SelectTrigger id="edit-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoles.map((role) => (
+                    <SelectItem key={role} value={role}>{userRoleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">{roleDescriptions[formRole]}</p>
             </div>
             <div className="space-y-2">
               <div className="flex items-center space-x-2">
@@ -888,6 +1010,24 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
                 </Label>
               </div>
             </div>
+            {selectedUser?.twoFactorEnabled && (
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="edit-reset-two-factor"
+                    checked={formResetTwoFactor}
+                    onCheckedChange={(checked) => setFormResetTwoFactor(checked === true)}
+                    disabled={formLoading}
+                  />
+                  <Label htmlFor="edit-reset-two-factor" className="cursor-pointer">
+                    Reset two-factor authentication
+                  </Label>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Use this when the user lost their authenticator device. They can log in with their password and set it up again.
+                </p>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => {
@@ -910,7 +1050,7 @@ export function UserManagementForm({ currentUserId }: UserManagementFormProps) {
             <AlertDialogTitle>Delete User</AlertDialogTitle>
             <AlertDialogDescription>
               Are you sure you want to delete user <strong>{selectedUser?.username}</strong>? This action cannot be undone.
-              {selectedUser?.isAdmin && (
+              {selectedUser?.role === 'admin' && (
                 <span className="block mt-2 text-yellow-600 dark:text-yellow-400">
                   Warning: This is an admin user.
                 </span>
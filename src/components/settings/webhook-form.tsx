@@ -0,0 +1,282 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Webhook, Globe, ListPlus, Braces, Plus, Trash2, SendHorizonal, Loader2, RotateCcw } from 'lucide-react';
+import { ColoredIcon } from '@/components/ui/colored-icon';
+import { WebhookConfig, WebhookHeader, WebhookMethod } from '@/lib/types';
+import { defaultWebhookConfig } from '@/lib/default-config';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+
+interface WebhookFormProps {
+  config?: WebhookConfig;
+  onSave: (config: WebhookConfig) => Promise<{ webhook?: WebhookConfig } | void>;
+}
+
+const WEBHOOK_METHODS: WebhookMethod[] = ['POST', 'PUT', 'PATCH'];
+
+// Check the body template locally before saving or testing (placeholders become empty strings)
+function validateBodyTemplate(bodyTemplate: string): string | null {
+  if (!bodyTemplate.trim()) {
+    return 'Body template is required';
+  }
+  try {
+    JSON.parse(bodyTemplate.replace(/\{(\w+)\}/g, ''));
+    return null;
+  } catch (error) {
+    return `Body template is not valid JSON: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+export function WebhookForm({ config, onSave }: WebhookFormProps) {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<WebhookConfig>(config || defaultWebhookConfig);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const bodyTemplateError = validateBodyTemplate(formData.bodyTemplate);
+
+  const updateHeader = (index: number, field: keyof WebhookHeader, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      headers: prev.headers.map((header, i) => (i === index ? { ...header, [field]: value } : header))
+    }));
+  };
+
+  const addHeader = () => {
+    setFormData(prev => ({ ...prev, headers: [...prev.headers, { name: '', value: '' }] }));
+  };
+
+  const removeHeader = (index: number) => {
+    setFormData(prev => ({ ...prev, headers: prev.headers.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = async () => {
+    if (bodyTemplateError) {
+      toast({
+        title: "Validation Error",
+        description: bodyTemplateError,
+        variant: "destructive",
+        duration: 3000,
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await onSave(formData);
+      if (result && result.webhook) {
+        setFormData(result.webhook);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTestMessage = async () => {
+    if (!formData.url.trim() || bodyTemplateError) {
+      toast({
+        title: "Validation Error",
+        description: bodyTemplateError || "Please enter the webhook URL before testing",
+        variant: "destructive",
+        duration: 3000,
+      });
+      return;
+    }
+
+    setIsTesting(true);
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/notifications/test', {
+        method: 'POST',
+        body: JSON.stringify({
+          type: 'webhook',
+          webhookConfig: formData
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to send test webhook');
+      }
+
+      toast({
+        title: "Test Successful",
+        description: "Test webhook sent successfully!",
+        duration: 2000,
+      });
+    } catch (error) {
+      console.error('Error sending test webhook:', error instanceof Error ? error.message : String(error));
+      toast({
+        title: "Test Failed",
+        description: error instanceof Error ? error.message : "Failed to send test webhook",
+        variant: "destructive",
+        duration: 3000,
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6" data-screenshot-target="settings-content-card">
+      <Card variant="modern">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <ColoredIcon icon={Webhook} color="purple" size="lg" />
+            <div>
+              <CardTitle>Webhook Configuration</CardTitle>
+              <CardDescription className="mt-1">
+                Send notifications to any HTTP endpoint (chat tools, incident management, automation platforms).
+                Enable the webhook per backup in the Backup Notifications settings.
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_140px] gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url" className="flex items-center gap-2">
+                <ColoredIcon icon={Globe} color="blue" size="sm" />
+                Webhook URL
+              </Label>
+              <Input
+                id="webhook-url"
+                value={formData.url || ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, url: e.target.value }))}
+                placeholder="https://example.com/hooks/duplistatus"
+                type="url"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-method">Method</Label>
+              <Select
+                value={formData.method || 'POST'}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, method: value as WebhookMethod }))}
+              >
+                <SelectTrigger id="webhook-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEBHOOK_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>{method}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Leave the URL empty to disable the webhook channel.
+          </p>
+
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <ColoredIcon icon={ListPlus} color="yellow" size="sm" />
+              Custom Headers (Optional)
+            </Label>
+            {formData.headers.map((header, index) => (
+              <div key={index} className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  value={header.name}
+                  onChange={(e) => updateHeader(index, 'name', e.target.value)}
+                  placeholder="Header name (e.g. Authorization)"
+                  className="sm:w-64"
+                  aria-label={`Header ${index + 1} name`}
+                />
+                <Input
+                  value={header.value}
+                  onChange={(e) => updateHeader(index, 'value', e.target.value)}
+                  placeholder="Header value"
+                  className="flex-1"
+                  aria-label={`Header ${index + 1} value`}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => removeHeader(index)}
+                  title="Remove header"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={addHeader}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Header
+            </Button>
+            <p className="text-sm text-muted-foreground">
+              Requests are sent with <code>Content-Type: application/json</code> unless overridden here.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="webhook-body" className="flex items-center gap-2">
+                <ColoredIcon icon={Braces} color="green" size="sm" />
+                JSON Body Template
+              </Label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setFormData(prev => ({ ...prev, bodyTemplate: defaultWebhookConfig.bodyTemplate }))}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset to Default
+              </Button>
+            </div>
+            <Textarea
+              id="webhook-body"
+              value={formData.bodyTemplate}
+              onChange={(e) => setFormData(prev => ({ ...prev, bodyTemplate: e.target.value }))}
+              className="min-h-[262px] font-mono text-sm"
+            />
+            {bodyTemplateError ? (
+              <p className="text-sm text-red-600">{bodyTemplateError}</p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Use the same variables as the notification templates (e.g. <code>{'{server_name}'}</code>, <code>{'{backup_name}'}</code>, <code>{'{status}'}</code>),
+                plus <code>{'{event}'}</code> (backup, overdue, operation or test), <code>{'{title}'}</code> and <code>{'{message}'}</code> with the rendered notification template.
+                Values are JSON-escaped, so place variables inside quoted strings.
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3 pt-4">
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !!bodyTemplateError}
+              variant="gradient"
+              className="w-full sm:w-auto"
+            >
+              {isSaving ? "Saving..." : "Save Settings"}
+            </Button>
+
+            <Button
+              onClick={handleTestMessage}
+              disabled={isTesting || !formData.url.trim() || !!bodyTemplateError}
+              variant="outline"
+              className="w-full sm:w-auto"
+            >
+              {isTesting ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                <>
+                  <SendHorizonal className="w-4 h-4" />
+                  Send Test Webhook
+                </>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
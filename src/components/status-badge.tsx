@@ -1,12 +1,13 @@
-import type { BackupStatus } from "@/lib/types";
+import type { BackupAcknowledgement, BackupStatus } from "@/lib/types";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle2, XCircle, AlertTriangle, HelpCircle, AlertOctagon } from "lucide-react";
+import { CheckCircle2, XCircle, AlertTriangle, HelpCircle, AlertOctagon, UserCheck } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { LucideIcon } from "lucide-react";
 
 interface StatusBadgeProps {
   status: BackupStatus | 'N/A';
   onClick?: () => void;
+  acknowledgement?: BackupAcknowledgement | null; // marks the problem of the backup as being handled
 }
 
 interface StatusConfig {
@@ -17,7 +18,14 @@ interface StatusConfig {
 }
 
 
-export function StatusBadge({ status, onClick }: StatusBadgeProps) {
+// Tooltip text of an acknowledged backup problem
+export function getAcknowledgementTitle(acknowledgement: BackupAcknowledgement): string {
+  const assignee = acknowledgement.assignee ? `, assigned to ${acknowledgement.assignee}` : '';
+  const comment = acknowledgement.comment ? ` - ${acknowledgement.comment}` : '';
+  return `Acknowledged by ${acknowledgement.acknowledgedBy}${assignee}${comment}`;
+}
+
+export function StatusBadge({ status, onClick, acknowledgement }: StatusBadgeProps) {
   const statusConfig: Record<BackupStatus | 'N/A', StatusConfig> = {
     Success: { icon: CheckCircle2, color: "bg-emerald-500 hover:bg-emerald-600", text: "text-emerald-50" },
     Unknown: { icon: HelpCircle, color: "bg-gray-400 hover:bg-gray-500", text: "text-gray-50" },
@@ -41,9 +49,11 @@ export function StatusBadge({ status, onClick }: StatusBadgeProps) {
       )}
       onClick={onClick}
       role={onClick ? "button" : undefined}
+      title={acknowledgement ? getAcknowledgementTitle(acknowledgement) : undefined}
     >
       <IconComponent className={cn("h-3.5 w-3.5", config.animate)} />
       <span>{status}</span>
+      {acknowledgement && <UserCheck className="h-3.5 w-3.5" aria-label="Acknowledged" />}
     </Badge>
   );
 }
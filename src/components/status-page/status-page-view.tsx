@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Image from 'next/image';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { StatusBadge } from '@/components/status-badge';
+import { getStatusColorForBar } from '@/components/ui/backup-status-bar';
+import { formatRelativeTime } from '@/lib/utils';
+import type { StatusPageBackup, StatusPageDay, StatusPageView as StatusPageViewData } from '@/lib/types';
+import { Clock } from 'lucide-react';
+import DupliLogo from '../../../public/images/duplistatus_logo.png';
+
+// Public pages reload their data every minute
+const STATUS_PAGE_REFRESH_MS = 60 * 1000;
+
+function getDayTitle(day: StatusPageDay): string {
+  if (!day.status) {
+    return `${day.date}: no backup`;
+  }
+  return `${day.date}: ${day.status} (${day.runs} run${day.runs === 1 ? '' : 's'})`;
+}
+
+function DailyStatusBar({ days }: { days: StatusPageDay[] }) {
+  return (
+    <div className="flex gap-0.5">
+      {days.map(day => (
+        <div
+          key={day.date}
+          title={getDayTitle(day)}
+          className={`flex-1 h-6 rounded-sm ${day.status ? getStatusColorForBar(day.status) : 'border border-gray-700 bg-transparent'}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+function StatusPageBackupRow({ backup, now }: { backup: StatusPageBackup; now: Date }) {
+  return (
+    <div className="space-y-2 py-4 border-b last:border-b-0">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="font-medium">{backup.backupName}</div>
+          <div className="text-sm text-muted-foreground">{backup.serverName}</div>
+        </div>
+        <div className="flex items-center gap-3">
+          {backup.isOverdue && (
+            <span className="flex items-center gap-1 text-sm text-yellow-500" title={`Expected ${formatRelativeTime(backup.expectedBackupDate, now)}`}>
+              <Clock className="h-4 w-4" />
+              Overdue
+            </span>
+          )}
+          <StatusBadge status={backup.lastBackupStatus} />
+        </div>
+      </div>
+      <DailyStatusBar days={backup.days} />
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{backup.days.length} days ago</span>
+        <span title={backup.lastBackupDate}>
+          {backup.lastBackupDate && backup.lastBackupDate !== 'N/A'
+            ? `Last backup ${formatRelativeTime(backup.lastBackupDate, now)}`
+            : 'No backup received'}
+        </span>
+        <span>Today</span>
+      </div>
+    </div>
+  );
+}
+
+export function StatusPageView({ view }: { view: StatusPageViewData }) {
+  const router = useRouter();
+  const now = new Date(view.generatedAt);
+
+  useEffect(() => {
+    const interval = setInterval(() => router.refresh(), STATUS_PAGE_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [router]);
+
+  return (
+    <div className="min-h-screen w-full max-w-4xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center gap-3">
+        <Image src={DupliLogo} alt="duplistatus Logo" width={40} height={40} />
+        <h1 className="text-3xl font-semibold">{view.title}</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Backups</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {view.backups.length === 0 ? (
+            <div className="text-center py-4 text-muted-foreground">No backups to show</div>
+          ) : (
+            view.backups.map(backup => (
+              <StatusPageBackupRow key={`${backup.serverName}:${backup.backupName}`} backup={backup} now={now} />
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <p className="text-xs text-muted-foreground text-center">
+        Updated {now.toISOString().slice(0, 16).replace('T', ' ')} UTC · Powered by duplistatus
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import QRCode from 'qrcode';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { TogglePasswordInput } from '@/components/ui/toggle-password-input';
+import { Check, Copy, Loader2, ShieldCheck } from 'lucide-react';
+import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
+
+interface TwoFactorModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  required?: boolean;
+}
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorEnrollment {
+  secret: string;
+  qrCodeDataUrl: string;
+}
+
+// Steps of the dialog: status overview, QR code enrollment, new recovery codes
+type TwoFactorStep = 'status' | 'setup' | 'recovery-codes';
+
+export function TwoFactorModal({ open, onOpenChange, required = false }: TwoFactorModalProps) {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [step, setStep] = useState<TwoFactorStep>('status');
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [copiedCodes, setCopiedCodes] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await authenticatedRequestWithRecovery('/api/auth/two-factor');
+      if (!response.ok) {
+        throw new Error('Failed to load two-factor authentication status');
+      }
+      setStatus(await response.json());
+    } catch (error) {
+      console.error('Error loading two-factor status:', error instanceof Error ? error.message : String(error));
+      setError('Failed to load two-factor authentication status');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      loadStatus();
+    }
+  }, [open, loadStatus]);
+
+  // Reset the dialog when it closes
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setStep('status');
+      setEnrollment(null);
+      setCode('');
+      setPassword('');
+      setRecoveryCodes([]);
+      setCopiedCodes(false);
+      setError('');
+    }
+    onOpenChange(newOpen);
+  };
+
+  // POST to a two-factor endpoint, returns the response data or null (and shows the error)
+  const postTwoFactor = async (path: string, body: Record<string, string> = {}) => {
+    setError('');
+    setLoading(true);
+    try {
+      const response = await authenticatedRequestWithRecovery(`/api/auth/two-factor/${path}`, {
+        method: 'POST',
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Two-factor request error:', error instanceof Error ? error.message : String(error));
+      setError('An unexpected error occurred');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    const data = await postTwoFactor('setup');
+    if (data) {
+      const qrCodeDataUrl = await QRCode.toDataURL(data.otpauthUrl, {
+        width: 300,
+        margin: 2,
+        color: {
+          dark: '#000000',
+          light: '#FFFFFF'
+        }
+      });
+      setEnrollment({ secret: data.secret, qrCodeDataUrl });
+      setCode('');
+      setStep('setup');
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await postTwoFactor('enable', { code });
+    if (data) {
+      setRecoveryCodes(data.recoveryCodes);
+      setStep('recovery-codes');
+    }
+  };
+
+  const handleRegenerateCodes = async () => {
+    const data = await postTwoFactor('recovery-codes', { password });
+    if (data) {
+      setPassword('');
+      setRecoveryCodes(data.recoveryCodes);
+      setStep('recovery-codes');
+    }
+  };
+
+  const handleDisable = async () => {
+    const data = await postTwoFactor('disable', { password });
+    if (data) {
+      setPassword('');
+      await loadStatus();
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    setCopiedCodes(true);
+    setTimeout(() => setCopiedCodes(false), 2000);
+  };
+
+  const handleDone = () => {
+    handleOpenChange(false);
+    if (required) {
+      // Reload so the enrollment is no longer requested
+      window.location.reload();
+    }
+  };
+
+  // While enrollment is required the dialog can only be closed after saving the recovery codes
+  const canClose = !required || step === 'recovery-codes';
+
+  return (
+    <Dialog open={open} onOpenChange={canClose ? handleOpenChange : () => {}}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Two-Factor Authentication</DialogTitle>
+          <DialogDescription>
+            {required
+              ? 'Your administrator requires two-factor authentication. Set up an authenticator app before continuing.'
+              : 'Protect your account with a code from an authenticator app in addition to your password.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 p-3">
+            <div className="text-sm text-destructive">{error}</div>
+          </div>
+        )}
+
+        {step === 'status' && !status && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {step === 'status' && status && !status.enabled && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Two-factor authentication is not enabled. You will need an authenticator app
+              (e.g. Google Authenticator, Microsoft Authenticator, Aegis or 1Password) on your phone.
+            </p>
+            <DialogFooter>
+              {!required && (
+                <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={loading}>
+                  Cancel
+                </Button>
+              )}
+              <Button type="button" onClick={handleStartSetup} disabled={loading}>
+                {loading ? 'Starting...' : 'Set Up'}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {step === 'status' && status?.enabled && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm text-green-600 dark:text-green-400">
+              <ShieldCheck className="h-4 w-4" />
+              Two-factor authentication is enabled ({status.recoveryCodesRemaining} recovery codes left)
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-password">Password</Label>
+              <TogglePasswordInput
+                id="two-factor-password"
+                value={password}
+                onChange={setPassword}
+                placeholder="Confirm your password"
+                disabled={loading}
+              />
+              <p className="text-sm text-muted-foreground">
+                Enter your password to generate new recovery codes or to disable two-factor authentication.
+                {status.required && ' Two-factor authentication is required, you will be asked to set it up again after disabling it.'}
+              </p>
+            </div>
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={handleRegenerateCodes} disabled={loading || !password}>
+                New Recovery Codes
+              </Button>
+              <Button type="button" variant="destructive" onClick={handleDisable} disabled={loading || !password}>
+                Disable
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === 'setup' && enrollment && (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Scan the QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <div className="flex justify-center">
+              <div className="p-4 bg-white rounded-lg">
+                <Image
+                  src={enrollment.qrCodeDataUrl}
+                  alt="Two-factor authentication QR code"
+                  width={200}
+                  height={200}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Or enter this key manually</Label>
+              <p className="font-mono text-sm break-all">{enrollment.secret}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-code">Verification Code</Label>
+              <Input
+                id="two-factor-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                disabled={loading}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={loading || code.length !== 6}>
+                {loading ? 'Verifying...' : 'Enable'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+
+        {step === 'recovery-codes' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Save these recovery codes in a safe place. Each code can be used once to log in without your authenticator app.{' '}
+              <strong className="text-destructive">They will not be shown again!</strong>
+            </p>
+            <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-3 font-mono text-sm">
+              {recoveryCodes.map(recoveryCode => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={copyRecoveryCodes}>
+                {copiedCodes ? <Check className="h-4 w-4 mr-2 text-green-600" /> : <Copy className="h-4 w-4 mr-2" />}
+                Copy Codes
+              </Button>
+              <Button type="button" onClick={handleDone}>
+                Done
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import { UserCheck, UserX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useGlobalRefresh } from "@/contexts/global-refresh-context";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { authenticatedRequestWithRecovery } from "@/lib/client-session-csrf";
+import type { BackupAcknowledgement, BackupProblemState } from "@/lib/types";
+
+interface AcknowledgeBackupButtonProps {
+  serverId: string;
+  backupName: string;
+  problemState: BackupProblemState;
+  acknowledgement: BackupAcknowledgement | null;
+  className?: string;
+}
+
+// Acknowledge the failed or overdue state of a backup with a comment and an assignee, or remove the acknowledgement
+// (operators and admins). Not used inside tooltips: the dialog would close with the tooltip.
+export function AcknowledgeBackupButton({ serverId, backupName, problemState, acknowledgement, className }: AcknowledgeBackupButtonProps) {
+  const { toast } = useToast();
+  const { refreshDashboard } = useGlobalRefresh();
+  const currentUser = useCurrentUser();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [comment, setComment] = useState('');
+  const [assignee, setAssignee] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openDialog = () => {
+    setComment('');
+    setAssignee(currentUser?.username || '');
+    setDialogOpen(true);
+  };
+
+  const sendRequest = async (method: 'POST' | 'DELETE', body: Record<string, unknown>) => {
+    const response = await authenticatedRequestWithRecovery('/api/backups/acknowledge', {
+      method,
+      body: JSON.stringify({ serverId, backupName, ...body }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result?.error || 'Request failed');
+    }
+  };
+
+  const handleAcknowledge = async () => {
+    try {
+      setIsSaving(true);
+      await sendRequest('POST', { comment, assignee: assignee.trim() || null });
+      toast({
+        title: `Backup "${backupName}" acknowledged`,
+        description: 'Notifications for this problem are paused until the backup changes state.',
+        duration: 3000,
+      });
+      setDialogOpen(false);
+      await refreshDashboard();
+    } catch (error) {
+      toast({
+        title: `Backup "${backupName}" acknowledgement failed`,
+        description: error instanceof Error ? error.message : 'Failed to acknowledge backup.',
+        variant: 'destructive',
+        duration: 3500,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      setIsSaving(true);
+      await sendRequest('DELETE', {});
+      toast({
+        title: `Backup "${backupName}" acknowledgement removed`,
+        description: 'Notifications for this problem are sent again.',
+        duration: 3000,
+      });
+      await refreshDashboard();
+    } catch (error) {
+      toast({
+        title: `Backup "${backupName}" acknowledgement removal failed`,
+        description: error instanceof Error ? error.message : 'Failed to remove acknowledgement.',
+        variant: 'destructive',
+        duration: 3500,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const buttonClassName = className ?? "text-xs flex items-center gap-1 hover:text-blue-500 transition-colors px-2 py-1 rounded disabled:opacity-50";
+
+  if (acknowledgement) {
+    return (
+      <button
+        className={buttonClassName}
+        onClick={(e) => {
+          e.stopPropagation();
+          void handleRemove();
+        }}
+        disabled={isSaving}
+        title="Remove the acknowledgement and notify this problem again"
+      >
+        <UserX className="h-3 w-3" />
+        <span>{isSaving ? 'Removing...' : 'Unacknowledge'}</span>
+      </button>
+    );
+  }
+
+  return (
+    <>
+      <button
+        className={buttonClassName}
+        onClick={(e) => {
+          e.stopPropagation();
+          openDialog();
+        }}
+        disabled={isSaving}
+        title={`Mark the ${problemState} backup as being handled`}
+      >
+        <UserCheck className="h-3 w-3" />
+        <span>Acknowledge</span>
+      </button>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        {/* Clicks in the portal bubble to the parent row through the React tree */}
+        <DialogContent className="sm:max-w-[500px]" onClick={(e) => e.stopPropagation()}>
+          <DialogHeader>
+            <DialogTitle>Acknowledge {problemState === 'failed' ? 'Failed' : 'Overdue'} Backup</DialogTitle>
+            <DialogDescription>
+              <strong>{backupName}</strong> is marked as being handled. Its {problemState} notifications are not sent again
+              until the backup changes state, and the acknowledgement is cleared by the next successful backup.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="acknowledge-assignee">Assignee</Label>
+              <Input
+                id="acknowledge-assignee"
+                value={assignee}
+                onChange={(e) => setAssignee(e.target.value)}
+                placeholder="Who is handling it"
+                maxLength={100}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="acknowledge-comment">Comment (Optional)</Label>
+              <Textarea
+                id="acknowledge-comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="e.g. Disk full on the backup target, cleaning up"
+                maxLength={500}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleAcknowledge} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Acknowledge'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import { TrendingUp } from "lucide-react";
+import type { BackupAnomaly } from "@/lib/types";
+import { formatAnomaly } from "@/lib/utils";
+
+interface AnomalyBadgeProps {
+  anomalies: BackupAnomaly[];
+}
+
+// Shown on backup runs whose duration or size differs from the recent runs of the same backup
+export function AnomalyBadge({ anomalies }: AnomalyBadgeProps) {
+  const title = `Unusual run compared to the recent runs of this backup:\n${anomalies.map(formatAnomaly).join('\n')}`;
+
+  return (
+    <span
+      title={title}
+      className="inline-flex items-center gap-1 rounded-full border border-orange-500/40 bg-orange-500/10 px-2 py-0.5 text-xs text-orange-500 whitespace-nowrap"
+    >
+      <TrendingUp className="h-3 w-3" />
+      Anomaly
+    </span>
+  );
+}
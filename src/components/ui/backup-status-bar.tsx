@@ -0,0 +1,45 @@
+"use client";
+
+import type { BackupStatus } from "@/lib/types";
+
+// Helper function to get status color for backup status bars
+export function getStatusColorForBar(status: BackupStatus): string {
+  switch (status) {
+    case 'Success':
+      return 'bg-green-500';
+    case 'Warning':
+      return 'bg-yellow-500';
+    case 'Error':
+    case 'Fatal':
+      return 'bg-red-500';
+    default:
+      return 'bg-gray-400';
+  }
+}
+
+// Component for backup status bar using narrow rectangular blocks
+export function BackupStatusBar({ statusHistory }: { statusHistory: BackupStatus[] }) {
+  // Use the last 10 statuses for the status bar
+  const recentStatuses = statusHistory.length <= 10 ? statusHistory : statusHistory.slice(-10);
+  
+  return (
+    <div className="flex gap-0.5">
+      {/* Fill remaining slots if less than 10 statuses */}
+      {Array.from({ length: Math.max(0, 10 - recentStatuses.length) }, (_, index) => (
+        <div
+          key={`empty-${index}`}
+          className="w-1 h-3 border border-gray-700 rounded-sm bg-transparent"
+        />
+      ))}
+      {recentStatuses.map((status, index) => {
+        const statusColor = getStatusColorForBar(status);  
+        return (
+          <div 
+            key={index} 
+            className={`w-1 h-3 ${statusColor} rounded-sm`}
+          />
+        );
+      })}
+    </div>
+  );
+}
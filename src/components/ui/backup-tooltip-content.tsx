@@ -1,10 +1,11 @@
 "use client";
 
 import { useRouter } from 'next/navigation';
-import type { BackupStatus, NotificationEvent } from "@/lib/types";
-import { formatRelativeTime, formatBytes, getStatusColor } from "@/lib/utils";
-import { AlertTriangle, Settings, MessageSquareMore, MessageSquareOff, Trash2 } from "lucide-react";
+import type { ActiveMaintenance, BackupAcknowledgement, BackupStatus, NotificationEvent } from "@/lib/types";
+import { formatRelativeTime, formatBytes, getStatusColor, hasRequiredRole } from "@/lib/utils";
+import { AlertTriangle, Settings, MessageSquareMore, MessageSquareOff, Trash2, Wrench, UserCheck } from "lucide-react";
 import { ServerConfigurationButton } from "@/components/ui/server-configuration-button";
+import { SnoozeBackupButton } from "@/components/ui/snooze-backup-button";
 import { useCurrentUser } from "@/hooks/use-current-user";
 import { useToast } from "@/hooks/use-toast";
 import { authenticatedRequestWithRecovery } from "@/lib/client-session-csrf";
@@ -47,6 +48,8 @@ interface BackupTooltipContentProps {
   isOverdue: boolean;
   expectedBackupDate: string;
   notificationEvent?: NotificationEvent;
+  maintenance?: ActiveMaintenance | null;
+  acknowledgement?: BackupAcknowledgement | null;
 }
 
 export function BackupTooltipContent({
@@ -67,6 +70,8 @@ export function BackupTooltipContent({
   isOverdue,
   expectedBackupDate,
   notificationEvent,
+  maintenance,
+  acknowledgement,
 }: BackupTooltipContentProps) {
   const router = useRouter();
   const currentUser = useCurrentUser();
@@ -231,6 +236,61 @@ export function BackupTooltipContent({
                 : "N/A"}
             </div>
           </div>
+          {!maintenance && hasRequiredRole(currentUser?.role, 'operator') && (
+            <SnoozeBackupButton serverId={serverId} backupName={backupName} />
+          )}
+        </div>
+      )}
+
+      {/* Maintenance information section */}
+      {maintenance && (
+        <div className="border-t pt-3 space-y-3">
+          <div className="font-semibold text-sm text-blue-500 flex items-center gap-2">
+            <Wrench className="h-4 w-4" />
+            In Maintenance
+          </div>
+          
+          <div className="grid grid-cols-[80px_1fr] gap-x-3 gap-y-1 text-xs">
+            <div className="text-muted-foreground text-right">Until:</div>
+            <div className="font-semibold text-left">
+              {new Date(maintenance.until).toLocaleString() + " (" + formatRelativeTime(maintenance.until) + ")"}
+            </div>
+            {maintenance.reason && (
+              <>
+                <div className="text-muted-foreground text-right">Reason:</div>
+                <div className="text-left">{maintenance.reason}</div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+      
+      {/* Acknowledgement information section */}
+      {acknowledgement && (
+        <div className="border-t pt-3 space-y-3">
+          <div className="font-semibold text-sm text-blue-500 flex items-center gap-2">
+            <UserCheck className="h-4 w-4" />
+            Acknowledged
+          </div>
+          
+          <div className="grid grid-cols-[80px_1fr] gap-x-3 gap-y-1 text-xs">
+            <div className="text-muted-foreground text-right">By:</div>
+            <div className="font-semibold text-left">
+              {acknowledgement.acknowledgedBy} ({formatRelativeTime(acknowledgement.acknowledgedAt)})
+            </div>
+            {acknowledgement.assignee && (
+              <>
+                <div className="text-muted-foreground text-right">Assignee:</div>
+                <div className="font-semibold text-left">{acknowledgement.assignee}</div>
+              </>
+            )}
+            {acknowledgement.comment && (
+              <>
+                <div className="text-muted-foreground text-right">Comment:</div>
+                <div className="text-left">{acknowledgement.comment}</div>
+              </>
+            )}
+          </div>
         </div>
       )}
       
@@ -0,0 +1,33 @@
+"use client";
+
+import { Wrench } from "lucide-react";
+import type { ActiveMaintenance } from "@/lib/types";
+import { formatRelativeTime } from "@/lib/utils";
+
+interface MaintenanceBadgeProps {
+  maintenance: ActiveMaintenance;
+  compact?: boolean; // icon only, the reason and end are in the title
+}
+
+// Shown on backups whose notifications are suppressed by a maintenance window or a snooze
+export function MaintenanceBadge({ maintenance, compact = false }: MaintenanceBadgeProps) {
+  const title = `In maintenance until ${new Date(maintenance.until).toLocaleString()}${maintenance.reason ? ` - ${maintenance.reason}` : ''}`;
+
+  if (compact) {
+    return (
+      <span title={title} className="inline-flex flex-shrink-0">
+        <Wrench className="h-3 w-3 text-blue-500" />
+      </span>
+    );
+  }
+
+  return (
+    <span
+      title={title}
+      className="inline-flex items-center gap-1 rounded-full border border-blue-500/40 bg-blue-500/10 px-2 py-0.5 text-xs text-blue-500 whitespace-nowrap"
+    >
+      <Wrench className="h-3 w-3" />
+      In maintenance, ends {formatRelativeTime(maintenance.until)}
+    </span>
+  );
+}
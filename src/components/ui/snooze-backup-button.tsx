@@ -0,0 +1,70 @@
+"use client";
+
+import { useState } from "react";
+import { BellOff } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useGlobalRefresh } from "@/contexts/global-refresh-context";
+import { authenticatedRequestWithRecovery } from "@/lib/client-session-csrf";
+import { defaultSnoozeHours } from "@/lib/default-config";
+
+interface SnoozeBackupButtonProps {
+  serverId: string;
+  backupName: string;
+  className?: string;
+}
+
+// Suppress the notifications of an overdue or failing backup for 24 hours (operators and admins)
+export function SnoozeBackupButton({ serverId, backupName, className }: SnoozeBackupButtonProps) {
+  const { toast } = useToast();
+  const { refreshDashboard } = useGlobalRefresh();
+  const [isSnoozing, setIsSnoozing] = useState(false);
+
+  const handleSnooze = async () => {
+    if (isSnoozing) return;
+
+    try {
+      setIsSnoozing(true);
+      const response = await authenticatedRequestWithRecovery('/api/maintenance-windows/snooze', {
+        method: 'POST',
+        body: JSON.stringify({ serverId, backupName, hours: defaultSnoozeHours }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result?.error || 'Failed to snooze backup');
+      }
+
+      toast({
+        title: `Backup "${backupName}" snoozed`,
+        description: `Notifications are suppressed until ${new Date(result.window.endTime).toLocaleString()}.`,
+        duration: 3000,
+      });
+
+      await refreshDashboard();
+    } catch (error) {
+      toast({
+        title: `Backup "${backupName}" snooze failed`,
+        description: error instanceof Error ? error.message : 'Failed to snooze backup.',
+        variant: 'destructive',
+        duration: 3500,
+      });
+    } finally {
+      setIsSnoozing(false);
+    }
+  };
+
+  return (
+    <button
+      className={className ?? "text-xs flex items-center gap-1 hover:text-blue-500 transition-colors px-2 py-1 rounded disabled:opacity-50"}
+      onClick={(e) => {
+        e.stopPropagation();
+        void handleSnooze();
+      }}
+      disabled={isSnoozing}
+      title={`Suppress the notifications of this backup for ${defaultSnoozeHours} hours`}
+    >
+      <BellOff className="h-3 w-3" />
+      <span>{isSnoozing ? 'Snoozing...' : `Snooze ${defaultSnoozeHours}h`}</span>
+    </button>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
-import { NotificationFrequencyConfig, OverdueTolerance, NtfyConfig, EmailConfig, NotificationTemplate, BackupNotificationConfig, BackupKey, ServerAddress } from '@/lib/types';
+import { NotificationFrequencyConfig, OverdueTolerance, NtfyConfig, EmailConfig, EmailRecipientGroup, NotificationTemplates, BackupNotificationConfig, BackupKey, ServerAddress, WebhookConfig, OperationNotificationConfig } from '@/lib/types';
 import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
 
 export interface ServerWithBackup {
@@ -16,11 +16,11 @@ export interface ServerWithBackup {
 
 interface UnifiedConfiguration {
   ntfy: NtfyConfig;
-  templates: {
-    success: NotificationTemplate;
-    warning: NotificationTemplate;
-    overdueBackup: NotificationTemplate;
-  };
+  webhook?: WebhookConfig;
+  templates: NotificationTemplates;
+  operation_notifications?: OperationNotificationConfig;
+  notify_state_changes_only?: boolean;
+  email_recipient_groups?: EmailRecipientGroup[];
   email?: EmailConfig;
   // New canonical field from API
   backup_settings: Record<BackupKey, BackupNotificationConfig>;
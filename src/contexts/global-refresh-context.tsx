@@ -1,14 +1,54 @@
 "use client";
 
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import { usePathname } from 'next/navigation';
 import { useConfig } from './config-context';
 import { useConfiguration } from './configuration-context';
 import { authenticatedRequestWithRecovery } from '@/lib/client-session-csrf';
-import type { ServerSummary, OverallSummary, ChartDataPoint } from '@/lib/types';
+import { liveEventTypes, calculateOverallSummary, isNonBackupOperationType } from '@/lib/utils';
+import type { ServerSummary, OverallSummary, ChartDataPoint, LiveEvent, OverdueChangedEvent } from '@/lib/types';
 
 type PageType = 'dashboard' | 'detail' | 'none';
 
+// Events arriving within this delay are handled with a single refresh (e.g. a collection storing many backups)
+const LIVE_EVENT_DEBOUNCE_MS = 1000;
+
+// Only match main detail pages, not backup detail pages
+function getDetailServerId(pathname: string): string | null {
+  const match = pathname.match(/^\/detail\/([^\/]+)$/);
+  return match ? match[1] : null;
+}
+
+// Servers whose dashboard summary changed with the live events (new backups, collections that stored backups)
+function getChangedServerIds(events: LiveEvent[]): string[] {
+  const serverIds = events
+    .filter(event => event.type === 'backup-received'
+      ? !isNonBackupOperationType(event.operation)
+      : event.type === 'collection-completed' && event.processed > 0)
+    .map(event => event.serverId);
+  return [...new Set(serverIds)];
+}
+
+// The overdue check only changes the overdue flag of a backup, applied without fetching the server
+function applyOverdueChange(serversSummary: ServerSummary[], event: OverdueChangedEvent): ServerSummary[] {
+  return serversSummary.map(server => {
+    if (server.id !== event.serverId) return server;
+    const backupInfo = server.backupInfo.map(backup =>
+      backup.name === event.backupName ? { ...backup, isBackupOverdue: event.isOverdue } : backup
+    );
+    return { ...server, backupInfo, haveOverdueBackups: backupInfo.some(backup => backup.isBackupOverdue) };
+  });
+}
+
+// Replace the summaries of updated servers, servers seen for the first time are added
+function mergeServers(serversSummary: ServerSummary[], updatedServers: ServerSummary[]): ServerSummary[] {
+  const newServers = updatedServers.filter(updated => !serversSummary.some(server => server.id === updated.id));
+  return [
+    ...serversSummary.map(server => updatedServers.find(updated => updated.id === server.id) || server),
+    ...newServers,
+  ];
+}
+
 interface GlobalRefreshState {
   isEnabled: boolean;
   interval: number;
@@ -16,6 +56,8 @@ interface GlobalRefreshState {
   nextRefresh: Date | null;
   currentPage: PageType;
   isRefreshing: boolean;
+  // True while the live events stream (/api/events) is connected, the timer is only a fallback then
+  liveUpdates: boolean;
   pageSpecificLoading: {
     dashboard: boolean;
     detail: boolean;
@@ -31,6 +73,17 @@ interface GlobalRefreshState {
   visibleCardIndex: number;
 }
 
+type DashboardData = NonNullable<GlobalRefreshState['dashboardData']>;
+
+// Dashboard data with new server summaries, the totals are recalculated from them
+function withServersSummary(dashboardData: DashboardData, serversSummary: ServerSummary[]): DashboardData {
+  return {
+    ...dashboardData,
+    serversSummary,
+    overallSummary: { ...dashboardData.overallSummary, ...calculateOverallSummary(serversSummary) },
+  };
+}
+
 interface GlobalRefreshContextProps {
   state: GlobalRefreshState;
   refreshDashboard: () => Promise<void>;
@@ -54,6 +107,7 @@ export const GlobalRefreshProvider = ({ children }: { children: React.ReactNode
     nextRefresh: null,
     currentPage: 'none',
     isRefreshing: false,
+    liveUpdates: false,
     pageSpecificLoading: {
       dashboard: false,
       detail: false,
@@ -185,6 +239,63 @@ export const GlobalRefreshProvider = ({ children }: { children: React.ReactNode
     }
   }, [refreshConfigSilently]);
 
+  // Latest dashboard data for the live updates, without reopening the events stream on every change
+  const dashboardDataRef = useRef(state.dashboardData);
+  useEffect(() => {
+    dashboardDataRef.current = state.dashboardData;
+  }, [state.dashboardData]);
+
+  // Live updates of the dashboard: overdue changes are applied directly and only the servers with
+  // new backups are fetched again (with the chart), instead of reloading the whole dashboard
+  const applyDashboardEvents = useCallback(async (events: LiveEvent[]) => {
+    const overdueEvents = events.filter((event): event is OverdueChangedEvent => event.type === 'overdue-changed');
+    const changedServerIds = getChangedServerIds(events);
+    if (overdueEvents.length === 0 && changedServerIds.length === 0) return;
+
+    // The dashboard starts with the data rendered by the server, load it once before updating it
+    if (!dashboardDataRef.current) {
+      await refreshDashboard();
+      return;
+    }
+
+    if (overdueEvents.length > 0) {
+      setState(prev => prev.dashboardData ? {
+        ...prev,
+        lastRefresh: new Date(),
+        dashboardData: withServersSummary(prev.dashboardData, overdueEvents.reduce(applyOverdueChange, prev.dashboardData.serversSummary)),
+      } : prev);
+    }
+    if (changedServerIds.length === 0) return;
+
+    try {
+      const [serverResponses, chartResponse] = await Promise.all([
+        Promise.all(changedServerIds.map(serverId => authenticatedRequestWithRecovery(`/api/dashboard/${encodeURIComponent(serverId)}`))),
+        authenticatedRequestWithRecovery('/api/chart-data/aggregated'),
+      ]);
+
+      if (!chartResponse.ok) {
+        throw new Error('Failed to fetch chart data');
+      }
+      const chartData = await chartResponse.json() as ChartDataPoint[];
+
+      // Servers that are not found anymore (e.g. deleted meanwhile) are left as they are
+      const updatedServers = await Promise.all(serverResponses
+        .filter(response => response.ok)
+        .map(async response => (await response.json() as { server: ServerSummary }).server));
+
+      setState(prev => prev.dashboardData ? {
+        ...prev,
+        lastRefresh: new Date(),
+        dashboardData: {
+          ...withServersSummary(prev.dashboardData, mergeServers(prev.dashboardData.serversSummary, updatedServers)),
+          allServersChartData: chartData,
+        },
+      } : prev);
+    } catch (error) {
+      console.error('Error applying live dashboard updates:', error instanceof Error ? error.message : String(error));
+    }
+  }, [refreshDashboard]);
+
   // Update current page when pathname changes and detect dashboard returns
   useEffect(() => {
     const pageType = getCurrentPageType();
@@ -211,9 +322,61 @@ export const GlobalRefreshProvider = ({ children }: { children: React.ReactNode
     setPreviousPathname(pathname);
   }, [pathname, getCurrentPageType, previousPathname, state.isRefreshing, state.refreshInProgress, refreshDashboard]);
 
-  // Auto-refresh effect
+  // Live updates: update the current page when the server reports new backups, collections or overdue changes.
+  // The stream is open on every dashboard and detail page, the auto-refresh toggle only controls the fallback timer
+  const pendingLiveEvents = useRef<LiveEvent[]>([]);
+
+  useEffect(() => {
+    if (state.currentPage === 'none' || typeof EventSource === 'undefined') return;
+
+    const eventSource = new EventSource('/api/events');
+    let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const applyLiveEvents = () => {
+      debounceTimer = null;
+      const events = pendingLiveEvents.current;
+      pendingLiveEvents.current = [];
+
+      if (state.currentPage === 'dashboard') {
+        applyDashboardEvents(events);
+      } else if (state.currentPage === 'detail') {
+        // Detail pages only change for events of their own server
+        const serverId = getDetailServerId(pathname);
+        if (serverId && events.some(event => event.serverId === serverId)) {
+          refreshDetail(serverId);
+        }
+      }
+    };
+
+    const handleLiveEvent = (message: MessageEvent<string>) => {
+      try {
+        pendingLiveEvents.current.push(JSON.parse(message.data) as LiveEvent);
+      } catch {
+        return;
+      }
+      if (!debounceTimer) {
+        debounceTimer = setTimeout(applyLiveEvents, LIVE_EVENT_DEBOUNCE_MS);
+      }
+    };
+
+    liveEventTypes.forEach(type => eventSource.addEventListener(type, handleLiveEvent));
+    eventSource.onopen = () => setState(prev => ({ ...prev, liveUpdates: true }));
+    // The browser reconnects on its own, timer refreshes take over until it does
+    eventSource.onerror = () => setState(prev => ({ ...prev, liveUpdates: false }));
+
+    return () => {
+      if (debounceTimer) {
+        clearTimeout(debounceTimer);
+      }
+      pendingLiveEvents.current = [];
+      eventSource.close();
+      setState(prev => ({ ...prev, liveUpdates: false }));
+    };
+  }, [state.currentPage, pathname, applyDashboardEvents, refreshDetail]);
+
+  // Auto-refresh effect (fallback while live updates are not connected)
   useEffect(() => {
-    if (!state.isEnabled || state.currentPage === 'none') return;
+    if (!state.isEnabled || state.liveUpdates || state.currentPage === 'none') return;
 
     const intervalMs = state.interval * 60 * 1000; // interval is in minutes
     const interval = setInterval(() => {
@@ -221,16 +384,15 @@ export const GlobalRefreshProvider = ({ children }: { children: React.ReactNode
         refreshDashboard();
       } else if (state.currentPage === 'detail') {
         // For detail pages, we need the serverId from the URL
-        // Only match main detail pages, not backup detail pages
-        const match = pathname.match(/^\/detail\/([^\/]+)$/);
-        if (match) {
-          refreshDetail(match[1]);
+        const serverId = getDetailServerId(pathname);
+        if (serverId) {
+          refreshDetail(serverId);
         }
       }
     }, intervalMs);
 
     return () => clearInterval(interval);
-  }, [state.isEnabled, state.interval, state.currentPage, pathname, refreshDashboard, refreshDetail]);
+  }, [state.isEnabled, state.liveUpdates, state.interval, state.currentPage, pathname, refreshDashboard, refreshDetail]);
 
   const toggleAutoRefresh = () => {
     const newEnabled = !state.isEnabled;
@@ -1,10 +1,20 @@
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import * as cron from 'node-cron';
 import { checkOverdueBackups } from '@/lib/overdue-backup-checker';
+import { runScheduledBackupCollection } from '@/lib/scheduled-collection';
+import { deliverPendingNotifications } from '@/lib/notifications';
+import { sendBackupDigest } from '@/lib/backup-digest';
+import { runDatabaseMaintenance } from '@/lib/database-maintenance';
 import { AuditLogger } from '@/lib/audit-logger';
 import { getConfiguration } from '@/lib/db-utils';
 import { CronServiceStatus, TaskExecutionResult, CronServiceConfig, OverdueBackupCheckResult } from '@/lib/types';
 import { getCronConfig } from '@/lib/db-utils';
+import { waitForDatabaseReady } from '@/lib/db';
+import { recordCronTaskRun, getLastCronTaskRunStatus } from '@/lib/cron-task-runs';
+import { verifyCronServiceAuthorization } from '@/lib/secrets';
+
+// A scan of the port would otherwise write an audit log entry per request
+const REJECTION_LOG_INTERVAL_MS = 60 * 1000;
 
 const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
 
@@ -14,16 +24,105 @@ class CronService {
   private lastRunTimes: Record<string, string> = {};
   private errors: Record<string, string> = {};
   private config: CronServiceConfig;
+  // Rejected requests are audit logged at most once per source IP and minute
+  private rejectionLog = new Map<string, { loggedAt: number; rejected: number }>();
 
   constructor(config: CronServiceConfig) {
     this.config = config;
     this.setupExpress();
     this.setupTasks();
+    void this.restoreTaskRunStatus();
+  }
+
+  // Last run times and errors survive a restart, they are restored from the task run history
+  private async restoreTaskRunStatus() {
+    try {
+      await waitForDatabaseReady();
+      const { lastRunTimes, errors } = getLastCronTaskRunStatus();
+      // Tasks that ran while the history was loading already have a newer status
+      const ranTasks = new Set([...Object.keys(this.lastRunTimes), ...Object.keys(this.errors)]);
+      Object.entries(lastRunTimes).forEach(([taskName, lastRunTime]) => {
+        if (!ranTasks.has(taskName)) this.lastRunTimes[taskName] = lastRunTime;
+      });
+      Object.entries(errors).forEach(([taskName, error]) => {
+        if (!ranTasks.has(taskName)) this.errors[taskName] = error;
+      });
+    } catch (error) {
+      console.error(`[CronService] ${timestamp()}: Error restoring task run history:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+
+  // Only the application (/api/cron proxy) can call the service, with the shared secret of secrets.ts
+  private async authenticate(req: Request, res: Response, next: NextFunction) {
+    const authorization = req.get('authorization');
+    let authorized = false;
+    try {
+      authorized = verifyCronServiceAuthorization(authorization);
+    } catch (error) {
+      console.error(`[CronService] ${timestamp()}: Error reading the cron service secret:`, error instanceof Error ? error.message : String(error));
+    }
+    if (authorized) {
+      next();
+      return;
+    }
+
+    res.status(401).json({ error: 'Unauthorized' });
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    const rejectedRequests = this.countRejectedRequest(ipAddress);
+    if (rejectedRequests === null) {
+      return;
+    }
+
+    const userAgent = req.get('user-agent') || 'unknown';
+    const reason = authorization ? 'Invalid cron service token' : 'No cron service token provided';
+    console.warn(`[CronService] ${timestamp()}: Rejected unauthenticated request ${req.method} ${req.path} from IP: ${ipAddress}`);
+    await AuditLogger.log({
+      userId: null,
+      username: 'system',
+      action: authorization ? 'cron_service_rejected_invalid_token' : 'cron_service_rejected_no_token',
+      category: 'system',
+      targetType: 'cron_service',
+      targetId: `${req.method} ${req.path}`,
+      details: {
+        ip: ipAddress,
+        user_agent: userAgent,
+        reason,
+        rejected_requests: rejectedRequests
+      },
+      ipAddress,
+      userAgent,
+      status: 'failure'
+    });
   }
 
+  // Count a rejected request of the IP, returns the rejections since its last audit log entry (this one included),
+  // or null while the IP was already logged in the last minute
+  private countRejectedRequest(ipAddress: string): number | null {
+    const now = Date.now();
+    const entry = this.rejectionLog.get(ipAddress);
+    if (entry && now - entry.loggedAt < REJECTION_LOG_INTERVAL_MS) {
+      entry.rejected++;
+      return null;
+    }
+
+    // Forget the IPs that were not rejected in the last minute, the map stays small during a scan
+    for (const [address, { loggedAt }] of this.rejectionLog) {
+      if (now - loggedAt >= REJECTION_LOG_INTERVAL_MS) {
+        this.rejectionLog.delete(address);
+      }
+    }
+    this.rejectionLog.set(ipAddress, { loggedAt: now, rejected: 0 });
+    return (entry?.rejected || 0) + 1;
+  }
 
   private setupExpress() {
 
+    // Every endpoint requires the shared secret, including the health check (it exposes the task errors)
+    this.app.use((req: Request, res: Response, next: NextFunction) => {
+      void this.authenticate(req, res, next);
+    });
     this.app.use(express.json());
 
     // Health check endpoint
@@ -108,7 +207,12 @@ class CronService {
   private setupTasks() {
     Object.entries(this.config.tasks).forEach(([taskName, config]) => {
       if (config.enabled) {
-        this.startTask(taskName);
+        // An invalid schedule only stops its own task (the error is logged by startTask)
+        try {
+          this.startTask(taskName);
+        } catch {
+          this.errors[taskName] = `Invalid task configuration for ${taskName}`;
+        }
       }
     });
   }
@@ -125,14 +229,26 @@ class CronService {
       //console.log(`[CronService] ${timestamp()}: Running scheduled task: ${taskName}`);
       await this.executeTask(taskName);
     }, {
-      timezone: 'UTC'
+      timezone: taskConfig.timezone || 'UTC'
     });
 
     this.tasks.set(taskName, task);
-    console.log(`[CronService] ${timestamp()}: Task ${taskName} scheduled with cron expression: ${taskConfig.cronExpression.replace(/\s+/g, ' ').trim()}`);
+    console.log(`[CronService] ${timestamp()}: Task ${taskName} scheduled with cron expression: ${taskConfig.cronExpression.replace(/\s+/g, ' ').trim()} (${taskConfig.timezone || 'UTC'})`);
   }
 
+  // Run a task and store the execution in the task run history
   private async executeTask(taskName: string): Promise<TaskExecutionResult> {
+    const startedAt = new Date();
+    const result = await this.runTask(taskName);
+    try {
+      recordCronTaskRun(result, startedAt, new Date());
+    } catch (error) {
+      console.error(`[CronService] ${timestamp()}: Error recording run of task ${taskName}:`, error instanceof Error ? error.message : String(error));
+    }
+    return result;
+  }
+
+  private async runTask(taskName: string): Promise<TaskExecutionResult> {
     // console.log(`[CronService] ${timestamp()}: Executing task: ${taskName}`);
     try {
       let result: OverdueBackupCheckResult | { deletedCount: number; message: string };
@@ -158,6 +274,57 @@ class CronService {
             success: true,
             message: result.message,
           };
+        case 'backup-collection': {
+          const collectionResult = await runScheduledBackupCollection();
+          console.log(`[CronService] ${timestamp()}: Task ${taskName} executed successfully: ${collectionResult.message}`);
+          this.lastRunTimes[taskName] = new Date().toISOString();
+          delete this.errors[taskName];
+          return {
+            taskName,
+            success: true,
+            message: collectionResult.message,
+            statistics: collectionResult.statistics
+          };
+        }
+        case 'backup-digest': {
+          const digestResult = await sendBackupDigest();
+          console.log(`[CronService] ${timestamp()}: Task ${taskName} executed successfully: ${digestResult.message}`);
+          this.lastRunTimes[taskName] = new Date().toISOString();
+          delete this.errors[taskName];
+          return {
+            taskName,
+            success: true,
+            message: digestResult.message,
+            statistics: digestResult.statistics
+          };
+        }
+        case 'notification-delivery': {
+          const deliveryResult = await deliverPendingNotifications();
+          const { delivered, retried, deadLettered } = deliveryResult.statistics;
+          if (delivered + retried + deadLettered > 0) { // runs every minute, only log when messages were due
+            console.log(`[CronService] ${timestamp()}: Task ${taskName} executed successfully: ${deliveryResult.message}`);
+          }
+          this.lastRunTimes[taskName] = new Date().toISOString();
+          delete this.errors[taskName];
+          return {
+            taskName,
+            success: true,
+            message: deliveryResult.message,
+            statistics: deliveryResult.statistics
+          };
+        }
+        case 'database-maintenance': {
+          const maintenanceResult = await runDatabaseMaintenance();
+          console.log(`[CronService] ${timestamp()}: Task ${taskName} executed successfully: ${maintenanceResult.message}`);
+          this.lastRunTimes[taskName] = new Date().toISOString();
+          delete this.errors[taskName];
+          return {
+            taskName,
+            success: true,
+            message: maintenanceResult.message,
+            statistics: maintenanceResult.statistics
+          };
+        }
         default:
           throw new Error(`Unknown task: ${taskName}`);
       }
@@ -1,10 +1,12 @@
 "use client";
 
 import { useState, useEffect } from 'react';
+import type { UserRole } from '@/lib/types';
 
 interface CurrentUser {
   id: string;
   username: string;
+  role: UserRole;
   isAdmin: boolean;
   mustChangePassword?: boolean;
 }
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import bcrypt from 'bcrypt';
+import { db } from './db';
+import { getConfiguration } from './db-utils';
+import { AuditLogger } from './audit-logger';
+import { getClientIpAddress } from './ip-utils';
+import { isServerScopingEnabled } from './server-access';
+
+/**
+ * API key authentication for external endpoints (upload, metrics)
+ * Keys are read from the `api_key` query parameter or the `x-api-key` header
+ */
+
+export interface ApiKeyAuthOptions {
+  // Prefix for the audit log actions (e.g. 'upload' -> 'upload_rejected_no_api_key')
+  scope: string;
+  // Log successful authentications (disable for endpoints polled frequently)
+  logSuccess?: boolean;
+}
+
+/**
+ * Check if an endpoint requires an API key, based on a 'true'/'false' configuration value
+ */
+export function isApiKeyRequired(configKey: string): boolean {
+  return getConfiguration(configKey) === 'true';
+}
+
+function getRequestApiKey(request: NextRequest): string | null {
+  const url = new URL(request.url);
+  return url.searchParams.get('api_key') ||
+         request.headers.get('x-api-key');
+}
+
+/**
+ * Validate the API key sent with the request
+ * Returns an error response when the key is missing or invalid, null when the request may proceed
+ */
+export async function authenticateApiKey(
+  request: NextRequest,
+  { scope, logSuccess = true }: ApiKeyAuthOptions
+): Promise<NextResponse | null> {
+  const ipAddress = getClientIpAddress(request);
+  const userAgent = request.headers.get('user-agent') || 'unknown';
+
+  // Get API key from query parameter or header
+  const apiKey = getRequestApiKey(request);
+
+  if (!apiKey) {
+    await AuditLogger.log({
+      userId: null,
+      username: 'system',
+      action: `${scope}_rejected_no_api_key`,
+      category: 'system',
+      details: {
+        ip: ipAddress,
+        user_agent: userAgent,
+        reason: 'No API key provided'
+      },
+      ipAddress,
+      userAgent,
+      status: 'failure'
+    });
+
+    return NextResponse.json(
+      { error: 'API key required' },
+      { status: 401 }
+    );
+  }
+
+  // Verify API key
+  const apiKeys = db.prepare(
+    'SELECT id, name, key_hash FROM api_keys WHERE enabled = 1'
+  ).all() as { id: string; name: string; key_hash: string }[];
+
+  let validKey: { id: string; name: string } | null = null;
+  for (const key of apiKeys) {
+    if (await bcrypt.compare(apiKey, key.key_hash)) {
+      validKey = { id: key.id, name: key.name };
+      break;
+    }
+  }
+
+  if (!validKey) {
+    await AuditLogger.log({
+      userId: null,
+      username: 'system',
+      action: `${scope}_rejected_invalid_api_key`,
+      category: 'system',
+      details: {
+        ip: ipAddress,
+        user_agent: userAgent,
+        attempted_key_prefix: apiKey.substring(0, 8) + '...',
+        reason: 'Invalid or disabled API key'
+      },
+      ipAddress,
+      userAgent,
+      status: 'failure'
+    });
+
+    return NextResponse.json(
+      { error: 'Invalid API key' },
+      { status: 401 }
+    );
+  }
+
+  // Update last_used_at and usage_count
+  db.prepare(`
+    UPDATE api_keys
+    SET last_used_at = CURRENT_TIMESTAMP,
+        usage_count = usage_count + 1
+    WHERE id = ?
+  `).run(validKey.id);
+
+  if (logSuccess) {
+    await AuditLogger.log({
+      userId: null,
+      username: 'system',
+      action: `${scope}_authenticated`,
+      category: 'system',
+      details: {
+        api_key_name: validKey.name,
+        api_key_id: validKey.id,
+        ip: ipAddress
+      },
+      ipAddress,
+      userAgent,
+      status: 'success'
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Check a call without a session to an endpoint returning server data (metrics, summary, last backups)
+ * Once server groups exist such calls need an API key. API keys are issued by admins and are not
+ * tied to a server group, so a valid key reads the data of every server, like an admin
+ * Returns an error response when the call is denied, null when it may proceed
+ */
+export async function authenticateUnscopedApiKey(
+  request: NextRequest,
+  options: ApiKeyAuthOptions
+): Promise<NextResponse | null> {
+  if (!isServerScopingEnabled()) {
+    return null;
+  }
+  if (!getRequestApiKey(request)) {
+    return NextResponse.json(
+      { error: 'Authentication required', message: 'A session or an API key is required when server groups are configured' },
+      { status: 401 }
+    );
+  }
+  return authenticateApiKey(request, options);
+}
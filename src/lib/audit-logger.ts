@@ -1,4 +1,5 @@
 import { dbOps, ensureDatabaseInitialized } from './db';
+import { getUserServerGroupNames, getServerGroupNamesForServer } from './server-access';
 
 const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
 
@@ -74,8 +75,8 @@ export class AuditLogger {
       // Ensure database is ready
       await ensureDatabaseInitialized();
 
-      // Sanitize details (remove sensitive data)
-      const sanitizedDetails = entry.details ? this.sanitizeDetails(entry.details) : null;
+      // Sanitize details (remove sensitive data) and add the tenant context
+      const sanitizedDetails = this.addTenantContext(entry, entry.details ? this.sanitizeDetails(entry.details) : null);
 
       // Insert audit log entry
       const ipToStore = entry.ipAddress || null;
@@ -426,6 +427,35 @@ export class AuditLogger {
     }
   }
 
+  /**
+   * Add the tenant context (server groups of the user and of the target server) to the details
+   */
+  private static addTenantContext(entry: AuditLogEntry, details: Record<string, unknown> | null): Record<string, unknown> | null {
+    try {
+      const tenant: Record<string, string[]> = {};
+      
+      // Server groups of the user performing the action
+      const userServerGroups = entry.userId ? getUserServerGroupNames(entry.userId) : [];
+      if (userServerGroups.length > 0) {
+        tenant.userServerGroups = userServerGroups;
+      }
+      
+      // Server groups of the server the action applies to
+      const targetServerGroups = entry.targetType === 'server' && entry.targetId ? getServerGroupNamesForServer(entry.targetId) : [];
+      if (targetServerGroups.length > 0) {
+        tenant.targetServerGroups = targetServerGroups;
+      }
+      
+      if (Object.keys(tenant).length === 0) {
+        return details;
+      }
+      return { ...(details || {}), tenant };
+    } catch {
+      // Server groups are not available yet (e.g. before migration 4.3)
+      return details;
+    }
+  }
+
   /**
    * Sanitize details object to remove sensitive information
    */
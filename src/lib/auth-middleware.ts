@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { dbOps, ensureDatabaseInitialized } from './db';
 import { validateSession, getUserIdFromSession } from './session-csrf';
+import { isTwoFactorRequired } from './two-factor';
+import { hasRequiredRole, toUserRole, userRoleLabels } from './utils';
+import type { AuthProvider, UserRole } from './types';
 
 /**
  * Authentication middleware for protecting API routes
@@ -10,14 +13,18 @@ import { validateSession, getUserIdFromSession } from './session-csrf';
 export interface AuthenticatedRequest extends NextRequest {
   userId?: string;
   username?: string;
-  isAdmin?: boolean;
+  role?: UserRole;
 }
 
 export interface AuthContext {
   userId: string;
   username: string;
-  isAdmin: boolean;
+  role: UserRole;
+  isAdmin: boolean; // role === 'admin'
+  authProvider: AuthProvider;
   mustChangePassword: boolean;
+  twoFactorEnabled: boolean;
+  twoFactorSetupRequired: boolean; // 2FA is required by the admin but not set up yet (local accounts only)
 }
 
 /**
@@ -51,7 +58,9 @@ export async function getAuthContext(request: NextRequest): Promise<AuthContext
     const user = dbOps.getUserById.get(userId) as {
       id: string;
       username: string;
-      is_admin: number;
+      role: string;
+      auth_provider: AuthProvider;
+      totp_enabled: number;
       must_change_password: number;
       locked_until: string | null;
     } | undefined;
@@ -68,11 +77,17 @@ export async function getAuthContext(request: NextRequest): Promise<AuthContext
       }
     }
 
+    const role = toUserRole(user.role);
+
     return {
       userId: user.id,
       username: user.username,
-      isAdmin: user.is_admin === 1,
+      role,
+      isAdmin: role === 'admin',
+      authProvider: user.auth_provider,
       mustChangePassword: user.must_change_password === 1,
+      twoFactorEnabled: user.totp_enabled === 1,
+      twoFactorSetupRequired: user.auth_provider === 'local' && user.totp_enabled !== 1 && isTwoFactorRequired(),
     };
   } catch (error) {
     console.error('[Auth] Error getting auth context:', error);
@@ -80,9 +95,32 @@ export async function getAuthContext(request: NextRequest): Promise<AuthContext
   }
 }
 
+// Routes a session can use while the required two-factor authentication is not set up yet:
+// the setup itself, the current user, logout and the password change that comes before the setup
+const twoFactorSetupPaths = ['/api/auth/two-factor', '/api/auth/me', '/api/auth/logout', '/api/auth/change-password'];
+
+/**
+ * Check if a session must set up two-factor authentication before using this route
+ * (the setup prompt of the app header is not enough, the API is called directly too)
+ */
+function isBlockedByTwoFactorSetup(request: NextRequest, authContext: AuthContext): boolean {
+  if (!authContext.twoFactorSetupRequired) {
+    return false;
+  }
+  const { pathname } = new URL(request.url);
+  return !twoFactorSetupPaths.some(path => pathname === path || pathname.startsWith(`${path}/`));
+}
+
+function twoFactorSetupRequiredResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'Two-factor authentication setup required', twoFactorSetupRequired: true },
+    { status: 403 }
+  );
+}
+
 /**
  * Middleware wrapper to require authentication
- * Returns 401 if not authenticated
+ * Returns 401 if not authenticated, 403 while the required two-factor authentication is not set up
  */
 export function requireAuth(
   handler: (request: NextRequest, context: AuthContext) => Promise<NextResponse>
@@ -97,18 +135,25 @@ export function requireAuth(
       );
     }
 
+    if (isBlockedByTwoFactorSetup(request, authContext)) {
+      return twoFactorSetupRequiredResponse();
+    }
+
     return handler(request, authContext);
   };
 }
 
 /**
- * Middleware wrapper to require admin role
- * Returns 401 if not authenticated, 403 if not admin
+ * Middleware wrapper to require a minimum role (viewer < operator < admin)
+ * Returns 401 if not authenticated, 403 if the user's role is not sufficient
+ * or while the required two-factor authentication is not set up
+ * Extra route arguments (e.g. dynamic route params) are passed through to the handler
  */
-export function requireAdmin(
-  handler: (request: NextRequest, context: AuthContext) => Promise<NextResponse>
+export function requireRole<T extends unknown[]>(
+  role: UserRole,
+  handler: (request: NextRequest, context: AuthContext, ...args: T) => Promise<Response>
 ) {
-  return async (request: NextRequest): Promise<NextResponse> => {
+  return async (request: NextRequest, ...args: T): Promise<Response> => {
     const authContext = await getAuthContext(request);
 
     if (!authContext) {
@@ -118,14 +163,18 @@ export function requireAdmin(
       );
     }
 
-    if (!authContext.isAdmin) {
+    if (isBlockedByTwoFactorSetup(request, authContext)) {
+      return twoFactorSetupRequiredResponse();
+    }
+
+    if (!hasRequiredRole(authContext.role, role)) {
       return NextResponse.json(
-        { error: 'Administrator access required' },
+        { error: `${userRoleLabels[role]} access required` },
         { status: 403 }
       );
     }
 
-    return handler(request, authContext);
+    return handler(request, authContext, ...args);
   };
 }
 
@@ -3,11 +3,14 @@ import { redirect } from 'next/navigation';
 import { dbOps, ensureDatabaseInitialized } from './db';
 import { validateSession, getUserIdFromSession } from './session-csrf';
 import { getRequestUrl, requestUrlStorage } from './request-url-storage';
+import { toUserRole } from './utils';
+import type { UserRole } from './types';
 
 export interface ServerAuthContext {
   userId: string;
   username: string;
-  isAdmin: boolean;
+  role: UserRole;
+  isAdmin: boolean; // role === 'admin'
   mustChangePassword: boolean;
 }
 
@@ -61,7 +64,7 @@ export async function requireServerAuth(): Promise<ServerAuthContext> {
   const user = dbOps.getUserById.get(userId) as {
     id: string;
     username: string;
-    is_admin: number;
+    role: string;
     must_change_password: number;
     locked_until: string | null;
   } | undefined;
@@ -82,10 +85,13 @@ export async function requireServerAuth(): Promise<ServerAuthContext> {
   // The change password modal will be auto-opened by the app header
   // The modal cannot be closed until password is changed (when required=true)
 
+  const role = toUserRole(user.role);
+
   return {
     userId: user.id,
     username: user.username,
-    isAdmin: user.is_admin === 1,
+    role,
+    isAdmin: role === 'admin',
     mustChangePassword: user.must_change_password === 1,
   };
 }
@@ -123,7 +129,7 @@ export async function getServerAuth(): Promise<ServerAuthContext | null> {
     const user = dbOps.getUserById.get(userId) as {
       id: string;
       username: string;
-      is_admin: number;
+      role: string;
       must_change_password: number;
       locked_until: string | null;
     } | undefined;
@@ -140,10 +146,13 @@ export async function getServerAuth(): Promise<ServerAuthContext | null> {
       }
     }
 
+    const role = toUserRole(user.role);
+
     return {
       userId: user.id,
       username: user.username,
-      isAdmin: user.is_admin === 1,
+      role,
+      isAdmin: role === 'admin',
       mustChangePassword: user.must_change_password === 1,
     };
   } catch (error) {
@@ -0,0 +1,67 @@
+import { getConfigBackupAcknowledgements, setConfigBackupAcknowledgements, getCurrentAcknowledgement } from './db-utils';
+import { getBackupProblemState } from './utils';
+import type { BackupAcknowledgement, BackupKey, BackupProblemState, BackupStatus } from './types';
+
+/**
+ * Acknowledgements of failed and overdue backups ("seen, being handled")
+ * An acknowledged problem is not notified again until the backup changes state:
+ * the next run that is not failed clears a "failed" acknowledgement, any new run clears an "overdue" one.
+ */
+
+/**
+ * Get the acknowledgement of a backup if it still applies to its current problem state
+ */
+export function getBackupAcknowledgement(backupKey: BackupKey, problemState: BackupProblemState | null): BackupAcknowledgement | null {
+  return getCurrentAcknowledgement(getConfigBackupAcknowledgements()[backupKey], problemState);
+}
+
+/**
+ * Acknowledge the current problem of a backup, replaces a previous acknowledgement
+ */
+export function acknowledgeBackup(
+  backupKey: BackupKey,
+  state: BackupProblemState,
+  comment: string,
+  assignee: string | null,
+  acknowledgedBy: string
+): BackupAcknowledgement {
+  const acknowledgements = getConfigBackupAcknowledgements();
+  const acknowledgement: BackupAcknowledgement = {
+    state,
+    comment,
+    assignee,
+    acknowledgedBy,
+    acknowledgedAt: new Date().toISOString(),
+  };
+
+  acknowledgements[backupKey] = acknowledgement;
+  setConfigBackupAcknowledgements(acknowledgements);
+  return acknowledgement;
+}
+
+/**
+ * Remove the acknowledgement of a backup, returns the removed acknowledgement or null if there was none
+ */
+export function removeBackupAcknowledgement(backupKey: BackupKey): BackupAcknowledgement | null {
+  const acknowledgements = getConfigBackupAcknowledgements();
+  const acknowledgement = acknowledgements[backupKey];
+  if (!acknowledgement) {
+    return null;
+  }
+
+  delete acknowledgements[backupKey];
+  setConfigBackupAcknowledgements(acknowledgements);
+  return acknowledgement;
+}
+
+/**
+ * Clear the acknowledgement of a backup when a new run changes its state, returns the cleared acknowledgement
+ */
+export function clearChangedBackupAcknowledgement(backupKey: BackupKey, status: BackupStatus): BackupAcknowledgement | null {
+  const acknowledgement = getConfigBackupAcknowledgements()[backupKey];
+  if (!acknowledgement || acknowledgement.state === getBackupProblemState(status, false)) {
+    return null;
+  }
+
+  return removeBackupAcknowledgement(backupKey);
+}
@@ -0,0 +1,110 @@
+import { dbOps } from './db';
+import { getAnomalyDetectionConfig } from './db-utils';
+import { anomalySampleSizeLimits, anomalyThresholdLimits } from './default-config';
+import { anomalyMetrics } from './utils';
+import type { AnomalyDetectionConfig, AnomalyMetric, BackupAnomaly, BackupStatus } from './types';
+
+/**
+ * Duration and size anomaly detection on incoming backups
+ * Each statistic of a new run is compared to the median of the last good runs of the same backup.
+ * The distance is measured in median absolute deviations (robust z-score), so a few odd runs
+ * in the baseline do not hide or create anomalies the way a mean and standard deviation would.
+ */
+
+// Scales the median absolute deviation to the standard deviation of a normal distribution
+const MAD_SCALE = 1.4826;
+
+// Lower bound of the deviation, relative to the median: backups with very stable statistics
+// (e.g. the same number of examined files on every run) would flag the smallest change otherwise
+const MIN_RELATIVE_DEVIATION = 0.1;
+
+export type BackupStatistics = Record<AnomalyMetric, number>;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function isWholeNumberInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Validate an anomaly detection configuration received from the settings
+ * Runs needed before checking a backup are limited to the baseline size.
+ */
+export function isValidAnomalyDetectionConfig(value: unknown): value is AnomalyDetectionConfig {
+  if (!value || typeof value !== 'object') return false;
+  const config = value as Partial<AnomalyDetectionConfig>;
+
+  return typeof config.enabled === 'boolean'
+    && isWholeNumberInRange(config.sampleSize, anomalySampleSizeLimits.min, anomalySampleSizeLimits.max)
+    && isWholeNumberInRange(config.minSamples, anomalySampleSizeLimits.min, config.sampleSize)
+    && !!config.thresholds && typeof config.thresholds === 'object'
+    && anomalyMetrics.every(metric => {
+      const threshold = config.thresholds?.[metric];
+      return typeof threshold === 'number' && Number.isFinite(threshold)
+        && threshold >= anomalyThresholdLimits.min && threshold <= anomalyThresholdLimits.max;
+    });
+}
+
+/**
+ * Compare a value to its baseline, returns the anomaly or null when the value is normal
+ */
+export function checkAnomaly(metric: AnomalyMetric, value: number, baseline: number[], threshold: number): BackupAnomaly | null {
+  const baselineMedian = median(baseline);
+
+  // A statistic dropping to zero (nothing examined, nothing uploaded) is always suspicious
+  if (value === 0) {
+    return baselineMedian > 0 ? { metric, value, median: baselineMedian, score: null } : null;
+  }
+
+  const mad = median(baseline.map(sample => Math.abs(sample - baselineMedian)));
+  const deviation = Math.max(MAD_SCALE * mad, MIN_RELATIVE_DEVIATION * Math.abs(baselineMedian));
+  if (deviation === 0) {
+    return null;
+  }
+
+  const score = Math.abs(value - baselineMedian) / deviation;
+  return score > threshold ? { metric, value, median: baselineMedian, score: Math.round(score * 10) / 10 } : null;
+}
+
+/**
+ * Detect the anomalies of a new backup run, returns null when the run is normal or cannot be checked
+ * Failed runs are not checked (their statistics are partial) and are not part of the baseline.
+ */
+export function detectBackupAnomalies(
+  serverId: string,
+  backupName: string,
+  date: string,
+  status: BackupStatus,
+  statistics: BackupStatistics
+): BackupAnomaly[] | null {
+  const config = getAnomalyDetectionConfig();
+  if (!config.enabled || status === 'Error' || status === 'Fatal') {
+    return null;
+  }
+
+  const baseline = dbOps.getBackupAnomalyBaseline.all({
+    serverId,
+    backupName,
+    date,
+    limit: config.sampleSize,
+  }) as BackupStatistics[];
+  if (baseline.length < config.minSamples) {
+    return null;
+  }
+
+  const anomalies = anomalyMetrics
+    .filter(metric => config.thresholds[metric] > 0)
+    .map(metric => checkAnomaly(
+      metric,
+      Number(statistics[metric]) || 0,
+      baseline.map(row => Number(row[metric]) || 0),
+      config.thresholds[metric]
+    ))
+    .filter((anomaly): anomaly is BackupAnomaly => anomaly !== null);
+
+  return anomalies.length > 0 ? anomalies : null;
+}
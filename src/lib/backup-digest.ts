@@ -0,0 +1,323 @@
+import { dbOps } from './db';
+import { getConfiguration, setConfiguration, getCronConfig, setCronConfig, getServersSummary, getSMTPConfig } from './db-utils';
+import { sendEmailNotification } from './notifications';
+import { defaultDigestConfig, digestTopJobsCount } from './default-config';
+import { escapeHtml, formatBytes, formatDurationHuman, isValidEmailRecipient, weekdayNames } from './utils';
+import type { BackupDigest, BackupStatus, DigestBackupJob, DigestConfig, DigestEmail, DigestFrequency, DigestResult } from './types';
+
+/**
+ * Backup digest email (cron task 'backup-digest')
+ * A daily or weekly summary of every backup sent to a list of recipients, for people
+ * that do not want an email for each backup: totals, success rate, failed and overdue
+ * jobs, storage growth and slowest jobs over the digest period.
+ */
+
+export const backupDigestTaskName = 'backup-digest';
+const digestConfigKey = 'digest_email';
+
+const digestFrequencies: DigestFrequency[] = ['daily', 'weekly'];
+
+interface DigestRunStatisticsRow {
+  server_id: string;
+  backup_name: string;
+  runs: number;
+  successful_runs: number;
+  failed_runs: number;
+  max_duration: number | null;
+  uploaded_size: number;
+}
+
+interface DigestStorageRow {
+  server_id: string;
+  backup_name: string;
+  storage_size: number | null;
+}
+
+function isWholeNumberInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Validate a digest configuration received from the settings
+ */
+export function isValidDigestConfig(value: unknown): value is DigestConfig {
+  if (!value || typeof value !== 'object') return false;
+  const config = value as Partial<DigestConfig>;
+
+  return typeof config.enabled === 'boolean'
+    && digestFrequencies.includes(config.frequency as DigestFrequency)
+    && isWholeNumberInRange(config.hour, 0, 23)
+    && isWholeNumberInRange(config.weekday, 0, 6)
+    && Array.isArray(config.recipients)
+    && config.recipients.every(isValidEmailRecipient)
+    // A digest without recipients can be previewed but not scheduled
+    && (!config.enabled || config.recipients.length > 0);
+}
+
+export function getDigestConfig(): DigestConfig {
+  try {
+    const parsed = JSON.parse(getConfiguration(digestConfigKey) || '{}') as Partial<DigestConfig>;
+    const config = { ...defaultDigestConfig, ...parsed };
+    return isValidDigestConfig(config) ? config : { ...defaultDigestConfig };
+  } catch {
+    return { ...defaultDigestConfig };
+  }
+}
+
+/**
+ * Cron expression of the digest schedule, in UTC like every cron service task
+ */
+export function getDigestCronExpression(config: DigestConfig): string {
+  return config.frequency === 'weekly'
+    ? `0 ${config.hour} * * ${config.weekday}`
+    : `0 ${config.hour} * * *`;
+}
+
+/**
+ * Save the digest settings and schedule the cron task (the cron service must reload its configuration)
+ */
+export function setDigestConfig(config: DigestConfig): void {
+  setConfiguration(digestConfigKey, JSON.stringify(config));
+
+  const cronConfig = getCronConfig();
+  setCronConfig({
+    ...cronConfig,
+    tasks: {
+      ...cronConfig.tasks,
+      [backupDigestTaskName]: {
+        cronExpression: getDigestCronExpression(config),
+        enabled: config.enabled,
+      },
+    },
+  });
+}
+
+export function describeDigestSchedule(config: DigestConfig): string {
+  const hour = `${String(config.hour).padStart(2, '0')}:00 UTC`;
+  return config.frequency === 'weekly' ? `every ${weekdayNames[config.weekday]} at ${hour}` : `every day at ${hour}`;
+}
+
+function isFailedStatus(status: BackupStatus | 'N/A'): boolean {
+  return status === 'Error' || status === 'Fatal';
+}
+
+/**
+ * Build the digest of the period ending now: one day for daily digests, seven days for weekly digests
+ */
+export async function buildBackupDigest(frequency: DigestFrequency, now: Date = new Date()): Promise<BackupDigest> {
+  const periodEnd = now.toISOString();
+  const periodStart = new Date(now.getTime() - (frequency === 'weekly' ? 7 : 1) * 24 * 60 * 60 * 1000).toISOString();
+
+  const serversSummary = await getServersSummary();
+  const runStatistics = new Map(
+    (dbOps.getDigestRunStatistics.all({ since: periodStart, until: periodEnd }) as DigestRunStatisticsRow[])
+      .map(row => [`${row.server_id}:${row.backup_name}`, row])
+  );
+  const storageAtStart = new Map(
+    (dbOps.getDigestStorageAtDate.all({ date: periodStart }) as DigestStorageRow[])
+      .map(row => [`${row.server_id}:${row.backup_name}`, row.storage_size || 0])
+  );
+
+  const jobs: DigestBackupJob[] = serversSummary.flatMap(server => server.backupInfo.map(backup => {
+    const key = `${server.id}:${backup.name}`;
+    const runs = runStatistics.get(key);
+    const previousStorage = storageAtStart.get(key);
+    return {
+      serverId: server.id,
+      serverName: server.alias || server.name,
+      backupName: backup.name,
+      lastBackupStatus: backup.lastBackupStatus,
+      lastBackupDate: backup.lastBackupDate,
+      isOverdue: backup.isBackupOverdue,
+      expectedBackupDate: backup.expectedBackupDate,
+      runs: runs?.runs || 0,
+      successfulRuns: runs?.successful_runs || 0,
+      failedRuns: runs?.failed_runs || 0,
+      storageSize: backup.storageSize,
+      storageGrowth: previousStorage === undefined ? null : backup.storageSize - previousStorage,
+      maxDurationSeconds: runs?.max_duration ?? null,
+    };
+  }));
+
+  const runCount = jobs.reduce((total, job) => total + job.runs, 0);
+  const successfulRuns = jobs.reduce((total, job) => total + job.successfulRuns, 0);
+
+  return {
+    frequency,
+    periodStart,
+    periodEnd,
+    totals: {
+      servers: serversSummary.length,
+      backupJobs: jobs.length,
+      runs: runCount,
+      successfulRuns,
+      failedRuns: jobs.reduce((total, job) => total + job.failedRuns, 0),
+      successRate: runCount > 0 ? Math.round((successfulRuns / runCount) * 1000) / 10 : null,
+      storageSize: jobs.reduce((total, job) => total + job.storageSize, 0),
+      storageGrowth: jobs.reduce((total, job) => total + (job.storageGrowth || 0), 0),
+      uploadedSize: Array.from(runStatistics.values()).reduce((total, row) => total + (row.uploaded_size || 0), 0),
+    },
+    failedJobs: jobs.filter(job => job.failedRuns > 0 || isFailedStatus(job.lastBackupStatus)),
+    overdueJobs: jobs.filter(job => job.isOverdue),
+    storageGrowthJobs: jobs
+      .filter(job => job.storageGrowth !== null && job.storageGrowth !== 0)
+      .sort((a, b) => Math.abs(b.storageGrowth || 0) - Math.abs(a.storageGrowth || 0))
+      .slice(0, digestTopJobsCount),
+    slowestJobs: jobs
+      .filter(job => job.maxDurationSeconds !== null)
+      .sort((a, b) => (b.maxDurationSeconds || 0) - (a.maxDurationSeconds || 0))
+      .slice(0, digestTopJobsCount),
+  };
+}
+
+function formatDate(value: string): string {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+function formatGrowth(bytes: number): string {
+  return `${bytes < 0 ? '-' : '+'}${formatBytes(Math.abs(bytes))}`;
+}
+
+function formatSuccessRate(digest: BackupDigest): string {
+  return digest.totals.successRate === null ? 'No runs' : `${digest.totals.successRate}%`;
+}
+
+interface DigestSection {
+  title: string;
+  empty: string;
+  columns: string[];
+  rows: string[][];
+}
+
+function getDigestSections(digest: BackupDigest): DigestSection[] {
+  const jobName = (job: DigestBackupJob) => `${job.serverName} / ${job.backupName}`;
+
+  return [
+    {
+      title: 'Failed backups',
+      empty: 'No failed backups.',
+      columns: ['Backup', 'Last status', 'Failed runs', 'Last backup'],
+      rows: digest.failedJobs.map(job => [jobName(job), job.lastBackupStatus, `${job.failedRuns} of ${job.runs}`, formatDate(job.lastBackupDate)]),
+    },
+    {
+      title: 'Overdue backups',
+      empty: 'No overdue backups.',
+      columns: ['Backup', 'Last backup', 'Expected'],
+      rows: digest.overdueJobs.map(job => [jobName(job), formatDate(job.lastBackupDate), formatDate(job.expectedBackupDate)]),
+    },
+    {
+      title: 'Storage growth',
+      empty: 'No storage change.',
+      columns: ['Backup', 'Growth', 'Storage size'],
+      rows: digest.storageGrowthJobs.map(job => [jobName(job), formatGrowth(job.storageGrowth || 0), formatBytes(job.storageSize)]),
+    },
+    {
+      title: 'Slowest backups',
+      empty: 'No backups ran during this period.',
+      columns: ['Backup', 'Longest run', 'Runs'],
+      rows: digest.slowestJobs.map(job => [jobName(job), formatDurationHuman(job.maxDurationSeconds || 0), String(job.runs)]),
+    },
+  ];
+}
+
+/**
+ * Render the digest as an HTML email with inline styles (email clients ignore style sheets) and a plain text alternative
+ */
+export function renderBackupDigestEmail(digest: BackupDigest): DigestEmail {
+  const period = `${formatDate(digest.periodStart)} - ${formatDate(digest.periodEnd)}`;
+  const problems = digest.failedJobs.length + digest.overdueJobs.length;
+  const subject = `duplistatus ${digest.frequency} digest: ${formatSuccessRate(digest)} successful` +
+    (problems > 0 ? `, ${digest.failedJobs.length} failed, ${digest.overdueJobs.length} overdue` : ', no problems');
+
+  const totals: [string, string][] = [
+    ['Servers', String(digest.totals.servers)],
+    ['Backup jobs', String(digest.totals.backupJobs)],
+    ['Backup runs', String(digest.totals.runs)],
+    ['Success rate', formatSuccessRate(digest)],
+    ['Failed runs', String(digest.totals.failedRuns)],
+    ['Uploaded', formatBytes(digest.totals.uploadedSize)],
+    ['Storage', formatBytes(digest.totals.storageSize)],
+    ['Storage growth', formatGrowth(digest.totals.storageGrowth)],
+  ];
+  const sections = getDigestSections(digest);
+
+  const cellStyle = 'padding:6px 10px;border-bottom:1px solid #e5e7eb;text-align:left;font-size:13px;';
+  const html = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+  <div style="max-width:720px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+    <h1 style="margin:0 0 4px;font-size:20px;">Backup ${digest.frequency === 'weekly' ? 'Weekly' : 'Daily'} Digest</h1>
+    <p style="margin:0 0 20px;color:#6b7280;font-size:13px;">${escapeHtml(period)}</p>
+    <table style="width:100%;border-collapse:collapse;margin-bottom:24px;">
+      <tr>${totals.map(([label, value]) => `
+        <td style="padding:8px;text-align:center;border:1px solid #e5e7eb;">
+          <div style="font-size:18px;font-weight:bold;">${escapeHtml(value)}</div>
+          <div style="font-size:11px;color:#6b7280;">${escapeHtml(label)}</div>
+        </td>`).join('')}
+      </tr>
+    </table>${sections.map(section => `
+    <h2 style="margin:24px 0 8px;font-size:16px;">${escapeHtml(section.title)}</h2>${section.rows.length === 0
+      ? `
+    <p style="margin:0;color:#6b7280;font-size:13px;">${escapeHtml(section.empty)}</p>`
+      : `
+    <table style="width:100%;border-collapse:collapse;">
+      <tr>${section.columns.map(column => `<th style="${cellStyle}background:#f9fafb;">${escapeHtml(column)}</th>`).join('')}</tr>${section.rows.map(row => `
+      <tr>${row.map(cell => `<td style="${cellStyle}">${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}
+    </table>`}`).join('')}
+    <p style="margin:24px 0 0;color:#9ca3af;font-size:11px;">Sent by duplistatus. Change the schedule and recipients in Settings → Digest Email.</p>
+  </div>
+</body>
+</html>`;
+
+  const text = [
+    `Backup ${digest.frequency} digest`,
+    period,
+    '',
+    ...totals.map(([label, value]) => `${label}: ${value}`),
+    ...sections.flatMap(section => [
+      '',
+      `${section.title}:`,
+      ...(section.rows.length === 0 ? [section.empty] : section.rows.map(row => `- ${row.join(' | ')}`)),
+    ]),
+  ].join('\n');
+
+  return { subject, html, text };
+}
+
+/**
+ * Build and send the digest to the configured recipients (cron task 'backup-digest')
+ */
+export async function sendBackupDigest(): Promise<DigestResult> {
+  const config = getDigestConfig();
+  if (config.recipients.length === 0) {
+    throw new Error('No digest recipients configured');
+  }
+  if (!getSMTPConfig()) {
+    throw new Error('Email is not configured');
+  }
+
+  const digest = await buildBackupDigest(config.frequency);
+  const email = renderBackupDigestEmail(digest);
+  const statistics = {
+    recipients: config.recipients.length,
+    backupJobs: digest.totals.backupJobs,
+    failedJobs: digest.failedJobs.length,
+    overdueJobs: digest.overdueJobs.length,
+  };
+
+  const { AuditLogger } = await import('@/lib/audit-logger');
+  try {
+    await sendEmailNotification(email.subject, email.html, email.text, config.recipients.join(', '));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await AuditLogger.logSystem('digest_failed', { frequency: config.frequency, ...statistics, error: errorMessage }, 'error', errorMessage);
+    throw error;
+  }
+  await AuditLogger.logSystem('digest_sent', { frequency: config.frequency, ...statistics }, 'success');
+
+  return {
+    message: `Sent the ${config.frequency} digest of ${statistics.backupJobs} backup jobs to ${statistics.recipients} recipients`,
+    statistics,
+  };
+}
@@ -0,0 +1,63 @@
+import { updateConfigBackupIncidents } from './db-utils';
+import type { BackupIncident, BackupKey, BackupStatus } from './types';
+
+/**
+ * Backup incidents (failing or overdue backups)
+ * An incident is opened by the first failed run or overdue check of a backup and closed by its next good run,
+ * which sends the "recovered" notification with the time spent failing and the number of failed runs.
+ * Every change is a read-modify-write in its own write transaction, uploads and the cron service run in different processes.
+ */
+
+/**
+ * Record a failed run, returns true when it starts the failing state
+ * A backup that was only overdue until now also changes state on its first failed run
+ */
+export function recordBackupFailure(backupKey: BackupKey, serverName: string, status: BackupStatus, date: string): boolean {
+  return updateConfigBackupIncidents(incidents => {
+    const incident = incidents[backupKey];
+    const isStateChange = !incident || incident.failedRuns === 0;
+
+    incidents[backupKey] = {
+      since: incident?.since || date,
+      failedRuns: (incident?.failedRuns || 0) + 1,
+      lastStatus: status,
+      serverName,
+    };
+
+    return isStateChange;
+  });
+}
+
+/**
+ * Record an overdue backup, the incident starts at the expected backup date
+ * A backup already failing keeps its incident unchanged
+ */
+export function recordBackupOverdue(backupKey: BackupKey, serverName: string, expectedDate: string): void {
+  updateConfigBackupIncidents(incidents => {
+    if (incidents[backupKey]) {
+      return;
+    }
+
+    incidents[backupKey] = {
+      since: expectedDate,
+      failedRuns: 0,
+      lastStatus: 'Overdue',
+      serverName,
+    };
+  });
+}
+
+/**
+ * Close the incident of a backup after a good run, returns the closed incident or null if it was not failing
+ */
+export function resolveBackupIncident(backupKey: BackupKey): BackupIncident | null {
+  return updateConfigBackupIncidents(incidents => {
+    const incident = incidents[backupKey];
+    if (!incident) {
+      return null;
+    }
+
+    delete incidents[backupKey];
+    return incident;
+  });
+}
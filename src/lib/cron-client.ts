@@ -1,6 +1,7 @@
 // Removed unused imports: CronServiceStatus, TaskExecutionResult
 
-// Use relative path to ensure requests go through our Next.js API route
+// Use relative path to ensure requests go through our Next.js API route,
+// which checks the user session and adds the cron service secret (the browser never sees it)
 const CRON_SERVICE_URL = '/api/cron';
 
 export class CronServiceClient {
@@ -12,4 +12,19 @@ export const cronIntervalMap: Record<CronInterval, { expression: string; enabled
   '30min':    { expression: '*/30   *    *            *     *',            enabled: true,  label: '30 minutes' },
   '1hour':    { expression: '0      *    *            *     *',            enabled: true,  label: '1 hour'     },
   '2hours':   { expression: '0      */2  *            *     *',            enabled: true,  label: '2 hours'    },
-};  
\ No newline at end of file
+};
+
+/**
+ * Find the interval of a task schedule, null for schedules set with a custom cron expression
+ * Expressions are compared field by field, so the spacing of the expression does not matter
+ */
+export function findCronInterval(cronExpression: string, enabled: boolean): CronInterval | null {
+  if (!enabled) {
+    return 'disabled';
+  }
+  const fields = cronExpression.trim().split(/\s+/).join(' ');
+  const entry = Object.entries(cronIntervalMap).find(([, value]) =>
+    value.enabled && value.expression.trim().split(/\s+/).join(' ') === fields
+  );
+  return entry ? entry[0] as CronInterval : null;
+}
@@ -0,0 +1,247 @@
+// Utility functions for cron expression based backup schedules
+// Format: "minute hour day-of-month month day-of-week" (5 fields, like the cron service)
+// Fields accept *, numbers, ranges (1-5), lists (1,15), steps (*/15, 8-18/2) and names (JAN-DEC, SUN-SAT; 7 is also Sunday)
+// All fields must match, like node-cron: "0 2 1-7 * SUN" runs on the first Sunday of the month
+// Runs only depend on the Intl API so the settings page can preview them in the browser
+
+export interface ParsedCronExpression {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0=Sunday ... 6=Saturday
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+// Leap years repeat every 4 years, a schedule with no run in 5 years can never run
+const MAX_SEARCH_DAYS = 5 * 366;
+
+function parseFieldValue(value: string, field: CronField): number {
+  if (value === '') {
+    throw new Error(`Missing ${field.name} value`);
+  }
+  const upper = value.toUpperCase();
+  const nameIndex = field.names ? field.names.indexOf(upper) : -1;
+  if (nameIndex >= 0) {
+    return nameIndex + (field.name === 'month' ? 1 : 0);
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${field.name} value: ${value}`);
+  }
+  const number = parseInt(value, 10);
+  if (number < field.min || number > field.max) {
+    throw new Error(`${field.name} value ${number} is out of range (${field.min}-${field.max})`);
+  }
+  return number;
+}
+
+function parseField(expression: string, field: CronField): number[] {
+  const values = new Set<number>();
+  // Largest useful step: a larger one only matches the start of the range
+  const maxStep = field.max - field.min;
+
+  for (const part of expression.split(',')) {
+    if (part === '') {
+      throw new Error(`Empty ${field.name} value in: ${expression}`);
+    }
+    const [range, stepValue, ...extraSteps] = part.split('/');
+    if (extraSteps.length > 0) {
+      throw new Error(`Invalid ${field.name} step: ${part}`);
+    }
+    if (stepValue === '') {
+      throw new Error(`Missing ${field.name} step in: ${part}`);
+    }
+    const step = stepValue === undefined ? 1 : parseInt(stepValue, 10);
+    if (stepValue !== undefined && (!/^\d+$/.test(stepValue) || step < 1 || step > maxStep)) {
+      throw new Error(`Invalid ${field.name} step: ${stepValue} (must be 1-${maxStep})`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to, ...extraValues] = range.split('-');
+      if (extraValues.length > 0) {
+        throw new Error(`Invalid ${field.name} range: ${range}`);
+      }
+      start = parseFieldValue(from, field);
+      end = parseFieldValue(to, field);
+      if (start > end) {
+        // SUN is 0, a range ending on Sunday is written with 7 (MON-7)
+        const hint = field.name === 'day of week' && end === 0 ? ', use 7 for a range ending on Sunday' : '';
+        throw new Error(`Invalid ${field.name} range: ${range} (${from} is after ${to}${hint})`);
+      }
+    } else {
+      start = parseFieldValue(range, field);
+      // "5/10" starts at 5 and repeats until the end of the field
+      end = stepValue === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a cron expression
+ * @param expression - cron expression like "0 2 * * 1-5"
+ * @returns the values matched by each field
+ */
+export function parseCronExpression(expression: string): ParsedCronExpression {
+  if (!expression || typeof expression !== 'string' || expression.trim() === '') {
+    throw new Error('Cron expression cannot be empty');
+  }
+
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== CRON_FIELDS.length) {
+    throw new Error(`Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, CRON_FIELDS[index]));
+  return {
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    daysOfWeek: new Set(daysOfWeek.map(day => day % 7)),
+  };
+}
+
+/**
+ * Validate a cron expression
+ * @param expression - cron expression to validate
+ * @returns validation result with error message if invalid
+ */
+export function validateCronExpression(expression: string): { isValid: boolean; error?: string } {
+  try {
+    parseCronExpression(expression);
+    return { isValid: true };
+  } catch (error) {
+    return {
+      isValid: false,
+      error: error instanceof Error ? error.message : 'Invalid cron expression'
+    };
+  }
+}
+
+/**
+ * Check if a time zone is known to the Intl API
+ * @param timeZone - IANA time zone like "Europe/Lisbon"
+ * @returns true if valid, false otherwise
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Offset of the time zone from UTC at an instant, in milliseconds
+function getTimeZoneOffset(instant: number, timeZone?: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const value = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+// Convert a wall-clock time of the time zone to an instant
+// Times skipped by a daylight saving change move forward by the size of the change
+function zonedTimeToInstant(year: number, month: number, day: number, hour: number, minute: number, timeZone?: string): number {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const firstGuess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return wallClock - getTimeZoneOffset(firstGuess, timeZone);
+}
+
+function getNextRunOfExpression(schedule: ParsedCronExpression, after: number, timeZone?: string): number | null {
+  // Walk the calendar days of the time zone, starting on the day of the given instant
+  const start = new Date(after + getTimeZoneOffset(after, timeZone));
+  for (let dayIndex = 0; dayIndex <= MAX_SEARCH_DAYS; dayIndex++) {
+    const day = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + dayIndex));
+    const year = day.getUTCFullYear();
+    const month = day.getUTCMonth() + 1;
+    const date = day.getUTCDate();
+
+    if (!schedule.months.has(month) || !schedule.daysOfMonth.has(date) || !schedule.daysOfWeek.has(day.getUTCDay())) {
+      continue;
+    }
+
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        const instant = zonedTimeToInstant(year, month, date, hour, minute, timeZone);
+        if (instant > after) {
+          return instant;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the next runs of one or more cron expressions
+ * @param expressions - cron expressions, runs of all expressions are merged
+ * @param after - runs strictly after this date are returned
+ * @param timeZone - IANA time zone of the expressions (the local time zone if not set)
+ * @param count - number of runs to return
+ * @returns the next runs in chronological order, fewer than count if the expressions stop matching
+ */
+export function getNextCronRuns(expressions: string[], after: Date, timeZone?: string, count: number = 1): Date[] {
+  const schedules = expressions.map(parseCronExpression);
+  const zone = timeZone || undefined;
+  const runs: Date[] = [];
+  let cursor = after.getTime();
+
+  while (runs.length < count) {
+    const candidates = schedules
+      .map(schedule => getNextRunOfExpression(schedule, cursor, zone))
+      .filter((instant): instant is number => instant !== null);
+    if (candidates.length === 0) {
+      break;
+    }
+    cursor = Math.min(...candidates);
+    runs.push(new Date(cursor));
+  }
+
+  return runs;
+}
+
+/**
+ * Get the next run of one or more cron expressions
+ * @param expressions - cron expressions
+ * @param after - the run is strictly after this date
+ * @param timeZone - IANA time zone of the expressions (the local time zone if not set)
+ * @returns the next run, or null if the expressions never match
+ */
+export function getNextCronRun(expressions: string[], after: Date, timeZone?: string): Date | null {
+  return getNextCronRuns(expressions, after, timeZone, 1)[0] || null;
+}
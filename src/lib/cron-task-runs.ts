@@ -0,0 +1,136 @@
+import { dbOps } from './db';
+import { cronTaskRunRetentionDays } from './default-config';
+import type { CronTaskRun, CronTaskRunHour, CronTaskRunSummary, TaskExecutionResult } from './types';
+
+/**
+ * Task run history of the cron service
+ * Every execution of a task (scheduled or triggered) is stored with its duration, result and statistics,
+ * so the runs survive a restart of the cron service and can be checked after an incident.
+ */
+
+interface CronTaskRunRow {
+  id: number;
+  task_name: string;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  success: number;
+  message: string | null;
+  error: string | null;
+  statistics: string | null;
+}
+
+interface CronTaskRunHourRow {
+  hour: string;
+  runs: number;
+  failures: number;
+  avg_duration_ms: number;
+  max_duration_ms: number;
+}
+
+interface CronTaskRunSummaryRow {
+  task_name: string;
+  runs: number;
+  failures: number;
+  last_started_at: string | null;
+}
+
+function parseStatistics(value: string | null): Record<string, unknown> | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    return JSON.parse(value) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+function rowToCronTaskRun(row: CronTaskRunRow): CronTaskRun {
+  return {
+    id: row.id,
+    taskName: row.task_name,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    durationMs: row.duration_ms,
+    success: row.success === 1,
+    message: row.message,
+    error: row.error,
+    statistics: parseStatistics(row.statistics),
+  };
+}
+
+/**
+ * Store an execution of a task and delete the runs older than the history retention
+ */
+export function recordCronTaskRun(result: TaskExecutionResult, startedAt: Date, finishedAt: Date): void {
+  dbOps.insertCronTaskRun.run({
+    taskName: result.taskName,
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    success: result.success ? 1 : 0,
+    message: result.message ?? null,
+    error: result.error ?? null,
+    statistics: result.statistics ? JSON.stringify(result.statistics) : null,
+  });
+
+  const before = new Date(finishedAt.getTime() - cronTaskRunRetentionDays * 24 * 60 * 60 * 1000).toISOString();
+  dbOps.deleteCronTaskRunsBefore.run(before);
+}
+
+/**
+ * Runs of a task since a date, newest first
+ */
+export function getCronTaskRuns(filter: { taskName: string; since: Date; limit: number; offset: number }): { runs: CronTaskRun[]; total: number } {
+  const params = { taskName: filter.taskName, since: filter.since.toISOString() };
+  const { total } = dbOps.countCronTaskRuns.get(params) as { total: number };
+  const rows = dbOps.getCronTaskRuns.all({ ...params, limit: filter.limit, offset: filter.offset }) as CronTaskRunRow[];
+  return { runs: rows.map(rowToCronTaskRun), total };
+}
+
+/**
+ * Runs, failures and durations of a task per hour (UTC) since a date; hours without runs are not returned
+ */
+export function getCronTaskRunTimeline(taskName: string, since: Date): CronTaskRunHour[] {
+  const rows = dbOps.getCronTaskRunTimeline.all({ taskName, since: since.toISOString() }) as CronTaskRunHourRow[];
+  return rows.map(row => ({
+    hour: row.hour,
+    runs: row.runs,
+    failures: row.failures,
+    avgDurationMs: Math.round(row.avg_duration_ms),
+    maxDurationMs: row.max_duration_ms,
+  }));
+}
+
+/**
+ * Runs and failures of each task since a date
+ */
+export function getCronTaskRunSummaries(since: Date): CronTaskRunSummary[] {
+  const rows = dbOps.getCronTaskRunSummaries.all(since.toISOString()) as CronTaskRunSummaryRow[];
+  return rows.map(row => ({
+    taskName: row.task_name,
+    runs: row.runs,
+    failures: row.failures,
+    lastStartedAt: row.last_started_at,
+  }));
+}
+
+/**
+ * Last successful run time and last error of each task, like the in-memory status of the cron service
+ */
+export function getLastCronTaskRunStatus(): { lastRunTimes: Record<string, string>; errors: Record<string, string> } {
+  const lastRunTimes: Record<string, string> = {};
+  const errors: Record<string, string> = {};
+
+  for (const row of dbOps.getLastSuccessfulCronTaskRuns.all() as Pick<CronTaskRunRow, 'task_name' | 'finished_at'>[]) {
+    lastRunTimes[row.task_name] = row.finished_at;
+  }
+  for (const row of dbOps.getLatestCronTaskRuns.all() as CronTaskRunRow[]) {
+    if (row.success === 0 && row.error) {
+      errors[row.task_name] = row.error;
+    }
+  }
+
+  return { lastRunTimes, errors };
+}
@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import { db } from './db';
+import { getConfiguration, setConfiguration } from './db-utils';
+import { sendDatabaseIntegrityNotification } from './notifications';
+import { formatBytes } from './utils';
+import type { DatabaseMaintenanceReport, DatabaseSize } from './types';
+
+/**
+ * Scheduled database maintenance (cron task 'database-maintenance')
+ * Checks the integrity of backups.db, refreshes the query planner statistics, gives the free pages
+ * back to the file system and truncates the WAL file. The report of the last run is kept in the
+ * configuration table and shown in Settings → Database Maintenance; a failed integrity check is
+ * alerted on the notification channels.
+ */
+
+export const databaseMaintenanceTaskName = 'database-maintenance';
+const maintenanceReportConfigKey = 'database_maintenance_report';
+
+// Problems kept from the integrity check, a damaged database can report thousands
+const maxIntegrityErrors = 20;
+
+// auto_vacuum modes of SQLite
+const AUTO_VACUUM_INCREMENTAL = 2;
+
+interface DatabaseMaintenanceResult {
+  message: string;
+  statistics: Record<string, number | string | boolean>;
+}
+
+function getFileSize(filePath: string): number {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return 0; // the WAL file does not exist after a clean shutdown
+  }
+}
+
+export function getDatabaseSize(): DatabaseSize {
+  const pageSize = db.pragma('page_size', { simple: true }) as number;
+  const freePages = db.pragma('freelist_count', { simple: true }) as number;
+  return {
+    databaseBytes: getFileSize(db.name),
+    walBytes: getFileSize(`${db.name}-wal`),
+    freeBytes: pageSize * freePages,
+  };
+}
+
+export function getDatabaseMaintenanceReport(): DatabaseMaintenanceReport | null {
+  try {
+    const value = getConfiguration(maintenanceReportConfigKey);
+    return value ? JSON.parse(value) as DatabaseMaintenanceReport : null;
+  } catch {
+    return null;
+  }
+}
+
+function checkIntegrity(): string[] {
+  const rows = db.pragma(`integrity_check(${maxIntegrityErrors})`) as { integrity_check: string }[];
+  return rows.map(row => row.integrity_check).filter(result => result !== 'ok');
+}
+
+// Databases created without auto_vacuum are rebuilt once in incremental mode (a full VACUUM,
+// which needs free disk space for a copy of the database), later runs only free the unused pages
+function vacuum(): 'incremental' | 'full' {
+  const autoVacuum = db.pragma('auto_vacuum', { simple: true }) as number;
+  if (autoVacuum === AUTO_VACUUM_INCREMENTAL) {
+    db.pragma('incremental_vacuum');
+    return 'incremental';
+  }
+  db.pragma('auto_vacuum = INCREMENTAL');
+  db.exec('VACUUM');
+  return 'full';
+}
+
+/**
+ * Run the integrity check, ANALYZE, vacuum and WAL checkpoint, and store the report
+ * The database is not rewritten when the integrity check fails; the task then fails after the alert is sent.
+ */
+export async function runDatabaseMaintenance(): Promise<DatabaseMaintenanceResult> {
+  const startedAt = new Date();
+  const sizeBefore = getDatabaseSize();
+  const report: DatabaseMaintenanceReport = {
+    startedAt: startedAt.toISOString(),
+    finishedAt: startedAt.toISOString(),
+    durationMs: 0,
+    integrityOk: false,
+    integrityErrors: [],
+    analyzed: false,
+    vacuum: 'skipped',
+    checkpoint: null,
+    sizeBefore,
+    sizeAfter: sizeBefore,
+    error: null,
+  };
+
+  // Stays false when PRAGMA integrity_check itself fails, e.g. with SQLITE_CORRUPT
+  let integrityChecked = false;
+  try {
+    report.integrityErrors = checkIntegrity();
+    integrityChecked = true;
+    report.integrityOk = report.integrityErrors.length === 0;
+
+    if (report.integrityOk) {
+      db.exec('ANALYZE');
+      report.analyzed = true;
+      report.vacuum = vacuum();
+    }
+
+    const [checkpoint] = db.pragma('wal_checkpoint(TRUNCATE)') as { busy: number; log: number; checkpointed: number }[];
+    report.checkpoint = checkpoint || null;
+  } catch (error) {
+    report.error = error instanceof Error ? error.message : String(error);
+  }
+
+  const finishedAt = new Date();
+  report.finishedAt = finishedAt.toISOString();
+  report.durationMs = finishedAt.getTime() - startedAt.getTime();
+  report.sizeAfter = getDatabaseSize();
+  setConfiguration(maintenanceReportConfigKey, JSON.stringify(report));
+
+  if (!integrityChecked || report.integrityErrors.length > 0) {
+    const integrityErrors = integrityChecked ? report.integrityErrors : [report.error ?? 'Integrity check failed'];
+    try {
+      await sendDatabaseIntegrityNotification(integrityErrors);
+    } catch (error) {
+      console.error('Failed to send the database integrity notification:', error instanceof Error ? error.message : String(error));
+    }
+    throw new Error(`Database integrity check failed: ${integrityErrors[0]}`);
+  }
+  if (report.error) {
+    throw new Error(`Database maintenance failed: ${report.error}`);
+  }
+
+  const sizeBeforeBytes = sizeBefore.databaseBytes + sizeBefore.walBytes;
+  const sizeAfterBytes = report.sizeAfter.databaseBytes + report.sizeAfter.walBytes;
+  return {
+    message: `Database maintenance completed (${report.vacuum} vacuum): ${formatBytes(sizeBeforeBytes)} before, ${formatBytes(sizeAfterBytes)} after`,
+    statistics: {
+      integrityOk: report.integrityOk,
+      vacuum: report.vacuum,
+      sizeBeforeBytes,
+      sizeAfterBytes,
+      reclaimedBytes: Math.max(0, sizeBeforeBytes - sizeAfterBytes),
+      durationMs: report.durationMs,
+    },
+  };
+}
@@ -968,9 +968,748 @@ const migrations: Migration[] = [
       logMigration('log', 'API Keys table created successfully');
       logMigration('log', 'API key authentication is optional and disabled by default for backward compatibility');
     }
+  },
+  {
+    version: '4.2',
+    description: 'Replace the users admin flag with viewer, operator and admin roles',
+    up: (db: Database.Database) => {
+      const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
+      const logMigration = (level: 'log' | 'warn', message: string) => {
+        const formatted = `[Migration 4.2] ${timestamp()}: ${message}`;
+        if (level === 'warn') {
+          console.warn(formatted);
+        } else {
+          console.log(formatted);
+        }
+      };
+
+      logMigration('log', 'Adding user roles...');
+
+      // Check if the role column already exists
+      const userColumns = db.prepare('PRAGMA table_info(users)').all() as { name: string }[];
+      if (userColumns.some(column => column.name === 'role')) {
+        throw new Error('MIGRATION_ALREADY_COMPLETED');
+      }
+
+      db.exec(`ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'viewer'`);
+
+      // Admins keep full access; other users could already collect backups and send test notifications
+      const adminsUpdated = db.prepare(`UPDATE users SET role = 'admin' WHERE is_admin = 1`).run().changes;
+      const operatorsUpdated = db.prepare(`UPDATE users SET role = 'operator' WHERE is_admin = 0`).run().changes;
+
+      db.exec(`
+        ALTER TABLE users DROP COLUMN is_admin;
+        CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
+      `);
+
+      // Log the migration in audit log
+      db.prepare(`
+        INSERT INTO audit_log (
+          action, 
+          category, 
+          status, 
+          username,
+          details
+        ) VALUES (?, ?, ?, ?, ?)
+      `).run(
+        'database_migration',
+        'system',
+        'success',
+        'system',
+        JSON.stringify({ 
+          migration: '4.2', 
+          description: 'User roles (viewer, operator, admin)',
+          columns_added: ['users.role'],
+          columns_removed: ['users.is_admin'],
+          admins: adminsUpdated,
+          operators: operatorsUpdated
+        })
+      );
+
+      logMigration('log', `User roles added (${adminsUpdated} admin, ${operatorsUpdated} operator)`);
+    }
+  },
+  {
+    version: '4.3',
+    description: 'Add server groups for per-server access scoping',
+    up: (db: Database.Database) => {
+      const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
+      const logMigration = (level: 'log' | 'warn', message: string) => {
+        const formatted = `[Migration 4.3] ${timestamp()}: ${message}`;
+        if (level === 'warn') {
+          console.warn(formatted);
+        } else {
+          console.log(formatted);
+        }
+      };
+
+      logMigration('log', 'Adding server groups...');
+
+      // Check if server_groups table already exists
+      const serverGroupsTableExists = db.prepare(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name='server_groups'"
+      ).get();
+
+      if (serverGroupsTableExists) {
+        throw new Error('MIGRATION_ALREADY_COMPLETED');
+      }
+
+      // Server groups (tenants), their servers and their member users
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS server_groups (
+          id TEXT PRIMARY KEY,
+          name TEXT UNIQUE NOT NULL,
+          description TEXT DEFAULT '',
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS server_group_servers (
+          group_id TEXT NOT NULL,
+          server_id TEXT NOT NULL,
+          PRIMARY KEY (group_id, server_id),
+          FOREIGN KEY (group_id) REFERENCES server_groups(id) ON DELETE CASCADE
+        );
+
+        CREATE TABLE IF NOT EXISTS server_group_users (
+          group_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          PRIMARY KEY (group_id, user_id),
+          FOREIGN KEY (group_id) REFERENCES server_groups(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_server_group_servers_server ON server_group_servers(server_id);
+        CREATE INDEX IF NOT EXISTS idx_server_group_users_user ON server_group_users(user_id);
+      `);
+
+      // Log the migration in audit log
+      db.prepare(`
+        INSERT INTO audit_log (
+          action, 
+          category, 
+          status, 
+          username,
+          details
+        ) VALUES (?, ?, ?, ?, ?)
+      `).run(
+        'database_migration',
+        'system',
+        'success',
+        'system',
+        JSON.stringify({ 
+          migration: '4.3', 
+          description: 'Server groups for per-server access scoping',
+          tables_created: ['server_groups', 'server_group_servers', 'server_group_users']
+        })
+      );
+
+      logMigration('log', 'Server groups created successfully');
+    }
+  },
+  {
+    version: '4.4',
+    description: 'Add single sign-on identity to users',
+    up: (db: Database.Database) => {
+      const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
+      const logMigration = (level: 'log' | 'warn', message: string) => {
+        const formatted = `[Migration 4.4] ${timestamp()}: ${message}`;
+        if (level === 'warn') {
+          console.warn(formatted);
+        } else {
+          console.log(formatted);
+        }
+      };
+
+      logMigration('log', 'Adding single sign-on identity to users...');
+
+      // Check if the auth_provider column already exists
+      const userColumns = db.prepare('PRAGMA table_info(users)').all() as { name: string }[];
+      if (userColumns.some(column => column.name === 'auth_provider')) {
+        throw new Error('MIGRATION_ALREADY_COMPLETED');
+      }
+
+      // Existing users keep signing in with their local password
+      db.exec(`
+        ALTER TABLE users ADD COLUMN auth_provider TEXT NOT NULL DEFAULT 'local';
+        ALTER TABLE users ADD COLUMN external_id TEXT;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_users_external_id ON users(auth_provider, external_id) WHERE external_id IS NOT NULL;
+      `);
+
+      // Log the migration in audit log
+      db.prepare(`
+        INSERT INTO audit_log (
+          action, 
+          category, 
+          status, 
+          username,
+          details
+        ) VALUES (?, ?, ?, ?, ?)
+      `).run(
+        'database_migration',
+        'system',
+        'success',
+        'system',
+        JSON.stringify({ 
+          migration: '4.4', 
+          description: 'Single sign-on identity for users',
+          columns_added: ['users.auth_provider', 'users.external_id']
+        })
+      );
+
+      logMigration('log', 'Single sign-on identity added successfully');
+    }
+  },
+  {
+    version: '4.5',
+    description: 'Add two-factor authentication to users',
+    up: (db: Database.Database) => {
+      const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
+      const logMigration = (level: 'log' | 'warn', message: string) => {
+        const formatted = `[Migration 4.5] ${timestamp()}: ${message}`;
+        if (level === 'warn') {
+          console.warn(formatted);
+        } else {
+          console.log(formatted);
+        }
+      };
+
+      logMigration('log', 'Adding two-factor authentication to users...');
+
+      // Check if the totp_secret column already exists
+      const userColumns = db.prepare('PRAGMA table_info(users)').all() as { name: string }[];
+      if (userColumns.some(column => column.name === 'totp_secret')) {
+        throw new Error('MIGRATION_ALREADY_COMPLETED');
+      }
+
+      // The secret is stored encrypted and the recovery codes as a JSON array of hashes
+      db.exec(`
+        ALTER TABLE users ADD COLUMN totp_secret TEXT;
+        ALTER TABLE users ADD COLUMN totp_enabled BOOLEAN NOT NULL DEFAULT 0;
+        ALTER TABLE users ADD COLUMN totp_recovery_codes TEXT;
+        ALTER TABLE users ADD COLUMN totp_last_used_step INTEGER;
+      `);
+
+      // Log the migration in audit log
+      db.prepare(`
+        INSERT INTO audit_log (
+          action, 
+          category, 
+          status, 
+          username,
+          details
+        ) VALUES (?, ?, ?, ?, ?)
+      `).run(
+        'database_migration',
+        'system',
+        'success',
+        'system',
+        JSON.stringify({ 
+          migration: '4.5', 
+          description: 'Two-factor authentication for users',
+          columns_added: ['users.totp_secret', 'users.totp_enabled', 'users.totp_recovery_codes', 'users.totp_last_used_step']
+        })
+      );
+
+      logMigration('log', 'Two-factor authentication added successfully');
+    }
+  },
+  {
+    version: '4.6',
+    description: 'Add live events table',
+    up: (db: Database.Database) => {
+      const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
+      const logMigration = (level: 'log' | 'warn', message: string) => {
+        const formatted = `[Migration 4.6] ${timestamp()}: ${message}`;
+        if (level === 'warn') {
+          console.warn(formatted);
+        } else {
+          console.log(formatted);
+        }
+      };
+
+      logMigration('log', 'Adding live events table...');
+
+      // Check if events table already exists
+      const eventsTableExists = db.prepare(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name='events'"
+      ).get();
+
+      if (eventsTableExists) {
+        throw new Error('MIGRATION_ALREADY_COMPLETED');
+      }
+
+      // Short-lived queue of dashboard events, written by the server and the cron service
+      // and streamed to the browsers by /api/events
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL,
+          server_id TEXT,
+          payload TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_events_created_at ON events(created_at);
+      `);
+
+      // Log the migration in audit log
+      db.prepare(`
+        INSERT INTO audit_log (
+          action, 
+          category, 
+          status, 
+          username,
+          details
+        ) VALUES (?, ?, ?, ?, ?)
+      `).run(
+        'database_migration',
+        'system',
+        'success',
+        'system',
+        JSON.stringify({ 
+          migration: '4.6', 
+          description: 'Live events for real-time dashboard updates',
+          tables_created: ['events']
+        })
+      );
+
+      logMigration('log', 'Live events table created successfully');
+    }
+  },
+  {
+    version: '4.7',
+    description: 'Add maintenance windows table',
+    up: (db: Database.Database) => {
+      const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
+      const logMigration = (level: 'log' | 'warn', message: string) => {
+        const formatted = `[Migration 4.7] ${timestamp()}: ${message}`;
+        if (level === 'warn') {
+          console.warn(formatted);
+        } else {
+          console.log(formatted);
+        }
+      };
+
+      logMigration('log', 'Adding maintenance windows table...');
+
+      // Check if maintenance_windows table already exists
+      const maintenanceWindowsTableExists = db.prepare(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name='maintenance_windows'"
+      ).get();
+
+      if (maintenanceWindowsTableExists) {
+        throw new Error('MIGRATION_ALREADY_COMPLETED');
+      }
+
+      // Planned maintenance of a server or of one of its backups (backup_name NULL),
+      // recurring windows repeat the first occurrence (start_time to end_time)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS maintenance_windows (
+          id TEXT PRIMARY KEY,
+          server_id TEXT NOT NULL,
+          backup_name TEXT,
+          start_time TEXT NOT NULL,
+          end_time TEXT NOT NULL,
+          recurrence TEXT NOT NULL DEFAULT 'none' CHECK (recurrence IN ('none', 'daily', 'weekly', 'monthly')),
+          reason TEXT NOT NULL DEFAULT '',
+          created_by TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_maintenance_windows_server_id ON maintenance_windows(server_id);
+      `);
+
+      // Log the migration in audit log
+      db.prepare(`
+        INSERT INTO audit_log (
+          action, 
+          category, 
+          status, 
+          username,
+          details
+        ) VALUES (?, ?, ?, ?, ?)
+      `).run(
+        'database_migration',
+        'system',
+        'success',
+        'system',
+        JSON.stringify({ 
+          migration: '4.7', 
+          description: 'Maintenance windows and snoozing of backup notifications',
+          tables_created: ['maintenance_windows']
+        })
+      );
+
+      logMigration('log', 'Maintenance windows table created successfully');
+    }
+  },
+  {
+    version: '4.8',
+    description: 'Add anomalies to backups',
+    up: (db: Database.Database) => {
+      const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
+      const logMigration = (level: 'log' | 'warn', message: string) => {
+        const formatted = `[Migration 4.8] ${timestamp()}: ${message}`;
+        if (level === 'warn') {
+          console.warn(formatted);
+        } else {
+          console.log(formatted);
+        }
+      };
+
+      logMigration('log', 'Adding anomalies to backups...');
+
+      // Check if the anomalies column already exists
+      const backupColumns = db.prepare('PRAGMA table_info(backups)').all() as { name: string }[];
+      if (backupColumns.some(column => column.name === 'anomalies')) {
+        throw new Error('MIGRATION_ALREADY_COMPLETED');
+      }
+
+      // Statistics of a backup that deviate from the recent runs of the same backup (JSON array, NULL when normal)
+      db.exec(`
+        ALTER TABLE backups ADD COLUMN anomalies TEXT;
+      `);
+
+      // Log the migration in audit log
+      db.prepare(`
+        INSERT INTO audit_log (
+          action, 
+          category, 
+          status, 
+          username,
+          details
+        ) VALUES (?, ?, ?, ?, ?)
+      `).run(
+        'database_migration',
+        'system',
+        'success',
+        'system',
+        JSON.stringify({ 
+          migration: '4.8', 
+          description: 'Duration and size anomaly detection on incoming backups',
+          columns_added: ['backups.anomalies']
+        })
+      );
+
+      logMigration('log', 'Anomalies added to backups successfully');
+    }
+  },
+  {
+    version: '4.9',
+    description: 'Add notification outbox table',
+    up: (db: Database.Database) => {
+      const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
+      const logMigration = (level: 'log' | 'warn', message: string) => {
+        const formatted = `[Migration 4.9] ${timestamp()}: ${message}`;
+        if (level === 'warn') {
+          console.warn(formatted);
+        } else {
+          console.log(formatted);
+        }
+      };
+
+      logMigration('log', 'Adding notification outbox table...');
+
+      // Check if notification_outbox table already exists
+      const notificationOutboxTableExists = db.prepare(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name='notification_outbox'"
+      ).get();
+
+      if (notificationOutboxTableExists) {
+        throw new Error('MIGRATION_ALREADY_COMPLETED');
+      }
+
+      // Rendered notifications waiting for delivery or kept as history,
+      // channels holds the delivery state of each channel (JSON object keyed by channel)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS notification_outbox (
+          id TEXT PRIMARY KEY,
+          event TEXT NOT NULL,
+          server_id TEXT,
+          server_name TEXT,
+          backup_name TEXT,
+          title TEXT NOT NULL,
+          message TEXT NOT NULL,
+          priority TEXT NOT NULL DEFAULT '',
+          tags TEXT NOT NULL DEFAULT '',
+          webhook_body TEXT,
+          channels TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'dead')),
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at TEXT,
+          last_error TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_notification_outbox_pending ON notification_outbox(status, next_attempt_at);
+        CREATE INDEX IF NOT EXISTS idx_notification_outbox_created_at ON notification_outbox(created_at);
+        CREATE INDEX IF NOT EXISTS idx_notification_outbox_server_id ON notification_outbox(server_id);
+      `);
+
+      // Log the migration in audit log
+      db.prepare(`
+        INSERT INTO audit_log (
+          action, 
+          category, 
+          status, 
+          username,
+          details
+        ) VALUES (?, ?, ?, ?, ?)
+      `).run(
+        'database_migration',
+        'system',
+        'success',
+        'system',
+        JSON.stringify({ 
+          migration: '4.9', 
+          description: 'Notification delivery outbox with persistent retry and history',
+          tables_created: ['notification_outbox']
+        })
+      );
+
+      logMigration('log', 'Notification outbox table created successfully');
+    }
+  },
+  {
+    version: '4.10',
+    description: 'Add email recipients to notification outbox',
+    up: (db: Database.Database) => {
+      const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
+      const logMigration = (level: 'log' | 'warn', message: string) => {
+        const formatted = `[Migration 4.10] ${timestamp()}: ${message}`;
+        if (level === 'warn') {
+          console.warn(formatted);
+        } else {
+          console.log(formatted);
+        }
+      };
+
+      logMigration('log', 'Adding email recipients to notification outbox...');
+
+      // Check if the email_recipients column already exists
+      const outboxColumns = db.prepare('PRAGMA table_info(notification_outbox)').all() as { name: string }[];
+      if (outboxColumns.some(column => column.name === 'email_recipients')) {
+        throw new Error('MIGRATION_ALREADY_COMPLETED');
+      }
+
+      // Addresses of the recipient groups the email is routed to (JSON array, NULL for the default recipient)
+      db.exec(`
+        ALTER TABLE notification_outbox ADD COLUMN email_recipients TEXT;
+      `);
+
+      // Log the migration in audit log
+      db.prepare(`
+        INSERT INTO audit_log (
+          action, 
+          category, 
+          status, 
+          username,
+          details
+        ) VALUES (?, ?, ?, ?, ?)
+      `).run(
+        'database_migration',
+        'system',
+        'success',
+        'system',
+        JSON.stringify({ 
+          migration: '4.10', 
+          description: 'Email recipient groups with per-backup routing',
+          columns_added: ['notification_outbox.email_recipients']
+        })
+      );
+
+      logMigration('log', 'Email recipients added to notification outbox successfully');
+    }
+  },
+  {
+    version: '4.11',
+    description: 'Add HTML email body to notification outbox',
+    up: (db: Database.Database) => {
+      const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
+      const logMigration = (level: 'log' | 'warn', message: string) => {
+        const formatted = `[Migration 4.11] ${timestamp()}: ${message}`;
+        if (level === 'warn') {
+          console.warn(formatted);
+        } else {
+          console.log(formatted);
+        }
+      };
+
+      logMigration('log', 'Adding HTML email body to notification outbox...');
+
+      // Check if the email_html column already exists
+      const outboxColumns = db.prepare('PRAGMA table_info(notification_outbox)').all() as { name: string }[];
+      if (outboxColumns.some(column => column.name === 'email_html')) {
+        throw new Error('MIGRATION_ALREADY_COMPLETED');
+      }
+
+      // Email body rendered from the HTML email template, NULL to send the text message converted to HTML
+      db.exec(`
+        ALTER TABLE notification_outbox ADD COLUMN email_html TEXT;
+      `);
+
+      // Log the migration in audit log
+      db.prepare(`
+        INSERT INTO audit_log (
+          action, 
+          category, 
+          status, 
+          username,
+          details
+        ) VALUES (?, ?, ?, ?, ?)
+      `).run(
+        'database_migration',
+        'system',
+        'success',
+        'system',
+        JSON.stringify({ 
+          migration: '4.11', 
+          description: 'HTML email templates',
+          columns_added: ['notification_outbox.email_html']
+        })
+      );
+
+      logMigration('log', 'HTML email body added to notification outbox successfully');
+    }
+  },
+  {
+    version: '4.12',
+    description: 'Add status badge tokens table',
+    up: (db: Database.Database) => {
+      const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
+      const logMigration = (level: 'log' | 'warn', message: string) => {
+        const formatted = `[Migration 4.12] ${timestamp()}: ${message}`;
+        if (level === 'warn') {
+          console.warn(formatted);
+        } else {
+          console.log(formatted);
+        }
+      };
+
+      logMigration('log', 'Adding status badge tokens table...');
+
+      // Check if badge_tokens table already exists
+      const badgeTokensTableExists = db.prepare(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name='badge_tokens'"
+      ).get();
+
+      if (badgeTokensTableExists) {
+        throw new Error('MIGRATION_ALREADY_COMPLETED');
+      }
+
+      // One token per backup job for its public SVG badges, only the SHA-256 hash of the token is stored
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS badge_tokens (
+          id TEXT PRIMARY KEY,
+          server_id TEXT NOT NULL,
+          backup_name TEXT NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          created_by TEXT,
+          created_at TEXT NOT NULL,
+          last_used_at TEXT,
+          usage_count INTEGER NOT NULL DEFAULT 0,
+          UNIQUE (server_id, backup_name)
+        );
+      `);
+
+      // Log the migration in audit log
+      db.prepare(`
+        INSERT INTO audit_log (
+          action, 
+          category, 
+          status, 
+          username,
+          details
+        ) VALUES (?, ?, ?, ?, ?)
+      `).run(
+        'database_migration',
+        'system',
+        'success',
+        'system',
+        JSON.stringify({ 
+          migration: '4.12', 
+          description: 'Status badge tokens',
+          tables_created: ['badge_tokens']
+        })
+      );
+
+      logMigration('log', 'Status badge tokens table added successfully');
+    }
+  },
+  {
+    version: '4.13',
+    description: 'Add cron task run history table',
+    up: (db: Database.Database) => {
+      const timestamp = () => new Date().toLocaleString(undefined, { hour12: false, timeZoneName: 'short' }).replace(',', '');
+      const logMigration = (level: 'log' | 'warn', message: string) => {
+        const formatted = `[Migration 4.13] ${timestamp()}: ${message}`;
+        if (level === 'warn') {
+          console.warn(formatted);
+        } else {
+          console.log(formatted);
+        }
+      };
+
+      logMigration('log', 'Adding cron task run history table...');
+
+      // Check if cron_task_runs table already exists
+      const cronTaskRunsTableExists = db.prepare(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name='cron_task_runs'"
+      ).get();
+
+      if (cronTaskRunsTableExists) {
+        throw new Error('MIGRATION_ALREADY_COMPLETED');
+      }
+
+      // Every execution of a cron service task, kept for the task run history
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS cron_task_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          task_name TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          finished_at TEXT NOT NULL,
+          duration_ms INTEGER NOT NULL,
+          success INTEGER NOT NULL,
+          message TEXT,
+          error TEXT,
+          statistics TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_cron_task_runs_task_started_at ON cron_task_runs(task_name, started_at);
+        CREATE INDEX IF NOT EXISTS idx_cron_task_runs_started_at ON cron_task_runs(started_at);
+      `);
+
+      // Log the migration in audit log
+      db.prepare(`
+        INSERT INTO audit_log (
+          action, 
+          category, 
+          status, 
+          username,
+          details
+        ) VALUES (?, ?, ?, ?, ?)
+      `).run(
+        'database_migration',
+        'system',
+        'success',
+        'system',
+        JSON.stringify({ 
+          migration: '4.13', 
+          description: 'Cron task run history',
+          tables_created: ['cron_task_runs']
+        })
+      );
+
+      logMigration('log', 'Cron task run history table added successfully');
+    }
   }
 ];
 
+// Latest schema version, databases at this version need no migrations
+export const latestDbVersion = migrations[migrations.length - 1].version;
+
 // Database migration functions
 export class DatabaseMigrator {
   private db: Database.Database;
@@ -1054,7 +1793,8 @@ export class DatabaseMigrator {
     return false;
   }
   
-  async runMigrations(): Promise<void> {
+  // skipBackup: used for databases created in this process, which have no data to protect
+  async runMigrations(skipBackup: boolean = false): Promise<void> {
     // Prevent multiple concurrent migration runs
     if (DatabaseMigrator.isRunning) {
       return;
@@ -1065,9 +1805,8 @@ export class DatabaseMigrator {
     try {
       const currentVersion = this.getCurrentVersion();
       
-      // If database is already at the latest version (4.1), skip all migrations
-      // This handles the case where a fresh database was created with latest version
-      if (currentVersion === '4.1') {
+      // If database is already at the latest version, skip all migrations
+      if (currentVersion === latestDbVersion) {
         // Silent - no migrations needed
         return;
       }
@@ -1092,11 +1831,13 @@ export class DatabaseMigrator {
       try {
         // Create backup before running migrations
         let backupPath: string | undefined;
-        try {
-          backupPath = createDatabaseBackup(this.dbPath);
-        } catch (error) {
-          console.error('Failed to create database backup. Aborting migrations for safety.');
-          throw error;
+        if (!skipBackup) {
+          try {
+            backupPath = createDatabaseBackup(this.dbPath);
+          } catch (error) {
+            console.error('Failed to create database backup. Aborting migrations for safety.');
+            throw error;
+          }
         }
       
         // Run migrations with retry logic for database locking issues
@@ -1200,9 +1941,8 @@ export class DatabaseMigrator {
     try {
       const currentVersion = this.getCurrentVersion();
       
-      // If database is already at the latest version (4.0), skip all migrations
-      // This handles the case where a fresh database was created with version 4.0
-      if (currentVersion === '4.0') {
+      // If database is already at the latest version, skip all migrations
+      if (currentVersion === latestDbVersion) {
         // Silent - no migrations needed
         return;
       }
@@ -1,14 +1,16 @@
 import { db, dbOps, waitForDatabaseReady } from './db';
 import { formatDurationFromSeconds } from "@/lib/db";
-import type { BackupStatus, NotificationEvent, BackupKey, OverdueTolerance, BackupNotificationConfig, OverdueNotifications, ChartDataPoint, SMTPConfig, SMTPConfigEncrypted, NotificationTemplate, NtfyConfig, SMTPConnectionType } from "@/lib/types";
+import type { BackupStatus, NotificationEvent, BackupKey, OverdueTolerance, BackupNotificationConfig, OverdueNotifications, BackupIncidents, BackupAcknowledgement, BackupAcknowledgements, BackupProblemState, ChartDataPoint, SMTPConfig, SMTPConfigEncrypted, NotificationTemplates, NtfyConfig, SMTPConnectionType, WebhookConfig, Operation, NonBackupOperationType, OperationType, OperationNotificationConfig, OidcConfig, ActiveMaintenance, AnomalyDetectionConfig, BackupAnomaly, EmailRecipientGroup, EmailTemplateConfig, EmailTemplates } from "@/lib/types";
 import { CronServiceConfig, CronInterval } from './types';
-import { cronIntervalMap } from './cron-interval-map';
+import { cronIntervalMap, findCronInterval } from './cron-interval-map';
 import type { NotificationFrequencyConfig } from "@/lib/types";
-import { defaultCronConfig, defaultNotificationFrequencyConfig, defaultOverdueTolerance, defaultCronInterval, defaultNtfyConfig, defaultNotificationTemplates, generateDefaultNtfyTopic } from './default-config';
-import { formatTimeElapsed } from './utils';
+import { defaultCronConfig, defaultNotificationFrequencyConfig, defaultOverdueTolerance, defaultCronInterval, defaultNtfyConfig, defaultNotificationTemplates, generateDefaultNtfyTopic, defaultWebhookConfig, defaultOperationNotificationConfig, defaultOidcConfig, defaultAnomalyDetectionConfig, defaultEmailTemplateConfig } from './default-config';
+import { formatTimeElapsed, getBackupProblemState, calculateOverallSummary } from './utils';
 import { migrateBackupSettings } from './migration-utils';
 import { getDefaultAllowedWeekDays } from './interval-utils';
 import { GetNextBackupRunDate } from './server_intervals';
+import { getNextCronRun } from './cron-schedule';
+import { getActiveMaintenance } from './maintenance-windows';
 import { defaultBackupNotificationConfig } from './default-config';
 import { encryptData, decryptData } from './secrets';
 
@@ -50,17 +52,8 @@ export async function isBackupOverdueByInterval(serverId: string, backupName: st
     // If no settings found or overdue backup check is disabled, return false
     if (!settings || !settings.overdueBackupCheckEnabled) return false;
     
-    // Get backup interval settings
-    const backupIntervalSettings = await getBackupIntervalSettings(serverId, backupName);
-    if (!backupIntervalSettings) return false;
-    
     // Calculate expected backup date (without tolerance)
-    const expectedBackupDate = GetNextBackupRunDate(
-      lastBackupDate,
-      backupIntervalSettings.scheduleTime,
-      backupIntervalSettings.expectedInterval,
-      backupIntervalSettings.allowedWeekDays
-    );
+    const expectedBackupDate = getExpectedBackupDate(lastBackupDate, settings);
     
     if (expectedBackupDate === 'N/A') return false;
     
@@ -114,31 +107,20 @@ function getLastNotificationSent(serverId: string, backupName: string): string {
   }
 }
 
-// Helper function to get backup interval settings for expected backup calculations
-async function getBackupIntervalSettings(serverId: string, backupName: string): Promise<{
-  expectedInterval: string;
-  allowedWeekDays: number[];
-  scheduleTime: string;
-  overdueTolerance?: OverdueTolerance;
-} | undefined> {
-  try {
-    const backupSettings = await getConfigBackupSettings();
-    if (!backupSettings || Object.keys(backupSettings).length === 0) return undefined;
-    
-    const backupKey = `${serverId}:${backupName}`;
-    const settings = backupSettings[backupKey];
-    
-    if (!settings) return undefined;
-    
-    return {
-      expectedInterval: settings.expectedInterval,
-      allowedWeekDays: settings.allowedWeekDays || getDefaultAllowedWeekDays(),
-      scheduleTime: settings.time
-    };
-  } catch (error) {
-    console.error('Error getting backup interval settings:', error instanceof Error ? error.message : String(error));
-    return undefined;
+// Helper function to get the expected date of the next backup after the last one (without tolerance)
+// Cron schedules are used when configured, otherwise the expected interval and allowed week days
+export function getExpectedBackupDate(lastBackupDate: string, settings: BackupNotificationConfig): string {
+  if (settings.scheduleMode === 'cron') {
+    const nextRun = getNextCronRun(settings.cronSchedules || [], new Date(lastBackupDate), settings.scheduleTimezone);
+    return nextRun ? nextRun.toISOString() : 'N/A';
   }
+
+  return GetNextBackupRunDate(
+    lastBackupDate,
+    settings.time,
+    settings.expectedInterval,
+    settings.allowedWeekDays || getDefaultAllowedWeekDays()
+  );
 }
 
 
@@ -177,19 +159,18 @@ export function setCronConfig(config: CronServiceConfig): void {
   }
 }
 
-export function getCurrentCronInterval(): CronInterval {
+export function getCurrentCronInterval(taskName: string = 'overdue-backup-check'): CronInterval {
   const config = getCronConfig();
-  const task = config.tasks['overdue-backup-check'];
+  const task = config.tasks[taskName];
+  if (!task?.enabled) {
+    return 'disabled';
+  }
   
   // Find matching interval
-  const entry = Object.entries(cronIntervalMap).find(([, value]) => 
-    value.expression === task.cronExpression && value.enabled === task.enabled
-  );
-  
-  return entry ? entry[0] as CronInterval : defaultCronInterval; // Default to default if no match
+  return findCronInterval(task.cronExpression, task.enabled) ?? defaultCronInterval; // Default to default if no match
 }
 
-export function setCronInterval(interval: CronInterval) {
+export function setCronInterval(interval: CronInterval, taskName: string = 'overdue-backup-check') {
   try {
     const config = getCronConfig();
     const intervalConfig = cronIntervalMap[interval];
@@ -202,7 +183,8 @@ export function setCronInterval(interval: CronInterval) {
       ...config,
       tasks: {
         ...config.tasks,
-        'overdue-backup-check': {
+        [taskName]: {
+          ...config.tasks[taskName],
           cronExpression: intervalConfig.expression,
           enabled: intervalConfig.enabled
         }
@@ -301,6 +283,23 @@ interface BackupRecord {
   warnings_array: string | null;
   errors_array: string | null;
   available_backups: string | null;
+  anomalies: string | null;
+}
+
+interface OperationRecord {
+  id: string;
+  server_id: string;
+  backup_name: string;
+  main_operation: NonBackupOperationType;
+  date: string;
+  status: BackupStatus;
+  warnings: number;
+  errors: number;
+  duration_seconds: number;
+  messages_array: string | null;
+  warnings_array: string | null;
+  errors_array: string | null;
+  messages_actual_length: number;
 }
 
 // Helper function to ensure database operations are only performed on the server
@@ -410,7 +409,8 @@ export function getAllServers() {
         messages_array: backup.messages_array,
         warnings_array: backup.warnings_array,
         errors_array: backup.errors_array,
-        available_backups: backup.available_backups ? JSON.parse(backup.available_backups) : []
+        available_backups: backup.available_backups ? JSON.parse(backup.available_backups) : [],
+        anomalies: backup.anomalies ? JSON.parse(backup.anomalies) as BackupAnomaly[] : null
       }));
 
       const chartData = formattedBackups.map(backup => {
@@ -433,6 +433,7 @@ export function getAllServers() {
         alias: server.alias || '',
         note: server.note || '',
         backups: formattedBackups,
+        operations: getServerOperations(server.id),
         chartData
       };
     });
@@ -492,11 +493,8 @@ async function countOverdueBackups(): Promise<number> {
         continue;
       }
       
-      // Get interval configuration
-      const expectedInterval = backupConfig.expectedInterval;
-      
       // Calculate expected backup date (without tolerance)
-      const expectedBackupDate = GetNextBackupRunDate(latestBackup.date, backupConfig.time, expectedInterval, backupConfig.allowedWeekDays || getDefaultAllowedWeekDays());
+      const expectedBackupDate = getExpectedBackupDate(latestBackup.date, backupConfig);
       
       if (expectedBackupDate === 'N/A') continue;
       
@@ -524,59 +522,7 @@ async function countOverdueBackups(): Promise<number> {
 // Optimized version that calculates all totals from serversSummary data (no database query needed)
 export async function getOverallSummaryFromServers(serversSummary: Awaited<ReturnType<typeof getServersSummary>>) {
   try {
-    // Calculate all totals from serversSummary data
-    let totalServers = 0;
-    let totalBackupsRuns = 0;
-    let totalBackups = 0;
-    let totalUploadedSize = 0;
-    let totalStorageUsed = 0;
-    let totalBackupSize = 0;
-    let overdueBackupsCount = 0;
-
-    try {
-      const totals = serversSummary.reduce((acc, server) => {
-        acc.totalServers++;
-        acc.totalBackupsRuns += server.totalBackupCount;
-        acc.totalUploadedSize += server.totalUploadedSize;
-        acc.totalStorageUsed += server.totalStorageSize;
-        acc.totalBackupSize += server.totalFileSize;
-        acc.totalBackups += server.backupInfo.length;
-        
-        // Count overdue backups
-        acc.overdueBackupsCount += server.backupInfo.filter(backup => backup.isBackupOverdue).length;
-        
-        return acc;
-      }, {
-        totalServers: 0,
-        totalBackupsRuns: 0,
-        totalUploadedSize: 0,
-        totalStorageUsed: 0,
-        totalBackupSize: 0,
-        totalBackups: 0,
-        overdueBackupsCount: 0
-      });
-
-      totalServers = totals.totalServers;
-      totalBackupsRuns = totals.totalBackupsRuns;
-      totalUploadedSize = totals.totalUploadedSize;
-      totalStorageUsed = totals.totalStorageUsed;
-      totalBackupSize = totals.totalBackupSize;
-      totalBackups = totals.totalBackups;
-      overdueBackupsCount = totals.overdueBackupsCount;
-    } catch (calculationError) {
-      console.error('[getOverallSummaryFromServers] Error calculating totals:', calculationError instanceof Error ? calculationError.message : String(calculationError));
-      // Continue with zeros
-    }
-
-    return {
-      totalServers,
-      totalBackupsRuns,
-      totalBackups,
-      totalUploadedSize,
-      totalStorageUsed,
-      totalBackupSize,
-      overdueBackupsCount
-    };
+    return calculateOverallSummary(serversSummary);
   } catch (error) {
     console.error('[getOverallSummaryFromServers] Error:', error instanceof Error ? error.message : String(error));
     // Return a fallback instead of throwing
@@ -691,7 +637,8 @@ export function getServerById(serverId: string) {
         messages_array: backup.messages_array,
         warnings_array: backup.warnings_array,
         errors_array: backup.errors_array,
-        available_backups: backup.available_backups ? JSON.parse(backup.available_backups) : []
+        available_backups: backup.available_backups ? JSON.parse(backup.available_backups) : [],
+        anomalies: backup.anomalies ? JSON.parse(backup.anomalies) as BackupAnomaly[] : null
       }));
 
       const chartData = formattedBackups.map(backup => {
@@ -716,6 +663,7 @@ export function getServerById(serverId: string) {
         server_url: server.server_url || '',
         hasPassword: Boolean(server.has_password),
         backups: formattedBackups,
+        operations: getServerOperations(serverId),
         chartData
       };
     } catch (error) {
@@ -725,13 +673,44 @@ export function getServerById(serverId: string) {
   });
 }
 
-export async function getAggregatedChartData() {
+// Non-backup operations (Restore, Test, Compact, Repair, Delete) of a server, newest first
+export function getServerOperations(serverId: string): Operation[] {
+  return withDb(() => {
+    const operations = safeDbOperation(() => dbOps.getServerOperations.all(serverId), 'getServerOperations', []) as OperationRecord[];
+
+    return operations.map(operation => ({
+      id: String(operation.id),
+      server_id: String(operation.server_id),
+      name: String(operation.backup_name),
+      operation: operation.main_operation,
+      date: operation.date,
+      status: operation.status,
+      warnings: Number(operation.warnings) || 0,
+      errors: Number(operation.errors) || 0,
+      messages: Number(operation.messages_actual_length) || 0,
+      duration: formatDurationFromSeconds(Number(operation.duration_seconds) || 0),
+      duration_seconds: Number(operation.duration_seconds) || 0,
+      messages_array: operation.messages_array,
+      warnings_array: operation.warnings_array,
+      errors_array: operation.errors_array
+    }));
+  });
+}
+
+// Server ID filter for the aggregated queries (JSON array, or null for all servers)
+function toServerIdsParam(serverIds: string[] | null): string | null {
+  return serverIds ? JSON.stringify(serverIds) : null;
+}
+
+export async function getAggregatedChartData(serverIds: string[] | null = null) {
   // Wait for database initialization before accessing operations
   await waitForDatabaseReady();
   
   try {
     return withDb(() => {
-      const result = safeDbOperation(() => dbOps.getAggregatedChartData.all(), 'getAggregatedChartData', []) as {
+      const result = safeDbOperation(() => dbOps.getAggregatedChartData.all({
+        serverIds: toServerIdsParam(serverIds)
+      }), 'getAggregatedChartData', []) as {
         date: string;
         isoDate: string;
         uploadedSize: number;
@@ -778,12 +757,13 @@ export function getAllServersChartData() {
 }
 
 // New function to get aggregated chart data with time range filtering
-export function getAggregatedChartDataWithTimeRange(startDate: Date, endDate: Date) {
+export function getAggregatedChartDataWithTimeRange(startDate: Date, endDate: Date, serverIds: string[] | null = null) {
   try {
     return withDb(() => {
       const result = safeDbOperation(() => dbOps.getAggregatedChartDataWithTimeRange.all({
         startDate: startDate.toISOString(),
-        endDate: endDate.toISOString()
+        endDate: endDate.toISOString(),
+        serverIds: toServerIdsParam(serverIds)
       }), 'getAggregatedChartDataWithTimeRange', []) as ChartDataPoint[];
       
       return result || [];
@@ -863,7 +843,8 @@ export function getServerBackupChartDataWithTimeRange(serverId: string, backupNa
 }
 
 // New function to get server summary for the new dashboard
-export async function getServersSummary() {
+// With onlyServerId, only the summary of that server is built (live dashboard updates)
+export async function getServersSummary(onlyServerId?: string) {
   // Wait for database initialization before accessing operations
   await waitForDatabaseReady();
   
@@ -907,6 +888,7 @@ export async function getServersSummary() {
           lastBackupId: string;
           lastBackupStatus: BackupStatus | 'N/A';
           lastBackupDuration: string;
+          lastBackupDurationSeconds: number | null;
           lastBackupListCount: number | null;
           backupCount: number;
           statusHistory: BackupStatus[];
@@ -922,6 +904,8 @@ export async function getServersSummary() {
           expectedBackupDate: string;
           expectedBackupElapsed: string;
           lastNotificationSent: string;
+          maintenance: ActiveMaintenance | null;
+          acknowledgement: BackupAcknowledgement | null;
         }>;
         totalBackupCount: number;
         totalStorageSize: number;
@@ -939,7 +923,7 @@ export async function getServersSummary() {
         backupNames: string[];
       }>();
       
-      rows.forEach(row => {
+      rows.filter(row => !onlyServerId || row.server_id === onlyServerId).forEach(row => {
         const serverId = row.server_id;
         
         if (!serverMap.has(serverId)) {
@@ -995,6 +979,7 @@ export async function getServersSummary() {
           lastBackupId: row.last_backup_id || 'N/A',
           lastBackupStatus: (row.last_backup_status || 'N/A') as BackupStatus | 'N/A',
           lastBackupDuration: row.last_backup_duration ? formatDurationFromSeconds(row.last_backup_duration) : 'N/A',
+          lastBackupDurationSeconds: row.last_backup_duration ?? null,
           lastBackupListCount: row.backup_versions || null,
           backupCount: row.backup_count || 0,
           statusHistory,
@@ -1010,7 +995,9 @@ export async function getServersSummary() {
           notificationEvent: undefined,
           expectedBackupDate: 'N/A',
           expectedBackupElapsed: 'N/A',
-          lastNotificationSent: 'N/A'
+          lastNotificationSent: 'N/A',
+          maintenance: null,
+          acknowledgement: null
         };
         
         server.backupInfo.push(backupInfo);
@@ -1036,6 +1023,8 @@ export async function getServersSummary() {
         
       });
       
+      const backupAcknowledgements = getConfigBackupAcknowledgements();
+
       // Process each server to add overdue status and other derived data per backup job
       const result = await Promise.all(Array.from(serverMap.values()).map(async (server) => {
         // Process each backup job to add overdue status and other derived data
@@ -1053,14 +1042,9 @@ export async function getServersSummary() {
             }
 
             // Get expected backup date (pure expected date without tolerance)
-            const backupSettings = await getBackupIntervalSettings(server.id, thisBackupInfo.name);
+            const backupSettings = (await getConfigBackupSettings())[`${server.id}:${thisBackupInfo.name}`];
             if (backupSettings) {
-              expectedBackupDate = GetNextBackupRunDate(
-                thisBackupInfo.lastBackupDate,
-                backupSettings.scheduleTime,
-                backupSettings.expectedInterval,
-                backupSettings.allowedWeekDays
-              );
+              expectedBackupDate = getExpectedBackupDate(thisBackupInfo.lastBackupDate, backupSettings);
               expectedBackupElapsed = formatTimeElapsed(expectedBackupDate);
             }
           }
@@ -1077,7 +1061,12 @@ export async function getServersSummary() {
             notificationEvent,
             expectedBackupDate,
             expectedBackupElapsed,
-            lastNotificationSent
+            lastNotificationSent,
+            maintenance: getActiveMaintenance(server.id, thisBackupInfo.name),
+            acknowledgement: getCurrentAcknowledgement(
+              backupAcknowledgements[`${server.id}:${thisBackupInfo.name}`],
+              getBackupProblemState(thisBackupInfo.lastBackupStatus, isOverdue)
+            )
           };
         }));
         
@@ -1165,9 +1154,9 @@ export const dbUtils = {
   getServerBackups: (serverId: string) => withDb(() => safeDbOperation(() => dbOps.getServerBackups.all(serverId), 'getServerBackups', [])),
   getAllServers: () => getAllServers(),
   getOverallSummary: () => getOverallSummary(),
-  getLatestBackupDate: () => withDb(() => safeDbOperation(() => dbOps.getLatestBackupDate.get(), 'getLatestBackupDate')),
-  getAggregatedChartData: () => getAggregatedChartData(),
-  getAggregatedChartDataWithTimeRange: (startDate: Date, endDate: Date) => getAggregatedChartDataWithTimeRange(startDate, endDate),
+  getLatestBackupDate: (serverIds: string[] | null = null) => withDb(() => safeDbOperation(() => dbOps.getLatestBackupDate.get({ serverIds: toServerIdsParam(serverIds) }), 'getLatestBackupDate')),
+  getAggregatedChartData: (serverIds: string[] | null = null) => getAggregatedChartData(serverIds),
+  getAggregatedChartDataWithTimeRange: (startDate: Date, endDate: Date, serverIds: string[] | null = null) => getAggregatedChartDataWithTimeRange(startDate, endDate, serverIds),
   getAllServersChartData: () => getAllServersChartData(),
   getServerChartData: (serverId: string) => getServerChartData(serverId),
   getServerChartDataWithTimeRange: (serverId: string, startDate: Date, endDate: Date) => 
@@ -1186,7 +1175,7 @@ export const dbUtils = {
   upsertServer: (data: Parameters<typeof dbOps.upsertServer.run>[0]) => 
     withDb(() => safeDbOperation(() => dbOps.upsertServer.run(data), 'upsertServer')),
   
-  checkDuplicateBackup: (data: { server_id: string; backup_name: string; date: string }) =>
+  checkDuplicateBackup: (data: { server_id: string; backup_name: string; date: string; main_operation: OperationType }) =>
     withDb(() => {
       try {
         const result = safeDbOperation(() => dbOps.checkDuplicateBackup.get(data), 'checkDuplicateBackup') as { count: number } | undefined;
@@ -1211,6 +1200,14 @@ export const dbUtils = {
           const backupResult = safeDbOperation(() => dbOps.deleteServerBackups.run(serverId), 'deleteServerBackups');
           // Then delete the server itself
           const serverResult = safeDbOperation(() => dbOps.deleteServer.run(serverId), 'deleteServer');
+          // Remove the server from its server groups
+          safeDbOperation(() => dbOps.deleteServerFromGroups.run(serverId), 'deleteServerFromGroups');
+          // Remove the maintenance windows of the server
+          safeDbOperation(() => dbOps.deleteServerMaintenanceWindows.run(serverId), 'deleteServerMaintenanceWindows');
+          // Remove the notification history of the server
+          safeDbOperation(() => dbOps.deleteServerNotificationMessages.run(serverId), 'deleteServerNotificationMessages');
+          // Revoke the status badge tokens of the server
+          safeDbOperation(() => dbOps.deleteServerBadgeTokens.run(serverId), 'deleteServerBadgeTokens');
           
           // Clean up configuration data for this server
           cleanupServerConfiguration(server.id);
@@ -1328,6 +1325,30 @@ function updateConfigurationServerId(oldServerId: string, newServerId: string):
       
       setConfigOverdueNotifications(updatedOverdueNotifications);
     }
+
+    // Update backup_incidents
+    updateConfigBackupIncidents(backupIncidents => {
+      for (const [backupKey, incident] of Object.entries(backupIncidents)) {
+        const [keyServerId, backupName] = backupKey.split(':');
+        if (keyServerId === oldServerId) {
+          delete backupIncidents[backupKey];
+          backupIncidents[`${newServerId}:${backupName}`] = incident;
+        }
+      }
+    });
+
+    // Update backup_acknowledgements
+    const backupAcknowledgements = getConfigBackupAcknowledgements();
+    if (Object.keys(backupAcknowledgements).length > 0) {
+      const updatedBackupAcknowledgements: BackupAcknowledgements = {};
+
+      for (const [backupKey, acknowledgement] of Object.entries(backupAcknowledgements)) {
+        const [keyServerId, backupName] = backupKey.split(':');
+        updatedBackupAcknowledgements[keyServerId === oldServerId ? `${newServerId}:${backupName}` : backupKey] = acknowledgement;
+      }
+
+      setConfigBackupAcknowledgements(updatedBackupAcknowledgements);
+    }
   } catch (error) {
     console.error(`Failed to update configuration for server merge ${oldServerId} -> ${newServerId}:`, error instanceof Error ? error.message : String(error));
   }
@@ -1424,6 +1445,17 @@ export async function mergeServers(oldServerIds: string[], targetServerId: strin
             targetServerId
           ), 'updateServerWithPassword');
           
+          // Move server group membership to the target server
+          safeDbOperation(() => dbOps.copyServerGroupMembership.run({ newServerId: targetServerId, oldServerId }), 'copyServerGroupMembership');
+          safeDbOperation(() => dbOps.deleteServerFromGroups.run(oldServerId), 'deleteServerFromGroups');
+          // Move maintenance windows to the target server
+          safeDbOperation(() => dbOps.moveServerMaintenanceWindows.run({ newServerId: targetServerId, oldServerId }), 'moveServerMaintenanceWindows');
+          // Move the notification history to the target server
+          safeDbOperation(() => dbOps.moveServerNotificationMessages.run({ newServerId: targetServerId, oldServerId }), 'moveServerNotificationMessages');
+          // Move the status badge tokens to the target server
+          safeDbOperation(() => dbOps.moveServerBadgeTokens.run({ newServerId: targetServerId, oldServerId }), 'moveServerBadgeTokens');
+          safeDbOperation(() => dbOps.deleteServerBadgeTokens.run(oldServerId), 'deleteServerBadgeTokens');
+          
           // Delete old server entry
           safeDbOperation(() => dbOps.deleteServer.run(oldServerId), 'deleteServer');
         });
@@ -1482,6 +1514,23 @@ function cleanupServerConfiguration(serverId: string): void {
       // Save the updated overdue notifications
       setConfigOverdueNotifications(updatedOverdueNotifications);
     }
+
+    // Clean up backup_incidents
+    updateConfigBackupIncidents(backupIncidents => {
+      for (const backupKey of Object.keys(backupIncidents)) {
+        if (backupKey.split(':')[0] === serverId) {
+          delete backupIncidents[backupKey];
+        }
+      }
+    });
+
+    // Clean up backup_acknowledgements
+    const backupAcknowledgements = getConfigBackupAcknowledgements();
+    if (Object.keys(backupAcknowledgements).length > 0) {
+      setConfigBackupAcknowledgements(Object.fromEntries(
+        Object.entries(backupAcknowledgements).filter(([backupKey]) => backupKey.split(':')[0] !== serverId)
+      ));
+    }
   } catch (error) {
     console.error(`Failed to cleanup configuration for server ${serverId}:`, error instanceof Error ? error.message : String(error));
   }
@@ -1544,8 +1593,181 @@ export function setNtfyConfig(config: NtfyConfig): void {
   }
 }
 
+// Functions to get/set the outgoing webhook configuration under 'webhook_config'
+export function getWebhookConfig(): WebhookConfig {
+  return getCachedOrCompute('webhook_config', () => {
+    try {
+      const webhookJson = getConfiguration('webhook_config');
+      if (!webhookJson || webhookJson.trim() === '') {
+        return { ...defaultWebhookConfig };
+      }
+      const parsed = JSON.parse(webhookJson) as Partial<WebhookConfig>;
+      return {
+        url: parsed.url || '',
+        method: parsed.method || defaultWebhookConfig.method,
+        headers: Array.isArray(parsed.headers) ? parsed.headers : [],
+        bodyTemplate: parsed.bodyTemplate || defaultWebhookConfig.bodyTemplate
+      };
+    } catch (error) {
+      console.error('Failed to get webhook configuration:', error instanceof Error ? error.message : String(error));
+      return { ...defaultWebhookConfig };
+    }
+  }, 'getWebhookConfig');
+}
+
+// The path and query of a webhook URL can hold a token (e.g. Slack or Discord webhooks), keep only its origin
+export function redactWebhookUrl(url: string): string {
+  try {
+    return url ? new URL(url).origin : '';
+  } catch {
+    return '';
+  }
+}
+
+// Header values (e.g. an Authorization token) and the full URL can hold credentials, only admins receive them
+export function redactWebhookConfig(config: WebhookConfig): WebhookConfig {
+  return {
+    ...config,
+    url: redactWebhookUrl(config.url),
+    headers: config.headers.map(header => ({ name: header.name, value: '' }))
+  };
+}
+
+export function setWebhookConfig(config: WebhookConfig): void {
+  try {
+    setConfiguration('webhook_config', JSON.stringify(config));
+  } catch (error) {
+    console.error('Failed to save webhook configuration:', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
+// Functions to get/set the named email recipient groups under 'email_recipient_groups'
+export function getEmailRecipientGroups(): EmailRecipientGroup[] {
+  return getCachedOrCompute('email_recipient_groups', () => {
+    try {
+      const groupsJson = getConfiguration('email_recipient_groups');
+      if (!groupsJson || groupsJson.trim() === '') {
+        return [];
+      }
+      const parsed = JSON.parse(groupsJson) as EmailRecipientGroup[];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Failed to get email recipient groups:', error instanceof Error ? error.message : String(error));
+      return [];
+    }
+  }, 'getEmailRecipientGroups');
+}
+
+export function setEmailRecipientGroups(groups: EmailRecipientGroup[]): void {
+  try {
+    setConfiguration('email_recipient_groups', JSON.stringify(groups));
+  } catch (error) {
+    console.error('Failed to save email recipient groups:', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
+// Functions to get/set the HTML email templates under 'email_templates'
+// Templates saved empty stay empty (the text message is converted to HTML), missing ones use the default layout
+export function getEmailTemplateConfig(): EmailTemplateConfig {
+  return getCachedOrCompute('email_templates', () => {
+    try {
+      const configJson = getConfiguration('email_templates');
+      if (!configJson || configJson.trim() === '') {
+        return { ...defaultEmailTemplateConfig, templates: { ...defaultEmailTemplateConfig.templates } };
+      }
+      const parsed = JSON.parse(configJson) as Partial<EmailTemplateConfig>;
+      const templates = { ...defaultEmailTemplateConfig.templates };
+      for (const templateType of Object.keys(templates) as (keyof EmailTemplates)[]) {
+        const template = parsed.templates?.[templateType];
+        if (typeof template === 'string') {
+          templates[templateType] = template;
+        }
+      }
+      return {
+        dashboardUrl: typeof parsed.dashboardUrl === 'string' ? parsed.dashboardUrl : '',
+        templates,
+      };
+    } catch (error) {
+      console.error('Failed to get email templates:', error instanceof Error ? error.message : String(error));
+      return { ...defaultEmailTemplateConfig, templates: { ...defaultEmailTemplateConfig.templates } };
+    }
+  }, 'getEmailTemplateConfig');
+}
+
+export function setEmailTemplateConfig(config: EmailTemplateConfig): void {
+  try {
+    setConfiguration('email_templates', JSON.stringify(config));
+  } catch (error) {
+    console.error('Failed to save email templates:', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
+// Functions to get/set the single sign-on configuration under 'oidc_config' (client secret is encrypted)
+export function getOidcConfig(): OidcConfig {
+  return getCachedOrCompute('oidc_config', () => {
+    try {
+      const configJson = getConfiguration('oidc_config');
+      if (!configJson || configJson.trim() === '') {
+        return { ...defaultOidcConfig, roleMapping: { ...defaultOidcConfig.roleMapping } };
+      }
+      const parsed = JSON.parse(configJson) as Partial<OidcConfig>;
+      return {
+        ...defaultOidcConfig,
+        ...parsed,
+        clientSecret: parsed.clientSecret ? decryptData(parsed.clientSecret) : '',
+        roleMapping: { ...defaultOidcConfig.roleMapping, ...parsed.roleMapping }
+      };
+    } catch (error) {
+      console.error('Failed to get OIDC configuration:', error instanceof Error ? error.message : String(error));
+      return { ...defaultOidcConfig, roleMapping: { ...defaultOidcConfig.roleMapping } };
+    }
+  }, 'getOidcConfig');
+}
+
+export function setOidcConfig(config: OidcConfig): void {
+  try {
+    const encryptedConfig: OidcConfig = {
+      ...config,
+      clientSecret: config.clientSecret ? encryptData(config.clientSecret) : ''
+    };
+    setConfiguration('oidc_config', JSON.stringify(encryptedConfig));
+  } catch (error) {
+    console.error('Failed to save OIDC configuration:', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
+// Functions to get/set the notification rules for non-backup operations under 'operation_notifications'
+export function getOperationNotificationConfig(): OperationNotificationConfig {
+  return getCachedOrCompute('operation_notifications', () => {
+    try {
+      const configJson = getConfiguration('operation_notifications');
+      if (!configJson || configJson.trim() === '') {
+        return { ...defaultOperationNotificationConfig };
+      }
+      const parsed = JSON.parse(configJson) as Partial<OperationNotificationConfig>;
+      return { ...defaultOperationNotificationConfig, ...parsed };
+    } catch (error) {
+      console.error('Failed to get operation notification configuration:', error instanceof Error ? error.message : String(error));
+      return { ...defaultOperationNotificationConfig };
+    }
+  }, 'getOperationNotificationConfig');
+}
+
+export function setOperationNotificationConfig(config: OperationNotificationConfig): void {
+  try {
+    setConfiguration('operation_notifications', JSON.stringify(config));
+  } catch (error) {
+    console.error('Failed to save operation notification configuration:', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
 // New: Functions to get/set Notification Templates under 'notification_templates'
-export function getNotificationTemplates(): { success: NotificationTemplate; warning: NotificationTemplate; overdueBackup: NotificationTemplate } {
+export function getNotificationTemplates(): NotificationTemplates {
   return getCachedOrCompute('notification_templates', () => {
     try {
       const templatesJson = getConfiguration('notification_templates');
@@ -1553,11 +1775,14 @@ export function getNotificationTemplates(): { success: NotificationTemplate; war
         setNotificationTemplates(defaultNotificationTemplates);
         return defaultNotificationTemplates;
       }
-      const parsed = JSON.parse(templatesJson) as { success: NotificationTemplate; warning: NotificationTemplate; overdueBackup: NotificationTemplate };
+      const parsed = JSON.parse(templatesJson) as Partial<NotificationTemplates>;
       return {
         success: parsed.success || defaultNotificationTemplates.success,
         warning: parsed.warning || defaultNotificationTemplates.warning,
-        overdueBackup: parsed.overdueBackup || defaultNotificationTemplates.overdueBackup
+        overdueBackup: parsed.overdueBackup || defaultNotificationTemplates.overdueBackup,
+        operation: parsed.operation || defaultNotificationTemplates.operation,
+        recovered: parsed.recovered || defaultNotificationTemplates.recovered,
+        anomaly: parsed.anomaly || defaultNotificationTemplates.anomaly
       };
     } catch (error) {
       console.error('Failed to get notification templates:', error instanceof Error ? error.message : String(error));
@@ -1567,7 +1792,7 @@ export function getNotificationTemplates(): { success: NotificationTemplate; war
   }, 'getNotificationTemplates');
 }
 
-export function setNotificationTemplates(templates: { success: NotificationTemplate; warning: NotificationTemplate; overdueBackup: NotificationTemplate }): void {
+export function setNotificationTemplates(templates: NotificationTemplates): void {
   try {
     setConfiguration('notification_templates', JSON.stringify(templates));
   } catch (error) {
@@ -1609,6 +1834,106 @@ export function setConfigOverdueNotifications(overdueNotifications: OverdueNotif
   }
 }
 
+// Functions to get/set the open backup incidents (failing or overdue backups) under 'backup_incidents'
+// Not cached: uploads and the overdue check in the cron service both update them
+export function getConfigBackupIncidents(): BackupIncidents {
+  try {
+    const value = JSON.parse(getConfiguration('backup_incidents') || '{}');
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as BackupIncidents : {};
+  } catch (error) {
+    console.error('Failed to get backup incidents:', error instanceof Error ? error.message : String(error));
+    return {};
+  }
+}
+
+export function setConfigBackupIncidents(incidents: BackupIncidents): void {
+  try {
+    setConfiguration('backup_incidents', JSON.stringify(incidents));
+  } catch (error) {
+    console.error('Failed to save backup incidents:', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
+// Read, change and save the backup incidents in one write transaction (BEGIN IMMEDIATE), so an upload
+// and the overdue check of the cron service cannot overwrite each other's changes
+export function updateConfigBackupIncidents<T>(update: (incidents: BackupIncidents) => T): T {
+  return db.transaction(() => {
+    const incidents = getConfigBackupIncidents();
+    const result = update(incidents);
+    setConfigBackupIncidents(incidents);
+    return result;
+  }).immediate();
+}
+
+// Functions to get/set the acknowledged backup problems under 'backup_acknowledgements'
+// Not cached: uploads clear them and the overdue check in the cron service reads them
+export function getConfigBackupAcknowledgements(): BackupAcknowledgements {
+  try {
+    const value = JSON.parse(getConfiguration('backup_acknowledgements') || '{}');
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as BackupAcknowledgements : {};
+  } catch (error) {
+    console.error('Failed to get backup acknowledgements:', error instanceof Error ? error.message : String(error));
+    return {};
+  }
+}
+
+export function setConfigBackupAcknowledgements(acknowledgements: BackupAcknowledgements): void {
+  try {
+    setConfiguration('backup_acknowledgements', JSON.stringify(acknowledgements));
+  } catch (error) {
+    console.error('Failed to save backup acknowledgements:', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
+// An acknowledgement only applies while the backup is still in the acknowledged problem state
+export function getCurrentAcknowledgement(
+  acknowledgement: BackupAcknowledgement | undefined,
+  problemState: BackupProblemState | null
+): BackupAcknowledgement | null {
+  return acknowledgement && acknowledgement.state === problemState ? acknowledgement : null;
+}
+
+// Functions to get/set whether notifications are only sent when a backup changes state
+export function getStateChangeNotificationsOnly(): boolean {
+  return getConfiguration('notify_state_changes_only') === 'true';
+}
+
+export function setStateChangeNotificationsOnly(enabled: boolean): void {
+  setConfiguration('notify_state_changes_only', enabled ? 'true' : 'false');
+}
+
+// Functions to get/set the anomaly detection on incoming backups under 'anomaly_detection'
+export function getAnomalyDetectionConfig(): AnomalyDetectionConfig {
+  return getCachedOrCompute('anomaly_detection', () => {
+    try {
+      const configJson = getConfiguration('anomaly_detection');
+      if (!configJson || configJson.trim() === '') {
+        return { ...defaultAnomalyDetectionConfig, thresholds: { ...defaultAnomalyDetectionConfig.thresholds } };
+      }
+      const parsed = JSON.parse(configJson) as Partial<AnomalyDetectionConfig>;
+      return {
+        ...defaultAnomalyDetectionConfig,
+        ...parsed,
+        thresholds: { ...defaultAnomalyDetectionConfig.thresholds, ...parsed.thresholds }
+      };
+    } catch (error) {
+      console.error('Failed to get anomaly detection configuration:', error instanceof Error ? error.message : String(error));
+      return { ...defaultAnomalyDetectionConfig, thresholds: { ...defaultAnomalyDetectionConfig.thresholds } };
+    }
+  }, 'getAnomalyDetectionConfig');
+}
+
+export function setAnomalyDetectionConfig(config: AnomalyDetectionConfig): void {
+  try {
+    setConfiguration('anomaly_detection', JSON.stringify(config));
+  } catch (error) {
+    console.error('Failed to save anomaly detection configuration:', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
 // Functions to get/set overdue tolerance config
 export function getOverdueToleranceConfig(): OverdueTolerance {
   return getCachedOrCompute('overdueToleranceConfig', () => {
@@ -1825,11 +2150,9 @@ export async function getConfigBackupSettings(): Promise<Record<BackupKey, Backu
       // Proceed with time calculation using effective baseTime
       if (effectiveBaseTime && (latestBackupDate || effectiveBaseTime)) {
         try {
-          const expectedBackupDate = GetNextBackupRunDate(
+          const expectedBackupDate = getExpectedBackupDate(
             latestBackupDate || effectiveBaseTime,
-            effectiveBaseTime,
-            existingSettings.expectedInterval,
-            existingSettings.allowedWeekDays || getDefaultAllowedWeekDays()
+            { ...existingSettings, time: effectiveBaseTime }
           );
           
           // Only update if the calculated date is valid and different from current time
@@ -1929,12 +2252,7 @@ export async function getOverdueBackupsForServer(serverIdentifier: string): Prom
         if (!latestBackup) continue;
         
         // Calculate expected backup date (without tolerance)
-        const expectedBackupDate = GetNextBackupRunDate(
-          latestBackup.date,
-          settings.time, 
-          settings.expectedInterval, 
-          settings.allowedWeekDays || getDefaultAllowedWeekDays()
-        );
+        const expectedBackupDate = getExpectedBackupDate(latestBackup.date, settings);
         
         if (expectedBackupDate === 'N/A') continue;
         
@@ -2,7 +2,7 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
 import { randomBytes } from 'crypto';
-import { DatabaseMigrator } from './db-migrations';
+import { DatabaseMigrator, latestDbVersion } from './db-migrations';
 import bcrypt from 'bcrypt';
 import { BackupNotificationConfig } from '@/lib/types';
 import { defaultAuthConfig } from './default-config';
@@ -290,7 +290,7 @@ class DatabaseInitLock {
   }
 }
 
-// Track if we just created a fresh database (to skip migrations)
+// Track if we just created a fresh database (to skip the pre-migration backup)
 let isFreshDatabase = false;
 const initLock = new DatabaseInitLock(dbPath);
 
@@ -645,7 +645,7 @@ try {
   if (errorMessage.includes('already exists') || errorMessage.includes('table') && errorMessage.includes('exists')) {
     logWithTimestamp('Database tables already exist (likely from concurrent build process), continuing...');
     // Don't throw - the database is already initialized
-    isFreshDatabase = true; // Mark as fresh so migrations are skipped
+    isFreshDatabase = true; // Mark as fresh so the pre-migration backup is skipped
   } else {
     errorWithTimestamp('Failed to initialize database schema:', errorMessage);
     throw error;
@@ -773,17 +773,10 @@ async function ensureDatabaseInitialized() {
       // Check the actual database version before deciding whether to run migrations
       const currentVersion = migrator.getCurrentVersion();
       
-      if (currentVersion === '4.1') {
-        // Database is at latest version, no migrations needed
-        // Only log if we actually created a fresh database
-        if (isFreshDatabase) {
-          // Already logged during initialization
-        }
-      } else if (isFreshDatabase) {
-        // Fresh database but version check failed - shouldn't happen, but skip migrations
-      } else {
-        // Database exists but is not at version 4.1, run migrations
-        await migrator.runMigrations();
+      if (currentVersion !== latestDbVersion) {
+        // Fresh databases are created with the v4.0 schema and also need the later migrations
+        // (no backup is needed for them, they have no data yet)
+        await migrator.runMigrations(isFreshDatabase);
       }
       
       // Create database operations if not already created
@@ -1009,7 +1002,7 @@ function createDbOps() {
     SELECT b.*, s.name as server_name
     FROM backups b
     JOIN servers s ON b.server_id = s.id
-    WHERE b.server_id = ?
+    WHERE b.server_id = ? AND b.main_operation = 'Backup'
     ORDER BY b.date DESC
     LIMIT 1
   `, 'getLatestBackup'),
@@ -1018,7 +1011,7 @@ function createDbOps() {
     SELECT b.*, s.name as server_name
     FROM backups b
     JOIN servers s ON b.server_id = s.id
-    WHERE b.server_id = ? AND b.backup_name = ?
+    WHERE b.server_id = ? AND b.backup_name = ? AND b.main_operation = 'Backup'
     ORDER BY b.date DESC
     LIMIT 1
   `, 'getLatestBackupByName'),
@@ -1033,7 +1026,7 @@ function createDbOps() {
       s.note,
       CASE WHEN s.server_password IS NOT NULL AND s.server_password != '' THEN 1 ELSE 0 END as has_password
     FROM servers s
-    JOIN backups b ON b.server_id = s.id
+    JOIN backups b ON b.server_id = s.id AND b.main_operation = 'Backup'
     GROUP BY s.id, s.name, b.backup_name
     ORDER BY s.name, b.backup_name
   `, 'getServersBackupNames'),
@@ -1049,8 +1042,10 @@ function createDbOps() {
     WHERE (b.server_id, b.backup_name, b.date) IN (
       SELECT server_id, backup_name, MAX(date) as max_date
       FROM backups
+      WHERE main_operation = 'Backup'
       GROUP BY server_id, backup_name
     )
+    AND b.main_operation = 'Backup'
     ORDER BY s.name, b.backup_name
   `, 'getAllLatestBackups'),
 
@@ -1073,16 +1068,94 @@ function createDbOps() {
       b.warnings_array,
       b.errors_array,
       b.available_backups,
+      b.anomalies,
       b.warnings_actual_length,
       b.errors_actual_length,
       b.messages_actual_length,
       s.name as server_name
     FROM backups b
     JOIN servers s ON b.server_id = s.id
-    WHERE b.server_id = ?
+    WHERE b.server_id = ? AND b.main_operation = 'Backup'
     ORDER BY b.date DESC
   `, 'getServerBackups'),
 
+  // Statistics of the latest good runs of a backup before a date, baseline of the anomaly detection
+  getBackupAnomalyBaseline: safePrepare(`
+    SELECT examined_files, size, COALESCE(uploaded_size, 0) as uploaded_size, duration_seconds
+    FROM backups
+    WHERE server_id = @serverId AND backup_name = @backupName AND main_operation = 'Backup'
+      AND status NOT IN ('Error', 'Fatal') AND date < @date
+    ORDER BY date DESC
+    LIMIT @limit
+  `, 'getBackupAnomalyBaseline'),
+
+  setBackupAnomalies: safePrepare(`
+    UPDATE backups SET anomalies = ? WHERE id = ?
+  `, 'setBackupAnomalies'),
+
+  // Backup runs of each backup job during a digest period
+  getDigestRunStatistics: safePrepare(`
+    SELECT
+      server_id,
+      backup_name,
+      COUNT(*) as runs,
+      SUM(CASE WHEN status = 'Success' THEN 1 ELSE 0 END) as successful_runs,
+      SUM(CASE WHEN status IN ('Error', 'Fatal') THEN 1 ELSE 0 END) as failed_runs,
+      MAX(duration_seconds) as max_duration,
+      SUM(COALESCE(uploaded_size, 0)) as uploaded_size
+    FROM backups
+    WHERE main_operation = 'Backup' AND date >= @since AND date < @until
+    GROUP BY server_id, backup_name
+  `, 'getDigestRunStatistics'),
+
+  // Storage size of each backup job at the start of a digest period (last backup before the period)
+  getDigestStorageAtDate: safePrepare(`
+    SELECT b.server_id, b.backup_name, b.known_file_size as storage_size
+    FROM backups b
+    WHERE b.main_operation = 'Backup' AND b.date = (
+      SELECT MAX(b2.date)
+      FROM backups b2
+      WHERE b2.server_id = b.server_id AND b2.backup_name = b.backup_name
+        AND b2.main_operation = 'Backup' AND b2.date < @date
+    )
+  `, 'getDigestStorageAtDate'),
+
+  // Worst status of each day (UTC) of the backup jobs, for the status bars of the public status pages
+  getDailyBackupStatus: safePrepare(`
+    SELECT
+      server_id,
+      backup_name,
+      substr(date, 1, 10) as day,
+      COUNT(*) as runs,
+      MAX(CASE status WHEN 'Fatal' THEN 4 WHEN 'Error' THEN 3 WHEN 'Warning' THEN 2 WHEN 'Success' THEN 1 ELSE 0 END) as severity
+    FROM backups
+    WHERE main_operation = 'Backup' AND date >= @since
+    GROUP BY server_id, backup_name, day
+  `, 'getDailyBackupStatus'),
+
+  // Non-backup operations (Restore, Test, Compact, Repair, Delete) reported for a server
+  getServerOperations: safePrepare(`
+    SELECT 
+      b.id,
+      b.server_id,
+      b.backup_name,
+      b.main_operation,
+      b.date,
+      b.status,
+      b.duration_seconds,
+      b.warnings,
+      b.errors,
+      b.messages_array,
+      b.warnings_array,
+      b.errors_array,
+      b.warnings_actual_length,
+      b.errors_actual_length,
+      b.messages_actual_length
+    FROM backups b
+    WHERE b.server_id = ? AND b.main_operation != 'Backup'
+    ORDER BY b.date DESC
+  `, 'getServerOperations'),
+
    getOverallSummary: safePrepare(`
     SELECT 
       COUNT(DISTINCT s.id) as total_servers,
@@ -1095,8 +1168,10 @@ function createDbOps() {
         INNER JOIN (
           SELECT server_id, MAX(date) as max_date
           FROM backups
+          WHERE main_operation = 'Backup'
           GROUP BY server_id
         ) latest ON b2.server_id = latest.server_id AND b2.date = latest.max_date
+        WHERE b2.main_operation = 'Backup'
       ) as total_storage_used,
       (
         SELECT COALESCE(SUM(b2.size_of_examined_files), 0)
@@ -1104,16 +1179,21 @@ function createDbOps() {
         INNER JOIN (
           SELECT server_id, MAX(date) as max_date
           FROM backups
+          WHERE main_operation = 'Backup'
           GROUP BY server_id
         ) latest ON b2.server_id = latest.server_id AND b2.date = latest.max_date
+        WHERE b2.main_operation = 'Backup'
       ) as total_backuped_size
     FROM servers s
-    LEFT JOIN backups b ON b.server_id = s.id
+    LEFT JOIN backups b ON b.server_id = s.id AND b.main_operation = 'Backup'
   `, 'getOverallSummary'),
   
+  // @serverIds is a JSON array of server IDs, or NULL for all servers
   getLatestBackupDate: safePrepare(`
     SELECT MAX(date) as last_backup_date
     FROM backups
+    WHERE main_operation = 'Backup'
+    AND (@serverIds IS NULL OR server_id IN (SELECT value FROM json_each(@serverIds)))
   `, 'getLatestBackupDate'),
 
   getAggregatedChartData: safePrepare(`
@@ -1127,6 +1207,8 @@ function createDbOps() {
       COALESCE(b.known_file_size, 0) as storageSize,
       COALESCE(b.backup_list_count, 0) as backupVersions
     FROM backups b
+    WHERE b.main_operation = 'Backup'
+    AND (@serverIds IS NULL OR b.server_id IN (SELECT value FROM json_each(@serverIds)))
     ORDER BY b.date
   `, 'getAggregatedChartData'),
 
@@ -1136,6 +1218,7 @@ function createDbOps() {
     WHERE server_id = @server_id
     AND backup_name = @backup_name
     AND date = @date
+    AND main_operation = @main_operation
   `, 'checkDuplicateBackup'),
 
   // Add new operation to delete a specific server and its backups
@@ -1200,7 +1283,7 @@ function createDbOps() {
       (
         SELECT COUNT(*)
         FROM backups b_count
-        WHERE b_count.server_id = s.id AND b_count.backup_name = b.backup_name
+        WHERE b_count.server_id = s.id AND b_count.backup_name = b.backup_name AND b_count.main_operation = 'Backup'
       ) AS backup_count,
       b2.examined_files AS file_count,
       b2.size AS file_size,
@@ -1215,24 +1298,26 @@ function createDbOps() {
         FROM (
           SELECT b_hist.status as b_hist_status
           FROM backups b_hist
-          WHERE b_hist.server_id = s.id AND b_hist.backup_name = b.backup_name
+          WHERE b_hist.server_id = s.id AND b_hist.backup_name = b.backup_name AND b_hist.main_operation = 'Backup'
           ORDER BY b_hist.date
         )
       ) AS status_history
     FROM servers s
-    JOIN backups b ON b.server_id = s.id
+    JOIN backups b ON b.server_id = s.id AND b.main_operation = 'Backup'
     LEFT JOIN (
       SELECT
         server_id,
         backup_name,
         MAX(date) AS last_backup_date
       FROM backups
+      WHERE main_operation = 'Backup'
       GROUP BY server_id, backup_name
     ) lb ON lb.server_id = s.id AND lb.backup_name = b.backup_name
     LEFT JOIN backups b2
       ON b2.server_id = s.id
       AND b2.backup_name = b.backup_name
       AND b2.date = lb.last_backup_date
+      AND b2.main_operation = 'Backup'
     WHERE lb.last_backup_date IS NOT NULL
     GROUP BY s.id, s.name, b.backup_name, lb.last_backup_date, b2.id, b2.status, b2.duration_seconds, b2.examined_files, b2.size, b2.known_file_size, b2.backup_list_count, b2.uploaded_size
     ORDER BY s.name, b.backup_name  
@@ -1251,6 +1336,7 @@ function createDbOps() {
       SUM(COALESCE(b.known_file_size, 0)) AS storageSize,
       CAST(ROUND(SUM(COALESCE(b.backup_list_count, 0))) AS INTEGER) AS backupVersions
     FROM backups b
+    WHERE b.main_operation = 'Backup'
     GROUP BY b.date, b.server_id
     ORDER BY b.date
   `, 'getAllServersChartData'),
@@ -1268,6 +1354,8 @@ function createDbOps() {
       CAST(ROUND(SUM(COALESCE(b.backup_list_count, 0))) AS INTEGER) AS backupVersions
     FROM backups b
     WHERE b.date BETWEEN @startDate AND @endDate
+    AND b.main_operation = 'Backup'
+    AND (@serverIds IS NULL OR b.server_id IN (SELECT value FROM json_each(@serverIds)))
     GROUP BY DATE(b.date)
     ORDER BY b.date
   `, 'getAggregatedChartDataWithTimeRange'),
@@ -1285,6 +1373,7 @@ function createDbOps() {
       CAST(ROUND(SUM(COALESCE(b.backup_list_count, 0))) AS INTEGER) AS backupVersions
     FROM backups b
     WHERE b.server_id = ?
+    AND b.main_operation = 'Backup'
     GROUP BY DATE(b.date)
     ORDER BY b.date
   `, 'getServerChartData'),
@@ -1303,6 +1392,7 @@ function createDbOps() {
     FROM backups b
     WHERE b.server_id = @serverId
     AND b.date BETWEEN @startDate AND @endDate
+    AND b.main_operation = 'Backup'
     GROUP BY DATE(b.date)
     ORDER BY b.date
   `, 'getServerChartDataWithTimeRange'),
@@ -1321,6 +1411,7 @@ function createDbOps() {
     FROM backups b
     WHERE b.server_id = @serverId
     AND b.backup_name = @backupName
+    AND b.main_operation = 'Backup'
     GROUP BY DATE(b.date)
     ORDER BY b.date
   `, 'getServerBackupChartData'),
@@ -1340,44 +1431,63 @@ function createDbOps() {
     WHERE b.server_id = @serverId
       AND b.backup_name = @backupName
       AND b.date BETWEEN @startDate AND @endDate
+      AND b.main_operation = 'Backup'
     GROUP BY DATE(b.date)
     ORDER BY b.date
   `, 'getServerBackupChartDataWithTimeRange'),
 
   // User operations
   getUserById: safePrepare(`
-    SELECT id, username, is_admin, must_change_password, created_at, updated_at, 
+    SELECT id, username, role, auth_provider, totp_enabled, must_change_password, created_at, updated_at, 
            last_login_at, last_login_ip, failed_login_attempts, locked_until
     FROM users WHERE id = ?
   `, 'getUserById'),
 
   getUserByIdWithPassword: safePrepare(`
-    SELECT id, username, password_hash, is_admin, must_change_password, created_at, updated_at, 
+    SELECT id, username, password_hash, role, auth_provider, totp_enabled, must_change_password, created_at, updated_at, 
            last_login_at, last_login_ip, failed_login_attempts, locked_until
     FROM users WHERE id = ?
   `, 'getUserByIdWithPassword'),
 
   getUserByUsername: safePrepare(`
-    SELECT id, username, password_hash, is_admin, must_change_password, created_at, 
+    SELECT id, username, password_hash, role, auth_provider, totp_enabled, must_change_password, created_at, 
            updated_at, last_login_at, last_login_ip, failed_login_attempts, locked_until
     FROM users WHERE username = ?
   `, 'getUserByUsername'),
 
+  getUserByExternalId: safePrepare(`
+    SELECT id, username, role, auth_provider, must_change_password, created_at, 
+           updated_at, last_login_at, last_login_ip, failed_login_attempts, locked_until
+    FROM users WHERE auth_provider = ? AND external_id = ?
+  `, 'getUserByExternalId'),
+
   getAllUsers: safePrepare(`
-    SELECT id, username, is_admin, must_change_password, created_at, updated_at, 
+    SELECT id, username, role, auth_provider, totp_enabled, must_change_password, created_at, updated_at, 
            last_login_at, last_login_ip, failed_login_attempts, locked_until
     FROM users ORDER BY username
   `, 'getAllUsers'),
 
   createUser: safePrepare(`
     INSERT INTO users (
-      id, username, password_hash, is_admin, must_change_password
+      id, username, password_hash, role, must_change_password
     ) VALUES (?, ?, ?, ?, ?)
   `, 'createUser'),
 
+  createExternalUser: safePrepare(`
+    INSERT INTO users (
+      id, username, password_hash, role, must_change_password, auth_provider, external_id
+    ) VALUES (?, ?, ?, ?, 0, ?, ?)
+  `, 'createExternalUser'),
+
+  updateExternalUser: safePrepare(`
+    UPDATE users 
+    SET username = ?, role = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `, 'updateExternalUser'),
+
   updateUser: safePrepare(`
     UPDATE users 
-    SET username = ?, is_admin = ?, must_change_password = ?, updated_at = CURRENT_TIMESTAMP
+    SET username = ?, role = ?, must_change_password = ?, updated_at = CURRENT_TIMESTAMP
     WHERE id = ?
   `, 'updateUser'),
 
@@ -1405,6 +1515,43 @@ function createDbOps() {
     WHERE id = ?
   `, 'incrementFailedLoginAttempts'),
 
+  getUserTwoFactor: safePrepare(`
+    SELECT totp_secret, totp_enabled, totp_recovery_codes, totp_last_used_step
+    FROM users WHERE id = ?
+  `, 'getUserTwoFactor'),
+
+  setUserTotpSecret: safePrepare(`
+    UPDATE users 
+    SET totp_secret = ?, totp_enabled = 0, totp_recovery_codes = NULL, totp_last_used_step = NULL,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `, 'setUserTotpSecret'),
+
+  enableUserTwoFactor: safePrepare(`
+    UPDATE users 
+    SET totp_enabled = 1, totp_recovery_codes = ?, totp_last_used_step = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `, 'enableUserTwoFactor'),
+
+  updateUserTotpLastUsedStep: safePrepare(`
+    UPDATE users 
+    SET totp_last_used_step = ?
+    WHERE id = ?
+  `, 'updateUserTotpLastUsedStep'),
+
+  updateUserRecoveryCodes: safePrepare(`
+    UPDATE users 
+    SET totp_recovery_codes = ?
+    WHERE id = ?
+  `, 'updateUserRecoveryCodes'),
+
+  resetUserTwoFactor: safePrepare(`
+    UPDATE users 
+    SET totp_secret = NULL, totp_enabled = 0, totp_recovery_codes = NULL, totp_last_used_step = NULL,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `, 'resetUserTwoFactor'),
+
   unlockUser: safePrepare(`
     UPDATE users 
     SET failed_login_attempts = 0, locked_until = NULL
@@ -1416,9 +1563,305 @@ function createDbOps() {
   `, 'deleteUser'),
 
   countAdminUsers: safePrepare(`
-    SELECT COUNT(*) as count FROM users WHERE is_admin = 1
+    SELECT COUNT(*) as count FROM users WHERE role = 'admin'
   `, 'countAdminUsers'),
 
+  // Server group operations (per-server access scoping)
+  getAllServerGroups: safePrepare(`
+    SELECT id, name, description, created_at, updated_at
+    FROM server_groups ORDER BY name
+  `, 'getAllServerGroups'),
+
+  getServerGroupById: safePrepare(`
+    SELECT id, name, description, created_at, updated_at
+    FROM server_groups WHERE id = ?
+  `, 'getServerGroupById'),
+
+  getServerGroupByName: safePrepare(`
+    SELECT id, name FROM server_groups WHERE name = ?
+  `, 'getServerGroupByName'),
+
+  createServerGroup: safePrepare(`
+    INSERT INTO server_groups (id, name, description) VALUES (?, ?, ?)
+  `, 'createServerGroup'),
+
+  updateServerGroup: safePrepare(`
+    UPDATE server_groups
+    SET name = ?, description = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `, 'updateServerGroup'),
+
+  deleteServerGroup: safePrepare(`
+    DELETE FROM server_groups WHERE id = ?
+  `, 'deleteServerGroup'),
+
+  getAllServerGroupServers: safePrepare(`
+    SELECT group_id, server_id FROM server_group_servers
+  `, 'getAllServerGroupServers'),
+
+  getAllServerGroupUsers: safePrepare(`
+    SELECT group_id, user_id FROM server_group_users
+  `, 'getAllServerGroupUsers'),
+
+  addServerGroupServer: safePrepare(`
+    INSERT OR IGNORE INTO server_group_servers (group_id, server_id) VALUES (?, ?)
+  `, 'addServerGroupServer'),
+
+  clearServerGroupServers: safePrepare(`
+    DELETE FROM server_group_servers WHERE group_id = ?
+  `, 'clearServerGroupServers'),
+
+  addServerGroupUser: safePrepare(`
+    INSERT OR IGNORE INTO server_group_users (group_id, user_id) VALUES (?, ?)
+  `, 'addServerGroupUser'),
+
+  clearServerGroupUsers: safePrepare(`
+    DELETE FROM server_group_users WHERE group_id = ?
+  `, 'clearServerGroupUsers'),
+
+  getServerGroupsForUser: safePrepare(`
+    SELECT g.id, g.name
+    FROM server_groups g
+    JOIN server_group_users gu ON gu.group_id = g.id
+    WHERE gu.user_id = ?
+    ORDER BY g.name
+  `, 'getServerGroupsForUser'),
+
+  getServerGroupsForServer: safePrepare(`
+    SELECT g.id, g.name
+    FROM server_groups g
+    JOIN server_group_servers gs ON gs.group_id = g.id
+    WHERE gs.server_id = ?
+    ORDER BY g.name
+  `, 'getServerGroupsForServer'),
+
+  getServerIdsForUser: safePrepare(`
+    SELECT DISTINCT gs.server_id
+    FROM server_group_servers gs
+    JOIN server_group_users gu ON gu.group_id = gs.group_id
+    WHERE gu.user_id = ?
+  `, 'getServerIdsForUser'),
+
+  // Keep group membership when servers are merged into another server
+  copyServerGroupMembership: safePrepare(`
+    INSERT OR IGNORE INTO server_group_servers (group_id, server_id)
+    SELECT group_id, @newServerId FROM server_group_servers WHERE server_id = @oldServerId
+  `, 'copyServerGroupMembership'),
+
+  deleteServerFromGroups: safePrepare(`
+    DELETE FROM server_group_servers WHERE server_id = ?
+  `, 'deleteServerFromGroups'),
+
+  // Live event operations (real-time dashboard updates)
+  insertEvent: safePrepare(`
+    INSERT INTO events (type, server_id, payload) VALUES (?, ?, ?)
+  `, 'insertEvent'),
+
+  getEventsAfter: safePrepare(`
+    SELECT id, type, server_id, payload, created_at
+    FROM events WHERE id > ?
+    ORDER BY id
+    LIMIT 500
+  `, 'getEventsAfter'),
+
+  getLatestEventId: safePrepare(`
+    SELECT COALESCE(MAX(id), 0) as id FROM events
+  `, 'getLatestEventId'),
+
+  deleteEventsOlderThan: safePrepare(`
+    DELETE FROM events WHERE created_at < datetime('now', ?)
+  `, 'deleteEventsOlderThan'),
+
+  // Maintenance window operations (suppress backup notifications)
+  getAllMaintenanceWindows: safePrepare(`
+    SELECT id, server_id, backup_name, start_time, end_time, recurrence, reason, created_by, created_at
+    FROM maintenance_windows ORDER BY start_time
+  `, 'getAllMaintenanceWindows'),
+
+  getMaintenanceWindowById: safePrepare(`
+    SELECT id, server_id, backup_name, start_time, end_time, recurrence, reason, created_by, created_at
+    FROM maintenance_windows WHERE id = ?
+  `, 'getMaintenanceWindowById'),
+
+  getMaintenanceWindowsForServer: safePrepare(`
+    SELECT id, server_id, backup_name, start_time, end_time, recurrence, reason, created_by, created_at
+    FROM maintenance_windows WHERE server_id = ?
+  `, 'getMaintenanceWindowsForServer'),
+
+  createMaintenanceWindow: safePrepare(`
+    INSERT INTO maintenance_windows (id, server_id, backup_name, start_time, end_time, recurrence, reason, created_by)
+    VALUES (@id, @serverId, @backupName, @startTime, @endTime, @recurrence, @reason, @createdBy)
+  `, 'createMaintenanceWindow'),
+
+  updateMaintenanceWindow: safePrepare(`
+    UPDATE maintenance_windows
+    SET server_id = @serverId, backup_name = @backupName, start_time = @startTime, end_time = @endTime,
+        recurrence = @recurrence, reason = @reason
+    WHERE id = @id
+  `, 'updateMaintenanceWindow'),
+
+  deleteMaintenanceWindow: safePrepare(`
+    DELETE FROM maintenance_windows WHERE id = ?
+  `, 'deleteMaintenanceWindow'),
+
+  // One-off windows (including snoozes) that have ended
+  deleteEndedMaintenanceWindows: safePrepare(`
+    DELETE FROM maintenance_windows WHERE recurrence = 'none' AND end_time < ?
+  `, 'deleteEndedMaintenanceWindows'),
+
+  // Keep maintenance windows when servers are merged into another server
+  moveServerMaintenanceWindows: safePrepare(`
+    UPDATE maintenance_windows SET server_id = @newServerId WHERE server_id = @oldServerId
+  `, 'moveServerMaintenanceWindows'),
+
+  deleteServerMaintenanceWindows: safePrepare(`
+    DELETE FROM maintenance_windows WHERE server_id = ?
+  `, 'deleteServerMaintenanceWindows'),
+
+  // Notification outbox operations (queued notifications and notification history)
+  insertNotificationMessage: safePrepare(`
+    INSERT INTO notification_outbox (
+      id, event, server_id, server_name, backup_name, title, message, priority, tags, webhook_body,
+      email_recipients, email_html, channels, status, attempts, next_attempt_at, created_at, updated_at
+    ) VALUES (
+      @id, @event, @serverId, @serverName, @backupName, @title, @message, @priority, @tags, @webhookBody,
+      @emailRecipients, @emailHtml, @channels, 'pending', 0, @nextAttemptAt, @createdAt, @createdAt
+    )
+  `, 'insertNotificationMessage'),
+
+  getNotificationMessageById: safePrepare(`
+    SELECT * FROM notification_outbox WHERE id = ?
+  `, 'getNotificationMessageById'),
+
+  getDueNotificationMessageIds: safePrepare(`
+    SELECT id FROM notification_outbox
+    WHERE status = 'pending' AND next_attempt_at <= ?
+    ORDER BY next_attempt_at
+    LIMIT ?
+  `, 'getDueNotificationMessageIds'),
+
+  // Claim a due message for delivery: the web app and the cron service share the outbox,
+  // the lease moves its next attempt so the other process does not deliver it at the same time
+  claimNotificationMessage: safePrepare(`
+    UPDATE notification_outbox SET next_attempt_at = @leaseUntil
+    WHERE id = @id AND status = 'pending' AND next_attempt_at <= @now
+  `, 'claimNotificationMessage'),
+
+  updateNotificationDelivery: safePrepare(`
+    UPDATE notification_outbox
+    SET channels = @channels, status = @status, attempts = @attempts, next_attempt_at = @nextAttemptAt,
+        last_error = @lastError, updated_at = @updatedAt
+    WHERE id = @id
+  `, 'updateNotificationDelivery'),
+
+  deleteNotificationMessagesBefore: safePrepare(`
+    DELETE FROM notification_outbox WHERE status != 'pending' AND updated_at < ?
+  `, 'deleteNotificationMessagesBefore'),
+
+  // Keep the notification history when servers are merged into another server
+  moveServerNotificationMessages: safePrepare(`
+    UPDATE notification_outbox SET server_id = @newServerId WHERE server_id = @oldServerId
+  `, 'moveServerNotificationMessages'),
+
+  deleteServerNotificationMessages: safePrepare(`
+    DELETE FROM notification_outbox WHERE server_id = ?
+  `, 'deleteServerNotificationMessages'),
+
+  // Status badge token operations (public SVG badges of a backup job)
+  getAllBadgeTokens: safePrepare(`
+    SELECT id, server_id, backup_name, created_by, created_at, last_used_at, usage_count
+    FROM badge_tokens ORDER BY server_id, backup_name
+  `, 'getAllBadgeTokens'),
+
+  getBadgeTokenByHash: safePrepare(`
+    SELECT id, server_id, backup_name FROM badge_tokens WHERE token_hash = ?
+  `, 'getBadgeTokenByHash'),
+
+  // A new token replaces the previous token of the backup job
+  upsertBadgeToken: safePrepare(`
+    INSERT INTO badge_tokens (id, server_id, backup_name, token_hash, created_by, created_at)
+    VALUES (@id, @serverId, @backupName, @tokenHash, @createdBy, @createdAt)
+    ON CONFLICT (server_id, backup_name) DO UPDATE SET
+      id = excluded.id, token_hash = excluded.token_hash, created_by = excluded.created_by,
+      created_at = excluded.created_at, last_used_at = NULL, usage_count = 0
+  `, 'upsertBadgeToken'),
+
+  recordBadgeTokenUse: safePrepare(`
+    UPDATE badge_tokens SET last_used_at = ?, usage_count = usage_count + 1 WHERE id = ?
+  `, 'recordBadgeTokenUse'),
+
+  deleteBadgeToken: safePrepare(`
+    DELETE FROM badge_tokens WHERE id = ?
+  `, 'deleteBadgeToken'),
+
+  // Tokens of merged servers are dropped when the target server already has a token for the backup job
+  moveServerBadgeTokens: safePrepare(`
+    UPDATE OR IGNORE badge_tokens SET server_id = @newServerId WHERE server_id = @oldServerId
+  `, 'moveServerBadgeTokens'),
+
+  deleteServerBadgeTokens: safePrepare(`
+    DELETE FROM badge_tokens WHERE server_id = ?
+  `, 'deleteServerBadgeTokens'),
+
+  // Cron task run history operations (every execution of a cron service task)
+  insertCronTaskRun: safePrepare(`
+    INSERT INTO cron_task_runs (task_name, started_at, finished_at, duration_ms, success, message, error, statistics)
+    VALUES (@taskName, @startedAt, @finishedAt, @durationMs, @success, @message, @error, @statistics)
+  `, 'insertCronTaskRun'),
+
+  getCronTaskRuns: safePrepare(`
+    SELECT * FROM cron_task_runs
+    WHERE task_name = @taskName AND started_at >= @since
+    ORDER BY started_at DESC, id DESC
+    LIMIT @limit OFFSET @offset
+  `, 'getCronTaskRuns'),
+
+  countCronTaskRuns: safePrepare(`
+    SELECT COUNT(*) as total FROM cron_task_runs
+    WHERE task_name = @taskName AND started_at >= @since
+  `, 'countCronTaskRuns'),
+
+  // Runs per hour (UTC) for the run history chart
+  getCronTaskRunTimeline: safePrepare(`
+    SELECT
+      substr(started_at, 1, 13) as hour,
+      COUNT(*) as runs,
+      SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END) as failures,
+      AVG(duration_ms) as avg_duration_ms,
+      MAX(duration_ms) as max_duration_ms
+    FROM cron_task_runs
+    WHERE task_name = @taskName AND started_at >= @since
+    GROUP BY hour
+    ORDER BY hour
+  `, 'getCronTaskRunTimeline'),
+
+  getCronTaskRunSummaries: safePrepare(`
+    SELECT
+      task_name,
+      COUNT(*) as runs,
+      SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END) as failures,
+      MAX(started_at) as last_started_at
+    FROM cron_task_runs
+    WHERE started_at >= ?
+    GROUP BY task_name
+  `, 'getCronTaskRunSummaries'),
+
+  // Latest run and latest successful run of each task, restored by the cron service on startup
+  getLatestCronTaskRuns: safePrepare(`
+    SELECT * FROM cron_task_runs
+    WHERE id IN (SELECT MAX(id) FROM cron_task_runs GROUP BY task_name)
+  `, 'getLatestCronTaskRuns'),
+
+  getLastSuccessfulCronTaskRuns: safePrepare(`
+    SELECT task_name, MAX(finished_at) as finished_at FROM cron_task_runs
+    WHERE success = 1
+    GROUP BY task_name
+  `, 'getLastSuccessfulCronTaskRuns'),
+
+  deleteCronTaskRunsBefore: safePrepare(`
+    DELETE FROM cron_task_runs WHERE started_at < ?
+  `, 'deleteCronTaskRunsBefore'),
+
   // Session operations
   createSession: safePrepare(`
     INSERT INTO sessions (
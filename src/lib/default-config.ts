@@ -1,11 +1,7 @@
-import { NotificationTemplate, CronServiceConfig, CronInterval, BackupNotificationConfig } from './types';
+import { NotificationTemplates, CronServiceConfig, CronInterval, BackupNotificationConfig, WebhookConfig, OperationNotificationConfig, OidcConfig, AnomalyDetectionConfig, DigestConfig, EmailTemplateConfig } from './types';
 
 // Default notification templates
-export const defaultNotificationTemplates: {
-  overdueBackup: NotificationTemplate;
-  success: NotificationTemplate;
-  warning: NotificationTemplate;
-} = {
+export const defaultNotificationTemplates: NotificationTemplates = {
   success: {
     title: "✅ {status} - {backup_name}  @ {server_alias}",
     message: "Backup {backup_name} on {server_alias} completed with status '{status}' at {backup_date} in {duration}.\n\n" + 
@@ -38,9 +34,163 @@ export const defaultNotificationTemplates: {
              "⚠️ Check the duplicati server immediately {server_url}\n",
     priority: "default",
     tags: "duplicati, duplistatus, overdue"
+  },
+  operation: {
+    title: "🛠️ {operation} {status} - {backup_name}  @ {server_alias}",
+    message: "The {operation} operation of {backup_name} on {server_alias} finished with status '{status}' at {backup_date} in {duration}.\n\n" + 
+             "🔍 Note: {server_note}\n" + 
+             "🚨 {warnings_count} warnings\n" + 
+             "🛑 {errors_count} errors.\n\n" + 
+             "⚠️ Check the duplicati server {server_url}\n",
+    priority: "high",
+    tags: "duplicati, duplistatus, operation"
+  },
+  recovered: {
+    title: "✅ Recovered - {backup_name}  @ {server_alias}",
+    message: "Backup {backup_name} on {server_alias} is back to normal, the last run completed with status '{status}' at {backup_date}.\n\n" + 
+             "🔍 Note: {server_note}\n" + 
+             "🚨 Previous status: {previous_status} since {failed_since} ({failed_duration})\n" + 
+             "🛑 Failed runs: {failed_runs}\n",
+    priority: "default",
+    tags: "duplicati, duplistatus, recovered"
+  },
+  anomaly: {
+    title: "📈 Anomaly - {backup_name}  @ {server_alias}",
+    message: "Backup {backup_name} on {server_alias} completed with status '{status}' at {backup_date}, but {anomaly_count} statistics differ from its recent runs.\n\n" + 
+             "🔍 Note: {server_note}\n" + 
+             "{anomalies}\n\n" + 
+             "⚠️ Check the duplicati server {server_url}\n",
+    priority: "high",
+    tags: "duplicati, duplistatus, anomaly"
   }
 };
 
+// Responsive layout of the default HTML email templates: a colour band with the result, a summary, a table of
+// key metrics and a link to the detail page. Styles are inline because email clients ignore style sheets.
+function buildDefaultEmailTemplate(heading: string, summary: string, metrics: [string, string][], details = ''): string {
+  const cellStyle = 'padding:8px 0;border-bottom:1px solid #e5e7eb;';
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+</head>
+<body style="margin:0;padding:16px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;border-collapse:separate;overflow:hidden;">
+    <tr>
+      <td style="background:{status_color};padding:16px 24px;color:#ffffff;">
+        <div style="font-size:12px;text-transform:uppercase;letter-spacing:1px;">${heading}</div>
+        <div style="font-size:20px;font-weight:bold;margin-top:4px;">{backup_name} @ {server_alias}</div>
+      </td>
+    </tr>
+    <tr>
+      <td style="padding:24px;">
+        <p style="margin:0 0 16px;font-size:14px;line-height:20px;">${summary}</p>
+        {#if server_note}
+        <p style="margin:0 0 16px;font-size:13px;color:#6b7280;">{server_note}</p>
+        {/if}
+        <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;font-size:13px;">
+${metrics.map(([label, value]) => `          <tr><td style="${cellStyle}color:#6b7280;">${label}</td><td style="${cellStyle}text-align:right;">${value}</td></tr>`).join('\n')}
+        </table>
+${details}        {#if detail_url}
+        <p style="margin:24px 0 0;"><a href="{detail_url}" style="display:inline-block;background:{status_color};color:#ffffff;text-decoration:none;padding:10px 16px;border-radius:6px;font-size:14px;">View in duplistatus</a></p>
+        {/if}
+      </td>
+    </tr>
+  </table>
+  <p style="margin:16px 0 0;text-align:center;color:#9ca3af;font-size:11px;">Sent by duplistatus</p>
+</body>
+</html>
+`;
+}
+
+// First log lines of a list variable (errors, warnings) under a heading
+function buildDefaultEmailLogLines(list: string, heading: string): string {
+  return `        {#if ${list}}
+        <p style="margin:20px 0 8px;font-size:13px;font-weight:bold;">${heading}</p>
+        <ul style="margin:0;padding-left:20px;font-size:12px;color:#374151;">
+          {#each ${list} | first:5 | truncate:300 as line}
+          <li style="margin-bottom:4px;">{line}</li>
+          {/each}
+        </ul>
+        {/if}
+`;
+}
+
+// Default HTML email templates and dashboard address
+export const defaultEmailTemplateConfig: EmailTemplateConfig = {
+  dashboardUrl: '',
+  templates: {
+    success: buildDefaultEmailTemplate(
+      'Backup {status}',
+      'Backup {backup_name} on {server_alias} completed at {backup_date} in {duration}.',
+      [
+        ['Status', '{status}'],
+        ['Duration', '{duration}'],
+        ['Files', '{file_count}'],
+        ['File size', '{file_size}'],
+        ['Uploaded', '{uploaded_size}'],
+        ['Storage usage', '{storage_size}'],
+        ['Available versions', '{available_versions}'],
+      ]
+    ),
+    warning: buildDefaultEmailTemplate(
+      'Backup {status}',
+      'Backup {backup_name} on {server_alias} completed with status {status} at {backup_date}. Check the Duplicati server {server_url}',
+      [
+        ['Status', '{status}'],
+        ['Duration', '{duration}'],
+        ['Uploaded', '{uploaded_size}'],
+        ['Warnings', '{warnings_count}'],
+        ['Errors', '{errors_count}'],
+      ],
+      buildDefaultEmailLogLines('errors', 'First errors') + buildDefaultEmailLogLines('warnings', 'First warnings')
+    ),
+    overdueBackup: buildDefaultEmailTemplate(
+      'Backup overdue',
+      'The backup {backup_name} is overdue on {server_alias}. Check the Duplicati server {server_url}',
+      [
+        ['Last backup', '{last_backup_date} ({last_elapsed})'],
+        ['Expected backup', '{expected_date} ({expected_elapsed})'],
+        ['Expected interval', '{backup_interval}'],
+        ['Tolerance', '{overdue_tolerance}'],
+      ]
+    ),
+    operation: buildDefaultEmailTemplate(
+      '{operation} {status}',
+      'The {operation} operation of {backup_name} on {server_alias} finished with status {status} at {backup_date} in {duration}.',
+      [
+        ['Status', '{status}'],
+        ['Duration', '{duration}'],
+        ['Warnings', '{warnings_count}'],
+        ['Errors', '{errors_count}'],
+      ],
+      buildDefaultEmailLogLines('errors', 'First errors')
+    ),
+    recovered: buildDefaultEmailTemplate(
+      'Backup recovered',
+      'Backup {backup_name} on {server_alias} is back to normal, the last run completed with status {status} at {backup_date}.',
+      [
+        ['Status', '{status}'],
+        ['Previous status', '{previous_status}'],
+        ['Failing since', '{failed_since} ({failed_duration})'],
+        ['Failed runs', '{failed_runs}'],
+      ]
+    ),
+    anomaly: buildDefaultEmailTemplate(
+      'Backup anomaly',
+      'Backup {backup_name} on {server_alias} completed with status {status} at {backup_date}, but {anomaly_count} statistics differ from its recent runs.',
+      [
+        ['Status', '{status}'],
+        ['Duration', '{duration}'],
+        ['Files', '{file_count}'],
+        ['Uploaded', '{uploaded_size}'],
+      ],
+      '        <p style="margin:20px 0 0;font-size:13px;line-height:20px;white-space:pre-line;">{anomalies}</p>\n'
+    ),
+  },
+};
+
 // Default cron service configuration
 export const defaultCronConfig: CronServiceConfig = {
   port: (() => {
@@ -67,6 +217,22 @@ export const defaultCronConfig: CronServiceConfig = {
     'audit-log-cleanup': {
       cronExpression: '0 2 * * *', // Daily at 2 AM UTC
       enabled: true
+    },
+    'backup-collection': {
+      cronExpression: '0 * * * *', // Every hour, enabled from the settings
+      enabled: false
+    },
+    'backup-digest': {
+      cronExpression: '0 7 * * *', // Every day at 07:00 UTC, set from the digest settings
+      enabled: false
+    },
+    'notification-delivery': {
+      cronExpression: '* * * * *', // Every minute, retries the queued notifications that failed
+      enabled: true
+    },
+    'database-maintenance': {
+      cronExpression: '30 3 * * 0', // Every Sunday at 03:30 UTC, integrity check, ANALYZE, vacuum and WAL checkpoint
+      enabled: true
     }
   }
 };
@@ -78,12 +244,87 @@ export const defaultNtfyConfig = {
   accessToken: '' // Optional access token for authenticated servers
 };
 
+// Default webhook configuration
+// The body template is rendered with the same variables as the notification templates,
+// plus {event}, {title} and {message}. Values are JSON-escaped before being inserted.
+export const defaultWebhookConfig: WebhookConfig = {
+  url: '',
+  method: 'POST',
+  headers: [],
+  bodyTemplate: JSON.stringify({
+    event: '{event}',
+    title: '{title}',
+    message: '{message}',
+    server_name: '{server_name}',
+    server_alias: '{server_alias}',
+    backup_name: '{backup_name}',
+    status: '{status}',
+    backup_date: '{backup_date}',
+    last_backup_date: '{last_backup_date}',
+    expected_date: '{expected_date}',
+    warnings_count: '{warnings_count}',
+    errors_count: '{errors_count}',
+    server_url: '{server_url}'
+  }, null, 2)
+};
+
 // Global overdue tolerance configuration
 export const defaultOverdueTolerance = '1h' as const;
 
 // Global cron interval configuration
 export const defaultCronInterval = '5min' as CronInterval;
 
+// Scheduled backup log collection: servers collected at the same time
+export const defaultBackupCollectionConcurrency = 3;
+export const backupCollectionConcurrencyLimits = { min: 1, max: 10 } as const;
+
+// Snooze duration of an overdue or failing backup, in hours
+export const defaultSnoozeHours = 24;
+export const snoozeHoursLimits = { min: 1, max: 168 } as const;
+
+// Anomaly detection on incoming backups: baseline of the last good runs, median/MAD robust z-score thresholds
+export const defaultAnomalyDetectionConfig: AnomalyDetectionConfig = {
+  enabled: true,
+  sampleSize: 20,
+  minSamples: 5,
+  thresholds: {
+    examined_files: 3.5,
+    size: 3.5,
+    uploaded_size: 3.5,
+    duration_seconds: 3.5
+  }
+};
+export const anomalySampleSizeLimits = { min: 5, max: 100 } as const;
+export const anomalyThresholdLimits = { min: 0, max: 20 } as const;
+
+// Retries of queued notifications: exponential backoff from the base delay, dead-lettered after the last attempt
+export const notificationRetryPolicy = {
+  maxAttempts: 8,
+  baseDelaySeconds: 60,
+  maxDelaySeconds: 6 * 60 * 60,
+} as const;
+
+// Delivered and dead-lettered notifications kept in the notification history
+export const notificationHistoryRetentionDays = 30;
+
+// Cron task executions kept in the task run history
+export const cronTaskRunRetentionDays = 30;
+
+// Backup digest email, sent by the cron service (hour in UTC)
+export const defaultDigestConfig: DigestConfig = {
+  enabled: false,
+  frequency: 'daily',
+  hour: 7,
+  weekday: 1, // Monday
+  recipients: [],
+};
+
+// Jobs listed in the storage growth and slowest jobs sections of the digest
+export const digestTopJobsCount = 5;
+
+// Days shown in the status bar of the public status pages
+export const statusPageHistoryDays = 30;
+
 // Default notification frequency configuration
 export const defaultNotificationFrequencyConfig = 'every_day' as const;
 
@@ -96,7 +337,17 @@ export const defaultBackupNotificationConfig: BackupNotificationConfig = {
   allowedWeekDays: [0, 1, 2, 3, 4, 5, 6], // All days enabled (Sunday to Saturday)
   time: '', // Empty string as default
   ntfyEnabled: true, // NTFY enabled by default
-  emailEnabled: true // Email enabled by default
+  emailEnabled: true, // Email enabled by default
+  webhookEnabled: false // Webhook disabled by default (requires a configured endpoint)
+};
+
+// Default notification rules for non-backup operations (only notify on errors)
+export const defaultOperationNotificationConfig: OperationNotificationConfig = {
+  Restore: 'errors',
+  Test: 'errors',
+  Compact: 'errors',
+  Repair: 'errors',
+  Delete: 'errors'
 };
 
 // Default UI configuration
@@ -120,6 +371,25 @@ export const defaultAuthConfig = {
   defaultPassword: 'Duplistatus09' as const
 };
 
+// Default OpenID Connect single sign-on configuration (disabled until an issuer is configured)
+export const defaultOidcConfig: OidcConfig = {
+  enabled: false,
+  issuer: '',
+  clientId: '',
+  clientSecret: '',
+  scopes: 'openid profile email',
+  redirectUri: '',
+  usernameClaim: 'preferred_username',
+  roleClaim: 'groups',
+  roleMapping: {
+    admin: [],
+    operator: [],
+    viewer: []
+  },
+  defaultRole: 'viewer',
+  buttonLabel: 'Sign in with SSO'
+};
+
 
 // Note: Legacy createDefaultNotificationConfig was removed in favor of split keys
 
@@ -0,0 +1,112 @@
+import { dbOps } from './db';
+import type { LiveEvent } from './types';
+
+/**
+ * Live dashboard events (real-time updates without polling)
+ * Events are written to the events table so the cron service, which runs in its own process,
+ * can publish them too. The server reads new rows once per second while browsers are connected
+ * to /api/events and fans them out to the open streams.
+ */
+
+const POLL_INTERVAL_MS = 1000;
+const EVENT_RETENTION = '-1 hour'; // Long enough for reconnecting browsers to catch up with Last-Event-ID
+
+export interface StoredLiveEvent {
+  id: number;
+  event: LiveEvent;
+}
+
+type LiveEventListener = (storedEvent: StoredLiveEvent) => void;
+
+interface LiveEventRow {
+  id: number;
+  type: string;
+  server_id: string | null;
+  payload: string;
+  created_at: string;
+}
+
+interface LiveEventHub {
+  listeners: Set<LiveEventListener>;
+  lastEventId: number;
+  timer: ReturnType<typeof setInterval> | null;
+}
+
+// Keep a single hub per process, Next.js may load this module more than once in development
+declare global {
+  var __liveEventHub: LiveEventHub | undefined;
+}
+
+function getHub(): LiveEventHub {
+  if (!global.__liveEventHub) {
+    global.__liveEventHub = { listeners: new Set(), lastEventId: 0, timer: null };
+  }
+  return global.__liveEventHub;
+}
+
+function toStoredEvents(rows: LiveEventRow[]): StoredLiveEvent[] {
+  const events: StoredLiveEvent[] = [];
+  for (const row of rows) {
+    try {
+      events.push({ id: row.id, event: JSON.parse(row.payload) as LiveEvent });
+    } catch {
+      console.warn(`[LiveEvents] Skipping unreadable event ${row.id}`);
+    }
+  }
+  return events;
+}
+
+/**
+ * Publish an event to every connected browser
+ * Never throws: live updates must not break uploads, collections or the overdue check
+ */
+export function publishLiveEvent(event: LiveEvent): void {
+  try {
+    dbOps.insertEvent.run(event.type, event.serverId, JSON.stringify(event));
+    dbOps.deleteEventsOlderThan.run(EVENT_RETENTION);
+  } catch (error) {
+    console.error('[LiveEvents] Failed to publish event:', error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Get the stored events after an event ID (replay for reconnecting browsers)
+ */
+export function getLiveEventsAfter(eventId: number): StoredLiveEvent[] {
+  return toStoredEvents(dbOps.getEventsAfter.all(eventId) as LiveEventRow[]);
+}
+
+function pollLiveEvents(hub: LiveEventHub): void {
+  try {
+    const events = getLiveEventsAfter(hub.lastEventId);
+    for (const storedEvent of events) {
+      hub.lastEventId = storedEvent.id;
+      hub.listeners.forEach(listener => listener(storedEvent));
+    }
+  } catch (error) {
+    console.error('[LiveEvents] Failed to read events:', error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Receive the events published from now on, returns the unsubscribe function
+ * The table is only polled while at least one listener is subscribed
+ */
+export function subscribeToLiveEvents(listener: LiveEventListener): () => void {
+  const hub = getHub();
+  hub.listeners.add(listener);
+
+  if (!hub.timer) {
+    hub.lastEventId = (dbOps.getLatestEventId.get() as { id: number }).id;
+    hub.timer = setInterval(() => pollLiveEvents(hub), POLL_INTERVAL_MS);
+    hub.timer.unref?.();
+  }
+
+  return () => {
+    hub.listeners.delete(listener);
+    if (hub.listeners.size === 0 && hub.timer) {
+      clearInterval(hub.timer);
+      hub.timer = null;
+    }
+  };
+}
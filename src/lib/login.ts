@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { dbOps } from './db';
+import { createSession, validateSession, setSessionCookie } from './session-csrf';
+import { AuditLogger } from './audit-logger';
+import { getClientIpAddress } from './ip-utils';
+import { toUserRole } from './utils';
+
+export interface LoginUser {
+  id: string;
+  username: string;
+  role: string;
+  must_change_password: number;
+}
+
+/**
+ * Finish a local login once every authentication step passed (password and, when enabled, the 2FA code)
+ * Resets the failed login attempts, attaches the session to the user, logs the login and sets the session cookie
+ */
+export async function completeLocalLogin(
+  request: NextRequest,
+  user: LoginUser,
+  details: Record<string, unknown> = {}
+): Promise<NextResponse> {
+  const ipAddress = getClientIpAddress(request);
+  const userAgent = request.headers.get('user-agent') || 'unknown';
+
+  // Update last login info (also resets failed login attempts)
+  dbOps.updateUserLoginInfo.run(
+    ipAddress,
+    user.id
+  );
+
+  // Get existing session ID or create new one
+  const existingSessionId = request.cookies.get('sessionId')?.value;
+  let sessionId: string;
+
+  if (existingSessionId && validateSession(existingSessionId)) {
+    // Update existing session with user ID
+    sessionId = existingSessionId;
+    dbOps.updateSessionUser.run(
+      user.id,
+      ipAddress,
+      userAgent,
+      sessionId
+    );
+  } else {
+    // Create new session with user ID
+    sessionId = createSession(user.id, ipAddress, userAgent);
+  }
+
+  const role = toUserRole(user.role);
+
+  // Log successful login
+  await AuditLogger.logAuth(
+    'login',
+    user.id,
+    user.username,
+    true,
+    {
+      role,
+      must_change_password: user.must_change_password === 1,
+      ...details
+    },
+    ipAddress,
+    userAgent
+  );
+
+  // Prepare response
+  const response = NextResponse.json({
+    success: true,
+    user: {
+      id: user.id,
+      username: user.username,
+      role,
+      isAdmin: role === 'admin',
+      mustChangePassword: user.must_change_password === 1,
+    },
+  });
+
+  // Set session cookie
+  setSessionCookie(response, sessionId);
+
+  return response;
+}
@@ -0,0 +1,247 @@
+import { randomUUID } from 'crypto';
+import { dbOps } from './db';
+import type { ActiveMaintenance, MaintenanceRecurrence, MaintenanceWindow, MaintenanceWindowListItem } from './types';
+
+/**
+ * Maintenance windows of a server or of one of its backups
+ * Backup and overdue notifications are not sent while a window is in progress, the backup state is still tracked.
+ * Recurring windows repeat their first occurrence every day, week or month (server local time),
+ * a snooze is a one-off window starting now.
+ */
+
+interface MaintenanceWindowRow {
+  id: string;
+  server_id: string;
+  backup_name: string | null;
+  start_time: string;
+  end_time: string;
+  recurrence: MaintenanceRecurrence;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export const maintenanceRecurrences: MaintenanceRecurrence[] = ['none', 'daily', 'weekly', 'monthly'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Approximate length of a recurrence period, occurrences are shifted on the calendar
+const recurrencePeriodMs: Record<Exclude<MaintenanceRecurrence, 'none'>, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+  monthly: 30.44 * DAY_MS,
+};
+
+// Longest window of each recurrence, occurrences must not overlap
+const maxRecurringDurationMs: Record<Exclude<MaintenanceRecurrence, 'none'>, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+  monthly: 28 * DAY_MS,
+};
+
+const MAX_REASON_LENGTH = 500;
+
+function rowToMaintenanceWindow(row: MaintenanceWindowRow): MaintenanceWindow {
+  return {
+    id: row.id,
+    serverId: row.server_id,
+    backupName: row.backup_name,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    recurrence: row.recurrence,
+    reason: row.reason,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+// Start of the occurrence `count` periods after the first one, months shorter than the start day end on their last day
+function shiftOccurrenceStart(start: Date, recurrence: Exclude<MaintenanceRecurrence, 'none'>, count: number): Date {
+  const shifted = new Date(start);
+  if (recurrence === 'monthly') {
+    const day = shifted.getDate();
+    shifted.setDate(1);
+    shifted.setMonth(shifted.getMonth() + count);
+    const lastDay = new Date(shifted.getFullYear(), shifted.getMonth() + 1, 0).getDate();
+    shifted.setDate(Math.min(day, lastDay));
+  } else {
+    shifted.setDate(shifted.getDate() + count * (recurrence === 'weekly' ? 7 : 1));
+  }
+  return shifted;
+}
+
+/**
+ * Get the occurrence of a window in progress at a date, or the next one
+ * Returns null when the window has ended (one-off windows only)
+ */
+export function getMaintenanceOccurrence(window: MaintenanceWindow, at: Date): { start: Date; end: Date } | null {
+  const start = new Date(window.startTime);
+  const end = new Date(window.endTime);
+  if (isNaN(at.getTime()) || isNaN(start.getTime()) || isNaN(end.getTime())) {
+    return null;
+  }
+
+  if (window.recurrence === 'none') {
+    return end > at ? { start, end } : null;
+  }
+
+  const duration = end.getTime() - start.getTime();
+  const firstCount = Math.max(0, Math.floor((at.getTime() - start.getTime()) / recurrencePeriodMs[window.recurrence]) - 1);
+  for (let count = firstCount; ; count++) {
+    const occurrenceStart = shiftOccurrenceStart(start, window.recurrence, count);
+    const occurrenceEnd = new Date(occurrenceStart.getTime() + duration);
+    if (occurrenceEnd > at) {
+      return { start: occurrenceStart, end: occurrenceEnd };
+    }
+  }
+}
+
+export function getMaintenanceWindows(): MaintenanceWindow[] {
+  const rows = dbOps.getAllMaintenanceWindows.all() as MaintenanceWindowRow[];
+  return rows.map(rowToMaintenanceWindow);
+}
+
+export function getMaintenanceWindowById(windowId: string): MaintenanceWindow | null {
+  const row = dbOps.getMaintenanceWindowById.get(windowId) as MaintenanceWindowRow | undefined;
+  return row ? rowToMaintenanceWindow(row) : null;
+}
+
+/**
+ * Add the current or next occurrence to the windows, for listing
+ */
+export function withMaintenanceOccurrence(windows: MaintenanceWindow[], at: Date = new Date()): MaintenanceWindowListItem[] {
+  return windows.map(window => {
+    const occurrence = getMaintenanceOccurrence(window, at);
+    return {
+      ...window,
+      occurrence: occurrence ? { start: occurrence.start.toISOString(), end: occurrence.end.toISOString() } : null,
+    };
+  });
+}
+
+/**
+ * Get the maintenance in progress for a backup, windows of the whole server included
+ * When several windows overlap, the one ending last is returned
+ */
+export function getActiveMaintenance(serverId: string, backupName: string, at: Date = new Date()): ActiveMaintenance | null {
+  try {
+    const rows = dbOps.getMaintenanceWindowsForServer.all(serverId) as MaintenanceWindowRow[];
+    let active: ActiveMaintenance | null = null;
+
+    for (const row of rows) {
+      if (row.backup_name !== null && row.backup_name !== backupName) {
+        continue;
+      }
+      const occurrence = getMaintenanceOccurrence(rowToMaintenanceWindow(row), at);
+      if (!occurrence || occurrence.start > at) {
+        continue;
+      }
+      if (!active || occurrence.end.toISOString() > active.until) {
+        active = { windowId: row.id, reason: row.reason, until: occurrence.end.toISOString() };
+      }
+    }
+
+    return active;
+  } catch (error) {
+    // Maintenance windows are not available yet (e.g. before migration 4.7)
+    console.warn('Failed to get maintenance windows:', error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
+export interface MaintenanceWindowInput {
+  serverId: string;
+  backupName: string | null;
+  startTime: string;
+  endTime: string;
+  recurrence: MaintenanceRecurrence;
+  reason: string;
+}
+
+/**
+ * Validate a maintenance window request body, missing fields are taken from the current window (updates)
+ * Returns the error message when the input is invalid
+ */
+export function parseMaintenanceWindowInput(
+  body: Record<string, unknown>,
+  current?: MaintenanceWindowInput
+): { input: MaintenanceWindowInput; error?: undefined } | { input?: undefined; error: string } {
+  const serverId = body.serverId ?? current?.serverId;
+  const backupName = body.backupName !== undefined ? body.backupName : current?.backupName ?? null;
+  const startTime = body.startTime ?? current?.startTime;
+  const endTime = body.endTime ?? current?.endTime;
+  const recurrence = body.recurrence ?? current?.recurrence ?? 'none';
+  const reason = body.reason ?? current?.reason ?? '';
+
+  if (typeof serverId !== 'string' || !dbOps.getServerById.get(serverId)) {
+    return { error: 'A valid serverId is required' };
+  }
+  if (backupName !== null && typeof backupName !== 'string') {
+    return { error: 'backupName must be a string or null' };
+  }
+  if (typeof startTime !== 'string' || typeof endTime !== 'string') {
+    return { error: 'startTime and endTime are required' };
+  }
+  const start = new Date(startTime);
+  const end = new Date(endTime);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    return { error: 'startTime and endTime must be valid dates' };
+  }
+  if (end <= start) {
+    return { error: 'endTime must be after startTime' };
+  }
+  if (typeof recurrence !== 'string' || !maintenanceRecurrences.includes(recurrence as MaintenanceRecurrence)) {
+    return { error: `recurrence must be one of: ${maintenanceRecurrences.join(', ')}` };
+  }
+  if (recurrence !== 'none' && end.getTime() - start.getTime() > maxRecurringDurationMs[recurrence as Exclude<MaintenanceRecurrence, 'none'>]) {
+    return { error: `A ${recurrence} maintenance window cannot be longer than its recurrence period` };
+  }
+  if (recurrence === 'none' && end <= new Date()) {
+    return { error: 'endTime must be in the future' };
+  }
+  if (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH) {
+    return { error: `reason must be a string of at most ${MAX_REASON_LENGTH} characters` };
+  }
+
+  return {
+    input: {
+      serverId,
+      backupName: backupName && backupName.trim() !== '' ? backupName.trim() : null,
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+      recurrence: recurrence as MaintenanceRecurrence,
+      reason: reason.trim(),
+    },
+  };
+}
+
+/**
+ * Create a maintenance window, one-off windows that have ended are removed at the same time
+ */
+export function createMaintenanceWindow(input: MaintenanceWindowInput, createdBy: string | null): MaintenanceWindow {
+  const id = randomUUID();
+  dbOps.deleteEndedMaintenanceWindows.run(new Date().toISOString());
+  dbOps.createMaintenanceWindow.run({ id, ...input, createdBy });
+  return getMaintenanceWindowById(id)!;
+}
+
+export function updateMaintenanceWindow(windowId: string, input: MaintenanceWindowInput): MaintenanceWindow | null {
+  dbOps.updateMaintenanceWindow.run({ id: windowId, ...input });
+  return getMaintenanceWindowById(windowId);
+}
+
+/**
+ * Snooze the notifications of a backup for a number of hours from now
+ */
+export function snoozeBackup(serverId: string, backupName: string, hours: number, createdBy: string | null): MaintenanceWindow {
+  const start = new Date();
+  const end = new Date(start.getTime() + hours * 60 * 60 * 1000);
+  return createMaintenanceWindow({
+    serverId,
+    backupName,
+    startTime: start.toISOString(),
+    endTime: end.toISOString(),
+    recurrence: 'none',
+    reason: `Snoozed for ${hours}h`,
+  }, createdBy);
+}
@@ -0,0 +1,109 @@
+import type { BackupStatus, OverallSummary, ServerSummary } from './types';
+
+/**
+ * Prometheus text exposition (format 0.0.4) for backup health
+ * Built from the same summaries used by the dashboard
+ */
+
+export const prometheusContentType = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Numeric value of the last backup status, ordered by severity so alerts can use "> 0"
+export const backupStatusMetricValues: Record<BackupStatus | 'N/A', number> = {
+  'Success': 0,
+  'Unknown': 1,
+  'Warning': 2,
+  'Error': 3,
+  'Fatal': 4,
+  'N/A': -1,
+};
+
+type MetricLabels = Record<string, string>;
+
+interface MetricSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  samples: MetricSample[];
+}
+
+// Label values must escape backslash, double quote and line feed
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatSample(name: string, { labels, value }: MetricSample): string {
+  const labelPairs = Object.entries(labels)
+    .map(([key, labelValue]) => `${key}="${escapeLabelValue(labelValue)}"`)
+    .join(',');
+  const formattedValue = Number.isFinite(value) ? String(value) : 'NaN';
+  return labelPairs ? `${name}{${labelPairs}} ${formattedValue}` : `${name} ${formattedValue}`;
+}
+
+function formatFamily({ name, help, samples }: MetricFamily): string {
+  return [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} gauge`,
+    ...samples.map(sample => formatSample(name, sample)),
+  ].join('\n');
+}
+
+function toTimestampSeconds(date: string): number {
+  const time = new Date(date).getTime();
+  return Number.isNaN(time) ? NaN : Math.floor(time / 1000);
+}
+
+export function buildPrometheusMetrics(serversSummary: ServerSummary[], overallSummary: OverallSummary): string {
+  const overall: MetricFamily[] = [
+    { name: 'duplistatus_servers', help: 'Number of monitored servers.', samples: [{ labels: {}, value: overallSummary.totalServers }] },
+    { name: 'duplistatus_backup_jobs', help: 'Number of backup jobs across all servers.', samples: [{ labels: {}, value: overallSummary.totalBackups }] },
+    { name: 'duplistatus_backup_runs', help: 'Number of backup runs received.', samples: [{ labels: {}, value: overallSummary.totalBackupsRuns }] },
+    { name: 'duplistatus_overdue_backups', help: 'Number of backup jobs currently overdue.', samples: [{ labels: {}, value: overallSummary.overdueBackupsCount }] },
+    { name: 'duplistatus_uploaded_bytes', help: 'Bytes uploaded by all backup runs.', samples: [{ labels: {}, value: overallSummary.totalUploadedSize }] },
+    { name: 'duplistatus_storage_used_bytes', help: 'Storage used on the backup destinations by the latest backups.', samples: [{ labels: {}, value: overallSummary.totalStorageUsed }] },
+    { name: 'duplistatus_backup_size_bytes', help: 'Size of the source files of the latest backups.', samples: [{ labels: {}, value: overallSummary.totalBackupSize }] },
+  ];
+
+  const perBackup: MetricFamily[] = [
+    { name: 'duplistatus_backup_last_timestamp_seconds', help: 'Unix timestamp of the last backup.', samples: [] },
+    { name: 'duplistatus_backup_last_status', help: 'Status of the last backup (0=Success, 1=Unknown, 2=Warning, 3=Error, 4=Fatal, -1=no backup).', samples: [] },
+    { name: 'duplistatus_backup_last_duration_seconds', help: 'Duration of the last backup in seconds.', samples: [] },
+    { name: 'duplistatus_backup_last_uploaded_bytes', help: 'Bytes uploaded by the last backup.', samples: [] },
+    { name: 'duplistatus_backup_last_warnings', help: 'Warnings reported by the last backup.', samples: [] },
+    { name: 'duplistatus_backup_last_errors', help: 'Errors reported by the last backup.', samples: [] },
+    { name: 'duplistatus_backup_storage_bytes', help: 'Storage used on the backup destination.', samples: [] },
+    { name: 'duplistatus_backup_versions', help: 'Backup versions available on the destination.', samples: [] },
+    { name: 'duplistatus_backup_overdue', help: 'Whether the backup is overdue (1) or not (0).', samples: [] },
+  ];
+  const [timestamp, status, duration, uploaded, warnings, errors, storage, versions, overdue] = perBackup;
+
+  for (const server of serversSummary) {
+    for (const backup of server.backupInfo) {
+      const labels: MetricLabels = {
+        server_id: server.id,
+        server_name: server.name,
+        server_alias: server.alias,
+        backup_name: backup.name,
+      };
+
+      if (backup.lastBackupDate !== 'N/A') {
+        timestamp.samples.push({ labels, value: toTimestampSeconds(backup.lastBackupDate) });
+      }
+      status.samples.push({ labels, value: backupStatusMetricValues[backup.lastBackupStatus] ?? backupStatusMetricValues.Unknown });
+      if (backup.lastBackupDurationSeconds !== null) {
+        duration.samples.push({ labels, value: backup.lastBackupDurationSeconds });
+      }
+      uploaded.samples.push({ labels, value: backup.uploadedSize });
+      warnings.samples.push({ labels, value: backup.warnings });
+      errors.samples.push({ labels, value: backup.errors });
+      storage.samples.push({ labels, value: backup.storageSize });
+      versions.samples.push({ labels, value: backup.lastBackupListCount ?? 0 });
+      overdue.samples.push({ labels, value: backup.isBackupOverdue ? 1 : 0 });
+    }
+  }
+
+  return [...overall, ...perBackup].map(formatFamily).join('\n') + '\n';
+}
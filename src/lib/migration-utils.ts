@@ -36,7 +36,8 @@ export function migrateBackupNotificationConfig(legacyConfig: LegacyBackupNotifi
     allowedWeekDays: getDefaultAllowedWeekDays(), // Default to all days enabled
     time: '', // Default to empty string, will be populated by getConfigBackupSettings
     ntfyEnabled: true, // Default to enabled for legacy configs
-    emailEnabled: true // Default to enabled for legacy configs
+    emailEnabled: true, // Default to enabled for legacy configs
+    webhookEnabled: false // Webhook must be opted in explicitly
   };
 }
 
@@ -73,7 +74,8 @@ export function migrateBackupSettings(backupSettings: Record<string, unknown>):
           allowedWeekDays: typedConfig.allowedWeekDays || getDefaultAllowedWeekDays(),
           time: sanitizedTime, // Use sanitized time field
           ntfyEnabled: typedConfig.ntfyEnabled !== undefined ? typedConfig.ntfyEnabled : true,
-          emailEnabled: typedConfig.emailEnabled !== undefined ? typedConfig.emailEnabled : true
+          emailEnabled: typedConfig.emailEnabled !== undefined ? typedConfig.emailEnabled : true,
+          webhookEnabled: typedConfig.webhookEnabled !== undefined ? typedConfig.webhookEnabled : false
         };
       }
     } catch (error) {
@@ -105,6 +107,7 @@ export function ensureNewFormat(config: unknown): BackupNotificationConfig {
     allowedWeekDays: typedConfig.allowedWeekDays || getDefaultAllowedWeekDays(),
     time: typedConfig.time || '', // Ensure time field is present, default to empty string
     ntfyEnabled: typedConfig.ntfyEnabled !== undefined ? typedConfig.ntfyEnabled : true,
-    emailEnabled: typedConfig.emailEnabled !== undefined ? typedConfig.emailEnabled : true
+    emailEnabled: typedConfig.emailEnabled !== undefined ? typedConfig.emailEnabled : true,
+    webhookEnabled: typedConfig.webhookEnabled !== undefined ? typedConfig.webhookEnabled : false
   };
 }
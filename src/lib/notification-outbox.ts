@@ -0,0 +1,293 @@
+import { randomUUID } from 'crypto';
+import { db, dbOps } from './db';
+import { notificationRetryPolicy, notificationHistoryRetentionDays } from './default-config';
+import type {
+  NotificationChannel,
+  NotificationChannelDelivery,
+  NotificationMessageEvent,
+  NotificationMessageStatus,
+  NotificationOutboxMessage,
+} from './types';
+
+/**
+ * Notification delivery outbox
+ * Backup, overdue and operation notifications are rendered and stored before being sent, so a
+ * notification is not lost when NTFY, the SMTP server or the webhook endpoint is down. Failed channels
+ * are retried by the cron service with an exponential backoff; after the last attempt the message is
+ * dead-lettered and only sent again by a manual resend. Stored messages are the notification history.
+ */
+
+interface NotificationOutboxRow {
+  id: string;
+  event: NotificationMessageEvent;
+  server_id: string | null;
+  server_name: string | null;
+  backup_name: string | null;
+  title: string;
+  message: string;
+  priority: string;
+  tags: string;
+  webhook_body: string | null;
+  email_recipients: string | null;
+  email_html: string | null;
+  channels: string;
+  status: NotificationMessageStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewNotificationMessage {
+  event: NotificationMessageEvent;
+  serverId: string | null;
+  serverName: string | null;
+  backupName: string | null;
+  title: string;
+  message: string;
+  priority: string;
+  tags: string;
+  webhookBody: string | null;
+  emailRecipients: string[] | null;
+  emailHtml: string | null;
+  channels: NotificationChannel[];
+}
+
+export interface NotificationHistoryFilter {
+  status?: NotificationMessageStatus;
+  serverIds: string[] | null; // null for every server
+  limit: number;
+  offset: number;
+}
+
+export const notificationChannels: NotificationChannel[] = ['ntfy', 'email', 'webhook'];
+
+export const notificationMessageStatuses: NotificationMessageStatus[] = ['pending', 'sent', 'dead'];
+
+// A delivery attempt that takes longer is considered lost and the message can be claimed again
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+function rowToNotificationMessage(row: NotificationOutboxRow): NotificationOutboxMessage {
+  let channels: NotificationOutboxMessage['channels'] = {};
+  try {
+    channels = JSON.parse(row.channels) as NotificationOutboxMessage['channels'];
+  } catch {
+    console.warn(`[NotificationOutbox] Unreadable channels for message ${row.id}`);
+  }
+
+  let emailRecipients: string[] | null = null;
+  try {
+    emailRecipients = row.email_recipients ? JSON.parse(row.email_recipients) as string[] : null;
+  } catch {
+    console.warn(`[NotificationOutbox] Unreadable email recipients for message ${row.id}`);
+  }
+
+  return {
+    id: row.id,
+    event: row.event,
+    serverId: row.server_id,
+    serverName: row.server_name,
+    backupName: row.backup_name,
+    title: row.title,
+    message: row.message,
+    priority: row.priority,
+    tags: row.tags,
+    webhookBody: row.webhook_body,
+    emailRecipients,
+    emailHtml: row.email_html,
+    channels,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Delay before the next attempt of a message, doubling after each failed attempt
+ */
+export function getRetryDelaySeconds(attempts: number): number {
+  const delay = notificationRetryPolicy.baseDelaySeconds * Math.pow(2, Math.max(0, attempts - 1));
+  return Math.min(delay, notificationRetryPolicy.maxDelaySeconds);
+}
+
+/**
+ * Store a rendered notification, due for delivery right away
+ */
+export function enqueueNotificationMessage(message: NewNotificationMessage): NotificationOutboxMessage {
+  const now = new Date().toISOString();
+  const channels: NotificationOutboxMessage['channels'] = {};
+  for (const channel of message.channels) {
+    channels[channel] = { status: 'pending', attempts: 0, lastError: null, sentAt: null };
+  }
+
+  const id = randomUUID();
+  dbOps.insertNotificationMessage.run({
+    id,
+    event: message.event,
+    serverId: message.serverId,
+    serverName: message.serverName,
+    backupName: message.backupName,
+    title: message.title,
+    message: message.message,
+    priority: message.priority,
+    tags: message.tags,
+    webhookBody: message.webhookBody,
+    emailRecipients: message.emailRecipients ? JSON.stringify(message.emailRecipients) : null,
+    emailHtml: message.emailHtml,
+    channels: JSON.stringify(channels),
+    nextAttemptAt: now,
+    createdAt: now,
+  });
+
+  return getNotificationMessage(id)!;
+}
+
+export function getNotificationMessage(id: string): NotificationOutboxMessage | null {
+  const row = dbOps.getNotificationMessageById.get(id) as NotificationOutboxRow | undefined;
+  return row ? rowToNotificationMessage(row) : null;
+}
+
+/**
+ * Claim a pending message whose next attempt is due, returns null when it is not due or already claimed
+ */
+export function claimNotificationMessage(id: string): NotificationOutboxMessage | null {
+  const now = new Date();
+  const result = dbOps.claimNotificationMessage.run({
+    id,
+    now: now.toISOString(),
+    leaseUntil: new Date(now.getTime() + CLAIM_LEASE_MS).toISOString(),
+  });
+  return result.changes === 1 ? getNotificationMessage(id) : null;
+}
+
+/**
+ * Get the IDs of the pending messages whose next attempt is due, oldest first
+ */
+export function getDueNotificationMessageIds(limit: number): string[] {
+  const rows = dbOps.getDueNotificationMessageIds.all(new Date().toISOString(), limit) as { id: string }[];
+  return rows.map(row => row.id);
+}
+
+/**
+ * Save the result of a delivery attempt: sent when every channel is sent, otherwise retried with a
+ * backoff or dead-lettered after the last attempt
+ */
+export function recordDeliveryAttempt(
+  message: NotificationOutboxMessage,
+  results: Partial<Record<NotificationChannel, string | null>> // error message of each attempted channel, null when sent
+): NotificationOutboxMessage {
+  const now = new Date();
+  const channels: NotificationOutboxMessage['channels'] = { ...message.channels };
+  const errors: string[] = [];
+
+  for (const [channel, error] of Object.entries(results) as [NotificationChannel, string | null][]) {
+    const delivery: NotificationChannelDelivery = channels[channel] ?? { status: 'pending', attempts: 0, lastError: null, sentAt: null };
+    channels[channel] = error === null
+      ? { status: 'sent', attempts: delivery.attempts + 1, lastError: null, sentAt: now.toISOString() }
+      : { status: 'pending', attempts: delivery.attempts + 1, lastError: error, sentAt: null };
+    if (error !== null) {
+      errors.push(`${channel}: ${error}`);
+    }
+  }
+
+  const attempts = message.attempts + 1;
+  let status: NotificationMessageStatus = 'sent';
+  let nextAttemptAt: string | null = null;
+
+  if (errors.length > 0) {
+    if (attempts >= notificationRetryPolicy.maxAttempts) {
+      status = 'dead';
+      for (const delivery of Object.values(channels)) {
+        if (delivery.status === 'pending') {
+          delivery.status = 'failed';
+        }
+      }
+    } else {
+      status = 'pending';
+      nextAttemptAt = new Date(now.getTime() + getRetryDelaySeconds(attempts) * 1000).toISOString();
+    }
+  }
+
+  dbOps.updateNotificationDelivery.run({
+    id: message.id,
+    channels: JSON.stringify(channels),
+    status,
+    attempts,
+    nextAttemptAt,
+    lastError: errors.length > 0 ? errors.join('; ') : null,
+    updatedAt: now.toISOString(),
+  });
+
+  return getNotificationMessage(message.id)!;
+}
+
+/**
+ * Queue a message again after a manual resend: failed channels are sent again,
+ * or every channel when the message was delivered. The retry count starts over.
+ */
+export function requeueNotificationMessage(message: NotificationOutboxMessage): NotificationOutboxMessage {
+  const now = new Date().toISOString();
+  const resendAll = message.status === 'sent';
+  const channels: NotificationOutboxMessage['channels'] = {};
+
+  for (const [channel, delivery] of Object.entries(message.channels) as [NotificationChannel, NotificationChannelDelivery][]) {
+    channels[channel] = resendAll || delivery.status !== 'sent'
+      ? { ...delivery, status: 'pending' }
+      : delivery;
+  }
+
+  dbOps.updateNotificationDelivery.run({
+    id: message.id,
+    channels: JSON.stringify(channels),
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    lastError: message.lastError,
+    updatedAt: now,
+  });
+
+  return getNotificationMessage(message.id)!;
+}
+
+/**
+ * Get the notification history, newest first
+ */
+export function getNotificationHistory(filter: NotificationHistoryFilter): { messages: NotificationOutboxMessage[]; total: number } {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filter.status) {
+    conditions.push('status = ?');
+    params.push(filter.status);
+  }
+  if (filter.serverIds) {
+    // Messages without a server are only shown to users with access to every server
+    if (filter.serverIds.length === 0) {
+      return { messages: [], total: 0 };
+    }
+    conditions.push(`server_id IN (${filter.serverIds.map(() => '?').join(', ')})`);
+    params.push(...filter.serverIds);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const { total } = db.prepare(`SELECT COUNT(*) as total FROM notification_outbox ${where}`).get(...params) as { total: number };
+  const rows = db.prepare(`
+    SELECT * FROM notification_outbox ${where}
+    ORDER BY created_at DESC
+    LIMIT ? OFFSET ?
+  `).all(...params, filter.limit, filter.offset) as NotificationOutboxRow[];
+
+  return { messages: rows.map(rowToNotificationMessage), total };
+}
+
+/**
+ * Delete the delivered and dead-lettered messages older than the history retention
+ */
+export function cleanupNotificationHistory(): number {
+  const before = new Date(Date.now() - notificationHistoryRetentionDays * 24 * 60 * 60 * 1000).toISOString();
+  return dbOps.deleteNotificationMessagesBefore.run(before).changes;
+}
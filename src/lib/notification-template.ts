@@ -0,0 +1,651 @@
+// Template language of the notification templates
+// Variables: {backup_name}, with filters: {file_size_bytes | size}, {errors | first:5 | join:", "}
+// Conditions: {#if errors_count > 0 and status != "Fatal"} ... {:else if warnings_count > 0} ... {:else} ... {/if}
+// Loops over lists: {#each errors | first:5 as line, position} ... {:else} ... {/each}
+// Comparison operators: == != > >= < <=, combined with and, or, not and parentheses
+// {{ and }} produce literal braces, and a { that does not start a tag is kept as text
+// Block tags alone on their line do not leave an empty line in the output
+// Templates are never evaluated as code, so they can be validated and previewed in the browser
+// HTML templates escape every value, only the text of the template itself is HTML
+
+import { formatBytes, formatDurationHuman } from './utils';
+
+type TemplateValue = unknown;
+
+type Expression =
+  | { type: 'variable'; name: string }
+  | { type: 'literal'; value: string | number }
+  | { type: 'filter'; name: string; input: Expression; argument: Expression | null }
+  | { type: 'not'; operand: Expression }
+  | { type: 'logical'; operator: 'and' | 'or'; left: Expression; right: Expression }
+  | { type: 'compare'; operator: ComparisonOperator; left: Expression; right: Expression };
+
+type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: Expression }
+  | { type: 'if'; branches: { condition: Expression; body: TemplateNode[] }[]; elseBody: TemplateNode[] }
+  | { type: 'each'; list: Expression; item: string; index: string | null; body: TemplateNode[]; elseBody: TemplateNode[] };
+
+export type ParsedTemplate = TemplateNode[];
+
+interface TemplateFilter {
+  description: string;
+  apply: (value: TemplateValue, argument: TemplateValue) => TemplateValue;
+}
+
+function toNumber(value: TemplateValue): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return null;
+}
+
+function toDate(value: TemplateValue): Date | null {
+  const date = value instanceof Date ? value : typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+}
+
+function toText(value: TemplateValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? '' : value.toLocaleString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toText).join('\n');
+  }
+  return String(value);
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (typeof value === 'number') {
+    return value !== 0 && !isNaN(value);
+  }
+  return value !== null && value !== undefined && value !== false && value !== '';
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, Math.max(0, length - 1))}…` : text;
+}
+
+export const templateFilters: Record<string, TemplateFilter> = {
+  size: {
+    description: 'Format a number of bytes (1.5 GB)',
+    apply: (value) => toNumber(value) === null ? value : formatBytes(toNumber(value)),
+  },
+  date: {
+    description: 'Format a date, optionally "date", "time" or "iso"',
+    apply: (value, argument) => {
+      const date = toDate(value);
+      if (!date) return value;
+      switch (argument) {
+        case 'date': return date.toLocaleDateString();
+        case 'time': return date.toLocaleTimeString();
+        case 'iso': return date.toISOString();
+        default: return date.toLocaleString();
+      }
+    },
+  },
+  duration: {
+    description: 'Format a number of seconds (1h 5m 10s)',
+    apply: (value) => toNumber(value) === null ? value : formatDurationHuman(toNumber(value) ?? 0),
+  },
+  first: {
+    description: 'First N lines of a list (default 1)',
+    apply: (value, argument) => Array.isArray(value) ? value.slice(0, Math.max(0, toNumber(argument) ?? 1)) : value,
+  },
+  last: {
+    description: 'Last N lines of a list (default 1)',
+    apply: (value, argument) => {
+      const count = Math.max(0, toNumber(argument) ?? 1);
+      return Array.isArray(value) ? (count === 0 ? [] : value.slice(-count)) : value;
+    },
+  },
+  join: {
+    description: 'Join the lines of a list with a separator (default ", ")',
+    apply: (value, argument) => Array.isArray(value) ? value.map(toText).join(argument === null || argument === undefined ? ', ' : toText(argument)) : value,
+  },
+  count: {
+    description: 'Number of lines of a list or characters of a text',
+    apply: (value) => Array.isArray(value) ? value.length : toText(value).length,
+  },
+  truncate: {
+    description: 'Shorten texts, or each line of a list, to N characters (default 100)',
+    apply: (value, argument) => {
+      const length = Math.max(1, toNumber(argument) ?? 100);
+      return Array.isArray(value) ? value.map(item => truncate(toText(item), length)) : truncate(toText(value), length);
+    },
+  },
+  upper: {
+    description: 'Upper case',
+    apply: (value) => toText(value).toUpperCase(),
+  },
+  lower: {
+    description: 'Lower case',
+    apply: (value) => toText(value).toLowerCase(),
+  },
+  default: {
+    description: 'Value used when empty or zero',
+    apply: (value, argument) => isTruthy(value) ? value : argument,
+  },
+};
+
+// Syntax error with its position in the template
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, public readonly line: number, public readonly column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+interface TemplateToken {
+  type: 'text' | 'tag';
+  value: string;
+  offset: number;
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const RESERVED_WORDS = ['and', 'or', 'not', 'as'];
+
+function getPosition(source: string, offset: number): { line: number; column: number } {
+  const before = source.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+function syntaxError(source: string, offset: number, message: string): TemplateSyntaxError {
+  const { line, column } = getPosition(source, offset);
+  return new TemplateSyntaxError(message, line, column);
+}
+
+// Find the } closing the tag starting at offset, skipping quoted strings; -1 when not closed
+function findTagEnd(source: string, offset: number): number {
+  let quote: string | null = null;
+  for (let index = offset + 1; index < source.length; index++) {
+    const char = source[index];
+    if (quote) {
+      if (char === '\\') {
+        index++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '}') {
+      return index;
+    } else if (char === '\n' || char === '{') {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+function isBlockTag(tag: string): boolean {
+  return /^[#:/]/.test(tag.trim());
+}
+
+function tokenize(source: string): TemplateToken[] {
+  const tokens: TemplateToken[] = [];
+  let text = '';
+  let textOffset = 0;
+  let index = 0;
+
+  const pushText = () => {
+    if (text !== '') {
+      tokens.push({ type: 'text', value: text, offset: textOffset });
+      text = '';
+    }
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    const next = source[index + 1];
+
+    if ((char === '{' && next === '{') || (char === '}' && next === '}')) {
+      if (text === '') textOffset = index;
+      text += char;
+      index += 2;
+      continue;
+    }
+
+    if (char === '{' && next !== undefined && /[A-Za-z_#:/]/.test(next)) {
+      const end = findTagEnd(source, index);
+      if (end === -1) {
+        if (/[#:/]/.test(next)) {
+          throw syntaxError(source, index, 'Unclosed tag, expected }');
+        }
+      } else {
+        pushText();
+        tokens.push({ type: 'tag', value: source.slice(index + 1, end), offset: index });
+        index = end + 1;
+        continue;
+      }
+    }
+
+    if (text === '') textOffset = index;
+    text += char;
+    index++;
+  }
+  pushText();
+
+  // Block tags alone on their line do not leave an empty line; all of them are found before any line is removed
+  const standalone = tokens.map((token, position) => {
+    if (token.type !== 'tag' || !isBlockTag(token.value)) return false;
+    const previous = position > 0 ? tokens[position - 1] : null;
+    const following = position < tokens.length - 1 ? tokens[position + 1] : null;
+    const startsLine = previous === null
+      || (previous.type === 'text' && (position === 1 ? /(^|\n)[ \t]*$/ : /\n[ \t]*$/).test(previous.value));
+    const endsLine = following === null || (following.type === 'text' && /^[ \t]*(\r?\n|$)/.test(following.value));
+    return startsLine && endsLine;
+  });
+  standalone.forEach((isStandalone, position) => {
+    if (!isStandalone) return;
+    const previous = position > 0 ? tokens[position - 1] : null;
+    const following = position < tokens.length - 1 ? tokens[position + 1] : null;
+    if (previous) previous.value = previous.value.replace(/[ \t]*$/, '');
+    if (following) following.value = following.value.replace(/^[ \t]*(\r?\n)?/, '');
+  });
+
+  return tokens;
+}
+
+type ExpressionToken =
+  | { type: 'identifier'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'operator'; value: string };
+
+function tokenizeExpression(source: string, offset: number, expression: string): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const rest = expression.slice(index);
+    const whitespace = rest.match(/^\s+/);
+    if (whitespace) {
+      index += whitespace[0].length;
+      continue;
+    }
+
+    const identifier = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    const number = rest.match(/^-?\d+(\.\d+)?/);
+    const operator = rest.match(/^(==|!=|>=|<=|>|<|\||:|,|\(|\))/);
+
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0] });
+      index += identifier[0].length;
+    } else if (number) {
+      tokens.push({ type: 'number', value: parseFloat(number[0]) });
+      index += number[0].length;
+    } else if (operator) {
+      tokens.push({ type: 'operator', value: operator[0] });
+      index += operator[0].length;
+    } else if (rest[0] === '"' || rest[0] === "'") {
+      let value = '';
+      let end = 1;
+      while (end < rest.length && rest[end] !== rest[0]) {
+        if (rest[end] === '\\' && end + 1 < rest.length) {
+          end++;
+          value += rest[end] === 'n' ? '\n' : rest[end];
+        } else {
+          value += rest[end];
+        }
+        end++;
+      }
+      if (end >= rest.length) {
+        throw syntaxError(source, offset + index, 'Unterminated string');
+      }
+      tokens.push({ type: 'string', value });
+      index += end + 1;
+    } else {
+      throw syntaxError(source, offset + index, `Unexpected character '${rest[0]}'`);
+    }
+  }
+
+  return tokens;
+}
+
+// Recursive descent parser of the expression of a tag
+class ExpressionParser {
+  private position = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly offset: number,
+    private readonly tokens: ExpressionToken[]
+  ) {}
+
+  private error(message: string): TemplateSyntaxError {
+    return syntaxError(this.source, this.offset, message);
+  }
+
+  private peek(): ExpressionToken | undefined {
+    return this.tokens[this.position];
+  }
+
+  private isKeyword(value: string): boolean {
+    const token = this.peek();
+    return token?.type === 'identifier' && token.value === value;
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token?.type === 'operator' && token.value === value;
+  }
+
+  get done(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  expectKeyword(value: string): void {
+    if (!this.isKeyword(value)) {
+      throw this.error(`Expected '${value}'`);
+    }
+    this.position++;
+  }
+
+  acceptOperator(value: string): boolean {
+    if (this.isOperator(value)) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  parseIdentifier(): string {
+    const token = this.peek();
+    if (token?.type !== 'identifier' || RESERVED_WORDS.includes(token.value)) {
+      throw this.error('Expected a variable name');
+    }
+    this.position++;
+    return token.value;
+  }
+
+  parseCondition(): Expression {
+    let left = this.parseAnd();
+    while (this.isKeyword('or')) {
+      this.position++;
+      left = { type: 'logical', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.isKeyword('and')) {
+      this.position++;
+      left = { type: 'logical', operator: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.isKeyword('not')) {
+      this.position++;
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    const left = this.parsePipeline();
+    const token = this.peek();
+    if (token?.type === 'operator' && ['==', '!=', '>', '>=', '<', '<='].includes(token.value)) {
+      this.position++;
+      return { type: 'compare', operator: token.value as ComparisonOperator, left, right: this.parsePipeline() };
+    }
+    return left;
+  }
+
+  parsePipeline(): Expression {
+    let expression = this.parsePrimary();
+    while (this.acceptOperator('|')) {
+      const name = this.parseIdentifier();
+      if (!templateFilters[name]) {
+        throw this.error(`Unknown filter '${name}'`);
+      }
+      const argument = this.acceptOperator(':') ? this.parsePrimary() : null;
+      expression = { type: 'filter', name, input: expression, argument };
+    }
+    return expression;
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+    if (!token) {
+      throw this.error('Unexpected end of expression');
+    }
+    if (token.type === 'number' || token.type === 'string') {
+      this.position++;
+      return { type: 'literal', value: token.value };
+    }
+    if (this.acceptOperator('(')) {
+      const expression = this.parseCondition();
+      if (!this.acceptOperator(')')) {
+        throw this.error("Expected ')'");
+      }
+      return expression;
+    }
+    return { type: 'variable', name: this.parseIdentifier() };
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token) {
+      throw this.error(`Unexpected '${token.value}'`);
+    }
+  }
+}
+
+function createExpressionParser(source: string, token: TemplateToken, expression: string): ExpressionParser {
+  return new ExpressionParser(source, token.offset, tokenizeExpression(source, token.offset, expression));
+}
+
+interface OpenBlock {
+  kind: 'if' | 'each';
+  node: Extract<TemplateNode, { type: 'if' } | { type: 'each' }>;
+  body: TemplateNode[]; // where the next nodes go
+  hasElse: boolean;
+  offset: number;
+}
+
+/**
+ * Parse a template, throws a TemplateSyntaxError when it is not valid
+ */
+export function parseTemplate(source: string): ParsedTemplate {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].body : root);
+
+  for (const token of tokenize(source)) {
+    if (token.type === 'text') {
+      current().push({ type: 'text', value: token.value.replace(/\{\{/g, '{').replace(/\}\}/g, '}') });
+      continue;
+    }
+
+    const tag = token.value.trim();
+    const keyword = tag.match(/^([#:/])\s*([A-Za-z]+)([\s\S]*)$/);
+
+    if (!keyword) {
+      const parser = createExpressionParser(source, token, tag);
+      const expression = parser.parsePipeline();
+      parser.expectEnd();
+      current().push({ type: 'output', expression });
+      continue;
+    }
+
+    const [, prefix, name, rest] = keyword;
+    const block = stack[stack.length - 1];
+
+    if (prefix === '#' && name === 'if') {
+      const parser = createExpressionParser(source, token, rest);
+      const condition = parser.parseCondition();
+      parser.expectEnd();
+      const body: TemplateNode[] = [];
+      const node: TemplateNode = { type: 'if', branches: [{ condition, body }], elseBody: [] };
+      current().push(node);
+      stack.push({ kind: 'if', node, body, hasElse: false, offset: token.offset });
+    } else if (prefix === '#' && name === 'each') {
+      const parser = createExpressionParser(source, token, rest);
+      const list = parser.parsePipeline();
+      parser.expectKeyword('as');
+      const item = parser.parseIdentifier();
+      const index = parser.acceptOperator(',') ? parser.parseIdentifier() : null;
+      parser.expectEnd();
+      const body: TemplateNode[] = [];
+      const node: TemplateNode = { type: 'each', list, item, index, body, elseBody: [] };
+      current().push(node);
+      stack.push({ kind: 'each', node, body, hasElse: false, offset: token.offset });
+    } else if (prefix === ':' && name === 'else') {
+      if (!block) {
+        throw syntaxError(source, token.offset, '{:else} without {#if} or {#each}');
+      }
+      if (block.hasElse) {
+        throw syntaxError(source, token.offset, `{:else} after the {:else} of this {#${block.kind}}`);
+      }
+      const elseIf = rest.trim().match(/^if\b([\s\S]*)$/);
+      if (elseIf) {
+        if (block.node.type !== 'if') {
+          throw syntaxError(source, token.offset, '{:else if} can only be used in {#if}');
+        }
+        const parser = createExpressionParser(source, token, elseIf[1]);
+        const condition = parser.parseCondition();
+        parser.expectEnd();
+        const body: TemplateNode[] = [];
+        block.node.branches.push({ condition, body });
+        block.body = body;
+      } else {
+        if (rest.trim() !== '') {
+          throw syntaxError(source, token.offset, `Unexpected '${rest.trim()}' after {:else}`);
+        }
+        block.body = block.node.elseBody;
+        block.hasElse = true;
+      }
+    } else if (prefix === '/' && (name === 'if' || name === 'each')) {
+      if (!block || block.kind !== name) {
+        throw syntaxError(source, token.offset, block ? `{/${name}} found, expected {/${block.kind}}` : `{/${name}} without {#${name}}`);
+      }
+      if (rest.trim() !== '') {
+        throw syntaxError(source, token.offset, `Unexpected '${rest.trim()}' in {/${name}}`);
+      }
+      stack.pop();
+    } else {
+      throw syntaxError(source, token.offset, `Unknown tag {${prefix}${name}}`);
+    }
+  }
+
+  const unclosed = stack[stack.length - 1];
+  if (unclosed) {
+    throw syntaxError(source, unclosed.offset, `{#${unclosed.kind}} is not closed with {/${unclosed.kind}}`);
+  }
+
+  return root;
+}
+
+/**
+ * Check that a template can be parsed, returning the syntax error otherwise
+ */
+export function validateTemplate(source: string): { isValid: boolean; error?: string } {
+  try {
+    parseTemplate(source);
+    return { isValid: true };
+  } catch (error) {
+    return { isValid: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function compare(operator: ComparisonOperator, left: TemplateValue, right: TemplateValue): boolean {
+  const leftNumber = toNumber(left instanceof Date ? left.getTime() : left);
+  const rightNumber = toNumber(right instanceof Date ? right.getTime() : right);
+  const numeric = leftNumber !== null && rightNumber !== null;
+  const a: number | string = numeric ? leftNumber : toText(left);
+  const b: number | string = numeric ? rightNumber : toText(right);
+
+  switch (operator) {
+    case '==': return a === b;
+    case '!=': return a !== b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+  }
+}
+
+function evaluate(expression: Expression, variables: Record<string, TemplateValue>): TemplateValue {
+  switch (expression.type) {
+    case 'variable':
+      return Object.prototype.hasOwnProperty.call(variables, expression.name) ? variables[expression.name] : undefined;
+    case 'literal':
+      return expression.value;
+    case 'filter':
+      return templateFilters[expression.name].apply(
+        evaluate(expression.input, variables),
+        expression.argument ? evaluate(expression.argument, variables) : null
+      );
+    case 'not':
+      return !isTruthy(evaluate(expression.operand, variables));
+    case 'logical':
+      return expression.operator === 'and'
+        ? isTruthy(evaluate(expression.left, variables)) && isTruthy(evaluate(expression.right, variables))
+        : isTruthy(evaluate(expression.left, variables)) || isTruthy(evaluate(expression.right, variables));
+    case 'compare':
+      return compare(expression.operator, evaluate(expression.left, variables), evaluate(expression.right, variables));
+  }
+}
+
+export interface TemplateRenderOptions {
+  escape?: (text: string) => string; // applied to the value of each {variable}, e.g. escapeHtml for HTML templates
+}
+
+function renderNodes(nodes: TemplateNode[], variables: Record<string, TemplateValue>, options: TemplateRenderOptions): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'output': {
+        const text = toText(evaluate(node.expression, variables));
+        output += options.escape ? options.escape(text) : text;
+        break;
+      }
+      case 'if': {
+        const branch = node.branches.find(candidate => isTruthy(evaluate(candidate.condition, variables)));
+        output += renderNodes(branch ? branch.body : node.elseBody, variables, options);
+        break;
+      }
+      case 'each': {
+        const list = evaluate(node.list, variables);
+        const items = Array.isArray(list) ? list : isTruthy(list) ? [list] : [];
+        if (items.length === 0) {
+          output += renderNodes(node.elseBody, variables, options);
+        }
+        items.forEach((item, index) => {
+          const scope: Record<string, TemplateValue> = { ...variables, [node.item]: item };
+          if (node.index) {
+            scope[node.index] = index + 1;
+          }
+          output += renderNodes(node.body, scope, options);
+        });
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Render a template with the given variables, throws a TemplateSyntaxError when it is not valid
+ * Missing variables render as an empty text, lists one item per line and dates in the server locale.
+ */
+export function renderTemplate(source: string, variables: Record<string, TemplateValue>, options: TemplateRenderOptions = {}): string {
+  return renderNodes(parseTemplate(source), variables, options);
+}
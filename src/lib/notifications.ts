@@ -1,8 +1,14 @@
 import format from 'string-template';
 import nodemailer from 'nodemailer';
-import { getConfigBackupSettings, getNtfyConfig, getServerInfoById, getSMTPConfig, getNotificationTemplates } from './db-utils';
-import { NotificationTemplate, Backup, BackupStatus, BackupKey, SMTPConnectionType } from './types';
-import { defaultNotificationTemplates } from './default-config';
+import { getConfigBackupSettings, getNtfyConfig, getServerInfoById, getSMTPConfig, getNotificationTemplates, getWebhookConfig, getOperationNotificationConfig, getStateChangeNotificationsOnly, getEmailRecipientGroups, getOverdueToleranceConfig, getEmailTemplateConfig, dbUtils } from './db-utils';
+import { NotificationTemplate, NotificationTemplates, Backup, BackupStatus, BackupKey, BackupNotificationConfig, NotificationEvent, NonBackupOperationType, OperationNotificationConfig, SMTPConnectionType, WebhookConfig, NotificationChannel, NotificationDeliveryResult, NotificationMessageEvent, NotificationOutboxMessage, NotificationSeverity, BackupAnomaly, EmailTemplateConfig } from './types';
+import { defaultNotificationTemplates, defaultEmailTemplateConfig } from './default-config';
+import { recordBackupFailure, resolveBackupIncident } from './backup-incidents';
+import { getBackupAcknowledgement } from './backup-acknowledgements';
+import { getActiveMaintenance } from './maintenance-windows';
+import { escapeHtml, formatAnomaly, formatBytes, formatDurationHuman, formatRelativeTime, getBackupProblemState, getOverdueToleranceLabel, notificationChannelLabels, parseMessageLines } from './utils';
+import { renderTemplate } from './notification-template';
+import { enqueueNotificationMessage, claimNotificationMessage, recordDeliveryAttempt, getDueNotificationMessageIds, cleanupNotificationHistory } from './notification-outbox';
 
 // Ensure this runs in Node.js runtime, not Edge Runtime
 export const runtime = 'nodejs';
@@ -25,6 +31,14 @@ export interface NotificationContext {
   uploaded_size: string; // formatted size string
   storage_size: string; // formatted size string
   available_versions: number;
+  // Raw values and log lines, for the filters and loops of the templates
+  duration_seconds: number;
+  file_size_bytes: number;
+  uploaded_size_bytes: number;
+  storage_size_bytes: number;
+  messages: string[];
+  warnings: string[];
+  errors: string[];
 }
 
 export interface OverdueBackupContext {
@@ -42,11 +56,35 @@ export interface OverdueBackupContext {
   overdue_tolerance: string; // Human-readable tolerance label
 }
 
-async function getNotificationConfig(): Promise<{
+export interface OperationContext extends NotificationContext {
+  operation: NonBackupOperationType;
+}
+
+export interface RecoveredContext extends NotificationContext {
+  failed_since: string;
+  failed_duration: string;
+  failed_runs: number;
+  previous_status: string; // Status of the last failed run, or 'Overdue'
+}
+
+export interface AnomalyContext extends NotificationContext {
+  anomalies: string; // one line per anomalous statistic with its usual value
+  anomaly_count: number;
+}
+
+type TemplateContext = NotificationContext | OverdueBackupContext | OperationContext | RecoveredContext | AnomalyContext;
+
+interface NotificationConfigData {
   ntfy: { url: string; topic: string; accessToken?: string };
-  templates: { success: NotificationTemplate; warning: NotificationTemplate; overdueBackup: NotificationTemplate };
-  backupSettings: Record<BackupKey, import('./types').BackupNotificationConfig>;
-} | null> {
+  webhook: WebhookConfig;
+  templates: NotificationTemplates;
+  emailTemplates: EmailTemplateConfig;
+  operationNotifications: OperationNotificationConfig;
+  stateChangesOnly: boolean;
+  backupSettings: Record<BackupKey, BackupNotificationConfig>;
+}
+
+async function getNotificationConfig(): Promise<NotificationConfigData | null> {
   try {
     const backupSettings = await getConfigBackupSettings();
     
@@ -56,7 +94,11 @@ async function getNotificationConfig(): Promise<{
     
     return {
       ntfy: ntfyConfig,
+      webhook: getWebhookConfig(),
       templates,
+      emailTemplates: getEmailTemplateConfig(),
+      operationNotifications: getOperationNotificationConfig(),
+      stateChangesOnly: getStateChangeNotificationsOnly(),
       backupSettings: Object.keys(backupSettings).length > 0 ? backupSettings : {}
     };
   } catch (error) {
@@ -67,7 +109,7 @@ async function getNotificationConfig(): Promise<{
 
 
 // Helper function to get backup settings with fallback to server settings
-async function getBackupSettings(config: { backupSettings: Record<BackupKey, import('./types').BackupNotificationConfig> }, serverId: string, backupName: string) {
+async function getBackupSettings(config: { backupSettings: Record<BackupKey, BackupNotificationConfig> }, serverId: string, backupName: string) {
   const backupKey: BackupKey = `${serverId}:${backupName}`;
   const backupConfig = config.backupSettings?.[backupKey];
   
@@ -206,6 +248,89 @@ export async function sendNtfyNotification(
   }
 }
 
+// Webhook notification functions
+export type WebhookEvent = NotificationMessageEvent | 'test';
+
+// Helper function to check if the webhook has an endpoint configured
+export function isWebhookConfigured(config: WebhookConfig | null | undefined): config is WebhookConfig {
+  return !!config && typeof config.url === 'string' && config.url.trim() !== '';
+}
+
+// Render the webhook body template, escaping values so they can be placed inside JSON strings
+export function renderWebhookBody(bodyTemplate: string, variables: Record<string, unknown>): string {
+  const escapedVariables: Record<string, string> = {};
+  for (const [key, value] of Object.entries(variables)) {
+    const text = value === null || value === undefined ? '' : Array.isArray(value) ? value.join('\n') : String(value);
+    escapedVariables[key] = JSON.stringify(text).slice(1, -1);
+  }
+
+  const body = format(bodyTemplate, escapedVariables);
+
+  try {
+    JSON.parse(body);
+  } catch (error) {
+    throw new Error(`Webhook body template does not produce valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return body;
+}
+
+export async function sendWebhookNotification(config: WebhookConfig, body: string): Promise<void> {
+  if (!isWebhookConfigured(config)) {
+    throw new Error('Webhook URL is required');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(config.url);
+  } catch {
+    throw new Error(`Invalid webhook URL: ${config.url}`);
+  }
+
+  // Custom headers override the default content type if provided
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json; charset=utf-8',
+  };
+  for (const header of config.headers || []) {
+    if (header.name && header.name.trim()) {
+      headers[header.name.trim()] = header.value;
+    }
+  }
+
+  const maxRetries = 5;
+  const retryDelay = 3000; // 3 seconds
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    let response;
+    try {
+      response = await fetch(url.toString(), {
+        method: config.method || 'POST',
+        body,
+        headers,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Fetch failed for webhook notification (attempt ${attempt}/${maxRetries}). Error: ${errorMessage}`);
+
+      if (attempt === maxRetries || !isRetryableNetworkError(error)) {
+        throw new Error(`Network error when sending webhook: ${errorMessage}`);
+      }
+
+      console.log(`Retrying webhook notification in ${retryDelay}ms... (attempt ${attempt + 1}/${maxRetries})`);
+      await sleep(retryDelay);
+      continue;
+    }
+
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => '');
+      const detail = errorBody.trim() ? `: ${errorBody.trim().substring(0, 200)}` : '';
+      throw new Error(`Webhook endpoint responded with ${response.status} ${response.statusText}${detail}`);
+    }
+
+    return;
+  }
+}
+
 // Email configuration functions
 export async function createEmailTransporter(): Promise<nodemailer.Transporter | null> {
   try {
@@ -436,13 +561,9 @@ function formatDateString(dateString: string): string {
   }
 }
 
-function processTemplate(template: NotificationTemplate, context: NotificationContext | OverdueBackupContext): {
-  title: string;
-  message: string;
-  priority: string;
-  tags: string;
-} {
-   // Create a copy of the context with formatted dates
+// Build the variables available to templates: context values, server info and formatted dates
+function buildTemplateVariables(context: TemplateContext): Record<string, unknown> {
+  // Create a copy of the context with formatted dates
   const formattedContext = { ...context } as Record<string, unknown>;
 
   // Add additional server variables to context 
@@ -465,15 +586,309 @@ function processTemplate(template: NotificationTemplate, context: NotificationCo
   if ('expected_date' in formattedContext) {
     formattedContext.expected_date = formatDateString(formattedContext.expected_date as string);
   }
+  if ('failed_since' in formattedContext) {
+    formattedContext.failed_since = formatDateString(formattedContext.failed_since as string);
+  }
+
+  return formattedContext;
+}
+
+interface ProcessedTemplate {
+  title: string;
+  message: string;
+  priority: string;
+  tags: string;
+}
+
+// Render a template text; texts that no longer parse are rendered with the plain variable substitution
+function renderTemplateText(source: string, variables: Record<string, unknown>, fallbackVariables: Record<string, unknown>): string {
+  try {
+    return renderTemplate(source, variables);
+  } catch (error) {
+    console.error('Invalid notification template, using plain variable substitution:', error instanceof Error ? error.message : String(error));
+    return format(source, fallbackVariables);
+  }
+}
+
+// Variables of the template language: dates are passed as dates so the date filter can format them,
+// they render with toLocaleString() by default
+function buildRenderVariables(context: TemplateContext, formattedContext: Record<string, unknown>): Record<string, unknown> {
+  const variables = { ...formattedContext };
+  for (const field of ['backup_date', 'last_backup_date', 'expected_date', 'failed_since']) {
+    const value = (context as unknown as Record<string, unknown>)[field];
+    if (typeof value === 'string' && !isNaN(new Date(value).getTime())) {
+      variables[field] = new Date(value);
+    }
+  }
+  return variables;
+}
+
+function processTemplate(template: NotificationTemplate, context: TemplateContext): ProcessedTemplate {
+  const formattedContext = buildTemplateVariables(context);
+  const variables = buildRenderVariables(context, formattedContext);
 
   return {
-    title: format(template.title, formattedContext),
-    message: format(template.message, formattedContext),
+    title: renderTemplateText(template.title, variables, formattedContext),
+    message: renderTemplateText(template.message, variables, formattedContext),
     priority: template.priority,
     tags: template.tags,
   };
 }
 
+// Colour band of the HTML emails
+const severityColors: Record<NotificationSeverity, string> = {
+  success: '#16a34a',
+  warning: '#d97706',
+  error: '#dc2626',
+};
+
+// Render the HTML email template of a notification, every value is HTML escaped.
+// Returns null when the template is empty or invalid, the text message is then sent converted to HTML.
+function renderEmailHtml(
+  emailTemplates: EmailTemplateConfig,
+  templateType: keyof NotificationTemplates,
+  severity: NotificationSeverity,
+  context: TemplateContext,
+  processedTemplate: { title: string; message: string }
+): string | null {
+  const source = emailTemplates.templates[templateType];
+  if (!source || source.trim() === '') {
+    return null;
+  }
+
+  const dashboardUrl = emailTemplates.dashboardUrl.trim().replace(/\/+$/, '');
+  const variables = {
+    ...buildRenderVariables(context, buildTemplateVariables(context)),
+    title: processedTemplate.title,
+    message: processedTemplate.message,
+    status_color: severityColors[severity],
+    dashboard_url: dashboardUrl,
+    detail_url: dashboardUrl ? `${dashboardUrl}/detail/${encodeURIComponent(context.server_id)}` : '',
+  };
+
+  try {
+    return renderTemplate(source, variables, { escape: escapeHtml });
+  } catch (error) {
+    console.error(`Invalid ${templateType} email template, sending the text message instead:`, error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
+// Build the webhook payload from the configured body template
+function buildWebhookPayload(
+  webhook: WebhookConfig,
+  event: WebhookEvent,
+  context: TemplateContext,
+  processedTemplate: { title: string; message: string }
+): string {
+  return renderWebhookBody(webhook.bodyTemplate, {
+    ...buildTemplateVariables(context),
+    event,
+    title: processedTemplate.title,
+    message: processedTemplate.message,
+  });
+}
+
+// Check if a result matches the configured notification event (all, warnings, errors or off)
+function shouldNotifyForEvent(notificationEvent: NotificationEvent, status: BackupStatus, errorsCount: number): boolean {
+  switch (notificationEvent) {
+    case 'off':
+      return false;
+    case 'warnings': // send warnings and errors (all but success)
+      return status !== 'Success';
+    case 'errors': // send errors (only errors and fatals and errors count > 0)
+      return status === 'Error' || status === 'Fatal' || errorsCount > 0;
+    default: // default is to send messages (all)
+      return true;
+  }
+}
+
+// Check if a result is a failure for the backup: warnings count as failures unless only errors are notified
+function isFailedRun(notificationEvent: NotificationEvent, status: BackupStatus, errorsCount: number): boolean {
+  return shouldNotifyForEvent(notificationEvent === 'errors' ? 'errors' : 'warnings', status, errorsCount);
+}
+
+// Severity of a run result: errors and fatals, warnings and unknown results, or success
+function getNotificationSeverity(status: BackupStatus, errorsCount: number): NotificationSeverity {
+  if (status === 'Error' || status === 'Fatal' || errorsCount > 0) {
+    return 'error';
+  }
+  return status === 'Success' ? 'success' : 'warning';
+}
+
+// Addresses of the recipient groups the backup routes this severity to.
+// Returns null when no existing group is selected, the email is then sent to the default recipient.
+function getEmailRecipients(backupConfig: BackupNotificationConfig, severity: NotificationSeverity): string[] | null {
+  const groupIds = backupConfig.emailRecipientGroups?.[severity] || [];
+  if (groupIds.length === 0) {
+    return null;
+  }
+
+  const recipients = new Set<string>();
+  for (const group of getEmailRecipientGroups()) {
+    if (groupIds.includes(group.id)) {
+      group.recipients.forEach(recipient => recipients.add(recipient));
+    }
+  }
+  return recipients.size > 0 ? [...recipients] : null;
+}
+
+// Store the processed template in the outbox for every channel enabled for the backup.
+// Returns null when no channel is enabled.
+function enqueueChannelNotifications(
+  config: NotificationConfigData,
+  backupConfig: BackupNotificationConfig,
+  event: NotificationMessageEvent,
+  templateType: keyof NotificationTemplates,
+  severity: NotificationSeverity,
+  context: TemplateContext,
+  processedTemplate: ProcessedTemplate
+): NotificationOutboxMessage | null {
+  const channels: NotificationChannel[] = [];
+
+  if (backupConfig.ntfyEnabled !== false) { // Default to true if not specified
+    channels.push('ntfy');
+  }
+  const emailEnabled = backupConfig.emailEnabled === true && getSMTPConfig() !== null;
+  if (emailEnabled) {
+    channels.push('email');
+  }
+  const webhookEnabled = backupConfig.webhookEnabled === true && isWebhookConfigured(config.webhook);
+  if (webhookEnabled) {
+    channels.push('webhook');
+  }
+
+  if (channels.length === 0) {
+    return null;
+  }
+
+  return enqueueNotificationMessage({
+    event,
+    serverId: context.server_id,
+    serverName: context.server_name,
+    backupName: context.backup_name,
+    title: processedTemplate.title,
+    message: processedTemplate.message,
+    priority: processedTemplate.priority,
+    tags: processedTemplate.tags,
+    webhookBody: webhookEnabled ? buildWebhookPayload(config.webhook, event, context, processedTemplate) : null,
+    emailRecipients: emailEnabled ? getEmailRecipients(backupConfig, severity) : null,
+    emailHtml: emailEnabled ? renderEmailHtml(config.emailTemplates, templateType, severity, context, processedTemplate) : null,
+    channels,
+  });
+}
+
+// Send a stored message on one channel with the current channel configuration
+async function sendOnChannel(channel: NotificationChannel, message: NotificationOutboxMessage): Promise<void> {
+  switch (channel) {
+    case 'ntfy': {
+      const ntfyConfig = await getNtfyConfig();
+      await sendNtfyNotification(ntfyConfig.url, ntfyConfig.topic, message.title, message.message, message.priority, message.tags, ntfyConfig.accessToken);
+      break;
+    }
+    case 'email':
+      if (!getSMTPConfig()) {
+        throw new Error('Email is not configured');
+      }
+      await sendEmailNotification(message.title, message.emailHtml || convertTextToHtml(message.message), message.message, message.emailRecipients?.join(', '));
+      break;
+    case 'webhook':
+      if (!message.webhookBody) {
+        throw new Error('No webhook payload was rendered for this notification');
+      }
+      await sendWebhookNotification(getWebhookConfig(), message.webhookBody);
+      break;
+  }
+}
+
+// Send a claimed message on its pending channels and record the attempt. Never throws:
+// failed channels stay in the outbox and are retried by the cron service.
+async function deliverClaimedMessage(message: NotificationOutboxMessage): Promise<NotificationOutboxMessage> {
+  const description = message.backupName
+    ? `${message.event} notification for backup ${message.backupName} on server ${message.serverName}`
+    : `${message.event} notification`;
+  const pendingChannels = (Object.keys(message.channels) as NotificationChannel[])
+    .filter(channel => message.channels[channel]?.status === 'pending');
+
+  const results: Partial<Record<NotificationChannel, string | null>> = {};
+  await Promise.all(pendingChannels.map(async (channel) => {
+    try {
+      await sendOnChannel(channel, message);
+      results[channel] = null;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to send ${notificationChannelLabels[channel]} ${description}:`, errorMessage);
+      results[channel] = errorMessage;
+    }
+  }));
+
+  const updated = recordDeliveryAttempt(message, results);
+  const auditDetails = {
+    type: updated.event,
+    messageId: updated.id,
+    serverId: updated.serverId,
+    serverName: updated.serverName,
+    backupName: updated.backupName,
+    attempts: updated.attempts,
+  };
+
+  try {
+    const { AuditLogger } = await import('@/lib/audit-logger');
+    if (updated.status === 'sent') {
+      const channels = (Object.keys(updated.channels) as NotificationChannel[]).map(channel => notificationChannelLabels[channel]);
+      console.log(`Notifications sent (${channels.join(', ')}) for ${description}`);
+      await AuditLogger.logSystem('notification_sent', { ...auditDetails, channels }, 'success');
+    } else if (updated.status === 'dead') {
+      console.error(`Giving up on ${description} after ${updated.attempts} attempts: ${updated.lastError}`);
+      await AuditLogger.logSystem(
+        'notification_failed',
+        { ...auditDetails, channels: pendingChannels.map(channel => notificationChannelLabels[channel]), error: updated.lastError },
+        'error',
+        updated.lastError || undefined
+      );
+    } else {
+      console.log(`Retrying ${description} at ${updated.nextAttemptAt} (attempt ${updated.attempts + 1})`);
+    }
+  } catch (error) {
+    console.error('Failed to log notification delivery:', error instanceof Error ? error.message : String(error));
+  }
+
+  return updated;
+}
+
+/**
+ * Send a queued message right away, returns null when it is not due or is being sent by the other process
+ */
+export async function deliverNotificationMessage(id: string): Promise<NotificationOutboxMessage | null> {
+  const message = claimNotificationMessage(id);
+  return message ? deliverClaimedMessage(message) : null;
+}
+
+/**
+ * Send the queued messages whose next attempt is due (cron task 'notification-delivery')
+ * Also removes the old messages from the notification history.
+ */
+export async function deliverPendingNotifications(): Promise<NotificationDeliveryResult> {
+  cleanupNotificationHistory();
+
+  const statistics = { delivered: 0, retried: 0, deadLettered: 0 };
+  for (const id of getDueNotificationMessageIds(50)) {
+    const message = await deliverNotificationMessage(id);
+    if (message?.status === 'sent') {
+      statistics.delivered++;
+    } else if (message?.status === 'pending') {
+      statistics.retried++;
+    } else if (message?.status === 'dead') {
+      statistics.deadLettered++;
+    }
+  }
+
+  return {
+    message: `Delivered ${statistics.delivered} queued notifications, ${statistics.retried} to retry, ${statistics.deadLettered} dead-lettered`,
+    statistics,
+  };
+}
+
 export async function sendBackupNotification(
   backup: Backup,
   serverId: string,
@@ -492,128 +907,83 @@ export async function sendBackupNotification(
     return;
   }
 
-  // Determine which template to use based on backup status and backup settings
-  let template: NotificationTemplate;
+  // Determine which template to use based on backup status, backup settings and the failing state of the backup
+  let templateType: keyof NotificationTemplates;
+  let event: NotificationMessageEvent = 'backup';
+  let severity = getNotificationSeverity(backup.status, backup.errors);
+  let templateContext: NotificationContext | RecoveredContext | AnomalyContext = context;
+  const backupKey: BackupKey = `${serverId}:${backup.name}`;
   const status = backup.status;
   const notificationConf = backupConfig.notificationEvent;
-  
-  // Check if needed to send a notification
-  switch(notificationConf) {
-    case 'warnings': // send warnings and errors (all but success)
-        if (status === 'Success') {
-          return;
-        }
-        break;
-    case 'errors': // send errors (only errors and fatals and errors count > 0)
-        if (status != 'Error' && status != 'Fatal' && backup.errors == 0) {
-          return;
-        }
-        break;
-    default: // default is to send messages (all)
-        break;
+
+  if (isFailedRun(notificationConf, status, backup.errors)) {
+    const isStateChange = recordBackupFailure(backupKey, serverName, status, backup.date);
+    // Repeated failures are only notified when notifications are not limited to state changes
+    if (config.stateChangesOnly && !isStateChange) {
+      return;
+    }
+    templateType = 'warning';
+  } else {
+    const incident = resolveBackupIncident(backupKey);
+    if (incident) {
+      // First good run after failed runs or an overdue period
+      event = 'recovered';
+      severity = 'success';
+      templateType = 'recovered';
+      templateContext = {
+        ...context,
+        failed_since: incident.since,
+        failed_duration: formatDurationHuman(Math.max(0, (new Date(backup.date).getTime() - new Date(incident.since).getTime()) / 1000)),
+        failed_runs: incident.failedRuns,
+        previous_status: incident.lastStatus,
+      };
+    } else if (backup.anomalies && backup.anomalies.length > 0 && !config.stateChangesOnly && shouldNotifyForEvent(notificationConf, 'Warning', 0)) {
+      // Runs that look unusual are notified like warnings, even when the status alone would not be
+      event = 'anomaly';
+      severity = 'warning';
+      templateType = 'anomaly';
+      templateContext = {
+        ...context,
+        anomalies: backup.anomalies.map(anomaly => `• ${formatAnomaly(anomaly)}`).join('\n'),
+        anomaly_count: backup.anomalies.length,
+      };
+    } else if (config.stateChangesOnly || !shouldNotifyForEvent(notificationConf, status, backup.errors)) {
+      return;
+    } else if (status === 'Success') {
+      templateType = 'success';
+    } else {
+      templateType = 'warning';
+    }
   }
-  // select the template based on the status
-  if (status === 'Success') {
-    template = config.templates?.success || defaultNotificationTemplates.success;
+
+  // The failing state is still tracked during maintenance, only the notification is suppressed
+  const maintenance = getActiveMaintenance(serverId, backup.name, new Date(backup.date));
+  if (maintenance) {
+    console.log(`Backup ${backup.name} on server ${serverName} is in maintenance until ${maintenance.until}, skipping notification`);
+    return;
   }
-  else {
-    template = config.templates?.warning || defaultNotificationTemplates.warning;
+
+  // Acknowledged failures are not notified again until the backup changes state
+  if (getBackupAcknowledgement(backupKey, getBackupProblemState(status, false))) {
+    console.log(`Failure of backup ${backup.name} on server ${serverName} is acknowledged, skipping notification`);
+    return;
   }
 
   let processedTemplate;
   try {
-    processedTemplate = processTemplate(template, context);
+    processedTemplate = processTemplate(config.templates?.[templateType] || defaultNotificationTemplates[templateType], templateContext);
   } catch (error) {
     console.error(`Failed to process notification template for backup ${backup.name} on server ${serverName}:`, error instanceof Error ? error.message : String(error));
     throw error;
   }
 
-  // Send notifications based on backup configuration
-  const notifications: Promise<void>[] = [];
-  const notificationTypes: string[] = [];
-
-  // Send NTFY notification if enabled
-  if (backupConfig.ntfyEnabled !== false) { // Default to true if not specified
-    notifications.push(
-      sendNtfyNotification(
-        config.ntfy.url,
-        config.ntfy.topic,
-        processedTemplate.title,
-        processedTemplate.message,
-        processedTemplate.priority,
-        processedTemplate.tags,
-        config.ntfy.accessToken
-      ).then(() => {
-        notificationTypes.push('NTFY');
-      }).catch((error) => {
-        console.error(`Failed to send NTFY notification for backup ${backup.name} on server ${serverName}:`, error instanceof Error ? error.message : String(error));
-        throw new Error(`NTFY notification failed: ${error instanceof Error ? error.message : String(error)}`);
-      })
-    );
-  }
-
-  // Send email notification if enabled and configured
-  if (backupConfig.emailEnabled === true && getSMTPConfig()) {
-    const htmlContent = convertTextToHtml(processedTemplate.message);
-    notifications.push(
-      sendEmailNotification(
-        processedTemplate.title,
-        htmlContent,
-        processedTemplate.message
-      ).then(() => {
-        notificationTypes.push('Email');
-      }).catch((error) => {
-        console.error(`Failed to send email notification for backup ${backup.name} on server ${serverName}:`, error instanceof Error ? error.message : String(error));
-        throw new Error(`Email notification failed: ${error instanceof Error ? error.message : String(error)}`);
-      })
-    );
-  }
-
-  // Wait for all notifications to complete
-  if (notifications.length > 0) {
-    try {
-      await Promise.all(notifications);
-      console.log(`Notifications sent (${notificationTypes.join(', ')}) for backup ${backup.name} on server ${serverName}, status: ${status}, notification config: ${notificationConf}`);
-      
-      // Log audit event for successful notification
-      const { AuditLogger } = await import('@/lib/audit-logger');
-      await AuditLogger.logSystem(
-        'notification_sent',
-        {
-          type: 'backup',
-          serverId,
-          serverName,
-          backupName: backup.name,
-          backupStatus: status,
-          channels: notificationTypes,
-        },
-        'success'
-      );
-    } catch (error) {
-      console.error(`Failed to send notifications for backup ${backup.name} on server ${serverName}:`, error instanceof Error ? error.message : String(error));
-      
-      // Log audit event for failed notification
-      const { AuditLogger } = await import('@/lib/audit-logger');
-      await AuditLogger.logSystem(
-        'notification_failed',
-        {
-          type: 'backup',
-          serverId,
-          serverName,
-          backupName: backup.name,
-          backupStatus: status,
-          channels: notificationTypes,
-          error: error instanceof Error ? error.message : String(error),
-        },
-        'error',
-        error instanceof Error ? error.message : String(error)
-      );
-      
-      throw error;
-    }
-  } else {
+  // Store the notification and make the first delivery attempt, failed channels are retried by the cron service
+  const message = enqueueChannelNotifications(config, backupConfig, event, templateType, severity, templateContext, processedTemplate);
+  if (!message) {
     console.log(`No notification channels enabled for backup ${backup.name} on server ${serverName}, skipping`);
+    return;
   }
+  await deliverNotificationMessage(message.id);
 }
 
 export async function sendOverdueBackupNotification(
@@ -636,93 +1006,224 @@ export async function sendOverdueBackupNotification(
   try {
     const processedTemplate = processTemplate(notificationConfig.templates?.overdueBackup || defaultNotificationTemplates.overdueBackup, context);
     
-    // Send notifications based on backup configuration
-    const notifications: Promise<void>[] = [];
-    const notificationTypes: string[] = [];
-
-    // Send NTFY notification if enabled
-    if (backupConfig.ntfyEnabled !== false) { // Default to true if not specified
-      notifications.push(
-        sendNtfyNotification(
-          notificationConfig.ntfy.url,
-          notificationConfig.ntfy.topic,
-          processedTemplate.title,
-          processedTemplate.message,
-          processedTemplate.priority,
-          processedTemplate.tags,
-          notificationConfig.ntfy.accessToken
-        ).then(() => {
-          notificationTypes.push('NTFY');
-        }).catch((error) => {
-          console.error(`Failed to send NTFY overdue notification for ${context.backup_name} on server ${context.server_name}:`, error instanceof Error ? error.message : String(error));
-          throw new Error(`NTFY notification failed: ${error instanceof Error ? error.message : String(error)}`);
-        })
-      );
-    }
-
-    // Send email notification if enabled and configured
-    if (backupConfig.emailEnabled === true && getSMTPConfig()) {
-      const htmlContent = convertTextToHtml(processedTemplate.message);
-      notifications.push(
-        sendEmailNotification(
-          processedTemplate.title,
-          htmlContent,
-          processedTemplate.message
-        ).then(() => {
-          notificationTypes.push('Email');
-        }).catch((error) => {
-          console.error(`Failed to send email overdue notification for ${context.backup_name} on server ${context.server_name}:`, error instanceof Error ? error.message : String(error));
-          throw new Error(`Email notification failed: ${error instanceof Error ? error.message : String(error)}`);
-        })
-      );
-    }
-
-    // Wait for all notifications to complete
-    if (notifications.length > 0) {
-      try {
-        await Promise.all(notifications);
-        console.log(`Overdue notifications sent (${notificationTypes.join(', ')}) for backup ${context.backup_name} on server ${context.server_name}`);
-        
-        // Log audit event for successful overdue notification
-        const { AuditLogger } = await import('@/lib/audit-logger');
-        await AuditLogger.logSystem(
-          'notification_sent',
-          {
-            type: 'overdue',
-            serverId: context.server_id,
-            serverName: context.server_name,
-            backupName: context.backup_name,
-            channels: notificationTypes,
-          },
-          'success'
-        );
-      } catch (error) {
-        console.error(`Failed to send overdue notifications for backup ${context.backup_name} on server ${context.server_name}:`, error instanceof Error ? error.message : String(error));
-        
-        // Log audit event for failed overdue notification
-        const { AuditLogger } = await import('@/lib/audit-logger');
-        await AuditLogger.logSystem(
-          'notification_failed',
-          {
-            type: 'overdue',
-            serverId: context.server_id,
-            serverName: context.server_name,
-            backupName: context.backup_name,
-            channels: notificationTypes,
-            error: error instanceof Error ? error.message : String(error),
-          },
-          'error',
-          error instanceof Error ? error.message : String(error)
-        );
-        
-        throw error;
-      }
-    } else {
+    // Store the notification and make the first delivery attempt, failed channels are retried by the cron service
+    const message = enqueueChannelNotifications(notificationConfig, backupConfig, 'overdue', 'overdueBackup', 'error', context, processedTemplate);
+    if (!message) {
       console.log(`No notification channels enabled for overdue backup ${context.backup_name} on server ${context.server_name}, skipping`);
+      return;
     }
+    await deliverNotificationMessage(message.id);
     
   } catch (error) {
     console.error(`Failed to send overdue backup notification for ${context.backup_name} on server ${context.server_name}:`, error instanceof Error ? error.message : String(error));
     throw error;
   }
-}
\ No newline at end of file
+}
+export async function sendOperationNotification(
+  context: OperationContext
+): Promise<void> {
+  const config = await getNotificationConfig();
+  if (!config) {
+    console.log('No notification configuration found, skipping notification');
+    return;
+  }
+
+  // Operations use the channels of the backup job they ran on; a muted job mutes its operations too
+  const backupConfig = await getBackupSettings(config, context.server_id, context.backup_name);
+  if (!backupConfig || backupConfig.notificationEvent === 'off') {
+    console.log(`Notifications disabled for backup ${context.backup_name} on server ${context.server_name}, skipping ${context.operation} notification`);
+    return;
+  }
+
+  const notificationConf = config.operationNotifications[context.operation] || 'errors';
+  if (!shouldNotifyForEvent(notificationConf, context.status, context.errors_count)) {
+    return;
+  }
+
+  const description = `${context.operation} operation of ${context.backup_name} on server ${context.server_name}`;
+
+  const maintenance = getActiveMaintenance(context.server_id, context.backup_name, new Date(context.backup_date));
+  if (maintenance) {
+    console.log(`Backup ${context.backup_name} on server ${context.server_name} is in maintenance until ${maintenance.until}, skipping ${context.operation} notification`);
+    return;
+  }
+
+  let processedTemplate;
+  try {
+    processedTemplate = processTemplate(config.templates?.operation || defaultNotificationTemplates.operation, context);
+  } catch (error) {
+    console.error(`Failed to process notification template for ${description}:`, error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+
+  const message = enqueueChannelNotifications(config, backupConfig, 'operation', 'operation', getNotificationSeverity(context.status, context.errors_count), context, processedTemplate);
+  if (!message) {
+    console.log(`No notification channels enabled for ${description}, skipping`);
+    return;
+  }
+  await deliverNotificationMessage(message.id);
+}
+
+/**
+ * Alert on every configured channel that the database integrity check failed (cron task 'database-maintenance')
+ * The alert is not tied to a backup: it uses NTFY, and email and the webhook when they are configured.
+ */
+export async function sendDatabaseIntegrityNotification(errors: string[]): Promise<void> {
+  const config = await getNotificationConfig();
+  if (!config) {
+    return;
+  }
+
+  const title = 'duplistatus database integrity check failed';
+  const message = [
+    `The integrity check of the duplistatus database reported ${errors.length} ${errors.length === 1 ? 'problem' : 'problems'}:`,
+    ...errors.map(error => `• ${error}`),
+    '',
+    'Stop duplistatus and restore the database from a backup, or check the database file with the sqlite3 command line tool.',
+  ].join('\n');
+
+  const channels: NotificationChannel[] = ['ntfy'];
+  const emailEnabled = getSMTPConfig() !== null;
+  if (emailEnabled) {
+    channels.push('email');
+  }
+  const webhookEnabled = isWebhookConfigured(config.webhook);
+  if (webhookEnabled) {
+    channels.push('webhook');
+  }
+
+  const queued = enqueueNotificationMessage({
+    event: 'database',
+    serverId: null,
+    serverName: null,
+    backupName: null,
+    title,
+    message,
+    priority: 'urgent',
+    tags: 'rotating_light, floppy_disk',
+    webhookBody: webhookEnabled ? renderWebhookBody(config.webhook.bodyTemplate, { event: 'database', title, message }) : null,
+    emailRecipients: null,
+    emailHtml: null,
+    channels,
+  });
+  await deliverNotificationMessage(queued.id);
+}
+
+// Latest backup row of a backup job, as returned by getLatestBackupByName
+interface StoredBackupRecord {
+  server_id: string;
+  server_name: string;
+  backup_name: string;
+  date: string;
+  status: BackupStatus;
+  warnings: number;
+  errors: number;
+  messages_actual_length: number;
+  examined_files: number;
+  size: number;
+  uploaded_size: number;
+  duration_seconds: number;
+  known_file_size: number;
+  backup_list_count: number | null;
+  messages_array: string | null;
+  warnings_array: string | null;
+  errors_array: string | null;
+  anomalies: string | null;
+}
+
+/**
+ * Render a template with the latest stored run of a backup, as it would be notified.
+ * Values the stored run does not have (overdue times, failing period, operation) use sample values.
+ * With an HTML email template, also renders the email body (the text message converted to HTML when empty).
+ * Returns null when the backup has no stored run.
+ */
+export async function renderTemplatePreview(
+  templateType: keyof NotificationTemplates,
+  template: NotificationTemplate,
+  serverId: string,
+  backupName: string,
+  emailTemplate?: { html: string; dashboardUrl: string }
+): Promise<{ title: string; message: string; html?: string } | null> {
+  const record = dbUtils.getLatestBackupByName(serverId, backupName) as StoredBackupRecord | undefined;
+  if (!record) {
+    return null;
+  }
+
+  const context: NotificationContext = {
+    server_id: record.server_id,
+    server_name: record.server_name,
+    server_alias: '', // populated by buildTemplateVariables
+    server_note: '',
+    server_url: '',
+    backup_name: record.backup_name,
+    backup_date: record.date,
+    status: record.status,
+    messages_count: record.messages_actual_length || 0,
+    warnings_count: record.warnings || 0,
+    errors_count: record.errors || 0,
+    duration: formatDurationHuman(record.duration_seconds || 0),
+    file_count: record.examined_files || 0,
+    file_size: formatBytes(record.size),
+    uploaded_size: formatBytes(record.uploaded_size),
+    storage_size: formatBytes(record.known_file_size),
+    available_versions: record.backup_list_count || 0,
+    duration_seconds: record.duration_seconds || 0,
+    file_size_bytes: record.size || 0,
+    uploaded_size_bytes: record.uploaded_size || 0,
+    storage_size_bytes: record.known_file_size || 0,
+    messages: parseMessageLines(record.messages_array),
+    warnings: parseMessageLines(record.warnings_array),
+    errors: parseMessageLines(record.errors_array),
+  };
+
+  let templateContext: TemplateContext = context;
+  if (templateType === 'overdueBackup') {
+    const backupConfig = (await getConfigBackupSettings())[`${serverId}:${backupName}`];
+    const now = new Date().toISOString();
+    templateContext = {
+      server_id: context.server_id,
+      server_name: context.server_name,
+      server_alias: '',
+      server_note: '',
+      server_url: '',
+      backup_name: context.backup_name,
+      last_backup_date: record.date,
+      last_elapsed: formatRelativeTime(record.date),
+      expected_date: now,
+      expected_elapsed: formatRelativeTime(now),
+      backup_interval: backupConfig?.scheduleMode === 'cron' ? (backupConfig.cronSchedules || []).join(', ') : backupConfig?.expectedInterval || '',
+      overdue_tolerance: getOverdueToleranceLabel(getOverdueToleranceConfig()),
+    };
+  } else if (templateType === 'operation') {
+    templateContext = { ...context, operation: 'Test' };
+  } else if (templateType === 'recovered') {
+    const failedSince = new Date(new Date(record.date).getTime() - 24 * 60 * 60 * 1000).toISOString();
+    templateContext = { ...context, failed_since: failedSince, failed_duration: formatDurationHuman(24 * 60 * 60), failed_runs: 1, previous_status: 'Failed' };
+  } else if (templateType === 'anomaly') {
+    const anomalies = record.anomalies ? JSON.parse(record.anomalies) as BackupAnomaly[] : [];
+    templateContext = {
+      ...context,
+      anomalies: anomalies.map(anomaly => `• ${formatAnomaly(anomaly)}`).join('\n'),
+      anomaly_count: anomalies.length,
+    };
+  }
+
+  const processedTemplate = processTemplate(template, templateContext);
+  if (!emailTemplate) {
+    return { title: processedTemplate.title, message: processedTemplate.message };
+  }
+
+  const severity: NotificationSeverity = templateType === 'overdueBackup' ? 'error'
+    : templateType === 'recovered' ? 'success'
+    : templateType === 'anomaly' ? 'warning'
+    : getNotificationSeverity(record.status, record.errors || 0);
+  const emailTemplates: EmailTemplateConfig = {
+    dashboardUrl: emailTemplate.dashboardUrl,
+    templates: { ...defaultEmailTemplateConfig.templates, [templateType]: emailTemplate.html },
+  };
+  return {
+    title: processedTemplate.title,
+    message: processedTemplate.message,
+    html: renderEmailHtml(emailTemplates, templateType, severity, templateContext, processedTemplate) || convertTextToHtml(processedTemplate.message),
+  };
+}
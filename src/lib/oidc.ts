@@ -0,0 +1,498 @@
+import { constants, createHash, createPublicKey, randomBytes, randomUUID, verify, type JsonWebKey, type KeyObject } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { dbOps } from './db';
+import { hashPassword } from './auth';
+import { encryptData, decryptData } from './secrets';
+import { userRoles } from './utils';
+import type { OidcConfig, UserRole } from './types';
+
+/**
+ * OpenID Connect single sign-on (authorization code flow with PKCE)
+ * The provider is configured from its discovery document, ID tokens are verified
+ * against the provider JWKS and users are provisioned in the local users table
+ */
+
+export const oidcCallbackPath = '/api/auth/oidc/callback';
+export const oidcFlowCookieName = 'oidc_flow';
+const oidcFlowCookiePath = '/api/auth/oidc';
+export const oidcFlowMaxAgeSeconds = 10 * 60; // 10 minutes to complete the login at the provider
+
+const METADATA_CACHE_MS = 60 * 60 * 1000; // 1 hour
+const REQUEST_TIMEOUT_MS = 10000;
+const CLOCK_SKEW_SECONDS = 60;
+
+// Error codes passed to the login page, which maps them to messages
+export type OidcLoginError = 'sso_disabled' | 'sso_failed' | 'sso_no_role' | 'sso_username_taken';
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+// Login state kept in an encrypted cookie between the redirect to the provider and the callback
+export interface OidcFlowState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirect: string;
+  createdAt: number;
+}
+
+export type OidcClaims = Record<string, unknown>;
+
+export interface OidcUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  created: boolean;
+}
+
+interface OidcTokenResponse {
+  id_token?: string;
+  access_token?: string;
+  token_type?: string;
+}
+
+interface JwksKey extends JsonWebKey {
+  kid?: string;
+  use?: string;
+  alg?: string;
+}
+
+interface CachedEntry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+// Signature algorithms accepted for ID tokens (symmetric and "none" are rejected)
+const signatureAlgorithms: Record<string, { hash: string; type: 'rsa' | 'rsa-pss' | 'ec' }> = {
+  RS256: { hash: 'sha256', type: 'rsa' },
+  RS384: { hash: 'sha384', type: 'rsa' },
+  RS512: { hash: 'sha512', type: 'rsa' },
+  PS256: { hash: 'sha256', type: 'rsa-pss' },
+  PS384: { hash: 'sha384', type: 'rsa-pss' },
+  PS512: { hash: 'sha512', type: 'rsa-pss' },
+  ES256: { hash: 'sha256', type: 'ec' },
+  ES384: { hash: 'sha384', type: 'ec' },
+  ES512: { hash: 'sha512', type: 'ec' },
+};
+
+const metadataCache = new Map<string, CachedEntry<OidcProviderMetadata>>();
+const jwksCache = new Map<string, CachedEntry<JwksKey[]>>();
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+function normalizeIssuer(issuer: string): string {
+  return issuer.trim().replace(/\/+$/, '');
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new Error(`Request to ${url} failed with HTTP ${response.status}${body ? `: ${body.substring(0, 200)}` : ''}`);
+  }
+  return await response.json() as T;
+}
+
+/**
+ * Check if single sign-on is enabled and has the settings required to start a login
+ */
+export function isOidcConfigured(config: OidcConfig): boolean {
+  return config.enabled && config.issuer.trim() !== '' && config.clientId.trim() !== '';
+}
+
+/**
+ * Get the origin the browser used to reach the server, honouring reverse proxy headers
+ */
+export function getRequestOrigin(request: NextRequest): string {
+  const host = (request.headers.get('x-forwarded-host') || request.headers.get('host'))?.split(',')[0].trim();
+  if (!host) {
+    return request.nextUrl.origin;
+  }
+  const protocol = request.headers.get('x-forwarded-proto')?.split(',')[0].trim() || request.nextUrl.protocol.replace(':', '');
+  return `${protocol}://${host}`;
+}
+
+/**
+ * Get the redirect URI registered with the provider (configured, or derived from the request)
+ */
+export function getOidcRedirectUri(request: NextRequest, config: OidcConfig): string {
+  if (config.redirectUri.trim() !== '') {
+    return config.redirectUri.trim();
+  }
+  return new URL(oidcCallbackPath, getRequestOrigin(request)).toString();
+}
+
+/**
+ * Only allow relative redirects after login to prevent open redirect vulnerabilities
+ * Backslashes and control characters are rejected (browsers and the URL parser read `/\host` as `//host`),
+ * and the path must still resolve to the same origin.
+ */
+export function sanitizeRedirectPath(redirect: string | null): string {
+  if (!redirect || !redirect.startsWith('/') || redirect.startsWith('//') || /[\\\u0000-\u001f\u007f]/.test(redirect)) {
+    return '/';
+  }
+  try {
+    const base = 'http://localhost';
+    const url = new URL(redirect, base);
+    return url.origin === base ? `${url.pathname}${url.search}${url.hash}` : '/';
+  } catch {
+    return '/';
+  }
+}
+
+/**
+ * Get the login page URL showing a single sign-on error
+ */
+export function getOidcErrorUrl(request: NextRequest, error: OidcLoginError, redirect: string = '/'): string {
+  const url = new URL('/login', getRequestOrigin(request));
+  url.searchParams.set('sso_error', error);
+  if (redirect !== '/') {
+    url.searchParams.set('redirect', redirect);
+  }
+  return url.toString();
+}
+
+/**
+ * Load the provider metadata from its discovery document (cached for an hour)
+ */
+export async function discoverOidcProvider(issuer: string): Promise<OidcProviderMetadata> {
+  const normalizedIssuer = normalizeIssuer(issuer);
+  const cached = metadataCache.get(normalizedIssuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_CACHE_MS) {
+    return cached.value;
+  }
+
+  const metadata = await fetchJson<OidcProviderMetadata>(`${normalizedIssuer}/.well-known/openid-configuration`);
+  if (normalizeIssuer(metadata.issuer || '') !== normalizedIssuer) {
+    throw new Error(`Discovery document issuer "${metadata.issuer}" does not match the configured issuer`);
+  }
+  if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+    throw new Error('Discovery document is missing the authorization, token or JWKS endpoint');
+  }
+
+  metadataCache.set(normalizedIssuer, { value: metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+/**
+ * Clear the cached provider metadata and keys (after the configuration changes)
+ */
+export function clearOidcCache(): void {
+  metadataCache.clear();
+  jwksCache.clear();
+}
+
+/**
+ * Build the provider authorization URL and the state to keep until the callback
+ */
+export function createOidcAuthorizationRequest(
+  config: OidcConfig,
+  metadata: OidcProviderMetadata,
+  redirectUri: string,
+  redirect: string
+): { url: string; flow: OidcFlowState } {
+  const flow: OidcFlowState = {
+    state: base64Url(randomBytes(32)),
+    nonce: base64Url(randomBytes(32)),
+    codeVerifier: base64Url(randomBytes(32)),
+    redirect,
+    createdAt: Date.now(),
+  };
+  const codeChallenge = base64Url(createHash('sha256').update(flow.codeVerifier).digest());
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('scope', config.scopes);
+  url.searchParams.set('state', flow.state);
+  url.searchParams.set('nonce', flow.nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return { url: url.toString(), flow };
+}
+
+// The login state cookie is only sent to the single sign-on routes
+export function setOidcFlowCookie(response: NextResponse, flow: OidcFlowState): void {
+  response.cookies.set(oidcFlowCookieName, encryptData(JSON.stringify(flow)), {
+    httpOnly: true,
+    secure: process.env.SECURE_COOKIES === 'true',
+    sameSite: 'lax',
+    maxAge: oidcFlowMaxAgeSeconds,
+    path: oidcFlowCookiePath,
+  });
+}
+
+export function clearOidcFlowCookie(response: NextResponse): void {
+  response.cookies.delete({ name: oidcFlowCookieName, path: oidcFlowCookiePath });
+}
+
+/**
+ * Decode the login state cookie, returns null when it is missing, tampered with or expired
+ */
+export function decodeOidcFlow(value: string | undefined): OidcFlowState | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    const flow = JSON.parse(decryptData(value)) as OidcFlowState;
+    if (Date.now() - flow.createdAt > oidcFlowMaxAgeSeconds * 1000) {
+      return null;
+    }
+    return flow;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Exchange the authorization code for tokens at the provider token endpoint
+ */
+async function exchangeAuthorizationCode(
+  config: OidcConfig,
+  metadata: OidcProviderMetadata,
+  code: string,
+  codeVerifier: string,
+  redirectUri: string
+): Promise<OidcTokenResponse> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    'Accept': 'application/json',
+  };
+
+  // Confidential clients use client_secret_basic unless the provider only supports client_secret_post
+  const authMethods = metadata.token_endpoint_auth_methods_supported;
+  if (!config.clientSecret) {
+    body.set('client_id', config.clientId);
+  } else if (authMethods && !authMethods.includes('client_secret_basic') && authMethods.includes('client_secret_post')) {
+    body.set('client_id', config.clientId);
+    body.set('client_secret', config.clientSecret);
+  } else {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  return await fetchJson<OidcTokenResponse>(metadata.token_endpoint, { method: 'POST', headers, body });
+}
+
+async function getSigningKey(jwksUri: string, kid: string | undefined, alg: string): Promise<KeyObject> {
+  const findKey = (keys: JwksKey[]) => keys.find(key =>
+    key.use !== 'enc' &&
+    (kid === undefined || key.kid === kid) &&
+    (key.alg === undefined || key.alg === alg)
+  );
+
+  const cached = jwksCache.get(jwksUri);
+  let key = cached && Date.now() - cached.fetchedAt < METADATA_CACHE_MS ? findKey(cached.value) : undefined;
+
+  // Refetch the key set when the key is unknown (the provider may have rotated its keys)
+  if (!key) {
+    const jwks = await fetchJson<{ keys?: JwksKey[] }>(jwksUri);
+    const keys = Array.isArray(jwks.keys) ? jwks.keys : [];
+    jwksCache.set(jwksUri, { value: keys, fetchedAt: Date.now() });
+    key = findKey(keys);
+  }
+
+  if (!key) {
+    throw new Error(`No signing key found for key ID "${kid ?? 'none'}"`);
+  }
+  return createPublicKey({ key, format: 'jwk' });
+}
+
+function decodeJwtPart<T>(part: string): T {
+  return JSON.parse(Buffer.from(part, 'base64url').toString('utf8')) as T;
+}
+
+/**
+ * Verify the ID token signature and claims, returns the token claims
+ */
+async function verifyIdToken(
+  idToken: string,
+  config: OidcConfig,
+  metadata: OidcProviderMetadata,
+  nonce: string
+): Promise<OidcClaims> {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) {
+    throw new Error('ID token is not a signed JWT');
+  }
+
+  const header = decodeJwtPart<{ alg?: string; kid?: string }>(parts[0]);
+  const algorithm = header.alg ? signatureAlgorithms[header.alg] : undefined;
+  if (!header.alg || !algorithm) {
+    throw new Error(`Unsupported ID token signature algorithm "${header.alg ?? 'none'}"`);
+  }
+
+  const key = await getSigningKey(metadata.jwks_uri, header.kid, header.alg);
+  const isValidSignature = verify(
+    algorithm.hash,
+    Buffer.from(`${parts[0]}.${parts[1]}`),
+    algorithm.type === 'rsa-pss'
+      ? { key, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST }
+      : algorithm.type === 'ec'
+        ? { key, dsaEncoding: 'ieee-p1363' }
+        : key,
+    Buffer.from(parts[2], 'base64url')
+  );
+  if (!isValidSignature) {
+    throw new Error('ID token signature is invalid');
+  }
+
+  const claims = decodeJwtPart<OidcClaims>(parts[1]);
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== metadata.issuer) {
+    throw new Error('ID token issuer does not match the provider');
+  }
+  if (!audiences.includes(config.clientId)) {
+    throw new Error('ID token was not issued for this client');
+  }
+  if (audiences.length > 1 && claims.azp !== undefined && claims.azp !== config.clientId) {
+    throw new Error('ID token authorized party does not match this client');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('ID token has expired');
+  }
+  if (claims.nonce !== nonce) {
+    throw new Error('ID token nonce does not match the login request');
+  }
+  if (typeof claims.sub !== 'string' || claims.sub === '') {
+    throw new Error('ID token has no subject');
+  }
+
+  return claims;
+}
+
+/**
+ * Complete the login at the callback: exchange the code, verify the ID token
+ * and add the userinfo claims (providers often only return groups there)
+ */
+export async function completeOidcLogin(
+  config: OidcConfig,
+  code: string,
+  flow: OidcFlowState,
+  redirectUri: string
+): Promise<OidcClaims> {
+  const metadata = await discoverOidcProvider(config.issuer);
+  const tokens = await exchangeAuthorizationCode(config, metadata, code, flow.codeVerifier, redirectUri);
+  if (!tokens.id_token) {
+    throw new Error('Token response has no ID token');
+  }
+
+  const claims = await verifyIdToken(tokens.id_token, config, metadata, flow.nonce);
+
+  if (metadata.userinfo_endpoint && tokens.access_token) {
+    try {
+      const userInfo = await fetchJson<OidcClaims>(metadata.userinfo_endpoint, {
+        headers: { 'Authorization': `Bearer ${tokens.access_token}`, 'Accept': 'application/json' },
+      });
+      if (userInfo.sub === claims.sub) {
+        return { ...userInfo, ...claims };
+      }
+      console.warn('[OIDC] Ignoring userinfo response for a different subject');
+    } catch (error) {
+      console.warn('[OIDC] Failed to fetch userinfo, using ID token claims only:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return claims;
+}
+
+/**
+ * Get the string values of a claim, looked up by name first and then as a dotted path
+ */
+export function getClaimValues(claims: OidcClaims, claimPath: string): string[] {
+  if (claimPath.trim() === '') {
+    return [];
+  }
+
+  let value: unknown = claims[claimPath];
+  if (value === undefined) {
+    value = claimPath.split('.').reduce<unknown>(
+      (current, segment) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[segment] : undefined),
+      claims
+    );
+  }
+
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string | number => typeof item === 'string' || typeof item === 'number').map(String);
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return [String(value)];
+  }
+  return [];
+}
+
+/**
+ * Map the role claim to a role, the highest mapped role wins
+ * Returns null when nothing matches and the default role denies access
+ */
+export function resolveOidcRole(claims: OidcClaims, config: OidcConfig): UserRole | null {
+  const values = getClaimValues(claims, config.roleClaim);
+  for (const role of [...userRoles].reverse()) {
+    if (config.roleMapping[role].some(mappedValue => values.includes(mappedValue))) {
+      return role;
+    }
+  }
+  return config.defaultRole === 'none' ? null : config.defaultRole;
+}
+
+function resolveOidcUsername(claims: OidcClaims, config: OidcConfig): string {
+  const username = getClaimValues(claims, config.usernameClaim)[0] ||
+    getClaimValues(claims, 'email')[0] ||
+    String(claims.sub);
+  return username.trim().toLowerCase();
+}
+
+/**
+ * Find or create the local user for the provider identity
+ * The role (and username) follow the provider on every login
+ */
+export async function provisionOidcUser(
+  claims: OidcClaims,
+  config: OidcConfig
+): Promise<{ user: OidcUser } | { error: OidcLoginError; username: string }> {
+  const subject = String(claims.sub);
+  const username = resolveOidcUsername(claims, config);
+  const role = resolveOidcRole(claims, config);
+  if (!role) {
+    return { error: 'sso_no_role', username };
+  }
+
+  const existingUser = dbOps.getUserByExternalId.get('oidc', subject) as { id: string; username: string } | undefined;
+  const sameNameUser = dbOps.getUserByUsername.get(username) as { id: string } | undefined;
+
+  if (existingUser) {
+    // Keep the current username when the new one is already used by another account
+    const finalUsername = sameNameUser && sameNameUser.id !== existingUser.id ? existingUser.username : username;
+    dbOps.updateExternalUser.run(finalUsername, role, existingUser.id);
+    return { user: { id: existingUser.id, username: finalUsername, role, created: false } };
+  }
+
+  // Never link a provider identity to an existing local account with the same name
+  if (sameNameUser) {
+    return { error: 'sso_username_taken', username };
+  }
+
+  // Single sign-on users get an unusable random password, local login is refused for them
+  const userId = randomUUID();
+  const passwordHash = await hashPassword(randomBytes(32).toString('hex'));
+  dbOps.createExternalUser.run(userId, username, passwordHash, role, 'oidc', subject);
+  return { user: { id: userId, username, role, created: true } };
+}
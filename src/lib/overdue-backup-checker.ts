@@ -1,14 +1,45 @@
-import { dbUtils, getConfigBackupSettings, getConfigOverdueNotifications, setConfigOverdueNotifications, getNotificationFrequencyConfig, getOverdueToleranceConfig, setConfiguration } from '@/lib/db-utils';
+import { dbUtils, getConfigBackupSettings, getConfigOverdueNotifications, setConfigOverdueNotifications, getNotificationFrequencyConfig, getOverdueToleranceConfig, getConfiguration, setConfiguration, getStateChangeNotificationsOnly } from '@/lib/db-utils';
 import { sendOverdueBackupNotification, OverdueBackupContext } from '@/lib/notifications';
 import { getOverdueToleranceLabel } from '@/lib/utils';
 import { OverdueNotifications } from '@/lib/types';
 import { formatRelativeTime } from '@/lib/utils';
 import { validateIntervalString } from '@/lib/interval-utils';
+import { publishLiveEvent } from '@/lib/live-events';
+import { recordBackupOverdue } from '@/lib/backup-incidents';
+import { getActiveMaintenance } from '@/lib/maintenance-windows';
 
 
 // Ensure this runs in Node.js runtime, not Edge Runtime
 export const runtime = 'nodejs';
 
+// Backups found overdue by the previous check, used to publish overdue state changes
+const overdueBackupsConfigKey = 'overdue_backups';
+
+function getPreviousOverdueBackups(): Set<string> {
+  try {
+    const value = JSON.parse(getConfiguration(overdueBackupsConfigKey) || '[]');
+    return new Set(Array.isArray(value) ? value.filter((key): key is string => typeof key === 'string') : []);
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Publish a live event for every backup that became overdue or is no longer overdue since the previous check
+ */
+function publishOverdueChanges(
+  previousOverdue: Set<string>,
+  currentOverdue: Set<string>,
+  checkedBackups: Map<string, { serverId: string; serverName: string; backupName: string }>
+) {
+  for (const [backupKey, backup] of checkedBackups) {
+    const isOverdue = currentOverdue.has(backupKey);
+    if (isOverdue !== previousOverdue.has(backupKey)) {
+      publishLiveEvent({ type: 'overdue-changed', ...backup, isOverdue });
+    }
+  }
+}
+
 // Core function that can be called directly
 export async function checkOverdueBackups(checkDate?: Date) {
   try {
@@ -25,7 +56,8 @@ export async function checkOverdueBackups(checkDate?: Date) {
     const backupSettings = await getConfigBackupSettings();
 
     // Get notification frequency configuration
-    const notificationFrequency = getNotificationFrequencyConfig();
+    // Overdue backups are notified once when notifications are limited to state changes
+    const notificationFrequency = getStateChangeNotificationsOnly() ? 'onetime' : getNotificationFrequencyConfig();
 
     // Get last notification timestamps
     const lastNotifications = getConfigOverdueNotifications();
@@ -36,12 +68,17 @@ export async function checkOverdueBackups(checkDate?: Date) {
     let checkedBackups = 0;
     let overdueBackupsFound = 0;
     let notificationsSent = 0;
+    let notificationsSuppressed = 0;
     const updatedNotifications: OverdueNotifications = { ...lastNotifications };
+    const previousOverdue = getPreviousOverdueBackups();
+    const currentOverdue = new Set<string>();
+    const visitedBackups = new Map<string, { serverId: string; serverName: string; backupName: string }>();
 
     // Iterate through servers and their backup jobs
     for (const server of serversSummary) {
       for (const backupInfo of server.backupInfo) {
         const backupKey = `${server.id}:${backupInfo.name}`;
+        visitedBackups.set(backupKey, { serverId: server.id, serverName: server.name, backupName: backupInfo.name });
 
         // Get the backup configuration
         const backupConfig = backupSettings?.[backupKey];
@@ -60,6 +97,9 @@ export async function checkOverdueBackups(checkDate?: Date) {
         // Use the pre-calculated overdue status from getServersSummary
         if (backupInfo.isBackupOverdue) {
           overdueBackupsFound++;
+          currentOverdue.add(backupKey);
+          // The next good run sends the recovered notification
+          recordBackupOverdue(backupKey, server.name, backupInfo.expectedBackupDate !== 'N/A' ? backupInfo.expectedBackupDate : currentTime.toISOString());
 
           // Check if we should send a notification (with resend frequency logic)
           const lastNotification = lastNotifications[backupKey];
@@ -109,13 +149,26 @@ export async function checkOverdueBackups(checkDate?: Date) {
             }
           }
           
+          // Backups in maintenance stay overdue, they are notified once the maintenance ends
+          if (shouldSendNotification && getActiveMaintenance(server.id, backupInfo.name, currentTime)) {
+            shouldSendNotification = false;
+            notificationsSuppressed++;
+          }
+
+          // Acknowledged backups are not notified again until they change state
+          if (shouldSendNotification && backupInfo.acknowledgement) {
+            shouldSendNotification = false;
+            notificationsSuppressed++;
+          }
+          
           if (shouldSendNotification) {
             try {
               // Calculate overdue time ago using formatRelativeTime
               const overdueTimeAgo = formatRelativeTime(backupInfo.lastBackupDate);
               
-              // Get interval information from backup config
-              const intervalValue = backupConfig.expectedInterval;
+              // Get interval information from backup config (the cron expressions for cron schedules)
+              const isCronSchedule = backupConfig.scheduleMode === 'cron';
+              const intervalValue = isCronSchedule ? (backupConfig.cronSchedules || []).join(', ') : backupConfig.expectedInterval;
               
               // Validate required fields
               if (!server.name || !backupInfo.name || !backupInfo.lastBackupDate) {
@@ -128,8 +181,8 @@ export async function checkOverdueBackups(checkDate?: Date) {
                 continue;
               }
               
-              // Validate interval format
-              const intervalValidation = validateIntervalString(intervalValue);
+              // Validate interval format (cron expressions are validated when the settings are saved)
+              const intervalValidation = isCronSchedule ? { isValid: true } : validateIntervalString(intervalValue);
               if (!intervalValidation.isValid) {
                 console.warn(`Skipping backup ${backupKey}: invalid interval format '${intervalValue}': ${intervalValidation.error}`);
                 continue;
@@ -181,6 +234,10 @@ export async function checkOverdueBackups(checkDate?: Date) {
     // Save the timestamp of when this check was last run
     setConfiguration('last_overdue_check', currentTime.toISOString());
 
+    // Let open dashboards show overdue changes right away
+    publishOverdueChanges(previousOverdue, currentOverdue, visitedBackups);
+    setConfiguration(overdueBackupsConfigKey, JSON.stringify([...currentOverdue]));
+
     return {
       message: 'Overdue backup check completed',
       statistics: {
@@ -188,6 +245,7 @@ export async function checkOverdueBackups(checkDate?: Date) {
         checkedBackups,
         overdueBackupsFound,
         notificationsSent,
+        notificationsSuppressed,
       },
     };
   } catch (error) {
@@ -0,0 +1,116 @@
+import { getAllServerAddresses, getConfiguration, setConfiguration } from './db-utils';
+import { getServerPassword } from './secrets';
+import { getEligibleServers } from './bulk-collection';
+import { collectBackups, parseServerAddress } from './backup-collector';
+import { defaultBackupCollectionConcurrency, backupCollectionConcurrencyLimits } from './default-config';
+import type { BackupCollectionServerStatus, ScheduledCollectionResult, ServerAddress } from './types';
+
+/**
+ * Scheduled backup log collection (cron task 'backup-collection')
+ * Collects from every server with a stored URL and password, so servers whose
+ * HTTP report option is missing or misconfigured are still monitored.
+ */
+
+export const backupCollectionTaskName = 'backup-collection';
+export const backupCollectionConcurrencyConfigKey = 'backup_collection_concurrency';
+const backupCollectionStatusConfigKey = 'backup_collection_status';
+
+// A slow server can make a run last longer than the interval, the next run is skipped instead of overlapping
+let collectionInProgress = false;
+
+export function isValidBackupCollectionConcurrency(value: unknown): value is number {
+  return typeof value === 'number'
+    && Number.isInteger(value)
+    && value >= backupCollectionConcurrencyLimits.min
+    && value <= backupCollectionConcurrencyLimits.max;
+}
+
+export function getBackupCollectionConcurrency(): number {
+  const value = parseInt(getConfiguration(backupCollectionConcurrencyConfigKey) || '', 10);
+  return isValidBackupCollectionConcurrency(value) ? value : defaultBackupCollectionConcurrency;
+}
+
+/**
+ * Get the result of the last scheduled collection of each server, keyed by server ID
+ */
+export function getBackupCollectionStatus(): Record<string, BackupCollectionServerStatus> {
+  try {
+    const value = JSON.parse(getConfiguration(backupCollectionStatusConfigKey) || '{}');
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+  } catch {
+    return {};
+  }
+}
+
+async function collectFromStoredServer(server: ServerAddress): Promise<BackupCollectionServerStatus> {
+  const serverName = server.alias || server.name;
+  const lastRun = new Date().toISOString();
+  try {
+    const password = getServerPassword(server.id);
+    if (!password) {
+      throw new Error('No password stored for this server');
+    }
+    const { hostname, port } = parseServerAddress(server.server_url);
+    const result = await collectBackups({ hostname, port, password });
+    return { serverName, lastRun, success: true, stats: result.stats };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[ScheduledCollection] Failed to collect from ${serverName}:`, errorMessage);
+    return {
+      serverName,
+      lastRun,
+      success: false,
+      error: errorMessage.includes('MASTER_KEY_INVALID')
+        ? 'The master key is no longer valid, the server password must be set again'
+        : errorMessage
+    };
+  }
+}
+
+/**
+ * Collect the backup logs of all servers with stored credentials, a limited number of servers at a time
+ * The result of each server is saved and shown in the settings
+ */
+export async function runScheduledBackupCollection(): Promise<ScheduledCollectionResult> {
+  if (collectionInProgress) {
+    return {
+      message: 'Skipped, the previous collection is still running',
+      statistics: { checkedServers: 0, successfulServers: 0, failedServers: 0, collectedBackups: 0 }
+    };
+  }
+
+  collectionInProgress = true;
+  try {
+    const servers = getEligibleServers(getAllServerAddresses());
+    const queue = [...servers];
+    const status: Record<string, BackupCollectionServerStatus> = {};
+
+    const worker = async () => {
+      let server: ServerAddress | undefined;
+      while ((server = queue.shift())) {
+        status[server.id] = await collectFromStoredServer(server);
+      }
+    };
+
+    const concurrency = Math.min(getBackupCollectionConcurrency(), servers.length);
+    await Promise.all(Array.from({ length: concurrency }, worker));
+
+    // Servers that were deleted or lost their credentials are dropped from the status
+    setConfiguration(backupCollectionStatusConfigKey, JSON.stringify(status));
+
+    const results = Object.values(status);
+    const successfulServers = results.filter(result => result.success).length;
+    const collectedBackups = results.reduce((sum, result) => sum + (result.stats?.processed || 0), 0);
+    return {
+      message: `Collected ${collectedBackups} new backup logs from ${successfulServers} of ${servers.length} servers`,
+      statistics: {
+        checkedServers: servers.length,
+        successfulServers,
+        failedServers: servers.length - successfulServers,
+        collectedBackups
+      }
+    };
+  } finally {
+    collectionInProgress = false;
+  }
+}
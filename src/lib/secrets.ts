@@ -14,6 +14,10 @@ const KEY_DERIVATION_ITERATIONS = 100000; // For key derivation
 const DataDir = './data/';
 const KeyFileName = '.duplistatus.key';
 
+// Shared secret between the application and the cron service
+const CronSecretFileName = '.duplistatus-cron.key';
+const CRON_SECRET_LENGTH = 32;
+
 // Key file path
 const getKeyFilePath = (): string => {
   return path.join(DataDir, KeyFileName);
@@ -227,3 +231,56 @@ export function setServerPassword(serverId: string, password: string): boolean {
   }
 }
 
+/**
+ * Get the shared secret that authenticates the requests of the application to the cron service
+ * Stored like the master key (32 random bytes in the data directory, permissions 0400) and created
+ * by the first process that needs it; the file is linked into place so that the application and the
+ * cron service never read a partially written secret when they start together.
+ * @returns The secret as a hex string
+ */
+export function getCronServiceSecret(): string {
+  const secretPath = path.join(DataDir, CronSecretFileName);
+
+  if (!fs.existsSync(secretPath)) {
+    const tempPath = `${secretPath}.${process.pid}.tmp`;
+    const secret = crypto.randomBytes(CRON_SECRET_LENGTH);
+    try {
+      fs.writeFileSync(tempPath, secret, { mode: 0o400 });
+      fs.linkSync(tempPath, secretPath);
+    } catch (error) {
+      // Another process created the secret first
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw new Error(`Failed to create cron service secret: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } finally {
+      secureCleanup(secret);
+      fs.rmSync(tempPath, { force: true });
+    }
+  }
+
+  const secretData = fs.readFileSync(secretPath);
+  try {
+    if (secretData.length !== CRON_SECRET_LENGTH) {
+      throw new Error(`Invalid cron service secret length. Expected ${CRON_SECRET_LENGTH} bytes, got ${secretData.length}`);
+    }
+    return secretData.toString('hex');
+  } finally {
+    secureCleanup(secretData);
+  }
+}
+
+/**
+ * Check the Authorization header of a request to the cron service (Bearer <secret>)
+ * @param authorization - The Authorization header, if any
+ * @returns true if the header carries the cron service secret
+ */
+export function verifyCronServiceAuthorization(authorization: string | undefined): boolean {
+  const match = /^Bearer\s+(\S+)$/i.exec(authorization || '');
+  if (!match) {
+    return false;
+  }
+  // Compare digests, timingSafeEqual needs buffers of the same length
+  const expected = crypto.createHash('sha256').update(getCronServiceSecret()).digest();
+  const received = crypto.createHash('sha256').update(match[1]).digest();
+  return crypto.timingSafeEqual(expected, received);
+}
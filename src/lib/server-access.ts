@@ -0,0 +1,167 @@
+import { db, dbOps } from './db';
+import type { ServerGroup, UserRole } from './types';
+
+/**
+ * Per-server access scoping for multi-tenant deployments
+ * Scoping starts with the first server group: from then on non-admin users only see the
+ * servers of their groups (none without a group membership) and only admins see every server
+ */
+
+interface ServerAccessUser {
+  userId: string;
+  role: UserRole;
+}
+
+interface ServerGroupRow {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Check if server access is scoped, i.e. at least one server group exists
+ * External API calls without a session are not tied to a server group: while scoping is enabled
+ * the endpoints returning server data only accept them with an admin-issued API key
+ */
+export function isServerScopingEnabled(): boolean {
+  return dbOps.getAllServerGroups.all().length > 0;
+}
+
+/**
+ * Get the IDs of the servers a user may see
+ * Returns null when the user is not restricted (admins, or every caller while no server group exists)
+ */
+export function getAccessibleServerIds(user: ServerAccessUser | null): string[] | null {
+  if (user?.role === 'admin' || !isServerScopingEnabled()) {
+    return null;
+  }
+  if (!user) {
+    return [];
+  }
+
+  const rows = dbOps.getServerIdsForUser.all(user.userId) as { server_id: string }[];
+  return rows.map(row => row.server_id);
+}
+
+export function canAccessServer(serverIds: string[] | null, serverId: string): boolean {
+  return serverIds === null || serverIds.includes(serverId);
+}
+
+/**
+ * Keep only the items whose server is accessible
+ */
+export function filterByServerAccess<T>(items: T[], serverIds: string[] | null, getServerId: (item: T) => string): T[] {
+  if (serverIds === null) {
+    return items;
+  }
+  const allowed = new Set(serverIds);
+  return items.filter(item => allowed.has(getServerId(item)));
+}
+
+/**
+ * Names of the server groups a user belongs to (tenant context for the audit log)
+ */
+export function getUserServerGroupNames(userId: string): string[] {
+  const groups = dbOps.getServerGroupsForUser.all(userId) as { id: string; name: string }[];
+  return groups.map(group => group.name);
+}
+
+/**
+ * Names of the server groups a server belongs to (tenant context for the audit log)
+ */
+export function getServerGroupNamesForServer(serverId: string): string[] {
+  const groups = dbOps.getServerGroupsForServer.all(serverId) as { id: string; name: string }[];
+  return groups.map(group => group.name);
+}
+
+export function getServerGroups(): ServerGroup[] {
+  const groups = dbOps.getAllServerGroups.all() as ServerGroupRow[];
+  const servers = dbOps.getAllServerGroupServers.all() as { group_id: string; server_id: string }[];
+  const users = dbOps.getAllServerGroupUsers.all() as { group_id: string; user_id: string }[];
+
+  return groups.map(group => ({
+    id: group.id,
+    name: group.name,
+    description: group.description || '',
+    serverIds: servers.filter(row => row.group_id === group.id).map(row => row.server_id),
+    userIds: users.filter(row => row.group_id === group.id).map(row => row.user_id),
+    createdAt: group.created_at,
+    updatedAt: group.updated_at,
+  }));
+}
+
+export function getServerGroupById(groupId: string): ServerGroup | null {
+  return getServerGroups().find(group => group.id === groupId) || null;
+}
+
+/**
+ * Replace the servers and users of a server group
+ */
+export function setServerGroupMembers(groupId: string, serverIds: string[], userIds: string[]): void {
+  db.transaction(() => {
+    dbOps.clearServerGroupServers.run(groupId);
+    for (const serverId of serverIds) {
+      dbOps.addServerGroupServer.run(groupId, serverId);
+    }
+
+    dbOps.clearServerGroupUsers.run(groupId);
+    for (const userId of userIds) {
+      dbOps.addServerGroupUser.run(groupId, userId);
+    }
+  })();
+}
+
+export interface ServerGroupInput {
+  name: string;
+  description: string;
+  serverIds: string[];
+  userIds: string[];
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Validate a server group request body, missing fields are taken from the current group (updates)
+ * Returns the error message when the input is invalid
+ */
+export function parseServerGroupInput(
+  body: Record<string, unknown>,
+  current?: ServerGroupInput
+): { input: ServerGroupInput; error?: undefined } | { input?: undefined; error: string } {
+  const name = body.name ?? current?.name;
+  const description = body.description ?? current?.description ?? '';
+  const serverIds = body.serverIds ?? current?.serverIds ?? [];
+  const userIds = body.userIds ?? current?.userIds ?? [];
+
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    return { error: 'Name is required' };
+  }
+  if (typeof description !== 'string') {
+    return { error: 'Description must be a string' };
+  }
+  if (!isStringArray(serverIds) || !isStringArray(userIds)) {
+    return { error: 'serverIds and userIds must be arrays of IDs' };
+  }
+
+  const unknownServer = serverIds.find(serverId => !dbOps.getServerById.get(serverId));
+  if (unknownServer) {
+    return { error: `Server not found: ${unknownServer}` };
+  }
+  const unknownUser = userIds.find(userId => !dbOps.getUserById.get(userId));
+  if (unknownUser) {
+    return { error: `User not found: ${unknownUser}` };
+  }
+
+  return {
+    input: {
+      name: name.trim(),
+      description: description.trim(),
+      serverIds: [...new Set(serverIds)],
+      userIds: [...new Set(userIds)],
+    },
+  };
+}
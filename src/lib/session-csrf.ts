@@ -1,4 +1,5 @@
 import { randomBytes } from 'crypto';
+import type { NextResponse } from 'next/server';
 import { dbOps, ensureDatabaseInitialized } from './db';
 
 // Session configuration
@@ -102,6 +103,19 @@ export function createSession(userId: string | null = null, ipAddress?: string,
 }
 
 
+// Set the session cookie on a login response
+// Note: Secure cookies are disabled by default to support HTTP connections
+// Set SECURE_COOKIES=true in .env if you're using HTTPS
+export function setSessionCookie(response: NextResponse, sessionId: string): void {
+  response.cookies.set('sessionId', sessionId, {
+    httpOnly: true,
+    secure: process.env.SECURE_COOKIES === 'true',
+    sameSite: 'lax',
+    maxAge: SESSION_DURATION_HOURS * 60 * 60,
+    path: '/',
+  });
+}
+
 export function validateSession(sessionId: string): boolean {
   // Try database-backed storage first
   if (isSessionsTableAvailable()) {
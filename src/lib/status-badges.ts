@@ -0,0 +1,190 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { dbOps } from './db';
+import { isBackupOverdueByInterval } from './db-utils';
+import { escapeHtml, formatRelativeTime } from './utils';
+import type { BackupStatus, BadgeToken, BadgeType } from './types';
+
+/**
+ * Embeddable SVG status badges (/api/badge/<serverId>/<backupName>.svg)
+ * Shields-style badges with the last status, the age of the last backup or the overdue state
+ * of a backup job, for wikis and README files. Each backup job has its own token, so a badge
+ * can be embedded without an account and without giving access to anything else.
+ */
+
+export const badgeTypes: BadgeType[] = ['status', 'age', 'overdue'];
+
+const badgeColors = {
+  success: '#4c1',
+  warning: '#dfb317',
+  error: '#e05d44',
+  unknown: '#9f9f9f',
+};
+
+interface BadgeTokenRow {
+  id: string;
+  server_id: string;
+  backup_name: string;
+  created_by: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  usage_count: number;
+}
+
+interface LatestBackupRow {
+  date: string;
+  status: BackupStatus;
+}
+
+export interface Badge {
+  label: string;
+  message: string;
+  color: string;
+}
+
+// Tokens are random and long, a plain SHA-256 hash is enough and keeps badge requests fast (unlike bcrypt)
+function hashBadgeToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function mapBadgeToken(row: BadgeTokenRow): BadgeToken {
+  return {
+    id: row.id,
+    serverId: row.server_id,
+    backupName: row.backup_name,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    usageCount: row.usage_count,
+  };
+}
+
+export function getBadgeTokens(): BadgeToken[] {
+  return (dbOps.getAllBadgeTokens.all() as BadgeTokenRow[]).map(mapBadgeToken);
+}
+
+/**
+ * Create the badge token of a backup job, replacing its previous token
+ * Returns the plain token, which cannot be retrieved later
+ */
+export function createBadgeToken(serverId: string, backupName: string, createdBy: string | null): { id: string; token: string } {
+  const id = randomUUID();
+  const token = randomBytes(24).toString('base64url');
+  dbOps.upsertBadgeToken.run({
+    id,
+    serverId,
+    backupName,
+    tokenHash: hashBadgeToken(token),
+    createdBy,
+    createdAt: new Date().toISOString(),
+  });
+  return { id, token };
+}
+
+/**
+ * Revoke a badge token, returns the deleted token or null when it does not exist
+ */
+export function deleteBadgeToken(id: string): BadgeToken | null {
+  const badgeToken = getBadgeTokens().find(candidate => candidate.id === id);
+  if (!badgeToken) {
+    return null;
+  }
+  dbOps.deleteBadgeToken.run(id);
+  return badgeToken;
+}
+
+/**
+ * Check that a token belongs to the backup job of the badge and record its use
+ * The server is identified by its ID or its name, like /api/lastbackup; returns the server ID, null for invalid tokens
+ */
+export function verifyBadgeToken(token: string, serverIdentifier: string, backupName: string): string | null {
+  const row = dbOps.getBadgeTokenByHash.get(hashBadgeToken(token)) as Pick<BadgeTokenRow, 'id' | 'server_id' | 'backup_name'> | undefined;
+  if (!row || row.backup_name !== backupName) {
+    return null;
+  }
+  if (row.server_id !== serverIdentifier) {
+    const server = dbOps.getServerById.get(row.server_id) as { name: string } | undefined;
+    if (!server || server.name !== serverIdentifier) {
+      return null;
+    }
+  }
+  dbOps.recordBadgeTokenUse.run(new Date().toISOString(), row.id);
+  return row.server_id;
+}
+
+function getStatusColor(status: BackupStatus): string {
+  switch (status) {
+    case 'Success':
+      return badgeColors.success;
+    case 'Warning':
+      return badgeColors.warning;
+    case 'Error':
+    case 'Fatal':
+      return badgeColors.error;
+    default:
+      return badgeColors.unknown;
+  }
+}
+
+/**
+ * Label, message and colour of a badge, from the latest backup of the backup job (like /api/lastbackup)
+ */
+export async function getBadge(type: BadgeType, serverId: string, backupName: string, label?: string): Promise<Badge> {
+  const latestBackup = dbOps.getLatestBackupByName.get(serverId, backupName) as LatestBackupRow | undefined;
+  const isOverdue = latestBackup ? await isBackupOverdueByInterval(serverId, backupName, latestBackup.date) : false;
+
+  switch (type) {
+    case 'age':
+      return {
+        label: label || 'last backup',
+        message: latestBackup ? formatRelativeTime(latestBackup.date) || 'unknown' : 'never',
+        color: !latestBackup ? badgeColors.unknown : isOverdue ? badgeColors.error : badgeColors.success,
+      };
+    case 'overdue':
+      return {
+        label: label || 'overdue',
+        message: !latestBackup ? 'n/a' : isOverdue ? 'yes' : 'no',
+        color: !latestBackup ? badgeColors.unknown : isOverdue ? badgeColors.error : badgeColors.success,
+      };
+    default:
+      return {
+        label: label || backupName,
+        message: latestBackup ? latestBackup.status.toLowerCase() : 'no backups',
+        color: latestBackup ? getStatusColor(latestBackup.status) : badgeColors.unknown,
+      };
+  }
+}
+
+// Approximate width of a text in 11px Verdana, the font of shields-style badges
+function getTextWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    if ('iljI.,:;!|\' '.includes(char)) width += 3.7;
+    else if ('ftr()[]-/'.includes(char)) width += 4.9;
+    else if ('mwMW'.includes(char)) width += 10.5;
+    else if (char >= 'A' && char <= 'Z') width += 7.5;
+    else width += 6.9;
+  }
+  return Math.round(width);
+}
+
+/**
+ * Render a badge as a flat shields-style SVG
+ */
+export function renderBadgeSvg({ label, message, color }: Badge): string {
+  const labelWidth = getTextWidth(label) + 10;
+  const messageWidth = getTextWidth(message) + 10;
+  const width = labelWidth + messageWidth;
+  const safeLabel = escapeHtml(label);
+  const safeMessage = escapeHtml(message);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${safeLabel}: ${safeMessage}">
+<title>${safeLabel}: ${safeMessage}</title>
+<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>
+<clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>
+<g clip-path="url(#r)"><rect width="${labelWidth}" height="20" fill="#555"/><rect x="${labelWidth}" width="${messageWidth}" height="20" fill="${color}"/><rect width="${width}" height="20" fill="url(#s)"/></g>
+<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">
+<text x="${labelWidth / 2}" y="15" fill="#010101" fill-opacity=".3">${safeLabel}</text><text x="${labelWidth / 2}" y="14">${safeLabel}</text>
+<text x="${labelWidth + messageWidth / 2}" y="15" fill="#010101" fill-opacity=".3">${safeMessage}</text><text x="${labelWidth + messageWidth / 2}" y="14">${safeMessage}</text>
+</g>
+</svg>`;
+}
@@ -0,0 +1,84 @@
+import { dbOps } from './db';
+import { getConfiguration, setConfiguration, getServersSummary } from './db-utils';
+import { statusPageHistoryDays } from './default-config';
+import type { BackupStatus, StatusPage, StatusPageDay, StatusPageView } from './types';
+
+/**
+ * Public read-only status pages (/status/<slug>)
+ * Share the health of selected backup jobs without an account: last status, last backup,
+ * overdue state and a daily status bar. Servers are shown by their alias and the notes,
+ * URLs and log messages are never included.
+ */
+
+const statusPagesConfigKey = 'status_pages';
+
+const statusesBySeverity: (BackupStatus | null)[] = [null, 'Success', 'Warning', 'Error', 'Fatal'];
+
+interface DailyBackupStatusRow {
+  server_id: string;
+  backup_name: string;
+  day: string;
+  runs: number;
+  severity: number;
+}
+
+export function getStatusPages(): StatusPage[] {
+  try {
+    const parsed = JSON.parse(getConfiguration(statusPagesConfigKey) || '[]') as StatusPage[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to get status pages:', error instanceof Error ? error.message : String(error));
+    return [];
+  }
+}
+
+export function setStatusPages(pages: StatusPage[]): void {
+  setConfiguration(statusPagesConfigKey, JSON.stringify(pages));
+}
+
+/**
+ * Enabled status page published under a slug, null for unknown or disabled pages
+ */
+export function getPublishedStatusPage(slug: string): StatusPage | null {
+  return getStatusPages().find(page => page.enabled && page.slug === slug) || null;
+}
+
+/**
+ * Build what the public sees of a status page, with one status bar entry per day ending today (UTC)
+ */
+export async function buildStatusPageView(page: StatusPage, now: Date = new Date()): Promise<StatusPageView> {
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const dates = Array.from({ length: statusPageHistoryDays }, (_, index) =>
+    new Date(today.getTime() - (statusPageHistoryDays - 1 - index) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  );
+
+  const serversSummary = await getServersSummary();
+  const dailyStatus = new Map<string, DailyBackupStatusRow>();
+  for (const row of dbOps.getDailyBackupStatus.all({ since: dates[0] }) as DailyBackupStatusRow[]) {
+    dailyStatus.set(`${row.server_id}:${row.backup_name}:${row.day}`, row);
+  }
+
+  const selected = new Set(page.backups);
+  const backups = serversSummary.flatMap(server => server.backupInfo
+    .filter(backup => selected.has(`${server.id}:${backup.name}`))
+    .map(backup => ({
+      serverName: server.alias || server.name,
+      backupName: backup.name,
+      lastBackupStatus: backup.lastBackupStatus,
+      lastBackupDate: backup.lastBackupDate,
+      isOverdue: backup.isBackupOverdue,
+      expectedBackupDate: backup.expectedBackupDate,
+      days: dates.map((date): StatusPageDay => {
+        const row = dailyStatus.get(`${server.id}:${backup.name}:${date}`);
+        return { date, status: row ? statusesBySeverity[row.severity] || 'Unknown' : null, runs: row?.runs || 0 };
+      }),
+    })));
+
+  backups.sort((a, b) => a.serverName.localeCompare(b.serverName) || a.backupName.localeCompare(b.backupName));
+
+  return {
+    title: page.title,
+    generatedAt: now.toISOString(),
+    backups,
+  };
+}
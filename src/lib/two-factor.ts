@@ -0,0 +1,308 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { NextResponse } from 'next/server';
+import { dbOps } from './db';
+import { verifyPassword } from './auth';
+import { getConfiguration } from './db-utils';
+import { encryptData, decryptData } from './secrets';
+
+/**
+ * TOTP two-factor authentication for local accounts (RFC 6238, HMAC-SHA1, 6 digits, 30 seconds)
+ * Secrets are stored encrypted, recovery codes as SHA-256 hashes that are removed once used
+ */
+
+export const requireTwoFactorConfigKey = 'require_two_factor';
+export const twoFactorChallengeCookieName = 'two_factor_challenge';
+const twoFactorChallengeCookiePath = '/api/auth/login';
+export const twoFactorChallengeMaxAgeSeconds = 5 * 60; // 5 minutes to enter the code after the password
+
+const TOTP_ISSUER = 'duplistatus';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW_STEPS = 1; // Accept the previous and next code to tolerate clock drift
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Pending second login step, kept in an encrypted cookie between the password and the code
+export interface TwoFactorChallenge {
+  userId: string;
+  createdAt: number;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+interface UserTwoFactorRow {
+  totp_secret: string | null;
+  totp_enabled: number;
+  totp_recovery_codes: string | null;
+  totp_last_used_step: number | null;
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(value: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let current = 0;
+  for (const char of value.toUpperCase().replace(/[\s=-]/g, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    current = (current << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((current >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function getTimeStep(time: number): number {
+  return Math.floor(time / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+function generateCodeForStep(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Generate a new random TOTP secret (160 bits, base32 encoded for authenticator apps)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Generate the TOTP code of a base32 secret at the given time
+ */
+export function generateTotpCode(secret: string, time: number = Date.now()): string {
+  return generateCodeForStep(base32Decode(secret), getTimeStep(time));
+}
+
+/**
+ * Verify a TOTP code against a base32 secret
+ * Returns the matched time step, or null when the code is invalid or was already used
+ * (steps up to lastUsedStep are rejected so a code cannot be replayed)
+ */
+export function verifyTotpCode(secret: string, code: string, lastUsedStep: number | null = null, time: number = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = getTimeStep(time);
+  for (let step = currentStep - TOTP_WINDOW_STEPS; step <= currentStep + TOTP_WINDOW_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    if (timingSafeEqual(Buffer.from(generateCodeForStep(key, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the otpauth:// URL authenticator apps read from the enrollment QR code
+ */
+export function getOtpauthUrl(secret: string, username: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${username}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Recovery codes are compared without dashes, spaces or case
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.toUpperCase().replace(/[\s-]/g, '')).digest('hex');
+}
+
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(randomBytes(7)).substring(0, 10);
+    return `${code.substring(0, 5)}-${code.substring(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+function parseRecoveryCodes(value: string | null): string[] {
+  if (!value) {
+    return [];
+  }
+  try {
+    const hashes = JSON.parse(value);
+    return Array.isArray(hashes) ? hashes.filter((hash): hash is string => typeof hash === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function getUserTwoFactor(userId: string): UserTwoFactorRow | undefined {
+  return dbOps.getUserTwoFactor.get(userId) as UserTwoFactorRow | undefined;
+}
+
+/**
+ * Check if administrators require two-factor authentication for local accounts
+ */
+export function isTwoFactorRequired(): boolean {
+  return getConfiguration(requireTwoFactorConfigKey) === 'true';
+}
+
+export function getTwoFactorStatus(userId: string): TwoFactorStatus {
+  const row = getUserTwoFactor(userId);
+  const enabled = row?.totp_enabled === 1;
+  return {
+    enabled,
+    required: isTwoFactorRequired(),
+    recoveryCodesRemaining: enabled ? parseRecoveryCodes(row?.totp_recovery_codes ?? null).length : 0,
+  };
+}
+
+/**
+ * Start the enrollment: store a new pending secret (replacing any previous one)
+ * Two-factor authentication is only enabled once a code from the secret is confirmed
+ */
+export function beginTwoFactorSetup(userId: string): string {
+  const secret = generateTotpSecret();
+  dbOps.setUserTotpSecret.run(encryptData(secret), userId);
+  return secret;
+}
+
+/**
+ * Confirm the enrollment with a code from the authenticator app
+ * Returns the new recovery codes (shown only once), or null when the code is invalid
+ */
+export function enableTwoFactor(userId: string, code: string): string[] | null {
+  const row = getUserTwoFactor(userId);
+  if (!row?.totp_secret || row.totp_enabled === 1) {
+    return null;
+  }
+
+  const step = verifyTotpCode(decryptData(row.totp_secret), code);
+  if (step === null) {
+    return null;
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  dbOps.enableUserTwoFactor.run(JSON.stringify(hashes), step, userId);
+  return codes;
+}
+
+/**
+ * Verify the second login step with a TOTP code or a recovery code
+ * Used recovery codes are removed, used TOTP codes cannot be replayed
+ */
+export function verifyTwoFactorCode(userId: string, code: string): TwoFactorMethod | null {
+  const row = getUserTwoFactor(userId);
+  if (!row?.totp_secret || row.totp_enabled !== 1) {
+    return null;
+  }
+
+  const step = verifyTotpCode(decryptData(row.totp_secret), code, row.totp_last_used_step);
+  if (step !== null) {
+    dbOps.updateUserTotpLastUsedStep.run(step, userId);
+    return 'totp';
+  }
+
+  const hashes = parseRecoveryCodes(row.totp_recovery_codes);
+  const codeHash = Buffer.from(hashRecoveryCode(code));
+  const index = hashes.findIndex(hash => timingSafeEqual(Buffer.from(hash), codeHash));
+  if (index !== -1) {
+    hashes.splice(index, 1);
+    dbOps.updateUserRecoveryCodes.run(JSON.stringify(hashes), userId);
+    return 'recovery_code';
+  }
+
+  return null;
+}
+
+/**
+ * Replace the recovery codes of a user with two-factor authentication enabled
+ */
+export function regenerateRecoveryCodes(userId: string): string[] | null {
+  if (getUserTwoFactor(userId)?.totp_enabled !== 1) {
+    return null;
+  }
+  const { codes, hashes } = generateRecoveryCodes();
+  dbOps.updateUserRecoveryCodes.run(JSON.stringify(hashes), userId);
+  return codes;
+}
+
+/**
+ * Confirm the password of a user before disabling 2FA or replacing the recovery codes
+ */
+export async function verifyUserPassword(userId: string, password: string): Promise<boolean> {
+  const user = dbOps.getUserByIdWithPassword.get(userId) as { password_hash: string } | undefined;
+  return !!user && password !== '' && await verifyPassword(password, user.password_hash);
+}
+
+export function disableTwoFactor(userId: string): void {
+  dbOps.resetUserTwoFactor.run(userId);
+}
+
+export function setTwoFactorChallengeCookie(response: NextResponse, userId: string): void {
+  const challenge: TwoFactorChallenge = { userId, createdAt: Date.now() };
+  response.cookies.set(twoFactorChallengeCookieName, encryptData(JSON.stringify(challenge)), {
+    httpOnly: true,
+    secure: process.env.SECURE_COOKIES === 'true',
+    sameSite: 'strict',
+    maxAge: twoFactorChallengeMaxAgeSeconds,
+    path: twoFactorChallengeCookiePath,
+  });
+}
+
+export function clearTwoFactorChallengeCookie(response: NextResponse): void {
+  response.cookies.delete({ name: twoFactorChallengeCookieName, path: twoFactorChallengeCookiePath });
+}
+
+/**
+ * Decode the second login step cookie, returns null when it is missing, tampered with or expired
+ */
+export function decodeTwoFactorChallenge(value: string | undefined): TwoFactorChallenge | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    const challenge = JSON.parse(decryptData(value)) as TwoFactorChallenge;
+    if (Date.now() - challenge.createdAt > twoFactorChallengeMaxAgeSeconds * 1000) {
+      return null;
+    }
+    return challenge;
+  } catch {
+    return null;
+  }
+}
@@ -24,6 +24,50 @@ export interface Backup {
   errors_array: string | null;
   // Available version timestamps (ISO format)
   available_backups: string[] | null;
+  // Statistics deviating from the recent runs of the backup, null when normal or not checked
+  anomalies: BackupAnomaly[] | null;
+}
+
+// Backup statistics checked by the anomaly detection
+export type AnomalyMetric = 'examined_files' | 'size' | 'uploaded_size' | 'duration_seconds';
+
+// A statistic of a backup far from the median of the recent runs of the same backup
+export interface BackupAnomaly {
+  metric: AnomalyMetric;
+  value: number;
+  median: number;
+  score: number | null; // robust z-score, null when the value dropped to zero
+}
+
+export interface AnomalyDetectionConfig {
+  enabled: boolean;
+  sampleSize: number; // recent good runs used as the baseline
+  minSamples: number; // runs needed before a backup is checked
+  thresholds: Record<AnomalyMetric, number>; // robust z-score above which a value is an anomaly, 0 disables the metric
+}
+
+// Duplicati operations reported through the http-report-url option
+export type OperationType = 'Backup' | 'Restore' | 'Test' | 'Compact' | 'Repair' | 'Delete';
+
+// Operations other than Backup, tracked separately from the backup history
+export type NonBackupOperationType = Exclude<OperationType, 'Backup'>;
+
+export interface Operation {
+  id: string;
+  server_id: string;
+  name: string; // backup (job) name the operation ran on
+  operation: NonBackupOperationType;
+  date: string; // ISO string
+  status: BackupStatus;
+  warnings: number;
+  errors: number;
+  messages: number;
+  duration: string; // e.g., "30m 15s"
+  duration_seconds: number; // raw duration in seconds
+  // Message arrays stored as JSON strings
+  messages_array: string | null;
+  warnings_array: string | null;
+  errors_array: string | null;
 }
 
 export interface Server {
@@ -32,6 +76,7 @@ export interface Server {
   alias: string;
   note: string;
   backups: Backup[];
+  operations: Operation[];
   // For chart data pre-computation
   chartData: {
     date: string;
@@ -57,6 +102,7 @@ export interface ServerSummary {
     lastBackupId: string;
     lastBackupStatus: BackupStatus | 'N/A';
     lastBackupDuration: string;
+    lastBackupDurationSeconds: number | null;
     lastBackupListCount: number | null;
     backupCount: number;
     statusHistory: BackupStatus[];
@@ -71,6 +117,8 @@ export interface ServerSummary {
     expectedBackupDate: string;
     expectedBackupElapsed: string;
     lastNotificationSent: string;
+    maintenance: ActiveMaintenance | null;
+    acknowledgement: BackupAcknowledgement | null;
     availableBackups: string[];
   }>;
   totalBackupCount: number;
@@ -119,8 +167,25 @@ export interface EmailConfig {
   hasPassword?: boolean;
 }
 
+export type WebhookMethod = 'POST' | 'PUT' | 'PATCH';
+
+export interface WebhookHeader {
+  name: string;
+  value: string;
+}
+
+export interface WebhookConfig {
+  url: string;
+  method: WebhookMethod;
+  headers: WebhookHeader[];
+  bodyTemplate: string; // JSON template using the same {variables} as the notification templates
+}
+
 export type NotificationEvent = 'all' | 'warnings' | 'errors' | 'off';
 
+// How the expected backup date is computed: Duplicati interval and week days, or cron expressions
+export type BackupScheduleMode = 'interval' | 'cron';
+
 // Interface for backup-based notifications
 export interface BackupNotificationConfig {
   notificationEvent: NotificationEvent;
@@ -128,8 +193,23 @@ export interface BackupNotificationConfig {
   overdueBackupCheckEnabled: boolean;
   allowedWeekDays?: number[]; // allowed week days (0=Sunday, 1=Monday, 2=Tuesday, 3=Wednesday, 4=Thursday, 5=Friday, 6=Saturday)
   time: string; // ISO timestamp of scheduled backup time from Duplicati
+  scheduleMode?: BackupScheduleMode; // defaults to 'interval'
+  cronSchedules?: string[]; // cron expressions used when scheduleMode is 'cron', e.g. ["0 2 * * 1-5", "0 14 * * 6"]
+  scheduleTimezone?: string; // IANA time zone of the cron expressions, the server time zone if empty
   ntfyEnabled: boolean; // whether to send NTFY notifications for this backup
   emailEnabled: boolean; // whether to send email notifications for this backup
+  webhookEnabled: boolean; // whether to send webhook notifications for this backup
+  emailRecipientGroups?: Partial<Record<NotificationSeverity, string[]>>; // recipient group IDs per severity, the default recipient when empty
+}
+
+// Severity of a notification, used to route emails to recipient groups
+export type NotificationSeverity = 'success' | 'warning' | 'error';
+
+// Named list of email addresses that backups can send their notifications to
+export interface EmailRecipientGroup {
+  id: string;
+  name: string;
+  recipients: string[];
 }
 
 // Helper type for backup identification
@@ -142,17 +222,41 @@ export interface NotificationTemplate {
   message: string;
 }
 
+export interface NotificationTemplates {
+  success: NotificationTemplate;
+  warning: NotificationTemplate;
+  overdueBackup: NotificationTemplate;
+  operation: NotificationTemplate;
+  recovered: NotificationTemplate;
+  anomaly: NotificationTemplate;
+}
+
+// HTML bodies of the notification emails, one per notification template; the text template is the plain text alternative
+// and its title the subject. An empty HTML template sends the text message converted to HTML.
+export type EmailTemplates = Record<keyof NotificationTemplates, string>;
+
+export interface EmailTemplateConfig {
+  dashboardUrl: string; // address of duplistatus used for the links to the detail pages, empty for no links
+  templates: EmailTemplates;
+}
+
+// Which results of non-backup operations (Restore, Test, Compact, Repair, Delete) trigger notifications
+export type OperationNotificationConfig = Record<NonBackupOperationType, NotificationEvent>;
+
 // Deprecated: NotificationConfig has been replaced by separate keys and unified response shape
 
 export type CronInterval = 'disabled' | '1min' | '5min'| '10min' | '15min' | '20min' | '30min' | '1hour' | '2hours';
 
+export interface CronTaskConfig {
+  cronExpression: string;
+  enabled: boolean;
+  timezone?: string; // IANA time zone of the cron expression, UTC when not set
+}
+
 export interface CronServiceConfig {
   port: number;
   tasks: {
-    [taskName: string]: {
-      cronExpression: string;
-      enabled: boolean;
-    };
+    [taskName: string]: CronTaskConfig;
   };
 }
 
@@ -171,12 +275,93 @@ export interface TaskExecutionResult {
   statistics?: Record<string, unknown>;
 }
 
+// An execution of a cron service task, kept in the task run history
+export interface CronTaskRun {
+  id: number;
+  taskName: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  success: boolean;
+  message: string | null;
+  error: string | null;
+  statistics: Record<string, unknown> | null;
+}
+
+// Runs of a task during one hour (UTC), for the run history chart
+export interface CronTaskRunHour {
+  hour: string; // YYYY-MM-DDTHH
+  runs: number;
+  failures: number;
+  avgDurationMs: number;
+  maxDurationMs: number;
+}
+
+export interface CronTaskRunSummary {
+  taskName: string;
+  runs: number;
+  failures: number;
+  lastStartedAt: string | null;
+}
+
+// Size of the database files, in bytes
+export interface DatabaseSize {
+  databaseBytes: number;
+  walBytes: number;
+  freeBytes: number; // unused pages inside the database file, reclaimed by a vacuum
+}
+
+// Result of the scheduled database maintenance (cron task 'database-maintenance')
+export interface DatabaseMaintenanceReport {
+  startedAt: string; // ISO timestamp
+  finishedAt: string; // ISO timestamp
+  durationMs: number;
+  integrityOk: boolean;
+  integrityErrors: string[]; // first problems reported by PRAGMA integrity_check
+  analyzed: boolean;
+  vacuum: 'incremental' | 'full' | 'skipped';
+  checkpoint: { busy: number; log: number; checkpointed: number } | null;
+  sizeBefore: DatabaseSize;
+  sizeAfter: DatabaseSize;
+  error: string | null;
+}
+
 export interface OverdueBackupCheckResult {
   message: string;
   statistics?: {
     checkedBackups: number;
     overdueBackupsFound: number;
     notificationsSent: number;
+    notificationsSuppressed?: number; // overdue backups in maintenance or acknowledged
+  };
+}
+
+// Settings of the scheduled backup log collection (cron task 'backup-collection')
+export interface BackupCollectionSettings {
+  interval: CronInterval;
+  concurrency: number;
+}
+
+// Result of the last scheduled collection from a server
+export interface BackupCollectionServerStatus {
+  serverName: string;
+  lastRun: string;
+  success: boolean;
+  error?: string;
+  stats?: {
+    processed: number;
+    skipped: number;
+    errors: number;
+  };
+}
+
+export interface ScheduledCollectionResult {
+  message: string;
+  statistics: {
+    checkedServers: number;
+    successfulServers: number;
+    failedServers: number;
+    collectedBackups: number;
   };
 }
 
@@ -194,6 +379,286 @@ export interface OverdueNotificationTimestamp {
 // Type for overdue backup notifications configuration
 export type OverdueNotifications = Record<BackupKey, OverdueNotificationTimestamp>;
 
+// Failing state of a backup, open from the first failed run or overdue check until the next good run
+export interface BackupIncident {
+  since: string; // ISO timestamp of the first failed run, or of the expected backup date when overdue
+  failedRuns: number;
+  lastStatus: BackupStatus | 'Overdue';
+  serverName: string;
+}
+
+// Type for the open backup incidents configuration
+export type BackupIncidents = Record<BackupKey, BackupIncident>;
+
+// Problem state of a backup shown on the dashboard, a failed last run takes precedence over overdue
+export type BackupProblemState = 'failed' | 'overdue';
+
+// Acknowledgement of the current problem of a backup ("seen, being handled"), cleared when the backup changes state
+export interface BackupAcknowledgement {
+  state: BackupProblemState;
+  comment: string;
+  assignee: string | null;
+  acknowledgedBy: string;
+  acknowledgedAt: string; // ISO timestamp
+}
+
+// Type for the backup acknowledgements configuration
+export type BackupAcknowledgements = Record<BackupKey, BackupAcknowledgement>;
+
+// Maintenance windows suppress the notifications of a server or of one of its backups
+export type MaintenanceRecurrence = 'none' | 'daily' | 'weekly' | 'monthly';
+
+export interface MaintenanceWindow {
+  id: string;
+  serverId: string;
+  backupName: string | null; // null applies the window to every backup of the server
+  startTime: string; // ISO timestamp, start of the first occurrence for recurring windows
+  endTime: string; // ISO timestamp, end of the first occurrence for recurring windows
+  recurrence: MaintenanceRecurrence;
+  reason: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+// Maintenance window with its occurrence in progress or the next one (null once a one-off window has ended)
+export interface MaintenanceWindowListItem extends MaintenanceWindow {
+  occurrence: { start: string; end: string } | null;
+}
+
+// Maintenance window occurrence in progress for a backup
+export interface ActiveMaintenance {
+  windowId: string;
+  reason: string;
+  until: string; // ISO timestamp of the end of the current occurrence
+}
+
+// Kind of notification sent for a backup (the webhook {event} variable, plus 'test' for test notifications)
+export type NotificationMessageEvent = 'backup' | 'overdue' | 'operation' | 'recovered' | 'anomaly' | 'database';
+
+export type NotificationChannel = 'ntfy' | 'email' | 'webhook';
+
+// Delivery of a queued notification on one channel
+export interface NotificationChannelDelivery {
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;
+  lastError: string | null;
+  sentAt: string | null; // ISO timestamp
+}
+
+// 'dead' messages failed on at least one channel after the last retry, they are only sent again by a manual resend
+export type NotificationMessageStatus = 'pending' | 'sent' | 'dead';
+
+// Notification queued in the delivery outbox, kept as the notification history
+export interface NotificationOutboxMessage {
+  id: string;
+  event: NotificationMessageEvent;
+  serverId: string | null;
+  serverName: string | null;
+  backupName: string | null;
+  title: string;
+  message: string;
+  priority: string;
+  tags: string;
+  webhookBody: string | null; // rendered webhook payload, null when the webhook channel is not used
+  emailRecipients: string[] | null; // addresses of the routed recipient groups, null for the default recipient
+  emailHtml: string | null; // rendered HTML email template, null to send the text message converted to HTML
+  channels: Partial<Record<NotificationChannel, NotificationChannelDelivery>>;
+  status: NotificationMessageStatus;
+  attempts: number;
+  nextAttemptAt: string | null; // ISO timestamp, null once sent or dead
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NotificationDeliveryResult {
+  message: string;
+  statistics: {
+    delivered: number;
+    retried: number;
+    deadLettered: number;
+  };
+}
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+// Settings of the backup digest email (cron task 'backup-digest')
+export interface DigestConfig {
+  enabled: boolean;
+  frequency: DigestFrequency;
+  hour: number; // 0-23, UTC
+  weekday: number; // 0 (Sunday) to 6, weekly digests only
+  recipients: string[];
+}
+
+// A backup job in the digest, with its runs during the digest period
+export interface DigestBackupJob {
+  serverId: string;
+  serverName: string;
+  backupName: string;
+  lastBackupStatus: BackupStatus | 'N/A';
+  lastBackupDate: string;
+  isOverdue: boolean;
+  expectedBackupDate: string;
+  runs: number;
+  successfulRuns: number;
+  failedRuns: number;
+  storageSize: number;
+  storageGrowth: number | null; // null when the job has no backup before the period
+  maxDurationSeconds: number | null;
+}
+
+export interface BackupDigest {
+  frequency: DigestFrequency;
+  periodStart: string;
+  periodEnd: string;
+  totals: {
+    servers: number;
+    backupJobs: number;
+    runs: number;
+    successfulRuns: number;
+    failedRuns: number;
+    successRate: number | null; // percentage of successful runs, null without runs
+    storageSize: number;
+    storageGrowth: number;
+    uploadedSize: number;
+  };
+  failedJobs: DigestBackupJob[];
+  overdueJobs: DigestBackupJob[];
+  storageGrowthJobs: DigestBackupJob[];
+  slowestJobs: DigestBackupJob[];
+}
+
+export interface DigestEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface DigestResult {
+  message: string;
+  statistics: {
+    recipients: number;
+    backupJobs: number;
+    failedJobs: number;
+    overdueJobs: number;
+  };
+}
+
+// Public read-only status page (/status/<slug>), shared without an account
+export interface StatusPage {
+  id: string;
+  slug: string;
+  title: string;
+  enabled: boolean;
+  backups: BackupKey[];
+}
+
+// Worst status of the backup runs of one day (UTC), null when the backup did not run
+export interface StatusPageDay {
+  date: string; // YYYY-MM-DD
+  status: BackupStatus | null;
+  runs: number;
+}
+
+// A backup job as shown publicly: server alias only, no notes or URLs
+export interface StatusPageBackup {
+  serverName: string;
+  backupName: string;
+  lastBackupStatus: BackupStatus | 'N/A';
+  lastBackupDate: string;
+  isOverdue: boolean;
+  expectedBackupDate: string;
+  days: StatusPageDay[];
+}
+
+export interface StatusPageView {
+  title: string;
+  generatedAt: string;
+  backups: StatusPageBackup[];
+}
+
+// Embeddable SVG badges of a backup job (/api/badge/<serverId>/<backupName>.svg)
+export type BadgeType = 'status' | 'age' | 'overdue';
+
+// Token of the badges of a backup job, the token itself is only shown when it is created
+export interface BadgeToken {
+  id: string;
+  serverId: string;
+  backupName: string;
+  createdBy: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  usageCount: number;
+}
+
+// Live dashboard events streamed by /api/events (Server-Sent Events)
+export interface BackupReceivedEvent {
+  type: 'backup-received';
+  serverId: string;
+  serverName: string;
+  backupName: string;
+  operation: string;
+  status: string;
+  date: string;
+}
+
+export interface CollectionCompletedEvent {
+  type: 'collection-completed';
+  serverId: string;
+  serverName: string;
+  processed: number;
+  skipped: number;
+  errors: number;
+}
+
+export interface OverdueChangedEvent {
+  type: 'overdue-changed';
+  serverId: string;
+  serverName: string;
+  backupName: string;
+  isOverdue: boolean;
+}
+
+export type LiveEvent = BackupReceivedEvent | CollectionCompletedEvent | OverdueChangedEvent;
+
+export type LiveEventType = LiveEvent['type'];
+
+// User roles: viewer (read-only), operator (collect backups, test notifications) and admin (full access)
+export type UserRole = 'viewer' | 'operator' | 'admin';
+
+// How a user signs in: local password or OpenID Connect single sign-on
+export type AuthProvider = 'local' | 'oidc';
+
+// Claim values (e.g. group names) that grant each role, checked from admin down to viewer
+export type OidcRoleMapping = Record<UserRole, string[]>;
+
+// OpenID Connect single sign-on configuration (authorization code flow with PKCE)
+export interface OidcConfig {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  clientSecret: string; // stored encrypted, empty for public clients
+  scopes: string; // space separated, must include "openid"
+  redirectUri: string; // empty to derive it from the request URL
+  usernameClaim: string;
+  roleClaim: string; // dotted path for nested claims (e.g. "realm_access.roles")
+  roleMapping: OidcRoleMapping;
+  defaultRole: UserRole | 'none'; // role when no mapping matches, 'none' denies the login
+  buttonLabel: string;
+}
+
+// Server group (tenant): users in a group only see the group's servers
+export interface ServerGroup {
+  id: string;
+  name: string;
+  description: string;
+  serverIds: string[];
+  userIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Interface for API Keys (upload authentication)
 export interface ApiKey {
   id: string;
@@ -1,7 +1,7 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
 import { parseISO, isValid } from 'date-fns';
-import type { BackupStatus, NotificationEvent, OverdueTolerance } from './types';
+import type { AnomalyMetric, BackupAnomaly, BackupProblemState, BackupStatus, NotificationEvent, NotificationChannel, NotificationSeverity, OverdueTolerance, NonBackupOperationType, UserRole, LiveEventType, OverallSummary, ServerSummary } from './types';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -432,6 +432,30 @@ export function extractAvailableBackups(messagesArray: string | null): string[]
   return availableBackups.sort((a, b) => b.localeCompare(a));
 }
 
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Lines of a message, warning or error list, either received from Duplicati or stored as a JSON blob
+export function parseMessageLines(value: unknown): string[] {
+  let lines = value;
+  if (typeof value === 'string') {
+    try {
+      lines = JSON.parse(value);
+    } catch {
+      return value.trim() === '' ? [] : [value];
+    }
+  }
+  if (!Array.isArray(lines)) return [];
+  return lines
+    .filter(line => line !== null && line !== undefined)
+    .map(line => typeof line === 'string' ? line : JSON.stringify(line));
+}
+
 // Utility function to format duration from seconds in human-readable format
 export function formatDurationHuman(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
@@ -447,6 +471,33 @@ export function formatDurationHuman(seconds: number): string {
   }
 }
 
+/**
+ * Calculate the dashboard totals from the server summaries (also used by the live dashboard updates)
+ */
+export function calculateOverallSummary(
+  serversSummary: Array<Pick<ServerSummary, 'totalBackupCount' | 'totalUploadedSize' | 'totalStorageSize' | 'totalFileSize'> & {
+    backupInfo: Array<Pick<ServerSummary['backupInfo'][number], 'isBackupOverdue'>>;
+  }>
+): OverallSummary {
+  return serversSummary.reduce((totals, server) => ({
+    totalServers: totals.totalServers + 1,
+    totalBackupsRuns: totals.totalBackupsRuns + server.totalBackupCount,
+    totalBackups: totals.totalBackups + server.backupInfo.length,
+    totalUploadedSize: totals.totalUploadedSize + server.totalUploadedSize,
+    totalStorageUsed: totals.totalStorageUsed + server.totalStorageSize,
+    totalBackupSize: totals.totalBackupSize + server.totalFileSize,
+    overdueBackupsCount: totals.overdueBackupsCount + server.backupInfo.filter(backup => backup.isBackupOverdue).length,
+  }), {
+    totalServers: 0,
+    totalBackupsRuns: 0,
+    totalBackups: 0,
+    totalUploadedSize: 0,
+    totalStorageUsed: 0,
+    totalBackupSize: 0,
+    overdueBackupsCount: 0,
+  });
+}
+
 /**
  * Get status color class for backup status
  */
@@ -466,6 +517,121 @@ export function getStatusColor(status: BackupStatus | 'N/A'): string {
   }
 }
 
+// Duplicati operations other than Backup that are accepted on upload, in display order
+export const nonBackupOperationTypes: NonBackupOperationType[] = ['Restore', 'Test', 'Compact', 'Repair', 'Delete'];
+
+export function isNonBackupOperationType(value: unknown): value is NonBackupOperationType {
+  return typeof value === 'string' && (nonBackupOperationTypes as string[]).includes(value);
+}
+
+// User roles from least to most privileged; each role includes the permissions of the previous ones
+export const userRoles: UserRole[] = ['viewer', 'operator', 'admin'];
+
+export const userRoleLabels: Record<UserRole, string> = {
+  viewer: 'Viewer',
+  operator: 'Operator',
+  admin: 'Admin',
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (userRoles as string[]).includes(value);
+}
+
+// Stored roles that are not recognized get the least privileged role
+export function toUserRole(value: unknown): UserRole {
+  return isUserRole(value) ? value : 'viewer';
+}
+
+/**
+ * Check if a role grants the permissions of the required role
+ */
+export function hasRequiredRole(role: UserRole | undefined, requiredRole: UserRole): boolean {
+  if (!role) return false;
+  return userRoles.indexOf(role) >= userRoles.indexOf(requiredRole);
+}
+
+/**
+ * Get the problem state of a backup from its last run and overdue status, null when the backup is fine
+ */
+export function getBackupProblemState(lastStatus: BackupStatus | 'N/A', isOverdue: boolean): BackupProblemState | null {
+  if (lastStatus === 'Error' || lastStatus === 'Fatal') return 'failed';
+  return isOverdue ? 'overdue' : null;
+}
+
+// Backup statistics checked by the anomaly detection, in display order
+export const anomalyMetrics: AnomalyMetric[] = ['examined_files', 'size', 'uploaded_size', 'duration_seconds'];
+
+export const anomalyMetricLabels: Record<AnomalyMetric, string> = {
+  examined_files: 'Examined files',
+  size: 'Size',
+  uploaded_size: 'Uploaded size',
+  duration_seconds: 'Duration',
+};
+
+export function formatAnomalyValue(metric: AnomalyMetric, value: number): string {
+  switch (metric) {
+    case 'size':
+    case 'uploaded_size':
+      return formatBytes(value);
+    case 'duration_seconds':
+      return formatDurationHuman(value);
+    default:
+      return value.toLocaleString();
+  }
+}
+
+/**
+ * Describe an anomaly, e.g. "Duration: 2h 5m 0s (usually 12m 30s)"
+ */
+export function formatAnomaly(anomaly: BackupAnomaly): string {
+  return `${anomalyMetricLabels[anomaly.metric]}: ${formatAnomalyValue(anomaly.metric, anomaly.value)} (usually ${formatAnomalyValue(anomaly.metric, anomaly.median)})`;
+}
+
+export const notificationChannelLabels: Record<NotificationChannel, string> = {
+  ntfy: 'NTFY',
+  email: 'Email',
+  webhook: 'Webhook',
+};
+
+export const notificationSeverityLabels: Record<NotificationSeverity, string> = {
+  success: 'Success',
+  warning: 'Warnings',
+  error: 'Errors',
+};
+
+// Day names indexed like Date.getDay() and the cron day-of-week field
+export const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Digest and recipient group recipients are single email addresses (lists are split on commas and semicolons)
+export function isValidEmailRecipient(value: unknown): value is string {
+  return typeof value === 'string' && /^[^\s@,;]+@[^\s@,;]+$/.test(value);
+}
+
+// Status page slugs are lowercase words separated by single hyphens, used in the /status/<slug> URL
+export const statusPageSlugMaxLength = 64;
+
+export function isValidStatusPageSlug(slug: string): boolean {
+  return slug.length <= statusPageSlugMaxLength && /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug);
+}
+
+// Recipients are entered one per line or separated by commas
+export function parseEmailRecipients(value: string): string[] {
+  return value.split(/[\n,;]/).map(recipient => recipient.trim()).filter(recipient => recipient !== '');
+}
+
+// Names of the cron service tasks shown in the settings (tasks missing here are shown by their key)
+export const cronTaskLabels: Record<string, string> = {
+  'overdue-backup-check': 'Overdue Backup Check',
+  'audit-log-cleanup': 'Audit Log Cleanup',
+  'backup-collection': 'Scheduled Collection',
+  'backup-digest': 'Backup Digest',
+  'notification-delivery': 'Notification Delivery',
+  'database-maintenance': 'Database Maintenance',
+};
+
+// Event names sent by /api/events (one Server-Sent Events `event:` name per live event type)
+export const liveEventTypes: LiveEventType[] = ['backup-received', 'collection-completed', 'overdue-changed'];
+
 /**
  * Get notification icon type for notification events
  */
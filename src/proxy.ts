@@ -8,6 +8,8 @@ const ENABLE_IP_WHITELIST = process.env.ENABLE_ADMIN_IP_WHITELIST === 'true';
 // Public paths that don't require IP whitelisting
 const PUBLIC_PATHS = [
   '/api/upload',           // Backup upload endpoint (for Duplicati servers)
+  '/status/',              // Public status pages (shared without an account)
+  '/api/badge/',           // Status badges (authenticated by their badge token)
   '/api/health',           // Health check endpoint
   '/_next',                // Next.js static assets
   '/favicon.ico',          // Favicon
@@ -44,13 +44,20 @@ const sidebars: SidebarsConfig = {
             'user-guide/settings/overview',
             'user-guide/settings/backup-notifications-settings',
             'user-guide/settings/overdue-settings',
+            'user-guide/settings/maintenance-windows-settings',
+            'user-guide/settings/digest-email-settings',
             'user-guide/settings/notification-templates',
+            'user-guide/settings/notification-history',
             'user-guide/settings/ntfy-settings',
             'user-guide/settings/email-settings',
             'user-guide/settings/server-settings',
+            'user-guide/settings/task-schedules',
+            'user-guide/settings/task-history',
             'user-guide/settings/display-settings',
             'user-guide/settings/database-maintenance',
             'user-guide/settings/user-management-settings',
+            'user-guide/settings/status-pages-settings',
+            'user-guide/settings/status-badges-settings',
             'user-guide/settings/audit-log-settings',
           ],
         },